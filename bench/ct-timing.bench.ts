@@ -0,0 +1,85 @@
+/**
+ * dudect-style timing test of decapsulation with valid versus invalid cipher
+ * texts
+ *
+ * Measures `decrypt` on randomly interleaved valid cipher texts and cipher
+ * texts with one flipped bit, then runs Welch's t-test on the two timing
+ * distributions, both as measured and cropped at several percentiles to drop
+ * interruptions. A |t| above 4.5 means the timings are likely to differ.
+ *
+ * Run with `bun run bench:ct`, optionally followed by the number of
+ * measurements per parameter set
+ */
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber768_90sService } from "../src/services/kyber768-90s.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+
+const measurements = Number(process.argv[2] ?? 4000);
+const poolSize = 64;
+const threshold = 4.5;
+const percentiles = [1, 0.9, 0.75, 0.5];
+
+/**
+ * Welch's t statistic of two samples
+ */
+function welchT(a: number[], b: number[]): number {
+    const mean = (x: number[]) => x.reduce((s, v) => s + v, 0) / x.length;
+    const variance = (x: number[], m: number) => x.reduce((s, v) => s + (v - m) * (v - m), 0) / (x.length - 1);
+    const ma = mean(a);
+    const mb = mean(b);
+    return (ma - mb) / Math.sqrt(variance(a, ma) / a.length + variance(b, mb) / b.length);
+}
+
+/**
+ * Keep the measurements of both classes below the given percentile of all
+ * measurements
+ */
+function crop(timings: number[][], p: number): number[][] {
+    const all = timings[0].concat(timings[1]).sort((x, y) => x - y);
+    const limit = all[Math.min(all.length - 1, Math.floor(p * all.length))];
+    return timings.map((t) => t.filter((v) => v <= limit));
+}
+
+function measure(service: KyberService): number {
+    const [publicKey, privateKey] = service.generateKyberKeys();
+    const pools: Uint8Array[][] = [[], []];
+    for (let i = 0; i < poolSize; i++) {
+        const [valid] = service.encrypt(publicKey);
+        const invalid = valid.slice();
+        invalid[i % invalid.length] ^= 1 << (i & 7);
+        pools[0].push(valid);
+        pools[1].push(invalid);
+    }
+
+    // warm up the JIT on both classes before measuring
+    for (let i = 0; i < 100; i++) {
+        service.decrypt(pools[i & 1][i % poolSize], privateKey);
+    }
+
+    const timings: number[][] = [[], []];
+    for (let i = 0; i < measurements; i++) {
+        const c = Math.random() < 0.5 ? 0 : 1;
+        const cipherText = pools[c][i % poolSize];
+        const start = process.hrtime.bigint();
+        service.decrypt(cipherText, privateKey);
+        timings[c].push(Number(process.hrtime.bigint() - start));
+    }
+
+    let max = 0;
+    for (const p of percentiles) {
+        const [valid, invalid] = crop(timings, p);
+        max = Math.max(max, Math.abs(welchT(valid, invalid)));
+    }
+    const verdict = max > threshold ? "timings likely differ" : "no difference detected";
+    console.log(service.getAlgorithm().padEnd(16) + ("max |t| " + max.toFixed(2)).padStart(16) + "  " + verdict);
+    return max;
+}
+
+let leaks = 0;
+for (const service of [new Kyber768Service(), new Kyber768_90sService(), new MlKem768Service()]) {
+    if (measure(service) > threshold) {
+        leaks++;
+    }
+}
+process.exitCode = leaks > 0 ? 1 : 0;
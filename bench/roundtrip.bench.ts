@@ -0,0 +1,45 @@
+/**
+ * Key generation, encapsulation and decapsulation timings
+ *
+ * Run with `bun run bench`
+ */
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber1024Service } from "../src/services/kyber1024.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+
+const iterations = 200;
+
+function time(label: string, fn: () => void): number {
+    // warm up the JIT before measuring
+    for (let i = 0; i < 20; i++) {
+        fn();
+    }
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) {
+        fn();
+    }
+    const perOp = (performance.now() - start) / iterations;
+    console.log(label.padEnd(32) + perOp.toFixed(3).padStart(9) + " ms/op" + (1000 / perOp).toFixed(0).padStart(9) + " ops/s");
+    return perOp;
+}
+
+function bench(service: KyberService): void {
+    const name = service.getAlgorithm();
+    const [publicKey, privateKey] = service.generateKyberKeys();
+    const [cipherText] = service.encrypt(publicKey);
+
+    const keygen = time(name + " keygen", () => service.generateKyberKeys());
+    const encaps = time(name + " encaps", () => service.encrypt(publicKey));
+    const parsedPublicKey = service.parsePublicKey(publicKey);
+    time(name + " encaps (parsed key)", () => parsedPublicKey.encapsulate());
+    const decaps = time(name + " decaps", () => service.decrypt(cipherText, privateKey));
+    const parsedPrivateKey = service.parsePrivateKey(privateKey);
+    time(name + " decaps (parsed key)", () => parsedPrivateKey.decapsulate(cipherText));
+    console.log((name + " round trip").padEnd(32) + (keygen + encaps + decaps).toFixed(3).padStart(9) + " ms");
+}
+
+for (const service of [new Kyber512Service(), new Kyber768Service(), new Kyber1024Service(), new MlKem768Service()]) {
+    bench(service);
+}
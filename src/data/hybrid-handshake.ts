@@ -0,0 +1,163 @@
+import { XWingService } from "../services/xwing.service";
+import { RandomSource } from "../lib/random-source";
+import { ByteArray, constantTimeCompare, toBytes } from "../lib/utilities";
+import { HandshakeStateError } from "../lib/errors";
+import { deriveHandshakeKeys, HandshakeKeys, KeyScheduleOptions } from "../lib/key-schedule";
+
+/**
+ * Hybrid handshake of X25519 and ML-KEM-768 using the X-Wing KEM, with the
+ * same flow as `KyberHandshake`
+ */
+export class HybridHandshake {
+    public readonly xWingService: XWingService;
+    private _publicKey: Uint8Array;
+    private _privateKey: Uint8Array;
+    private _remotePublicKey: Uint8Array = new Uint8Array(0);
+    private _cipherText: Uint8Array = new Uint8Array(0);
+    private _sharedSecret: Uint8Array = new Uint8Array(0);
+    private _remoteSharedSecret: Uint8Array = new Uint8Array(0);
+    private _remoteCipherText: Uint8Array = new Uint8Array(0);
+
+    /**
+     * @param randomSource source of the private key and encapsulation
+     * randomness
+     */
+    constructor(randomSource?: RandomSource) {
+        this.xWingService = new XWingService(randomSource);
+        [this._publicKey, this._privateKey] = this.xWingService.generateKeys();
+    }
+
+    /**
+     * Process the remote public key to create a cipher text and shared
+     * secret
+     *
+     * An invalid remote public key throws and leaves the handshake unchanged.
+     * @param remotePublicKey
+     * @return cipherText
+     */
+    public generateCipherTextAndSharedSecret(remotePublicKey: ByteArray): Uint8Array {
+        const remotePublicKeyBytes = toBytes(remotePublicKey, "remotePublicKey");
+        const [cipherText, sharedSecret] = this.xWingService.encrypt(remotePublicKeyBytes);
+        this.remotePublicKey = remotePublicKeyBytes;
+        this.cipherText = cipherText;
+        this.sharedSecret = sharedSecret;
+        return this.cipherText;
+    }
+
+    /**
+     * Process the remote cipher text to generate the same shared
+     * secret
+     *
+     * A remote cipher text of the wrong length throws and leaves the
+     * handshake unchanged.
+     * @param remoteCipherText
+     * @return remoteSharedSecret
+     * @throws HandshakeStateError if the private key does not belong to the
+     * handshake's public key
+     */
+    public generateRemoteSharedSecret(remoteCipherText: ByteArray): Uint8Array {
+        const remoteCipherTextBytes = toBytes(remoteCipherText, "remoteCipherText");
+        this.checkKeyPair();
+        const remoteSharedSecret = this.xWingService.decrypt(remoteCipherTextBytes, this.privateKey);
+        this.remoteCipherText = remoteCipherTextBytes;
+        this.remoteSharedSecret = remoteSharedSecret;
+        return this.remoteSharedSecret;
+    }
+
+    /**
+     * Derive encryption, MAC and IV keys for each direction from the shared
+     * secrets with HKDF, over a transcript of both public keys and the
+     * cipher texts
+     *
+     * Both peers derive the same keys, the `send` keys of one being the
+     * `receive` keys of the other. A peer that only decapsulated must first
+     * set `remotePublicKey` to the other peer's public key.
+     * @param options
+     * @throws HandshakeStateError if there is no shared secret yet or the
+     * remote public key is not known
+     */
+    public deriveKeys(options: KeyScheduleOptions): HandshakeKeys {
+        return deriveHandshakeKeys({
+            algorithm: this.xWingService.getAlgorithm(),
+            publicKey: this.publicKey,
+            remotePublicKey: this.remotePublicKey,
+            cipherText: this.cipherText,
+            sharedSecret: this.sharedSecret,
+            remoteCipherText: this.remoteCipherText,
+            remoteSharedSecret: this.remoteSharedSecret
+        }, options);
+    }
+
+    /**
+     * Throw if the private key is not the one generated with the public key,
+     * for example after either was replaced through its setter
+     */
+    private checkKeyPair(): void {
+        const algorithm = this.xWingService.getAlgorithm();
+        const expected = this.xWingService.privateKeyBytes();
+        if (this.privateKey.length !== expected ||
+            constantTimeCompare(this.xWingService.publicKeyFromPrivateKey(this.privateKey), this.publicKey) !== 0) {
+            throw new HandshakeStateError(algorithm + " handshake private key does not belong to its public key",
+                algorithm, expected, this.privateKey.length);
+        }
+    }
+
+    get sharedSecret(): Uint8Array {
+        return this._sharedSecret;
+    }
+
+    set sharedSecret(value: ByteArray) {
+        this._sharedSecret = toBytes(value, "sharedSecret");
+    }
+
+    get publicKey(): Uint8Array {
+        return this._publicKey;
+    }
+
+    set publicKey(value: ByteArray) {
+        this._publicKey = toBytes(value, "publicKey");
+    }
+
+    get remoteSharedSecret(): Uint8Array {
+        return this._remoteSharedSecret;
+    }
+
+    set remoteSharedSecret(value: ByteArray) {
+        this._remoteSharedSecret = toBytes(value, "remoteSharedSecret");
+    }
+
+    get cipherText(): Uint8Array {
+        return this._cipherText;
+    }
+
+    set cipherText(value: ByteArray) {
+        this._cipherText = toBytes(value, "cipherText");
+    }
+
+    get remoteCipherText(): Uint8Array {
+        return this._remoteCipherText;
+    }
+
+    set remoteCipherText(value: ByteArray) {
+        this._remoteCipherText = toBytes(value, "remoteCipherText");
+    }
+
+    /**
+     * The 32-byte X-Wing private key
+     */
+    get privateKey(): Uint8Array {
+        return this._privateKey;
+    }
+
+    set privateKey(value: ByteArray) {
+        this._privateKey = toBytes(value, "privateKey");
+    }
+
+    get remotePublicKey(): Uint8Array {
+        return this._remotePublicKey;
+    }
+
+    set remotePublicKey(value: ByteArray) {
+        this._remotePublicKey = toBytes(value, "remotePublicKey");
+    }
+}
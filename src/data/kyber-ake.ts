@@ -0,0 +1,188 @@
+import { KyberService } from "../services/kyber.service";
+import { ByteArray, concatBytes, toBytes } from "../lib/utilities";
+import { checkInputLength, HandshakeStateError, InvalidCiphertextLengthError } from "../lib/errors";
+
+const publicKeyLengths = [KyberService.Kyber512PKBytes, KyberService.Kyber768PKBytes, KyberService.Kyber1024PKBytes];
+const cipherTextLengths = [KyberService.Kyber512CTBytes, KyberService.Kyber768CTBytes, KyberService.Kyber1024CTBytes];
+
+/**
+ * Kyber.AKE, the authenticated key exchange of the Kyber paper, in which both
+ * parties hold a static key pair and know each other's static public key
+ *
+ * The initiator sends an ephemeral public key and a cipher text to the
+ * responder's static key. The responder replies with cipher texts to the
+ * ephemeral key and to the initiator's static key, and both derive the key
+ * KDF(k_e || k_i || k_r) of the shared secrets encapsulated to the ephemeral
+ * key, the initiator and the responder. Only the holders of both static
+ * private keys can compute it.
+ */
+abstract class KyberAke {
+    private _staticPrivateKey: Uint8Array;
+    private _remoteStaticPublicKey: Uint8Array;
+    private _sharedSecret: Uint8Array = new Uint8Array(0);
+
+    /**
+     * @param kyberService
+     * @param staticPrivateKey expanded private key or 64-byte private key
+     * seed of the local static key pair
+     * @param remoteStaticPublicKey the other party's static public key
+     */
+    protected constructor(protected kyberService: KyberService, staticPrivateKey: ByteArray, remoteStaticPublicKey: ByteArray) {
+        const privateKey = toBytes(staticPrivateKey, "staticPrivateKey");
+        this._staticPrivateKey = privateKey.length === KyberService.KyberSeedBytes
+            ? this.kyberService.expandPrivateKey(privateKey)
+            : privateKey.slice();
+        this._remoteStaticPublicKey = toBytes(remoteStaticPublicKey, "remoteStaticPublicKey").slice();
+        this.kyberService.publicKeyFromPrivateKey(this._staticPrivateKey);
+        this.kyberService.parsePublicKey(this._remoteStaticPublicKey);
+    }
+
+    /**
+     * The key agreed by the exchange, or an empty array until it completes
+     */
+    get sharedSecret(): Uint8Array {
+        return this._sharedSecret;
+    }
+
+    /**
+     * The local static public key
+     */
+    get staticPublicKey(): Uint8Array {
+        return this.kyberService.publicKeyFromPrivateKey(this._staticPrivateKey);
+    }
+
+    get remoteStaticPublicKey(): Uint8Array {
+        return this._remoteStaticPublicKey;
+    }
+
+    protected get staticPrivateKey(): Uint8Array {
+        return this._staticPrivateKey;
+    }
+
+    /**
+     * Derive the key from the shared secrets encapsulated to the ephemeral
+     * key, the initiator and the responder
+     */
+    protected finish(ephemeralSecret: Uint8Array, initiatorSecret: Uint8Array, responderSecret: Uint8Array): Uint8Array {
+        this._sharedSecret = new Uint8Array(this.kyberService.symmetric.kdf(ephemeralSecret, initiatorSecret, responderSecret));
+        return this._sharedSecret;
+    }
+
+    protected checkNotFinished(): void {
+        if (this._sharedSecret.length > 0) {
+            throw this.stateError("has already completed");
+        }
+    }
+
+    protected stateError(problem: string): HandshakeStateError {
+        const algorithm = this.kyberService.getAlgorithm();
+        return new HandshakeStateError(algorithm + " authenticated key exchange " + problem,
+            algorithm, KyberService.KyberSSBytes, this._sharedSecret.length);
+    }
+
+    protected checkMessageLength(message: Uint8Array, lengths: number[], name: string): void {
+        checkInputLength(message, lengths, this.kyberService.paramsK, this.kyberService.getAlgorithm(), name,
+            InvalidCiphertextLengthError);
+    }
+}
+
+/**
+ * Initiator of a Kyber.AKE exchange
+ */
+export class KyberAkeInitiator extends KyberAke {
+    private ephemeralPrivateKey: Uint8Array = new Uint8Array(0);
+    private responderSecret: Uint8Array = new Uint8Array(0);
+
+    /**
+     * @param kyberService
+     * @param staticPrivateKey expanded private key or 64-byte private key
+     * seed of the initiator's static key pair
+     * @param responderStaticPublicKey
+     */
+    constructor(kyberService: KyberService, staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray) {
+        super(kyberService, staticPrivateKey, responderStaticPublicKey);
+    }
+
+    /**
+     * Generate the ephemeral key pair and encapsulate to the responder's
+     * static key
+     * @return message for the responder: the ephemeral public key followed
+     * by the cipher text
+     */
+    public createInitiatorMessage(): Uint8Array {
+        this.checkNotFinished();
+        const [ephemeralPublicKey, ephemeralPrivateKey] = this.kyberService.generateKyberKeys();
+        const [cipherText, responderSecret] = this.kyberService.encrypt(this.remoteStaticPublicKey);
+        this.ephemeralPrivateKey = ephemeralPrivateKey;
+        this.responderSecret = responderSecret;
+        return concatBytes(ephemeralPublicKey, cipherText);
+    }
+
+    /**
+     * Decapsulate the responder's cipher texts and derive the key, after
+     * which the ephemeral private key is erased
+     *
+     * A message of the wrong length throws and leaves the exchange unchanged.
+     * @param responderMessage cipher text to the ephemeral key followed by
+     * the cipher text to the initiator's static key
+     * @return sharedSecret
+     * @throws HandshakeStateError if no initiator message was created or the
+     * exchange has already completed
+     */
+    public processResponderMessage(responderMessage: ByteArray): Uint8Array {
+        const message = toBytes(responderMessage, "responderMessage");
+        this.checkNotFinished();
+        if (this.ephemeralPrivateKey.length === 0) {
+            throw this.stateError("has no initiator message yet");
+        }
+        this.checkMessageLength(message, cipherTextLengths.map(n => 2 * n), "responder message");
+
+        const cipherTextBytes = this.kyberService.cipherTextBytes();
+        const ephemeralSecret = this.kyberService.decrypt(message.subarray(0, cipherTextBytes), this.ephemeralPrivateKey);
+        const initiatorSecret = this.kyberService.decrypt(message.subarray(cipherTextBytes), this.staticPrivateKey);
+        const sharedSecret = this.finish(ephemeralSecret, initiatorSecret, this.responderSecret);
+        this.ephemeralPrivateKey.fill(0);
+        this.responderSecret.fill(0);
+        return sharedSecret;
+    }
+}
+
+/**
+ * Responder of a Kyber.AKE exchange
+ */
+export class KyberAkeResponder extends KyberAke {
+
+    /**
+     * @param kyberService
+     * @param staticPrivateKey expanded private key or 64-byte private key
+     * seed of the responder's static key pair
+     * @param initiatorStaticPublicKey
+     */
+    constructor(kyberService: KyberService, staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray) {
+        super(kyberService, staticPrivateKey, initiatorStaticPublicKey);
+    }
+
+    /**
+     * Decapsulate the initiator's cipher text, encapsulate to the ephemeral
+     * and initiator's static keys and derive the key
+     *
+     * An invalid message throws and leaves the exchange unchanged.
+     * @param initiatorMessage ephemeral public key followed by the cipher
+     * text to the responder's static key
+     * @return message for the initiator: the cipher text to the ephemeral key
+     * followed by the cipher text to the initiator's static key
+     * @throws HandshakeStateError if the exchange has already completed
+     */
+    public processInitiatorMessage(initiatorMessage: ByteArray): Uint8Array {
+        const message = toBytes(initiatorMessage, "initiatorMessage");
+        this.checkNotFinished();
+        this.checkMessageLength(message, publicKeyLengths.map((n, i) => n + cipherTextLengths[i]), "initiator message");
+
+        const publicKeyBytes = this.kyberService.publicKeyBytes();
+        const [ephemeralCipherText, ephemeralSecret] = this.kyberService.encrypt(message.subarray(0, publicKeyBytes));
+        const [initiatorCipherText, initiatorSecret] = this.kyberService.encrypt(this.remoteStaticPublicKey);
+        const responderSecret = this.kyberService.decrypt(message.subarray(publicKeyBytes), this.staticPrivateKey);
+        this.finish(ephemeralSecret, initiatorSecret, responderSecret);
+        return concatBytes(ephemeralCipherText, initiatorCipherText);
+    }
+}
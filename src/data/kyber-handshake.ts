@@ -1,98 +1,175 @@
 import { KyberService } from "../services/kyber.service";
+import { ByteArray, constantTimeCompare, toBytes } from "../lib/utilities";
+import { HandshakeStateError } from "../lib/errors";
+import { pairwiseConsistencyTest } from "../lib/self-test";
+import { deriveHandshakeKeys, HandshakeKeys, KeyScheduleOptions } from "../lib/key-schedule";
 
 /**
  * Kyber Handshake
  */
 export class KyberHandshake {
-    private _publicKey: number[];
-    private _privateKey: number[];
-    private _remotePublicKey: number[] = [];
-    private _cipherText: number[] = [];
-    private _sharedSecret: number[] = [];
-    private _remoteSharedSecret: number[] = [];
-    private _remoteCipherText: number[] = [];
+    private _publicKey: Uint8Array;
+    private _privateKey: Uint8Array;
+    private _privateKeySeed: Uint8Array;
+    private _remotePublicKey: Uint8Array = new Uint8Array(0);
+    private _cipherText: Uint8Array = new Uint8Array(0);
+    private _sharedSecret: Uint8Array = new Uint8Array(0);
+    private _remoteSharedSecret: Uint8Array = new Uint8Array(0);
+    private _remoteCipherText: Uint8Array = new Uint8Array(0);
 
     constructor(private kyberService: KyberService) {
-        [this._publicKey, this._privateKey] = this.kyberService.generateKyberKeys();
+        this._privateKeySeed = this.kyberService.generateKyberSeed();
+        [this._publicKey, this._privateKey] = this.kyberService.generateKyberKeysFromSeed(this._privateKeySeed);
+        pairwiseConsistencyTest(this.kyberService, this._publicKey, this._privateKey);
     }
 
     /**
      * Process the remote public key to create a cipher text and shared
      * secret
+     *
+     * An invalid remote public key throws and leaves the handshake unchanged.
      * @param remotePublicKey
      * @return cipherText
      */
-    public generateCipherTextAndSharedSecret(remotePublicKey: number[]): number[] {
-        this.remotePublicKey = remotePublicKey;
-        [this.cipherText, this.sharedSecret] = this.kyberService.encrypt(remotePublicKey);
+    public generateCipherTextAndSharedSecret(remotePublicKey: ByteArray): Uint8Array {
+        const remotePublicKeyBytes = toBytes(remotePublicKey, "remotePublicKey");
+        const [cipherText, sharedSecret] = this.kyberService.encrypt(remotePublicKeyBytes);
+        this.remotePublicKey = remotePublicKeyBytes;
+        this.cipherText = cipherText;
+        this.sharedSecret = sharedSecret;
         return this.cipherText;
     }
 
     /**
      * Process the remote cipher text to generate the same shared
      * secret
+     *
+     * A remote cipher text of the wrong length, or a private key that fails
+     * validation, throws and leaves the handshake unchanged.
      * @param remoteCipherText
      * @return remoteSharedSecret
+     * @throws HandshakeStateError if the private key does not belong to the
+     * handshake's public key
      */
-    public generateRemoteSharedSecret(remoteCipherText: number[]): number[] {
-        this.remoteCipherText = remoteCipherText;
-        this.remoteSharedSecret = this.kyberService.decrypt(remoteCipherText, this.privateKey);
+    public generateRemoteSharedSecret(remoteCipherText: ByteArray): Uint8Array {
+        const remoteCipherTextBytes = toBytes(remoteCipherText, "remoteCipherText");
+        this.checkKeyPair();
+        const remoteSharedSecret = this.kyberService.decrypt(remoteCipherTextBytes, this.privateKey);
+        this.remoteCipherText = remoteCipherTextBytes;
+        this.remoteSharedSecret = remoteSharedSecret;
         return this.remoteSharedSecret;
     }
 
-    get sharedSecret(): number[] {
+    /**
+     * Derive encryption, MAC and IV keys for each direction from the shared
+     * secrets with HKDF, over a transcript of both public keys and the
+     * cipher texts
+     *
+     * Both peers derive the same keys, the `send` keys of one being the
+     * `receive` keys of the other. A peer that only decapsulated must first
+     * set `remotePublicKey` to the other peer's public key.
+     * @param options
+     * @throws HandshakeStateError if there is no shared secret yet or the
+     * remote public key is not known
+     */
+    public deriveKeys(options: KeyScheduleOptions): HandshakeKeys {
+        return deriveHandshakeKeys({
+            algorithm: this.kyberService.getAlgorithm(),
+            publicKey: this.publicKey,
+            remotePublicKey: this.remotePublicKey,
+            cipherText: this.cipherText,
+            sharedSecret: this.sharedSecret,
+            remoteCipherText: this.remoteCipherText,
+            remoteSharedSecret: this.remoteSharedSecret
+        }, options);
+    }
+
+    /**
+     * Throw if the private key is not the one generated with the public key,
+     * for example after either was replaced through its setter
+     */
+    private checkKeyPair(): void {
+        const algorithm = this.kyberService.getAlgorithm();
+        const expected = this.kyberService.privateKeyBytes();
+        if (this.privateKey.length !== expected ||
+            constantTimeCompare(this.kyberService.publicKeyFromPrivateKey(this.privateKey), this.publicKey) !== 0) {
+            throw new HandshakeStateError(algorithm + " handshake private key does not belong to its public key",
+                algorithm, expected, this.privateKey.length);
+        }
+    }
+
+    get sharedSecret(): Uint8Array {
         return this._sharedSecret;
     }
 
-    set sharedSecret(value: number[]) {
-        this._sharedSecret = value;
+    set sharedSecret(value: ByteArray) {
+        this._sharedSecret = toBytes(value, "sharedSecret");
     }
 
-    get publicKey(): number[] {
+    get publicKey(): Uint8Array {
         return this._publicKey;
     }
 
-    set publicKey(value: number[]) {
-        this._publicKey = value;
+    set publicKey(value: ByteArray) {
+        this._publicKey = toBytes(value, "publicKey");
     }
 
-    get remoteSharedSecret(): number[] {
+    get remoteSharedSecret(): Uint8Array {
         return this._remoteSharedSecret;
     }
 
-    set remoteSharedSecret(value: number[]) {
-        this._remoteSharedSecret = value;
+    set remoteSharedSecret(value: ByteArray) {
+        this._remoteSharedSecret = toBytes(value, "remoteSharedSecret");
     }
 
-    get cipherText(): number[] {
+    get cipherText(): Uint8Array {
         return this._cipherText;
     }
 
-    set cipherText(value: number[]) {
-        this._cipherText = value;
+    set cipherText(value: ByteArray) {
+        this._cipherText = toBytes(value, "cipherText");
     }
 
-    get remoteCipherText(): number[] {
+    get remoteCipherText(): Uint8Array {
         return this._remoteCipherText;
     }
 
-    set remoteCipherText(value: number[]) {
-        this._remoteCipherText = value;
+    set remoteCipherText(value: ByteArray) {
+        this._remoteCipherText = toBytes(value, "remoteCipherText");
     }
 
-    get privateKey(): number[] {
+    get privateKey(): Uint8Array {
         return this._privateKey;
     }
 
-    set privateKey(value: number[]) {
-        this._privateKey = value;
+    /**
+     * Set the private key from an expanded private key or a 64-byte private
+     * key seed, which is expanded
+     */
+    set privateKey(value: ByteArray) {
+        const privateKey = toBytes(value, "privateKey");
+        if (privateKey.length === KyberService.KyberSeedBytes) {
+            this._privateKey = this.kyberService.expandPrivateKey(privateKey);
+            this._privateKeySeed = privateKey;
+        } else {
+            this._privateKey = privateKey;
+            this._privateKeySeed = new Uint8Array(0);
+        }
+    }
+
+    /**
+     * The 64-byte seed the private key was expanded from, or an empty array
+     * if the private key was set in expanded form
+     */
+    get privateKeySeed(): Uint8Array {
+        return this._privateKeySeed;
     }
 
-    get remotePublicKey(): number[] {
+    get remotePublicKey(): Uint8Array {
         return this._remotePublicKey;
     }
 
-    set remotePublicKey(value: number[]) {
-        this._remotePublicKey = value;
+    set remotePublicKey(value: ByteArray) {
+        this._remotePublicKey = toBytes(value, "remotePublicKey");
     }
 }
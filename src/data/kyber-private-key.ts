@@ -0,0 +1,38 @@
+import { KyberService } from "../services/kyber.service";
+import { KyberPublicKey } from "./kyber-public-key";
+import { ByteArray } from "../lib/utilities";
+
+/**
+ * Kyber private key decoded once for repeated decapsulation
+ *
+ * Keeps the secret vector ŝ in NTT form, the embedded public key parsed with
+ * its expanded matrix for the re-encryption check, H(pk) and `z`, so each
+ * decapsulation skips decoding the key and running the XOF. Create it with
+ * `KyberService.parsePrivateKey`.
+ */
+export class KyberPrivateKey {
+
+    /**
+     * @param service service of the key's parameter set
+     * @param bytes validated expanded private key
+     * @param indcpaPrivateKey decoded secret vector, which is never modified
+     * @param publicKey parsed public key embedded in the private key, whose
+     * `hash` is the H(pk) stored in the private key
+     * @param z implicit rejection value
+     */
+    constructor(
+        public readonly service: KyberService,
+        public readonly bytes: Uint8Array,
+        public readonly indcpaPrivateKey: Int16Array[],
+        public readonly publicKey: KyberPublicKey,
+        public readonly z: Uint8Array
+    ) { }
+
+    /**
+     * Decapsulate the given cipher text to the shared secret
+     * @param cipherText
+     */
+    public decapsulate(cipherText: ByteArray): Uint8Array {
+        return this.service.decapsulate(this, cipherText);
+    }
+}
@@ -0,0 +1,44 @@
+import { KyberService } from "../services/kyber.service";
+import { IndcpaPublicKey } from "../lib/indcpa";
+import { ByteArray } from "../lib/utilities";
+
+/**
+ * Kyber public key decoded once for repeated encapsulation
+ *
+ * Keeps t̂ and the expanded transposed matrix Â^T in NTT form together with
+ * the public key hash H(pk), so each encapsulation skips decoding the key
+ * and running the XOF. Create it with `KyberService.parsePublicKey`.
+ */
+export class KyberPublicKey {
+
+    /**
+     * @param service service of the key's parameter set
+     * @param bytes validated public key
+     * @param hash H of the public key
+     * @param indcpaPublicKey decoded public key, which is never modified
+     */
+    constructor(
+        public readonly service: KyberService,
+        public readonly bytes: Uint8Array,
+        public readonly hash: Uint8Array,
+        public readonly indcpaPublicKey: IndcpaPublicKey
+    ) { }
+
+    /**
+     * Generate a cipher text and shared secret for this public key
+     * @return [cipherText, sharedSecret]
+     */
+    public encapsulate(): [Uint8Array, Uint8Array] {
+        return this.service.encapsulate(this);
+    }
+
+    /**
+     * Generate the cipher text and shared secret determined by the given
+     * 32-byte message
+     * @param m
+     * @return [cipherText, sharedSecret]
+     */
+    public encapsulateDeterministic(m: ByteArray): [Uint8Array, Uint8Array] {
+        return this.service.encapsulateDeterministic(this, m);
+    }
+}
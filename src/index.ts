@@ -4,22 +4,277 @@
 import { Kyber512Service } from './services/kyber512.service';
 import { Kyber768Service } from "./services/kyber768.service";
 import { Kyber1024Service } from "./services/kyber1024.service";
+import { Kyber512_90sService } from "./services/kyber512-90s.service";
+import { Kyber768_90sService } from "./services/kyber768-90s.service";
+import { Kyber1024_90sService } from "./services/kyber1024-90s.service";
+import { MlKem512Service } from "./services/mlkem512.service";
+import { MlKem768Service } from "./services/mlkem768.service";
+import { MlKem1024Service } from "./services/mlkem1024.service";
 import { KyberHandshake } from './data/kyber-handshake';
+import { KyberAkeInitiator, KyberAkeResponder } from "./data/kyber-ake";
+export { KyberService } from "./services/kyber.service";
+export { Kyber512Service } from './services/kyber512.service';
+export { Kyber768Service } from "./services/kyber768.service";
+export { Kyber1024Service } from "./services/kyber1024.service";
+export { Kyber512_90sService } from "./services/kyber512-90s.service";
+export { Kyber768_90sService } from "./services/kyber768-90s.service";
+export { Kyber1024_90sService } from "./services/kyber1024-90s.service";
+export { MlKemService } from "./services/mlkem.service";
+export { MlKem512Service } from "./services/mlkem512.service";
+export { MlKem768Service } from "./services/mlkem768.service";
+export { MlKem1024Service } from "./services/mlkem1024.service";
+export { KyberPublicKey } from "./data/kyber-public-key";
+export { KyberPrivateKey } from "./data/kyber-private-key";
+export { XWingService } from "./services/xwing.service";
+export { HybridHandshake } from "./data/hybrid-handshake";
+import { RandomSource } from "./lib/random-source";
+import { ByteArray } from "./lib/utilities";
+
+export { RandomSource, defaultRandomSource } from "./lib/random-source";
+export { HmacDrbg, HmacDrbgOptions } from "./lib/hmac-drbg";
+export { HealthTestedEntropySource } from "./lib/entropy-health";
+export { ByteArray, toBytes, toNumberArray } from "./lib/utilities";
+export { CtArray, ctEqual, ctCmov, ctSelect } from "./lib/ct";
+export {
+    KyberError,
+    InvalidPublicKeyError,
+    InvalidPrivateKeyError,
+    InvalidCiphertextLengthError,
+    InvalidCiphertextError,
+    InvalidSeedError,
+    ParameterSetMismatchError,
+    HandshakeStateError,
+    InvalidKeyEncodingError,
+    SelfTestError,
+    EntropyHealthTestError,
+    HpkeError,
+    HpkeOpenError,
+    HpkeMessageLimitReachedError,
+    SealedBoxError,
+    SealedBoxOpenError
+} from "./lib/errors";
+export {
+    SelfTestStatus,
+    enableSelfTests,
+    clearSelfTestError,
+    getSelfTestStatus,
+    runSelfTest
+} from "./lib/self-test";
+export {
+    mlKemOids,
+    PrivateKeyFormat,
+    DecodedPrivateKey,
+    encodePublicKeyDer,
+    decodePublicKeyDer,
+    encodePrivateKeyDer,
+    decodePrivateKeyDer,
+    encodePublicKeyPem,
+    decodePublicKeyPem,
+    encodePrivateKeyPem,
+    decodePrivateKeyPem
+} from "./lib/key-encoding";
+export {
+    AkpJwk,
+    exportPublicKeyJwk,
+    exportPrivateKeyJwk,
+    importPublicKeyJwk,
+    importPrivateKeyJwk,
+    jwkThumbprint
+} from "./lib/jwk";
+export {
+    coseKeyTypeAkp,
+    exportPublicKeyCose,
+    exportPrivateKeyCose,
+    importPublicKeyCose,
+    importPrivateKeyCose
+} from "./lib/cose-key";
+export {
+    encodePublicKey,
+    decodePublicKey,
+    encodeCipherText,
+    decodeCipherText,
+    encodeSharedSecret,
+    decodeSharedSecret
+} from "./lib/wire-encoding";
+export {
+    HpkeKdf,
+    HpkeAead,
+    HpkeKeySchedule,
+    hkdfSha256,
+    hkdfSha512,
+    aes128Gcm,
+    aes256Gcm,
+    chaCha20Poly1305,
+    hpkeModeBase,
+    hpkeModePsk,
+    hpkeKemIds,
+    hpkeKeySchedule,
+    HpkeContext,
+    HpkeSenderContext,
+    HpkeRecipientContext,
+    Hpke
+} from "./lib/hpke";
+export { SealedBox } from "./lib/sealed-box";
+export { KeyLengths, KeyScheduleOptions, DirectionKeys, HandshakeKeys } from "./lib/key-schedule";
 
 export class Kyber512Handshake extends KyberHandshake {
-    constructor() {
-        super(new Kyber512Service());
+    constructor(randomSource?: RandomSource) {
+        super(new Kyber512Service(randomSource));
     }
 }
 
 export class Kyber768Handshake extends KyberHandshake {
-    constructor() {
-        super(new Kyber768Service());
+    constructor(randomSource?: RandomSource) {
+        super(new Kyber768Service(randomSource));
     }
 }
 
 export class Kyber1024Handshake extends KyberHandshake {
-    constructor() {
-        super(new Kyber1024Service());
+    constructor(randomSource?: RandomSource) {
+        super(new Kyber1024Service(randomSource));
+    }
+}
+
+export class Kyber512_90sHandshake extends KyberHandshake {
+    constructor(randomSource?: RandomSource) {
+        super(new Kyber512_90sService(randomSource));
+    }
+}
+
+export class Kyber768_90sHandshake extends KyberHandshake {
+    constructor(randomSource?: RandomSource) {
+        super(new Kyber768_90sService(randomSource));
+    }
+}
+
+export class Kyber1024_90sHandshake extends KyberHandshake {
+    constructor(randomSource?: RandomSource) {
+        super(new Kyber1024_90sService(randomSource));
+    }
+}
+
+export class MlKem512Handshake extends KyberHandshake {
+    constructor(randomSource?: RandomSource) {
+        super(new MlKem512Service(randomSource));
+    }
+}
+
+export class MlKem768Handshake extends KyberHandshake {
+    constructor(randomSource?: RandomSource) {
+        super(new MlKem768Service(randomSource));
+    }
+}
+
+export class MlKem1024Handshake extends KyberHandshake {
+    constructor(randomSource?: RandomSource) {
+        super(new MlKem1024Service(randomSource));
+    }
+}
+
+export class Kyber512AkeInitiator extends KyberAkeInitiator {
+    constructor(staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber512Service(randomSource), staticPrivateKey, responderStaticPublicKey);
+    }
+}
+
+export class Kyber512AkeResponder extends KyberAkeResponder {
+    constructor(staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber512Service(randomSource), staticPrivateKey, initiatorStaticPublicKey);
+    }
+}
+
+export class Kyber768AkeInitiator extends KyberAkeInitiator {
+    constructor(staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber768Service(randomSource), staticPrivateKey, responderStaticPublicKey);
+    }
+}
+
+export class Kyber768AkeResponder extends KyberAkeResponder {
+    constructor(staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber768Service(randomSource), staticPrivateKey, initiatorStaticPublicKey);
+    }
+}
+
+export class Kyber1024AkeInitiator extends KyberAkeInitiator {
+    constructor(staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber1024Service(randomSource), staticPrivateKey, responderStaticPublicKey);
+    }
+}
+
+export class Kyber1024AkeResponder extends KyberAkeResponder {
+    constructor(staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber1024Service(randomSource), staticPrivateKey, initiatorStaticPublicKey);
+    }
+}
+
+export class Kyber512_90sAkeInitiator extends KyberAkeInitiator {
+    constructor(staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber512_90sService(randomSource), staticPrivateKey, responderStaticPublicKey);
+    }
+}
+
+export class Kyber512_90sAkeResponder extends KyberAkeResponder {
+    constructor(staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber512_90sService(randomSource), staticPrivateKey, initiatorStaticPublicKey);
+    }
+}
+
+export class Kyber768_90sAkeInitiator extends KyberAkeInitiator {
+    constructor(staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber768_90sService(randomSource), staticPrivateKey, responderStaticPublicKey);
+    }
+}
+
+export class Kyber768_90sAkeResponder extends KyberAkeResponder {
+    constructor(staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber768_90sService(randomSource), staticPrivateKey, initiatorStaticPublicKey);
+    }
+}
+
+export class Kyber1024_90sAkeInitiator extends KyberAkeInitiator {
+    constructor(staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber1024_90sService(randomSource), staticPrivateKey, responderStaticPublicKey);
+    }
+}
+
+export class Kyber1024_90sAkeResponder extends KyberAkeResponder {
+    constructor(staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new Kyber1024_90sService(randomSource), staticPrivateKey, initiatorStaticPublicKey);
+    }
+}
+
+export class MlKem512AkeInitiator extends KyberAkeInitiator {
+    constructor(staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new MlKem512Service(randomSource), staticPrivateKey, responderStaticPublicKey);
+    }
+}
+
+export class MlKem512AkeResponder extends KyberAkeResponder {
+    constructor(staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new MlKem512Service(randomSource), staticPrivateKey, initiatorStaticPublicKey);
+    }
+}
+
+export class MlKem768AkeInitiator extends KyberAkeInitiator {
+    constructor(staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new MlKem768Service(randomSource), staticPrivateKey, responderStaticPublicKey);
+    }
+}
+
+export class MlKem768AkeResponder extends KyberAkeResponder {
+    constructor(staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new MlKem768Service(randomSource), staticPrivateKey, initiatorStaticPublicKey);
+    }
+}
+
+export class MlKem1024AkeInitiator extends KyberAkeInitiator {
+    constructor(staticPrivateKey: ByteArray, responderStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new MlKem1024Service(randomSource), staticPrivateKey, responderStaticPublicKey);
+    }
+}
+
+export class MlKem1024AkeResponder extends KyberAkeResponder {
+    constructor(staticPrivateKey: ByteArray, initiatorStaticPublicKey: ByteArray, randomSource?: RandomSource) {
+        super(new MlKem1024Service(randomSource), staticPrivateKey, initiatorStaticPublicKey);
     }
 }
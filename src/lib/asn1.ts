@@ -0,0 +1,148 @@
+/**
+ * Minimal DER encoding and decoding of the ASN.1 types used by key encodings
+ */
+import { InvalidKeyEncodingError } from "./errors";
+import { concatBytes } from "./utilities";
+
+export const tagInteger = 0x02;
+export const tagBitString = 0x03;
+export const tagOctetString = 0x04;
+export const tagObjectIdentifier = 0x06;
+export const tagSequence = 0x30;
+
+/**
+ * Encode a DER element with the given tag and content
+ * @param tag
+ * @param contents concatenated to form the content octets
+ */
+export function derEncode(tag: number, ...contents: Uint8Array[]): Uint8Array {
+    const content = concatBytes(...contents);
+    let length: Uint8Array;
+    if (content.length < 0x80) {
+        length = Uint8Array.of(content.length);
+    } else {
+        const bytes: number[] = [];
+        for (let n = content.length; n > 0; n >>>= 8) {
+            bytes.unshift(n & 0xFF);
+        }
+        length = Uint8Array.of(0x80 | bytes.length, ...bytes);
+    }
+    return concatBytes(Uint8Array.of(tag), length, content);
+}
+
+/**
+ * Encode a dotted object identifier such as `2.16.840.1.101.3.4.4.2`
+ * @param oid
+ */
+export function derEncodeOid(oid: string): Uint8Array {
+    const arcs = oid.split(".").map(Number);
+    const bytes: number[] = [];
+    const values = [40 * arcs[0] + arcs[1], ...arcs.slice(2)];
+    for (const value of values) {
+        const base128 = [value & 0x7F];
+        for (let n = Math.floor(value / 128); n > 0; n = Math.floor(n / 128)) {
+            base128.unshift(0x80 | (n & 0x7F));
+        }
+        bytes.push(...base128);
+    }
+    return derEncode(tagObjectIdentifier, Uint8Array.from(bytes));
+}
+
+/**
+ * Reads consecutive DER elements from a byte array, throwing an
+ * `InvalidKeyEncodingError` on anything that is not strict DER
+ */
+export class DerReader {
+    private offset = 0;
+
+    /**
+     * @param bytes
+     * @param algorithm named in error messages
+     */
+    constructor(private bytes: Uint8Array, private algorithm: string) { }
+
+    /**
+     * Whether all elements have been read
+     */
+    public done(): boolean {
+        return this.offset === this.bytes.length;
+    }
+
+    /**
+     * Tag of the next element
+     */
+    public peekTag(): number {
+        this.checkAvailable(1);
+        return this.bytes[this.offset];
+    }
+
+    /**
+     * Read the next element, which must have the given tag, and return its
+     * content octets
+     * @param tag
+     */
+    public read(tag: number): Uint8Array {
+        const actual = this.peekTag();
+        if (actual !== tag) {
+            throw new InvalidKeyEncodingError(this.algorithm + " key encoding has tag 0x" + actual.toString(16) +
+                " at offset " + this.offset + " where 0x" + tag.toString(16) + " was expected", this.algorithm, tag, actual);
+        }
+        this.offset++;
+        const length = this.readLength();
+        this.checkAvailable(length);
+        const content = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return content;
+    }
+
+    /**
+     * Read the next element, which must have the given tag, and return a
+     * reader over its content octets
+     * @param tag
+     */
+    public readConstructed(tag: number): DerReader {
+        return new DerReader(this.read(tag), this.algorithm);
+    }
+
+    /**
+     * Throw if there are elements left to read
+     */
+    public finish(): void {
+        if (!this.done()) {
+            throw new InvalidKeyEncodingError(this.algorithm + " key encoding has " + (this.bytes.length - this.offset) +
+                " trailing bytes", this.algorithm, this.offset, this.bytes.length);
+        }
+    }
+
+    private readLength(): number {
+        this.checkAvailable(1);
+        const first = this.bytes[this.offset++];
+        if (first < 0x80) {
+            return first;
+        }
+        const count = first & 0x7F;
+        if (count === 0 || count > 3) {
+            throw new InvalidKeyEncodingError(this.algorithm + " key encoding has an unsupported length of " + count +
+                " bytes", this.algorithm, 3, count);
+        }
+        this.checkAvailable(count);
+        let length = 0;
+        for (let i = 0; i < count; i++) {
+            length = (length << 8) | this.bytes[this.offset++];
+        }
+        // DER requires the shortest length encoding
+        if (length < 0x80 || length < (1 << (8 * (count - 1)))) {
+            throw new InvalidKeyEncodingError(this.algorithm + " key encoding has a length of " + length +
+                " that is not minimally encoded", this.algorithm, length, length);
+        }
+        return length;
+    }
+
+    private checkAvailable(length: number): void {
+        const available = this.bytes.length - this.offset;
+        if (available < length) {
+            throw new InvalidKeyEncodingError(this.algorithm + " key encoding is truncated: " + length +
+                " bytes needed at offset " + this.offset + ", " + available + " left", this.algorithm, length, available);
+        }
+    }
+}
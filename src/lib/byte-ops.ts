@@ -1,41 +1,43 @@
 /**
  * Utility function for byte operations
  */
-import { Buffer } from "buffer";
-import { int16, int32, uint16 } from "./utilities";
 import { KyberService } from "../services/kyber.service";
 
+/**
+ * Barrett multiplier floor(2^26 / q)
+ */
+const barrettV = 20159;
+
 /**
  * Generate a polynomial with coefficients distributed according to a
  * centered binomial distribution with parameter eta, given an array of
  * uniformly random bytes.
  *
- * @param buff
+ * @param buf
  * @param paramsK
  * @return
  */
-export function generateCBDPoly(buff: Buffer, paramsK: number): number[] {
-    const buf = Buffer.from(buff);
-    const r = new Array<number>(KyberService.paramsPolyBytes);
+export function generateCBDPoly(buf: Uint8Array, paramsK: number): Int16Array {
+    const r = new Int16Array(KyberService.paramsN);
 
     if (paramsK === 2) {
         for (let i = 0; i < KyberService.paramsN / 4; i++) {
-            const t = convertByteTo24BitUnsignedInt(buf.slice(3 * i, buf.length));
-            const d = t & 0x00249249 + ((t >> 1) & 0x00249249) + ((t >> 2) & 0x00249249);
+            const t = buf[3 * i] | (buf[3 * i + 1] << 8) | (buf[3 * i + 2] << 16);
+            const d = (t & 0x00249249) + ((t >> 1) & 0x00249249) + ((t >> 2) & 0x00249249);
             for (let j = 0; j < 4; j++) {
-                const a = int16((d >> (6 * j)) & 0x7);
-                const b = int16((d >> (6 * j + KyberService.paramsETAK512)) & 0x7);
+                const a = (d >> (6 * j)) & 0x7;
+                const b = (d >> (6 * j + KyberService.paramsETAK512)) & 0x7;
                 r[4 * i + j] = a - b;
             }
         }
         return r;
     }
     for (let i = 0; i < KyberService.paramsN / 8; i++) {
-        const t = convertByteTo32BitUnsignedInt(buf.slice(4 * i, buf.length));
-        const d = (t & 0x55555555) + ((t >> 1) & 0x55555555);
+        const t = buf[4 * i] | (buf[4 * i + 1] << 8) | (buf[4 * i + 2] << 16) | (buf[4 * i + 3] << 24);
+        const d = (t & 0x55555555) + ((t >>> 1) & 0x55555555);
         for (let j = 0; j < 8; j++) {
-            const a = int16((d >> (4 * j)) & 0x3);
-            const b = int16((d >> (4 * j + KyberService.paramsETAK768K1024)) & 0x3);
+            const a = (d >>> (4 * j)) & 0x3;
+            const b = (d >>> (4 * j + KyberService.paramsETAK768K1024)) & 0x3;
             r[8 * i + j] = a - b;
         }
     }
@@ -43,62 +45,83 @@ export function generateCBDPoly(buff: Buffer, paramsK: number): number[] {
 }
 
 /**
- * Returns a 24-bit unsigned integer as a long from byte x
+ * Computes a Barrett reduction given a 16 Bit Integer
  *
- * @param x
+ * @param a
  * @return
  */
-function convertByteTo24BitUnsignedInt(x: Buffer): number {
-    return int32(x[0] & 0xFF)
-        | (int32(x[1] & 0xFF) << 8)
-        | (int32(x[2] & 0xFF) << 16);
+export function barrettReduce(a: number): number {
+    const t = (((barrettV * a) >> 26) * KyberService.paramsQ) << 16 >> 16;
+    return a - t;
 }
 
 /**
- * Returns a 24-bit unsigned integer as a long from byte x
+ * Multiply the given shorts and then run a Montgomery reduce
  *
- * @param x
+ * @param a
+ * @param b
  * @return
  */
-function convertByteTo32BitUnsignedInt(x: Buffer): number {
-    return int32(x[0] & 0xFF)
-        | (int32(x[1] & 0xFF) << 8)
-        | (int32(x[2] & 0xFF) << 16)
-        | int32(int32(x[3] & 0xFF) << 24);
+export function modQMulMont(a: number, b: number): number {
+    return montgomeryReduce(a * b);
 }
 
 /**
- * Computes a Barrett reduction given a 16 Bit Integer
+ * Computes a Montgomery reduction given a 32 Bit Integer
  *
  * @param a
  * @return
  */
-export function barrettReduce(a: number): number {
-    const shift = int32(1 << 26);
-    const v = +int16((shift + KyberService.paramsQ / 2) / KyberService.paramsQ).toFixed(0);
-    const t = int16(int16((v * a) >> 26) * KyberService.paramsQ);
-    return a - t;
+export function montgomeryReduce(a: number): number {
+    const u = Math.imul(a, KyberService.paramsQinv) << 16 >> 16;
+    return (a - u * KyberService.paramsQ) >> 16;
 }
 
 /**
- * Multiply the given shorts and then run a Montgomery reduce
+ * Compress a coefficient x in [0, q] to d bits, computing
+ * round(2^d * x / q) mod 2^d as ((x << d) + q/2) / q would
  *
- * @param a
- * @param b
+ * The division is replaced by a multiplication with a precomputed
+ * reciprocal and a shift, so the time taken does not depend on the secret
+ * coefficient (KyberSlash). The constants are those of the reference
+ * implementation, and Math.imul keeps the multiplications in 32 bits.
+ *
+ * @param x
+ * @param d 1, 4, 5, 10 or 11
  * @return
  */
-export function modQMulMont(a: number, b: number): number {
-    return montgomeryReduce(a * b);
+export function compressCoefficient(x: number, d: number): number {
+    switch (d) {
+        case 1:
+            return (Math.imul((x << 1) + 1665, 80635) >>> 28) & 0x1;
+        case 4:
+            return (Math.imul((x << 4) + 1665, 80635) >>> 28) & 0xF;
+        case 5:
+            return (Math.imul((x << 5) + 1664, 40318) >>> 27) & 0x1F;
+        case 10:
+            return mulShift((x << 10) + 1665, 1290167, 32) & 0x3FF;
+        case 11:
+            return mulShift((x << 11) + 1664, 645084, 31) & 0x7FF;
+        default:
+            throw new Error("Unsupported compression to " + d + " bits");
+    }
 }
 
 /**
- * Computes a Montgomery reduction given a 32 Bit Integer
+ * Computes floor(a * b / 2^s) for non-negative 32 Bit Integers and
+ * 16 <= s <= 32, keeping only the low 32 bits of the result, by multiplying
+ * 16 Bit halves
  *
  * @param a
+ * @param b
+ * @param s
  * @return
  */
-export function montgomeryReduce(a: number): number {
-    const u = int16(uint16(a) * KyberService.paramsQinv);
-    const t = (a - u * KyberService.paramsQ) >> 16;
-    return int16(t);
+function mulShift(a: number, b: number, s: number): number {
+    const a0 = a & 0xFFFF;
+    const a1 = a >>> 16;
+    const b0 = b & 0xFFFF;
+    const b1 = b >>> 16;
+    const t = (Math.imul(a0, b0) >>> 16) + Math.imul(a1, b0) + Math.imul(a0, b1);
+    return (Math.imul(a1, b1) << (32 - s)) + (t >>> (s - 16));
 }
@@ -0,0 +1,132 @@
+/**
+ * Minimal deterministic CBOR encoding and decoding of the types used by
+ * COSE_Key maps: integers, byte strings, text strings and maps
+ */
+import { Buffer } from "buffer";
+import { InvalidKeyEncodingError } from "./errors";
+import { concatBytes } from "./utilities";
+
+export type CborValue = number | string | Uint8Array | Map<number | string, CborValue>;
+
+const majorUnsigned = 0;
+const majorNegative = 1;
+const majorBytes = 2;
+const majorText = 3;
+const majorMap = 5;
+
+/**
+ * Encode a value as deterministic CBOR, with map keys sorted by their
+ * encoding
+ * @param value
+ */
+export function cborEncode(value: CborValue): Uint8Array {
+    if (typeof value === "number") {
+        return value >= 0 ? encodeHead(majorUnsigned, value) : encodeHead(majorNegative, -1 - value);
+    }
+    if (typeof value === "string") {
+        const text = Buffer.from(value, "utf8");
+        return concatBytes(encodeHead(majorText, text.length), text);
+    }
+    if (value instanceof Uint8Array) {
+        return concatBytes(encodeHead(majorBytes, value.length), value);
+    }
+    const entries = Array.from(value.entries())
+        .map(([k, v]) => [cborEncode(k), cborEncode(v)])
+        .sort(([a], [b]) => Buffer.compare(a, b));
+    return concatBytes(encodeHead(majorMap, entries.length), ...entries.map(([k, v]) => concatBytes(k, v)));
+}
+
+/**
+ * Decode a single CBOR value that spans all of the given bytes
+ * @param bytes
+ * @param algorithm named in error messages
+ */
+export function cborDecode(bytes: Uint8Array, algorithm: string): CborValue {
+    const reader = new CborReader(bytes, algorithm);
+    const value = reader.read();
+    if (reader.offset !== bytes.length) {
+        throw new InvalidKeyEncodingError(algorithm + " CBOR has " + (bytes.length - reader.offset) + " trailing bytes",
+            algorithm, reader.offset, bytes.length);
+    }
+    return value;
+}
+
+function encodeHead(major: number, n: number): Uint8Array {
+    if (n < 24) {
+        return Uint8Array.of((major << 5) | n);
+    } else if (n < 0x100) {
+        return Uint8Array.of((major << 5) | 24, n);
+    } else if (n < 0x10000) {
+        return Uint8Array.of((major << 5) | 25, n >> 8, n & 0xFF);
+    }
+    return Uint8Array.of((major << 5) | 26, n >>> 24, (n >> 16) & 0xFF, (n >> 8) & 0xFF, n & 0xFF);
+}
+
+class CborReader {
+    public offset = 0;
+
+    constructor(private bytes: Uint8Array, private algorithm: string) { }
+
+    public read(): CborValue {
+        const [major, n] = this.readHead();
+        switch (major) {
+            case majorUnsigned:
+                return n;
+            case majorNegative:
+                return -1 - n;
+            case majorBytes:
+                return this.take(n).slice();
+            case majorText:
+                return Buffer.from(this.take(n)).toString("utf8");
+            case majorMap: {
+                const map = new Map<number | string, CborValue>();
+                for (let i = 0; i < n; i++) {
+                    const key = this.read();
+                    if ((typeof key !== "number" && typeof key !== "string") || map.has(key)) {
+                        throw this.error("CBOR map has an invalid or duplicate key", 0, 0);
+                    }
+                    map.set(key, this.read());
+                }
+                return map;
+            }
+        }
+        throw this.error("CBOR major type " + major + " is not supported", majorMap, major);
+    }
+
+    private readHead(): [number, number] {
+        const initial = this.take(1)[0];
+        const major = initial >> 5;
+        const info = initial & 0x1F;
+        if (info < 24) {
+            return [major, info];
+        }
+        if (info > 26) {
+            throw this.error("CBOR additional information " + info + " is not supported", 26, info);
+        }
+        const size = 1 << (info - 24);
+        let n = 0;
+        for (const b of this.take(size)) {
+            n = n * 256 + b;
+        }
+        // deterministic encoding uses the shortest head
+        if (n < 24 || (size > 1 && n < Math.pow(2, 4 * size))) {
+            throw this.error("CBOR argument " + n + " is not minimally encoded", n, n);
+        }
+        return [major, n];
+    }
+
+    private take(length: number): Uint8Array {
+        const available = this.bytes.length - this.offset;
+        if (available < length) {
+            throw this.error("CBOR is truncated: " + length + " bytes needed at offset " + this.offset + ", " +
+                available + " left", length, available);
+        }
+        const r = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return r;
+    }
+
+    private error(message: string, expected: number, actual: number): InvalidKeyEncodingError {
+        return new InvalidKeyEncodingError(this.algorithm + " " + message, this.algorithm, expected, actual);
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * COSE_Key representation of Kyber and ML-KEM keys, using the `AKP` key type
+ * with the `alg` label holding the algorithm name as a text string
+ */
+import { cborDecode, cborEncode, CborValue } from "./cbor";
+import { checkInputLength, InvalidKeyEncodingError, InvalidPublicKeyError } from "./errors";
+import { checkAlgorithmName, decodePrivateKey, resolvePrivateKey } from "./jwk";
+import { DecodedPrivateKey } from "./key-encoding";
+import { ByteArray, toBytes } from "./utilities";
+import { KyberService } from "../services/kyber.service";
+
+/**
+ * COSE key type of algorithm key pairs
+ */
+export const coseKeyTypeAkp = 7;
+
+// COSE_Key map labels
+const labelKty = 1;
+const labelAlg = 3;
+const labelPub = -1;
+const labelPriv = -2;
+
+const publicKeyLengths = [KyberService.Kyber512PKBytes, KyberService.Kyber768PKBytes, KyberService.Kyber1024PKBytes];
+
+/**
+ * Export a public key as a deterministically encoded COSE_Key
+ * @param service service of the key's parameter set
+ * @param publicKey
+ */
+export function exportPublicKeyCose(service: KyberService, publicKey: ByteArray): Uint8Array {
+    return cborEncode(publicKeyMap(service, toBytes(publicKey, "publicKey")));
+}
+
+/**
+ * Export a private key as a deterministically encoded COSE_Key, together with
+ * its public key
+ * @param service service of the key's parameter set
+ * @param privateKey 64-byte seed or expanded private key, exported in the
+ * form given
+ */
+export function exportPrivateKeyCose(service: KyberService, privateKey: ByteArray): Uint8Array {
+    const [privateKeyBytes, publicKey] = resolvePrivateKey(service, toBytes(privateKey, "privateKey"));
+    return cborEncode(publicKeyMap(service, publicKey).set(labelPriv, privateKeyBytes));
+}
+
+/**
+ * Import the public key of a COSE_Key, throwing if it is not an `AKP` key of
+ * the service's algorithm
+ * @param service
+ * @param coseKey
+ */
+export function importPublicKeyCose(service: KyberService, coseKey: ByteArray): Uint8Array {
+    return publicKeyFromMap(service, decodeMap(service, coseKey));
+}
+
+/**
+ * Import the private key of a COSE_Key, throwing if it is not an `AKP` key of
+ * the service's algorithm or its public key does not belong to its private
+ * key
+ * @param service
+ * @param coseKey
+ */
+export function importPrivateKeyCose(service: KyberService, coseKey: ByteArray): DecodedPrivateKey {
+    const map = decodeMap(service, coseKey);
+    const publicKey = publicKeyFromMap(service, map);
+    const privateKey = map.get(labelPriv);
+    if (!(privateKey instanceof Uint8Array)) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " COSE_Key has no private key", service.getAlgorithm(),
+            service.privateKeyBytes(), 0);
+    }
+    return decodePrivateKey(service, privateKey, publicKey);
+}
+
+function publicKeyMap(service: KyberService, publicKey: Uint8Array): Map<number | string, CborValue> {
+    checkInputLength(publicKey, publicKeyLengths, service.paramsK, service.getAlgorithm(), "public key", InvalidPublicKeyError);
+    return new Map<number | string, CborValue>([
+        [labelKty, coseKeyTypeAkp],
+        [labelAlg, service.getAlgorithm()],
+        [labelPub, publicKey]
+    ]);
+}
+
+function decodeMap(service: KyberService, coseKey: ByteArray): Map<number | string, CborValue> {
+    const map = cborDecode(toBytes(coseKey, "coseKey"), service.getAlgorithm());
+    if (!(map instanceof Map)) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " COSE_Key is not a CBOR map", service.getAlgorithm(), 0, 0);
+    }
+    return map;
+}
+
+function publicKeyFromMap(service: KyberService, map: Map<number | string, CborValue>): Uint8Array {
+    const alg = map.get(labelAlg);
+    checkAlgorithmName(service, map.get(labelKty) === coseKeyTypeAkp && typeof alg === "string" ? alg : undefined, "COSE_Key");
+    const publicKey = map.get(labelPub);
+    if (!(publicKey instanceof Uint8Array)) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " COSE_Key has no public key", service.getAlgorithm(),
+            service.publicKeyBytes(), 0);
+    }
+    checkInputLength(publicKey, publicKeyLengths, service.paramsK, service.getAlgorithm(), "public key", InvalidPublicKeyError);
+    return publicKey;
+}
@@ -0,0 +1,69 @@
+/**
+ * Constant-time comparison and conditional moves over byte arrays and 16-bit
+ * lanes
+ *
+ * The time taken depends only on the lengths of the arrays, never on their
+ * contents, so they can be used on secret data such as re-encrypted cipher
+ * texts and implicit rejection keys. Choices are 0 or 1.
+ */
+
+/**
+ * Array of bytes or 16-bit lanes
+ */
+export type CtArray = Uint8Array | Int16Array | Uint16Array;
+
+/**
+ * Compare two arrays
+ *
+ * Returns 1 if they have the same length and contents, 0 otherwise
+ * @param a
+ * @param b
+ */
+export function ctEqual(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    if (a.length !== b.length) {
+        return 0;
+    }
+    let d = 0;
+    for (let i = 0; i < a.length; i++) {
+        d |= (a[i] ^ b[i]) & 0xFFFF;
+    }
+    return ((d - 1) >>> 31) & 1;
+}
+
+/**
+ * Copy `x` over `r` if `choice` is 1 and leave `r` unchanged if it is 0
+ * @param r
+ * @param x array of the same length as `r`
+ * @param choice
+ * @return r
+ */
+export function ctCmov<T extends CtArray>(r: T, x: ArrayLike<number>, choice: number): T {
+    checkLengths(r, x);
+    const mask = -(choice & 1);
+    for (let i = 0; i < r.length; i++) {
+        r[i] ^= mask & (r[i] ^ x[i]);
+    }
+    return r;
+}
+
+/**
+ * Return a copy of `a` if `choice` is 0 and of `b` if it is 1, as an array
+ * of the same type as `a`
+ * @param choice
+ * @param a
+ * @param b array of the same length as `a`
+ */
+export function ctSelect(choice: number, a: Uint8Array, b: ArrayLike<number>): Uint8Array;
+export function ctSelect(choice: number, a: Int16Array, b: ArrayLike<number>): Int16Array;
+export function ctSelect(choice: number, a: Uint16Array, b: ArrayLike<number>): Uint16Array;
+export function ctSelect(choice: number, a: CtArray, b: ArrayLike<number>): CtArray {
+    // copy through the constructors, as slicing a Buffer returns a view
+    const r = a instanceof Uint8Array ? new Uint8Array(a) : a instanceof Int16Array ? new Int16Array(a) : new Uint16Array(a);
+    return ctCmov(r, b, choice);
+}
+
+function checkLengths(a: ArrayLike<number>, b: ArrayLike<number>): void {
+    if (a.length !== b.length) {
+        throw new RangeError("Arrays of " + a.length + " and " + b.length + " elements cannot be selected between");
+    }
+}
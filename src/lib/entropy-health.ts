@@ -0,0 +1,125 @@
+/**
+ * SP 800-90B continuous health tests of an entropy source
+ */
+import { EntropyHealthTestError } from "./errors";
+import { RandomSource } from "./random-source";
+
+/**
+ * False positive probability of each test per sample, within the 2^-20 to
+ * 2^-40 that SP 800-90B recommends
+ */
+const alpha = Math.pow(2, -40);
+
+/**
+ * Adaptive proportion test window for non-binary samples
+ */
+const windowSize = 512;
+
+/**
+ * Entropy source whose every byte, taken as an 8-bit sample, passes the
+ * repetition count and adaptive proportion tests of SP 800-90B section 4.4
+ *
+ * The tests run continuously across `fill` calls. Once a test fails, this
+ * and every later `fill` throws `EntropyHealthTestError`.
+ */
+export class HealthTestedEntropySource implements RandomSource {
+
+    /**
+     * Fewest identical consecutive samples that fail the repetition count test
+     */
+    public readonly repetitionCountCutoff: number;
+
+    /**
+     * Fewest occurrences of a window's first sample in the window that fail
+     * the adaptive proportion test
+     */
+    public readonly adaptiveProportionCutoff: number;
+
+    private failure: EntropyHealthTestError | undefined;
+    private lastSample = -1;
+    private repetitions = 0;
+    private windowSample = -1;
+    private windowPosition = 0;
+    private windowCount = 0;
+
+    /**
+     * @param source entropy source under test
+     * @param minEntropy claimed min-entropy in bits of each byte of the
+     * source, from 1 to 8
+     */
+    constructor(private readonly source: RandomSource, public readonly minEntropy: number = 8) {
+        if (!(minEntropy >= 1 && minEntropy <= 8)) {
+            throw new RangeError("min-entropy must be from 1 to 8 bits per byte, got " + minEntropy);
+        }
+        this.repetitionCountCutoff = 1 + Math.ceil(-Math.log2(alpha) / minEntropy);
+        this.adaptiveProportionCutoff = 1 + criticalBinomial(windowSize, Math.pow(2, -minEntropy), alpha);
+    }
+
+    /**
+     * Fill the byte array from the source, throwing if the bytes fail a
+     * health test
+     * @param bytes
+     */
+    public fill(bytes: Uint8Array): void {
+        if (this.failure !== undefined) {
+            throw this.failure;
+        }
+        this.source.fill(bytes);
+        for (let i = 0; i < bytes.length; i++) {
+            this.test(bytes[i]);
+        }
+    }
+
+    private test(sample: number): void {
+        // repetition count test
+        if (sample === this.lastSample) {
+            this.repetitions++;
+            if (this.repetitions >= this.repetitionCountCutoff) {
+                this.fail("Entropy source repeated the same byte " + this.repetitions + " times", "repetition count");
+            }
+        } else {
+            this.lastSample = sample;
+            this.repetitions = 1;
+        }
+
+        // adaptive proportion test
+        if (this.windowPosition === 0) {
+            this.windowSample = sample;
+            this.windowCount = 1;
+        } else if (sample === this.windowSample) {
+            this.windowCount++;
+            if (this.windowCount >= this.adaptiveProportionCutoff) {
+                this.fail("Entropy source produced the same byte " + this.windowCount + " times in " + windowSize,
+                    "adaptive proportion");
+            }
+        }
+        this.windowPosition = (this.windowPosition + 1) % windowSize;
+    }
+
+    private fail(message: string, test: "repetition count" | "adaptive proportion"): never {
+        this.failure = new EntropyHealthTestError(message, test);
+        throw this.failure;
+    }
+}
+
+/**
+ * Smallest k with P(X > k) <= tail for X binomially distributed with n trials
+ * of probability q, which is CRITBINOM(n, q, 1 - tail) of SP 800-90B
+ */
+function criticalBinomial(n: number, q: number, tail: number): number {
+    let pmf = Math.pow(1 - q, n);
+    const pmfs = [pmf];
+    for (let k = 1; k <= n; k++) {
+        pmf *= (n - k + 1) / k * q / (1 - q);
+        pmfs.push(pmf);
+    }
+    // sum the upper tail, whose terms are far smaller than 1
+    let upper = 0;
+    for (let k = n; k >= 0; k--) {
+        upper += pmfs[k];
+        if (upper > tail) {
+            return k;
+        }
+    }
+    return 0;
+}
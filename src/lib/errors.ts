@@ -0,0 +1,192 @@
+/**
+ * Errors thrown by the KEM services, the IND-CPA scheme, the handshakes, the
+ * random bit generators, HPKE and sealed boxes
+ */
+
+/**
+ * Base class of every error thrown for invalid KEM input or state
+ */
+export class KyberError extends Error {
+
+    /**
+     * @param message
+     * @param algorithm name of the algorithm, as returned by `getAlgorithm()`
+     * @param expected expected size in bytes
+     * @param actual actual size in bytes
+     */
+    constructor(
+        message: string,
+        public readonly algorithm: string,
+        public readonly expected: number,
+        public readonly actual: number
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * A public key of the wrong length, with coefficients that are not reduced
+ * modulo q, or with an X25519 part of low order
+ */
+export class InvalidPublicKeyError extends KyberError { }
+
+/**
+ * A private key of the wrong length, or whose stored public key hash does not
+ * match its public key
+ */
+export class InvalidPrivateKeyError extends KyberError { }
+
+/**
+ * A cipher text of the wrong length
+ */
+export class InvalidCiphertextLengthError extends KyberError { }
+
+/**
+ * A cipher text that cannot be decapsulated, such as an X-Wing cipher text
+ * whose X25519 part is of low order
+ */
+export class InvalidCiphertextError extends KyberError { }
+
+/**
+ * A seed, message or set of coins of the wrong length
+ */
+export class InvalidSeedError extends KyberError { }
+
+/**
+ * A key or cipher text whose length belongs to another parameter set
+ */
+export class ParameterSetMismatchError extends KyberError {
+
+    /**
+     * @param message
+     * @param algorithm
+     * @param expected
+     * @param actual
+     * @param parameterSet the parameter set (512, 768 or 1024) the input
+     * appears to belong to
+     */
+    constructor(message: string, algorithm: string, expected: number, actual: number, public readonly parameterSet: number) {
+        super(message, algorithm, expected, actual);
+    }
+}
+
+/**
+ * A handshake method called while the handshake holds keys it cannot use
+ */
+export class HandshakeStateError extends KyberError { }
+
+/**
+ * A DER, PEM, JWK, COSE_Key or wire encoding that is malformed or names an
+ * unexpected algorithm; `expected` and `actual` hold the tag or length at
+ * fault
+ */
+export class InvalidKeyEncodingError extends KyberError { }
+
+/**
+ * An operation refused because a self-test failed, or the failing self-test
+ * itself
+ */
+export class SelfTestError extends KyberError { }
+
+/**
+ * Entropy that failed a health test of its source; the source provides no
+ * more entropy from then on
+ */
+export class EntropyHealthTestError extends Error {
+
+    /**
+     * @param message
+     * @param test the test that failed
+     */
+    constructor(message: string, public readonly test: "repetition count" | "adaptive proportion") {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Invalid HPKE input, such as a pre-shared key without its identifier
+ */
+export class HpkeError extends Error {
+
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * An HPKE cipher text or additional data that is not authentic
+ */
+export class HpkeOpenError extends HpkeError { }
+
+/**
+ * An HPKE context whose sequence number is exhausted
+ */
+export class HpkeMessageLimitReachedError extends HpkeError { }
+
+/**
+ * A sealed box that is truncated, of an unknown version or of another KEM
+ * variant
+ */
+export class SealedBoxError extends Error {
+
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * A sealed box or additional data that is not authentic, or a sealed box
+ * for another private key
+ */
+export class SealedBoxOpenError extends SealedBoxError { }
+
+/**
+ * Throw if the given input is not the length the parameter set expects, with
+ * a `ParameterSetMismatchError` if it has the length of another parameter set
+ * @param bytes
+ * @param lengths lengths for the 512, 768 and 1024 parameter sets
+ * @param paramsK
+ * @param algorithm
+ * @param name name of the input in the error message
+ * @param error thrown for any other length
+ */
+export function checkInputLength(
+    bytes: ArrayLike<number>,
+    lengths: number[],
+    paramsK: number,
+    algorithm: string,
+    name: string,
+    error: new (message: string, algorithm: string, expected: number, actual: number) => KyberError
+): void {
+    const expected = lengths[paramsK - 2];
+    if (bytes.length === expected) {
+        return;
+    }
+    const message = algorithm + " " + name + " must be " + expected + " bytes, got " + bytes.length;
+    const other = lengths.indexOf(bytes.length);
+    if (other >= 0) {
+        const parameterSet = 256 * (other + 2);
+        throw new ParameterSetMismatchError(message + ", the " + name + " length of the " + parameterSet + " parameter set",
+            algorithm, expected, bytes.length, parameterSet);
+    }
+    throw new error(message, algorithm, expected, bytes.length);
+}
+
+/**
+ * Throw an `InvalidSeedError` if the given seed, message or coins are not
+ * `length` bytes long
+ * @param bytes
+ * @param length
+ * @param algorithm
+ * @param name
+ */
+export function checkSeedLength(bytes: ArrayLike<number>, length: number, algorithm: string, name: string): void {
+    if (bytes.length !== length) {
+        throw new InvalidSeedError(algorithm + " " + name + " must be " + length + " bytes, got " + bytes.length,
+            algorithm, length, bytes.length);
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * HMAC_DRBG of NIST SP 800-90A using HMAC-SHA-256
+ */
+import { createHmac } from "crypto";
+import { HealthTestedEntropySource } from "./entropy-health";
+import { defaultRandomSource, RandomSource } from "./random-source";
+import { concatBytes } from "./utilities";
+
+/**
+ * Options of an `HmacDrbg`
+ */
+export interface HmacDrbgOptions {
+    /** source of entropy inputs and the nonce, the platform by default */
+    entropySource?: RandomSource;
+    /** claimed min-entropy in bits per byte of the entropy source, 8 by default */
+    minEntropy?: number;
+    /** optional personalization string mixed into the instantiation */
+    personalizationString?: Uint8Array;
+    /** reseed with fresh entropy before every request */
+    predictionResistance?: boolean;
+    /** requests between reseeds, at most and by default 2^48 */
+    reseedInterval?: number;
+}
+
+/**
+ * HMAC_DRBG with HMAC-SHA-256 and a security strength of 256 bits, for use as
+ * the random source of a service or handshake
+ *
+ * Entropy inputs and the nonce come from the entropy source through the
+ * SP 800-90B repetition count and adaptive proportion health tests. The
+ * generator reseeds after `reseedInterval` requests, or before every request
+ * with prediction resistance.
+ */
+export class HmacDrbg implements RandomSource {
+
+    public static securityStrength = 256;
+
+    // SP 800-90A table 2 limits
+    public static maxReseedInterval = Math.pow(2, 48);
+    public static maxBytesPerRequest = 65536;
+    public static maxPersonalizationStringBytes = 65536;
+
+    /**
+     * Requests since the last (re)seed, plus one
+     */
+    public reseedCounter = 0;
+
+    public readonly predictionResistance: boolean;
+    public readonly reseedInterval: number;
+
+    private readonly entropySource: HealthTestedEntropySource;
+    private readonly entropyInputBytes: number;
+    private key: Uint8Array = new Uint8Array(32);
+    private v: Uint8Array = new Uint8Array(32);
+
+    /**
+     * Instantiate the generator from entropy input and a nonce
+     * @param options
+     */
+    constructor(options: HmacDrbgOptions = {}) {
+        const personalizationString = options.personalizationString ?? new Uint8Array(0);
+        if (personalizationString.length > HmacDrbg.maxPersonalizationStringBytes) {
+            throw new RangeError("personalization string must be at most " + HmacDrbg.maxPersonalizationStringBytes +
+                " bytes, got " + personalizationString.length);
+        }
+        this.reseedInterval = options.reseedInterval ?? HmacDrbg.maxReseedInterval;
+        if (!Number.isInteger(this.reseedInterval) || this.reseedInterval < 1 || this.reseedInterval > HmacDrbg.maxReseedInterval) {
+            throw new RangeError("reseed interval must be from 1 to 2^48, got " + this.reseedInterval);
+        }
+        this.predictionResistance = options.predictionResistance ?? false;
+        this.entropySource = new HealthTestedEntropySource(options.entropySource ?? defaultRandomSource, options.minEntropy);
+        this.entropyInputBytes = Math.ceil(HmacDrbg.securityStrength / this.entropySource.minEntropy);
+
+        // entropy input and a nonce of half the security strength, drawn together
+        const entropyInputAndNonce = this.getEntropy(this.entropyInputBytes + Math.ceil(this.entropyInputBytes / 2));
+        this.v.fill(0x01);
+        this.update(concatBytes(entropyInputAndNonce, personalizationString));
+        this.reseedCounter = 1;
+    }
+
+    /**
+     * Fill the whole byte array, in requests of at most `maxBytesPerRequest`
+     * bytes
+     * @param bytes
+     */
+    public fill(bytes: Uint8Array): void {
+        for (let i = 0; i < bytes.length; i += HmacDrbg.maxBytesPerRequest) {
+            this.generate(bytes.subarray(i, i + HmacDrbg.maxBytesPerRequest));
+        }
+    }
+
+    /**
+     * Fill the byte array in a single request, reseeding first if required
+     * @param bytes at most `maxBytesPerRequest` bytes
+     * @param additionalInput
+     */
+    public generate(bytes: Uint8Array, additionalInput?: Uint8Array): void {
+        if (bytes.length > HmacDrbg.maxBytesPerRequest) {
+            throw new RangeError("requests must be at most " + HmacDrbg.maxBytesPerRequest + " bytes, got " + bytes.length);
+        }
+        if (this.predictionResistance || this.reseedCounter > this.reseedInterval) {
+            this.reseed(additionalInput);
+            additionalInput = undefined;
+        }
+        if (additionalInput !== undefined && additionalInput.length > 0) {
+            this.update(additionalInput);
+        }
+        for (let i = 0; i < bytes.length; i += this.v.length) {
+            this.v = this.hmac(this.v);
+            bytes.set(this.v.subarray(0, Math.min(this.v.length, bytes.length - i)), i);
+        }
+        this.update(additionalInput);
+        this.reseedCounter++;
+    }
+
+    /**
+     * Mix fresh entropy input and the optional additional input into the state
+     * @param additionalInput
+     */
+    public reseed(additionalInput: Uint8Array = new Uint8Array(0)): void {
+        this.update(concatBytes(this.getEntropy(this.entropyInputBytes), additionalInput));
+        this.reseedCounter = 1;
+    }
+
+    private getEntropy(length: number): Uint8Array {
+        const entropy = new Uint8Array(length);
+        this.entropySource.fill(entropy);
+        return entropy;
+    }
+
+    /**
+     * HMAC_DRBG_Update
+     * @param providedData
+     */
+    private update(providedData?: Uint8Array): void {
+        const data = providedData ?? new Uint8Array(0);
+        this.key = this.hmac(this.v, Uint8Array.of(0x00), data);
+        this.v = this.hmac(this.v);
+        if (data.length > 0) {
+            this.key = this.hmac(this.v, Uint8Array.of(0x01), data);
+            this.v = this.hmac(this.v);
+        }
+    }
+
+    private hmac(...inputs: Uint8Array[]): Uint8Array {
+        const mac = createHmac("sha256", this.key);
+        for (const input of inputs) {
+            mac.update(input);
+        }
+        return new Uint8Array(mac.digest());
+    }
+}
@@ -0,0 +1,408 @@
+/**
+ * Hybrid Public Key Encryption (RFC 9180) with ML-KEM as the KEM
+ *
+ * The KEM is an ML-KEM service, identified by the KEM IDs of the HPKE ML-KEM
+ * draft, whose shared secret is used directly. Only the base and PSK modes
+ * exist, as ML-KEM cannot authenticate the sender.
+ */
+import { Buffer } from "buffer";
+import { CipherGCMTypes, createCipheriv, createDecipheriv, createHmac } from "crypto";
+import { HpkeError, HpkeMessageLimitReachedError, HpkeOpenError } from "./errors";
+import { ByteArray, concatBytes, toBytes } from "./utilities";
+import { KyberService } from "../services/kyber.service";
+
+/**
+ * Key derivation function of an HPKE suite
+ */
+export interface HpkeKdf {
+    id: number;
+    /** `node:crypto` name of the hash */
+    hash: "sha256" | "sha512";
+    /** output length of the hash */
+    nh: number;
+}
+
+/**
+ * AEAD of an HPKE suite
+ */
+export interface HpkeAead {
+    id: number;
+    /** `node:crypto` name of the cipher */
+    cipher: "aes-128-gcm" | "aes-256-gcm" | "chacha20-poly1305";
+    /** key length */
+    nk: number;
+    /** nonce length */
+    nn: number;
+}
+
+export const hkdfSha256: HpkeKdf = { id: 0x0001, hash: "sha256", nh: 32 };
+export const hkdfSha512: HpkeKdf = { id: 0x0003, hash: "sha512", nh: 64 };
+
+export const aes128Gcm: HpkeAead = { id: 0x0001, cipher: "aes-128-gcm", nk: 16, nn: 12 };
+export const aes256Gcm: HpkeAead = { id: 0x0002, cipher: "aes-256-gcm", nk: 32, nn: 12 };
+export const chaCha20Poly1305: HpkeAead = { id: 0x0003, cipher: "chacha20-poly1305", nk: 32, nn: 12 };
+
+export const hpkeModeBase = 0x00;
+export const hpkeModePsk = 0x01;
+
+/**
+ * HPKE KEM IDs of the ML-KEM parameter sets
+ */
+export const hpkeKemIds: { [algorithm: string]: number } = {
+    "ML-KEM-512": 0x0040,
+    "ML-KEM-768": 0x0041,
+    "ML-KEM-1024": 0x0042
+};
+
+// length of AEAD authentication tags
+const tagBytes = 16;
+const versionLabel = Buffer.from("HPKE-v1");
+
+/**
+ * Secrets derived by the key schedule
+ */
+export interface HpkeKeySchedule {
+    key: Uint8Array;
+    baseNonce: Uint8Array;
+    exporterSecret: Uint8Array;
+}
+
+/**
+ * Run the HPKE key schedule
+ * @param kemId
+ * @param kdf
+ * @param aead
+ * @param mode `hpkeModeBase` or `hpkeModePsk`
+ * @param sharedSecret KEM shared secret
+ * @param info
+ * @param psk pre-shared key, empty in the base mode
+ * @param pskId identifier of the pre-shared key, empty in the base mode
+ */
+export function hpkeKeySchedule(kemId: number, kdf: HpkeKdf, aead: HpkeAead, mode: number, sharedSecret: Uint8Array,
+                                info: Uint8Array, psk: Uint8Array, pskId: Uint8Array): HpkeKeySchedule {
+    if ((psk.length === 0) !== (pskId.length === 0)) {
+        throw new HpkeError("A pre-shared key and its identifier must be given together");
+    }
+    if ((mode === hpkeModePsk) !== (psk.length > 0)) {
+        throw new HpkeError(mode === hpkeModePsk ? "The PSK mode needs a pre-shared key" : "The base mode takes no pre-shared key");
+    }
+    const suiteId = hpkeSuiteId(kemId, kdf, aead);
+    const pskIdHash = labeledExtract(kdf, suiteId, new Uint8Array(0), "psk_id_hash", pskId);
+    const infoHash = labeledExtract(kdf, suiteId, new Uint8Array(0), "info_hash", info);
+    const context = concatBytes(Uint8Array.of(mode), pskIdHash, infoHash);
+
+    const secret = labeledExtract(kdf, suiteId, sharedSecret, "secret", psk);
+    return {
+        key: labeledExpand(kdf, suiteId, secret, "key", context, aead.nk),
+        baseNonce: labeledExpand(kdf, suiteId, secret, "base_nonce", context, aead.nn),
+        exporterSecret: labeledExpand(kdf, suiteId, secret, "exp", context, kdf.nh)
+    };
+}
+
+/**
+ * Encryption context shared by senders and recipients
+ */
+export abstract class HpkeContext {
+
+    private _seq = BigInt(0);
+
+    private readonly suiteId: Uint8Array;
+
+    /**
+     * @param kemId
+     * @param kdf
+     * @param aead
+     * @param schedule secrets derived by the key schedule
+     */
+    constructor(kemId: number, public readonly kdf: HpkeKdf, public readonly aead: HpkeAead,
+                protected readonly schedule: HpkeKeySchedule) {
+        this.suiteId = hpkeSuiteId(kemId, kdf, aead);
+    }
+
+    /**
+     * Number of messages sealed or opened so far
+     */
+    get seq(): bigint {
+        return this._seq;
+    }
+
+    /**
+     * Derive a secret of the given length from the exporter secret
+     * @param exporterContext
+     * @param length at most 255 times the hash length
+     */
+    public export(exporterContext: ByteArray, length: number): Uint8Array {
+        if (!Number.isInteger(length) || length < 0 || length > 255 * this.kdf.nh) {
+            throw new HpkeError("Exported secrets must be at most " + 255 * this.kdf.nh + " bytes, got " + length);
+        }
+        return labeledExpand(this.kdf, this.suiteId, this.schedule.exporterSecret, "sec", toBytes(exporterContext, "exporterContext"),
+            length);
+    }
+
+    /**
+     * The nonce of the current sequence number
+     */
+    protected computeNonce(): Uint8Array {
+        const nonce = i2osp(this._seq, this.aead.nn);
+        for (let i = 0; i < nonce.length; i++) {
+            nonce[i] ^= this.schedule.baseNonce[i];
+        }
+        return nonce;
+    }
+
+    /**
+     * Throw if the sequence number would reach 2^(8 Nn) - 1, then move to
+     * the next
+     */
+    protected incrementSeq(): void {
+        if (this._seq >= (BigInt(1) << BigInt(8 * this.aead.nn)) - BigInt(1)) {
+            throw new HpkeMessageLimitReachedError("The context has sealed or opened its last message");
+        }
+        this._seq += BigInt(1);
+    }
+}
+
+/**
+ * Context of the sender, which seals messages to the recipient
+ */
+export class HpkeSenderContext extends HpkeContext {
+
+    /**
+     * Encrypt and authenticate the plain text and authenticate the
+     * additional data
+     * @param aad
+     * @param plainText
+     * @return cipher text followed by the 16-byte tag
+     */
+    public seal(aad: ByteArray, plainText: ByteArray): Uint8Array {
+        const nonce = this.computeNonce();
+        this.incrementSeq();
+        // ChaCha20-Poly1305 ciphers have the interface of GCM ones
+        const cipher = createCipheriv(this.aead.cipher as CipherGCMTypes, this.schedule.key, nonce, { authTagLength: tagBytes });
+        cipher.setAAD(toBytes(aad, "aad"));
+        return concatBytes(cipher.update(toBytes(plainText, "plainText")), cipher.final(), cipher.getAuthTag());
+    }
+}
+
+/**
+ * Context of the recipient, which opens messages from the sender
+ */
+export class HpkeRecipientContext extends HpkeContext {
+
+    /**
+     * Decrypt the cipher text, throwing `HpkeOpenError` if it or the
+     * additional data is not authentic
+     * @param aad
+     * @param cipherText cipher text followed by the 16-byte tag
+     */
+    public open(aad: ByteArray, cipherText: ByteArray): Uint8Array {
+        const cipherTextBytes = toBytes(cipherText, "cipherText");
+        if (cipherTextBytes.length < tagBytes) {
+            throw new HpkeOpenError("Cipher text is shorter than its " + tagBytes + "-byte tag");
+        }
+        const decipher = createDecipheriv(this.aead.cipher as CipherGCMTypes, this.schedule.key, this.computeNonce(),
+            { authTagLength: tagBytes });
+        decipher.setAAD(toBytes(aad, "aad"));
+        decipher.setAuthTag(cipherTextBytes.subarray(cipherTextBytes.length - tagBytes));
+        let plainText: Uint8Array;
+        try {
+            plainText = concatBytes(decipher.update(cipherTextBytes.subarray(0, cipherTextBytes.length - tagBytes)), decipher.final());
+        } catch (e) {
+            throw new HpkeOpenError("Cipher text or additional data is not authentic");
+        }
+        this.incrementSeq();
+        return plainText;
+    }
+}
+
+/**
+ * HPKE with an ML-KEM service as the KEM and the given KDF and AEAD
+ */
+export class Hpke {
+
+    public readonly kemId: number;
+
+    /**
+     * @param service ML-KEM service of the recipient's parameter set
+     * @param kdf
+     * @param aead
+     */
+    constructor(public readonly service: KyberService, public readonly kdf: HpkeKdf = hkdfSha256,
+                public readonly aead: HpkeAead = aes128Gcm) {
+        const kemId = hpkeKemIds[service.getAlgorithm()];
+        if (kemId === undefined) {
+            throw new HpkeError(service.getAlgorithm() + " has no HPKE KEM ID");
+        }
+        this.kemId = kemId;
+    }
+
+    /**
+     * Set up a sender context to the recipient's public key
+     * @param publicKey
+     * @param info application information bound to the context
+     * @return [enc, context], where enc is the KEM cipher text for the
+     * recipient
+     */
+    public setupBaseS(publicKey: ByteArray, info: ByteArray = []): [Uint8Array, HpkeSenderContext] {
+        return this.setupS(hpkeModeBase, publicKey, info, [], []);
+    }
+
+    /**
+     * Set up the recipient context of the given KEM cipher text
+     * @param enc
+     * @param privateKey
+     * @param info
+     */
+    public setupBaseR(enc: ByteArray, privateKey: ByteArray, info: ByteArray = []): HpkeRecipientContext {
+        return this.setupR(hpkeModeBase, enc, privateKey, info, [], []);
+    }
+
+    /**
+     * Set up a sender context bound to a pre-shared key
+     * @param publicKey
+     * @param info
+     * @param psk pre-shared key of at least 32 bytes
+     * @param pskId
+     */
+    public setupPskS(publicKey: ByteArray, info: ByteArray, psk: ByteArray, pskId: ByteArray): [Uint8Array, HpkeSenderContext] {
+        return this.setupS(hpkeModePsk, publicKey, info, psk, pskId);
+    }
+
+    /**
+     * Set up the recipient context of a KEM cipher text bound to a pre-shared
+     * key
+     * @param enc
+     * @param privateKey
+     * @param info
+     * @param psk
+     * @param pskId
+     */
+    public setupPskR(enc: ByteArray, privateKey: ByteArray, info: ByteArray, psk: ByteArray, pskId: ByteArray): HpkeRecipientContext {
+        return this.setupR(hpkeModePsk, enc, privateKey, info, psk, pskId);
+    }
+
+    /**
+     * Encrypt a single message to the recipient's public key
+     * @param publicKey
+     * @param info
+     * @param aad
+     * @param plainText
+     * @return [enc, cipherText]
+     */
+    public sealBase(publicKey: ByteArray, info: ByteArray, aad: ByteArray, plainText: ByteArray): [Uint8Array, Uint8Array] {
+        const [enc, context] = this.setupBaseS(publicKey, info);
+        return [enc, context.seal(aad, plainText)];
+    }
+
+    /**
+     * Decrypt a single message of `sealBase`
+     * @param enc
+     * @param privateKey
+     * @param info
+     * @param aad
+     * @param cipherText
+     */
+    public openBase(enc: ByteArray, privateKey: ByteArray, info: ByteArray, aad: ByteArray, cipherText: ByteArray): Uint8Array {
+        return this.setupBaseR(enc, privateKey, info).open(aad, cipherText);
+    }
+
+    /**
+     * Encrypt a single message to the recipient's public key, bound to a
+     * pre-shared key
+     * @param publicKey
+     * @param info
+     * @param aad
+     * @param plainText
+     * @param psk
+     * @param pskId
+     * @return [enc, cipherText]
+     */
+    public sealPsk(publicKey: ByteArray, info: ByteArray, aad: ByteArray, plainText: ByteArray, psk: ByteArray,
+                   pskId: ByteArray): [Uint8Array, Uint8Array] {
+        const [enc, context] = this.setupPskS(publicKey, info, psk, pskId);
+        return [enc, context.seal(aad, plainText)];
+    }
+
+    /**
+     * Decrypt a single message of `sealPsk`
+     * @param enc
+     * @param privateKey
+     * @param info
+     * @param aad
+     * @param cipherText
+     * @param psk
+     * @param pskId
+     */
+    public openPsk(enc: ByteArray, privateKey: ByteArray, info: ByteArray, aad: ByteArray, cipherText: ByteArray, psk: ByteArray,
+                   pskId: ByteArray): Uint8Array {
+        return this.setupPskR(enc, privateKey, info, psk, pskId).open(aad, cipherText);
+    }
+
+    private setupS(mode: number, publicKey: ByteArray, info: ByteArray, psk: ByteArray, pskId: ByteArray): [Uint8Array, HpkeSenderContext] {
+        const pskBytes = this.checkPsk(psk);
+        const [enc, sharedSecret] = this.service.encrypt(publicKey);
+        const schedule = hpkeKeySchedule(this.kemId, this.kdf, this.aead, mode, sharedSecret, toBytes(info, "info"), pskBytes,
+            toBytes(pskId, "pskId"));
+        return [enc, new HpkeSenderContext(this.kemId, this.kdf, this.aead, schedule)];
+    }
+
+    private setupR(mode: number, enc: ByteArray, privateKey: ByteArray, info: ByteArray, psk: ByteArray,
+                   pskId: ByteArray): HpkeRecipientContext {
+        const pskBytes = this.checkPsk(psk);
+        const sharedSecret = this.service.decrypt(enc, privateKey);
+        const schedule = hpkeKeySchedule(this.kemId, this.kdf, this.aead, mode, sharedSecret, toBytes(info, "info"), pskBytes,
+            toBytes(pskId, "pskId"));
+        return new HpkeRecipientContext(this.kemId, this.kdf, this.aead, schedule);
+    }
+
+    private checkPsk(psk: ByteArray): Uint8Array {
+        const pskBytes = toBytes(psk, "psk");
+        if (pskBytes.length > 0 && pskBytes.length < 32) {
+            throw new HpkeError("Pre-shared keys must be at least 32 bytes, got " + pskBytes.length);
+        }
+        return pskBytes;
+    }
+}
+
+function hpkeSuiteId(kemId: number, kdf: HpkeKdf, aead: HpkeAead): Uint8Array {
+    return concatBytes(Buffer.from("HPKE"), i2osp(kemId, 2), i2osp(kdf.id, 2), i2osp(aead.id, 2));
+}
+
+/**
+ * Big-endian encoding of n in the given number of bytes
+ */
+function i2osp(n: number | bigint, length: number): Uint8Array {
+    const r = new Uint8Array(length);
+    let v = BigInt(n);
+    for (let i = length - 1; i >= 0; i--) {
+        r[i] = Number(v & BigInt(0xFF));
+        v >>= BigInt(8);
+    }
+    return r;
+}
+
+function hmac(kdf: HpkeKdf, key: Uint8Array, ...inputs: Uint8Array[]): Uint8Array {
+    const mac = createHmac(kdf.hash, key);
+    for (const input of inputs) {
+        mac.update(input);
+    }
+    return new Uint8Array(mac.digest());
+}
+
+function labeledExtract(kdf: HpkeKdf, suiteId: Uint8Array, salt: Uint8Array, label: string, ikm: Uint8Array): Uint8Array {
+    // HKDF-Extract, with an empty salt standing for Nh zero bytes
+    return hmac(kdf, salt.length > 0 ? salt : new Uint8Array(kdf.nh), versionLabel, suiteId, Buffer.from(label), ikm);
+}
+
+function labeledExpand(kdf: HpkeKdf, suiteId: Uint8Array, prk: Uint8Array, label: string, info: Uint8Array,
+                       length: number): Uint8Array {
+    // HKDF-Expand
+    const labeledInfo = concatBytes(i2osp(length, 2), versionLabel, suiteId, Buffer.from(label), info);
+    const okm = new Uint8Array(length);
+    let t: Uint8Array = new Uint8Array(0);
+    for (let i = 0; i * kdf.nh < length; i++) {
+        t = hmac(kdf, prk, t, labeledInfo, Uint8Array.of(i + 1));
+        okm.set(t.subarray(0, Math.min(kdf.nh, length - i * kdf.nh)), i * kdf.nh);
+    }
+    return okm;
+}
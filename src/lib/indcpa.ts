@@ -1,63 +1,89 @@
-import { Buffer } from "buffer";
-import { randomIntUpTo, uint16 } from "./utilities";
-import { SHA3, SHAKE } from "sha3";
+import { ByteArray, toBytes } from "./utilities";
 import { Poly } from "./poly";
+import { shakeSymmetric, SymmetricPrimitives } from "./symmetric";
+import { XofReader } from "./xof";
+import {
+    checkInputLength,
+    checkSeedLength,
+    InvalidCiphertextLengthError,
+    InvalidPrivateKeyError,
+    InvalidPublicKeyError
+} from "./errors";
 import { KyberService } from "../services/kyber.service";
 
+/**
+ * IND-CPA public key decoded for encryption: t̂ and the transposed public
+ * matrix Â^T, both in NTT form
+ */
+export interface IndcpaPublicKey {
+    t: Int16Array[];
+    at: Int16Array[][];
+}
+
 export class Indcpa {
     public poly: Poly;
 
-    constructor(public paramsK: number) {
-        this.poly = new Poly(this.paramsK);
+    /**
+     * @param paramsK
+     * @param domainSeparated when true, key generation appends `paramsK` to
+     * the seed before hashing as required by FIPS 203 (ML-KEM)
+     * @param symmetric hash functions, XOF and PRF of the Kyber variant
+     * @param algorithm name used in errors
+     */
+    constructor(
+        public paramsK: number,
+        public domainSeparated: boolean = false,
+        public symmetric: SymmetricPrimitives = shakeSymmetric,
+        public algorithm: string = "Kyber" + 256 * paramsK
+    ) {
+        this.poly = new Poly(this.paramsK, this.symmetric);
     }
 
     /**
      * Generates public and private keys for the CPA-secure public-key
      * encryption scheme underlying Kyber.
+     *
+     * The same 32-byte seed always yields the same key pair.
+     *
+     * @param seed
      */
-    public indcpaKeyGen(): [number[], number[]] {
-        const rnd = Buffer.alloc(KyberService.paramsSymBytes);
-        for (let i = 0; i < KyberService.paramsSymBytes; i++) {
-            rnd[i] = randomIntUpTo(256);
-        }
-
-        const seed = new SHA3(512).update(rnd).digest();
-        const publicSeedBuffer = seed.slice(0, KyberService.paramsSymBytes);
-        const noiseSeedBuffer = seed.slice(KyberService.paramsSymBytes, KyberService.paramsSymBytes * 2);
-        const publicSeed = [...publicSeedBuffer];
-        const noiseSeed = [...noiseSeedBuffer];
+    public indcpaKeyGen(seed: ByteArray): [Uint8Array, Uint8Array] {
+        const seedBytes = toBytes(seed, "seed");
+        checkSeedLength(seedBytes, KyberService.paramsSymBytes, this.algorithm, "seed");
+        const expandedSeed = this.domainSeparated ?
+            this.symmetric.hashG(seedBytes, Uint8Array.of(this.paramsK)) :
+            this.symmetric.hashG(seedBytes);
+        const publicSeed = new Uint8Array(expandedSeed.subarray(0, KyberService.paramsSymBytes));
+        const noiseSeed = new Uint8Array(expandedSeed.subarray(KyberService.paramsSymBytes, KyberService.paramsSymBytes * 2));
 
         // generate public matrix A (already in NTT form)
         const a = this.generateMatrix(publicSeed, false);
-        const s = new Array<number[]>(this.paramsK);
-        const e = new Array<number[]>(this.paramsK);
+        const s = new Array<Int16Array>(this.paramsK);
+        const e = new Array<Int16Array>(this.paramsK);
         for (let i = 0; i < this.paramsK; i++) {
             s[i] = this.poly.getNoisePoly(noiseSeed, i, this.paramsK);
             e[i] = this.poly.getNoisePoly(noiseSeed, (i + this.paramsK), this.paramsK);
-            s[i] = this.poly.ntt(s[i]);
-            e[i] = this.poly.ntt(e[i]);
-            s[i] = this.poly.polyReduce(s[i]);
+            this.poly.polyReduce(this.poly.ntt(s[i]));
+            this.poly.ntt(e[i]);
         }
 
-        const pk = new Array<number[]>(this.paramsK);
+        const pk = new Array<Int16Array>(this.paramsK);
         for (let i = 0; i < this.paramsK; i++) {
             pk[i] = this.poly.polyToMont(this.poly.polyVectorPointWiseAccMont(a[i], s));
-            pk[i] = this.poly.polyAdd(pk[i], e[i]);
-            pk[i] = this.poly.polyReduce(pk[i]);
+            this.poly.polyReduce(this.poly.polyAdd(pk[i], e[i]));
         }
 
         // ENCODE KEYS
-        const publicKey = [];
+        const polyvecBytes = this.paramsK * KyberService.paramsPolyBytes;
+        const publicKey = new Uint8Array(polyvecBytes + KyberService.paramsSymBytes);
         for (let i = 0; i < this.paramsK; i++) {
-            const bytes = this.poly.polyToBytes(pk[i]);
-            publicKey.push(...bytes);
+            publicKey.set(this.poly.polyToBytes(pk[i]), i * KyberService.paramsPolyBytes);
         }
-        publicKey.push(...publicSeed);
+        publicKey.set(publicSeed, polyvecBytes);
 
-        const privateKey = [];
+        const privateKey = new Uint8Array(polyvecBytes);
         for (let i = 0; i < this.paramsK; i++) {
-            const bytes = this.poly.polyToBytes(s[i]);
-            privateKey.push(...bytes);
+            privateKey.set(this.poly.polyToBytes(s[i]), i * KyberService.paramsPolyBytes);
         }
         return [publicKey, privateKey];
     }
@@ -70,53 +96,80 @@ export class Indcpa {
      * @param coins
      * @return
      */
-    public indcpaEncrypt(publicKey: number[], message: number[], coins: number[]): number[] {
-        const pk = new Array<number[]>(this.paramsK);
-        const k = this.poly.polyFromData(message);
-        for (let i = 0; i < this.paramsK; i++) {
-            const start = i * KyberService.paramsPolyBytes;
-            const end = (i + 1) * KyberService.paramsPolyBytes;
-            pk[i] = this.poly.polyFromBytes(publicKey.slice(start, end));
-        }
+    public indcpaEncrypt(publicKey: ByteArray, message: ByteArray, coins: ByteArray): Uint8Array {
+        return this.indcpaEncryptDecoded(this.indcpaDecodePublicKey(publicKey), message, coins);
+    }
 
-        let seed;
-        if (this.paramsK === 2) {
-            seed = publicKey.slice(KyberService.paramsPolyvecBytesK512, KyberService.paramsIndcpaPublicKeyBytesK512);
-        } else if (this.paramsK === 3) {
-            seed = publicKey.slice(KyberService.paramsPolyvecBytesK768, KyberService.paramsIndcpaPublicKeyBytesK768);
-        } else {
-            seed = publicKey.slice(KyberService.paramsPolyvecBytesK1024, KyberService.paramsIndcpaPublicKeyBytesK1024);
-        }
+    /**
+     * Decode the given public key into t̂ and the transposed public matrix
+     * Â^T, so that it can encrypt any number of messages without decoding
+     * it and expanding the matrix again
+     *
+     * @param publicKey
+     * @return
+     */
+    public indcpaDecodePublicKey(publicKey: ByteArray): IndcpaPublicKey {
+        const publicKeyBytes = toBytes(publicKey, "publicKey");
+        checkInputLength(publicKeyBytes, [
+            KyberService.paramsIndcpaPublicKeyBytesK512,
+            KyberService.paramsIndcpaPublicKeyBytesK768,
+            KyberService.paramsIndcpaPublicKeyBytesK1024
+        ], this.paramsK, this.algorithm, "public key", InvalidPublicKeyError);
+
+        const polyvecBytes = this.paramsK * KyberService.paramsPolyBytes;
+        const t = this.poly.polyVectorFromBytes(publicKeyBytes.subarray(0, polyvecBytes));
+        const at = this.generateMatrix(publicKeyBytes.subarray(polyvecBytes), true);
+        return { t, at };
+    }
+
+    /**
+     * Encrypt the given message to a decoded public key, which is not
+     * modified
+     *
+     * @param publicKey
+     * @param message
+     * @param coins
+     * @return
+     */
+    public indcpaEncryptDecoded(publicKey: IndcpaPublicKey, message: ByteArray, coins: ByteArray): Uint8Array {
+        const messageBytes = toBytes(message, "message");
+        const coinBytes = toBytes(coins, "coins");
+        checkSeedLength(messageBytes, KyberService.paramsSymBytes, this.algorithm, "message");
+        checkSeedLength(coinBytes, KyberService.paramsSymBytes, this.algorithm, "coins");
 
-        const at = this.generateMatrix(seed, true);
-        const sp = new Array<number[]>(this.paramsK);
-        const ep = new Array<number[]>(this.paramsK);
+        const k = this.poly.polyFromData(messageBytes);
+        const pk = publicKey.t;
+        const at = publicKey.at;
+        const sp = new Array<Int16Array>(this.paramsK);
+        const ep = new Array<Int16Array>(this.paramsK);
         for (let i = 0; i < this.paramsK; i++) {
-            sp[i] = this.poly.getNoisePoly(coins, i, this.paramsK);
-            ep[i] = this.poly.getNoisePoly(coins, i + this.paramsK, 3);
-            sp[i] = this.poly.ntt(sp[i]);
-            sp[i] = this.poly.polyReduce(sp[i]);
+            sp[i] = this.poly.getNoisePoly(coinBytes, i, this.paramsK);
+            ep[i] = this.poly.getNoisePoly(coinBytes, i + this.paramsK, 3);
+            this.poly.polyReduce(this.poly.ntt(sp[i]));
         }
 
-        let bp = new Array<number[]>(this.paramsK);
+        const bp = new Array<Int16Array>(this.paramsK);
         for (let i = 0; i < this.paramsK; i++) {
             bp[i] = this.poly.polyVectorPointWiseAccMont(at[i], sp);
         }
-        bp = this.poly.polyVectorInvNTTMont(bp);
-        bp = this.poly.polyVectorAdd(bp, ep);
-        bp = this.poly.polyVectorReduce(bp);
+        this.poly.polyVectorInvNTTMont(bp);
+        this.poly.polyVectorAdd(bp, ep);
+        this.poly.polyVectorReduce(bp);
 
-        const epp = this.poly.getNoisePoly(coins, this.paramsK * 2, 3);
-        let v = this.poly.polyVectorPointWiseAccMont(pk, sp);
-        v = this.poly.invNTT(v);
-        v = this.poly.polyAdd(v, epp);
-        v = this.poly.polyAdd(v, k);
-        v = this.poly.polyReduce(v);
+        const epp = this.poly.getNoisePoly(coinBytes, this.paramsK * 2, 3);
+        const v = this.poly.polyVectorPointWiseAccMont(pk, sp);
+        this.poly.invNTT(v);
+        this.poly.polyAdd(v, epp);
+        this.poly.polyAdd(v, k);
+        this.poly.polyReduce(v);
 
         const bCompress = this.poly.compressPolyVector(bp);
         const vCompress = this.poly.compressPoly(v);
 
-        return [...bCompress, ...vCompress];
+        const cipherText = new Uint8Array(bCompress.length + vCompress.length);
+        cipherText.set(bCompress, 0);
+        cipherText.set(vCompress, bCompress.length);
+        return cipherText;
     }
 
     /**
@@ -126,7 +179,43 @@ export class Indcpa {
      * @param privateKey
      * @return
      */
-    public indcpaDecrypt(packedCipherText: number[], privateKey: number[]): number[] {
+    public indcpaDecrypt(packedCipherText: ByteArray, privateKey: ByteArray): Uint8Array {
+        return this.indcpaDecryptDecoded(packedCipherText, this.indcpaDecodePrivateKey(privateKey));
+    }
+
+    /**
+     * Decode the given private key into the secret vector ŝ in NTT form, so
+     * that it can decrypt any number of cipher texts without decoding it
+     * again
+     *
+     * @param privateKey
+     * @return
+     */
+    public indcpaDecodePrivateKey(privateKey: ByteArray): Int16Array[] {
+        const privateKeyBytes = toBytes(privateKey, "privateKey");
+        checkInputLength(privateKeyBytes, [
+            KyberService.paramsIndcpaSecretKeyBytesK512,
+            KyberService.paramsIndcpaSecretKeyBytesK768,
+            KyberService.paramsIndcpaSecretKeyBytesK1024
+        ], this.paramsK, this.algorithm, "IND-CPA private key", InvalidPrivateKeyError);
+        return this.poly.polyVectorFromBytes(privateKeyBytes);
+    }
+
+    /**
+     * Decrypt the given byte array with a decoded private key, which is not
+     * modified
+     *
+     * @param packedCipherText
+     * @param privateKey
+     * @return
+     */
+    public indcpaDecryptDecoded(packedCipherText: ByteArray, privateKey: Int16Array[]): Uint8Array {
+        const cipherTextBytes = toBytes(packedCipherText, "packedCipherText");
+        checkInputLength(cipherTextBytes, [
+            KyberService.Kyber512CTBytes,
+            KyberService.Kyber768CTBytes,
+            KyberService.Kyber1024CTBytes
+        ], this.paramsK, this.algorithm, "cipher text", InvalidCiphertextLengthError);
         let bpEndIndex: number;
         let vEndIndex: number;
         if (this.paramsK === 2) {
@@ -140,17 +229,12 @@ export class Indcpa {
             vEndIndex = bpEndIndex + KyberService.paramsPolyCompressedBytesK1024;
         }
 
-        let bp = this.poly.decompressPolyVector(packedCipherText.slice(0, bpEndIndex));
-        bp = this.poly.polyVectorNTT(bp);
+        const bp = this.poly.polyVectorNTT(this.poly.decompressPolyVector(cipherTextBytes.subarray(0, bpEndIndex)));
 
-        const v = this.poly.decompressPoly(packedCipherText.slice(bpEndIndex, vEndIndex));
-        const privateKeyPolyvec = this.poly.polyVectorFromBytes(privateKey);
+        const v = this.poly.decompressPoly(cipherTextBytes.subarray(bpEndIndex, vEndIndex));
 
-        let mp = this.poly.polyVectorPointWiseAccMont(privateKeyPolyvec, bp);
-        mp = this.poly.invNTT(mp);
-        mp = this.poly.subtract(v, mp);
-        mp = this.poly.polyReduce(mp);
-        return this.poly.polyToMsg(mp);
+        const mp = this.poly.invNTT(this.poly.polyVectorPointWiseAccMont(privateKey, bp));
+        return this.poly.polyToMsg(this.poly.polyReduce(this.poly.subtract(v, mp)));
     }
 
     /**
@@ -160,46 +244,60 @@ export class Indcpa {
      * @param transposed
      * @return
      */
-    public generateMatrix(seed: number[], transposed: boolean): number[][][] {
-        let a = new Array<number[][]>(this.paramsK);
-        const xof = new SHAKE(128);
-        let ctr = 0;
-
+    public generateMatrix(seed: Uint8Array, transposed: boolean): Int16Array[][] {
+        const a = new Array<Int16Array[]>(this.paramsK);
         for (let i = 0; i < this.paramsK; i++) {
-            a[i] = new Array(this.paramsK);
+            a[i] = new Array<Int16Array>(this.paramsK);
             for (let j = 0; j < this.paramsK; j++) {
-                const transpose = transposed ? [i, j] : [j, i];
-
-                // obtain xof of (seed+i+j) or (seed+j+i) depending on above code
-                // output is 672 bytes in length
-                const outputString = xof.reset()
-                    .update(Buffer.from(seed))
-                    .update(Buffer.from(transpose))
-                    .digest({ format: "binary", buffer: Buffer.alloc(672) });
-                let output = Buffer.alloc(outputString.length).fill(outputString);
-                // run rejection sampling on the output from above
-                let outputlen = 3 * 168;
-
-                // `a[i][j]` is the result here is an NTT-representation
-                // `ctr` keeps track of index of output array from sampling function
-                [a[i][j], ctr] = this.generateUniform(output.slice(0, 504), outputlen, KyberService.paramsN);
-
-                while (ctr < KyberService.paramsN) { // if the polynomial hasnt been filled yet with mod q entries
-                    const outputn = output.slice(504, 672); // take last 168 bytes of byte array from xof
-                    // `missing` here is additional mod q polynomial coefficients
-                    // `ctrn` how many coefficients were accepted and are in the output
-                    const [missing, ctrn] = this.generateUniform(outputn, 168, KyberService.paramsN - ctr); // run sampling function again
-                    // starting at last position of output array from first sampling function until 256 is reached
-                    for (let k = ctr; k < KyberService.paramsN; k++) {
-                        a[i][j][k] = missing[k - ctr]; // fill rest of array with the additional coefficients until full
-                    }
-                    ctr += ctrn;
-                }
+                // xof of (seed+i+j) or (seed+j+i) depending on `transposed`
+                const xof = transposed ? this.xof(seed, i, j) : this.xof(seed, j, i);
+                a[i][j] = this.sampleNTT(xof);
             }
         }
         return a;
     }
 
+    /**
+     * Returns the XOF used to expand element (x, y) of the public matrix
+     *
+     * @param seed
+     * @param x
+     * @param y
+     * @return
+     */
+    public xof(seed: Uint8Array, x: number, y: number): XofReader {
+        return this.symmetric.xof(seed, x, y);
+    }
+
+    /**
+     * Sample a polynomial in NTT representation from the given XOF, squeezing
+     * further blocks until all 256 coefficients are filled (SampleNTT in
+     * FIPS 203)
+     *
+     * @param xof
+     * @return
+     */
+    public sampleNTT(xof: XofReader): Int16Array {
+        // enough blocks for 256 coefficients at the expected acceptance rate
+        // q / 4096, as in the reference GEN_MATRIX_NBLOCKS
+        const blocks = Math.floor((Math.floor(12 * KyberService.paramsN / 8 * 4096 / KyberService.paramsQ) + xof.blockSize) / xof.blockSize);
+        let buf = xof.squeezeBlocks(blocks);
+        const [r, ctr] = this.generateUniform(buf, buf.length, KyberService.paramsN);
+        let filled = ctr;
+        while (filled < KyberService.paramsN) {
+            // carry over the bytes of an incomplete 3-byte group
+            const off = buf.length % 3;
+            const next = new Uint8Array(off + xof.blockSize);
+            next.set(buf.subarray(buf.length - off));
+            next.set(xof.squeezeBlocks(1), off);
+            buf = next;
+            const [missing, ctrn] = this.generateUniform(buf, buf.length, KyberService.paramsN - filled);
+            r.set(missing.subarray(0, ctrn), filled);
+            filled += ctrn;
+        }
+        return r;
+    }
+
     /**
      * Runs rejection sampling on uniform random bytes to generate uniform
      * random integers modulo `Q`
@@ -209,14 +307,14 @@ export class Indcpa {
      * @param len
      * @return
      */
-    public generateUniform(buf: Buffer, bufl: number, len: number): [number[], number] {
-        const uniformR = new Array(KyberService.paramsPolyBytes);
+    public generateUniform(buf: Uint8Array, bufl: number, len: number): [Int16Array, number] {
+        const uniformR = new Int16Array(KyberService.paramsN);
         let j = 0;
         let uniformI = 0;
 
         while ((uniformI < len) && ((j + 3) <= bufl)) {
-            const d1 = (uint16((buf[j]) >> 0) | (uint16(buf[j + 1]) << 8)) & 0xFFF;
-            const d2 = (uint16((buf[j + 1]) >> 4) | (uint16(buf[j + 2]) << 4)) & 0xFFF;
+            const d1 = (buf[j] | (buf[j + 1] << 8)) & 0xFFF;
+            const d2 = ((buf[j + 1] >> 4) | (buf[j + 2] << 4)) & 0xFFF;
             j += 3;
 
             if (d1 < KyberService.paramsQ) {
@@ -0,0 +1,167 @@
+/**
+ * JSON Web Key representation of Kyber and ML-KEM keys, using the `AKP`
+ * (algorithm key pair) key type with `alg` naming the parameter set
+ */
+import { Buffer } from "buffer";
+import { createHash } from "crypto";
+import { checkInputLength, InvalidKeyEncodingError, InvalidPrivateKeyError, InvalidPublicKeyError, ParameterSetMismatchError } from "./errors";
+import { DecodedPrivateKey } from "./key-encoding";
+import { ByteArray, constantTimeCompare, toBytes } from "./utilities";
+import { KyberService } from "../services/kyber.service";
+
+/**
+ * `AKP` JSON Web Key
+ */
+export interface AkpJwk {
+    kty: "AKP";
+
+    /**
+     * Algorithm of the key, as returned by the service's `getAlgorithm()`,
+     * for example `ML-KEM-768` or `Kyber768`
+     */
+    alg: string;
+
+    /**
+     * base64url public key
+     */
+    pub: string;
+
+    /**
+     * base64url private key, either the 64-byte seed or the expanded key
+     */
+    priv?: string;
+
+    kid?: string;
+}
+
+const publicKeyLengths = [KyberService.Kyber512PKBytes, KyberService.Kyber768PKBytes, KyberService.Kyber1024PKBytes];
+const privateKeyLengths = [KyberService.Kyber512SKBytes, KyberService.Kyber768SKBytes, KyberService.Kyber1024SKBytes];
+
+/**
+ * Export a public key as a JWK
+ * @param service service of the key's parameter set
+ * @param publicKey
+ */
+export function exportPublicKeyJwk(service: KyberService, publicKey: ByteArray): AkpJwk {
+    const publicKeyBytes = toBytes(publicKey, "publicKey");
+    checkInputLength(publicKeyBytes, publicKeyLengths, service.paramsK, service.getAlgorithm(), "public key", InvalidPublicKeyError);
+    return { kty: "AKP", alg: service.getAlgorithm(), pub: toBase64Url(publicKeyBytes) };
+}
+
+/**
+ * Export a private key as a JWK, together with its public key
+ * @param service service of the key's parameter set
+ * @param privateKey 64-byte seed or expanded private key, exported in the
+ * form given
+ */
+export function exportPrivateKeyJwk(service: KyberService, privateKey: ByteArray): AkpJwk {
+    const [privateKeyBytes, publicKey] = resolvePrivateKey(service, toBytes(privateKey, "privateKey"));
+    return { ...exportPublicKeyJwk(service, publicKey), priv: toBase64Url(privateKeyBytes) };
+}
+
+/**
+ * Import the public key of a JWK, throwing if it is not an `AKP` key of the
+ * service's algorithm
+ * @param service
+ * @param jwk
+ */
+export function importPublicKeyJwk(service: KyberService, jwk: AkpJwk): Uint8Array {
+    checkAlgorithmName(service, jwk.kty === "AKP" ? jwk.alg : undefined, "JWK");
+    const publicKey = fromBase64Url(service, jwk.pub, "pub");
+    checkInputLength(publicKey, publicKeyLengths, service.paramsK, service.getAlgorithm(), "public key", InvalidPublicKeyError);
+    return publicKey;
+}
+
+/**
+ * Import the private key of a JWK, throwing if it is not an `AKP` key of the
+ * service's algorithm or its public key does not belong to its private key
+ * @param service
+ * @param jwk
+ */
+export function importPrivateKeyJwk(service: KyberService, jwk: AkpJwk): DecodedPrivateKey {
+    const publicKey = importPublicKeyJwk(service, jwk);
+    if (jwk.priv === undefined) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " JWK has no private key", service.getAlgorithm(),
+            service.privateKeyBytes(), 0);
+    }
+    return decodePrivateKey(service, fromBase64Url(service, jwk.priv, "priv"), publicKey);
+}
+
+/**
+ * RFC 7638 thumbprint of a JWK: the base64url SHA-256 hash of its required
+ * members `alg`, `kty` and `pub`, suitable as a key ID
+ * @param jwk
+ */
+export function jwkThumbprint(jwk: AkpJwk): string {
+    const members = JSON.stringify({ alg: jwk.alg, kty: jwk.kty, pub: jwk.pub });
+    return toBase64Url(createHash("sha256").update(members, "utf8").digest());
+}
+
+/**
+ * Check the length of a 64-byte seed or expanded private key and return it
+ * with its public key
+ * @param service
+ * @param privateKey
+ */
+export function resolvePrivateKey(service: KyberService, privateKey: Uint8Array): [Uint8Array, Uint8Array] {
+    if (privateKey.length === KyberService.KyberSeedBytes) {
+        return [privateKey, service.generateKyberKeysFromSeed(privateKey)[0]];
+    }
+    checkInputLength(privateKey, privateKeyLengths, service.paramsK, service.getAlgorithm(), "private key", InvalidPrivateKeyError);
+    return [privateKey, service.publicKeyFromPrivateKey(privateKey)];
+}
+
+/**
+ * Decode a 64-byte seed or expanded private key, throwing if the given
+ * public key does not belong to it
+ * @param service
+ * @param privateKey
+ * @param publicKey
+ */
+export function decodePrivateKey(service: KyberService, privateKey: Uint8Array, publicKey: Uint8Array): DecodedPrivateKey {
+    const [, expectedPublicKey] = resolvePrivateKey(service, privateKey);
+    if (constantTimeCompare(expectedPublicKey, publicKey) !== 0) {
+        throw new InvalidPrivateKeyError(service.getAlgorithm() + " private key does not belong to the public key",
+            service.getAlgorithm(), privateKey.length, privateKey.length);
+    }
+    if (privateKey.length === KyberService.KyberSeedBytes) {
+        return { format: "seed", seed: privateKey, privateKey: service.expandPrivateKey(privateKey) };
+    }
+    return { format: "expandedKey", privateKey };
+}
+
+/**
+ * Throw unless the algorithm name is the service's, with a
+ * `ParameterSetMismatchError` if it names another parameter set of the same
+ * variant
+ * @param service
+ * @param alg
+ * @param encoding named in error messages
+ */
+export function checkAlgorithmName(service: KyberService, alg: string | undefined, encoding: string): void {
+    const algorithm = service.getAlgorithm();
+    if (alg === algorithm) {
+        return;
+    }
+    const parameterSet = 256 * service.paramsK;
+    for (const other of [512, 768, 1024]) {
+        if (alg === algorithm.replace(String(parameterSet), String(other))) {
+            throw new ParameterSetMismatchError(algorithm + " " + encoding + " is for the " + other + " parameter set",
+                algorithm, service.publicKeyBytes(), publicKeyLengths[other / 256 - 2], other);
+        }
+    }
+    throw new InvalidKeyEncodingError(algorithm + " " + encoding + " is not an AKP key with alg " + algorithm,
+        algorithm, 0, 0);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(service: KyberService, value: string | undefined, member: string): Uint8Array {
+    if (typeof value !== "string" || !/^[A-Za-z0-9_-]*$/.test(value) || value.length % 4 === 1) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " JWK member " + member + " is not base64url",
+            service.getAlgorithm(), 0, typeof value === "string" ? value.length : 0);
+    }
+    return new Uint8Array(Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64"));
+}
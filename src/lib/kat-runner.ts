@@ -0,0 +1,91 @@
+/**
+ * Runner for the NIST PQCkemKAT_*.rsp known-answer test files
+ */
+import { Buffer } from "buffer";
+import { readFileSync } from "fs";
+import { KyberService } from "../services/kyber.service";
+import { NistKatDrbg } from "./nist-kat-drbg";
+import { RandomSource } from "./random-source";
+import { constantTimeCompare } from "./utilities";
+
+/**
+ * A single `count` of a `.rsp` file
+ */
+export interface KatEntry {
+    count: number;
+    seed: Uint8Array;
+    pk: Uint8Array;
+    sk: Uint8Array;
+    ct: Uint8Array;
+    ss: Uint8Array;
+}
+
+/**
+ * Outcome of a single `count`; each flag is true when the value matched
+ */
+export interface KatResult {
+    count: number;
+    pk: boolean;
+    sk: boolean;
+    ct: boolean;
+    ss: boolean;
+    decryptedSs: boolean;
+}
+
+/**
+ * Parse the contents of a `.rsp` file
+ * @param contents
+ */
+export function parseKatFile(contents: string): KatEntry[] {
+    const entries: KatEntry[] = [];
+    let entry: Partial<KatEntry> = {};
+    for (const rawLine of contents.split("\n")) {
+        const line = rawLine.trim();
+        if (line.length === 0 || line[0] === "#") {
+            continue;
+        }
+        const [name, value] = line.split("=").map((part) => part.trim());
+        if (name === "count") {
+            entry = { count: parseInt(value, 10) };
+            entries.push(entry as KatEntry);
+        } else if (name === "seed" || name === "pk" || name === "sk" || name === "ct" || name === "ss") {
+            entry[name] = new Uint8Array(Buffer.from(value, "hex"));
+        }
+    }
+    return entries;
+}
+
+/**
+ * Regenerate one entry from its seed and compare every value
+ *
+ * Key generation and encryption draw from a NIST KAT DRBG seeded with the
+ * entry's seed, exactly as `PQCgenKAT_kem` does.
+ * @param entry
+ * @param createService builds the service under test around the DRBG
+ */
+export function runKatEntry(entry: KatEntry, createService: (randomSource: RandomSource) => KyberService): KatResult {
+    const service = createService(new NistKatDrbg(entry.seed));
+
+    const [pk, sk] = service.generateKyberKeys();
+    const [ct, ss] = service.encrypt(pk);
+    const decryptedSs = service.decrypt(entry.ct, entry.sk);
+
+    return {
+        count: entry.count,
+        pk: constantTimeCompare(pk, entry.pk) === 0,
+        sk: constantTimeCompare(sk, entry.sk) === 0,
+        ct: constantTimeCompare(ct, entry.ct) === 0,
+        ss: constantTimeCompare(ss, entry.ss) === 0,
+        decryptedSs: constantTimeCompare(decryptedSs, entry.ss) === 0,
+    };
+}
+
+/**
+ * Read a `.rsp` file from disk and run every entry
+ * @param path
+ * @param createService builds the service under test around the DRBG
+ */
+export function runKatFile(path: string, createService: (randomSource: RandomSource) => KyberService): KatResult[] {
+    const entries = parseKatFile(readFileSync(path, "utf8"));
+    return entries.map((entry) => runKatEntry(entry, createService));
+}
@@ -0,0 +1,166 @@
+/**
+ * Keccak-f[1600] and a sponge over it that keeps its state between
+ * squeezes, as FIPS 202 specifies for the SHAKE XOFs
+ *
+ * Each 64-bit lane is held as two 32-bit words, the low half first.
+ */
+
+const rounds = 24;
+
+// round constants of the iota step, split into low and high halves
+const roundConstantsLo = new Uint32Array(rounds);
+const roundConstantsHi = new Uint32Array(rounds);
+// rotation of each lane in the rho step
+const rotations = new Uint8Array(25);
+
+(function initConstants(): void {
+    // the rc(t) LFSR of FIPS 202 section 3.2.5
+    let r = 1;
+    for (let round = 0; round < rounds; round++) {
+        for (let j = 0; j <= 6; j++) {
+            if (r & 1) {
+                const bit = (1 << j) - 1;
+                if (bit < 32) {
+                    roundConstantsLo[round] ^= 1 << bit;
+                } else {
+                    roundConstantsHi[round] ^= 1 << (bit - 32);
+                }
+            }
+            r = (r & 0x80) ? ((r << 1) ^ 0x171) : (r << 1);
+        }
+    }
+    let x = 1;
+    let y = 0;
+    for (let t = 0; t < 24; t++) {
+        rotations[x + 5 * y] = ((t + 1) * (t + 2) / 2) % 64;
+        [x, y] = [y, (2 * x + 3 * y) % 5];
+    }
+})();
+
+const c = new Uint32Array(10);
+const b = new Uint32Array(50);
+
+/**
+ * Apply Keccak-f[1600] to the 50-word state in place
+ * @param state
+ */
+export function keccakF1600(state: Uint32Array): void {
+    for (let round = 0; round < rounds; round++) {
+        // theta
+        for (let x = 0; x < 5; x++) {
+            c[2 * x] = state[2 * x] ^ state[2 * x + 10] ^ state[2 * x + 20] ^ state[2 * x + 30] ^ state[2 * x + 40];
+            c[2 * x + 1] = state[2 * x + 1] ^ state[2 * x + 11] ^ state[2 * x + 21] ^ state[2 * x + 31] ^ state[2 * x + 41];
+        }
+        for (let x = 0; x < 5; x++) {
+            const lo = c[2 * ((x + 1) % 5)];
+            const hi = c[2 * ((x + 1) % 5) + 1];
+            const dLo = c[2 * ((x + 4) % 5)] ^ ((lo << 1) | (hi >>> 31));
+            const dHi = c[2 * ((x + 4) % 5) + 1] ^ ((hi << 1) | (lo >>> 31));
+            for (let y = 0; y < 25; y += 5) {
+                state[2 * (x + y)] ^= dLo;
+                state[2 * (x + y) + 1] ^= dHi;
+            }
+        }
+        // rho and pi: lane (x, y) moves to (y, 2x + 3y)
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                const from = 2 * (x + 5 * y);
+                const to = 2 * (y + 5 * ((2 * x + 3 * y) % 5));
+                rotate(state[from], state[from + 1], rotations[x + 5 * y], to);
+            }
+        }
+        // chi
+        for (let y = 0; y < 50; y += 10) {
+            for (let x = 0; x < 10; x += 2) {
+                const x1 = y + (x + 2) % 10;
+                const x2 = y + (x + 4) % 10;
+                state[y + x] = b[y + x] ^ (~b[x1] & b[x2]);
+                state[y + x + 1] = b[y + x + 1] ^ (~b[x1 + 1] & b[x2 + 1]);
+            }
+        }
+        // iota
+        state[0] ^= roundConstantsLo[round];
+        state[1] ^= roundConstantsHi[round];
+    }
+}
+
+/**
+ * Write the lane rotated left by n bits to b at the given word offset
+ */
+function rotate(lo: number, hi: number, n: number, to: number): void {
+    if (n >= 32) {
+        [lo, hi] = [hi, lo];
+        n -= 32;
+    }
+    if (n === 0) {
+        b[to] = lo;
+        b[to + 1] = hi;
+    } else {
+        b[to] = (lo << n) | (hi >>> (32 - n));
+        b[to + 1] = (hi << n) | (lo >>> (32 - n));
+    }
+}
+
+/**
+ * Keccak sponge that absorbs its input and then squeezes output forward from
+ * the same state, so that reading n bytes in any number of calls costs the
+ * same
+ */
+export class KeccakSponge {
+    private state = new Uint32Array(50);
+    private offset = 0;
+    private squeezing = false;
+
+    /**
+     * @param rate rate in bytes, 168 for SHAKE-128 and 136 for SHAKE-256
+     * @param suffix domain separation bits and first padding bit, 0x1F for
+     * SHAKE
+     */
+    constructor(public readonly rate: number, private readonly suffix: number) { }
+
+    /**
+     * XOR the input into the state, permuting whenever the rate is full
+     * @param input
+     */
+    public absorb(input: Uint8Array): void {
+        if (this.squeezing) {
+            throw new Error("Keccak sponge cannot absorb after squeezing");
+        }
+        for (let i = 0; i < input.length; i++) {
+            this.xorByte(this.offset, input[i]);
+            if (++this.offset === this.rate) {
+                keccakF1600(this.state);
+                this.offset = 0;
+            }
+        }
+    }
+
+    /**
+     * Return the next `length` bytes of output, padding the input first if
+     * this is the first squeeze
+     * @param length
+     */
+    public squeeze(length: number): Uint8Array {
+        if (!this.squeezing) {
+            this.xorByte(this.offset, this.suffix);
+            this.xorByte(this.rate - 1, 0x80);
+            this.squeezing = true;
+            this.offset = this.rate;
+        }
+        const output = new Uint8Array(length);
+        for (let i = 0; i < length; i++) {
+            if (this.offset === this.rate) {
+                keccakF1600(this.state);
+                this.offset = 0;
+            }
+            const word = this.state[this.offset >> 2];
+            output[i] = word >>> (8 * (this.offset & 3));
+            this.offset++;
+        }
+        return output;
+    }
+
+    private xorByte(offset: number, value: number): void {
+        this.state[offset >> 2] ^= value << (8 * (offset & 3));
+    }
+}
@@ -0,0 +1,281 @@
+/**
+ * X.509 SubjectPublicKeyInfo and PKCS#8 encodings of ML-KEM keys, in DER and
+ * PEM, as specified for the ML-KEM algorithm identifiers in
+ * draft-ietf-lamps-kyber-certificates
+ */
+import { Buffer } from "buffer";
+import { DerReader, derEncode, derEncodeOid, tagBitString, tagInteger, tagObjectIdentifier, tagOctetString, tagSequence } from "./asn1";
+import { checkInputLength, checkSeedLength, InvalidKeyEncodingError, InvalidPrivateKeyError, InvalidPublicKeyError, ParameterSetMismatchError } from "./errors";
+import { ByteArray, constantTimeCompare, toBytes } from "./utilities";
+import { KyberService } from "../services/kyber.service";
+
+/**
+ * Object identifiers of ML-KEM-512, ML-KEM-768 and ML-KEM-1024
+ */
+export const mlKemOids = ["2.16.840.1.101.3.4.4.1", "2.16.840.1.101.3.4.4.2", "2.16.840.1.101.3.4.4.3"];
+
+/**
+ * Form of an encoded private key: the 64-byte seed `d || z`, the expanded
+ * private key, or both
+ */
+export type PrivateKeyFormat = "seed" | "expandedKey" | "both";
+
+/**
+ * Private key read from a PKCS#8 encoding
+ */
+export interface DecodedPrivateKey {
+    /**
+     * Form the private key was encoded in
+     */
+    format: PrivateKeyFormat;
+
+    /**
+     * 64-byte seed, unless the key was encoded in the expanded form only
+     */
+    seed?: Uint8Array;
+
+    /**
+     * Expanded private key, expanded from the seed if it was not encoded
+     */
+    privateKey: Uint8Array;
+}
+
+// [0] IMPLICIT OCTET STRING tag of the seed form
+const tagSeed = 0x80;
+
+const publicKeyLengths = [KyberService.Kyber512PKBytes, KyberService.Kyber768PKBytes, KyberService.Kyber1024PKBytes];
+const privateKeyLengths = [KyberService.Kyber512SKBytes, KyberService.Kyber768SKBytes, KyberService.Kyber1024SKBytes];
+
+/**
+ * Encode a public key as a DER SubjectPublicKeyInfo
+ * @param service service of the key's parameter set
+ * @param publicKey
+ */
+export function encodePublicKeyDer(service: KyberService, publicKey: ByteArray): Uint8Array {
+    const publicKeyBytes = checkPublicKeyLength(service, toBytes(publicKey, "publicKey"));
+    return derEncode(tagSequence,
+        algorithmIdentifier(service),
+        derEncode(tagBitString, Uint8Array.of(0), publicKeyBytes)
+    );
+}
+
+/**
+ * Decode a public key from a DER SubjectPublicKeyInfo, throwing if it is
+ * malformed or not a key of the service's parameter set
+ * @param service
+ * @param der
+ */
+export function decodePublicKeyDer(service: KyberService, der: ByteArray): Uint8Array {
+    const reader = new DerReader(toBytes(der, "der"), service.getAlgorithm());
+    const spki = reader.readConstructed(tagSequence);
+    reader.finish();
+
+    const algorithm = spki.readConstructed(tagSequence);
+    const bitString = spki.read(tagBitString);
+    spki.finish();
+
+    const publicKey = bitString.subarray(1);
+    checkAlgorithmIdentifier(service, algorithm, service.publicKeyBytes(), publicKey.length, "public key");
+    if (bitString.length === 0 || bitString[0] !== 0) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " public key bit string has unused bits",
+            service.getAlgorithm(), 0, bitString.length === 0 ? 0 : bitString[0]);
+    }
+    return checkPublicKeyLength(service, publicKey).slice();
+}
+
+/**
+ * Encode a private key as a DER PKCS#8 OneAsymmetricKey
+ *
+ * The seed and both forms need the 64-byte seed; the expanded form accepts
+ * either a seed or an expanded private key.
+ * @param service service of the key's parameter set
+ * @param privateKey 64-byte seed or expanded private key
+ * @param format defaults to the form of the given private key
+ */
+export function encodePrivateKeyDer(service: KyberService, privateKey: ByteArray, format?: PrivateKeyFormat): Uint8Array {
+    const privateKeyBytes = toBytes(privateKey, "privateKey");
+    const isSeed = privateKeyBytes.length === KyberService.KyberSeedBytes;
+    format = format || (isSeed ? "seed" : "expandedKey");
+
+    let encoded: Uint8Array;
+    if (format === "expandedKey") {
+        const expanded = checkPrivateKeyLength(service, service.expandPrivateKey(privateKeyBytes));
+        encoded = derEncode(tagOctetString, expanded);
+    } else {
+        checkSeedLength(privateKeyBytes, KyberService.KyberSeedBytes, service.getAlgorithm(), "private key seed");
+        if (format === "seed") {
+            encoded = derEncode(tagSeed, privateKeyBytes);
+        } else {
+            encoded = derEncode(tagSequence,
+                derEncode(tagOctetString, privateKeyBytes),
+                derEncode(tagOctetString, service.expandPrivateKey(privateKeyBytes))
+            );
+        }
+    }
+    return derEncode(tagSequence,
+        derEncode(tagInteger, Uint8Array.of(0)),
+        algorithmIdentifier(service),
+        derEncode(tagOctetString, encoded)
+    );
+}
+
+/**
+ * Decode a private key from a DER PKCS#8 OneAsymmetricKey, throwing if it is
+ * malformed, not a key of the service's parameter set, or holds a seed and
+ * an expanded private key that do not belong together
+ * @param service
+ * @param der
+ */
+export function decodePrivateKeyDer(service: KyberService, der: ByteArray): DecodedPrivateKey {
+    const algorithmName = service.getAlgorithm();
+    const reader = new DerReader(toBytes(der, "der"), algorithmName);
+    const pkcs8 = reader.readConstructed(tagSequence);
+    reader.finish();
+
+    const version = pkcs8.read(tagInteger);
+    if (version.length !== 1 || version[0] !== 0) {
+        throw new InvalidKeyEncodingError(algorithmName + " private key encoding has an unsupported version",
+            algorithmName, 0, version.length === 1 ? version[0] : version.length);
+    }
+    const algorithm = pkcs8.readConstructed(tagSequence);
+    const key = new DerReader(pkcs8.read(tagOctetString), algorithmName);
+    pkcs8.finish();
+
+    const tag = key.peekTag();
+    let decoded: DecodedPrivateKey;
+    if (tag === tagSeed) {
+        const seed = key.read(tagSeed);
+        checkAlgorithmIdentifier(service, algorithm, KyberService.KyberSeedBytes, seed.length, "private key");
+        checkSeedLength(seed, KyberService.KyberSeedBytes, algorithmName, "private key seed");
+        decoded = { format: "seed", seed: seed.slice(), privateKey: service.expandPrivateKey(seed) };
+    } else if (tag === tagOctetString) {
+        const expanded = key.read(tagOctetString);
+        checkAlgorithmIdentifier(service, algorithm, service.privateKeyBytes(), expanded.length, "private key");
+        decoded = { format: "expandedKey", privateKey: checkPrivateKeyLength(service, expanded).slice() };
+    } else {
+        const both = key.readConstructed(tagSequence);
+        const seed = both.read(tagOctetString);
+        const expanded = both.read(tagOctetString);
+        both.finish();
+        checkAlgorithmIdentifier(service, algorithm, service.privateKeyBytes(), expanded.length, "private key");
+        checkSeedLength(seed, KyberService.KyberSeedBytes, algorithmName, "private key seed");
+        checkPrivateKeyLength(service, expanded);
+        if (!service.validatePrivateKeySeed(seed, expanded)) {
+            throw new InvalidPrivateKeyError(algorithmName + " private key seed does not expand to the encoded private key",
+                algorithmName, expanded.length, expanded.length);
+        }
+        decoded = { format: "both", seed: seed.slice(), privateKey: expanded.slice() };
+    }
+    key.finish();
+    return decoded;
+}
+
+/**
+ * Encode a public key as a PEM `PUBLIC KEY`
+ * @param service
+ * @param publicKey
+ */
+export function encodePublicKeyPem(service: KyberService, publicKey: ByteArray): string {
+    return encodePem("PUBLIC KEY", encodePublicKeyDer(service, publicKey));
+}
+
+/**
+ * Decode a public key from a PEM `PUBLIC KEY`
+ * @param service
+ * @param pem
+ */
+export function decodePublicKeyPem(service: KyberService, pem: string): Uint8Array {
+    return decodePublicKeyDer(service, decodePem("PUBLIC KEY", pem, service.getAlgorithm()));
+}
+
+/**
+ * Encode a private key as a PEM `PRIVATE KEY`
+ * @param service
+ * @param privateKey 64-byte seed or expanded private key
+ * @param format defaults to the form of the given private key
+ */
+export function encodePrivateKeyPem(service: KyberService, privateKey: ByteArray, format?: PrivateKeyFormat): string {
+    return encodePem("PRIVATE KEY", encodePrivateKeyDer(service, privateKey, format));
+}
+
+/**
+ * Decode a private key from a PEM `PRIVATE KEY`
+ * @param service
+ * @param pem
+ */
+export function decodePrivateKeyPem(service: KyberService, pem: string): DecodedPrivateKey {
+    return decodePrivateKeyDer(service, decodePem("PRIVATE KEY", pem, service.getAlgorithm()));
+}
+
+function algorithmIdentifier(service: KyberService): Uint8Array {
+    checkMlKem(service);
+    // the parameters field is absent
+    return derEncode(tagSequence, derEncodeOid(mlKemOids[service.paramsK - 2]));
+}
+
+/**
+ * Throw unless the AlgorithmIdentifier names the service's parameter set,
+ * with a `ParameterSetMismatchError` if it names another ML-KEM parameter set
+ */
+function checkAlgorithmIdentifier(service: KyberService, algorithm: DerReader, expectedLength: number, length: number, name: string): void {
+    checkMlKem(service);
+    const algorithmName = service.getAlgorithm();
+    const oid = derEncode(tagObjectIdentifier, algorithm.read(tagObjectIdentifier));
+    algorithm.finish();
+
+    const expected = service.paramsK - 2;
+    const index = mlKemOids.findIndex((o) => constantTimeCompare(derEncodeOid(o), oid) === 0);
+    if (index === expected) {
+        return;
+    }
+    if (index >= 0) {
+        const parameterSet = 256 * (index + 2);
+        throw new ParameterSetMismatchError(algorithmName + " " + name + " is encoded with the algorithm identifier of the " +
+            parameterSet + " parameter set", algorithmName, expectedLength, length, parameterSet);
+    }
+    throw new InvalidKeyEncodingError(algorithmName + " " + name + " is encoded with an algorithm identifier other than " +
+        mlKemOids[expected], algorithmName, expectedLength, length);
+}
+
+/**
+ * Throw unless the service is ML-KEM, as the algorithm identifiers only name
+ * ML-KEM keys and round-3 Kyber keys would be taken for them
+ */
+function checkMlKem(service: KyberService): void {
+    if (service.getVariant() !== "ML-KEM") {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " keys have no algorithm identifier, only ML-KEM keys do",
+            service.getAlgorithm(), 0, 0);
+    }
+}
+
+function checkPublicKeyLength(service: KyberService, publicKey: Uint8Array): Uint8Array {
+    checkInputLength(publicKey, publicKeyLengths, service.paramsK, service.getAlgorithm(), "public key", InvalidPublicKeyError);
+    return publicKey;
+}
+
+function checkPrivateKeyLength(service: KyberService, privateKey: Uint8Array): Uint8Array {
+    checkInputLength(privateKey, privateKeyLengths, service.paramsK, service.getAlgorithm(), "private key", InvalidPrivateKeyError);
+    return privateKey;
+}
+
+function encodePem(label: string, der: Uint8Array): string {
+    const base64 = Buffer.from(der).toString("base64");
+    const lines = ["-----BEGIN " + label + "-----"];
+    for (let i = 0; i < base64.length; i += 64) {
+        lines.push(base64.substring(i, i + 64));
+    }
+    lines.push("-----END " + label + "-----");
+    return lines.join("\n") + "\n";
+}
+
+function decodePem(label: string, pem: string, algorithm: string): Uint8Array {
+    const match = /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END ([A-Z0-9 ]+)-----/.exec(pem);
+    if (!match || match[1] !== label || match[3] !== label) {
+        throw new InvalidKeyEncodingError(algorithm + " PEM does not contain a " + label, algorithm, 0, 0);
+    }
+    const base64 = match[2].replace(/\s+/g, "");
+    if (base64.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+        throw new InvalidKeyEncodingError(algorithm + " " + label + " PEM is not valid base64", algorithm, 0, base64.length);
+    }
+    return new Uint8Array(Buffer.from(base64, "base64"));
+}
@@ -0,0 +1,146 @@
+/**
+ * HKDF key schedule that turns the shared secrets of a handshake into
+ * directional encryption, MAC and IV keys
+ *
+ * The two peers are ordered by their public keys, so that both compute the
+ * same transcript whichever of them encapsulated. The transcript hash covers
+ * the algorithm, label, context, both public keys and the cipher text sent to
+ * each peer, and salts HKDF-Extract of the shared secrets, ordered the same
+ * way. Each key is expanded with its direction and purpose as info.
+ */
+import { Buffer } from "buffer";
+import { createHash, hkdfSync } from "crypto";
+import { HandshakeStateError } from "./errors";
+import { ByteArray, concatBytes, toBytes } from "./utilities";
+
+/**
+ * Byte lengths of the keys derived for each direction
+ */
+export interface KeyLengths {
+    /** 32 by default */
+    encryptionKey?: number;
+    /** 32 by default */
+    macKey?: number;
+    /** 12 by default */
+    iv?: number;
+}
+
+/**
+ * Options of `deriveKeys`
+ */
+export interface KeyScheduleOptions {
+    /** application label that separates the keys of different protocols */
+    label: string;
+    /** optional application context bound into the transcript */
+    context?: ByteArray;
+    lengths?: KeyLengths;
+    /** hash of the transcript and HKDF, SHA-256 by default */
+    hash?: "sha256" | "sha3-256";
+}
+
+/**
+ * Keys of one direction
+ */
+export interface DirectionKeys {
+    encryptionKey: Uint8Array;
+    macKey: Uint8Array;
+    iv: Uint8Array;
+}
+
+/**
+ * Keys derived from a handshake, where one peer's `send` keys are the other
+ * peer's `receive` keys
+ */
+export interface HandshakeKeys {
+    send: DirectionKeys;
+    receive: DirectionKeys;
+    transcriptHash: Uint8Array;
+}
+
+/**
+ * What one peer knows of a handshake
+ */
+export interface HandshakeTranscript {
+    algorithm: string;
+    publicKey: Uint8Array;
+    remotePublicKey: Uint8Array;
+    /** cipher text and shared secret encapsulated to the remote public key, empty if none */
+    cipherText: Uint8Array;
+    sharedSecret: Uint8Array;
+    /** cipher text and shared secret decapsulated with the local private key, empty if none */
+    remoteCipherText: Uint8Array;
+    remoteSharedSecret: Uint8Array;
+}
+
+const protocolLabel = Buffer.from("crystals-kyber-ts handshake keys v1");
+
+/**
+ * Derive the directional keys of a handshake
+ * @param transcript
+ * @param options
+ * @throws HandshakeStateError if there is no shared secret yet or the remote
+ * public key is not known
+ */
+export function deriveHandshakeKeys(transcript: HandshakeTranscript, options: KeyScheduleOptions): HandshakeKeys {
+    const algorithm = transcript.algorithm;
+    if (transcript.sharedSecret.length === 0 && transcript.remoteSharedSecret.length === 0) {
+        throw new HandshakeStateError(algorithm + " handshake has no shared secret to derive keys from", algorithm, 32, 0);
+    }
+    if (transcript.remotePublicKey.length === 0) {
+        throw new HandshakeStateError(algorithm + " handshake needs the remote public key to derive keys",
+            algorithm, transcript.publicKey.length, 0);
+    }
+    const hash = options.hash ?? "sha256";
+    const lengths = {
+        encryptionKey: checkKeyLength(options.lengths?.encryptionKey ?? 32, "encryptionKey", hash),
+        macKey: checkKeyLength(options.lengths?.macKey ?? 32, "macKey", hash),
+        iv: checkKeyLength(options.lengths?.iv ?? 12, "iv", hash)
+    };
+
+    // this peer is "a" if its public key sorts first
+    const first = Buffer.compare(transcript.publicKey, transcript.remotePublicKey) <= 0;
+    const [publicKeyA, publicKeyB] = first ? [transcript.publicKey, transcript.remotePublicKey]
+        : [transcript.remotePublicKey, transcript.publicKey];
+    const [cipherTextToA, cipherTextToB] = first ? [transcript.remoteCipherText, transcript.cipherText]
+        : [transcript.cipherText, transcript.remoteCipherText];
+    const [sharedSecretA, sharedSecretB] = first ? [transcript.remoteSharedSecret, transcript.sharedSecret]
+        : [transcript.sharedSecret, transcript.remoteSharedSecret];
+
+    const transcriptHash = digest(hash, protocolLabel, Buffer.from(algorithm), Buffer.from(options.label),
+        toBytes(options.context ?? [], "context"), publicKeyA, publicKeyB, cipherTextToA, cipherTextToB);
+    const inputKeyMaterial = concatBytes(sharedSecretA, sharedSecretB);
+
+    const expand = (direction: string): DirectionKeys => {
+        const key = (purpose: string, length: number) => new Uint8Array(hkdfSync(hash, inputKeyMaterial, transcriptHash,
+            Buffer.from(direction + " " + purpose), length));
+        return {
+            encryptionKey: key("key", lengths.encryptionKey),
+            macKey: key("mac", lengths.macKey),
+            iv: key("iv", lengths.iv)
+        };
+    };
+    const aToB = expand("a to b");
+    const bToA = expand("b to a");
+    return first ? { send: aToB, receive: bToA, transcriptHash } : { send: bToA, receive: aToB, transcriptHash };
+}
+
+/**
+ * Hash of the length-prefixed inputs
+ */
+function digest(hash: string, ...inputs: Uint8Array[]): Uint8Array {
+    const h = createHash(hash);
+    for (const input of inputs) {
+        const n = input.length;
+        h.update(Uint8Array.of(n >>> 24, (n >> 16) & 0xFF, (n >> 8) & 0xFF, n & 0xFF));
+        h.update(input);
+    }
+    return new Uint8Array(h.digest());
+}
+
+function checkKeyLength(length: number, name: string, hash: string): number {
+    const max = 255 * 32;
+    if (!Number.isInteger(length) || length < 0 || length > max) {
+        throw new RangeError(name + " length must be from 0 to " + max + " bytes with " + hash + ", got " + length);
+    }
+    return length;
+}
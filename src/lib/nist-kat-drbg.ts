@@ -0,0 +1,99 @@
+/**
+ * Deterministic random bit generator used by the NIST PQC known-answer tests
+ */
+import { Buffer } from "buffer";
+import { createCipheriv } from "crypto";
+import { RandomSource } from "./random-source";
+
+/**
+ * AES-256 CTR_DRBG without derivation function, as implemented by the
+ * `randombytes_init`/`randombytes` pair in NIST's `rng.c`
+ *
+ * Every `fill` corresponds to one `randombytes` call, so callers must draw
+ * bytes in the same chunks as the reference implementation to reproduce the
+ * `.rsp` files. This generator is for testing only and never reseeds.
+ */
+export class NistKatDrbg implements RandomSource {
+
+    public static seedBytes = 48;
+
+    private key = Buffer.alloc(32);
+    private v = Buffer.alloc(16);
+
+    /**
+     * Equivalent of `randombytes_init`
+     * @param entropyInput 48-byte seed, such as the `seed` of a `.rsp` entry
+     * @param personalizationString optional 48-byte personalization string
+     */
+    constructor(entropyInput: ArrayLike<number>, personalizationString?: ArrayLike<number>) {
+        if (entropyInput.length !== NistKatDrbg.seedBytes) {
+            throw new Error("entropy input must be " + NistKatDrbg.seedBytes + " bytes, got " + entropyInput.length);
+        }
+        const seedMaterial = Buffer.from(Array.from(entropyInput));
+        if (personalizationString !== undefined) {
+            if (personalizationString.length !== NistKatDrbg.seedBytes) {
+                throw new Error("personalization string must be " + NistKatDrbg.seedBytes + " bytes, got " + personalizationString.length);
+            }
+            for (let i = 0; i < NistKatDrbg.seedBytes; i++) {
+                seedMaterial[i] ^= personalizationString[i];
+            }
+        }
+        this.update(seedMaterial);
+    }
+
+    /**
+     * Equivalent of `randombytes`
+     * @param bytes
+     */
+    public fill(bytes: Uint8Array): void {
+        for (let i = 0; i < bytes.length; i += 16) {
+            this.incrementV();
+            const block = this.encryptBlock(this.v);
+            bytes.set(block.subarray(0, Math.min(16, bytes.length - i)), i);
+        }
+        this.update(null);
+    }
+
+    /**
+     * CTR_DRBG_Update: derive a new key and V, mixing in the provided data
+     * @param providedData
+     */
+    private update(providedData: Buffer | null): void {
+        const temp = Buffer.alloc(NistKatDrbg.seedBytes);
+        for (let i = 0; i < 3; i++) {
+            this.incrementV();
+            this.encryptBlock(this.v).copy(temp, 16 * i);
+        }
+        if (providedData !== null) {
+            for (let i = 0; i < NistKatDrbg.seedBytes; i++) {
+                temp[i] ^= providedData[i];
+            }
+        }
+        this.key = temp.slice(0, 32);
+        this.v = temp.slice(32, 48);
+    }
+
+    /**
+     * Increment V as a 128-bit big-endian counter
+     */
+    private incrementV(): void {
+        for (let j = 15; j >= 0; j--) {
+            if (this.v[j] === 0xFF) {
+                this.v[j] = 0x00;
+            } else {
+                this.v[j]++;
+                break;
+            }
+        }
+    }
+
+    /**
+     * AES-256 encryption of a single block under the current key
+     * @param block
+     */
+    private encryptBlock(block: Buffer): Buffer {
+        const cipher = createCipheriv("aes-256-ecb", this.key, null);
+        cipher.setAutoPadding(false);
+        return cipher.update(block);
+    }
+}
@@ -1,21 +1,25 @@
-import { byte, int16, int32, intToByte, uint16, uint32 } from "./utilities";
-import { Buffer } from "buffer";
-import { SHAKE } from "sha3";
-import { barrettReduce, montgomeryReduce, generateCBDPoly, modQMulMont } from "./byte-ops";
+import { barrettReduce, compressCoefficient, montgomeryReduce, generateCBDPoly } from "./byte-ops";
+import { shakeSymmetric, SymmetricPrimitives } from "./symmetric";
 import { KyberService } from "../services/kyber.service";
 
+/**
+ * Polynomial arithmetic over `Int16Array(256)` coefficient arrays
+ *
+ * Unless stated otherwise, operations work in place on their first argument
+ * and return it, so calls can be chained without allocating.
+ */
 export class Poly {
 
-    constructor(public paramsK: number) { }
+    constructor(public paramsK: number, public symmetric: SymmetricPrimitives = shakeSymmetric) { }
 
     /**
      * Applies the inverse number-theoretic transform (NTT) to all elements of a
      * vector of polynomials and multiplies by Montgomery factor 2^16
      * @param r
      */
-    public polyVectorInvNTTMont(r: number[][]): number[][] {
+    public polyVectorInvNTTMont(r: Int16Array[]): Int16Array[] {
         for (let i: number = 0; i < this.paramsK; i++) {
-            r[i] = this.polyInvNTTMont(r[i]);
+            this.invNTT(r[i]);
         }
         return r;
 
@@ -28,9 +32,9 @@ export class Poly {
      * @param r
      * @return
      */
-    public polyVectorReduce(r: number[][]): number[][] {
+    public polyVectorReduce(r: Int16Array[]): Int16Array[] {
         for (let i = 0; i < this.paramsK; i++) {
-            r[i] = this.polyReduce(r[i]);
+            this.polyReduce(r[i]);
         }
         return r;
     }
@@ -46,7 +50,7 @@ export class Poly {
      * @param r
      * @return
      */
-    public polyInvNTTMont(r: number[]): number[] {
+    public polyInvNTTMont(r: Int16Array): Int16Array {
         return this.invNTT(r);
     }
 
@@ -58,9 +62,9 @@ export class Poly {
      * @param r
      * @return
      */
-    public polyVectorNTT(r: number[][]): number[][] {
+    public polyVectorNTT(r: Int16Array[]): Int16Array[] {
         for (let i = 0; i < this.paramsK; i++) {
-            r[i] = this.ntt(r[i]);
+            this.ntt(r[i]);
         }
         return r;
     }
@@ -72,12 +76,12 @@ export class Poly {
      * @param a
      * @return
      */
-    public polyVectorFromBytes(a: number[]): number[][] {
-        const r = new Array<number[]>(this.paramsK);
+    public polyVectorFromBytes(a: Uint8Array): Int16Array[] {
+        const r = new Array<Int16Array>(this.paramsK);
         for (let i = 0; i < this.paramsK; i++) {
             const start = (i * KyberService.paramsPolyBytes);
             const end = (i + 1) * KyberService.paramsPolyBytes;
-            r[i] = this.polyFromBytes(a.slice(start, end));
+            r[i] = this.polyFromBytes(a.subarray(start, end));
         }
         return r;
     }
@@ -85,31 +89,33 @@ export class Poly {
     /**
      * Serialize a polynomial in to an array of bytes
      *
+     * The coefficients of `a` are reduced to [0, q) in place.
+     *
      * @param a
      * @return
      */
-    public polyToBytes(a: number[]): number[] {
-        const r = new Array<number>(KyberService.paramsPolyBytes);
-        const a2 = this.polyConditionalSubQ(a);
+    public polyToBytes(a: Int16Array): Uint8Array {
+        const r = new Uint8Array(KyberService.paramsPolyBytes);
+        this.polyConditionalSubQ(a);
         for (let i = 0; i < KyberService.paramsN / 2; i++) {
-            const t0 = uint16(a2[2 * i]);
-            const t1 = uint16(a2[2 * i + 1]);
-            r[3 * i] = byte(t0);
-            r[3 * i + 1] = byte(t0 >> 8) | byte(t1 << 4);
-            r[3 * i + 2] = byte(t1 >> 4);
+            const t0 = a[2 * i];
+            const t1 = a[2 * i + 1];
+            r[3 * i] = t0;
+            r[3 * i + 1] = (t0 >> 8) | (t1 << 4);
+            r[3 * i + 2] = t1 >> 4;
         }
         return r;
     }
 
     /**
-     * Check the 0xFFF
+     * Deserialize a polynomial from 384 bytes of 12-bit coefficients
      * @param a
      */
-    public polyFromBytes(a: number[]): number[] {
-        const r = new Array<number>(KyberService.paramsPolyBytes);
+    public polyFromBytes(a: Uint8Array): Int16Array {
+        const r = new Int16Array(KyberService.paramsN);
         for (let i = 0; i < KyberService.paramsN / 2; i++) {
-            r[2 * i] = int16((uint16(a[3 * i]) | (uint16(a[3 * i + 1]) << 8)) & 0xFFF);
-            r[2 * i + 1] = int16(((uint16(a[3 * i + 1]) >> 4) | (uint16(a[3 * i + 2]) << 4)) & 0xFFF);
+            r[2 * i] = (a[3 * i] | (a[3 * i + 1] << 8)) & 0xFFF;
+            r[2 * i + 1] = ((a[3 * i + 1] >> 4) | (a[3 * i + 2] << 4)) & 0xFFF;
         }
         return r;
     }
@@ -120,13 +126,13 @@ export class Poly {
      * @param a
      * @return
      */
-    public polyToMsg(a: number[]): number[] {
-        const message = new Array<number>(32).fill(0);
-        const a2 = this.polyConditionalSubQ(a);
+    public polyToMsg(a: Int16Array): Uint8Array {
+        const message = new Uint8Array(32);
+        this.polyConditionalSubQ(a);
         for (let i = 0; i < KyberService.paramsN / 8; i++) {
             for (let j = 0; j < 8; j++) {
-                const t = (((uint16(a2[8 * i + j]) << 1) + uint16(KyberService.paramsQ / 2)) / uint16(KyberService.paramsQ)) & 1;
-                message[i] |= byte(t << j);
+                const t = compressCoefficient(a[8 * i + j], 1);
+                message[i] |= t << j;
             }
         }
         return message;
@@ -138,12 +144,12 @@ export class Poly {
      * @param message
      * @return
      */
-    public polyFromData(message: number[]): number[] {
-        const r = new Array<number>(KyberService.paramsPolyBytes).fill(0);
+    public polyFromData(message: Uint8Array): Int16Array {
+        const r = new Int16Array(KyberService.paramsN);
         for (let i = 0; i < KyberService.paramsN / 8; i++) {
             for (let j = 0; j < 8; j++) {
-                const mask = -int16((message[i] >> j) & 1);
-                r[8 * i + j] = mask & int16((KyberService.paramsQ + 1) / 2);
+                const mask = -((message[i] >> j) & 1);
+                r[8 * i + j] = mask & ((KyberService.paramsQ + 1) / 2);
             }
         }
         return r;
@@ -159,7 +165,7 @@ export class Poly {
      * @param paramsK
      * @return
      */
-    public getNoisePoly(seed: number[], nonce: number, paramsK: number): number[] {
+    public getNoisePoly(seed: Uint8Array, nonce: number, paramsK: number): Int16Array {
         const l = paramsK === 2 ?
             KyberService.paramsETAK512 * KyberService.paramsN / 4 :
             KyberService.paramsETAK768K1024 * KyberService.paramsN / 4;
@@ -176,16 +182,8 @@ export class Poly {
      * @param nonce
      * @return
      */
-    public generatePRFByteArray(l: number, key: number[], nonce: number): Buffer {
-        const bufString = new SHAKE(256)
-            .update(Buffer.from(key))
-            .update(Buffer.from([nonce]))
-            .digest({ format: "binary", buffer: Buffer.alloc(l) });
-        const buf = Buffer.alloc(bufString.length);
-        for (let i = 0; i < bufString.length; ++i) {
-            buf[i] = +bufString[i];
-        }
-        return buf;
+    public generatePRFByteArray(l: number, key: Uint8Array, nonce: number): Uint8Array {
+        return this.symmetric.prf(key, nonce, l);
     }
 
     /**
@@ -198,17 +196,18 @@ export class Poly {
      * @param r
      * @return
      */
-    public ntt(r: number[]): number[] {
+    public ntt(r: Int16Array): Int16Array {
+        const zetas = KyberService.nttZetas;
         let j = 0;
         let k = 1;
         for (let l = 128; l >= 2; l >>= 1) {
             for (let start = 0; start < 256; start = j + l) {
-                const zeta = KyberService.nttZetas[k];
+                const zeta = zetas[k];
                 k++;
                 for (j = start; j < start + l; j++) {
-                    const t = modQMulMont(zeta, r[j + l]); // t is mod q
-                    r[j + l] = int16(r[j] - t);
-                    r[j] = int16(r[j] + t);
+                    const t = montgomeryReduce(zeta * r[j + l]); // t is mod q
+                    r[j + l] = r[j] - t;
+                    r[j] = r[j] + t;
                 }
             }
         }
@@ -221,7 +220,7 @@ export class Poly {
      * @param r
      * @return
      */
-    public polyReduce(r: number[]): number[] {
+    public polyReduce(r: Int16Array): Int16Array {
         for (let i = 0; i < KyberService.paramsN; i++) {
             r[i] = barrettReduce(r[i]);
         }
@@ -235,9 +234,9 @@ export class Poly {
      * @param polyR
      * @return
      */
-    public polyToMont(r: number[]): number[] {
+    public polyToMont(r: Int16Array): Int16Array {
         for (let i = 0; i < KyberService.paramsN; i++) {
-            r[i] = montgomeryReduce(int32(r[i]) * int32(1353));
+            r[i] = montgomeryReduce(r[i] * 1353);
         }
         return r;
     }
@@ -246,15 +245,17 @@ export class Poly {
      * Pointwise-multiplies elements of the given polynomial-vectors ,
      * accumulates the results , and then multiplies by 2^-16
      *
+     * Neither input is modified; the result is a new polynomial.
+     *
      * @param a
      * @param b
      * @return
      */
-    public polyVectorPointWiseAccMont(a: number[][], b: number[][]): number[] {
-        let r = this.polyBaseMulMont(a[0], b[0]);
+    public polyVectorPointWiseAccMont(a: Int16Array[], b: Int16Array[]): Int16Array {
+        const r = this.polyBaseMulMont(a[0], b[0]);
+        const t = new Int16Array(KyberService.paramsN);
         for (let i = 1; i < this.paramsK; i++) {
-            const t = this.polyBaseMulMont(a[i], b[i]);
-            r = this.polyAdd(r, t);
+            this.polyAdd(r, this.polyBaseMulMont(a[i], b[i], t));
         }
         return this.polyReduce(r);
     }
@@ -264,44 +265,22 @@ export class Poly {
      *
      * @param a
      * @param b
+     * @param r destination of the product, which may alias `a` or `b`
      * @return
      */
-    public polyBaseMulMont(a: number[], b: number[]): number[] {
+    public polyBaseMulMont(a: Int16Array, b: Int16Array, r: Int16Array = new Int16Array(KyberService.paramsN)): Int16Array {
+        const zetas = KyberService.nttZetas;
         for (let i = 0; i < KyberService.paramsN / 4; i++) {
-            const rx = this.nttBaseMuliplier(
-                a[4 * i], a[4 * i + 1],
-                b[4 * i], b[4 * i + 1],
-                KyberService.nttZetas[64 + i]
-            );
-            const ry = this.nttBaseMuliplier(
-                a[4 * i + 2], a[4 * i + 3],
-                b[4 * i + 2], b[4 * i + 3],
-                -KyberService.nttZetas[64 + i]
-            );
-
-            a[4 * i] = rx[0];
-            a[4 * i + 1] = rx[1];
-            a[4 * i + 2] = ry[0];
-            a[4 * i + 3] = ry[1];
+            const zeta = zetas[64 + i];
+            const a0 = a[4 * i], a1 = a[4 * i + 1], a2 = a[4 * i + 2], a3 = a[4 * i + 3];
+            const b0 = b[4 * i], b1 = b[4 * i + 1], b2 = b[4 * i + 2], b3 = b[4 * i + 3];
+
+            r[4 * i] = montgomeryReduce(montgomeryReduce(a1 * b1) * zeta) + montgomeryReduce(a0 * b0);
+            r[4 * i + 1] = montgomeryReduce(a0 * b1) + montgomeryReduce(a1 * b0);
+            r[4 * i + 2] = montgomeryReduce(montgomeryReduce(a3 * b3) * -zeta) + montgomeryReduce(a2 * b2);
+            r[4 * i + 3] = montgomeryReduce(a2 * b3) + montgomeryReduce(a3 * b2);
         }
-        return a;
-    }
-
-    /**
-     * Performs the multiplication of polynomials
-     *
-     * @param a0
-     * @param a1
-     * @param b0
-     * @param b1
-     * @param zeta
-     * @return
-     */
-    public nttBaseMuliplier(a0: number, a1: number, b0: number, b1: number, zeta: number): [number, number] {
-        return [
-            modQMulMont(modQMulMont(a1, b1), zeta) + modQMulMont(a0, b0),
-            modQMulMont(a0, b1) + modQMulMont(a1, b0),
-        ];
+        return r;
     }
 
     /**
@@ -311,9 +290,9 @@ export class Poly {
      * @param b
      * @return
      */
-    public polyVectorAdd(a: number[][], b: number[][]): number[][] {
+    public polyVectorAdd(a: Int16Array[], b: Int16Array[]): Int16Array[] {
         for (let i = 0; i < this.paramsK; i++) {
-            a[i] = this.polyAdd(a[i], b[i]);
+            this.polyAdd(a[i], b[i]);
         }
         return a;
     }
@@ -325,12 +304,11 @@ export class Poly {
      * @param b
      * @return
      */
-    public polyAdd(a: number[], b: number[]): number[] {
-        let c = new Array(a.length);
+    public polyAdd(a: Int16Array, b: Int16Array): Int16Array {
         for (let i = 0; i < KyberService.paramsN; i++) {
-            c[i] = a[i] + b[i];
+            a[i] += b[i];
         }
-        return c;
+        return a;
     }
 
     /**
@@ -340,7 +318,7 @@ export class Poly {
      * @param b
      * @return
      */
-    public subtract(a: number[], b: number[]): number[] {
+    public subtract(a: Int16Array, b: Int16Array): Int16Array {
         for (let i = 0; i < KyberService.paramsN; i++) {
             a[i] -= b[i];
         }
@@ -357,23 +335,24 @@ export class Poly {
      * @param r
      * @return
      */
-    public invNTT(r: number[]): number[] {
+    public invNTT(r: Int16Array): Int16Array {
+        const zetasInv = KyberService.nttZetasInv;
         let j = 0;
         let k = 0;
         for (let l = 2; l <= 128; l <<= 1) {
             for (let start = 0; start < 256; start = j + l) {
-                const zeta = KyberService.nttZetasInv[k];
+                const zeta = zetasInv[k];
                 k++;
                 for (j = start; j < start + l; j++) {
                     const t = r[j];
                     r[j] = barrettReduce(t + r[j + l]);
-                    r[j + l] = t - r[j + l];
-                    r[j + l] = modQMulMont(zeta, r[j + l]);
+                    r[j + l] = montgomeryReduce(zeta * (t - r[j + l]));
                 }
             }
         }
+        const f = zetasInv[127];
         for (j = 0; j < 256; j++) {
-            r[j] = modQMulMont(r[j], KyberService.nttZetasInv[127]);
+            r[j] = montgomeryReduce(r[j] * f);
         }
         return r;
     }
@@ -385,45 +364,46 @@ export class Poly {
      * @param paramsK
      * @return
      */
-    public compressPolyVector(a: number[][]): number[] {
-        a = this.polyVectorCSubQ(a);
+    public compressPolyVector(a: Int16Array[]): Uint8Array {
+        this.polyVectorCSubQ(a);
         let rr = 0;
-        let r: number[] = [];
-        let t: number[] = [];
+        const t = new Uint16Array(8);
 
         if (this.paramsK === 2 || this.paramsK === 3) {
+            const r = new Uint8Array(this.paramsK * 320);
             for (let i = 0; i < this.paramsK; i++) {
                 for (let j = 0; j < KyberService.paramsN / 4; j++) {
                     for (let k = 0; k < 4; k++) {
-                        t[k] = (((a[i][4 * j + k] << 10) + KyberService.paramsQ / 2) / KyberService.paramsQ) & 0b1111111111;
+                        t[k] = compressCoefficient(a[i][4 * j + k], 10);
                     }
-                    r[rr] = byte(t[0]);
-                    r[rr + 1] = byte(byte(t[0] >> 8) | byte(t[1] << 2));
-                    r[rr + 2] = byte(byte(t[1] >> 6) | byte(t[2] << 4));
-                    r[rr + 3] = byte(byte(t[2] >> 4) | byte(t[3] << 6));
-                    r[rr + 4] = byte((t[3] >> 2));
+                    r[rr] = t[0];
+                    r[rr + 1] = (t[0] >> 8) | (t[1] << 2);
+                    r[rr + 2] = (t[1] >> 6) | (t[2] << 4);
+                    r[rr + 3] = (t[2] >> 4) | (t[3] << 6);
+                    r[rr + 4] = t[3] >> 2;
                     rr += 5;
                 }
             }
             return r;
         }
 
+        const r = new Uint8Array(KyberService.paramsPolyvecCompressedBytesK1024);
         for (let i = 0; i < this.paramsK; i++) {
             for (let j = 0; j < KyberService.paramsN / 8; j++) {
                 for (let k = 0; k < 8; k++) {
-                    t[k] = int32((((int32(a[i][8 * j + k]) << 11) + int32(KyberService.paramsQ / 2)) / int32(KyberService.paramsQ)) & 0x7ff);
+                    t[k] = compressCoefficient(a[i][8 * j + k], 11);
                 }
-                r[rr] = byte(t[0]);
-                r[rr + 1] = byte((t[0] >> 8) | (t[1] << 3));
-                r[rr + 2] = byte((t[1] >> 5) | (t[2] << 6));
-                r[rr + 3] = byte((t[2] >> 2));
-                r[rr + 4] = byte((t[2] >> 10) | (t[3] << 1));
-                r[rr + 5] = byte((t[3] >> 7) | (t[4] << 4));
-                r[rr + 6] = byte((t[4] >> 4) | (t[5] << 7));
-                r[rr + 7] = byte((t[5] >> 1));
-                r[rr + 8] = byte((t[5] >> 9) | (t[6] << 2));
-                r[rr + 9] = byte((t[6] >> 6) | (t[7] << 5));
-                r[rr + 10] = byte((t[7] >> 3));
+                r[rr] = t[0];
+                r[rr + 1] = (t[0] >> 8) | (t[1] << 3);
+                r[rr + 2] = (t[1] >> 5) | (t[2] << 6);
+                r[rr + 3] = t[2] >> 2;
+                r[rr + 4] = (t[2] >> 10) | (t[3] << 1);
+                r[rr + 5] = (t[3] >> 7) | (t[4] << 4);
+                r[rr + 6] = (t[4] >> 4) | (t[5] << 7);
+                r[rr + 7] = t[5] >> 1;
+                r[rr + 8] = (t[5] >> 9) | (t[6] << 2);
+                r[rr + 9] = (t[6] >> 6) | (t[7] << 5);
+                r[rr + 10] = t[7] >> 3;
                 rr += 11;
             }
         }
@@ -436,40 +416,35 @@ export class Poly {
      * @param polyA
      * @return
      */
-    public compressPoly(polyA: number[]): number[] {
+    public compressPoly(polyA: Int16Array): Uint8Array {
         let rr = 0;
-        let r: number[] = [];
-        const qDiv2 = (KyberService.paramsQ / 2);
+        const t = new Uint8Array(8);
 
         if (this.paramsK === 2 || this.paramsK === 3) {
+            const r = new Uint8Array(KyberService.paramsPolyCompressedBytesK768);
             for (let i = 0; i < KyberService.paramsN / 8; i++) {
-                const t = new Array<number>(8);
                 for (let j = 0; j < 8; j++) {
-                    const step1: number = int32((polyA[8 * i + j]) << 4);
-                    const step2 = int32((step1 + qDiv2) / (KyberService.paramsQ));
-                    t[j] = intToByte(step2 & 15);
+                    t[j] = compressCoefficient(polyA[8 * i + j], 4);
                 }
-                r[rr] = intToByte(t[0] | (t[1] << 4));
-                r[rr + 1] = intToByte(t[2] | (t[3] << 4));
-                r[rr + 2] = intToByte(t[4] | (t[5] << 4));
-                r[rr + 3] = intToByte(t[6] | (t[7] << 4));
+                r[rr] = t[0] | (t[1] << 4);
+                r[rr + 1] = t[2] | (t[3] << 4);
+                r[rr + 2] = t[4] | (t[5] << 4);
+                r[rr + 3] = t[6] | (t[7] << 4);
                 rr += 4;
             }
             return r;
         }
 
+        const r = new Uint8Array(KyberService.paramsPolyCompressedBytesK1024);
         for (let i = 0; i < KyberService.paramsN / 8; i++) {
-            const t = new Array<number>(8);
             for (let j = 0; j < 8; j++) {
-                const step1: number = int32((polyA[(8 * i) + j] << 5));
-                const step2 = int32((step1 + qDiv2) / (KyberService.paramsQ));
-                t[j] = intToByte(step2 & 31);
+                t[j] = compressCoefficient(polyA[(8 * i) + j], 5);
             }
-            r[rr] = intToByte(t[0] | (t[1] << 5));
-            r[rr + 1] = intToByte((t[1] >> 3) | (t[2] << 2) | (t[3] << 7));
-            r[rr + 2] = intToByte((t[3] >> 1) | (t[4] << 4));
-            r[rr + 3] = intToByte((t[4] >> 4) | (t[5] << 1) | (t[6] << 6));
-            r[rr + 4] = intToByte((t[6] >> 2) | (t[7] << 3));
+            r[rr] = t[0] | (t[1] << 5);
+            r[rr + 1] = (t[1] >> 3) | (t[2] << 2) | (t[3] << 7);
+            r[rr + 2] = (t[3] >> 1) | (t[4] << 4);
+            r[rr + 3] = (t[4] >> 4) | (t[5] << 1) | (t[6] << 6);
+            r[rr + 4] = (t[6] >> 2) | (t[7] << 3);
             rr += 5;
         }
         return r;
@@ -484,47 +459,43 @@ export class Poly {
      * @param a
      * @return
      */
-    public decompressPolyVector(a: number[]): number[][] {
-        const r = new Array<number[]>(this.paramsK);
+    public decompressPolyVector(a: Uint8Array): Int16Array[] {
+        const r = new Array<Int16Array>(this.paramsK);
         for (let i = 0; i < this.paramsK; i++) {
-            r[i] = [];
+            r[i] = new Int16Array(KyberService.paramsN);
         }
         let aa = 0;
         if (this.paramsK === 2 || this.paramsK === 3) {
-            let ctr = 0;
             for (let i = 0; i < this.paramsK; i++) {
                 for (let j = 0; j < (KyberService.paramsN / 4); j++) {
-                    const t = [
-                        uint16(a[aa]) | (uint16(a[aa + 1]) << 8),
-                        (uint16(a[aa + 1]) >> 2) | (uint16(a[aa + 2]) << 6),
-                        (uint16(a[aa + 2]) >> 4) | (uint16(a[aa + 3]) << 4),
-                        (uint16(a[aa + 3]) >> 6) | (uint16(a[aa + 4]) << 2),
-                    ];
+                    const t0 = a[aa] | (a[aa + 1] << 8);
+                    const t1 = (a[aa + 1] >> 2) | (a[aa + 2] << 6);
+                    const t2 = (a[aa + 2] >> 4) | (a[aa + 3] << 4);
+                    const t3 = (a[aa + 3] >> 6) | (a[aa + 4] << 2);
                     aa += 5;
-                    ctr++;
-                    for (let k = 0; k < 4; k++) {
-                        r[i][4 * j + k] = (uint32(t[k] & 0x3FF) * KyberService.paramsQ + 512) >> 10;
-                    }
+                    r[i][4 * j] = ((t0 & 0x3FF) * KyberService.paramsQ + 512) >> 10;
+                    r[i][4 * j + 1] = ((t1 & 0x3FF) * KyberService.paramsQ + 512) >> 10;
+                    r[i][4 * j + 2] = ((t2 & 0x3FF) * KyberService.paramsQ + 512) >> 10;
+                    r[i][4 * j + 3] = ((t3 & 0x3FF) * KyberService.paramsQ + 512) >> 10;
                 }
             }
             return r;
         }
 
+        const t = new Uint16Array(8);
         for (let i = 0; i < this.paramsK; i++) {
             for (let j = 0; j < KyberService.paramsN / 8; j++) {
-                const t = [
-                    uint16(a[aa]) | (uint16(a[aa + 1]) << 8),
-                    (uint16(a[aa + 1]) >> 3) | (uint16(a[aa + 2]) << 5),
-                    (uint16(a[aa + 2]) >> 6) | (uint16(a[aa + 3]) << 2) | (uint16(a[aa + 4]) << 10),
-                    (uint16(a[aa + 4]) >> 1) | (uint16(a[aa + 5]) << 7),
-                    (uint16(a[aa + 5]) >> 4) | (uint16(a[aa + 6]) << 4),
-                    (uint16(a[aa + 6]) >> 7) | (uint16(a[aa + 7]) << 1) | (uint16(a[aa + 8]) << 9),
-                    (uint16(a[aa + 8]) >> 2) | (uint16(a[aa + 9]) << 6),
-                    (uint16(a[aa + 9]) >> 5) | (uint16(a[aa + 10]) << 3)
-                ];
+                t[0] = a[aa] | (a[aa + 1] << 8);
+                t[1] = (a[aa + 1] >> 3) | (a[aa + 2] << 5);
+                t[2] = (a[aa + 2] >> 6) | (a[aa + 3] << 2) | (a[aa + 4] << 10);
+                t[3] = (a[aa + 4] >> 1) | (a[aa + 5] << 7);
+                t[4] = (a[aa + 5] >> 4) | (a[aa + 6] << 4);
+                t[5] = (a[aa + 6] >> 7) | (a[aa + 7] << 1) | (a[aa + 8] << 9);
+                t[6] = (a[aa + 8] >> 2) | (a[aa + 9] << 6);
+                t[7] = (a[aa + 9] >> 5) | (a[aa + 10] << 3);
                 aa += 11;
                 for (let k = 0; k < 8; k++) {
-                    r[i][8 * j + k] = (uint32(t[k] & 0x7FF) * KyberService.paramsQ + 1024) >> 11;
+                    r[i][8 * j + k] = ((t[k] & 0x7FF) * KyberService.paramsQ + 1024) >> 11;
                 }
             }
         }
@@ -535,9 +506,9 @@ export class Poly {
      * Applies the conditional subtraction of Q (KyberParams) to each coefficient of
      * each element of a vector of polynomials.
      */
-    public polyVectorCSubQ(r: number[][]): number[][] {
+    public polyVectorCSubQ(r: Int16Array[]): Int16Array[] {
         for (let i = 0; i < this.paramsK; i++) {
-            r[i] = this.polyConditionalSubQ(r[i]);
+            this.polyConditionalSubQ(r[i]);
         }
         return r;
     }
@@ -549,10 +520,10 @@ export class Poly {
      * @param r
      * @return
      */
-    public polyConditionalSubQ(r: number[]): number[] {
+    public polyConditionalSubQ(r: Int16Array): Int16Array {
         for (let i = 0; i < KyberService.paramsN; i++) {
-            r[i] -= KyberService.paramsQ;
-            r[i] += (r[i] >> 31) & KyberService.paramsQ;
+            const t = r[i] - KyberService.paramsQ;
+            r[i] = t + ((t >> 31) & KyberService.paramsQ);
         }
         return r;
     }
@@ -566,32 +537,31 @@ export class Poly {
      * @param a
      * @return
      */
-    public decompressPoly(a: number[]): number[] {
-        let r = new Array<number>(384);
+    public decompressPoly(a: Uint8Array): Int16Array {
+        const r = new Int16Array(KyberService.paramsN);
         let aa = 0;
         if (this.paramsK === 2 || this.paramsK === 3) {
             for (let i = 0; i < KyberService.paramsN / 2; i++) {
-                r[2 * i] = int16((((byte(a[aa]) & 15) * uint32(KyberService.paramsQ)) + 8) >> 4);
-                r[2 * i + 1] = int16((((byte(a[aa]) >> 4) * uint32(KyberService.paramsQ)) + 8) >> 4);
+                r[2 * i] = (((a[aa] & 15) * KyberService.paramsQ) + 8) >> 4;
+                r[2 * i + 1] = (((a[aa] >> 4) * KyberService.paramsQ) + 8) >> 4;
                 aa++;
             }
             return r;
         }
 
+        const t = new Uint8Array(8);
         for (let i = 0; i < KyberService.paramsN / 8; i++) {
-            const t = [
-                a[aa],
-                byte(a[aa] >> 5) | byte((a[aa + 1] << 3)),
-                a[aa + 1] >> 2,
-                byte((a[aa + 1] >> 7)) | byte((a[aa + 2] << 1)),
-                byte((a[aa + 2] >> 4)) | byte((a[aa + 3] << 4)),
-                a[aa + 3] >> 1,
-                byte((a[aa + 3] >> 6)) | byte((a[aa + 4] << 2)),
-                a[aa + 4] >> 3
-            ];
+            t[0] = a[aa];
+            t[1] = (a[aa] >> 5) | (a[aa + 1] << 3);
+            t[2] = a[aa + 1] >> 2;
+            t[3] = (a[aa + 1] >> 7) | (a[aa + 2] << 1);
+            t[4] = (a[aa + 2] >> 4) | (a[aa + 3] << 4);
+            t[5] = a[aa + 3] >> 1;
+            t[6] = (a[aa + 3] >> 6) | (a[aa + 4] << 2);
+            t[7] = a[aa + 4] >> 3;
             aa += 5;
             for (let j = 0; j < 8; j++) {
-                r[8 * i + j] = int16((byte(t[j] & 31) * uint32(KyberService.paramsQ) + 16) >> 5);
+                r[8 * i + j] = ((t[j] & 31) * KyberService.paramsQ + 16) >> 5;
             }
         }
         return r;
@@ -0,0 +1,57 @@
+/**
+ * Sources of cryptographically secure randomness
+ */
+
+/**
+ * A source of random bytes used for key seeds and encapsulation coins
+ */
+export interface RandomSource {
+    /**
+     * Fill the whole byte array with random bytes
+     * @param bytes
+     */
+    fill(bytes: Uint8Array): void;
+}
+
+// getRandomValues refuses to fill more than 65536 bytes per call
+const maxGetRandomValuesBytes = 65536;
+
+/**
+ * Platform randomness: WebCrypto `crypto.getRandomValues` when available,
+ * otherwise `crypto.randomFillSync` from Node, which is only loaded then
+ */
+export const defaultRandomSource: RandomSource = {
+    fill(bytes: Uint8Array): void {
+        const webCrypto = globalThis.crypto;
+        if (webCrypto === undefined || typeof webCrypto.getRandomValues !== "function") {
+            nodeRandomFill(bytes);
+            return;
+        }
+        for (let i = 0; i < bytes.length; i += maxGetRandomValuesBytes) {
+            webCrypto.getRandomValues(bytes.subarray(i, i + maxGetRandomValuesBytes));
+        }
+    }
+};
+
+/**
+ * Fill the bytes with Node's `crypto.randomFillSync`, loading the module on
+ * first use so that other platforms never import it
+ */
+function nodeRandomFill(bytes: Uint8Array): void {
+    const nodeCrypto = loadNodeCrypto();
+    if (nodeCrypto === undefined) {
+        throw new Error("No secure random source: neither crypto.getRandomValues nor Node's crypto is available");
+    }
+    nodeCrypto.randomFillSync(bytes);
+}
+
+/**
+ * Node's `crypto` module: `process.getBuiltinModule` exists from Node 20.16
+ * and 22.3, older versions only load it through `require`
+ */
+function loadNodeCrypto(): typeof import("crypto") | undefined {
+    if (typeof process !== "undefined" && typeof process.getBuiltinModule === "function") {
+        return process.getBuiltinModule("crypto");
+    }
+    return typeof require === "function" ? require("crypto") : undefined;
+}
@@ -0,0 +1,157 @@
+/**
+ * Anonymous public-key encryption of messages in a single sealed box, built
+ * as a KEM-DEM: a fresh KEM shared secret is expanded with HKDF-SHA256 into
+ * an AES-256-GCM key and nonce that encrypt the message
+ *
+ * Every sealed box is laid out as
+ *
+ * | bytes | field                                                         |
+ * |-------|---------------------------------------------------------------|
+ * | 5     | magic `KSEAL`                                                 |
+ * | 1     | format version, 1                                             |
+ * | 1     | variant: 1 `Kyber`, 2 `Kyber-90s`, 3 `ML-KEM`                 |
+ * | 2     | parameter set, 512, 768 or 1024                               |
+ * | c     | KEM cipher text                                               |
+ * | n     | AES-256-GCM cipher text of the n-byte message                 |
+ * | 16    | AES-256-GCM tag                                               |
+ *
+ * with integers in big-endian byte order. The HKDF info is a label, the
+ * header and H of the recipient's public key, so a box is bound to its
+ * format, parameter set and recipient. The key and nonce are used for a
+ * single message, as every box has its own shared secret.
+ */
+import { Buffer } from "buffer";
+import { createCipheriv, createDecipheriv, hkdfSync } from "crypto";
+import { ParameterSetMismatchError, SealedBoxError, SealedBoxOpenError } from "./errors";
+import { ByteArray, concatBytes, toBytes } from "./utilities";
+import { KyberService } from "../services/kyber.service";
+
+const magic = Uint8Array.of(0x4B, 0x53, 0x45, 0x41, 0x4C);
+const version = 1;
+const variants = ["Kyber", "Kyber-90s", "ML-KEM"];
+const headerBytes = magic.length + 4;
+const keyBytes = 32;
+const nonceBytes = 12;
+const tagBytes = 16;
+const kdfLabel = Buffer.from("crystals-kyber-ts sealed box");
+
+const cipherTextLengths = [KyberService.Kyber512CTBytes, KyberService.Kyber768CTBytes, KyberService.Kyber1024CTBytes];
+
+/**
+ * Seal and open messages to the public keys of one parameter set
+ */
+export class SealedBox {
+
+    /**
+     * Bytes a sealed box adds to its message: the header, KEM cipher text and
+     * tag
+     */
+    public readonly overheadBytes: number;
+
+    /**
+     * @param service service of the recipient's parameter set
+     */
+    constructor(public readonly service: KyberService) {
+        this.overheadBytes = headerBytes + service.cipherTextBytes() + tagBytes;
+    }
+
+    /**
+     * Encrypt the message to the recipient's public key
+     * @param recipientPublicKey
+     * @param plainText
+     * @param aad optional additional data, which `open` needs to be given as
+     * well
+     * @return sealed box
+     */
+    public seal(recipientPublicKey: ByteArray, plainText: ByteArray, aad: ByteArray = []): Uint8Array {
+        const publicKeyBytes = toBytes(recipientPublicKey, "recipientPublicKey");
+        const plainTextBytes = toBytes(plainText, "plainText");
+        const aadBytes = toBytes(aad, "aad");
+        const [cipherText, sharedSecret] = this.service.encrypt(publicKeyBytes);
+
+        const header = this.header();
+        const [key, nonce] = this.deriveKey(sharedSecret, header, publicKeyBytes);
+        const cipher = createCipheriv("aes-256-gcm", key, nonce);
+        cipher.setAAD(aadBytes);
+        const encrypted = concatBytes(cipher.update(plainTextBytes), cipher.final());
+        return concatBytes(header, cipherText, encrypted, cipher.getAuthTag());
+    }
+
+    /**
+     * Decrypt a sealed box with the recipient's private key
+     * @param privateKey expanded private key or 64-byte private key seed
+     * @param sealed
+     * @param aad the additional data the box was sealed with
+     * @return message
+     * @throws SealedBoxError if the box is malformed or of another variant
+     * @throws ParameterSetMismatchError if the box is for another parameter
+     * set
+     * @throws SealedBoxOpenError if the box or additional data is not
+     * authentic or the box was sealed to another public key
+     */
+    public open(privateKey: ByteArray, sealed: ByteArray, aad: ByteArray = []): Uint8Array {
+        const sealedBytes = toBytes(sealed, "sealed");
+        const aadBytes = toBytes(aad, "aad");
+        const privateKeyBytes = this.service.expandPrivateKey(privateKey);
+        const publicKey = this.service.publicKeyFromPrivateKey(privateKeyBytes);
+        this.checkHeader(sealedBytes);
+        if (sealedBytes.length < this.overheadBytes) {
+            throw new SealedBoxError(this.service.getAlgorithm() + " sealed box must be at least " + this.overheadBytes +
+                " bytes, got " + sealedBytes.length);
+        }
+
+        const cipherTextEnd = headerBytes + this.service.cipherTextBytes();
+        const sharedSecret = this.service.decrypt(sealedBytes.subarray(headerBytes, cipherTextEnd), privateKeyBytes);
+        const [key, nonce] = this.deriveKey(sharedSecret, sealedBytes.subarray(0, headerBytes), publicKey);
+        const decipher = createDecipheriv("aes-256-gcm", key, nonce);
+        decipher.setAAD(aadBytes);
+        decipher.setAuthTag(sealedBytes.subarray(sealedBytes.length - tagBytes));
+        const plainText = decipher.update(sealedBytes.subarray(cipherTextEnd, sealedBytes.length - tagBytes));
+        try {
+            return concatBytes(plainText, decipher.final());
+        } catch (e) {
+            throw new SealedBoxOpenError(this.service.getAlgorithm() + " sealed box could not be opened");
+        }
+    }
+
+    private header(): Uint8Array {
+        const parameterSet = 256 * this.service.paramsK;
+        return concatBytes(magic, Uint8Array.of(version, variants.indexOf(this.service.getVariant()) + 1,
+            parameterSet >> 8, parameterSet & 0xFF));
+    }
+
+    /**
+     * Throw if the sealed box does not start with the header of this service
+     */
+    private checkHeader(sealed: Uint8Array): void {
+        const algorithm = this.service.getAlgorithm();
+        if (sealed.length < headerBytes || Buffer.compare(sealed.subarray(0, magic.length), magic) !== 0) {
+            throw new SealedBoxError(algorithm + " sealed box does not start with the sealed box magic");
+        }
+        if (sealed[magic.length] !== version) {
+            throw new SealedBoxError(algorithm + " sealed box is of the unknown version " + sealed[magic.length]);
+        }
+        const sealedVariant = variants[sealed[magic.length + 1] - 1];
+        if (sealedVariant !== this.service.getVariant()) {
+            throw new SealedBoxError(algorithm + " sealed box is of the " + (sealedVariant ?? "unknown") + " variant");
+        }
+        const parameterSet = (sealed[magic.length + 2] << 8) | sealed[magic.length + 3];
+        if (parameterSet !== 256 * this.service.paramsK) {
+            const other = cipherTextLengths[parameterSet / 256 - 2];
+            if (other === undefined) {
+                throw new SealedBoxError(algorithm + " sealed box is of the unknown parameter set " + parameterSet);
+            }
+            throw new ParameterSetMismatchError(algorithm + " sealed box is for the " + parameterSet + " parameter set",
+                algorithm, this.service.cipherTextBytes(), other, parameterSet);
+        }
+    }
+
+    /**
+     * Expand the shared secret into the AES-256-GCM key and nonce
+     */
+    private deriveKey(sharedSecret: Uint8Array, header: Uint8Array, publicKey: Uint8Array): [Uint8Array, Uint8Array] {
+        const info = concatBytes(kdfLabel, header, this.service.symmetric.hashH(publicKey));
+        const okm = new Uint8Array(hkdfSync("sha256", sharedSecret, new Uint8Array(0), info, keyBytes + nonceBytes));
+        return [okm.subarray(0, keyBytes), okm.subarray(keyBytes)];
+    }
+}
@@ -0,0 +1,266 @@
+/**
+ * Optional FIPS 140-3 style self-tests
+ *
+ * Once enabled with `enableSelfTests`, the first key generation,
+ * encapsulation or decapsulation of each algorithm runs a known-answer test
+ * of all three, and every `generateKyberKeys` runs a pairwise consistency
+ * test on the new key pair. A failing test puts the library in an error state
+ * in which every operation of every algorithm throws `SelfTestError`, until
+ * `clearSelfTestError` reruns the known-answer tests and they pass.
+ */
+import { Buffer } from "buffer";
+import { SelfTestError } from "./errors";
+import { concatBytes, constantTimeCompare } from "./utilities";
+import { KyberService } from "../services/kyber.service";
+
+/**
+ * State of the self-tests, as reported to the host application
+ */
+export interface SelfTestStatus {
+    /** whether self-tests run */
+    enabled: boolean;
+    /** algorithms whose known-answer test has passed */
+    passed: string[];
+    /** description of the failed test if the library is in the error state */
+    error?: string;
+}
+
+/**
+ * d, z and m of count 0 of the NIST known-answer files: the outputs of the
+ * KAT DRBG for its first seed, drawn as d and z separately in round 3 and as
+ * d || z in ML-KEM
+ */
+interface KnownAnswerInputs {
+    d: string;
+    z: string;
+    m: string;
+}
+
+const round3Inputs: KnownAnswerInputs = {
+    d: "7c9935a0b07694aa0c6d10e4db6b1add2fd81a25ccb148032dcd739936737f2d",
+    z: "8626ed79d451140800e03b59b956f8210e556067407d13dc90fa9e8b872bfb8f",
+    m: "147c03f7a5bebba406c8fae1874d7f13c80efe79a3a9a874cc09fe76f6997615"
+};
+
+const mlKemInputs: KnownAnswerInputs = {
+    d: "7c9935a0b07694aa0c6d10e4db6b1add2fd81a25ccb148032dcd739936737f2d",
+    z: "b505d7cfad1b497499323c8686325e4792f267aafa3f87ca60d01cb54f29202a",
+    m: "eb4a7c66ef4eba2ddb38c88d8bc706b1d639002198172a7b1942eca8f6c001ba"
+};
+
+/**
+ * Expected values of count 0 of each algorithm's known-answer file: hash H
+ * of pk || sk || ct, and ss
+ */
+const knownAnswers: { [algorithm: string]: { inputs: KnownAnswerInputs, digest: string, ss: string } } = {
+    "Kyber512": {
+        inputs: round3Inputs,
+        digest: "56b200fb3bc4376725e21dabddbf010286c0bc7a67bf7eb9d50f504a164229d2",
+        ss: "0a6925676f24b22c286f4c81a4224cec506c9b257d480e02e3b49f44caa3237f"
+    },
+    "Kyber768": {
+        inputs: round3Inputs,
+        digest: "ae03cedf71d39cf74af98dd7b10bdc17ac049ce26bfbc754c881487d24dc0f2e",
+        ss: "914cb67fe5c38e73bf74181c0ac50428dedf7750a98058f7d536708774535b29"
+    },
+    "Kyber1024": {
+        inputs: round3Inputs,
+        digest: "53cbfbb492cbaf7b4ddd22b56745c414c49ca22f4ed2c66d3707992ebef23cfd",
+        ss: "b10f7394926ad3b49c5d62d5aeb531d5757538bcc0da9e550d438f1b61bd7419"
+    },
+    "Kyber512-90s": {
+        inputs: round3Inputs,
+        digest: "9b472e0e54bb8da7480731825d1c79902d6d211cdf39e4c1dba1727cc37aaaa3",
+        ss: "0c9239c7705d639151ad1bcadf58bd99910b7a124499172113228b4c75f822e1"
+    },
+    "Kyber768-90s": {
+        inputs: round3Inputs,
+        digest: "29cd3196029a8a11c534a311366e81493e3279db933de4b61b6629194c3e6599",
+        ss: "44f694e478ebac4a556a38a25c959b62acc72e17cf04b4d47e54b0b7feaceb56"
+    },
+    "Kyber1024-90s": {
+        inputs: round3Inputs,
+        digest: "86276b11f9bcaa0faf12c8466abad2a24ccdc5bd4307efae68eab24fcc37e5ae",
+        ss: "c14ebd6e3788a641d1755b4c869c46994f75af16b40f8f6492ccbec7a3da9bfe"
+    },
+    "ML-KEM-512": {
+        inputs: mlKemInputs,
+        digest: "164ef420bef306790d935a5f94115e93bd065080a0170624c93149a549f1e453",
+        ss: "b4c8e3c4115f9511f2fddb288c4b78c5cd7c89d2d4d321f46b4edc54ddf0eb36"
+    },
+    "ML-KEM-768": {
+        inputs: mlKemInputs,
+        digest: "114397573a2dfc31dfd3c07c404b4ec4727bec5733bf2545f797aac02437228a",
+        ss: "ac865f839fef1bf3d528dd7504bed2f64b5502b0fa81d1c32763658e4aac5037"
+    },
+    "ML-KEM-1024": {
+        inputs: mlKemInputs,
+        digest: "397ec20734a1b6a7c90226ed55e8b0ccc0b209e282b1d3022c0507548a23eff4",
+        ss: "ea636ce31b73f40229572146b97e590f1605fdadd1c3781861530effcf2b1e18"
+    }
+};
+
+let enabled = false;
+let error: string | undefined;
+// services whose tests failed, by algorithm
+const failed = new Map<string, KyberService>();
+// services whose known-answer test has passed, by algorithm
+const passed = new Map<string, KyberService>();
+const running = new Set<string>();
+
+/**
+ * Run self-tests from now on
+ */
+export function enableSelfTests(): void {
+    enabled = true;
+}
+
+/**
+ * Leave the error state by running the known-answer tests again, of the
+ * algorithms whose tests failed and of every algorithm that had passed. The
+ * error is only cleared if all of them pass; otherwise the library stays in
+ * the error state and `SelfTestError` is thrown.
+ */
+export function clearSelfTestError(): void {
+    if (error === undefined) {
+        return;
+    }
+    const services = new Map([...passed, ...failed]);
+    const previous = error;
+    // the tests run the operations the error state refuses
+    error = undefined;
+    try {
+        for (const service of services.values()) {
+            runKnownAnswerTest(service);
+        }
+    } catch (e) {
+        error = error ?? previous;
+        throw e;
+    }
+    failed.clear();
+}
+
+/**
+ * For tests only, and not exported from the package: return to the state at
+ * start-up, with self-tests disabled, none passed and no error
+ */
+export function resetSelfTests(): void {
+    enabled = false;
+    error = undefined;
+    failed.clear();
+    passed.clear();
+}
+
+/**
+ * Report whether self-tests are enabled, which have passed and whether the
+ * library is in the error state
+ */
+export function getSelfTestStatus(): SelfTestStatus {
+    const status: SelfTestStatus = { enabled, passed: Array.from(passed.keys()) };
+    if (error !== undefined) {
+        status.error = error;
+    }
+    return status;
+}
+
+/**
+ * Run the known-answer test of the service's algorithm now, for instance at
+ * power-on, entering the error state and throwing `SelfTestError` if it fails
+ * @param service
+ */
+export function runSelfTest(service: KyberService): void {
+    checkErrorState(service);
+    runKnownAnswerTest(service);
+}
+
+/**
+ * Throw if the library is in the error state, and run the known-answer test
+ * of the service's algorithm if it has not passed yet; does nothing unless
+ * self-tests are enabled
+ * @param service
+ */
+export function checkSelfTests(service: KyberService): void {
+    if (!enabled) {
+        return;
+    }
+    checkErrorState(service);
+    const algorithm = service.getAlgorithm();
+    if (!passed.has(algorithm) && !running.has(algorithm)) {
+        runSelfTest(service);
+    }
+}
+
+/**
+ * Check that a shared secret encapsulated to the new public key decapsulates
+ * with its private key, entering the error state and throwing
+ * `SelfTestError` if not; does nothing unless self-tests are enabled
+ * @param service
+ * @param publicKey
+ * @param privateKey
+ */
+export function pairwiseConsistencyTest(service: KyberService, publicKey: Uint8Array, privateKey: Uint8Array): void {
+    if (!enabled) {
+        return;
+    }
+    const [cipherText, sharedSecret] = service.encrypt(publicKey);
+    if (constantTimeCompare(service.decrypt(cipherText, privateKey), sharedSecret) !== 0) {
+        fail(service, service.getAlgorithm() + " pairwise consistency test failed");
+    }
+}
+
+function checkErrorState(service: KyberService): void {
+    if (error !== undefined) {
+        throw new SelfTestError(service.getAlgorithm() + " refused: " + error, service.getAlgorithm(), 0, 0);
+    }
+}
+
+function runKnownAnswerTest(service: KyberService): void {
+    const algorithm = service.getAlgorithm();
+    running.add(algorithm);
+    try {
+        const result = knownAnswerTest(service);
+        if (result !== undefined) {
+            fail(service, result);
+        }
+        passed.set(algorithm, service);
+    } finally {
+        running.delete(algorithm);
+    }
+}
+
+function fail(service: KyberService, message: string): never {
+    error = message;
+    failed.set(service.getAlgorithm(), service);
+    passed.delete(service.getAlgorithm());
+    throw new SelfTestError(message, service.getAlgorithm(), 0, 0);
+}
+
+/**
+ * Generate keys, encapsulate and decapsulate with the inputs of count 0 of
+ * the algorithm's NIST known-answer file, returning a description of the
+ * failure or undefined if every value matches the file
+ */
+function knownAnswerTest(service: KyberService): string | undefined {
+    const algorithm = service.getAlgorithm();
+    const knownAnswer = knownAnswers[algorithm];
+    if (knownAnswer === undefined) {
+        return algorithm + " has no known-answer test";
+    }
+    const { d, z, m } = knownAnswer.inputs;
+    const expectedSharedSecret = Buffer.from(knownAnswer.ss, "hex");
+    try {
+        const [publicKey, privateKey] = service.generateKyberKeysDeterministic(Buffer.from(d, "hex"), Buffer.from(z, "hex"));
+        const [cipherText, sharedSecret] = service.encryptDeterministic(publicKey, Buffer.from(m, "hex"));
+        const digest = service.symmetric.hashH(concatBytes(publicKey, privateKey, cipherText));
+        if (constantTimeCompare(digest, Buffer.from(knownAnswer.digest, "hex")) !== 0 ||
+            constantTimeCompare(sharedSecret, expectedSharedSecret) !== 0) {
+            return algorithm + " known-answer test produced unexpected values";
+        }
+        if (constantTimeCompare(service.decrypt(cipherText, privateKey), expectedSharedSecret) !== 0) {
+            return algorithm + " known-answer test decapsulated another shared secret";
+        }
+    } catch (e) {
+        return algorithm + " known-answer test threw " + (e instanceof Error ? e.message : String(e));
+    }
+    return undefined;
+}
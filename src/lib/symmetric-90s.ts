@@ -0,0 +1,56 @@
+/**
+ * Symmetric primitives of Kyber-90s, kept apart from the SHAKE ones so that
+ * only the Kyber-90s services load Node's `crypto`
+ */
+import { Buffer } from "buffer";
+import { Cipheriv, createCipheriv, createHash } from "crypto";
+import { SymmetricPrimitives } from "./symmetric";
+import { XofReader } from "./xof";
+
+/**
+ * AES-256 in counter mode keyed with a 32-byte seed, with a 12-byte nonce
+ * followed by a 32-bit big-endian block counter starting at zero
+ */
+export class Aes256CtrReader implements XofReader {
+    public readonly blockSize = 64;
+    private cipher: Cipheriv;
+
+    constructor(key: Uint8Array, nonce: Uint8Array) {
+        const iv = Buffer.alloc(16);
+        iv.set(nonce);
+        this.cipher = createCipheriv("aes-256-ctr", key, iv);
+    }
+
+    public squeezeBlocks(blocks: number): Uint8Array {
+        return this.cipher.update(Buffer.alloc(blocks * this.blockSize));
+    }
+}
+
+function digest(algorithm: string, inputs: Uint8Array[]): Uint8Array {
+    const hash = createHash(algorithm);
+    for (const input of inputs) {
+        hash.update(input);
+    }
+    return hash.digest();
+}
+
+/**
+ * SHA-2 and AES-256-CTR, as used by Kyber-90s
+ */
+export const aesSymmetric: SymmetricPrimitives = {
+    hashH(...inputs: Uint8Array[]): Uint8Array {
+        return digest("sha256", inputs);
+    },
+    hashG(...inputs: Uint8Array[]): Uint8Array {
+        return digest("sha512", inputs);
+    },
+    xof(seed: Uint8Array, x: number, y: number): XofReader {
+        return new Aes256CtrReader(seed, Uint8Array.of(x, y));
+    },
+    prf(key: Uint8Array, nonce: number, length: number): Uint8Array {
+        return new Aes256CtrReader(key, Uint8Array.of(nonce)).squeezeBlocks(Math.ceil(length / 64)).subarray(0, length);
+    },
+    kdf(...inputs: Uint8Array[]): Uint8Array {
+        return digest("sha256", inputs);
+    }
+};
@@ -0,0 +1,85 @@
+/**
+ * Symmetric primitives that instantiate Kyber's hash functions, XOF and PRF
+ */
+import { Buffer } from "buffer";
+import { SHA3, SHAKE } from "sha3";
+import { Shake128Reader, XofReader } from "./xof";
+
+/**
+ * The symmetric primitives a Kyber variant is built from
+ */
+export interface SymmetricPrimitives {
+    /**
+     * 32-byte hash H of the concatenated inputs
+     * @param inputs
+     */
+    hashH(...inputs: Uint8Array[]): Uint8Array;
+
+    /**
+     * 64-byte hash G of the concatenated inputs
+     * @param inputs
+     */
+    hashG(...inputs: Uint8Array[]): Uint8Array;
+
+    /**
+     * XOF used to expand element (x, y) of the public matrix from its seed
+     * @param seed
+     * @param x
+     * @param y
+     */
+    xof(seed: Uint8Array, x: number, y: number): XofReader;
+
+    /**
+     * `length` pseudo-random bytes derived from the key and a one-byte nonce
+     * @param key
+     * @param nonce
+     * @param length
+     */
+    prf(key: Uint8Array, nonce: number, length: number): Uint8Array;
+
+    /**
+     * 32-byte key derivation function of the concatenated inputs
+     * @param inputs
+     */
+    kdf(...inputs: Uint8Array[]): Uint8Array;
+}
+
+function toBuffer(bytes: Uint8Array): Buffer {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * SHA-3 and SHAKE, as used by Kyber and ML-KEM
+ */
+export const shakeSymmetric: SymmetricPrimitives = {
+    hashH(...inputs: Uint8Array[]): Uint8Array {
+        const hash = new SHA3(256);
+        for (const input of inputs) {
+            hash.update(toBuffer(input));
+        }
+        return hash.digest();
+    },
+    hashG(...inputs: Uint8Array[]): Uint8Array {
+        const hash = new SHA3(512);
+        for (const input of inputs) {
+            hash.update(toBuffer(input));
+        }
+        return hash.digest();
+    },
+    xof(seed: Uint8Array, x: number, y: number): XofReader {
+        return new Shake128Reader(seed, Uint8Array.of(x, y));
+    },
+    prf(key: Uint8Array, nonce: number, length: number): Uint8Array {
+        return new SHAKE(256)
+            .update(toBuffer(key))
+            .update(Buffer.from([nonce]))
+            .digest({ format: "binary", buffer: Buffer.alloc(length) });
+    },
+    kdf(...inputs: Uint8Array[]): Uint8Array {
+        const hash = new SHAKE(256);
+        for (const input of inputs) {
+            hash.update(toBuffer(input));
+        }
+        return hash.digest({ format: "binary", buffer: Buffer.alloc(32) });
+    }
+};
@@ -1,14 +1,59 @@
 /**
  * Common math and byte functions
  */
-import { alea as aleaRandom } from 'alea-generator';
+import { ctEqual } from "./ct";
 
 /**
- * Get a random int within 0 to n
- * @param n
+ * Byte array accepted by the public API; `number[]` is converted to a
+ * `Uint8Array` for compatibility with earlier releases
+ */
+export type ByteArray = Uint8Array | number[];
+
+/**
+ * Convert the given byte array to a `Uint8Array`, rejecting any `number[]`
+ * element that is not an integer between 0 and 255
+ *
+ * `Uint8Array` input is returned as is, without copying.
+ * @param bytes
+ * @param name used in the error message
+ */
+export function toBytes(bytes: ByteArray, name: string = "input"): Uint8Array {
+    if (bytes instanceof Uint8Array) {
+        return bytes;
+    }
+    for (let i = 0; i < bytes.length; i++) {
+        const b = bytes[i];
+        if (!Number.isInteger(b) || b < 0 || b > 255) {
+            throw new RangeError(name + "[" + i + "] is not a byte: " + b);
+        }
+    }
+    return Uint8Array.from(bytes);
+}
+
+/**
+ * Convert the given bytes to a `number[]` for callers of the earlier API
+ * @param bytes
+ */
+export function toNumberArray(bytes: Uint8Array): number[] {
+    return Array.from(bytes);
+}
+
+/**
+ * Concatenate byte arrays into a new `Uint8Array`
+ * @param arrays
  */
-export function randomIntUpTo(n: number): number {
-    return Math.floor(aleaRandom() * n);
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+    let length = 0;
+    for (const a of arrays) {
+        length += a.length;
+    }
+    const r = new Uint8Array(length);
+    let offset = 0;
+    for (const a of arrays) {
+        r.set(a, offset);
+        offset += a.length;
+    }
+    return r;
 }
 
 /**
@@ -24,11 +69,7 @@ export function hexToDec(hexString: string): number {
  * @param n
  */
 export function byte(n: number): number {
-    n %= 256;
-    while (n < 0) {
-        n += 256;
-    }
-    return n;
+    return n & 0xFF;
 }
 
 /**
@@ -36,10 +77,7 @@ export function byte(n: number): number {
  * @param n
  */
 export function intToByte(n: number): number {
-    while (n > 255) {
-        n -= 256;
-    }
-    return n;
+    return n & 0xFF;
 }
 
 /**
@@ -47,15 +85,7 @@ export function intToByte(n: number): number {
  * @param n
  */
 export function int16(n: number): number {
-    const end = -32768;
-    const start = 32767;
-
-    if (n < end) {
-        return start + uint16(n + 32769);
-    } else if (n > start) {
-        return end + uint16(n - 32768);
-    }
-    return n;
+    return (n << 16) >> 16;
 }
 
 /**
@@ -63,27 +93,15 @@ export function int16(n: number): number {
  * @param n
  */
 export function uint16(n: number): number {
-    n %= 65536;
-    while (n < 0) {
-        n += 65536;
-    }
-    return n;
+    return n & 0xFFFF;
 }
 
 /**
- * Get the unsigned int 32 representation of the number
+ * Get the int 32 representation of the number
  * @param n
  */
 export function int32(n: number): number {
-    const end = -2147483648;
-    const start = 2147483647;
-
-    if (n < end) {
-        return start + uint32(n + 2147483649);
-    } else if (n > start) {
-        return end + uint32(n - 2147483648);
-    }
-    return n;
+    return n | 0;
 }
 
 /**
@@ -91,27 +109,14 @@ export function int32(n: number): number {
  * @param n
  */
 export function uint32(n: number): number {
-    n %= 4294967296;
-    while (n < 4294967296) {
-        n += 4294967296;
-    }
-    return n;
+    return n >>> 0;
 }
 
 /**
- * Test to compare the equality of two byte arrays
+ * Test to compare the equality of two byte arrays in constant time
  *
  * Returns 0 if they are equal
  */
-export function constantTimeCompare(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-        return 1;
-    }
-    // check contents
-    for (let i = 0; i < a.length; i++) {
-        if (a[i] !== b[i]) {
-            return 1;
-        }
-    }
-    return 0;
+export function constantTimeCompare(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    return 1 - ctEqual(a, b);
 }
@@ -0,0 +1,204 @@
+/**
+ * Self-describing wire encoding of public keys, cipher texts and shared
+ * secrets, whose lengths are the `KyberEncoded*` constants of `KyberService`
+ *
+ * Every encoding is laid out as
+ *
+ * | bytes | field                                                         |
+ * |-------|---------------------------------------------------------------|
+ * | 5     | magic `KYBER`                                                 |
+ * | 1     | format version, 1                                             |
+ * | 1     | type: 1 public key, 2 cipher text, 3 shared secret            |
+ * | 2     | flags, zero                                                   |
+ * | 24    | variant (`Kyber`, `Kyber-90s`, `ML-KEM`), NUL padded ASCII    |
+ * | 64    | key ID: G of the public key the value belongs to              |
+ * | 2     | parameter set, 512, 768 or 1024 (not in shared secrets)       |
+ * | 4     | payload length (not in shared secrets)                        |
+ * | n     | payload                                                       |
+ * | 64    | checksum: G of all preceding bytes                            |
+ *
+ * with integers in big-endian byte order and G the variant's 64-byte hash.
+ * This adds 167 bytes to public keys and cipher texts and 161 bytes to
+ * 32-byte shared secrets, which are the same for every parameter set.
+ */
+import { checkInputLength, InvalidCiphertextLengthError, InvalidKeyEncodingError, InvalidPublicKeyError, ParameterSetMismatchError } from "./errors";
+import { ByteArray, concatBytes, constantTimeCompare, toBytes } from "./utilities";
+import { KyberService } from "../services/kyber.service";
+
+const magic = Uint8Array.of(0x4B, 0x59, 0x42, 0x45, 0x52);
+const version = 1;
+const typePublicKey = 1;
+const typeCipherText = 2;
+const typeSharedSecret = 3;
+const variantBytes = 24;
+const keyIdBytes = 64;
+const checksumBytes = 64;
+const headerBytes = magic.length + 4 + variantBytes;
+
+const publicKeyLengths = [KyberService.Kyber512PKBytes, KyberService.Kyber768PKBytes, KyberService.Kyber1024PKBytes];
+const cipherTextLengths = [KyberService.Kyber512CTBytes, KyberService.Kyber768CTBytes, KyberService.Kyber1024CTBytes];
+const encodedPublicKeyLengths = [KyberService.KyberEncoded512PKBytes, KyberService.KyberEncoded768PKBytes, KyberService.KyberEncoded1024PKBytes];
+const encodedCipherTextLengths = [KyberService.KyberEncoded512CTBytes, KyberService.KyberEncoded768CTBytes, KyberService.KyberEncoded1024CTBytes];
+
+/**
+ * Encode a public key
+ * @param service service of the key's parameter set
+ * @param publicKey
+ */
+export function encodePublicKey(service: KyberService, publicKey: ByteArray): Uint8Array {
+    const publicKeyBytes = toBytes(publicKey, "publicKey");
+    checkInputLength(publicKeyBytes, publicKeyLengths, service.paramsK, service.getAlgorithm(), "public key", InvalidPublicKeyError);
+    return encode(service, typePublicKey, publicKeyBytes, publicKeyBytes);
+}
+
+/**
+ * Decode an encoded public key, throwing if it is corrupt or not a public key
+ * of the service's algorithm
+ * @param service
+ * @param encoded
+ */
+export function decodePublicKey(service: KyberService, encoded: ByteArray): Uint8Array {
+    const encodedBytes = toBytes(encoded, "encoded");
+    checkInputLength(encodedBytes, encodedPublicKeyLengths, service.paramsK, service.getAlgorithm(), "encoded public key",
+        InvalidKeyEncodingError);
+    const [publicKey, keyId] = decode(service, typePublicKey, encodedBytes);
+    if (constantTimeCompare(service.symmetric.hashG(publicKey), keyId) !== 0) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " encoded public key has the key ID of another public key",
+            service.getAlgorithm(), keyIdBytes, keyIdBytes);
+    }
+    return publicKey;
+}
+
+/**
+ * Encode a cipher text
+ * @param service service of the cipher text's parameter set
+ * @param cipherText
+ * @param publicKey public key the cipher text was encrypted to
+ */
+export function encodeCipherText(service: KyberService, cipherText: ByteArray, publicKey: ByteArray): Uint8Array {
+    const cipherTextBytes = toBytes(cipherText, "cipherText");
+    checkInputLength(cipherTextBytes, cipherTextLengths, service.paramsK, service.getAlgorithm(), "cipher text",
+        InvalidCiphertextLengthError);
+    return encode(service, typeCipherText, cipherTextBytes, toBytes(publicKey, "publicKey"));
+}
+
+/**
+ * Decode an encoded cipher text, throwing if it is corrupt, not a cipher text
+ * of the service's algorithm, or encrypted to a public key other than the
+ * given one
+ * @param service
+ * @param encoded
+ * @param publicKey optional public key the cipher text must be encrypted to
+ */
+export function decodeCipherText(service: KyberService, encoded: ByteArray, publicKey?: ByteArray): Uint8Array {
+    const encodedBytes = toBytes(encoded, "encoded");
+    checkInputLength(encodedBytes, encodedCipherTextLengths, service.paramsK, service.getAlgorithm(), "encoded cipher text",
+        InvalidKeyEncodingError);
+    const [cipherText, keyId] = decode(service, typeCipherText, encodedBytes);
+    checkKeyId(service, keyId, publicKey, "cipher text");
+    return cipherText;
+}
+
+/**
+ * Encode a shared secret
+ * @param service service the shared secret was agreed with
+ * @param sharedSecret
+ * @param publicKey public key the shared secret was agreed with
+ */
+export function encodeSharedSecret(service: KyberService, sharedSecret: ByteArray, publicKey: ByteArray): Uint8Array {
+    const sharedSecretBytes = toBytes(sharedSecret, "sharedSecret");
+    if (sharedSecretBytes.length !== KyberService.KyberSSBytes) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " shared secret must be " + KyberService.KyberSSBytes +
+            " bytes, got " + sharedSecretBytes.length, service.getAlgorithm(), KyberService.KyberSSBytes, sharedSecretBytes.length);
+    }
+    return encode(service, typeSharedSecret, sharedSecretBytes, toBytes(publicKey, "publicKey"));
+}
+
+/**
+ * Decode an encoded shared secret, throwing if it is corrupt, not a shared
+ * secret of the service's variant, or agreed with a public key other than
+ * the given one
+ * @param service
+ * @param encoded
+ * @param publicKey optional public key the shared secret must be agreed with
+ */
+export function decodeSharedSecret(service: KyberService, encoded: ByteArray, publicKey?: ByteArray): Uint8Array {
+    const encodedBytes = toBytes(encoded, "encoded");
+    if (encodedBytes.length !== KyberService.KyberEncodedSSBytes) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " encoded shared secret must be " +
+            KyberService.KyberEncodedSSBytes + " bytes, got " + encodedBytes.length,
+            service.getAlgorithm(), KyberService.KyberEncodedSSBytes, encodedBytes.length);
+    }
+    const [sharedSecret, keyId] = decode(service, typeSharedSecret, encodedBytes);
+    checkKeyId(service, keyId, publicKey, "shared secret");
+    return sharedSecret;
+}
+
+function header(service: KyberService, type: number): Uint8Array {
+    const r = new Uint8Array(headerBytes);
+    r.set(magic);
+    r[magic.length] = version;
+    r[magic.length + 1] = type;
+    const name = service.getVariant();
+    for (let i = 0; i < name.length; i++) {
+        r[magic.length + 4 + i] = name.charCodeAt(i);
+    }
+    return r;
+}
+
+function encode(service: KyberService, type: number, payload: Uint8Array, publicKey: Uint8Array): Uint8Array {
+    let lengths = new Uint8Array(0);
+    if (type !== typeSharedSecret) {
+        const parameterSet = 256 * service.paramsK;
+        const n = payload.length;
+        lengths = Uint8Array.of(parameterSet >> 8, parameterSet & 0xFF, n >>> 24, (n >> 16) & 0xFF, (n >> 8) & 0xFF, n & 0xFF);
+    }
+    const body = concatBytes(header(service, type), service.symmetric.hashG(publicKey), lengths, payload);
+    return concatBytes(body, service.symmetric.hashG(body));
+}
+
+/**
+ * Check the header and checksum of an encoding whose length has been
+ * checked, and return its payload and key ID
+ */
+function decode(service: KyberService, type: number, encoded: Uint8Array): [Uint8Array, Uint8Array] {
+    const algorithm = service.getAlgorithm();
+    const body = encoded.subarray(0, encoded.length - checksumBytes);
+    if (constantTimeCompare(service.symmetric.hashG(body), encoded.subarray(body.length)) !== 0) {
+        throw new InvalidKeyEncodingError(algorithm + " encoding has an invalid checksum", algorithm, checksumBytes, checksumBytes);
+    }
+
+    const expected = header(service, type);
+    if (constantTimeCompare(body.subarray(0, magic.length + 2), expected.subarray(0, magic.length + 2)) !== 0) {
+        throw new InvalidKeyEncodingError(algorithm + " encoding does not start with a version " + version + " header of type " + type,
+            algorithm, type, body[magic.length + 1]);
+    }
+    if (constantTimeCompare(body.subarray(magic.length + 2, headerBytes), expected.subarray(magic.length + 2)) !== 0) {
+        throw new InvalidKeyEncodingError(algorithm + " encoding has unknown flags or is not of the " + service.getVariant() + " variant",
+            algorithm, headerBytes, headerBytes);
+    }
+
+    const keyId = body.subarray(headerBytes, headerBytes + keyIdBytes);
+    let offset = headerBytes + keyIdBytes;
+    if (type !== typeSharedSecret) {
+        const parameterSet = (body[offset] << 8) | body[offset + 1];
+        const length = ((body[offset + 2] << 24) | (body[offset + 3] << 16) | (body[offset + 4] << 8) | body[offset + 5]) >>> 0;
+        offset += 6;
+        if (parameterSet !== 256 * service.paramsK) {
+            throw new ParameterSetMismatchError(algorithm + " encoding is for the " + parameterSet + " parameter set",
+                algorithm, body.length - offset, length, parameterSet);
+        }
+        if (length !== body.length - offset) {
+            throw new InvalidKeyEncodingError(algorithm + " encoding has a payload length of " + length + " instead of " +
+                (body.length - offset), algorithm, body.length - offset, length);
+        }
+    }
+    return [body.slice(offset), keyId.slice()];
+}
+
+function checkKeyId(service: KyberService, keyId: Uint8Array, publicKey: ByteArray | undefined, name: string): void {
+    if (publicKey !== undefined && constantTimeCompare(service.symmetric.hashG(toBytes(publicKey, "publicKey")), keyId) !== 0) {
+        throw new InvalidKeyEncodingError(service.getAlgorithm() + " encoded " + name + " belongs to another public key",
+            service.getAlgorithm(), keyIdBytes, keyIdBytes);
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * X25519 of RFC 7748 on raw 32-byte keys, using the platform implementation
+ */
+import { Buffer } from "buffer";
+import { createPrivateKey, createPublicKey, diffieHellman, KeyObject } from "crypto";
+
+/**
+ * Byte length of X25519 private keys, public keys and shared secrets
+ */
+export const x25519Bytes = 32;
+
+// DER prefixes of PKCS#8 and SubjectPublicKeyInfo X25519 keys, which are
+// followed by the raw key
+const pkcs8Prefix = Buffer.from("302e020100300506032b656e04220420", "hex");
+const spkiPrefix = Buffer.from("302a300506032b656e032100", "hex");
+
+/**
+ * Compute the public key X25519(privateKey, 9)
+ * @param privateKey
+ */
+export function x25519PublicKey(privateKey: Uint8Array): Uint8Array {
+    const spki = createPublicKey(privateKeyObject(privateKey)).export({ format: "der", type: "spki" });
+    return new Uint8Array(spki.subarray(spkiPrefix.length));
+}
+
+/**
+ * Compute the shared secret X25519(privateKey, publicKey), throwing if it is
+ * all zero because the public key is of low order
+ * @param privateKey
+ * @param publicKey
+ */
+export function x25519(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+    const publicKeyObject = createPublicKey({ key: Buffer.concat([spkiPrefix, publicKey]), format: "der", type: "spki" });
+    return new Uint8Array(diffieHellman({ privateKey: privateKeyObject(privateKey), publicKey: publicKeyObject }));
+}
+
+function privateKeyObject(privateKey: Uint8Array): KeyObject {
+    return createPrivateKey({ key: Buffer.concat([pkcs8Prefix, privateKey]), format: "der", type: "pkcs8" });
+}
@@ -0,0 +1,36 @@
+import { KeccakSponge } from "./keccak";
+
+/**
+ * Extendable-output function whose output is read block by block
+ */
+export interface XofReader {
+    /**
+     * Size in bytes of the blocks returned by `squeezeBlocks`
+     */
+    readonly blockSize: number;
+
+    /**
+     * Returns the next `blocks` blocks of output
+     * @param blocks
+     */
+    squeezeBlocks(blocks: number): Uint8Array;
+}
+
+/**
+ * SHAKE-128 reader over the concatenation of the given inputs, which squeezes
+ * each block forward from the sponge state
+ */
+export class Shake128Reader implements XofReader {
+    public readonly blockSize = 168;
+    private sponge = new KeccakSponge(168, 0x1F);
+
+    constructor(...inputs: Uint8Array[]) {
+        for (const input of inputs) {
+            this.sponge.absorb(input);
+        }
+    }
+
+    public squeezeBlocks(blocks: number): Uint8Array {
+        return this.sponge.squeeze(blocks * this.blockSize);
+    }
+}
@@ -1,7 +1,18 @@
-import { Buffer } from "buffer";
-import { SHA3, SHAKE } from "sha3";
-import { constantTimeCompare, intToByte, randomIntUpTo } from "../lib/utilities";
+import { ByteArray, concatBytes, constantTimeCompare, toBytes } from "../lib/utilities";
+import { ctCmov, ctEqual } from "../lib/ct";
+import { checkSelfTests, pairwiseConsistencyTest } from "../lib/self-test";
 import { Indcpa } from "../lib/indcpa";
+import { defaultRandomSource, RandomSource } from "../lib/random-source";
+import { shakeSymmetric, SymmetricPrimitives } from "../lib/symmetric";
+import {
+    checkInputLength,
+    checkSeedLength,
+    InvalidCiphertextLengthError,
+    InvalidPrivateKeyError,
+    InvalidPublicKeyError
+} from "../lib/errors";
+import { KyberPublicKey } from "../data/kyber-public-key";
+import { KyberPrivateKey } from "../data/kyber-private-key";
 
 /**
  * Abstract class for Kyber implementation
@@ -76,13 +87,13 @@ export abstract class KyberService {
     // Kyber1024PKBytes is a constant representing the byte length of public keys in Kyber-1024
     public static Kyber1024PKBytes = KyberService.paramsPolyvecBytesK1024 + KyberService.paramsSymBytes;
 
-    // KyberEncoded512PKBytes is a constant representing the byte length of encoded public keys in Kyber-512
+    // KyberEncoded512PKBytes is a constant representing the byte length of public keys in Kyber-512 in the wire encoding of `encodePublicKey`
     public static KyberEncoded512PKBytes = 967;
 
-    // KyberEncoded768PKBytes is a constant representing the byte length of encoded public keys in Kyber-768
+    // KyberEncoded768PKBytes is a constant representing the byte length of public keys in Kyber-768 in the wire encoding of `encodePublicKey`
     public static KyberEncoded768PKBytes = 1351;
 
-    // KyberEncoded1024PKBytes is a constant representing the byte length of encoded public keys in Kyber-1024
+    // KyberEncoded1024PKBytes is a constant representing the byte length of public keys in Kyber-1024 in the wire encoding of `encodePublicKey`
     public static KyberEncoded1024PKBytes = 1735;
 
     // Kyber512CTBytes is a constant representing the byte length of ciphertexts in Kyber-512
@@ -94,27 +105,38 @@ export abstract class KyberService {
     // Kyber1024CTBytes is a constant representing the byte length of ciphertexts in Kyber-1024
     public static Kyber1024CTBytes = KyberService.paramsPolyvecCompressedBytesK1024 + KyberService.paramsPolyCompressedBytesK1024;
 
-    // KyberEncoded512CTBytes is a constant representing the byte length of Encoded ciphertexts in Kyber-512
+    // KyberEncoded512CTBytes is a constant representing the byte length of ciphertexts in Kyber-512 in the wire encoding of `encodeCipherText`
     public static KyberEncoded512CTBytes = 935;
 
-    // KyberEncoded768CTBytes is a constant representing the byte length of Encoded ciphertexts in Kyber-768
+    // KyberEncoded768CTBytes is a constant representing the byte length of ciphertexts in Kyber-768 in the wire encoding of `encodeCipherText`
     public static KyberEncoded768CTBytes = 1255;
 
-    // KyberEncoded1024CTBytes is a constant representing the byte length of Encoded ciphertexts in Kyber-1024
+    // KyberEncoded1024CTBytes is a constant representing the byte length of ciphertexts in Kyber-1024 in the wire encoding of `encodeCipherText`
     public static KyberEncoded1024CTBytes = 1735;
 
     // KyberSSBytes is a constant representing the byte length of shared secrets in Kyber
     public static KyberSSBytes = 32;
 
-    // KyberEncodedSSBytes is a constant representing the byte length of encoded shared secrets in Kyber
+    // KyberSeedBytes is a constant representing the byte length of private key seeds (d || z)
+    public static KyberSeedBytes = 2 * KyberService.paramsSymBytes;
+
+    // KyberEncodedSSBytes is a constant representing the byte length of shared secrets in Kyber in the wire encoding of `encodeSharedSecret`
     public static KyberEncodedSSBytes = 193;
 
     /**
      * Default constructor that is called by the implementing Kyber service
      * @param paramsK
+     * @param randomSource source of key seeds and encapsulation coins
+     * @param domainSeparated FIPS 203 key generation seed expansion
+     * @param symmetric hash functions, XOF and PRF of the Kyber variant
      */
-    constructor(public paramsK: number) {
-        this.indcpa = new Indcpa(this.paramsK);
+    constructor(
+        public paramsK: number,
+        public randomSource: RandomSource = defaultRandomSource,
+        domainSeparated: boolean = false,
+        public symmetric: SymmetricPrimitives = shakeSymmetric
+    ) {
+        this.indcpa = new Indcpa(this.paramsK, domainSeparated, this.symmetric, this.getAlgorithm());
     }
 
     /**
@@ -122,22 +144,85 @@ export abstract class KyberService {
      */
     public abstract getAlgorithm(): string;
 
+    /**
+     * Name of the variant without the parameter set: `Kyber`, `Kyber-90s`
+     * or `ML-KEM`
+     */
+    public getVariant(): string {
+        return "Kyber";
+    }
+
     /**
      * Generate local Kyber Keys
      */
-    public generateKyberKeys(): [number[], number[]] {
-        const [pk, sk] = this.indcpa.indcpaKeyGen();
+    public generateKyberKeys(): [Uint8Array, Uint8Array] {
+        const [publicKey, privateKey] = this.generateKyberKeysFromSeed(this.generateKyberSeed());
+        pairwiseConsistencyTest(this, publicKey, privateKey);
+        return [publicKey, privateKey];
+    }
+
+    /**
+     * Generate a random 64-byte private key seed `d || z`, the compact
+     * private key format that `generateKyberKeysFromSeed` expands
+     */
+    public generateKyberSeed(): Uint8Array {
+        return concatBytes(this.randomSeed(), this.randomSeed());
+    }
 
-        const pkHash = new SHA3(256).update(Buffer.from(pk)).digest();
+    /**
+     * Generate the Kyber Keys determined by the given 64-byte private key
+     * seed `d || z`
+     * @param seed
+     */
+    public generateKyberKeysFromSeed(seed: ByteArray): [Uint8Array, Uint8Array] {
+        const seedBytes = toBytes(seed, "seed");
+        checkSeedLength(seedBytes, KyberService.KyberSeedBytes, this.getAlgorithm(), "private key seed");
+        return this.generateKyberKeysDeterministic(
+            seedBytes.subarray(0, KyberService.paramsSymBytes),
+            seedBytes.subarray(KyberService.paramsSymBytes)
+        );
+    }
 
-        const rnd = Buffer.alloc(KyberService.paramsSymBytes);
-        for (let i = 0; i < KyberService.paramsSymBytes; i++) {
-            rnd[i] = randomIntUpTo(256);
+    /**
+     * Return the expanded private key for a private key in either format:
+     * a 64-byte seed is expanded, an expanded private key is returned as is
+     * @param privateKey
+     */
+    public expandPrivateKey(privateKey: ByteArray): Uint8Array {
+        const privateKeyBytes = toBytes(privateKey, "privateKey");
+        if (privateKeyBytes.length === KyberService.KyberSeedBytes) {
+            return this.generateKyberKeysFromSeed(privateKeyBytes)[1];
         }
+        return privateKeyBytes;
+    }
+
+    /**
+     * Check that the given 64-byte seed expands to the given expanded
+     * private key
+     * @param seed
+     * @param privateKey
+     */
+    public validatePrivateKeySeed(seed: ByteArray, privateKey: ByteArray): boolean {
+        const privateKeyBytes = toBytes(privateKey, "privateKey");
+        const expanded = this.generateKyberKeysFromSeed(seed)[1];
+        return constantTimeCompare(expanded, privateKeyBytes) === 0;
+    }
 
-        sk.push(...pk);
-        sk.push(...pkHash);
-        sk.push(...rnd);
+    /**
+     * Generate the Kyber Keys determined by the given seeds
+     * @param d 32-byte key generation seed
+     * @param z 32-byte implicit rejection value
+     */
+    public generateKyberKeysDeterministic(d: ByteArray, z: ByteArray): [Uint8Array, Uint8Array] {
+        checkSelfTests(this);
+        const dBytes = this.checkSeed(d, "d");
+        const zBytes = this.checkSeed(z, "z");
+
+        const [pk, indcpaSk] = this.indcpa.indcpaKeyGen(dBytes);
+
+        const pkHash = this.symmetric.hashH(pk);
+
+        const sk = concatBytes(indcpaSk, pk, pkHash, zBytes);
 
         return [pk, sk];
     }
@@ -147,30 +232,60 @@ export abstract class KyberService {
      * public key
      * @param publicKey
      */
-    public encrypt(publicKey: number[]): number[][] {
-        const rnd = Buffer.alloc(KyberService.paramsSymBytes);
-        for (let i = 0; i < KyberService.paramsSymBytes; i++) {
-            rnd[i] = randomIntUpTo(256);
-        }
+    public encrypt(publicKey: ByteArray): [Uint8Array, Uint8Array] {
+        return this.encryptDeterministic(publicKey, this.randomSeed());
+    }
+
+    /**
+     * Generate the shared secret and cipher text determined by the given
+     * public key and message
+     * @param publicKey
+     * @param m 32-byte random message
+     */
+    public encryptDeterministic(publicKey: ByteArray, m: ByteArray): [Uint8Array, Uint8Array] {
+        return this.encapsulateDeterministic(this.parsePublicKey(publicKey), m);
+    }
+
+    /**
+     * Validate and decode the given public key once, for any number of
+     * encapsulations with `KyberPublicKey.encapsulate`
+     * @param publicKey
+     */
+    public parsePublicKey(publicKey: ByteArray): KyberPublicKey {
+        const publicKeyBytes = this.checkPublicKey(publicKey).slice();
+        return new KyberPublicKey(this, publicKeyBytes, this.symmetric.hashH(publicKeyBytes),
+            this.indcpa.indcpaDecodePublicKey(publicKeyBytes));
+    }
 
-        const rndHashBuffer = new SHA3(256).update(rnd).digest();
-        const rndHash = [...rndHashBuffer];
+    /**
+     * Generate a shared secret and cipher text from the given parsed
+     * public key
+     * @param publicKey
+     */
+    public encapsulate(publicKey: KyberPublicKey): [Uint8Array, Uint8Array] {
+        return this.encapsulateDeterministic(publicKey, this.randomSeed());
+    }
 
-        const pkh = new SHA3(256).update(Buffer.from(publicKey)).digest();
+    /**
+     * Generate the shared secret and cipher text determined by the given
+     * parsed public key and message
+     * @param publicKey
+     * @param m 32-byte random message
+     */
+    public encapsulateDeterministic(publicKey: KyberPublicKey, m: ByteArray): [Uint8Array, Uint8Array] {
+        this.checkParsedKey(publicKey);
+        const mBytes = this.checkSeed(m, "m");
 
-        const kr = new SHA3(512).update(rndHashBuffer).update(pkh).digest();
-        const kr1Buffer = kr.slice(0, KyberService.paramsSymBytes);
-        const kr2Buffer = kr.slice(KyberService.paramsSymBytes, kr.length);
-        const kr2 = [...kr2Buffer];
+        const rndHash = this.symmetric.hashH(mBytes);
 
-        const cipherText = this.indcpa.indcpaEncrypt(publicKey, rndHash, kr2);
-        const cipherTextHash = new SHA3(256).update(Buffer.from(cipherText)).digest();
+        const kr = this.symmetric.hashG(rndHash, publicKey.hash);
+        const kr1 = kr.subarray(0, KyberService.paramsSymBytes);
+        const kr2 = kr.subarray(KyberService.paramsSymBytes, kr.length);
 
-        const sharedSecretBuffer = new SHAKE(256)
-            .update(kr1Buffer)
-            .update(cipherTextHash)
-            .digest();
-        const sharedSecret = [...sharedSecretBuffer];
+        const cipherText = this.indcpa.indcpaEncryptDecoded(publicKey.indcpaPublicKey, rndHash, kr2);
+        const cipherTextHash = this.symmetric.hashH(cipherText);
+
+        const sharedSecret = new Uint8Array(this.symmetric.kdf(kr1, cipherTextHash));
 
         return [cipherText, sharedSecret];
     }
@@ -179,74 +294,232 @@ export abstract class KyberService {
      * Decrypt the given cipher text to create the same shared secret with
      * the local private key
      * @param cipherText
+     * @param privateKey expanded private key or 64-byte private key seed
+     */
+    public decrypt(cipherText: ByteArray, privateKey: ByteArray): Uint8Array {
+        const cipherTextBytes = this.checkCipherText(cipherText);
+        return this.decapsulate(this.parsePrivateKey(privateKey), cipherTextBytes);
+    }
+
+    /**
+     * Validate and decode the given private key once, for any number of
+     * decapsulations with `KyberPrivateKey.decapsulate`
+     * @param privateKey expanded private key or 64-byte private key seed
+     */
+    public parsePrivateKey(privateKey: ByteArray): KyberPrivateKey {
+        const privateKeyBytes = this.checkPrivateKey(this.expandPrivateKey(privateKey)).slice();
+        const [indcpaPrivateKey, indcpaPublicKey, pkHash, z] = this.splitPrivateKey(privateKeyBytes);
+        // the stored hash has been checked against the embedded public key
+        const publicKey = new KyberPublicKey(this, indcpaPublicKey, pkHash, this.indcpa.indcpaDecodePublicKey(indcpaPublicKey));
+        return new KyberPrivateKey(this, privateKeyBytes, this.indcpa.indcpaDecodePrivateKey(indcpaPrivateKey), publicKey, z);
+    }
+
+    /**
+     * Decrypt the given cipher text with a parsed private key to create the
+     * same shared secret
      * @param privateKey
+     * @param cipherText
+     */
+    public decapsulate(privateKey: KyberPrivateKey, cipherText: ByteArray): Uint8Array {
+        this.checkParsedKey(privateKey);
+        const cipherTextBytes = this.checkCipherText(cipherText);
+
+        const m = this.indcpa.indcpaDecryptDecoded(cipherTextBytes, privateKey.indcpaPrivateKey);
+
+        const kr = new Uint8Array(this.symmetric.hashG(m, privateKey.publicKey.hash));
+        const kr1 = kr.subarray(0, KyberService.paramsSymBytes);
+        const kr2 = kr.subarray(KyberService.paramsSymBytes, kr.length);
+
+        // IND-CPA encrypt
+        const cmp = this.indcpa.indcpaEncryptDecoded(privateKey.publicKey.indcpaPublicKey, m, kr2);
+
+        // replace K' with z if the re-encryption does not match
+        ctCmov(kr1, privateKey.z, 1 - ctEqual(cipherTextBytes, cmp));
+
+        const cipherTextHash = this.symmetric.hashH(cipherTextBytes);
+
+        return new Uint8Array(this.symmetric.kdf(kr1, cipherTextHash));
+    }
+
+    /**
+     * Byte length of public keys for this parameter set
      */
-    public decrypt(cipherText: number[], privateKey: number[]): number[] {
-        let startIndex = 0;
-        let endIndex = 0;
+    public publicKeyBytes(): number {
         if (this.paramsK === 2) {
-            endIndex = KyberService.paramsIndcpaSecretKeyBytesK512;
+            return KyberService.Kyber512PKBytes;
         } else if (this.paramsK === 3) {
-            endIndex = KyberService.paramsIndcpaSecretKeyBytesK768;
-        } else {
-            endIndex = KyberService.paramsIndcpaSecretKeyBytesK1024;
+            return KyberService.Kyber768PKBytes;
         }
+        return KyberService.Kyber1024PKBytes;
+    }
 
-        const indcpaPrivateKey = privateKey.slice(startIndex, endIndex);
-        startIndex = endIndex;
+    /**
+     * Byte length of private keys for this parameter set
+     */
+    public privateKeyBytes(): number {
         if (this.paramsK === 2) {
-            endIndex += KyberService.paramsIndcpaPublicKeyBytesK512;
+            return KyberService.Kyber512SKBytes;
         } else if (this.paramsK === 3) {
-            endIndex += KyberService.paramsIndcpaPublicKeyBytesK768;
-        } else {
-            endIndex += KyberService.paramsIndcpaPublicKeyBytesK1024;
+            return KyberService.Kyber768SKBytes;
         }
+        return KyberService.Kyber1024SKBytes;
+    }
 
-        const indcpaPublicKey = privateKey.slice(startIndex, endIndex);
-        startIndex = endIndex;
-        endIndex += KyberService.paramsSymBytes;
+    /**
+     * Byte length of cipher texts for this parameter set
+     */
+    public cipherTextBytes(): number {
+        if (this.paramsK === 2) {
+            return KyberService.Kyber512CTBytes;
+        } else if (this.paramsK === 3) {
+            return KyberService.Kyber768CTBytes;
+        }
+        return KyberService.Kyber1024CTBytes;
+    }
 
-        const pkHash = privateKey.slice(startIndex, endIndex);
-        startIndex = endIndex;
-        endIndex += KyberService.paramsSymBytes;
+    /**
+     * Check that the public key has the right length and that every
+     * coefficient of its encoded polynomial vector is reduced modulo q, so
+     * that it re-encodes to the same bytes (the FIPS 203 modulus check)
+     * @param publicKey
+     */
+    public validatePublicKey(publicKey: ByteArray): boolean {
+        const publicKeyBytes = toBytes(publicKey, "publicKey");
+        if (publicKeyBytes.length !== this.publicKeyBytes()) {
+            return false;
+        }
+        const poly = this.indcpa.poly;
+        for (let i = 0; i < this.paramsK; i++) {
+            const encoded = publicKeyBytes.subarray(i * KyberService.paramsPolyBytes, (i + 1) * KyberService.paramsPolyBytes);
+            if (constantTimeCompare(poly.polyToBytes(poly.polyFromBytes(encoded)), encoded) !== 0) {
+                return false;
+            }
+        }
+        return true;
+    }
 
-        const m = this.indcpa.indcpaDecrypt(cipherText, indcpaPrivateKey);
+    /**
+     * Check that the private key has the right length and that the public
+     * key hash it stores matches H of the public key it stores
+     * @param privateKey
+     */
+    public validatePrivateKey(privateKey: ByteArray): boolean {
+        const privateKeyBytes = toBytes(privateKey, "privateKey");
+        if (privateKeyBytes.length !== this.privateKeyBytes()) {
+            return false;
+        }
+        const [, indcpaPublicKey, pkHash] = this.splitPrivateKey(privateKeyBytes);
+        return constantTimeCompare(this.symmetric.hashH(indcpaPublicKey), pkHash) === 0;
+    }
 
-        const krBuf = new SHA3(512)
-            .update(Buffer.from(m))
-            .update(Buffer.from(pkHash))
-            .digest();
-        const kr = [...krBuf];
-        const kr1 = krBuf.slice(0, KyberService.paramsSymBytes);
-        const kr2Buf = krBuf.slice(KyberService.paramsSymBytes, kr.length);
-        const kr2 = [...kr2Buf];
+    /**
+     * Return a copy of the public key stored in the given private key
+     * @param privateKey
+     */
+    public publicKeyFromPrivateKey(privateKey: ByteArray): Uint8Array {
+        const privateKeyBytes = toBytes(privateKey, "privateKey");
+        checkInputLength(privateKeyBytes, [KyberService.Kyber512SKBytes, KyberService.Kyber768SKBytes, KyberService.Kyber1024SKBytes],
+            this.paramsK, this.getAlgorithm(), "private key", InvalidPrivateKeyError);
+        return this.splitPrivateKey(privateKeyBytes)[1].slice();
+    }
 
-        // IND-CPA encrypt
-        const cmp = this.indcpa.indcpaEncrypt(indcpaPublicKey, m, kr2);
-        const fail = constantTimeCompare(cipherText, cmp);
+    /**
+     * Convert the public key to bytes, throwing if it is invalid
+     * @param publicKey
+     */
+    protected checkPublicKey(publicKey: ByteArray): Uint8Array {
+        const publicKeyBytes = toBytes(publicKey, "publicKey");
+        checkInputLength(publicKeyBytes, [KyberService.Kyber512PKBytes, KyberService.Kyber768PKBytes, KyberService.Kyber1024PKBytes],
+            this.paramsK, this.getAlgorithm(), "public key", InvalidPublicKeyError);
+        if (!this.validatePublicKey(publicKeyBytes)) {
+            throw new InvalidPublicKeyError(this.getAlgorithm() + " public key has coefficients that are not reduced modulo q",
+                this.getAlgorithm(), publicKeyBytes.length, publicKeyBytes.length);
+        }
+        return publicKeyBytes;
+    }
 
-        let kyberSKBytes = 0;
-        if (this.paramsK === 2) {
-            kyberSKBytes = KyberService.Kyber512SKBytes;
-        } else if (this.paramsK === 3) {
-            kyberSKBytes = KyberService.Kyber768SKBytes;
-        } else {
-            kyberSKBytes = KyberService.Kyber1024SKBytes;
+    /**
+     * Throw if the parsed key was not parsed by a service of this algorithm,
+     * or if enabled self-tests have failed
+     * @param key
+     */
+    protected checkParsedKey(key: KyberPublicKey | KyberPrivateKey): void {
+        checkSelfTests(this);
+        const algorithm = key.service.getAlgorithm();
+        if (algorithm === this.getAlgorithm()) {
+            return;
         }
+        if (key instanceof KyberPublicKey) {
+            throw new InvalidPublicKeyError(this.getAlgorithm() + " cannot encapsulate to a " + algorithm + " public key",
+                this.getAlgorithm(), this.publicKeyBytes(), key.bytes.length);
+        }
+        throw new InvalidPrivateKeyError(this.getAlgorithm() + " cannot decapsulate with a " + algorithm + " private key",
+            this.getAlgorithm(), this.privateKeyBytes(), key.bytes.length);
+    }
 
-        let index = privateKey.length - KyberService.paramsSymBytes;
-        for (let i = 0; i < KyberService.paramsSymBytes; i++) {
-            kr[i] = intToByte(kr[i] ^ ((fail & 0xFF) & (kr[i] ^ privateKey[index])));
-            index++;
+    /**
+     * Convert the private key to bytes, throwing if it is invalid
+     * @param privateKey
+     */
+    protected checkPrivateKey(privateKey: ByteArray): Uint8Array {
+        const privateKeyBytes = toBytes(privateKey, "privateKey");
+        checkInputLength(privateKeyBytes, [KyberService.Kyber512SKBytes, KyberService.Kyber768SKBytes, KyberService.Kyber1024SKBytes],
+            this.paramsK, this.getAlgorithm(), "private key", InvalidPrivateKeyError);
+        if (!this.validatePrivateKey(privateKeyBytes)) {
+            throw new InvalidPrivateKeyError(this.getAlgorithm() + " private key does not match its stored public key hash",
+                this.getAlgorithm(), privateKeyBytes.length, privateKeyBytes.length);
         }
+        return privateKeyBytes;
+    }
 
-        const cipherTextHash = new SHA3(256).update(Buffer.from(cipherText)).digest();
-        const sharedSecretBuffer = new SHAKE(256)
-            .update(kr1)
-            .update(cipherTextHash)
-            .digest();
-        const sharedSecret = [...sharedSecretBuffer];
+    /**
+     * Convert the cipher text to bytes, throwing if its length is wrong
+     * @param cipherText
+     */
+    protected checkCipherText(cipherText: ByteArray): Uint8Array {
+        const cipherTextBytes = toBytes(cipherText, "cipherText");
+        checkInputLength(cipherTextBytes, [KyberService.Kyber512CTBytes, KyberService.Kyber768CTBytes, KyberService.Kyber1024CTBytes],
+            this.paramsK, this.getAlgorithm(), "cipher text", InvalidCiphertextLengthError);
+        return cipherTextBytes;
+    }
+
+    /**
+     * Check that the given seed is paramsSymBytes long
+     * @param seed
+     * @param name
+     * @return the seed as a Uint8Array
+     */
+    protected checkSeed(seed: ByteArray, name: string): Uint8Array {
+        const bytes = toBytes(seed, name);
+        checkSeedLength(bytes, KyberService.paramsSymBytes, this.getAlgorithm(), name);
+        return bytes;
+    }
 
-        return sharedSecret;
+    /**
+     * Split a private key into its indcpa private key, indcpa public key,
+     * public key hash and implicit rejection value `z`
+     *
+     * The returned arrays are views into the private key.
+     * @param privateKey
+     */
+    protected splitPrivateKey(privateKey: Uint8Array): [Uint8Array, Uint8Array, Uint8Array, Uint8Array] {
+        const polyvecBytes = this.paramsK * KyberService.paramsPolyBytes;
+        const pkHashIndex = 2 * polyvecBytes + KyberService.paramsSymBytes;
+        const zIndex = pkHashIndex + KyberService.paramsSymBytes;
+        return [
+            privateKey.subarray(0, polyvecBytes),
+            privateKey.subarray(polyvecBytes, pkHashIndex),
+            privateKey.subarray(pkHashIndex, zIndex),
+            privateKey.subarray(zIndex, zIndex + KyberService.paramsSymBytes)
+        ];
+    }
+
+    /**
+     * Draw a fresh 32-byte seed from the random source
+     */
+    protected randomSeed(): Uint8Array {
+        const seed = new Uint8Array(KyberService.paramsSymBytes);
+        this.randomSource.fill(seed);
+        return seed;
     }
 }
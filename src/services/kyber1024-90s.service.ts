@@ -0,0 +1,32 @@
+import { KyberService } from "./kyber.service";
+import { defaultRandomSource, RandomSource } from "../lib/random-source";
+import { aesSymmetric } from "../lib/symmetric-90s";
+
+/**
+ * Kyber KEM 1024-90s implementation, using AES-256-CTR and SHA-2 in place of
+ * SHAKE and SHA-3
+ */
+export class Kyber1024_90sService extends KyberService {
+
+    // Indicates the Kyber version to the rest of the algorithm
+    private static paramsK = 4;
+
+    constructor(randomSource: RandomSource = defaultRandomSource) {
+        super(Kyber1024_90sService.paramsK, randomSource, false, aesSymmetric);
+    }
+
+    /**
+     * String representation of the Kyber version
+     */
+    public getAlgorithm() {
+        return "Kyber1024-90s";
+    }
+
+    /**
+     * Name of the variant without the parameter set
+     */
+    public getVariant() {
+        return "Kyber-90s";
+    }
+
+}
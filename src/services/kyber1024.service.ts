@@ -1,4 +1,5 @@
 import { KyberService } from "./kyber.service";
+import { defaultRandomSource, RandomSource } from "../lib/random-source";
 
 /**
  * Kyber KEM 1024 implementation
@@ -8,8 +9,8 @@ export class Kyber1024Service extends KyberService {
     // Indicates the Kyber version to the rest of the algorithm
     private static paramsK = 4;
 
-    constructor() {
-        super(Kyber1024Service.paramsK);
+    constructor(randomSource: RandomSource = defaultRandomSource) {
+        super(Kyber1024Service.paramsK, randomSource);
     }
 
     /**
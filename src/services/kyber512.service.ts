@@ -1,4 +1,5 @@
 import { KyberService } from "./kyber.service";
+import { defaultRandomSource, RandomSource } from "../lib/random-source";
 
 /**
  * Kyber KEM 512 implementation
@@ -8,8 +9,8 @@ export class Kyber512Service extends KyberService {
     // Indicates the Kyber version to the rest of the algorithm
     private static paramsK = 2;
 
-    constructor() {
-        super(Kyber512Service.paramsK);
+    constructor(randomSource: RandomSource = defaultRandomSource) {
+        super(Kyber512Service.paramsK, randomSource);
     }
 
     /**
@@ -1,4 +1,5 @@
 import { KyberService } from "./kyber.service";
+import { defaultRandomSource, RandomSource } from "../lib/random-source";
 
 /**
  * Kyber KEM 768 implementation
@@ -8,8 +9,8 @@ export class Kyber768Service extends KyberService {
     // Indicates the Kyber version to the rest of the algorithm
     private static paramsK = 3;
 
-    constructor() {
-        super(Kyber768Service.paramsK);
+    constructor(randomSource: RandomSource = defaultRandomSource) {
+        super(Kyber768Service.paramsK, randomSource);
     }
 
     /**
@@ -0,0 +1,92 @@
+import { ByteArray } from "../lib/utilities";
+import { ctEqual, ctSelect } from "../lib/ct";
+import { defaultRandomSource, RandomSource } from "../lib/random-source";
+import { KyberService } from "./kyber.service";
+import { KyberPublicKey } from "../data/kyber-public-key";
+import { KyberPrivateKey } from "../data/kyber-private-key";
+
+/**
+ * Abstract class for the FIPS 203 ML-KEM implementation
+ *
+ * Key generation, encapsulation and decapsulation follow the final standard
+ * rather than the round-3 Kyber transform, so the resulting keys, cipher texts
+ * and shared secrets are not interchangeable with the Kyber services.
+ */
+export abstract class MlKemService extends KyberService {
+
+    /**
+     * Default constructor that is called by the implementing ML-KEM service
+     * @param paramsK
+     * @param randomSource
+     */
+    constructor(paramsK: number, randomSource: RandomSource = defaultRandomSource) {
+        super(paramsK, randomSource, true);
+    }
+
+    /**
+     * Name of the variant without the parameter set
+     */
+    public getVariant(): string {
+        return "ML-KEM";
+    }
+
+    /**
+     * Generate a random 64-byte private key seed `d || z`
+     *
+     * d and z are drawn with a single 64-byte request, matching the
+     * reference implementation's use of `randombytes`
+     */
+    public generateKyberSeed(): Uint8Array {
+        const seed = new Uint8Array(KyberService.KyberSeedBytes);
+        this.randomSource.fill(seed);
+        return seed;
+    }
+
+    /**
+     * Generate the shared secret and cipher text determined by the given
+     * parsed public key and message
+     * @param publicKey
+     * @param m 32-byte random message
+     */
+    public encapsulateDeterministic(publicKey: KyberPublicKey, m: ByteArray): [Uint8Array, Uint8Array] {
+        this.checkParsedKey(publicKey);
+        const mBytes = this.checkSeed(m, "m");
+
+        // (K, r) = G(m || H(ek))
+        const kr = this.symmetric.hashG(mBytes, publicKey.hash);
+        const sharedSecret = new Uint8Array(kr.subarray(0, KyberService.paramsSymBytes));
+        const coins = kr.subarray(KyberService.paramsSymBytes, kr.length);
+
+        const cipherText = this.indcpa.indcpaEncryptDecoded(publicKey.indcpaPublicKey, mBytes, coins);
+
+        return [cipherText, sharedSecret];
+    }
+
+    /**
+     * Decrypt the given cipher text with a parsed private key to create the
+     * same shared secret
+     *
+     * An invalid cipher text yields the implicit rejection key J(z || c)
+     * @param privateKey
+     * @param cipherText
+     */
+    public decapsulate(privateKey: KyberPrivateKey, cipherText: ByteArray): Uint8Array {
+        this.checkParsedKey(privateKey);
+        const cipherTextBytes = this.checkCipherText(cipherText);
+
+        const m = this.indcpa.indcpaDecryptDecoded(cipherTextBytes, privateKey.indcpaPrivateKey);
+
+        // (K', r') = G(m' || h)
+        const kr = this.symmetric.hashG(m, privateKey.publicKey.hash);
+        const coins = kr.subarray(KyberService.paramsSymBytes, kr.length);
+
+        // K = J(z || c), which is SHAKE-256 with 32 bytes of output like
+        // the round-3 KDF
+        const rejectionKey = this.symmetric.kdf(privateKey.z, cipherTextBytes);
+
+        // IND-CPA encrypt
+        const cmp = this.indcpa.indcpaEncryptDecoded(privateKey.publicKey.indcpaPublicKey, m, coins);
+        const fail = 1 - ctEqual(cipherTextBytes, cmp);
+        return ctSelect(fail, kr.subarray(0, KyberService.paramsSymBytes), rejectionKey);
+    }
+}
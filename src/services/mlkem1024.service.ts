@@ -0,0 +1,22 @@
+import { MlKemService } from "./mlkem.service";
+import { defaultRandomSource, RandomSource } from "../lib/random-source";
+
+/**
+ * ML-KEM-1024 implementation
+ */
+export class MlKem1024Service extends MlKemService {
+
+    // Indicates the ML-KEM parameter set to the rest of the algorithm
+    private static paramsK = 4;
+
+    constructor(randomSource: RandomSource = defaultRandomSource) {
+        super(MlKem1024Service.paramsK, randomSource);
+    }
+
+    /**
+     * String representation of the ML-KEM parameter set
+     */
+    public getAlgorithm() {
+        return "ML-KEM-1024";
+    }
+}
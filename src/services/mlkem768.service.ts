@@ -0,0 +1,22 @@
+import { MlKemService } from "./mlkem.service";
+import { defaultRandomSource, RandomSource } from "../lib/random-source";
+
+/**
+ * ML-KEM-768 implementation
+ */
+export class MlKem768Service extends MlKemService {
+
+    // Indicates the ML-KEM parameter set to the rest of the algorithm
+    private static paramsK = 3;
+
+    constructor(randomSource: RandomSource = defaultRandomSource) {
+        super(MlKem768Service.paramsK, randomSource);
+    }
+
+    /**
+     * String representation of the ML-KEM parameter set
+     */
+    public getAlgorithm() {
+        return "ML-KEM-768";
+    }
+}
@@ -0,0 +1,225 @@
+import { Buffer } from "buffer";
+import { SHAKE } from "sha3";
+import {
+    checkSeedLength,
+    InvalidCiphertextError,
+    InvalidCiphertextLengthError,
+    InvalidPrivateKeyError,
+    InvalidPublicKeyError,
+    KyberError
+} from "../lib/errors";
+import { defaultRandomSource, RandomSource } from "../lib/random-source";
+import { pairwiseConsistencyTest } from "../lib/self-test";
+import { ByteArray, concatBytes, toBytes } from "../lib/utilities";
+import { x25519, x25519Bytes, x25519PublicKey } from "../lib/x25519";
+import { KyberService } from "./kyber.service";
+import { MlKem768Service } from "./mlkem768.service";
+
+/**
+ * X-Wing hybrid KEM of X25519 and ML-KEM-768
+ *
+ * Both KEMs run side by side and their shared secrets are combined as
+ * SHA3-256(ss_M || ss_X || ct_X || pk_X || label), so the shared secret stays
+ * secure while either KEM is. The ML-KEM shared secret already binds its own
+ * cipher text and public key, the combiner binds the X25519 ones.
+ *
+ * Public keys are pk_M || pk_X, cipher texts ct_M || ct_X and private keys
+ * a 32-byte seed.
+ */
+export class XWingService {
+
+    // XWingPKBytes is a constant representing the byte length of public keys in X-Wing
+    public static XWingPKBytes = KyberService.Kyber768PKBytes + x25519Bytes;
+
+    // XWingSKBytes is a constant representing the byte length of private keys (seeds) in X-Wing
+    public static XWingSKBytes = 32;
+
+    // XWingCTBytes is a constant representing the byte length of ciphertexts in X-Wing
+    public static XWingCTBytes = KyberService.Kyber768CTBytes + x25519Bytes;
+
+    // XWingSSBytes is a constant representing the byte length of shared secrets in X-Wing
+    public static XWingSSBytes = 32;
+
+    // XWingEncapsSeedBytes is a constant representing the byte length of the randomness of an encapsulation
+    public static XWingEncapsSeedBytes = 64;
+
+    /**
+     * The combiner's domain separation label, the ASCII art \./ /^\
+     */
+    public static XWingLabel = Uint8Array.of(0x5c, 0x2e, 0x2f, 0x2f, 0x5e, 0x5c);
+
+    public readonly mlKem: MlKem768Service;
+
+    /**
+     * @param randomSource source of key seeds and encapsulation randomness
+     */
+    constructor(public randomSource: RandomSource = defaultRandomSource) {
+        this.mlKem = new MlKem768Service(randomSource);
+    }
+
+    /**
+     * Return a string representation of the algorithm
+     */
+    public getAlgorithm(): string {
+        return "X-Wing";
+    }
+
+    /**
+     * Generate a public key and 32-byte private key, running the pairwise
+     * consistency test on the ML-KEM key pair when self-tests are enabled
+     */
+    public generateKeys(): [Uint8Array, Uint8Array] {
+        const privateKey = this.random(XWingService.XWingSKBytes);
+        const [mlKemPrivateKey, x25519PrivateKey] = this.expandPrivateKey(privateKey);
+        const [mlKemPublicKey, mlKemExpandedPrivateKey] = this.mlKem.generateKyberKeysFromSeed(mlKemPrivateKey);
+        pairwiseConsistencyTest(this.mlKem, mlKemPublicKey, mlKemExpandedPrivateKey);
+        return [concatBytes(mlKemPublicKey, x25519PublicKey(x25519PrivateKey)), privateKey];
+    }
+
+    /**
+     * Generate the public key of the given 32-byte private key, returned
+     * with a copy of it
+     * @param privateKey
+     */
+    public generateKeysFromSeed(privateKey: ByteArray): [Uint8Array, Uint8Array] {
+        const privateKeyBytes = this.checkPrivateKey(privateKey);
+        const [mlKemPrivateKey, x25519PrivateKey] = this.expandPrivateKey(privateKeyBytes);
+        const mlKemPublicKey = this.mlKem.generateKyberKeysFromSeed(mlKemPrivateKey)[0];
+        return [concatBytes(mlKemPublicKey, x25519PublicKey(x25519PrivateKey)), privateKeyBytes.slice()];
+    }
+
+    /**
+     * Return the public key of the given private key
+     * @param privateKey
+     */
+    public publicKeyFromPrivateKey(privateKey: ByteArray): Uint8Array {
+        return this.generateKeysFromSeed(privateKey)[0];
+    }
+
+    /**
+     * Generate a shared secret and cipher text from the given public key
+     * @param publicKey
+     */
+    public encrypt(publicKey: ByteArray): [Uint8Array, Uint8Array] {
+        return this.encryptDeterministic(publicKey, this.random(XWingService.XWingEncapsSeedBytes));
+    }
+
+    /**
+     * Generate the shared secret and cipher text determined by the given
+     * public key and randomness
+     * @param publicKey
+     * @param seed 64 bytes: the ML-KEM message followed by the ephemeral
+     * X25519 private key
+     */
+    public encryptDeterministic(publicKey: ByteArray, seed: ByteArray): [Uint8Array, Uint8Array] {
+        const publicKeyBytes = toBytes(publicKey, "publicKey");
+        this.checkLength(publicKeyBytes, XWingService.XWingPKBytes, "public key", InvalidPublicKeyError);
+        const seedBytes = toBytes(seed, "seed");
+        checkSeedLength(seedBytes, XWingService.XWingEncapsSeedBytes, this.getAlgorithm(), "encapsulation seed");
+
+        const mlKemPublicKey = publicKeyBytes.subarray(0, KyberService.Kyber768PKBytes);
+        const x25519PublicKeyBytes = publicKeyBytes.subarray(KyberService.Kyber768PKBytes);
+        const ephemeralPrivateKey = seedBytes.subarray(32);
+
+        const [mlKemCipherText, mlKemSharedSecret] = this.mlKem.encryptDeterministic(mlKemPublicKey, seedBytes.subarray(0, 32));
+        const x25519CipherText = x25519PublicKey(ephemeralPrivateKey);
+        const x25519SharedSecret = this.x25519(ephemeralPrivateKey, x25519PublicKeyBytes, "public key", InvalidPublicKeyError);
+
+        const sharedSecret = this.combine(mlKemSharedSecret, x25519SharedSecret, x25519CipherText, x25519PublicKeyBytes);
+        return [concatBytes(mlKemCipherText, x25519CipherText), sharedSecret];
+    }
+
+    /**
+     * Decrypt the given cipher text to create the same shared secret with
+     * the local private key
+     * @param cipherText
+     * @param privateKey
+     */
+    public decrypt(cipherText: ByteArray, privateKey: ByteArray): Uint8Array {
+        const cipherTextBytes = toBytes(cipherText, "cipherText");
+        this.checkLength(cipherTextBytes, XWingService.XWingCTBytes, "cipher text", InvalidCiphertextLengthError);
+        const [mlKemPrivateKey, x25519PrivateKey] = this.expandPrivateKey(this.checkPrivateKey(privateKey));
+
+        const x25519CipherText = cipherTextBytes.subarray(KyberService.Kyber768CTBytes);
+        const mlKemSharedSecret = this.mlKem.decrypt(cipherTextBytes.subarray(0, KyberService.Kyber768CTBytes), mlKemPrivateKey);
+        const x25519SharedSecret = this.x25519(x25519PrivateKey, x25519CipherText, "cipher text", InvalidCiphertextError);
+
+        return this.combine(mlKemSharedSecret, x25519SharedSecret, x25519CipherText, x25519PublicKey(x25519PrivateKey));
+    }
+
+    /**
+     * Byte length of public keys
+     */
+    public publicKeyBytes(): number {
+        return XWingService.XWingPKBytes;
+    }
+
+    /**
+     * Byte length of private keys
+     */
+    public privateKeyBytes(): number {
+        return XWingService.XWingSKBytes;
+    }
+
+    /**
+     * Byte length of cipher texts
+     */
+    public cipherTextBytes(): number {
+        return XWingService.XWingCTBytes;
+    }
+
+    /**
+     * Expand the private key with SHAKE-256 into the 64-byte ML-KEM-768
+     * private key seed and the X25519 private key
+     * @param privateKey
+     */
+    private expandPrivateKey(privateKey: Uint8Array): [Uint8Array, Uint8Array] {
+        const expanded = new Uint8Array(new SHAKE(256)
+            .update(Buffer.from(privateKey))
+            .digest({ format: "binary", buffer: Buffer.alloc(KyberService.KyberSeedBytes + x25519Bytes) }));
+        return [expanded.subarray(0, KyberService.KyberSeedBytes), expanded.subarray(KyberService.KyberSeedBytes)];
+    }
+
+    /**
+     * The X-Wing combiner
+     */
+    private combine(mlKemSharedSecret: Uint8Array, x25519SharedSecret: Uint8Array, x25519CipherText: Uint8Array,
+                    x25519PublicKeyBytes: Uint8Array): Uint8Array {
+        return new Uint8Array(this.mlKem.symmetric.hashH(mlKemSharedSecret, x25519SharedSecret, x25519CipherText,
+            x25519PublicKeyBytes, XWingService.XWingLabel));
+    }
+
+    /**
+     * X25519, throwing the given error if the public key or cipher text is a
+     * low-order point whose shared secret is all zero
+     */
+    private x25519(privateKey: Uint8Array, publicKey: Uint8Array, name: string,
+                   error: new (message: string, algorithm: string, expected: number, actual: number) => KyberError): Uint8Array {
+        try {
+            return x25519(privateKey, publicKey);
+        } catch (e) {
+            throw new error(this.getAlgorithm() + " " + name + " has an X25519 part of low order",
+                this.getAlgorithm(), x25519Bytes, publicKey.length);
+        }
+    }
+
+    private checkPrivateKey(privateKey: ByteArray): Uint8Array {
+        const privateKeyBytes = toBytes(privateKey, "privateKey");
+        this.checkLength(privateKeyBytes, XWingService.XWingSKBytes, "private key", InvalidPrivateKeyError);
+        return privateKeyBytes;
+    }
+
+    private checkLength(bytes: Uint8Array, expected: number, name: string,
+                        error: new (message: string, algorithm: string, expected: number, actual: number) => KyberError): void {
+        if (bytes.length !== expected) {
+            throw new error(this.getAlgorithm() + " " + name + " must be " + expected + " bytes, got " + bytes.length,
+                this.getAlgorithm(), expected, bytes.length);
+        }
+    }
+
+    private random(length: number): Uint8Array {
+        const bytes = new Uint8Array(length);
+        this.randomSource.fill(bytes);
+        return bytes;
+    }
+}
@@ -0,0 +1,55 @@
+import 'jest';
+import { toBytes, toNumberArray } from "../src/lib/utilities";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { Kyber1024Handshake } from "../src/index";
+
+function isPlainUint8Array(value: unknown): boolean {
+    return Object.getPrototypeOf(value) === Uint8Array.prototype;
+}
+
+describe('Uint8Array public API', () => {
+    it('toBytes passes Uint8Array through and converts number[]', () => {
+        const bytes = new Uint8Array([1, 2, 3]);
+        expect(toBytes(bytes)).toBe(bytes);
+        expect(toBytes([0, 128, 255])).toEqual(new Uint8Array([0, 128, 255]));
+        expect(toNumberArray(new Uint8Array([0, 128, 255]))).toEqual([0, 128, 255]);
+    });
+    it('toBytes rejects values that are not bytes', () => {
+        expect(() => toBytes([0, 256])).toThrow(RangeError);
+        expect(() => toBytes([-1])).toThrow(RangeError);
+        expect(() => toBytes([1.5])).toThrow(RangeError);
+        expect(() => toBytes([NaN], "cipherText")).toThrow("cipherText[0]");
+    });
+    it('Services return plain Uint8Arrays', () => {
+        const kyber768 = new Kyber768Service();
+        const [publicKey, privateKey] = kyber768.generateKyberKeys();
+        const [cipherText, sharedSecret] = kyber768.encrypt(publicKey);
+        const decrypted = kyber768.decrypt(cipherText, privateKey);
+
+        for (const value of [publicKey, privateKey, cipherText, sharedSecret, decrypted]) {
+            expect(isPlainUint8Array(value)).toBe(true);
+        }
+        expect(decrypted).toEqual(sharedSecret);
+    });
+    it('Services accept number[] keys and cipher texts', () => {
+        const mlKem512 = new MlKem512Service();
+        const [publicKey, privateKey] = mlKem512.generateKyberKeys();
+        const [cipherText, sharedSecret] = mlKem512.encrypt(toNumberArray(publicKey));
+
+        expect(mlKem512.decrypt(toNumberArray(cipherText), toNumberArray(privateKey))).toEqual(sharedSecret);
+        expect(() => mlKem512.decrypt([...toNumberArray(cipherText).slice(1), 256], privateKey)).toThrow(RangeError);
+    });
+    it('Handshake exposes Uint8Arrays and accepts number[]', () => {
+        const bobHandshake = new Kyber1024Handshake();
+        const aliceHandshake = new Kyber1024Handshake();
+
+        const cipherText = aliceHandshake.generateCipherTextAndSharedSecret(toNumberArray(bobHandshake.publicKey));
+        const sharedSecret = bobHandshake.generateRemoteSharedSecret(toNumberArray(cipherText));
+
+        expect(isPlainUint8Array(bobHandshake.publicKey)).toBe(true);
+        expect(isPlainUint8Array(aliceHandshake.remotePublicKey)).toBe(true);
+        expect(isPlainUint8Array(bobHandshake.remoteCipherText)).toBe(true);
+        expect(sharedSecret).toEqual(aliceHandshake.sharedSecret);
+    });
+});
@@ -0,0 +1,76 @@
+import 'jest';
+import { compressCoefficient } from "../src/lib/byte-ops";
+import { Poly } from "../src/lib/poly";
+
+const q = 3329;
+
+/**
+ * The division based compression the multiply-and-shift formulation replaced
+ */
+function divisionCompress(x: number, d: number): number {
+    if (d === 11) {
+        return (((x << 11) + (q >> 1)) / q) & 0x7ff;
+    }
+    return (((x << d) + q / 2) / q) & ((1 << d) - 1);
+}
+
+/**
+ * Polynomials holding every coefficient 0..q, with the last one padded by q
+ */
+function allCoefficients(): Int16Array[] {
+    const polys: Int16Array[] = [];
+    for (let x = 0; x <= q; x += 256) {
+        const p = new Int16Array(256);
+        for (let i = 0; i < 256; i++) {
+            p[i] = Math.min(x + i, q);
+        }
+        polys.push(p);
+    }
+    return polys;
+}
+
+describe("Coefficient compression", () => {
+    for (const d of [1, 4, 5, 10, 11]) {
+        it(`matches the division for every coefficient when compressing to ${d} bits`, () => {
+            for (let x = 0; x <= q; x++) {
+                expect(compressCoefficient(x, d)).toBe(divisionCompress(x, d));
+            }
+        });
+    }
+
+    it("rejects unsupported bit lengths", () => {
+        expect(() => compressCoefficient(0, 12)).toThrow();
+    });
+
+    for (const paramsK of [2, 3, 4]) {
+        it(`packs the same bytes as the division for k = ${paramsK}`, () => {
+            const poly = new Poly(paramsK);
+            const dv = paramsK === 4 ? 5 : 4;
+            const du = paramsK === 4 ? 11 : 10;
+            for (const a of allCoefficients()) {
+                const message = poly.polyToMsg(a.slice());
+                const v = poly.compressPoly(a.slice());
+                const u = poly.compressPolyVector(new Array(paramsK).fill(a).map((p: Int16Array) => p.slice()));
+                for (let i = 0; i < 256; i++) {
+                    expect((message[i >> 3] >> (i & 7)) & 1).toBe(divisionCompress(a[i] % q, 1));
+                    expect(readBits(v, i, dv)).toBe(divisionCompress(a[i], dv));
+                    for (let j = 0; j < paramsK; j++) {
+                        expect(readBits(u, 256 * j + i, du)).toBe(divisionCompress(a[i] % q, du));
+                    }
+                }
+            }
+        });
+    }
+});
+
+/**
+ * Read the i-th little-endian d-bit value of a packed byte array
+ */
+function readBits(bytes: Uint8Array, i: number, d: number): number {
+    let r = 0;
+    for (let b = 0; b < d; b++) {
+        const bit = i * d + b;
+        r |= ((bytes[bit >> 3] >> (bit & 7)) & 1) << b;
+    }
+    return r;
+}
@@ -0,0 +1,67 @@
+import 'jest';
+import { Buffer } from "buffer";
+import { cborDecode, cborEncode, CborValue } from "../src/lib/cbor";
+import { exportPrivateKeyCose, exportPublicKeyCose, importPrivateKeyCose, importPublicKeyCose } from "../src/lib/cose-key";
+import { InvalidKeyEncodingError, InvalidPrivateKeyError, ParameterSetMismatchError } from "../src/lib/errors";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber1024Service } from "../src/services/kyber1024.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+
+const seed = new Uint8Array(64).map((_, i) => i * 3);
+
+const services: [string, () => KyberService][] = [
+    ["Kyber512", () => new Kyber512Service()],
+    ["Kyber768", () => new Kyber768Service()],
+    ["Kyber1024", () => new Kyber1024Service()],
+    ["ML-KEM-512", () => new MlKem512Service()],
+];
+
+describe.each(services)('%s COSE_Key', (name, createService) => {
+    const service = createService();
+    const [publicKey, privateKey] = service.generateKyberKeysFromSeed(seed);
+
+    it('Round trips a public key', () => {
+        const coseKey = exportPublicKeyCose(service, publicKey);
+        expect(importPublicKeyCose(service, coseKey)).toEqual(publicKey);
+    });
+    it('Round trips a private key as a seed or an expanded key', () => {
+        expect(importPrivateKeyCose(service, exportPrivateKeyCose(service, seed))).toEqual({ format: "seed", seed, privateKey });
+        expect(importPrivateKeyCose(service, exportPrivateKeyCose(service, privateKey))).toEqual({ format: "expandedKey", privateKey });
+        expect(importPublicKeyCose(service, exportPrivateKeyCose(service, privateKey))).toEqual(publicKey);
+    });
+});
+
+describe('COSE_Key encoding', () => {
+    const service = new Kyber768Service();
+    const [publicKey] = service.generateKyberKeysFromSeed(seed);
+
+    it('Writes a deterministic map with kty, alg, pub and priv labels', () => {
+        const coseKey = Buffer.from(exportPrivateKeyCose(service, seed));
+        // map(4), 1: 7, 3: "Kyber768", -1: bstr(1184), -2: bstr(64)
+        expect(coseKey.subarray(0, 17).toString("hex")).toBe("a4010703684b79626572373638205904a0");
+        expect(coseKey.subarray(17, 17 + publicKey.length).equals(Buffer.from(publicKey))).toBe(true);
+        expect(coseKey.subarray(17 + publicKey.length, 19 + publicKey.length).toString("hex")).toBe("2158");
+        expect(cborEncode(cborDecode(coseKey, "test"))).toEqual(new Uint8Array(coseKey));
+    });
+    it('Rejects keys of another algorithm or parameter set', () => {
+        const map = cborDecode(exportPublicKeyCose(service, publicKey), "test") as Map<number | string, CborValue>;
+        expect(() => importPublicKeyCose(service, cborEncode(new Map(map).set(3, "Kyber512")))).toThrow(ParameterSetMismatchError);
+        expect(() => importPublicKeyCose(service, cborEncode(new Map(map).set(3, "ML-KEM-768")))).toThrow(InvalidKeyEncodingError);
+        expect(() => importPublicKeyCose(service, cborEncode(new Map(map).set(3, -48)))).toThrow(InvalidKeyEncodingError);
+        expect(() => importPublicKeyCose(service, cborEncode(new Map(map).set(1, 1)))).toThrow(InvalidKeyEncodingError);
+    });
+    it('Rejects malformed CBOR and mismatched private keys', () => {
+        const coseKey = exportPrivateKeyCose(service, seed);
+        expect(() => importPrivateKeyCose(service, coseKey.subarray(0, coseKey.length - 1))).toThrow(InvalidKeyEncodingError);
+        expect(() => importPrivateKeyCose(service, Uint8Array.of(...coseKey, 0))).toThrow(InvalidKeyEncodingError);
+        expect(() => importPrivateKeyCose(service, exportPublicKeyCose(service, publicKey))).toThrow(InvalidKeyEncodingError);
+        // a 23 encoded with a one-byte argument is not deterministic
+        expect(() => cborDecode(Uint8Array.of(0x18, 23), "test")).toThrow(InvalidKeyEncodingError);
+
+        const map = cborDecode(coseKey, "test") as Map<number | string, CborValue>;
+        const otherSeed = seed.map((b) => b ^ 1);
+        expect(() => importPrivateKeyCose(service, cborEncode(new Map(map).set(-2, otherSeed)))).toThrow(InvalidPrivateKeyError);
+    });
+});
@@ -0,0 +1,71 @@
+import 'jest';
+import { ctCmov, ctEqual, ctSelect } from "../src/lib/ct";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber512_90sService } from "../src/services/kyber512-90s.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+
+describe("Constant-time primitives", () => {
+    it("compares byte arrays and 16-bit lanes", () => {
+        expect(ctEqual(Uint8Array.of(1, 2, 3), Uint8Array.of(1, 2, 3))).toBe(1);
+        expect(ctEqual(Uint8Array.of(1, 2, 3), Uint8Array.of(1, 2, 0x83))).toBe(0);
+        expect(ctEqual(Uint8Array.of(1, 2), Uint8Array.of(1, 2, 3))).toBe(0);
+        expect(ctEqual(new Uint8Array(0), [])).toBe(1);
+        expect(ctEqual(Int16Array.of(-1, 3328), Int16Array.of(-1, 3328))).toBe(1);
+        expect(ctEqual(Int16Array.of(-1, 3328), Int16Array.of(0x7FFF, 3328))).toBe(0);
+        expect(ctEqual(Uint16Array.of(0x8000), Uint16Array.of(0))).toBe(0);
+    });
+
+    it("moves conditionally in place", () => {
+        const r = Uint8Array.of(1, 2, 3);
+        expect(ctCmov(r, [4, 5, 6], 0)).toEqual(Uint8Array.of(1, 2, 3));
+        expect(ctCmov(r, [4, 5, 0xFF], 1)).toBe(r);
+        expect(r).toEqual(Uint8Array.of(4, 5, 0xFF));
+
+        const lanes = Int16Array.of(-3329, 7);
+        ctCmov(lanes, Int16Array.of(-1, -32768), 1);
+        expect(lanes).toEqual(Int16Array.of(-1, -32768));
+        expect(() => ctCmov(r, [1], 1)).toThrow(RangeError);
+    });
+
+    it("selects a copy without modifying its inputs", () => {
+        const a = Uint8Array.of(1, 2);
+        const b = Uint8Array.of(3, 4);
+        expect(ctSelect(0, a, b)).toEqual(a);
+        expect(ctSelect(0, a, b)).not.toBe(a);
+        expect(ctSelect(1, a, b)).toEqual(b);
+        expect(ctSelect(1, Uint16Array.of(1), [0xFFFF])).toEqual(Uint16Array.of(0xFFFF));
+        expect(a).toEqual(Uint8Array.of(1, 2));
+
+        const buffer = Buffer.from([1, 2]);
+        ctSelect(1, buffer, b);
+        expect(Array.from(buffer)).toEqual([1, 2]);
+    });
+});
+
+describe.each([
+    ["Kyber768", () => new Kyber768Service()],
+    ["Kyber512-90s", () => new Kyber512_90sService()],
+] as [string, () => KyberService][])("%s implicit rejection", (name, createService) => {
+    it("derives the shared secret of an invalid cipher text from z and H(c)", () => {
+        const service = createService();
+        const [publicKey, privateKey] = service.generateKyberKeys();
+        const [cipherText, sharedSecret] = service.encrypt(publicKey);
+        cipherText[0] ^= 1;
+        const z = privateKey.subarray(privateKey.length - 32);
+        const expected = new Uint8Array(service.symmetric.kdf(z, new Uint8Array(service.symmetric.hashH(cipherText))));
+        expect(service.decrypt(cipherText, privateKey)).toEqual(expected);
+        expect(service.decrypt(cipherText, privateKey)).not.toEqual(sharedSecret);
+    });
+});
+
+describe("ML-KEM implicit rejection", () => {
+    it("derives the shared secret of an invalid cipher text from z and c", () => {
+        const service = new MlKem512Service();
+        const [publicKey, privateKey] = service.generateKyberKeys();
+        const [cipherText] = service.encrypt(publicKey);
+        cipherText[cipherText.length - 1] ^= 0x80;
+        const z = privateKey.subarray(privateKey.length - 32);
+        expect(service.decrypt(cipherText, privateKey)).toEqual(new Uint8Array(service.symmetric.kdf(z, cipherText)));
+    });
+});
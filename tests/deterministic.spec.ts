@@ -0,0 +1,87 @@
+import 'jest';
+import { SHA3 } from "sha3";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber1024Service } from "../src/services/kyber1024.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+
+// Randomness drawn for count = 0 of the known-answer tests. The round-3
+// reference draws d, z and m with separate calls while ML-KEM draws d || z at
+// once, so only d is shared.
+const d = "7C9935A0B07694AA0C6D10E4DB6B1ADD2FD81A25CCB148032DCD739936737F2D";
+const kyberZ = "8626ED79D451140800E03B59B956F8210E556067407D13DC90FA9E8B872BFB8F";
+const kyberM = "147C03F7A5BEBBA406C8FAE1874D7F13C80EFE79A3A9A874CC09FE76F6997615";
+const mlKemZ = "B505D7CFAD1B497499323C8686325E4792F267AAFA3F87CA60D01CB54F29202A";
+const mlKemM = "EB4A7C66EF4EBA2DDB38C88D8BC706B1D639002198172A7B1942ECA8F6C001BA";
+
+// z and m, then SHA3-256 of the count = 0 pk, sk and ct, followed by the ss
+const vectors: [string, () => KyberService, string, string, string, string, string, string][] = [
+    ["Kyber512", () => new Kyber512Service(), kyberZ, kyberM,
+        "7FFAD1BC8AF73B7E874956B81C2A2EF0BFABE8DC93D77B2FBC9E0C64EFA01E84",
+        "26E1B5EA0F48B3C87D7CE87113B6A93A49D9F7EDE7C5CB15B41382BD3243715A",
+        "2B5C811B5A5D62B1FC79FCAFB1623E81AE164E3D71F75278DCC17A448F106A23",
+        "0A6925676F24B22C286F4C81A4224CEC506C9B257D480E02E3B49F44CAA3237F"],
+    ["Kyber768", () => new Kyber768Service(), kyberZ, kyberM,
+        "D4EC143B50F01423B177895EDEE22BB739F647ECF85F50BC25EF7B5A725DEE86",
+        "245BC1D8CDD4893E4C471E8FCCFA7019DF0FD10F2D5375F36B4AF5F4222ACA6A",
+        "962242140E9B3492476C62847A250A5E425A41CEEC123CE0158D601E7AF4139E",
+        "914CB67FE5C38E73BF74181C0AC50428DEDF7750A98058F7D536708774535B29"],
+    ["Kyber1024", () => new Kyber1024Service(), kyberZ, kyberM,
+        "8A39E87D531F3527C207EDCC1DB7FADDCF9628391879B335C707839A0DB051A8",
+        "ED1F6CB687C37931EA2AA80D9C956F277A9DF532649661035C6E2F9872132638",
+        "3B4A9ECA3917A8F4B16AB748352C74D76D06FA30EFC033973D841DE84AD89387",
+        "B10F7394926AD3B49C5D62D5AEB531D5757538BCC0DA9E550D438F1B61BD7419"],
+    ["ML-KEM-512", () => new MlKem512Service(), mlKemZ, mlKemM,
+        "50C8DD152A4531AAB560D2FC7CA9A40AD8AF25AD1DD08C6D79AFE4DD4D1EEE5A",
+        "E09771B6FC91C8DFE600D24C74F818AB1D1DB446D945B6D2FDDC9C7DA9D48010",
+        "3EEC7DE26EECB57B18D597C54CFFA565D79988FA760117827FEA1EE91BAA3DC3",
+        "B4C8E3C4115F9511F2FDDB288C4B78C5CD7C89D2D4D321F46B4EDC54DDF0EB36"],
+    ["ML-KEM-768", () => new MlKem768Service(), mlKemZ, mlKemM,
+        "F57262661358CDE8D3EBF990E5FD1D5B896C992CCFAADB5256B68BBF5943B132",
+        "46D9CC347F1224AA7292702710039F54AF7B01B5A3C38165A8603CCCAEF4E6DB",
+        "372428F876619E5971A50A02962BCDEF3E53AE546A3759316B7C437AC1951033",
+        "AC865F839FEF1BF3D528DD7504BED2F64B5502B0FA81D1C32763658E4AAC5037"],
+    ["ML-KEM-1024", () => new MlKem1024Service(), mlKemZ, mlKemM,
+        "EBBE41CD4DEA489DEDD00E76AE0BCF54AA8550202920EB64D5892AD02B13F2E5",
+        "638A4AB67871CAC2DBB496E68B02DD2E58C52ED92B23B54EB855C25BED0B6E80",
+        "CB104FBD0E19778904C8A00F70880CCCE29C9E6E8EB42B7EB031032E8D2F54AA",
+        "EA636CE31B73F40229572146B97E590F1605FDADD1C3781861530EFFCF2B1E18"],
+];
+
+function fromHex(hex: string): Uint8Array {
+    return new Uint8Array(Buffer.from(hex, "hex"));
+}
+
+function sha3Hex(bytes: Uint8Array): string {
+    return new SHA3(256).update(Buffer.from(bytes)).digest("hex").toUpperCase();
+}
+
+describe('Deterministic key generation and encryption', () => {
+    it.each(vectors)('%s reproduces count 0 from explicit seeds', (name, create, z, m, pkHash, skHash, ctHash, ss) => {
+        const service = create();
+        expect(service.getAlgorithm()).toBe(name);
+
+        const [publicKey, privateKey] = service.generateKyberKeysDeterministic(fromHex(d), fromHex(z));
+        expect(sha3Hex(publicKey)).toBe(pkHash);
+        expect(sha3Hex(privateKey)).toBe(skHash);
+
+        const [cipherText, sharedSecret] = service.encryptDeterministic(publicKey, fromHex(m));
+        expect(sha3Hex(cipherText)).toBe(ctHash);
+        expect(sharedSecret).toEqual(fromHex(ss));
+        expect(service.decrypt(cipherText, privateKey)).toEqual(fromHex(ss));
+    });
+    it('Indcpa key generation depends only on the seed', () => {
+        const kyber768 = new Kyber768Service();
+        expect(kyber768.indcpa.indcpaKeyGen(fromHex(d))).toEqual(kyber768.indcpa.indcpaKeyGen(fromHex(d)));
+    });
+    it('Rejects seeds of the wrong length', () => {
+        const kyber512 = new Kyber512Service();
+        expect(() => kyber512.generateKyberKeysDeterministic(fromHex(d).slice(1), fromHex(kyberZ))).toThrow();
+        expect(() => kyber512.generateKyberKeysDeterministic(fromHex(d), [])).toThrow();
+        const [publicKey] = kyber512.generateKyberKeys();
+        expect(() => kyber512.encryptDeterministic(publicKey, fromHex(kyberM + "00"))).toThrow();
+    });
+});
@@ -0,0 +1,90 @@
+import 'jest';
+import {
+    HandshakeStateError,
+    InvalidCiphertextLengthError,
+    InvalidPrivateKeyError,
+    InvalidPublicKeyError,
+    InvalidSeedError,
+    KyberError,
+    ParameterSetMismatchError
+} from "../src/lib/errors";
+import { Indcpa } from "../src/lib/indcpa";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+import { Kyber768Handshake, MlKem768Handshake } from "../src/index";
+
+function thrown(fn: () => unknown): KyberError {
+    try {
+        fn();
+    } catch (e) {
+        expect(e).toBeInstanceOf(KyberError);
+        return e as KyberError;
+    }
+    throw new Error("expected a KyberError");
+}
+
+describe('KEM errors', () => {
+    const mlKem512 = new MlKem512Service();
+    const [publicKey, privateKey] = mlKem512.generateKyberKeys();
+    const [cipherText] = mlKem512.encrypt(publicKey);
+
+    it('Carry the algorithm and the expected and actual sizes', () => {
+        const error = thrown(() => mlKem512.decrypt(cipherText.subarray(0, 700), privateKey));
+        expect(error).toBeInstanceOf(InvalidCiphertextLengthError);
+        expect(error.name).toBe("InvalidCiphertextLengthError");
+        expect(error.algorithm).toBe("ML-KEM-512");
+        expect(error.expected).toBe(768);
+        expect(error.actual).toBe(700);
+    });
+    it('Tell a key of another parameter set from a malformed one', () => {
+        const [publicKey1024, privateKey1024] = new MlKem1024Service().generateKyberKeys();
+        const mismatch = thrown(() => mlKem512.encrypt(publicKey1024));
+        expect(mismatch).toBeInstanceOf(ParameterSetMismatchError);
+        expect((mismatch as ParameterSetMismatchError).parameterSet).toBe(1024);
+        expect(mismatch.expected).toBe(800);
+        expect(mismatch.actual).toBe(1568);
+
+        expect(thrown(() => mlKem512.decrypt(cipherText, privateKey1024))).toBeInstanceOf(ParameterSetMismatchError);
+        expect(thrown(() => mlKem512.encrypt(publicKey.subarray(1)))).toBeInstanceOf(InvalidPublicKeyError);
+        expect(thrown(() => mlKem512.decrypt(cipherText, privateKey.subarray(1)))).toBeInstanceOf(InvalidPrivateKeyError);
+    });
+    it('Reject seeds and messages that are not 32 bytes', () => {
+        const error = thrown(() => mlKem512.generateKyberKeysDeterministic(new Uint8Array(31), new Uint8Array(32)));
+        expect(error).toBeInstanceOf(InvalidSeedError);
+        expect(error.actual).toBe(31);
+        expect(thrown(() => mlKem512.encryptDeterministic(publicKey, new Uint8Array(33)))).toBeInstanceOf(InvalidSeedError);
+    });
+    it('Are thrown by the IND-CPA scheme', () => {
+        const indcpa = new Indcpa(3);
+        const [indcpaPublicKey, indcpaPrivateKey] = indcpa.indcpaKeyGen(new Uint8Array(32));
+        const coins = new Uint8Array(32);
+        const indcpaCipherText = indcpa.indcpaEncrypt(indcpaPublicKey, coins, coins);
+
+        expect(thrown(() => indcpa.indcpaKeyGen(new Uint8Array(16)))).toBeInstanceOf(InvalidSeedError);
+        expect(thrown(() => indcpa.indcpaEncrypt(indcpaPublicKey.subarray(1), coins, coins))).toBeInstanceOf(InvalidPublicKeyError);
+        expect(thrown(() => indcpa.indcpaEncrypt(indcpaPublicKey, coins.subarray(1), coins))).toBeInstanceOf(InvalidSeedError);
+        expect(thrown(() => indcpa.indcpaDecrypt(indcpaCipherText.subarray(1), indcpaPrivateKey))).toBeInstanceOf(InvalidCiphertextLengthError);
+        expect(thrown(() => indcpa.indcpaDecrypt(indcpaCipherText, indcpaPrivateKey.subarray(1)))).toBeInstanceOf(InvalidPrivateKeyError);
+        expect(thrown(() => indcpa.indcpaKeyGen(new Uint8Array(16))).algorithm).toBe("Kyber768");
+    });
+});
+
+describe('Handshake errors', () => {
+    it('Reject a private key that does not belong to the public key', () => {
+        const bobHandshake = new Kyber768Handshake();
+        const aliceHandshake = new Kyber768Handshake();
+        const cipherText = aliceHandshake.generateCipherTextAndSharedSecret(bobHandshake.publicKey);
+
+        bobHandshake.privateKey = new Kyber768Service().generateKyberKeys()[1];
+        const error = thrown(() => bobHandshake.generateRemoteSharedSecret(cipherText));
+        expect(error).toBeInstanceOf(HandshakeStateError);
+        expect(error.algorithm).toBe("Kyber768");
+        expect(bobHandshake.remoteSharedSecret.length).toBe(0);
+    });
+    it('Pass on errors for malformed remote input', () => {
+        const handshake = new MlKem768Handshake();
+        expect(thrown(() => handshake.generateRemoteSharedSecret(new Uint8Array(1088 - 1)))).toBeInstanceOf(InvalidCiphertextLengthError);
+        expect(thrown(() => handshake.generateCipherTextAndSharedSecret(new Uint8Array(800)))).toBeInstanceOf(ParameterSetMismatchError);
+    });
+});
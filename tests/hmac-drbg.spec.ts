@@ -0,0 +1,138 @@
+import 'jest';
+import { Buffer } from "buffer";
+import { HealthTestedEntropySource } from "../src/lib/entropy-health";
+import { EntropyHealthTestError } from "../src/lib/errors";
+import { HmacDrbg } from "../src/lib/hmac-drbg";
+import { RandomSource } from "../src/lib/random-source";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+
+/**
+ * Source that returns the given bytes, then counting bytes, recording the
+ * length of every request
+ */
+class ScriptedSource implements RandomSource {
+    public requests: number[] = [];
+    private position = 0;
+
+    constructor(private readonly bytes: Uint8Array = new Uint8Array(0)) { }
+
+    public fill(bytes: Uint8Array): void {
+        this.requests.push(bytes.length);
+        for (let i = 0; i < bytes.length; i++, this.position++) {
+            bytes[i] = this.position < this.bytes.length ? this.bytes[this.position] : (this.position * 7) & 0xFF;
+        }
+    }
+}
+
+// CAVP HMAC_DRBG SHA-256, no prediction resistance, no personalization
+// string or additional input, count 0
+const cavpEntropyAndNonce = new Uint8Array(Buffer.from(
+    "ca851911349384bffe89de1cbdc46e6831e44d34a4fb935ee285dd14b71a7488659ba96c601dc69fc902940805ec0ca8", "hex"));
+const cavpReturnedBits = "e528e9abf2dece54d47c7e75e5fe302149f817ea9fb4bee6f4199697d04d5b89d54fbb978a15b5c443c9ec21036d2460" +
+    "b6f73ebad0dc2aba6e624abf07745bc107694bb7547bb0995f70de25d6b29e2d3011bb19d27676c07162c8b5ccde0668961df868" +
+    "03482cb37ed6d5c0bb8d50cf1f50d476aa0458bdaba806f48be9dcb8";
+
+describe("HmacDrbg", () => {
+    it("Matches the CAVP known answer", () => {
+        const drbg = new HmacDrbg({ entropySource: new ScriptedSource(cavpEntropyAndNonce) });
+        const bits = new Uint8Array(128);
+        drbg.generate(bits);
+        drbg.generate(bits);
+        expect(Buffer.from(bits).toString("hex")).toBe(cavpReturnedBits);
+        expect(drbg.reseedCounter).toBe(3);
+    });
+
+    it("Mixes in the personalization string and additional input", () => {
+        const output = (personalizationString?: Uint8Array, additionalInput?: Uint8Array) => {
+            const drbg = new HmacDrbg({ entropySource: new ScriptedSource(cavpEntropyAndNonce), personalizationString });
+            const bytes = new Uint8Array(32);
+            drbg.generate(bytes, additionalInput);
+            return Buffer.from(bytes).toString("hex");
+        };
+        const plain = output();
+        expect(output(new Uint8Array(0))).toBe(plain);
+        expect(output(Uint8Array.of(1))).not.toBe(plain);
+        expect(output(undefined, Uint8Array.of(1))).not.toBe(plain);
+    });
+
+    it("Reseeds after the reseed interval", () => {
+        const source = new ScriptedSource();
+        const drbg = new HmacDrbg({ entropySource: source, reseedInterval: 2 });
+        expect(source.requests).toEqual([48]);
+        const bytes = new Uint8Array(16);
+        drbg.fill(bytes);
+        drbg.fill(bytes);
+        expect(source.requests).toEqual([48]);
+        drbg.fill(bytes);
+        expect(source.requests).toEqual([48, 32]);
+        expect(drbg.reseedCounter).toBe(2);
+    });
+
+    it("Reseeds before every request with prediction resistance", () => {
+        const source = new ScriptedSource();
+        const drbg = new HmacDrbg({ entropySource: source, predictionResistance: true });
+        drbg.fill(new Uint8Array(HmacDrbg.maxBytesPerRequest + 1));
+        expect(source.requests).toEqual([48, 32, 32]);
+    });
+
+    it("Draws more entropy from a source with less min-entropy", () => {
+        const source = new ScriptedSource();
+        new HmacDrbg({ entropySource: source, minEntropy: 4 });
+        expect(source.requests).toEqual([96]);
+    });
+
+    it("Rejects invalid options and requests", () => {
+        expect(() => new HmacDrbg({ reseedInterval: 0 })).toThrow(RangeError);
+        expect(() => new HmacDrbg({ reseedInterval: Math.pow(2, 49) })).toThrow(RangeError);
+        expect(() => new HmacDrbg({ minEntropy: 9 })).toThrow(RangeError);
+        expect(() => new HmacDrbg().generate(new Uint8Array(HmacDrbg.maxBytesPerRequest + 1))).toThrow(RangeError);
+    });
+
+    it("Serves as the random source of a service", () => {
+        const a = new MlKem768Service(new HmacDrbg({ entropySource: new ScriptedSource(cavpEntropyAndNonce) }));
+        const b = new MlKem768Service(new HmacDrbg({ entropySource: new ScriptedSource(cavpEntropyAndNonce) }));
+        const [publicKey, privateKey] = a.generateKyberKeys();
+        expect(b.generateKyberKeys()).toEqual([publicKey, privateKey]);
+        const [cipherText, sharedSecret] = a.encrypt(publicKey);
+        expect(a.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+
+        const platform = new MlKem768Service(new HmacDrbg());
+        expect(platform.generateKyberKeys()[0]).not.toEqual(publicKey);
+    });
+});
+
+describe("HealthTestedEntropySource", () => {
+    it("Computes the SP 800-90B cutoffs for alpha 2^-40", () => {
+        const source = new ScriptedSource();
+        expect(new HealthTestedEntropySource(source).repetitionCountCutoff).toBe(6);
+        expect(new HealthTestedEntropySource(source).adaptiveProportionCutoff).toBe(19);
+        expect(new HealthTestedEntropySource(source, 1).repetitionCountCutoff).toBe(41);
+        expect(new HealthTestedEntropySource(source, 1).adaptiveProportionCutoff).toBe(336);
+    });
+
+    it("Fails the repetition count test on a stuck source, also across requests", () => {
+        const source = new HealthTestedEntropySource(new ScriptedSource(Uint8Array.of(1, 2, 3, 3, 3, 3, 3, 3)));
+        source.fill(new Uint8Array(5));
+        expect(() => source.fill(new Uint8Array(3))).toThrow(EntropyHealthTestError);
+        expect(() => source.fill(new Uint8Array(1))).toThrow(/repeated the same byte 6 times/);
+    });
+
+    it("Fails the adaptive proportion test on a biased source", () => {
+        const biased = new Uint8Array(512);
+        for (let i = 0; i < biased.length; i++) {
+            biased[i] = i % 20 === 0 ? 0xAA : i & 0xFF;
+        }
+        const source = new HealthTestedEntropySource(new ScriptedSource(biased));
+        try {
+            source.fill(new Uint8Array(512));
+            fail("expected the adaptive proportion test to fail");
+        } catch (e) {
+            expect((e as EntropyHealthTestError).test).toBe("adaptive proportion");
+        }
+    });
+
+    it("Fails the DRBG that draws from it", () => {
+        expect(() => new HmacDrbg({ entropySource: { fill: (bytes: Uint8Array) => bytes.fill(0) } }))
+            .toThrow(EntropyHealthTestError);
+    });
+});
@@ -0,0 +1,140 @@
+import 'jest';
+import { Buffer } from "buffer";
+import { HpkeError, HpkeMessageLimitReachedError, HpkeOpenError } from "../src/lib/errors";
+import {
+    aes128Gcm,
+    aes256Gcm,
+    chaCha20Poly1305,
+    hkdfSha256,
+    hkdfSha512,
+    Hpke,
+    HpkeAead,
+    HpkeKdf,
+    hpkeKeySchedule,
+    hpkeModeBase,
+    hpkeModePsk,
+    HpkeRecipientContext,
+    HpkeSenderContext
+} from "../src/lib/hpke";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+
+function hex(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value, "hex"));
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString("hex");
+}
+
+describe("HPKE key schedule", () => {
+    // RFC 9180 A.1.1, DHKEM(X25519, HKDF-SHA256), HKDF-SHA256, AES-128-GCM,
+    // base mode, from the shared secret on
+    const sharedSecret = hex("fe0e18c9f024ce43799ae393c7e8fe8fce9d218875e8227b0187c04e7d2ea1fc");
+    const info = hex("4f6465206f6e2061204772656369616e2055726e");
+    const plainText = hex("4265617574792069732074727574682c20747275746820626561757479");
+    const empty = new Uint8Array(0);
+
+    it("Matches the RFC 9180 test vector", () => {
+        const schedule = hpkeKeySchedule(0x0020, hkdfSha256, aes128Gcm, hpkeModeBase, sharedSecret, info, empty, empty);
+        expect(toHex(schedule.key)).toBe("4531685d41d65f03dc48f6b8302c05b0");
+        expect(toHex(schedule.baseNonce)).toBe("56d890e5accaaf011cff4b7d");
+        expect(toHex(schedule.exporterSecret)).toBe("45ff1c2e220db587171952c0592d5f5ebe103f1561a2614e38f2ffd47e99e3f8");
+
+        const sender = new HpkeSenderContext(0x0020, hkdfSha256, aes128Gcm, schedule);
+        expect(toHex(sender.seal(hex("436f756e742d30"), plainText)))
+            .toBe("f938558b5d72f1a23810b4be2ab4f84331acc02fc97babc53a52ae8218a355a96d8770ac83d07bea87e13c512a");
+        expect(toHex(sender.export(empty, 32))).toBe("3853fe2b4035195a573ffc53856e77058e15d9ea064de3e59f4961d0095250ee");
+
+        const recipient = new HpkeRecipientContext(0x0020, hkdfSha256, aes128Gcm, schedule);
+        expect(recipient.open(hex("436f756e742d30"),
+            hex("f938558b5d72f1a23810b4be2ab4f84331acc02fc97babc53a52ae8218a355a96d8770ac83d07bea87e13c512a"))).toEqual(plainText);
+    });
+
+    it("Checks the pre-shared key inputs against the mode", () => {
+        const psk = new Uint8Array(32).fill(1);
+        const pskId = Uint8Array.of(1);
+        expect(() => hpkeKeySchedule(0x0041, hkdfSha256, aes128Gcm, hpkeModeBase, sharedSecret, info, psk, pskId)).toThrow(HpkeError);
+        expect(() => hpkeKeySchedule(0x0041, hkdfSha256, aes128Gcm, hpkeModePsk, sharedSecret, info, empty, empty)).toThrow(HpkeError);
+        expect(() => hpkeKeySchedule(0x0041, hkdfSha256, aes128Gcm, hpkeModePsk, sharedSecret, info, psk, empty)).toThrow(HpkeError);
+        expect(() => hpkeKeySchedule(0x0041, hkdfSha256, aes128Gcm, hpkeModePsk, sharedSecret, info, psk, pskId)).not.toThrow();
+    });
+});
+
+describe.each([
+    ["HKDF-SHA256", "AES-128-GCM", hkdfSha256, aes128Gcm],
+    ["HKDF-SHA256", "ChaCha20-Poly1305", hkdfSha256, chaCha20Poly1305],
+    ["HKDF-SHA512", "AES-256-GCM", hkdfSha512, aes256Gcm],
+] as [string, string, HpkeKdf, HpkeAead][])("HPKE with ML-KEM-768, %s and %s", (kdfName, aeadName, kdf, aead) => {
+    const hpke = new Hpke(new MlKem768Service(), kdf, aead);
+    const [publicKey, privateKey] = hpke.service.generateKyberKeys();
+    const info = Buffer.from("info");
+    const aad = Buffer.from("aad");
+    const message = Buffer.from("a message for the recipient");
+
+    it("Seals and opens single messages", () => {
+        const [enc, cipherText] = hpke.sealBase(publicKey, info, aad, message);
+        expect(enc.length).toBe(1088);
+        expect(cipherText.length).toBe(message.length + 16);
+        expect(hpke.openBase(enc, privateKey, info, aad, cipherText)).toEqual(new Uint8Array(message));
+        expect(() => hpke.openBase(enc, privateKey, Buffer.from("other"), aad, cipherText)).toThrow(HpkeOpenError);
+        expect(() => hpke.openBase(enc, privateKey, info, Buffer.from("other"), cipherText)).toThrow(HpkeOpenError);
+    });
+
+    it("Binds messages to the pre-shared key", () => {
+        const psk = new Uint8Array(32).fill(5);
+        const pskId = Buffer.from("psk id");
+        const [enc, cipherText] = hpke.sealPsk(publicKey, info, aad, message, psk, pskId);
+        expect(hpke.openPsk(enc, privateKey, info, aad, cipherText, psk, pskId)).toEqual(new Uint8Array(message));
+        expect(() => hpke.openPsk(enc, privateKey, info, aad, cipherText, new Uint8Array(32), pskId)).toThrow(HpkeOpenError);
+        expect(() => hpke.openBase(enc, privateKey, info, aad, cipherText)).toThrow(HpkeOpenError);
+        expect(() => hpke.sealPsk(publicKey, info, aad, message, new Uint8Array(16), pskId)).toThrow(HpkeError);
+    });
+
+    it("Numbers the messages of a context", () => {
+        const [enc, sender] = hpke.setupBaseS(publicKey, info);
+        const recipient = hpke.setupBaseR(enc, privateKey, info);
+        const first = sender.seal(aad, message);
+        const second = sender.seal(aad, message);
+        expect(second).not.toEqual(first);
+        expect(sender.seq).toBe(BigInt(2));
+
+        expect(() => recipient.open(aad, second)).toThrow(HpkeOpenError);
+        expect(recipient.seq).toBe(BigInt(0));
+        expect(recipient.open(aad, first)).toEqual(new Uint8Array(message));
+        expect(recipient.open(aad, second)).toEqual(new Uint8Array(message));
+        expect(recipient.seq).toBe(BigInt(2));
+    });
+
+    it("Exports the same secrets on both sides", () => {
+        const [enc, sender] = hpke.setupBaseS(publicKey, info);
+        const recipient = hpke.setupBaseR(enc, privateKey, info);
+        expect(sender.export(Buffer.from("context"), 100)).toEqual(recipient.export(Buffer.from("context"), 100));
+        expect(sender.export(Buffer.from("context"), 32)).not.toEqual(sender.export(Buffer.from("other"), 32));
+        expect(() => sender.export([], 255 * kdf.nh + 1)).toThrow(HpkeError);
+    });
+});
+
+describe("HPKE", () => {
+    it("Uses the ML-KEM KEM IDs", () => {
+        expect(new Hpke(new MlKem512Service()).kemId).toBe(0x0040);
+        expect(new Hpke(new MlKem768Service()).kemId).toBe(0x0041);
+        expect(new Hpke(new MlKem1024Service()).kemId).toBe(0x0042);
+        expect(() => new Hpke(new Kyber768Service())).toThrow(HpkeError);
+    });
+
+    it("Refuses to seal past the last sequence number", () => {
+        // a 1-byte nonce allows 255 messages
+        const hpke = new Hpke(new MlKem512Service(), hkdfSha256, { ...aes128Gcm, nn: 1 });
+        const [publicKey] = hpke.service.generateKyberKeys();
+        const [, sender] = hpke.setupBaseS(publicKey);
+        for (let i = 0; i < 255; i++) {
+            sender.seal([], []);
+        }
+        expect(sender.seq).toBe(BigInt(255));
+        expect(() => sender.seal([], [])).toThrow(HpkeMessageLimitReachedError);
+        expect(sender.seq).toBe(BigInt(255));
+    });
+});
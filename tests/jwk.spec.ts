@@ -0,0 +1,76 @@
+import 'jest';
+import { Buffer } from "buffer";
+import { createHash } from "crypto";
+import { AkpJwk, exportPrivateKeyJwk, exportPublicKeyJwk, importPrivateKeyJwk, importPublicKeyJwk, jwkThumbprint } from "../src/lib/jwk";
+import { InvalidKeyEncodingError, InvalidPrivateKeyError, InvalidPublicKeyError, ParameterSetMismatchError } from "../src/lib/errors";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber1024Service } from "../src/services/kyber1024.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+
+const seed = new Uint8Array(64).map((_, i) => 255 - i);
+
+const services: [string, () => KyberService][] = [
+    ["Kyber512", () => new Kyber512Service()],
+    ["Kyber768", () => new Kyber768Service()],
+    ["Kyber1024", () => new Kyber1024Service()],
+    ["ML-KEM-768", () => new MlKem768Service()],
+];
+
+describe.each(services)('%s JWK', (name, createService) => {
+    const service = createService();
+    const [publicKey, privateKey] = service.generateKyberKeysFromSeed(seed);
+
+    it('Round trips a public key', () => {
+        const jwk = exportPublicKeyJwk(service, publicKey);
+        expect(jwk.kty).toBe("AKP");
+        expect(jwk.alg).toBe(name);
+        expect(jwk.priv).toBeUndefined();
+        expect(importPublicKeyJwk(service, JSON.parse(JSON.stringify(jwk)))).toEqual(publicKey);
+    });
+    it('Round trips a private key as a seed or an expanded key', () => {
+        const seedJwk = exportPrivateKeyJwk(service, seed);
+        expect(importPublicKeyJwk(service, seedJwk)).toEqual(publicKey);
+        expect(importPrivateKeyJwk(service, seedJwk)).toEqual({ format: "seed", seed, privateKey });
+
+        const expandedJwk = exportPrivateKeyJwk(service, privateKey);
+        expect(expandedJwk.pub).toBe(seedJwk.pub);
+        expect(importPrivateKeyJwk(service, expandedJwk)).toEqual({ format: "expandedKey", privateKey });
+    });
+    it('Computes the same thumbprint for the public and private JWK', () => {
+        const jwk = exportPublicKeyJwk(service, publicKey);
+        const members = '{"alg":"' + name + '","kty":"AKP","pub":"' + jwk.pub + '"}';
+        const expected = createHash("sha256").update(members).digest("base64")
+            .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+        expect(jwkThumbprint(jwk)).toBe(expected);
+        expect(jwkThumbprint(exportPrivateKeyJwk(service, seed))).toBe(expected);
+    });
+});
+
+describe('JWK import', () => {
+    const service = new Kyber768Service();
+    const [publicKey] = service.generateKyberKeysFromSeed(seed);
+    const jwk = exportPrivateKeyJwk(service, seed);
+
+    it('Uses unpadded base64url', () => {
+        expect(jwk.pub).toBe(Buffer.from(publicKey).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, ""));
+        expect(() => importPublicKeyJwk(service, { ...jwk, pub: jwk.pub + "=" })).toThrow(InvalidKeyEncodingError);
+    });
+    it('Rejects keys of another algorithm or parameter set', () => {
+        expect(() => importPublicKeyJwk(service, { ...jwk, alg: "Kyber1024" })).toThrow(ParameterSetMismatchError);
+        expect(() => importPublicKeyJwk(service, { ...jwk, alg: "ML-KEM-768" })).toThrow(InvalidKeyEncodingError);
+        expect(() => importPublicKeyJwk(service, { ...jwk, kty: "OKP" } as unknown as AkpJwk)).toThrow(InvalidKeyEncodingError);
+        expect(() => importPublicKeyJwk(new MlKem768Service(), jwk)).toThrow(InvalidKeyEncodingError);
+    });
+    it('Rejects keys of the wrong length or that do not belong together', () => {
+        const [otherPublicKey] = new Kyber512Service().generateKyberKeysFromSeed(seed);
+        const short = exportPublicKeyJwk(new Kyber512Service(), otherPublicKey).pub;
+        expect(() => importPublicKeyJwk(service, { ...jwk, pub: short })).toThrow(ParameterSetMismatchError);
+        expect(() => importPublicKeyJwk(service, { ...jwk, pub: jwk.pub.substring(4) })).toThrow(InvalidPublicKeyError);
+        expect(() => importPrivateKeyJwk(service, exportPublicKeyJwk(service, publicKey))).toThrow(InvalidKeyEncodingError);
+
+        const other = exportPrivateKeyJwk(service, seed.map((b) => b ^ 1));
+        expect(() => importPrivateKeyJwk(service, { ...jwk, priv: other.priv })).toThrow(InvalidPrivateKeyError);
+    });
+});
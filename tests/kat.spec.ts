@@ -0,0 +1,56 @@
+import 'jest';
+import * as fs from "fs";
+import * as path from "path";
+import { NistKatDrbg } from "../src/lib/nist-kat-drbg";
+import { parseKatFile, runKatFile } from "../src/lib/kat-runner";
+import { RandomSource } from "../src/lib/random-source";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber1024Service } from "../src/services/kyber1024.service";
+import { Kyber512_90sService } from "../src/services/kyber512-90s.service";
+import { Kyber768_90sService } from "../src/services/kyber768-90s.service";
+import { Kyber1024_90sService } from "../src/services/kyber1024-90s.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+
+const katFiles: [string, string, (randomSource: RandomSource) => KyberService][] = [
+    ["Kyber512", "kyber/PQCkemKAT_1632.rsp", (randomSource) => new Kyber512Service(randomSource)],
+    ["Kyber768", "kyber/PQCkemKAT_2400.rsp", (randomSource) => new Kyber768Service(randomSource)],
+    ["Kyber1024", "kyber/PQCkemKAT_3168.rsp", (randomSource) => new Kyber1024Service(randomSource)],
+    ["Kyber512-90s", "kyber-90s/PQCkemKAT_1632.rsp", (randomSource) => new Kyber512_90sService(randomSource)],
+    ["Kyber768-90s", "kyber-90s/PQCkemKAT_2400.rsp", (randomSource) => new Kyber768_90sService(randomSource)],
+    ["Kyber1024-90s", "kyber-90s/PQCkemKAT_3168.rsp", (randomSource) => new Kyber1024_90sService(randomSource)],
+    ["ML-KEM-512", "ml-kem/PQCkemKAT_1632.rsp", (randomSource) => new MlKem512Service(randomSource)],
+    ["ML-KEM-768", "ml-kem/PQCkemKAT_2400.rsp", (randomSource) => new MlKem768Service(randomSource)],
+    ["ML-KEM-1024", "ml-kem/PQCkemKAT_3168.rsp", (randomSource) => new MlKem1024Service(randomSource)],
+];
+
+function katPath(file: string): string {
+    return path.join(__dirname, "kat", file);
+}
+
+describe('NIST known-answer tests', () => {
+    it('DRBG reproduces the seed of every count', () => {
+        const entropyInput = new Array(NistKatDrbg.seedBytes).fill(0).map((_, i) => i);
+        const drbg = new NistKatDrbg(entropyInput);
+        const entries = parseKatFile(fs.readFileSync(katPath("kyber/PQCkemKAT_1632.rsp"), "utf8"));
+        expect(entries.length).toBe(100);
+        for (const entry of entries) {
+            const seed = new Uint8Array(NistKatDrbg.seedBytes);
+            drbg.fill(seed);
+            expect(seed).toEqual(entry.seed);
+        }
+    });
+    it('DRBG rejects seeds of the wrong length', () => {
+        expect(() => new NistKatDrbg(new Array(32).fill(0))).toThrow();
+        expect(() => new NistKatDrbg(new Array(48).fill(0), new Array(47).fill(0))).toThrow();
+    });
+    it.each(katFiles)('%s matches pk, sk, ct and ss of %s', (name, file, createService) => {
+        const results = runKatFile(katPath(file), createService);
+        expect(results.length).toBe(100);
+        const failures = results.filter((r) => !(r.pk && r.sk && r.ct && r.ss && r.decryptedSs));
+        expect(failures).toEqual([]);
+    }, 60000);
+});
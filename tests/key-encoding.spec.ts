@@ -0,0 +1,139 @@
+import 'jest';
+import { Buffer } from "buffer";
+import {
+    decodePrivateKeyDer,
+    decodePrivateKeyPem,
+    decodePublicKeyDer,
+    decodePublicKeyPem,
+    encodePrivateKeyDer,
+    encodePrivateKeyPem,
+    encodePublicKeyDer,
+    encodePublicKeyPem
+} from "../src/lib/key-encoding";
+import { InvalidKeyEncodingError, InvalidPrivateKeyError, InvalidPublicKeyError, InvalidSeedError, ParameterSetMismatchError } from "../src/lib/errors";
+import { KyberService } from "../src/services/kyber.service";
+import * as entryPoint from "../src/index";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber768_90sService } from "../src/services/kyber768-90s.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+
+const seed = new Uint8Array(64).map((_, i) => i);
+
+const services: [string, () => KyberService][] = [
+    ["ML-KEM-512", () => new MlKem512Service()],
+    ["ML-KEM-768", () => new MlKem768Service()],
+    ["ML-KEM-1024", () => new MlKem1024Service()],
+];
+
+describe.each(services)('%s key encoding', (name, createService) => {
+    const service = createService();
+    const [publicKey, privateKey] = service.generateKyberKeysFromSeed(seed);
+
+    it('Round trips a public key through DER and PEM', () => {
+        expect(decodePublicKeyDer(service, encodePublicKeyDer(service, publicKey))).toEqual(publicKey);
+        const pem = encodePublicKeyPem(service, publicKey);
+        expect(pem.startsWith("-----BEGIN PUBLIC KEY-----\n")).toBe(true);
+        expect(pem.split("\n").every((line) => line.length <= 64)).toBe(true);
+        expect(decodePublicKeyPem(service, pem)).toEqual(publicKey);
+    });
+    it('Round trips private keys in every form', () => {
+        expect(decodePrivateKeyDer(service, encodePrivateKeyDer(service, seed)))
+            .toEqual({ format: "seed", seed, privateKey });
+        expect(decodePrivateKeyDer(service, encodePrivateKeyDer(service, privateKey)))
+            .toEqual({ format: "expandedKey", privateKey });
+        expect(decodePrivateKeyDer(service, encodePrivateKeyDer(service, seed, "expandedKey")))
+            .toEqual({ format: "expandedKey", privateKey });
+        expect(decodePrivateKeyPem(service, encodePrivateKeyPem(service, seed, "both")))
+            .toEqual({ format: "both", seed, privateKey });
+    });
+    it('Rejects keys of another parameter set', () => {
+        const other = name === "ML-KEM-768" ? new MlKem512Service() : new MlKem768Service();
+        const [otherPublicKey, otherPrivateKey] = other.generateKyberKeysFromSeed(seed);
+        expect(() => decodePublicKeyDer(service, encodePublicKeyDer(other, otherPublicKey))).toThrow(ParameterSetMismatchError);
+        expect(() => decodePrivateKeyDer(service, encodePrivateKeyDer(other, seed))).toThrow(ParameterSetMismatchError);
+        expect(() => decodePrivateKeyDer(service, encodePrivateKeyDer(other, otherPrivateKey))).toThrow(ParameterSetMismatchError);
+        expect(() => encodePublicKeyDer(service, otherPublicKey)).toThrow(ParameterSetMismatchError);
+        expect(() => encodePrivateKeyDer(service, otherPrivateKey)).toThrow(ParameterSetMismatchError);
+    });
+});
+
+describe('ML-KEM-768 key encoding', () => {
+    const service = new MlKem768Service();
+    const [publicKey, privateKey] = service.generateKyberKeysFromSeed(seed);
+
+    it('Writes the SubjectPublicKeyInfo and PKCS#8 structures', () => {
+        const spki = Buffer.from(encodePublicKeyDer(service, publicKey));
+        expect(spki.length).toBe(1206);
+        expect(spki.subarray(0, 22).toString("hex")).toBe("308204b2300b0609608648016503040402038204a100");
+        expect(spki.subarray(22).equals(Buffer.from(publicKey))).toBe(true);
+
+        const pkcs8 = Buffer.from(encodePrivateKeyDer(service, seed));
+        expect(pkcs8.subarray(0, 22).toString("hex")).toBe("3054020100300b060960864801650304040204428040");
+        expect(pkcs8.subarray(22).equals(Buffer.from(seed))).toBe(true);
+        expect(encodePrivateKeyPem(service, seed).split("\n")[1].startsWith("MFQCAQAwCwYJYIZIAWUDBAQCBEKAQA")).toBe(true);
+    });
+    it('Rejects an unknown algorithm identifier', () => {
+        const spki = encodePublicKeyDer(service, publicKey);
+        spki[16] = 0x09;
+        expect(() => decodePublicKeyDer(service, spki)).toThrow(InvalidKeyEncodingError);
+    });
+    it('Rejects malformed DER', () => {
+        const spki = encodePublicKeyDer(service, publicKey);
+        expect(() => decodePublicKeyDer(service, spki.subarray(0, spki.length - 1))).toThrow(InvalidKeyEncodingError);
+        expect(() => decodePublicKeyDer(service, Buffer.concat([spki, Buffer.of(0)]))).toThrow(InvalidKeyEncodingError);
+        const unusedBits = spki.slice();
+        unusedBits[21] = 1;
+        expect(() => decodePublicKeyDer(service, unusedBits)).toThrow(InvalidKeyEncodingError);
+        expect(() => decodePrivateKeyDer(service, spki)).toThrow(InvalidKeyEncodingError);
+        expect(() => decodePublicKeyPem(service, encodePrivateKeyPem(service, seed))).toThrow(InvalidKeyEncodingError);
+    });
+    it('Rejects keys of the wrong length', () => {
+        expect(() => encodePublicKeyDer(service, publicKey.subarray(1))).toThrow(InvalidPublicKeyError);
+        expect(() => encodePrivateKeyDer(service, privateKey, "seed")).toThrow(InvalidSeedError);
+        const shortSeed = encodePrivateKeyDer(service, seed);
+        shortSeed[1]--;
+        shortSeed[19]--;
+        shortSeed[21]--;
+        expect(() => decodePrivateKeyDer(service, shortSeed.subarray(0, shortSeed.length - 1))).toThrow(InvalidSeedError);
+    });
+    it('Rejects a seed and expanded key that do not belong together', () => {
+        const otherSeed = seed.map((b) => b ^ 1);
+        const der = encodePrivateKeyDer(service, otherSeed, "both");
+        const expanded = service.expandPrivateKey(otherSeed);
+        const offset = der.length - expanded.length;
+        der.set(privateKey, offset);
+        expect(() => decodePrivateKeyDer(service, der)).toThrow(InvalidPrivateKeyError);
+    });
+});
+
+describe.each([
+    ["Kyber768", new Kyber768Service()],
+    ["Kyber768-90s", new Kyber768_90sService()],
+] as [string, KyberService][])('%s key encoding', (name, service) => {
+    const [publicKey, privateKey] = service.generateKyberKeysFromSeed(seed);
+    const mlKem768 = new MlKem768Service();
+
+    it('Refuses to encode keys under the ML-KEM algorithm identifiers', () => {
+        expect(() => encodePublicKeyDer(service, publicKey)).toThrow(InvalidKeyEncodingError);
+        expect(() => encodePublicKeyPem(service, publicKey)).toThrow(InvalidKeyEncodingError);
+        expect(() => encodePrivateKeyDer(service, seed)).toThrow(InvalidKeyEncodingError);
+        expect(() => encodePrivateKeyDer(service, privateKey)).toThrow(InvalidKeyEncodingError);
+    });
+    it('Refuses to decode ML-KEM encodings', () => {
+        const [mlKemPublicKey] = mlKem768.generateKyberKeysFromSeed(seed);
+        expect(() => decodePublicKeyDer(service, encodePublicKeyDer(mlKem768, mlKemPublicKey))).toThrow(InvalidKeyEncodingError);
+        expect(() => decodePrivateKeyDer(service, encodePrivateKeyDer(mlKem768, seed))).toThrow(InvalidKeyEncodingError);
+        expect(() => decodePrivateKeyPem(service, encodePrivateKeyPem(mlKem768, seed, "both"))).toThrow(InvalidKeyEncodingError);
+    });
+});
+
+describe("Package entry point", () => {
+    it("Exports the services the encodings take", () => {
+        const service = new entryPoint.MlKem768Service();
+        const [publicKey] = service.generateKyberKeys();
+        expect(entryPoint.decodePublicKeyPem(service, entryPoint.encodePublicKeyPem(service, publicKey))).toEqual(publicKey);
+        expect(new entryPoint.Kyber512_90sService().getAlgorithm()).toBe("Kyber512-90s");
+    });
+});
@@ -0,0 +1,104 @@
+import 'jest';
+import { Buffer } from "buffer";
+import { createHash, hkdfSync } from "crypto";
+import { HandshakeStateError } from "../src/lib/errors";
+import { HybridHandshake, Kyber512Handshake, MlKem768Handshake } from "../src/index";
+
+function lengthPrefixed(...inputs: Uint8Array[]): Buffer {
+    return Buffer.concat(inputs.flatMap(input => {
+        const n = Buffer.alloc(4);
+        n.writeUInt32BE(input.length);
+        return [n, Buffer.from(input)];
+    }));
+}
+
+describe("Handshake key schedule", () => {
+    const options = { label: "test protocol", context: Buffer.from("session 1") };
+
+    it("Derives the same keys on both sides of a handshake", () => {
+        const bob = new MlKem768Handshake();
+        const alice = new MlKem768Handshake();
+        bob.generateRemoteSharedSecret(alice.generateCipherTextAndSharedSecret(bob.publicKey));
+        bob.remotePublicKey = alice.publicKey;
+
+        const aliceKeys = alice.deriveKeys(options);
+        const bobKeys = bob.deriveKeys(options);
+        expect(aliceKeys.send).toEqual(bobKeys.receive);
+        expect(aliceKeys.receive).toEqual(bobKeys.send);
+        expect(aliceKeys.transcriptHash).toEqual(bobKeys.transcriptHash);
+        expect(aliceKeys.send.encryptionKey).not.toEqual(aliceKeys.receive.encryptionKey);
+        expect(aliceKeys.send.encryptionKey).not.toEqual(aliceKeys.send.macKey);
+        expect(aliceKeys.send.encryptionKey.length).toBe(32);
+        expect(aliceKeys.send.macKey.length).toBe(32);
+        expect(aliceKeys.send.iv.length).toBe(12);
+    });
+
+    it("Derives the keys from the transcript and shared secret", () => {
+        const bob = new MlKem768Handshake();
+        const alice = new MlKem768Handshake();
+        alice.generateCipherTextAndSharedSecret(bob.publicKey);
+        const keys = alice.deriveKeys(options);
+
+        const first = Buffer.compare(alice.publicKey, bob.publicKey) <= 0;
+        const [publicKeyA, publicKeyB] = first ? [alice.publicKey, bob.publicKey] : [bob.publicKey, alice.publicKey];
+        const [cipherTextToA, cipherTextToB] = first ? [new Uint8Array(0), alice.cipherText] : [alice.cipherText, new Uint8Array(0)];
+        const transcriptHash = createHash("sha256").update(lengthPrefixed(Buffer.from("crystals-kyber-ts handshake keys v1"),
+            Buffer.from("ML-KEM-768"), Buffer.from(options.label), options.context, publicKeyA, publicKeyB,
+            cipherTextToA, cipherTextToB)).digest();
+        expect(keys.transcriptHash).toEqual(new Uint8Array(transcriptHash));
+        const direction = first ? "a to b" : "b to a";
+        expect(keys.send.encryptionKey).toEqual(new Uint8Array(
+            hkdfSync("sha256", alice.sharedSecret, transcriptHash, Buffer.from(direction + " key"), 32)));
+    });
+
+    it("Combines the shared secrets of a mutual handshake", () => {
+        const bob = new Kyber512Handshake();
+        const alice = new Kyber512Handshake();
+        bob.generateRemoteSharedSecret(alice.generateCipherTextAndSharedSecret(bob.publicKey));
+        const oneWay = alice.deriveKeys(options);
+        alice.generateRemoteSharedSecret(bob.generateCipherTextAndSharedSecret(alice.publicKey));
+
+        const aliceKeys = alice.deriveKeys(options);
+        const bobKeys = bob.deriveKeys(options);
+        expect(aliceKeys.send).toEqual(bobKeys.receive);
+        expect(aliceKeys.receive).toEqual(bobKeys.send);
+        expect(aliceKeys.send).not.toEqual(oneWay.send);
+    });
+
+    it("Separates keys by label, context, hash and lengths", () => {
+        const bob = new MlKem768Handshake();
+        const alice = new MlKem768Handshake();
+        alice.generateCipherTextAndSharedSecret(bob.publicKey);
+        const keys = alice.deriveKeys(options);
+        expect(alice.deriveKeys(options)).toEqual(keys);
+        expect(alice.deriveKeys({ label: "other protocol", context: options.context }).send).not.toEqual(keys.send);
+        expect(alice.deriveKeys({ label: options.label }).send).not.toEqual(keys.send);
+
+        const sha3 = alice.deriveKeys({ ...options, hash: "sha3-256" });
+        expect(sha3.send).not.toEqual(keys.send);
+        expect(sha3.transcriptHash).not.toEqual(keys.transcriptHash);
+
+        const custom = alice.deriveKeys({ ...options, lengths: { encryptionKey: 16, macKey: 64, iv: 0 } });
+        expect(custom.send.encryptionKey).toEqual(keys.send.encryptionKey.subarray(0, 16));
+        expect(custom.send.macKey.length).toBe(64);
+        expect(custom.send.iv.length).toBe(0);
+        expect(() => alice.deriveKeys({ ...options, lengths: { iv: 255 * 32 + 1 } })).toThrow(RangeError);
+        expect(() => alice.deriveKeys({ ...options, lengths: { macKey: 1.5 } })).toThrow(RangeError);
+    });
+
+    it("Needs a shared secret and the remote public key", () => {
+        const bob = new MlKem768Handshake();
+        const alice = new MlKem768Handshake();
+        expect(() => alice.deriveKeys(options)).toThrow(HandshakeStateError);
+        bob.generateRemoteSharedSecret(alice.generateCipherTextAndSharedSecret(bob.publicKey));
+        expect(() => bob.deriveKeys(options)).toThrow(HandshakeStateError);
+    });
+
+    it("Derives keys from a hybrid handshake", () => {
+        const bob = new HybridHandshake();
+        const alice = new HybridHandshake();
+        bob.generateRemoteSharedSecret(alice.generateCipherTextAndSharedSecret(bob.publicKey));
+        bob.remotePublicKey = alice.publicKey;
+        expect(alice.deriveKeys(options).send).toEqual(bob.deriveKeys(options).receive);
+    });
+});
@@ -0,0 +1,102 @@
+import 'jest';
+import { HandshakeStateError, InvalidCiphertextLengthError, ParameterSetMismatchError } from "../src/lib/errors";
+import { KyberAkeInitiator, KyberAkeResponder } from "../src/data/kyber-ake";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber512_90sService } from "../src/services/kyber512-90s.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+import { MlKem768AkeInitiator, MlKem768AkeResponder } from "../src/index";
+
+describe.each([
+    ["Kyber768", new Kyber768Service()],
+    ["Kyber512-90s", new Kyber512_90sService()],
+    ["ML-KEM-512", new MlKem512Service()],
+    ["ML-KEM-1024", new MlKem1024Service()],
+] as [string, KyberService][])("%s authenticated key exchange", (name, service) => {
+    const [initiatorPublicKey, initiatorPrivateKey] = service.generateKyberKeys();
+    const [responderPublicKey, responderPrivateKey] = service.generateKyberKeys();
+
+    it("Agrees on a key", () => {
+        const initiator = new KyberAkeInitiator(service, initiatorPrivateKey, responderPublicKey);
+        const responder = new KyberAkeResponder(service, responderPrivateKey, initiatorPublicKey);
+        const initiatorMessage = initiator.createInitiatorMessage();
+        expect(initiatorMessage.length).toBe(service.publicKeyBytes() + service.cipherTextBytes());
+        const responderMessage = responder.processInitiatorMessage(initiatorMessage);
+        expect(responderMessage.length).toBe(2 * service.cipherTextBytes());
+        const sharedSecret = initiator.processResponderMessage(responderMessage);
+
+        expect(sharedSecret.length).toBe(32);
+        expect(sharedSecret).toEqual(responder.sharedSecret);
+        expect(initiator.sharedSecret).toEqual(sharedSecret);
+        expect(initiator.staticPublicKey).toEqual(initiatorPublicKey);
+        expect(responder.staticPublicKey).toEqual(responderPublicKey);
+    });
+
+    it("Derives a fresh key in every exchange", () => {
+        const run = () => {
+            const initiator = new KyberAkeInitiator(service, initiatorPrivateKey, responderPublicKey);
+            const responder = new KyberAkeResponder(service, responderPrivateKey, initiatorPublicKey);
+            return initiator.processResponderMessage(responder.processInitiatorMessage(initiator.createInitiatorMessage()));
+        };
+        expect(run()).not.toEqual(run());
+    });
+
+    it("Authenticates both parties", () => {
+        const [, otherPrivateKey] = service.generateKyberKeys();
+
+        // an initiator impersonated with another static key
+        const impostor = new KyberAkeInitiator(service, otherPrivateKey, responderPublicKey);
+        const responder = new KyberAkeResponder(service, responderPrivateKey, initiatorPublicKey);
+        expect(impostor.processResponderMessage(responder.processInitiatorMessage(impostor.createInitiatorMessage())))
+            .not.toEqual(responder.sharedSecret);
+
+        // a responder impersonated with another static key
+        const initiator = new KyberAkeInitiator(service, initiatorPrivateKey, responderPublicKey);
+        const impostorResponder = new KyberAkeResponder(service, otherPrivateKey, initiatorPublicKey);
+        expect(initiator.processResponderMessage(impostorResponder.processInitiatorMessage(initiator.createInitiatorMessage())))
+            .not.toEqual(impostorResponder.sharedSecret);
+    });
+});
+
+describe("Authenticated key exchange", () => {
+    const service = new MlKem768Service();
+    const [initiatorPublicKey, initiatorPrivateKey] = service.generateKyberKeys();
+    const [responderPublicKey, responderPrivateKey] = service.generateKyberKeys();
+
+    it("Accepts private key seeds", () => {
+        const seed = service.generateKyberSeed();
+        const [publicKey] = service.generateKyberKeysFromSeed(seed);
+        const initiator = new MlKem768AkeInitiator(seed, responderPublicKey);
+        const responder = new MlKem768AkeResponder(responderPrivateKey, publicKey);
+        expect(initiator.staticPublicKey).toEqual(publicKey);
+        expect(initiator.processResponderMessage(responder.processInitiatorMessage(initiator.createInitiatorMessage())))
+            .toEqual(responder.sharedSecret);
+    });
+
+    it("Runs each exchange once and in order", () => {
+        const initiator = new KyberAkeInitiator(service, initiatorPrivateKey, responderPublicKey);
+        const responder = new KyberAkeResponder(service, responderPrivateKey, initiatorPublicKey);
+        expect(() => initiator.processResponderMessage(new Uint8Array(2 * service.cipherTextBytes()))).toThrow(HandshakeStateError);
+        const initiatorMessage = initiator.createInitiatorMessage();
+        const responderMessage = responder.processInitiatorMessage(initiatorMessage);
+        expect(() => responder.processInitiatorMessage(initiatorMessage)).toThrow(HandshakeStateError);
+        initiator.processResponderMessage(responderMessage);
+        expect(() => initiator.processResponderMessage(responderMessage)).toThrow(HandshakeStateError);
+        expect(() => initiator.createInitiatorMessage()).toThrow(HandshakeStateError);
+    });
+
+    it("Rejects messages of the wrong length", () => {
+        const initiator = new KyberAkeInitiator(service, initiatorPrivateKey, responderPublicKey);
+        const responder = new KyberAkeResponder(service, responderPrivateKey, initiatorPublicKey);
+        const initiatorMessage = initiator.createInitiatorMessage();
+        expect(() => responder.processInitiatorMessage(initiatorMessage.subarray(1))).toThrow(InvalidCiphertextLengthError);
+        expect(() => initiator.processResponderMessage(new Uint8Array(2 * KyberService.Kyber512CTBytes)))
+            .toThrow(ParameterSetMismatchError);
+        expect(responder.sharedSecret.length).toBe(0);
+
+        const responderMessage = responder.processInitiatorMessage(initiatorMessage);
+        expect(initiator.processResponderMessage(responderMessage)).toEqual(responder.sharedSecret);
+    });
+});
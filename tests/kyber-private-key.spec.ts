@@ -0,0 +1,70 @@
+import 'jest';
+import { InvalidCiphertextLengthError, InvalidPrivateKeyError } from "../src/lib/errors";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber1024_90sService } from "../src/services/kyber1024-90s.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+
+const services: [string, () => KyberService][] = [
+    ["Kyber512", () => new Kyber512Service()],
+    ["Kyber1024-90s", () => new Kyber1024_90sService()],
+    ["ML-KEM-768", () => new MlKem768Service()],
+];
+
+describe.each(services)('%s parsed private key', (name, createService) => {
+    const service = createService();
+    const seed = service.generateKyberSeed();
+    const [publicKey, privateKey] = service.generateKyberKeysFromSeed(seed);
+
+    it('Decapsulates like decrypt', () => {
+        const parsed = service.parsePrivateKey(privateKey);
+        for (let i = 0; i < 3; i++) {
+            const [cipherText, sharedSecret] = service.encrypt(publicKey);
+            expect(parsed.decapsulate(cipherText)).toEqual(sharedSecret);
+            cipherText[i] ^= 1;
+            expect(parsed.decapsulate(cipherText)).toEqual(service.decrypt(cipherText, privateKey));
+        }
+    });
+    it('Parses the layout of the expanded private key', () => {
+        const parsed = service.parsePrivateKey(seed);
+        expect(parsed.bytes).toEqual(privateKey);
+        expect(parsed.publicKey.bytes).toEqual(publicKey);
+        expect(parsed.publicKey.hash).toEqual(new Uint8Array(service.symmetric.hashH(publicKey)));
+        expect(parsed.z).toEqual(seed.subarray(32));
+        expect(parsed.indcpaPrivateKey.length).toBe(service.paramsK);
+
+        const m = new Uint8Array(32).fill(3);
+        expect(parsed.publicKey.encapsulateDeterministic(m)).toEqual(service.encryptDeterministic(publicKey, m));
+    });
+    it('Expands the public matrix only once', () => {
+        const parsed = service.parsePrivateKey(privateKey);
+        const [cipherText] = service.encrypt(publicKey);
+        const xof = jest.spyOn(service.indcpa, "xof");
+        parsed.decapsulate(cipherText);
+        parsed.decapsulate(cipherText);
+        expect(xof).not.toHaveBeenCalled();
+        xof.mockRestore();
+    });
+});
+
+describe('Parsed private key validation', () => {
+    const service = new MlKem768Service();
+    const [publicKey, privateKey] = service.generateKyberKeys();
+
+    it('Rejects invalid private keys when parsing', () => {
+        const tampered = privateKey.slice();
+        tampered[service.privateKeyBytes() - 40] ^= 1;
+        expect(() => service.parsePrivateKey(tampered)).toThrow(InvalidPrivateKeyError);
+        expect(() => service.parsePrivateKey(privateKey.subarray(1))).toThrow(InvalidPrivateKeyError);
+    });
+    it('Rejects cipher texts of the wrong length', () => {
+        const [cipherText] = service.encrypt(publicKey);
+        expect(() => service.parsePrivateKey(privateKey).decapsulate(cipherText.subarray(1))).toThrow(InvalidCiphertextLengthError);
+    });
+    it('Rejects a private key parsed by another algorithm', () => {
+        const kyber = new Kyber512Service();
+        const [, kyberPrivateKey] = kyber.generateKyberKeys();
+        const [cipherText] = new MlKem768Service().encrypt(publicKey);
+        expect(() => service.decapsulate(kyber.parsePrivateKey(kyberPrivateKey), cipherText)).toThrow(InvalidPrivateKeyError);
+    });
+});
@@ -0,0 +1,64 @@
+import 'jest';
+import { InvalidPublicKeyError } from "../src/lib/errors";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber768_90sService } from "../src/services/kyber768-90s.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+
+const services: [string, () => KyberService][] = [
+    ["Kyber768", () => new Kyber768Service()],
+    ["Kyber768-90s", () => new Kyber768_90sService()],
+    ["ML-KEM-768", () => new MlKem768Service()],
+];
+
+describe.each(services)('%s parsed public key', (name, createService) => {
+    const service = createService();
+    const [publicKey, privateKey] = service.generateKyberKeys();
+
+    it('Encapsulates like encryptDeterministic', () => {
+        const parsed = service.parsePublicKey(publicKey);
+        for (let i = 0; i < 3; i++) {
+            const m = new Uint8Array(32).fill(i);
+            expect(parsed.encapsulateDeterministic(m)).toEqual(service.encryptDeterministic(publicKey, m));
+        }
+        const [cipherText, sharedSecret] = parsed.encapsulate();
+        expect(service.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+    });
+    it('Expands the public matrix only once', () => {
+        const parsed = service.parsePublicKey(publicKey);
+        const xof = jest.spyOn(service.indcpa, "xof");
+        for (let i = 0; i < 3; i++) {
+            parsed.encapsulate();
+        }
+        expect(xof).not.toHaveBeenCalled();
+        service.encrypt(publicKey);
+        expect(xof).toHaveBeenCalledTimes(9);
+        xof.mockRestore();
+    });
+    it('Keeps its own copy of the public key', () => {
+        const bytes = publicKey.slice();
+        const parsed = service.parsePublicKey(bytes);
+        bytes.fill(0);
+        const m = new Uint8Array(32).fill(7);
+        expect(parsed.bytes).toEqual(publicKey);
+        expect(parsed.encapsulateDeterministic(m)).toEqual(service.encryptDeterministic(publicKey, m));
+    });
+});
+
+describe('Parsed public key validation', () => {
+    it('Rejects invalid public keys when parsing', () => {
+        const service = new MlKem768Service();
+        const [publicKey] = service.generateKyberKeys();
+        const invalid = publicKey.slice();
+        invalid[0] = 0xFF;
+        invalid[1] = 0xFF;
+        expect(() => service.parsePublicKey(invalid)).toThrow(InvalidPublicKeyError);
+        expect(() => service.parsePublicKey(publicKey.subarray(1))).toThrow(InvalidPublicKeyError);
+    });
+    it('Rejects a public key parsed by another algorithm', () => {
+        const kyber = new Kyber768Service();
+        const [publicKey] = kyber.generateKyberKeys();
+        const parsed = new Kyber768_90sService().parsePublicKey(publicKey);
+        expect(() => kyber.encapsulate(parsed)).toThrow(InvalidPublicKeyError);
+    });
+});
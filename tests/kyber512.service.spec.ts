@@ -1,4 +1,6 @@
 import 'jest';
+import * as fs from "fs";
+import * as path from "path";
 import { Kyber512Service } from "../src/services/kyber512.service";
 import { constantTimeCompare, hexToDec } from "../src/lib/utilities";
 
@@ -11,709 +13,7 @@ describe('Kyber512Service', () => {
     });
     it('Process file based tests', () => {
         console.log("512 - ============================================================================");
-        let x: number = 0;
-        //let textByLine = fs.readFileSync('PQCkemKAT_3168.rsp').toString().split("\n");
-        textByLine[x++] = "# Kyber512";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 0";
-        textByLine[x++] = "seed = 061550234D158C5EC95595FE04EF7A25767F2E24CC2BC479D09D86DC9ABCFDE7056A8C266F9EF97ED08541DBD2E1FFA1";
-        textByLine[x++] = "pk = 115ACE0E64677CBB7DCFC93C16D3A305F67615A488D711AA56698C5663AB7AC9CE66D547C0595F98A43F4650BBE08C364D976789117D34F6AE51AC063CB55C6CA32558227DFEF807D19C30DE414424097F6AA236A1053B4A07A76BE372A5C6B6002791EBE0AFDAF54E1CA237FF545BA68343E745C04AD1639DBC590346B6B9569B56DBBFE53151913066E5C85527DC9468110A136A411497C227DCB8C9B25570B7A0E42AADA6709F23208F5D496EBAB7843F6483BF0C0C73A40296EC2C6440001394C99CA173D5C775B7F415D02A5A26A07407918587C41169F2B7178755ACC27FC8B19C4C4B3FCD41053F2C74C8A10A8321241B2802432875AE808B9EF1365C7B8A52902F1317BA2FB0269F47930672107B4726FEF64547394D3320C8F120B3C2F4725B0305FAB88CC7981FCB09A76A1CBF7F179F43BB0A4C8B0590857F1E69708466C7F8607391E7BC5268BFD3D7A1DFFCB4ECA2A1C9B597593013D5FC4202EC2B74E57AB76BBCF3632BBAF97CDC418A6F16392838CA9BF45DDF023777B7561833C105190F94F302C59B531900BBC816361FAA5B3380CA3A893104CA7388B185671B3E5FE3790E9A626EC46D9B0B33C7A419AF7B32B6859894F575D82AC5456B5490A7AF8FE61046360589ECBA7244236F4123116B6174AA179249A49195B356C72FC6641F0251812EAA98570B046699070E0819DC2713F469137DFC6A3D7B92B298995EE780369153AC366B06D7249CD09E1B3378FB04399CECB8650581D637C79AE67D6F2CAF6ABACF598159A7792CB3C971D1499D2373AD20F63F03BB59ED137384AC61A7155143B8CA4932612EC915E4CA346A9BCE5DD60417C6B2A89B1CC435643F875BDC5A7E5B3481CF919EA09172FEBC46D4FC3FB0CB9591704EE2DBB61844B2F3314A06BB6C6D34005E485CE667BDC7D098586928D2D91340F00419EA401351A240A0B041058BEFB0C2FD32645B7A2DF8F5CBFD873327C978D7B351A28088438837024C52B9C295CD713646FB5D6C0CCFB470734AC2B2BC8123C2C13DF6938E92455A862639FEB8A64B85163E32707E037B38D8AC3922B45187BB65EAFD465FC64A0C5F8F3F9003489415899D59A543D8208C54A3166529B53922";
-        textByLine[x++] = "sk = 6C892B0297A9C7641493F87DAF3533EED61F07F4652066337ED74046DCC71BA03F30960103161F7DEB53A71B11617263FE2A809769CE6D70A85FE600ECE29D7F36A16D331B8B2A9E1DB8C090742DF0739FF060CEB4ECC5AB1C5E55AC97BB66A7F895105D57782B229538E3421544A3421408DBF44910934CC423774F1676FF1C306F97555F57B4AED7A6BAB950A8163C8D318DEA62751BD6ABC5069C06C88F330026A19806A03B97A7696B56DA21827BB4E8DC031152B41B892A9E99ADF6E1963E96578828154F467033846920FBB4B80544E7E8A81AE963CF368C9BA037A8C2AD62E32B6E61C91D75CE005AB30F8099A1F29D7B6305B4DC06E25680BB00992F717FE6C115A8084231CC79DD700EA6912AC7FA0D937BB6A756662230470C189B5AA1653DEB937D5A9C25A21D93B19074FC239D8153539797C7D4AB62649D76AA553736A949022C22C52BAEEC605B32CE9E5B9384903558CA9D6A3ABA90423EEDA01C94198B192A8BA9063497A0C5013307DDD863526471A4D99523EB417F291AAC0C3A581B6DA00732E5E81B1F7C879B1693C13B6F9F7931622429E542AF4069222F045544E0CC4FB24D4448CF2C6596F5CB08624B1185013B6B020892F96BDFD4ADA9179DE727B8D9426E0996B5D34948CE02D0C369B37CBB54D3479ED8B582E9E728929B4C71C9BE11D45B20C4BDC3C74313223F58274E8BA5244447C495950B84CB0C3C273640108A3397944573279328996CDC0C913C958AD620BA8B5E5ECBBB7E13CB9C70BD5AB30EB7488C97001C20498F1D7CC06DA76BF520C658CCADFA2956424557ABEA8AB89239C17833DC3A49B36A9AE9A486940540EB444F97152357E02035939D75A3C025F41A40082382A0733C39B0622B740E407592C62ECAEB1432C445B3703A86F6981A278157EA95A6E92D55E4B972F936C2F0A658280EA2B07A48992DF8937E0A2AC1DCC974FE00AAE1F561FA258E2D259C3E861DCE236039127606FC1CE009003A7BAC942101DCB822B1F3C12BF73238F546E01C36B5A6936192995CC69C63237409CB53C2E35D74890D18885376FA5503B107A2A392115ACE0E64677CBB7DCFC93C16D3A305F67615A488D711AA56698C5663AB7AC9CE66D547C0595F98A43F4650BBE08C364D976789117D34F6AE51AC063CB55C6CA32558227DFEF807D19C30DE414424097F6AA236A1053B4A07A76BE372A5C6B6002791EBE0AFDAF54E1CA237FF545BA68343E745C04AD1639DBC590346B6B9569B56DBBFE53151913066E5C85527DC9468110A136A411497C227DCB8C9B25570B7A0E42AADA6709F23208F5D496EBAB7843F6483BF0C0C73A40296EC2C6440001394C99CA173D5C775B7F415D02A5A26A07407918587C41169F2B7178755ACC27FC8B19C4C4B3FCD41053F2C74C8A10A8321241B2802432875AE808B9EF1365C7B8A52902F1317BA2FB0269F47930672107B4726FEF64547394D3320C8F120B3C2F4725B0305FAB88CC7981FCB09A76A1CBF7F179F43BB0A4C8B0590857F1E69708466C7F8607391E7BC5268BFD3D7A1DFFCB4ECA2A1C9B597593013D5FC4202EC2B74E57AB76BBCF3632BBAF97CDC418A6F16392838CA9BF45DDF023777B7561833C105190F94F302C59B531900BBC816361FAA5B3380CA3A893104CA7388B185671B3E5FE3790E9A626EC46D9B0B33C7A419AF7B32B6859894F575D82AC5456B5490A7AF8FE61046360589ECBA7244236F4123116B6174AA179249A49195B356C72FC6641F0251812EAA98570B046699070E0819DC2713F469137DFC6A3D7B92B298995EE780369153AC366B06D7249CD09E1B3378FB04399CECB8650581D637C79AE67D6F2CAF6ABACF598159A7792CB3C971D1499D2373AD20F63F03BB59ED137384AC61A7155143B8CA4932612EC915E4CA346A9BCE5DD60417C6B2A89B1CC435643F875BDC5A7E5B3481CF919EA09172FEBC46D4FC3FB0CB9591704EE2DBB61844B2F3314A06BB6C6D34005E485CE667BDC7D098586928D2D91340F00419EA401351A240A0B041058BEFB0C2FD32645B7A2DF8F5CBFD873327C978D7B351A28088438837024C52B9C295CD713646FB5D6C0CCFB470734AC2B2BC8123C2C13DF6938E92455A862639FEB8A64B85163E32707E037B38D8AC3922B45187BB65EAFD465FC64A0C5F8F3F9003489415899D59A543D8208C54A3166529B539227FFAD1BC8AF73B7E874956B81C2A2EF0BFABE8DC93D77B2FBC9E0C64EFA01E848626ED79D451140800E03B59B956F8210E556067407D13DC90FA9E8B872BFB8F";
-        textByLine[x++] = "ct = EDF24145E43B4F6DC6BF8332F54E02CAB02DBF3B5605DDC90A15C886AD3ED489462699E4ABED44350BC3757E2696FBFB2534412E8DD201F1E4540A3970B055FE3B0BEC3A71F9E115B3F9F39102065B1CCA8314DCC795E3C0E8FA98EE83CA6628457028A4D09E839E554862CF0B7BF56C5C0A829E8657947945FE9C22564FBAEBC1B3AF350D7955508A26D8A8EB547B8B1A2CF03CCA1AABCE6C3497783B6465BA0B6E7ACBA821195124AEF09E628382A1F914043BE7096E952CBC4FB4AFED13609046117C011FD741EE286C83771690F0AEB50DA0D71285A179B215C6036DEB780F4D16769F72DE16FDADAC73BEFA5BEF8943197F44C59589DC9F4973DE1450BA1D0C3290D6B1D683F294E759C954ABE8A7DA5B1054FD6D21329B8E73D3756AFDA0DCB1FC8B1582D1F90CF275A102ABC6AC699DF0C5870E50A1F989E4E6241B60AAA2ECF9E8E33E0FFCF40FE831E8FDC2E83B52CA7AB6D93F146D29DCA53C7DA1DB4AC4F2DB39EA120D90FA60F4D437C6D00EF483BC94A3175CDA163FC1C2828BE4DBD6430507B584BB5177E171B8DDA9A4293C3200295C803A865D6D2166F66BA5401FB7A0E853168600A2948437E036E3BF19E12FD3F2A2B8B343F784248E8D685EB0AFDE6315338730E7A1001C27D8D2A76FA69D157BA1AC7AD56DA5A8C70FE4B5B8D786DC6FC0566BA8E1B8816334D32A3FB1CE7D4D5E4C332AF7B003D091741A3D5C965292255DFF8ED2BBF1F9116BE50C17B8E548748AD4B2E957BBD1953482A2E1718CEC66CD2C81F572D552B7187885E6B8943D6431413C59EBB7E036048490BE5289E95B20A89E8B159F61A9A9886E147568F4C9021F362F02688A1C8C3BB0D24086880E55B6EDB43F3745D2C166DC1CB743C76FE6BE523A893CC764D16435C37851252A81E2FFBA0F18971A3DEE37D4877CB928E36E5235037A6B2057897D518A5F0E348E3AB6D5B52DFC60757F3B41A4FEC7828F1DEEAF4587CCC8EADF647F4D203B2FAA05A649B582340CB4CACE57A30711BE752FACF0227D0A80C4128442DDC544BE805B9CFE8FE9B1237C80F96787CD9281CCF270C1AFC0670D";
-        textByLine[x++] = "ss = 0A6925676F24B22C286F4C81A4224CEC506C9B257D480E02E3B49F44CAA3237F";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 1";
-        textByLine[x++] = "seed = D81C4D8D734FCBFBEADE3D3F8A039FAA2A2C9957E835AD55B22E75BF57BB556AC81ADDE6AEEB4A5A875C3BFCADFA958F";
-        textByLine[x++] = "pk = 2C421AD4A7848CDC4B73987CF2F85E660C65E468346672AB09EA8B106B2ED51246271BC9D21672F6AA0B3A9B24C8F64722842F2E24CB2A47AAC689A5C57318663BC98756C199160F3A39C2148C574C23836DD060D1AC8A06794EDD5AA068AC19E42CCAAB951051756350C31D584A517FC9BB303276215580FDA99551E82449D8675F29C45AB6354107CC94509EE55AA5DB3A813ADB8B04005200ABA8F91B58A2D3B2B7D82C6461363353038099B7A0E981A85C75E0E422C572C506071DF54BB7B715B9F4A42DA1E89694A06475545D97A09EA36374F2C8BA40A5CC17EB1AD308AE862A26E38B2FFC11B7ABE3B58509B21649B86AAB9E0D1ABB601604C4152257A6691A964657BA0D1F561402545B782960E547A4DAB7B71AA95C67E64CAF568C3B3144FB29022CB0BF01B895E3327D019B591CA282D22105DA99B58BE42BAE7185E0B56CBD0C56EAD56B5DD34E9BC1859B927ED78C4EE1340960256A0B63CF4E1CC9E84A53A48B2F70C3C89E83A0005D65019A8419B5166469999A453418CB94295462D9256CCDDB3FCF8365CF0235F1D547498714A8B09553182FBA093F447A220146182A3ACF062A118B22CA49756505978F21DB629799CAD72AC5D17B2BFA52A6EA15672537899A313A4F0B7DF3F8639906BD0163735DEC5923A038FB7B5856570E279275C3093998338CB595C9A6B712C06C526166A725B9098EA02EA10C5D7CBB86B935703F122DEDB05233202968B59825F41F2C17BA76AC661FA69A7998C5FC6C2FB68A7820576B1FDA2C73DAA29CC21DCDCA47ADAA1B3B5258C1575FC9270712F3B8842978BE50A18DA45159B99272162891CB8A63CACFBC30BAE0A4364C8A6537E1B40E825C4A311488B133956690E494443AB44793D3717582701FAC5486DA4FFAF02C058BA688FB88DEB3C94E7445CFA89A79CA5F4B991ABCE25CD6B74AFBE9C63DFA0F40180B242AB52C1A455C0664F7357C048B27E05CA46B8605E6843C66FBC2A6A29BE135C39565A916ACADBBF2AA2656125B603BC88C9D710399A84850840169BE61BD4EF3687777075F0C7870B61903A26E6391A88B114E96F13F56BE785D942D7EAB011805CF3504FCE325B6A5EF1AAADBBB11C662B9D2";
-        textByLine[x++] = "sk = E1785B13943F2661C372CA63A0C6AEDED27F46C81B837293B9867B9F7CCE0611C61B318ADFD67C09969C27A095E53C124B048CD99027C9103E85C5C4D72730A34C8ADC406ECEB4AFE02444671319DF175465EA9A0D91291C18CFC9367A333475727B64E6F73E50233B81AC0978364D18F72DB39A4041D4B25A095DF99BCBED090496DAB62AA250945A97BD297A539A1AF51648C8378C1B21A2FC311B57860C368A819F2B8C15477243256970313B2AE082C2F8BDACB658A89C6BDC788325D48292DC2395F51DF765A4A2E927769C84F5FC306568B4B5E7487B8B9F79DCCE33C80B988C955544CCA478AAC902C2A6F2A4BC9A9478A9B318F78586C696942B6F4C2931E85042DB27314CB546BEBC2236C2136D581EE22978D2B79EA3B662A8BC7CC17CCBDB59AEF8B0CD77A4A680672E9AB4ADC2D011BF471865F92F4A4769A8157B87769AC3B86448851E80F8BABF394907D4C8A51C7BA4CA62CD7AB7BBC4219778CE4DC22955772DBD1330C10055DBE106D11863D7B14B6301A622EC35F3AB9B3494C12E3929BC321950FA1036D98A3B257C20D378A9798BD3B57E50EC88617B49B75022E10130E35432F3ABC7165952E2B7652C0BB1FA92A16D7B3273D2709077164BC60CBBE747205B6DBBE5912947CA3914C1A106B66708212D443898616273E006ED507E30D7A7B6E389739B637609834561AD4E227DA0289ED9180BFAA48A58EA75CC1744F75007A99611EAE775A1F5411F1376A7F25E758C8B69BA731D28BF016970A9A3579ED7150C526B098C4AD277C6D7294462CA65B6F3B7062956551428477B9C57301ECADB9C7ADACA67C0423F42704B008A90861B45C19D24E521080C69FD20A5DCA45ACA18ABB356375A983081567E22798F530AA1E0AABC2D7B3A208446E9081BA2420B8AFCB8EDD37DB536689695749B632D99316653E97056260979974E44D135589A283DD1486856BD1AF59E24394743C7A036A68161E31010CAC462A6A7AC0058E1640AAA686311D939537171B8128965C70FE8EB0F10DC1A2BC50ABA436E2AF19FFBB3C6451A9FE7784678A519473010F9E69F9601502C421AD4A7848CDC4B73987CF2F85E660C65E468346672AB09EA8B106B2ED51246271BC9D21672F6AA0B3A9B24C8F64722842F2E24CB2A47AAC689A5C57318663BC98756C199160F3A39C2148C574C23836DD060D1AC8A06794EDD5AA068AC19E42CCAAB951051756350C31D584A517FC9BB303276215580FDA99551E82449D8675F29C45AB6354107CC94509EE55AA5DB3A813ADB8B04005200ABA8F91B58A2D3B2B7D82C6461363353038099B7A0E981A85C75E0E422C572C506071DF54BB7B715B9F4A42DA1E89694A06475545D97A09EA36374F2C8BA40A5CC17EB1AD308AE862A26E38B2FFC11B7ABE3B58509B21649B86AAB9E0D1ABB601604C4152257A6691A964657BA0D1F561402545B782960E547A4DAB7B71AA95C67E64CAF568C3B3144FB29022CB0BF01B895E3327D019B591CA282D22105DA99B58BE42BAE7185E0B56CBD0C56EAD56B5DD34E9BC1859B927ED78C4EE1340960256A0B63CF4E1CC9E84A53A48B2F70C3C89E83A0005D65019A8419B5166469999A453418CB94295462D9256CCDDB3FCF8365CF0235F1D547498714A8B09553182FBA093F447A220146182A3ACF062A118B22CA49756505978F21DB629799CAD72AC5D17B2BFA52A6EA15672537899A313A4F0B7DF3F8639906BD0163735DEC5923A038FB7B5856570E279275C3093998338CB595C9A6B712C06C526166A725B9098EA02EA10C5D7CBB86B935703F122DEDB05233202968B59825F41F2C17BA76AC661FA69A7998C5FC6C2FB68A7820576B1FDA2C73DAA29CC21DCDCA47ADAA1B3B5258C1575FC9270712F3B8842978BE50A18DA45159B99272162891CB8A63CACFBC30BAE0A4364C8A6537E1B40E825C4A311488B133956690E494443AB44793D3717582701FAC5486DA4FFAF02C058BA688FB88DEB3C94E7445CFA89A79CA5F4B991ABCE25CD6B74AFBE9C63DFA0F40180B242AB52C1A455C0664F7357C048B27E05CA46B8605E6843C66FBC2A6A29BE135C39565A916ACADBBF2AA2656125B603BC88C9D710399A84850840169BE61BD4EF3687777075F0C7870B61903A26E6391A88B114E96F13F56BE785D942D7EAB011805CF3504FCE325B6A5EF1AAADBBB11C662B9D213F0970C03D32967B06CCA4CF58E87559128D14CB3F876A1ED10EADFE03FC1A9003271531CF27285B8721ED5CB46853043B346A66CBA6CF765F1B0EAA40BF672";
-        textByLine[x++] = "ct = 148869316FF02E3434078481B0EFD5C01697B0B6A95448E34D38F1BF326AB9B7215CDBB7A43FA2AF48760E4D595278538D482E067549F46D725114DCF6EFE5DC1FE7F8E6023F225FB3CFA8B17B1DC06B1D639A786DBD337793699BFED98C533203E8A053F210DE15887CCC5174CFAA7E6D99AD11E61A8D3DECBB5D2C9DE33F96DF78855B55D9CF62FF8597C5D61DE8E24BCF6C792CB57AC0B249FDD2D83A493716FA06FAA5E3AD4BEE1BE8EA00B789E5197E02902CB64A7A7B02416427A58E1EEDE1E23805908756ACD919DA013F8B53584F77A55BF5E8F28B9FB062279F0AEAF93B2C7B76D2FC70E94F680FB7884D4FF9CBDD28A948360B8D48DB38D617B98F5DCA38965A1F42FA9FDF154EF5883EB1A89D08CB5B861F783B8FA1FE99F1253C782D2035E667E7AFA6FC8D5EECC3137633A8F9429C1A50AFBF3302D30826C8EB57BE8C11C3A9DC70CF1D8449ACE55EDA070E3FE0FF71789A32A309242A8D740413576B659120A23ED0F1C35AD2CFB40CDDA23E3DFC5E7D18E8B22C74081B604725ECCF0541EB4F007919B7ECA52FC23AE229D9754337633425E4238E6F3EB0A265C90EDAD0C6A5885B3B1B58B549C6C4CEA5154E60AEF72A72C7D991198F5C855957896007EC0BEC440450E6F64092DA3F8E12B29A26AFF0A5EA08A36C01EE46074B5B3E9F00ABE821187D3DF337E4E18CF4BBF9A0D7D2DAADF0574AF638B71178743F907CF8168B73277342193B8BA4F0B55767456A778E071B73517A3BF9A1151D51B86F26CE7F1A0D6E0D2BC8FE60FE6ABF6F01439C5B0E09A93AC4A7B03E92B80B0C669F4561E8FD3DF47B4D61C79C000CEEEC451B607AA1F3DAB186A6ABA51F155C56A1357566AEAC90B8C198E45DB251FB3A1BB020F068F7027BF86E0B83327CC88DC1B963CD9BA5E8C7B68F22A27CCF87B55481D46A804121D819C9BDFA4E0C1FF5E4907DBA06DD4E2F95FEA50A22B60D0AD383E7630494407BF6728AB7AF746F4B115F1969C50222DD8006BF0DA01756FEE5AF6A400B884F9076310000F3BA694AAE5CFF0B4C7FD837F58286A25E10CA4735EFDB7EC0D7AACFA83D2C";
-        textByLine[x++] = "ss = CED6EC70083226B02057B7F47E40943320B3D10DD4AD07EFE0F007EC8C06B3AF";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 2";
-        textByLine[x++] = "seed = 64335BF29E5DE62842C941766BA129B0643B5E7121CA26CFC190EC7DC3543830557FDD5C03CF123A456D48EFEA43C868";
-        textByLine[x++] = "pk = 59720C3D802726470D1C567B5908698650360DB82700E7B9DD26013B6A8184316DF3C59194FC96A0821A95C666EC5B130262006442CEF64428794672B43BC1EEBA20DE01BC70C15835952164E5A32705BFA7C64693B9BED53462F5AA6DE2569195147C70A789DE2153B3F64411534CFAD0ADBF8BC0AA51BDAF396E5746517C5547B3112FE08188DA54932B9B458458C55F146FEAA9620E7BB6CE21648AF047E0027C3553813AA81574F26483E93A5AB3642AA1332BC34F86328E5F80B272AA8971D175EE6A3D762ACD8279331E849179B9638C17B525AC600A598E4DCB7FFD68C31A9B27D3B17F63FA0E0DA16A3E54BC85DA61A0119A95201FA51906D6E2257B2CBD7235ABE8B80E80947CECB5CE87F9AF68442E8B6336C68AB0B170A67CC14F5E5377C4CB5930705775E522CA466DFEBB1AA800B452262A01966FF624CE79561B3A40258BE53512D01B749C25EC903923EA58E6677E02B0430E996000C637D002BA09DAC9E717AC64B634688B558D598E4017CBD46A160C621DBB2B961638B08A488FE8D814ACA37165A43DDD4B3908D84246794678823E794C9191332F344077FFAA50DBD2A6E0692ADDD353588B3E87E31F3AE4030B2371EEB1CAD20699BD6A459DBA53E6E3AA8A56BE4939B3E4B58C172CBBC4AB1F87235E1F114CB93C3150E25277459C43A6AABE39AF63EAC248D19F21B17AB5A2AC14169B01563DC818552CEAB71EEC2C2422C3E5F703B84BCFB457707A0B3EDC80C0EFA324D407D077CAB9B416B3A97713B89C6D65C2584CA652E6C4416BB44D3E7478EB21CE1A555456B94271689828560EAF4394BED93A86D48EC082A7BE576B75D00EC418228BF93C7037A49339352828AF07F3729BFA739B00D04B5502B9D6054BA525D724A0DF8506D9EA56D750072868CFCF07716AF003A02C45D4991F4503BF5AC86024857ACAE4CE24850DEF0632A6DCA9756C5C8A459341C69E93E154858B7C917592BB91C23AB622D3F84B9C81445E5A1E59262BFBF025286BBBB5D03EAA794445F7839F3AB51BF5AC48C978F0310128817D27E658D9F468F77C4C69DA09DD8526539C2598F4A4AC60E8CB68627382A145F91BE9D78FD51BA5E3FCBC3155B62BC07751DD";
-        textByLine[x++] = "sk = 50D47AC334A631E3C9BF8AA02BCC7E35272025CC37F8C844641704226029A3AC14BDA6458C33790C806430BC478470B94F164A1B074C5FD034466922F41CA7C70A61C0E9727263579DE085EB468CF44A3DC112525B878645A7483C0916A28B0AB8CCAE79352E45BB186806A29C381CABA12E0B505831200F8B874964686E754B66A66B2BDE90826FD34938A46711A01599BAB22A148C80FB0BA8455EF42C0B5279122BE3CEDEF27907040F9641B681500C50679DE3F534C5AC8754F925F446C6A114A989CB7B4269A95E3630C582C9AF505AB7D3AB6533288C9316FEC5512C21CE2866AC26391C340467BAF3AB3BE8C007587B77D7C7CC10C036C06D8D1590F417BC2C8909BB85ACC8D29FADAA766E89788C406D35DA78990A0AA2A1C0D0F92F73C152CB797F976B5173010A35FC649744C69529C354B616A8BA471496970365B1EE822C65201364405838D398BA047E5342AD71D831F2762798E282D8381730184EB5536B85EC8D0F59CB5B7A10D2334F876394F1F154BD6272BBF13FFC243EA0C53B3AD3ADF9382F135766D5589769B7672B5126CCD6C8928709CD638C28A38C0AC9CCEB239F147BA6CED8BDFB39688E1AB90CE31B44B76C32DBAEDEC4B84503160DB41E19F82B401B7A97D44161DBA79D991468635F04545982F7B818585F28A320B744533113515CA95B9CB37512E339E716C92569C8ED8122C131AD265B7859BBB069C136818A24250339E1ECCAD295CF95F6290BE90E2A94B21EE4AB84EA5755332AFDB1545CB97EFFB091221B9B3690B06D66795DE7898669609FB26A5D37814ED9B7F55592B02A6C1205C8F0C23F0B691B6F64194D1270F8042A7EB6563CB2B178F808AAC06FCEA7432B025499499F2D5B8B476BA469E7BC43E4A091E88BCEA08454E83D2606ADE78A4984D6B6A5586C04090051462AE79680A676735267607B256D5DB4C6A7B2846A73093885B277043B7E98CEED99BF743904438C8888064EE2834109A70141F791E5E26BB5281301064935850E40641183B4C1F3776DE042A78E0966540AA25CD484182B30FD3CBF0581B7B4A31250C103B6620059720C3D802726470D1C567B5908698650360DB82700E7B9DD26013B6A8184316DF3C59194FC96A0821A95C666EC5B130262006442CEF64428794672B43BC1EEBA20DE01BC70C15835952164E5A32705BFA7C64693B9BED53462F5AA6DE2569195147C70A789DE2153B3F64411534CFAD0ADBF8BC0AA51BDAF396E5746517C5547B3112FE08188DA54932B9B458458C55F146FEAA9620E7BB6CE21648AF047E0027C3553813AA81574F26483E93A5AB3642AA1332BC34F86328E5F80B272AA8971D175EE6A3D762ACD8279331E849179B9638C17B525AC600A598E4DCB7FFD68C31A9B27D3B17F63FA0E0DA16A3E54BC85DA61A0119A95201FA51906D6E2257B2CBD7235ABE8B80E80947CECB5CE87F9AF68442E8B6336C68AB0B170A67CC14F5E5377C4CB5930705775E522CA466DFEBB1AA800B452262A01966FF624CE79561B3A40258BE53512D01B749C25EC903923EA58E6677E02B0430E996000C637D002BA09DAC9E717AC64B634688B558D598E4017CBD46A160C621DBB2B961638B08A488FE8D814ACA37165A43DDD4B3908D84246794678823E794C9191332F344077FFAA50DBD2A6E0692ADDD353588B3E87E31F3AE4030B2371EEB1CAD20699BD6A459DBA53E6E3AA8A56BE4939B3E4B58C172CBBC4AB1F87235E1F114CB93C3150E25277459C43A6AABE39AF63EAC248D19F21B17AB5A2AC14169B01563DC818552CEAB71EEC2C2422C3E5F703B84BCFB457707A0B3EDC80C0EFA324D407D077CAB9B416B3A97713B89C6D65C2584CA652E6C4416BB44D3E7478EB21CE1A555456B94271689828560EAF4394BED93A86D48EC082A7BE576B75D00EC418228BF93C7037A49339352828AF07F3729BFA739B00D04B5502B9D6054BA525D724A0DF8506D9EA56D750072868CFCF07716AF003A02C45D4991F4503BF5AC86024857ACAE4CE24850DEF0632A6DCA9756C5C8A459341C69E93E154858B7C917592BB91C23AB622D3F84B9C81445E5A1E59262BFBF025286BBBB5D03EAA794445F7839F3AB51BF5AC48C978F0310128817D27E658D9F468F77C4C69DA09DD8526539C2598F4A4AC60E8CB68627382A145F91BE9D78FD51BA5E3FCBC3155B62BC07751DD083553153F7D65CD5CBE201E681245EDA61E1EC2C7EE6B91A9CCDEB6B76943B7E82FCC97CA60CCB27BF6938C975658AEB8B4D37CFFBDE25D97E561F36C219ADE";
-        textByLine[x++] = "ct = 9F38D01740BC9AD1D46FE0EB0AE538866B2846073AF151F9D55FA354233D0ACF62A7A3744814CCD33B4EEBF525565AC096212F5405624B3301B14630473760A30836E64EE14F3BAD9D97CE0ABD37753D4A104184BCE3DE9D9F0F486FD4A1CDDC786B887AB225C8D10AB156FEED875EC37904626ECC5CAE50F06349404C63C3D2F80A8FF43C2399ABD9B098EAA0A124D488A1DB5EBEC9A460F027A836840003AC23ECBF9A5612FE438B960029D4DDB3E66BEB79D8A8892D2FDBC1D4E70565DBDC756F9BBF85089FC6B448FF6F03F406693A8810B5B5D7B14D61B93157B7A6379F959964FA8540A830747E7689DC7164A1A1B4155798E74A8B17C2E89D7194F8E974B704403C9675E1DC4E1C196AACB0D5137A500023B683AC632EDD3ACF949D4A1E95E38EF6F6FDBCCB5EA800BB53255A69B4E33D513B27D022D0B414C8C1A7C335804643A76A0B617D5F2D6CA6A866C7234F981B63949CB413C7C257D495319BEF42E5817798400F9904C01223B77369139152E02A843011A3DA07E399470C225DA68951D1D52C36F12D73448CC81A6DC341F8AD79B107E3426218ADEDEEFF0FD8165FFF78C2282ED24C83490F3558BD1DBE0B9113A39F95A4AA6FDF64602377A41A8A2ADC01F3BD242200B97FF7E72CBAF937BFF6793519D91ADCE6327D1DE876BA662579450E48F7451A5DCBD9A0B866682922BD39CDB893E9465DCB2F6E12864ED2D35059B636FC7CF9B995FDE29D7F464446454FDD9ADCBCEC705F8A1102698D10671AE7FC3418209BB2627BCD5693DC23EA0322B2859338D0EDECD71867B571FDDBC7137969B48F51CB6EA8C731BB1189BC75738070254DCC8F7FD3FF295D6DDD36481A66C2AED8E43BEEE1513244CE52E936F4C8CE71349E756AC52F23C89E41DB4707E6B2BF92076FA5762562C8D941A2E3B56E011EA0215DD5D0AEA99E705EE4DD39517D4071B75D1DF6B38809A5A542BDB0941813916A726ED586D3A4196032DDF183A5F6DCB4F624CD69BEC9CBF6E8554CF26DF23E59A4E265B1C976B358B768398763C340D168CBDC8BF00F62CD01E19FD8DB87429291C688BD80";
-        textByLine[x++] = "ss = 6F21DF33B8398BFA65C9C243214E22D0BEB5F0D801E4F9E71D476F8B7E3A9688";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 3";
-        textByLine[x++] = "seed = 225D5CE2CEAC61930A07503FB59F7C2F936A3E075481DA3CA299A80F8C5DF9223A073E7B90E02EBF98CA2227EBA38C1A";
-        textByLine[x++] = "pk = E5DC61CC732B09E221AD8840D101040C4428A798704DB118C037476701A79AE30F9B7265038ABCD0933D1100492A6B2FBAA7C0D6C22704571520F35E322A4BEF080FCB4C83BC62C432F75F6EF22B2B1722351343CBE4460B25B4BC806BAC542576CA42F30C7DDEF6082199A4EDC2237E5271EEB024E154CBD2D57D4D5A59840561C0C76004A8BDE4F48F4E0168CCBA259BC99B9F4C54CC2A8C1489415C422F70249235235F81404C3601079A3C8095214AE03C86BB4A1487A00710DCA3DBAC8A89D045DE4768E56329EC6709A9208DF6D3AF6F8C7DDD6284F144120E1449BFCCC6CEA22BC3917C90F6591062525804054553A46A226093383F12B8529D306CA2FA03F3371DE8641463A353513A593D601F91937C3197CD535768F78AA4EC11C4F59267B5FA47B0B2312AE97B77AA1C3631B7033CB17B5A592C89091D0A2062F8C7299A2BD7F77832899B1A84AE67A3C11E87B17A0050523B9A9BB87DB0152CBEE582B9D821937A2770D07D6E2113832C1456662AB38475A1527FD23287E45822C5D0C19875CC4C60C9EDE44722552013B6AD7EE4B860EC2FF8337789832002026D7B54676B44667961654902912E3116402824A64CC67655018803AB2C06540123166D78B87BE63997692EFC099E4BD72D734B1E9DD6344DF12070773B06C5C1FF3B32417546EA5416C204917F104A3E603BF1F09FEFC3184FA43F06200423C3026B3A2374186DF33344CDE1CCDE212EBF626410907FDA57A9538B165B3911E016438C4B3F0E485B3CA3001EF03466A8749D1488E24685FC1CC89E012758473601B572ACAB4DB6A93EDAA6AADBCA7924C23115769DB3A4185AEBCD09A9B045B3437DAB3336B47A6BC23370A53A5E327B6654091F9A435451CC26B41ECBC129AE109475793C3977B532C6A8CB3317D3270BBC6BBFBCFA1C2AB2C41908520184000E3B62DBC3005839200B486D6B89B1719505F6FC4A3B7A41CE4A4677B64688284EC18915F17133F81C4F73C13E14632873652554685DEBB7B987C66D01B9049F6B2E44960022E7916B61A55C12C4F5E099CA059E3F98704AD5CA1D2676496C21782D978970256C691434F939B02C14F42B1874087EA68917C2F3E31315E22581";
-        textByLine[x++] = "sk = 456C6C1D6630BD63C8B0243D5B1A6ECC09A28B09BCBF96CFAF056E936A0184D6774D9524F4A6000E974FA7879574629504F09A12838DA39C7A90F4637C1BCBB16677B491B87F653AA41AB5F6E279F917C65403A78D07B136AC8486EACF42252428C3B09ECB91F7A953CF98484B036F48622A6DEA3A46E7B33C500B0E39620B640F6C14BE17FC6D04CB815D4691687737F413491A8B9E30F28C7E2BCBDEB92B21A1752B6261863C84FC5918EFEC496311CBC7557223CB65F2169EB6E1BA98B42A56B71CCC6133A7B50EE4442ECECABACDC960856B590F5792D973A3AB82B3FF6B36B64757D04787E0C4728C0649CFE16D2FEBAC26A2BFABF985CC8B1B5511CA85760FE559B28072286E9B4C732B156DB2A9D08238E54336A87837DC93B4742CAC0F05C2D75CCDF06787B21548F19280C05298BE80C79296BF9609A8D88347413B426A38001D59CB5787513FB53A51A0CD39C903E12A512891C43D39372EC2C0F3398DC091729CA80061DA2484A01C58B8530956268EB6A5E764443190CA2CA896F142C16D83BD93014EF7852ACFBC48C8702F1B39513EF20F50D92EAFE74CC057ADB1C363F59A9B962697C37892759859080A287D5B7EF62A4AEC718020519BD5B59DA69C60A249B55C68C2D523A507245D39C8374C67BA02D172CC98893761149BCB6FCF93CF779431DE95132A029591C92273078A403895C40467BE735B6D2346DFA33568F654A25B7586E63B5A820998374A0A01123CB915512C1557B4BD1366BE2C259C511492D4B200F9E618608997B2B80FDD873A42859D9B98A279121DE3A5A06652BE7E948C01045EE41A08C068519D9125A7BCB79C5C713F2C4CA4DB7C30F9A7A7052AB68280A4B59D22844551E4028F8740253447A479B5FDB0371FFB4C39104B51C13A3EC7364857A775F3A8837978F560C31052B01F648DACF8440EB3500C447EF81641130CAC60748CB1E108FACC918AF165224B91FD52C7EA1A7FB5F83217284D5E20C951FA0FE47352F3A22D80D0B95875BD80640D95142DB2639A830BA302F49A8CAABF009104F8B136BB75A38D168274307DB8D136EE08CEE5DC61CC732B09E221AD8840D101040C4428A798704DB118C037476701A79AE30F9B7265038ABCD0933D1100492A6B2FBAA7C0D6C22704571520F35E322A4BEF080FCB4C83BC62C432F75F6EF22B2B1722351343CBE4460B25B4BC806BAC542576CA42F30C7DDEF6082199A4EDC2237E5271EEB024E154CBD2D57D4D5A59840561C0C76004A8BDE4F48F4E0168CCBA259BC99B9F4C54CC2A8C1489415C422F70249235235F81404C3601079A3C8095214AE03C86BB4A1487A00710DCA3DBAC8A89D045DE4768E56329EC6709A9208DF6D3AF6F8C7DDD6284F144120E1449BFCCC6CEA22BC3917C90F6591062525804054553A46A226093383F12B8529D306CA2FA03F3371DE8641463A353513A593D601F91937C3197CD535768F78AA4EC11C4F59267B5FA47B0B2312AE97B77AA1C3631B7033CB17B5A592C89091D0A2062F8C7299A2BD7F77832899B1A84AE67A3C11E87B17A0050523B9A9BB87DB0152CBEE582B9D821937A2770D07D6E2113832C1456662AB38475A1527FD23287E45822C5D0C19875CC4C60C9EDE44722552013B6AD7EE4B860EC2FF8337789832002026D7B54676B44667961654902912E3116402824A64CC67655018803AB2C06540123166D78B87BE63997692EFC099E4BD72D734B1E9DD6344DF12070773B06C5C1FF3B32417546EA5416C204917F104A3E603BF1F09FEFC3184FA43F06200423C3026B3A2374186DF33344CDE1CCDE212EBF626410907FDA57A9538B165B3911E016438C4B3F0E485B3CA3001EF03466A8749D1488E24685FC1CC89E012758473601B572ACAB4DB6A93EDAA6AADBCA7924C23115769DB3A4185AEBCD09A9B045B3437DAB3336B47A6BC23370A53A5E327B6654091F9A435451CC26B41ECBC129AE109475793C3977B532C6A8CB3317D3270BBC6BBFBCFA1C2AB2C41908520184000E3B62DBC3005839200B486D6B89B1719505F6FC4A3B7A41CE4A4677B64688284EC18915F17133F81C4F73C13E14632873652554685DEBB7B987C66D01B9049F6B2E44960022E7916B61A55C12C4F5E099CA059E3F98704AD5CA1D2676496C21782D978970256C691434F939B02C14F42B1874087EA68917C2F3E31315E225819DF5746A44B10C1886F62B068D18152A85792781160E1A1A19A25B5CA00555F4DE950541FD53A8A47AAA8CDFE80D928262A5EF7F8129EC3EF92F78D7CC32EF60";
-        textByLine[x++] = "ct = 7128AF3984E3DAA4F96E695466982004AA8070C26261A735B0C32F2FC1B8D933F1908132066543C66D31AE1AE9ED8CFCBD3E58A8F799E038F951C41E80F80C798F937AD5067BDF31F7D475EECED983619CEEBD96BEB20C51342E5800B20B59CA8893106740347420E8B4125A3FC75BC6D25CED6F4915C803BDB905EBAB9FE59810440608F1DE38560C40ED159A4911DE6E71E52540B955707853CE95F26D7EB4C8A6D826247ED177E81FEC7EB9427505DD9512135AADF07F3E5C3261B7CDEF98E15D237C15F27BEF3122B6077972CBD5CCADC934E521A5BBBC4B41CFFE24F0A508BABFA9EE4A394C92D1FF032ACDCAF0FF41F3CBAADFF84EBD6D2D4722E1C4EAB8378545D1CD6298C2BBFD96A4DD53E9BFCB6B7BB5A2D6F2598FB33F9C9D73581F6EF5CABE9978ACD44EE4EB0BDA63F0351BAE1FBD0DA82B28A0B01ED423E5603CD80BD6B6D7BEBE8029FD6E21F3FFA547B4ACE5038888C88F3BF72AAD591AD08D7DDC980B948E651C95CB23181049AAADF5C3C24D3C84B4A25E16FEB4A65726068E110AB6C9803FD84012E0F5FE5FD1826D46C2D647FF555777282798B5A029BA70B58AFA260A1C9907CEE7FA9E5A131D55709C0226ABB1FFAA7699DDDFEE4AF9BF07F05AB3C1125FC4284BE197D080BCE513D48F5C09F886C7B2B39FC343024581281EEA9C986F053AA66A88CFE08E7AC1B7AD46D289D8162855C1E68D6E11E82806447A5D312CD046058AF1F963E65812EB8465781872F6FBB8EFC1FE2A23F109DFDA2AC41FDCA6446D7D1394BDAE575E1636A739321F2E62F0B97537CF9E65DF9E1AF5FA115E64A296FD4CE8AF8AF152E125633CEAAEF6F91F94EE38AB015EB1A899418C48E0A2F977B48D3A2C0518A33EC637E7FA97B0D1AF0134158BDBEB3D171381F9CAF13CAE1EFBB69C5B95CE76B0BC1815E2783CD29966FC57515014F0BD978ECC071C0E9736C096E2CB8EA554981B9CA4EF793859E66D7E948E42283D6EC17600DA36B2CA68C305FA50BB9C73BF221647AFC377BEDDF9424BFAC99511F2ED97B6AA7123D76A77A925729C916731C32F9CFB01E8B6CE0BF06E3483";
-        textByLine[x++] = "ss = 960B57F0FEB34AA25D29A42A94565F697A8133AA1B7407BCE017C8BB4A6ECCA8";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 4";
-        textByLine[x++] = "seed = EDC76E7C1523E3862552133FEA4D2AB05C69FB54A9354F0846456A2A407E071DF4650EC0E0A5666A52CD09462DBC51F9";
-        textByLine[x++] = "pk = 6F70C439F9CDA8E34B944822C2396459384AD21392A627522037607B29C8D619B4729A68E2164964339819D88B393269FD3478D1836F80A9CF51B03FE697846C44ABE549AA16A25819E38C9CA1262AC103F4417CDE8138F84050C0BBA5FFB5090C81BCFF1BBDCD67739BB60D236215B8ECB5C9002DBF41B36ED335DC4778153761472421D2043F06A8A83422AE6FD0680B860CFB589A3F5B85EBDB94B3F21D24F374949563E8A35EEF8C70507C47DCCB241DFB53BE08B129A283367B48894C090B523E6AE0637FB4894707812EA9B528F54395D0BEA3BB3A6772881061C28B8C24ADE167633C30935A6C4F29A68FA298BD0C0BC1729C330953FDC5BD6C92595D576E4D6CB45A4A213AA299512C304FA2A3F6B1CD8D545150965BCA39703EFC502608BCD1E42DA21CB129400DBA7A9A053A6CC17066D9D98899D7C4AA3CAB66B1C13D58251EB196959A6A250BA45023B9E6A6A8D192C0EB548E69D20C68F0BAC8EC682B366926D62E878123E198ADD1D31ABE91A02A5CB6FDF6A40255BC3355809FC8AB529A00B0D451DCE9A657E961B4787829132A7192139532195BBCBB0FDCADA2C515E3A83CF2485FB5A28F648981DDEC7A80470540C71D53C29AAB8009D9067C703643C1062165E3745D3CCC4E5249EFC87B9F73AFA08B1915065DAC1C4C68422F89589526188CEAA19F64F0CAD4781327E85665B5C59E8C3797F72642897DB4515DA47B994B2C6D3E41949363262DD721573021AA3373AA22758FCC22DBAC46806C9005001C92AA9B05D0C789DCCED4D427AE762F4A1953C1A643AD2CB2220C8800D376B9F76C1D94A0A4E194AFF46422FB57FE4B2B2DE18A060627C3F19B984AA7B738BFF9336F80171F8236A3E95372975650D6B28398865F206A1BC81C346EE76999B8B889C83551F42495000EB9F5AA3AC16B9247091469815CF4533EAB9BE2CA283B962AB0031892999B55822EEC5503D7201F446B21EC3319813A4F7B70B68A438C6147C182C48DED8C5FCA18B2C7322FC3E4341EB46BB130464A7868C5D3CE5B1BB479E69BBDF20DFC59380099CCFB06789FA1183C35857717BDA2467F6D44DE229C527F6E4E7071CB826CFE76FEA483D9163EAA84F6AFAC495A";
-        textByLine[x++] = "sk = 8BA88EB6987AC9337D47B0A4A56748E272CFBA9BCD68EC072528AA26B45CC407754CF07202930B42371F012C9E4C2B23B69252F8D82061DACB58C72EE32B0A5AEB7FEAE54333411E3FA56D7AA46FC4392803925FF2B41273E23428F3A636CC99FA855003D6CA4F71253E66B87D2815F1092898B942C7173BF64832DBB05C4398C9366350D7D9AB146C6208498CE4340E75E7B9BF729DC207C37F1BB554437A6336535A42546BB4B4D8220E8660C785E96E974030D7315C94E394F8B8056FE31634909A0537CB215581AC29CC9E545311EBA671C7986722CFF1567851E71FC7046B92473227F1127249A7ACABC8BE252F4136C9B9AB6B5FD92CCC8AAD370329D0418CB96A6F02621C01E7B00AF17197CC7143653794826FCFC05EE91186DAA50BA6336AEC812DB7218C0E291FFEA70782A46D43E84DE1B700C3E3A54C1839FA933945C4BF58692924110E72C3A7F9F19F6EC743D4585163E803973B7992FA8F3B087EA14A3D5B8110F2001E72AB8A79A34347A24D74A68B9E0406F2BCA624454D1A6C77DC0A1F9FC3801E701DB5247B10B0215C474086163653EBCF0B0B66260046599A9668254BFC8871E947C6F8A5212C7245647C25329289616217EEBB1577020D4506BA3446A9914C512BF62A2FF26D1BF4CF582A5552332B239776B00C7730BB02BE799DF92377D16C957B726D89B57B29B13BF290A6C45944D272CE117B6C5D596BBA18097429B6BC5B2042919FA83630BD55934AD7400804865B01CCFE84BCD17303EA205B3694CC057AB2DD42CB6826264928A05F2BAAD530A62FF497E3E09A6439BA8799B3A20865EC340D05E7C4C3A596B59CC62245A1F2B52F0D45B939E177C595A78BA16CBA965043B210BFDAB8E43241C26973654A737F6A3B8C70C3F2C472109C89FAB0AB41FABEB2268095165B8E1CA5A63A53A478B398BC5E84E2B41B8CA6D2D6659101A9C1A97A11AC34FC2A83757390DC00957B124BC1D1BE92A4AD3201BDC4924AD3F24216B2894286640546C865536D02508DABD619A3C258756B436B1286AFF17F750511D13C0960F5080D1C0A011989BAB77DB0253B6F70C439F9CDA8E34B944822C2396459384AD21392A627522037607B29C8D619B4729A68E2164964339819D88B393269FD3478D1836F80A9CF51B03FE697846C44ABE549AA16A25819E38C9CA1262AC103F4417CDE8138F84050C0BBA5FFB5090C81BCFF1BBDCD67739BB60D236215B8ECB5C9002DBF41B36ED335DC4778153761472421D2043F06A8A83422AE6FD0680B860CFB589A3F5B85EBDB94B3F21D24F374949563E8A35EEF8C70507C47DCCB241DFB53BE08B129A283367B48894C090B523E6AE0637FB4894707812EA9B528F54395D0BEA3BB3A6772881061C28B8C24ADE167633C30935A6C4F29A68FA298BD0C0BC1729C330953FDC5BD6C92595D576E4D6CB45A4A213AA299512C304FA2A3F6B1CD8D545150965BCA39703EFC502608BCD1E42DA21CB129400DBA7A9A053A6CC17066D9D98899D7C4AA3CAB66B1C13D58251EB196959A6A250BA45023B9E6A6A8D192C0EB548E69D20C68F0BAC8EC682B366926D62E878123E198ADD1D31ABE91A02A5CB6FDF6A40255BC3355809FC8AB529A00B0D451DCE9A657E961B4787829132A7192139532195BBCBB0FDCADA2C515E3A83CF2485FB5A28F648981DDEC7A80470540C71D53C29AAB8009D9067C703643C1062165E3745D3CCC4E5249EFC87B9F73AFA08B1915065DAC1C4C68422F89589526188CEAA19F64F0CAD4781327E85665B5C59E8C3797F72642897DB4515DA47B994B2C6D3E41949363262DD721573021AA3373AA22758FCC22DBAC46806C9005001C92AA9B05D0C789DCCED4D427AE762F4A1953C1A643AD2CB2220C8800D376B9F76C1D94A0A4E194AFF46422FB57FE4B2B2DE18A060627C3F19B984AA7B738BFF9336F80171F8236A3E95372975650D6B28398865F206A1BC81C346EE76999B8B889C83551F42495000EB9F5AA3AC16B9247091469815CF4533EAB9BE2CA283B962AB0031892999B55822EEC5503D7201F446B21EC3319813A4F7B70B68A438C6147C182C48DED8C5FCA18B2C7322FC3E4341EB46BB130464A7868C5D3CE5B1BB479E69BBDF20DFC59380099CCFB06789FA1183C35857717BDA2467F6D44DE229C527F6E4E7071CB826CFE76FEA483D9163EAA84F6AFAC495A9415CE164FADECECACD75FDAD3284AF20C52FA576699029D6E0CE77BF347D520BE2D3C64D38269A1EE8660B9A2BEAEB9F5AC022E8F0A357FEEBFD13B06813854";
-        textByLine[x++] = "ct = 876FDD66462486D16FD2D9F8EB48141F438989265E5568C5489A6E37AC0EB93F0BB1AF8B3C31E482BE6AFFA9912B73546EABF54C1D6C4E54CD56551142FEC463E0E54A07B616772BBC0E1E15FAB7CE928CA17AB42C471A6F890BD747DE66DC78BDDE3BF6E9CC7C03D33528BFDEC49E2AB3AD4C8ECCE7AE427133B9025489D480FADC15DC0B6BDD1A02D4F4BF1678376A5F8557CD342A12A029C54D7E4BC30CEC720670012AA775CDA9E6053132C19785A105E1405066568F5713AAEAAB599A63B78009052EDA0EB01116A28423E7E67156BF391803FBD42A5485FB0EFE37EB552E58DA11C7A4578665855E529DA4064CD753024D600AF5C867C8C04DB5F3E5B1AB553A9A833878BDDDC03ABC7CB2EAA895911D0DBE2B6B7DD5ACB88C2FC382CA32CA3646C855DBA8F153705EB6D32D734C69FE1A12828F5EA033A27B7A324D8175ED44D6CD457DAFC0ED196B7DB657C98DC921CE4D95478A418C007998A44E7BC9B0F2516D9B0D61F6D3846C0B515EF4FCFA4A64DD11715F3E9A6FFDE8203D42225E57D74EE09FA26AA171803A53CC7DEBE89F416656467237CE24F35C15590801EE03CD47DE000218FF246872B005C16E65A25ABD0A9B617ED97C4219BB19417D56FAD220E703B0A007F7E990B18EA1ED0DC2C838160616ED9F4CF9C544994C5E4ADB22C7840EF57217E29BABF321EB31252E7001AE61D3E34BA4E34EF31A00AE2518752F23008B1DCB6258C558A8BDB106E3CF3C4FA06B1B446E4973F19EF8A9588913A6A6CFAA8B64912D3C941459C776CF932DF726F4C13CFCF23FDED7C55619D66D09989F826A4121ABF262B54C98DCDD0E53CE79B6FEB143E8C32DC343D8C9C0C00C8D03E9EFE3A1CA4661C004978EDAD452415E3C6A83514213F22DDA8E71FFA78C392FFE82D51A80FD3F89A2000BAF1BE764F080F8DEFFB3C12115F86395AAD3015D7B52B1E57F9959E2DEB0ED16E723190D73F2D8C81A6959F23C076D6A3BBA599E3F6C0DAB15F0C70C6297107F6F0C2B5091C8AECA10B285AFD63B0F5D83D45D1AC811BFE2C57D45533873AE83D1B10C8334416AED3BF7B19BC248";
-        textByLine[x++] = "ss = DCD0210CC9F2B15B448B7591C54F94DEB65AC30C9F2DE59109BEF5CD4CE34D96";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 5";
-        textByLine[x++] = "seed = AA93649193C2C5985ACF8F9E6AC50C36AE16A2526D7C684F7A3BB4ABCD7B6FF790E82BADCE89BC7380D66251F97AAAAA";
-        textByLine[x++] = "pk = 4870419A0B91A8B97BEA251B03C51630381AA802B51353721697C4BD2891F37698AC51942D44C931F205AC15BF35708806A118DC32B51655070CB196246B6A63DB0C57D727D9AA812C676880E3532A435E191935A6DB1E1B110CD8A89A751378B5866F0F263871F7B46455C9CF34711A957D23C937E797CB78090CA1043EA8EBCAA3B73C768892832C357B0CC48E875F849149FFE63A21A169798B00CFAC58EB666C9AB68729DCB60CAC6DEE1497A64533989C0A68B151F8865DB5F421EAE77292155F12944322E579D8F61C20EA53B34CC7553B6A97DB6C3DF847B8AAB6B993C4AF02C44D2C0FF555BA6C68132CC6B9C4766ACD030C33374BC2D556D0D45926E33D68667780B34C4B56B1EEB350BF0C5E10561965E45551398A9632169D6A53DA1314A9B4533F4C223FCC46AB0730A8B463C537C2D5AB8C9956C542D6119F76B82AFA13FFE637E09297B2E6565277079081C574B05D50AC2BC8E9538D0105F828B539D47F3A9A293B4B9B834B2CAB741674B8C61F28A778B736B699BB989705890951C30747896508421068DCCC0F990611EBD800C942BE5C886A59B008E6FCC86956ABA6863BD9558417A37579B7139EFB5BC47B1AD598464F287A3D8C56D748C6AE794F31842FC3ACA9C5C05FB5F76C5F740D2D7908E01A173B75A35B8A70CD645E66E8A6D290919F227EF5E5BEA2816B31829CD291B136520FB1A2825EE01DCBBA7AE9A10C60A297D39C7B40F53D02D602627879FE6B4C00ED426A0B065429ACAB34BE641C356BE26A7C5012B9643FEF007577F79DC99459152C13E64618B9F9B3BE0B551DD33DF8CB7D890C48EA83B68C42A327BA25FAFB5ED65C31F4E6B639230AA989B1AE7A2C5FF3224B33883955890E5C7AA691463E58977C31445FBA5C408047D227AEEE6BC90697545CE0885C3ABEA2EC9668359E59282C22A0920EC76A282C545A80896F5A4705C02ADEDBB0F8DCBA46F36C112B578E7B4C236899D81259706C3D99B0ADC3EC44E58171A5E21C052767B7692800854132624FF438B03CCA42473622A6DB189BE32C7E906A23238A6CF57559C63721C86E73378347C12DC8EE619E1A0C8915822D574A243F67E14104D4F021CF95BF33271C9BC9";
-        textByLine[x++] = "sk = 7C15568EE11684858038FB1BF63793968151C90A6FF875A0B125696AD14347A3130F5665340954928447243254EA8B089FB665A3C18564F65BFF5AB648A58C2FA7C7C9C101D055202E1742EF98C68930CCADA716E03877EA7C8CACF13739B22059EB0430CC97FEB3A41DF06D2E35930EF904AC669CACA41C9A24CF96075E92D36CD8958D96584DC9C85BB6851735FBAFA07164A2A13C253949B44769179A2DC2B655E1F0CB66EA2C39364B5862B070B805A58B4541F8B32E5C2BC6B2C2DE13107462CD2B4C5F783184BF61746043277952816BA4C6C259108F91BCC15A951C012310D78D14C96ADD4C043E3A341E072AA3B1CE83214813005A759519700362FAB0226A58A932F71BDCB03BA0A99F3E0656DC1A28CA3328B4FA531B3127ED790398A45CD0BCB95BE6C91AD3B2F94092F7C4B99ABC864842466290C5F077544B4954CE06A57671213E9A7DC1405B2C1228CA2824B4B433EB65901A2903ABB2C4182A144EFBA1FDE9063BC40D5F7940B5044055D106B064B099183AB5AA34BA4480AB6266364C7D9F5689D7ABC47822C456122AB2B0679F2C096D4C0C6F29774620C09378A8FCE888243BC738A6A3E3607AE261396855989C445F228CAD87182951586D21033F32C250C13881A2831F9C738018953AC3F53660B962517A64CBB2B1E26867C77529FC21AD452C7BD562B30B5720EB120D9B517C7F8CBE1123A090359DF30C3115E57FB61BB47F4CA5DDB2A443B9A2CA56A6F58010D7D0CC05698E1EA539C32920A8424420B675205B905FD117FE0C7BB1F888C7DA6DA060A24B450813A613D9C8BDE20C38665C918A133BA7DA7C4392467CB32F21CA3F7C37206175B242070236A12F5AE73A37000E386130A0A15E06F0A4D97004D8018223726B454623CE9A31BA150CF6182EA4752714B2870A612B9C1484E0C199ADA27293648035954DA75BA723A82F4AFB2C7085111709A63AC5B9F6E201BD11CB30F48732C84F4EE3622DC83CE6995AB81B20A8E16E1B1684062569F4EBC4F2637038F489755CC7126535D65BC6CCC0A00AC27E1700657DF77A59F57339323041A2160401BC4870419A0B91A8B97BEA251B03C51630381AA802B51353721697C4BD2891F37698AC51942D44C931F205AC15BF35708806A118DC32B51655070CB196246B6A63DB0C57D727D9AA812C676880E3532A435E191935A6DB1E1B110CD8A89A751378B5866F0F263871F7B46455C9CF34711A957D23C937E797CB78090CA1043EA8EBCAA3B73C768892832C357B0CC48E875F849149FFE63A21A169798B00CFAC58EB666C9AB68729DCB60CAC6DEE1497A64533989C0A68B151F8865DB5F421EAE77292155F12944322E579D8F61C20EA53B34CC7553B6A97DB6C3DF847B8AAB6B993C4AF02C44D2C0FF555BA6C68132CC6B9C4766ACD030C33374BC2D556D0D45926E33D68667780B34C4B56B1EEB350BF0C5E10561965E45551398A9632169D6A53DA1314A9B4533F4C223FCC46AB0730A8B463C537C2D5AB8C9956C542D6119F76B82AFA13FFE637E09297B2E6565277079081C574B05D50AC2BC8E9538D0105F828B539D47F3A9A293B4B9B834B2CAB741674B8C61F28A778B736B699BB989705890951C30747896508421068DCCC0F990611EBD800C942BE5C886A59B008E6FCC86956ABA6863BD9558417A37579B7139EFB5BC47B1AD598464F287A3D8C56D748C6AE794F31842FC3ACA9C5C05FB5F76C5F740D2D7908E01A173B75A35B8A70CD645E66E8A6D290919F227EF5E5BEA2816B31829CD291B136520FB1A2825EE01DCBBA7AE9A10C60A297D39C7B40F53D02D602627879FE6B4C00ED426A0B065429ACAB34BE641C356BE26A7C5012B9643FEF007577F79DC99459152C13E64618B9F9B3BE0B551DD33DF8CB7D890C48EA83B68C42A327BA25FAFB5ED65C31F4E6B639230AA989B1AE7A2C5FF3224B33883955890E5C7AA691463E58977C31445FBA5C408047D227AEEE6BC90697545CE0885C3ABEA2EC9668359E59282C22A0920EC76A282C545A80896F5A4705C02ADEDBB0F8DCBA46F36C112B578E7B4C236899D81259706C3D99B0ADC3EC44E58171A5E21C052767B7692800854132624FF438B03CCA42473622A6DB189BE32C7E906A23238A6CF57559C63721C86E73378347C12DC8EE619E1A0C8915822D574A243F67E14104D4F021CF95BF33271C9BC9CA2232297BA8B986DACD401896CB6239F557720D91A2CFB7A73274BAC7A0F6DEA08CCF451B049FD51D7A9AD77AE14A81569DF8C9BD3A8F1EBEA86FDCFB823082";
-        textByLine[x++] = "ct = 49FA659550F609B17F4910BA0EE1ED57E336C87A23BC31F7295AD1CBE5B7538D99260B19DDDDA44B70E6C21BDE6D7A8C17D6A02E12D3EDFEBAA28DAA9DFF00DF122371E72FB6A22156F5A820AB06EDD9AA8814FF2E0211FC40DABC8E2C283ACACF361215E95CCD67721AB7BFB9FA007D9C1D34E47DF1DADAB355BA0CD99D541863B26D982AFA24320C5E251776219BFD4B6EB200BC1015141961AABA722086553AD08CAA443E538E04B2DD51A725034F4B671A8A5E79356C56230370228BCDCC890AAF5316C3557654B5138B3AEF3135FCF7849CED1515FBD55D2040A85D0CF249DB458743E6F254CA2D8579F151320750EE8A6D13D37BB3CA5B26202753B50685DB372ADD69930D6DC7D7E44173C9E549C7973CD1D1E2DD97D0E9C45202619F4D8C574B52DE4A8525FEAE8D8F9F59C0D3A76FC1175E03D0D7ECC3A2FE9DFC4940D05A5A204CA37BFAED464528F5C13CE0289613C9FD380A05A5C72AE7EA92AB1F7410B5AC7BE841C7F5C63A28D416F717349DB664AB80047034247B01CF58468FE6E2879F7F2E1A59FF91D1B90662DC4B87C565B5878BAF63EE92081EE7C52CEC190AEB4BB421B24E807D3336CFD5CD9685BB1F0FEC3F8E2CCCAAA6003B1A6B08D3B6EA7A7D5AEF0DA454D933211BA02920B57ED3DBA450F8B7A46E172B3D416442F68A5139F803E782D7D782EC8D150792D28135D07968A8C5196E384B94BB222603FB5ACA84FBF910B258B64660C63B0ECE1DA802A837C94F0AA402EF84681782A56EF466C7B05950F4B0758B4BB730CADC2F938EF3078741F5190079AED397C788F975ED7DC6F6E9BF921155401A47969AE7D86AAF15B144059DB06E1625E18E4CF28BC60CE2F03786F58EDB889BF1C4071BD8B423426EF0749221C0B6486FD90939517F993D78B8C3B1AD87C3AA5E796CD3C22CFDB1818806DCEC80E2B8D30CBFBF61B4AD518D335E41B62CD479E897D0BBFC390E2A32756D981AA05D017A0C8FF3C9DC693E635023A1CB595816CBE86F4AE3E5E1EC26A4B3649D4DD47CA35DCFF186C3C5A8A78764A9B494D872591C6B73EE0F2A05A8BD27B24554A44F";
-        textByLine[x++] = "ss = EB0A5A154A1E9A97633929CD64B3C7E61B58FF6EAE29C994DCBED1BF2708E99E";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 6";
-        textByLine[x++] = "seed = 2E014DC7C2696B9F6D4AF555CBA4B931B34863FF60E2341D4FDFE472FEF2FE2C33E0813FC5CAFDE4E30277FE522A9049";
-        textByLine[x++] = "pk = E29100EC15605818B877D7399D4C70C4E3B362A3268FBB7E41D494048740EA222BC38B5EBD3CC8D049A2551A731EF31684247F30FCA3F03C0A7D7245D0E81C25359F245B9523040FD2D24AC3941A213B561B974CE45156D268A0D6C5B555E251E18B31B7753C2826BF6654453B81A11478836D08C6A803AE48E0892E927960118D456232025C3F516A99E4818627760C88F3B8813B57E9EBCB37FA391FA1C7C8BBBC358B40DB908B526A85AC86A03848820879314CA86A2C326F5EB69E7FF6C5A0C3779C20214581BB5F4973FBF54353FC448B0B2F00FD746F303473717FF829218B22BB23EAA132E31CCE576EFA0A53015C3788C82EE55A69051A62B6293AAA9A4398D61D25DC679964C33C6028448B92ACB7AC1115C50DD3B064818CB0224209193797EA3DF48B6FFDD8228D148514AB0C11B1840B3843A7472876231B3BD91822E8469A5095ACF5B2BB5B138425B2D60C1E018951951917630B8DA2372AA239BC88D5A086B0B6AED50618AB25000ABADC6684266939D4468EF5C651FF69B11B928355170FBA871A59ECA1F7073689516D17AC6298D2520E8328F3CBAF8DE33969AB089D6A046BB979C3365B2DD2704C359C04797384C5C7F28C342227B045E40E88D4BB5C792381E639C86A12885596144B1A6CEA01EF9794122466E3BB779E2B0CCF9048F50557D536621D280B02547234700E442B6278D2B0CEF240946C542292C904BA31A6A38CB9328874F824FCA0504238BC090BBB78E60B2EEC76C900BB6010240B839D433C4968833715121A884B362FD8C8EAF90A241B66D7522B6908C43890CEA4EC80CA232BE3AC573BAC2428192087B43CD15891585339A6123475209AF6C132BE24A387BC9657C7B80C4AADBC9BC6CB94C3E8465EAE9934CA662742950F431C93A391618C2A410834C2231A92C3D91C471803F22543CE530A17BC924FC326AEE4537A5B43FB655E00E46185E809996B87E27C6361FA7B53DA5AB393CB56B1B9676155F2E57092566590642BB090571C6A92F60C55B339618389415C259705FC858AB71AA50021C1191359576C8390A70E703F32EC26419602CFB4A4AA443F32D16B72616A0DB4D3849FC41A7A6BA87F4AF757A0AB1956518F";
-        textByLine[x++] = "sk = D99596F420A269879B1E577A0A909430147C8A03B654D4B4D42C348C041017965B1202819E666242365779F52ED935A0A7253A38C25E55855667042E4EAC0504659D64E83B9A0B2A15428A9052CE450000B215762FE0240E3743BA526226C20A6388B9D0935B208BAB0F028CE7D1C2141A2D0DBA1161B44DD3269754DA10C9538A22EB914FA22D0A364C6433736D7BBE8335A182E14E269488A79C6322304EA2C438BD9B9A6FF700B8BABC0F7303398300945A6DB091229A44464FFC8D3DCC615D7A7922E62B134770BAD9A9F718398202AAC3AA23FD927B002D2BB38C990B8C4E5F1789F6D51520647B5A94BADF1B148A38A4990836936C0E9C294E95218445E3131AC9C57C88B7DA491C15B91E906C4E898114672A9C58EB04C9F0BF79B02A983027D5B5CD52371A11DABF91D79329EAC48997A85AA64BEA5217C43C257EC2784113A18FE28402636139075B5D76ACA968742D62C89FB528EF3AC9F30C5F23A94D8CD19A07E88A25D25167082FAB269A0E010979860FB7BBCCF580030DD58E34993178097B79034AA5709F7366CED6A4978B5C01C7FACADD7C69D856BE8EB836DBB9319A575059F9541A12A0BC86976561CAB8660FFD4C828AE534BC5A8B9F1368928A2AE6B397347CB7CCB104C6D3654AC497758480FF202C32944D003A7C0BB944753C4472462538F1A34E2A1774E9295ABB54A1AA59EEB317E9336A3B868346806A4DCC3055750DA202BB87E3C1AC87224E32154627989E252558655B08CB6B878CA8AC403BE561211551AE7AF8A3C9E748F23C292B81931662515BA3814D7A86ED7668A4F151AD8A1B4DDC2166AA007807C9BE492CCBA666ECC02C887AAF9F47649FEA6D34A40CA39806AF384B06B548EE55477B5A2C0D62375BF6C00A9B49F541719452A2A5E01981A8CA034ACEEDA83932A938A7476C21D6CED1A6874BB073B1646662F0B3C3F6654FE032A510856C67264F32BA16BB4DF0D3209A025413692B424B0B01DB1B5BAA4621EAC639C6076F1251B106217C88751AA93D28873AD4E45593164076F0CE79925E714752520C2728B96D2F53CADB79A51C96B6E29100EC15605818B877D7399D4C70C4E3B362A3268FBB7E41D494048740EA222BC38B5EBD3CC8D049A2551A731EF31684247F30FCA3F03C0A7D7245D0E81C25359F245B9523040FD2D24AC3941A213B561B974CE45156D268A0D6C5B555E251E18B31B7753C2826BF6654453B81A11478836D08C6A803AE48E0892E927960118D456232025C3F516A99E4818627760C88F3B8813B57E9EBCB37FA391FA1C7C8BBBC358B40DB908B526A85AC86A03848820879314CA86A2C326F5EB69E7FF6C5A0C3779C20214581BB5F4973FBF54353FC448B0B2F00FD746F303473717FF829218B22BB23EAA132E31CCE576EFA0A53015C3788C82EE55A69051A62B6293AAA9A4398D61D25DC679964C33C6028448B92ACB7AC1115C50DD3B064818CB0224209193797EA3DF48B6FFDD8228D148514AB0C11B1840B3843A7472876231B3BD91822E8469A5095ACF5B2BB5B138425B2D60C1E018951951917630B8DA2372AA239BC88D5A086B0B6AED50618AB25000ABADC6684266939D4468EF5C651FF69B11B928355170FBA871A59ECA1F7073689516D17AC6298D2520E8328F3CBAF8DE33969AB089D6A046BB979C3365B2DD2704C359C04797384C5C7F28C342227B045E40E88D4BB5C792381E639C86A12885596144B1A6CEA01EF9794122466E3BB779E2B0CCF9048F50557D536621D280B02547234700E442B6278D2B0CEF240946C542292C904BA31A6A38CB9328874F824FCA0504238BC090BBB78E60B2EEC76C900BB6010240B839D433C4968833715121A884B362FD8C8EAF90A241B66D7522B6908C43890CEA4EC80CA232BE3AC573BAC2428192087B43CD15891585339A6123475209AF6C132BE24A387BC9657C7B80C4AADBC9BC6CB94C3E8465EAE9934CA662742950F431C93A391618C2A410834C2231A92C3D91C471803F22543CE530A17BC924FC326AEE4537A5B43FB655E00E46185E809996B87E27C6361FA7B53DA5AB393CB56B1B9676155F2E57092566590642BB090571C6A92F60C55B339618389415C259705FC858AB71AA50021C1191359576C8390A70E703F32EC26419602CFB4A4AA443F32D16B72616A0DB4D3849FC41A7A6BA87F4AF757A0AB1956518F34486689B387BA25DD0E9AEDBC53034924EA4EF9497B5772F10CA4D091E9E84684EF52DB5EAA6DF8EC3A0BC5FFA730DB0DDE8C5F38F266D5C680A78D264A7B96";
-        textByLine[x++] = "ct = 61A6B12AF356EEEE284CE659F04E09C46B620B93B0B48CF7AE1C78027DDF61550698D932B3B88257ECF0631B999B910D794E9180C2B3B62F5BBC9D2E9DD011F571502F4FF2F488223F0C3197D0E83D9FC8CD06988B768B952A63E0AACFF6F61AE24235F21A2A9DF654698FB10AC1B413AF28611DC219DC1B6E453CCD3B8354E685136D2B68C0912E2EE463AB2B188F7D5E9C6D6CA26034ED7D5F7FAEB0B6D26383CB362D6F25BB9031627CB032F4B426410822CFBCAF25D9898306B531DD83CB0DB904E6275700F6CCE8ACE9D26EDF9DED5409BCD5555BADF554F01B40393735F99DE4C8C4547F830D998B73358B509AA6C03E188FD132E66E1AB06E2BAD2E502BD510BACADCFB08150E47C1416009A0C7D71CD3B70C0D73EBA0B52A4843CC38DFAE96DD8A53A09007C5ABEF4CE2189417EB44B887CA20055848D898A0F1A58DB4A57CD38C45A9DFCB05F494A46FB09077C39389FA35113AD39F160A89D1F360484CBEE658BFFB2ABA535669C708C81E8BFAB1B36482386C49285E211C6F02E5F9BBC8826D8803E3C309F23C4C9540178DD93E7179C0532F980415E741F69A1598BECA2A8BB86856B123F9557EAD3B85D6625FBBFD43FE028E01C78CE4FB7D9055BB23505A460A04F816F92BDDC48CC19E57CFCFC148963D983F3FB0AD7A47DE0CF8C1BBC65DA583EF75F5F357CBBA775D35D6F2BE25F11AF398C634277AB023AC859A20B2390761EBE825931CF4BED27D860E7D8C12AED8117226060DC268646EC4C73C74487DF97380775D522AD93B74CD65408D40682D28069F0FD66C2211CDEDCABE8D051F7EF2F6AFFDA0C2D36A65C4D1B3C8EBE5720ED3A60E5022D5CB8C4BCBF32DCFCF48DA5BE2D91D384A49C9D702814A0C6ED6D425CFA16C1FB1B042D48B48DD384565219ED400987107FCE11AF13C0FED29B8564525427197AD956A5D1109E3669168D39B60F240C561C5E70317F98675074760620E65A739485A44A6B87C7E186C21CC21980A65BF90526D1B55D9AB5A6FF5225CB01C64786B081896E5EAAC84F28F81017F69D2F0AAE68A3239BC9DD5CB1BA47B055F1393E5FC";
-        textByLine[x++] = "ss = AE285BB95FC5F0EE80E7FC232C952062E5BFB8AF0889EA344AB3717EC1A2C6EC";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 7";
-        textByLine[x++] = "seed = AEFB28FDD34E0AB403A703B535296E3A545CA479C1D8148E2D501B3C8DD8B1034BD986F13F1A7B4671BE769359FD2AAB";
-        textByLine[x++] = "pk = C51BC84C04B516A56479711AAE6B9EFDC04AFB251A0C121B249A03CFD27D8C435892C88C0DB5291DE3999DB794EF43A14EF966C97C02764BBCC6786500CDA603062E54B0444E52835C67B5BB524F52E670553C24CB89C8367C5AD95639E96C707EC3AF467A8521C5A557347830C931E32207C8A255DD72A3DE5AB401E540359575689233E1693F477B8C8E027629B1B2815B27B9B557F8123950B307A9D91E1DC2278A44B3095989399A4629E7B84A0A666C3696D1076B207AA958EA956B964C654C599C862A74730F16A223BB97AF8D82331B7421172723473CA0F3E24BA744B2BD561900C45DF2F3BD53CA25DF405A93CA4AD222989A58136C9403AB5428B908CA82BA0436EA046F548F9C00AEFBB27F497A15AB108F39F2829CD38D9DB01C05E717DF09D0A96B1B24C8A6E5E5354787429E559D61C853C1354F60DC4AE522141BEB5F3AD27388363A392275EA8B7D08B68AC583713B714B9CC79BD9CB265D91666242429AC62FA6991C2501638772552EA54652B4496BF790EFB876288BBD6CD4500A344F0FF17264F73D0A1A10E4D63B06884F8A5C3562BC8617BA4F33CA14E3B40FD8117BF547B5910107F5863E7AB3C3EBD98522F81923DBB55EB43AF41A1AF1047B68B940BBBA364FF69DC57C60C6CB88D4DC43D84C00B0437DFBD913ED15A3BB84C542137ACF1205F4826FE82BBBB701BC00A23115BA718BA5C80CA301AA970D303A0A9E5B64ADC04AA8C8C12B39513989A8A27A578309661DC31A5DE69BFBB11308FA2AC4D701BE266CFE14A03E961FCB6132E7678D5FD06FD1A74262837B8B7228BD297A9685A98F217976B527B1DC0662D6238C8C4F05AA29B3CC182B78A7F29172BB2A8B50FB861624CEE1C19F4F0739CBB157D8F60090FC847765209AA4B9B782127F400EF49CC962C96CEB7AC05DF85E1E8A601DFB9117C9CEC48C2EE05996E0535DBAB9309D365687A4B61D8A746696182DF7126B5B8C5FB27CBA016975D4648B006F2B9C2345AB61FA68C7CE7901CC09538FB6349A391403802A26316BF15CCAA90686142CCF5E709CD4B6380088A18C42826330A454C8A32AD3702602E6D28FDACDBD2A03546764C4FC1C62C0EFB3462C7C88AB8D94E20B";
-        textByLine[x++] = "sk = 5E200D8F0801013081BC4A25B4480561B991D9741778034F86E10CAAD22023228A6D7B498182BD3C8B7706B3044BC8BE88461BF6E96E851BB4149AA60981B061A45541985446A0A3FBE47FBDF9A7680BCEE9D9A004968B63E53553911F262500D13CB97E66554D184C2FA005D5C56A096558CA81A20F6066FA0AA22895883F23889EC024C8401460802A6A36C42050ADC1475C58F08D4B7135C000A76F26218D946289C3C4FFE80B6B903B4E8999C67B59B067C23390BF134A9ACAD0CFB150B09249AE101B45A8BB089962B327173801F156984656C63398CEC94DDB6454405464CEC03D69B0C81B629FA6BB5E15E8A86B2623F9EB7D44A4573EC58DE91A2F4672042A49019187870D3B3D810658AC6529DCC145E8F4703238458313CBEEAC8F393B4911A40E7F90CF8EFCBD0987289A899D09D21E1DC2A810C61DC0312F2EF95934B7A86408C75923616C15594CC3CFED41888500695BF1506707561F0129B60A13E1D7A8DC1CB9CBB96F91122EA3A68668488C3BE91965263619D28B22AC557B8B39E7050478E25CC4081F6C255F2C938C224A2D8A11AAA608ACBD6A3F9B1A097E36661F979CE7DB8A7054006483AD74564FA65B7C52C620FF28B6CB941A70570571523E419B900A16BE7BBACBB437AE3F1376D21461672599B38688875CBDF489A0E080714A731C6F147812E688DB77A1AC091EE1B1AE24DB55AA57282FB3B96DA70E4F3594352918BA207B0D870EC9E13491E4B2D51C201C62CB22C896C7F342C1D98D05B87FBA883C93A17E44D27A569289EF888DBE63242A029AD207CF54D8A8DF513FBA39C828049B604A5CED06BC0762C4E2074771364BE66263440A6C828359BF1B129EAB51D3AC18EC6465AD6215442808B3036714F541ABECB6679B37EE76600225C190A2CCD6674B6E95A9564C156DF47436491E380C78BE7861249647F0474466E781CAEAB7989838D9D82CB355B0E3C51963129E57153F2E58A7FC843968C331B1CC57EEA37EE11424BA6673A8EBAC23405E86C77D0DC316F708444649A9D5907318044EBE4857F69A5B8DDAA9ED9B0BEB656F41149D4EDC45C51BC84C04B516A56479711AAE6B9EFDC04AFB251A0C121B249A03CFD27D8C435892C88C0DB5291DE3999DB794EF43A14EF966C97C02764BBCC6786500CDA603062E54B0444E52835C67B5BB524F52E670553C24CB89C8367C5AD95639E96C707EC3AF467A8521C5A557347830C931E32207C8A255DD72A3DE5AB401E540359575689233E1693F477B8C8E027629B1B2815B27B9B557F8123950B307A9D91E1DC2278A44B3095989399A4629E7B84A0A666C3696D1076B207AA958EA956B964C654C599C862A74730F16A223BB97AF8D82331B7421172723473CA0F3E24BA744B2BD561900C45DF2F3BD53CA25DF405A93CA4AD222989A58136C9403AB5428B908CA82BA0436EA046F548F9C00AEFBB27F497A15AB108F39F2829CD38D9DB01C05E717DF09D0A96B1B24C8A6E5E5354787429E559D61C853C1354F60DC4AE522141BEB5F3AD27388363A392275EA8B7D08B68AC583713B714B9CC79BD9CB265D91666242429AC62FA6991C2501638772552EA54652B4496BF790EFB876288BBD6CD4500A344F0FF17264F73D0A1A10E4D63B06884F8A5C3562BC8617BA4F33CA14E3B40FD8117BF547B5910107F5863E7AB3C3EBD98522F81923DBB55EB43AF41A1AF1047B68B940BBBA364FF69DC57C60C6CB88D4DC43D84C00B0437DFBD913ED15A3BB84C542137ACF1205F4826FE82BBBB701BC00A23115BA718BA5C80CA301AA970D303A0A9E5B64ADC04AA8C8C12B39513989A8A27A578309661DC31A5DE69BFBB11308FA2AC4D701BE266CFE14A03E961FCB6132E7678D5FD06FD1A74262837B8B7228BD297A9685A98F217976B527B1DC0662D6238C8C4F05AA29B3CC182B78A7F29172BB2A8B50FB861624CEE1C19F4F0739CBB157D8F60090FC847765209AA4B9B782127F400EF49CC962C96CEB7AC05DF85E1E8A601DFB9117C9CEC48C2EE05996E0535DBAB9309D365687A4B61D8A746696182DF7126B5B8C5FB27CBA016975D4648B006F2B9C2345AB61FA68C7CE7901CC09538FB6349A391403802A26316BF15CCAA90686142CCF5E709CD4B6380088A18C42826330A454C8A32AD3702602E6D28FDACDBD2A03546764C4FC1C62C0EFB3462C7C88AB8D94E20B39D1850F7ACB36ED2A35E9AF6F94A06C31AFADAAE3545A069F892ECD8929F76699DAF37400CFE59841AFC412EC97F2929DC84A6F3C36F378EE84CE3E46CD1209";
-        textByLine[x++] = "ct = BBB99016433826348694F96A34AAC89C0E7BFC2F9915D34A904B91147B560B8E453158B41A00F7B461871D5EA4068555661BB40AA7C99950FE26F0FE8E02B182C558F3C7CE378F1617DDAB1B37D9209678DFFAAAB60E7607E0D033EEAE7B4595407E62ED2A00B86B65F6A1689BE52A0C4D4D48872F54733BB9E25922A306CB00B2FEB95AB748630ABBC701952DAB4BEEBA9A5B588D8637ADE051DF9ED830F6FF324046BB3F4473A64E98D1BA0C4FB0275158B4829DEE034C6ACDD8BC2E8AB2DDDB3B66C6DF8C08193B0B059873E566386F4D182CAB2466BD7A72F6E8898FA3AAB1CE34776183097E7D9D64066BE882963604AC056BC03AEDFAE85BF44C43E6C712881E28AD021EB4C679506BE8B4BBFD7402BC8D493CAE15B9B2C802C7142FF3001E5A1229449AD611EB3F12C3ACBD8C5E330EB72B012370D4D12B0060AEB8B453158518DA6F74FD9A2DD3DC2DB2595561B1ACFC8916DBB2D69407467BF60EFF1DBEFC5437F5ABB81B862EC03C1FE76A5A47F73207201E2AAF9733768C09C5DD6E859BFE1462F6B9289FE19644E4648C86A5A38709781CAAC8870C76549F35B960097C2D410F7FC76B4822812553375DA47D2776B35851C3DFAB2A8D8A70884CE66BAD0071864036D07473045D6F00A0421247D454AB14A97F747BEB47B4C77DAF56D6BCE577D42E5D80ED05D2EB1F3E5CB5F4DC6B66C64A097D14CA604C948D6BFDF778F2786C109D4092E343A040157AF04D8059953DE32F697A671D79035EF4F2A899C20E29DFFEDEBF92D735BB43BAA6A4BB9F7471215B9EDA2A3B2338B0B5E1E58EB684E214AF78AC8761986529D73E9845BCD05BCB7AEF148814B50F4E07D6D9387702D3828EC98B041DF90F9E4341DC99F40CA92D300A2BC47F98179D5FB09098B5899BC13ECE1ACF3C8159037DCA2039CDD9037C5D9613A995E6CAF8AE15AC6C589E5B54C469F1FB918D011786A4A4847149F3853D693CFA318C37A8D60D0D1011A4980279140273EE046A19EE47D61AB07D3D95F5B2F9F2700A4BA3F022121C7F8A0B44A1A1CFB0E679BAE294EEAC7719F55154FF54B98B77C6DE39";
-        textByLine[x++] = "ss = 74C903FB47CE2B1E24B37136BD96CB5FA2D39681FDEDC4B8B0C6E9C7D1D6402C";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 8";
-        textByLine[x++] = "seed = CBE5161E8DE02DDA7DE204AEB0FBB4CA81344BA8C30FE357A4664E5D2988A03B64184D7DC69F8D367550E5FEA0876D41";
-        textByLine[x++] = "pk = 2FD9251F7B8FB16C6878BB20829260C588BC80195FF8DB59EA449209C2476DA061DB33A9065930B52B9CD64B8DD3586AFE3CA4B2796FAA6C02B3E531AC550A25DB8783C995E2716B143C8A1309572FE47049A65742C632755A7D26E5A3344309E0C14EE313B0A8D214811B64D7351258E80ED9720863368DCC1851A358668DAB3F0CC77F074AAE24D71E0B71CAB858B29E6A06190177F9DC39051B460D338363A9B7F6C691AB17865C4735BF42A72A655155B5106C165085B1C504D6B75187A44ED198C98AA26AA15327C5B35F6B3852A58FA7613337094129367E0660A62FC28E613C762D857F99F057B4E208E39181C63A8A91723352B8C4A4E04C0C02B78AC82E13C3542634484CFC8CE738B31A3062D2579F8394CD0947157443BC9774089689094A77B437E55A3704CBE01C9EC4793E0FD7625A2BA81A25BA819B0ACEB923918112E22B5591BA032B2A0D4F8301F2567B266473F3F1101A7C9AB95C94DCE238DB18166CB0C8F558167DF937377A2096EB99408A32E3759A88A4CF04CB57923A1B9AE7140281A3CFD6763BD92E0FB91A24E87F1C56471EB334526053DB394D39F956A8E45C6FF39CD57303C0AC920AF3A480329DC19C43DF67C05D889FB778A0208298938AC423534B025A04B141B1EB7017C9D053B7463EE870BB17899ABB19C99193B670A23672B0CE15F97F71092CC121A0FC75A4AD292FF4A4C9C78BC24C764D7D4B9E1230BB46E02EE7A66357F25716C386B91193FC5A85CF63A748072478F23B0FD432944A5CC25A7DAC2297B1234744A918E7565636C674E4AA4D2C957C7AA55DA692324935A4C3749A08956028675EF5B9BA3EE5111DD73F1DAC282523CB4A89BFB7973A50D30085E70818EA596C7C4AE332ADFFC300A5D691836690228B2FC6600C5A3A363E357C66A53A0FEC851CD94B29B066305365B6A78FCBE57DBB40C8D02CCB5F541D11D24CE8EBA582104BB4DA4B9E099E822933B6B74080F8B743B59D94F094CDE7C45422317E358ADC6877613B7EC0A6CE8B702A1A32B285F475AF3769D8A1148B5324C6429CEACC5980B902EF043F00D42484A10AD08BF3AEF948095DE1AFE74BBC3BDBB45FD8F92EDDBF0C682C81A98F930F6165";
-        textByLine[x++] = "sk = 08E63B9DC03310E0B5E8157E478234286CAFADD3BBEFCB59A7FA6E8B0CCEE499BDA8C4035179C67EA35F280886F4CB4276A4A63D2823151A4C0670735165CE3B9432BED2A35B72B59F9604E4D6A00D441F6381666ED773E62B9AA159C80DD40B2612B968092A0792BEC7241F1F3AC589DB824B388C964903524987D4367A22D252DD837FC5552C68215252E8C26248C5118963EAE4B81A7C0A8C33054A941C67DA34110C45FE28736BA90C2A07C8D6F8123C5A098434025CC82E5C05185A80A53EC50B30C1A0A027CF711BAAAD56A844C7B1936CB73DE5447D0764595C8E0C4908412131FD517FBCD84E14B87CD6C651AA0C975E02654D40CFEEE7397A93893CD3A2E81568C53414A11443B0A74532C61ECE525B3E98853152BC5738A27BB11EA6D0710AF2866E7136F99BB27C146C00D1AEEF099D7A398126584815109DAA65108E1B942AA6339EF0BE33A9A3969938B421B3F4F96DD8316123B3CC16532A20FA0F078C338B8C96AD9B83DD5618F20715CD4CC914F32E9999CD04B34BDBC92173F5472FA68CA0625722374C9BB7BD0656C0A8AA4D16640C8828CA4D4029ED49A8CA4CA6563550F43662E4500B00A2661D680D46435FB2C2A99C8571BF1B8B26783F1AE95ED2B4B009A3B6E74C2AB685667FE9CADBD3143C33641F2A6AE7266D8322A1EA567230F876DD2753F93A6846C2BD3B02520F03147379B4CD3485619C6D4B42AE6F838BFD67BD49F43F3781A88D75B180B9378A924BFCC61853E206AC42CD39EBAAEAD2700032A3D8D7B9A29C0C6F02970441061869BFD243A676AC27A7E47521569A539712121C3829E40E8F0755D5E6A8230736EE7BC3327A5DF26A221CB79C2E2063F3617C54664059FB8053BCA2E50A7EB4A25106781ADB386C5A8A732D406F0114C246013DC4D79E8F701C053B41135A7EDEB4644131CEABBACF3EC546F8D92D556387BD15971AB408FEB5004247C06C4187F1324DB5780EC8CACECC6772176A2BBDE1AE54D38152849BC862C48B73A0CA6C459962B342670357239D0D37095953908DB86FBDF66D52EC4F24A420D1F59412974D9CA888C1A6C02FD9251F7B8FB16C6878BB20829260C588BC80195FF8DB59EA449209C2476DA061DB33A9065930B52B9CD64B8DD3586AFE3CA4B2796FAA6C02B3E531AC550A25DB8783C995E2716B143C8A1309572FE47049A65742C632755A7D26E5A3344309E0C14EE313B0A8D214811B64D7351258E80ED9720863368DCC1851A358668DAB3F0CC77F074AAE24D71E0B71CAB858B29E6A06190177F9DC39051B460D338363A9B7F6C691AB17865C4735BF42A72A655155B5106C165085B1C504D6B75187A44ED198C98AA26AA15327C5B35F6B3852A58FA7613337094129367E0660A62FC28E613C762D857F99F057B4E208E39181C63A8A91723352B8C4A4E04C0C02B78AC82E13C3542634484CFC8CE738B31A3062D2579F8394CD0947157443BC9774089689094A77B437E55A3704CBE01C9EC4793E0FD7625A2BA81A25BA819B0ACEB923918112E22B5591BA032B2A0D4F8301F2567B266473F3F1101A7C9AB95C94DCE238DB18166CB0C8F558167DF937377A2096EB99408A32E3759A88A4CF04CB57923A1B9AE7140281A3CFD6763BD92E0FB91A24E87F1C56471EB334526053DB394D39F956A8E45C6FF39CD57303C0AC920AF3A480329DC19C43DF67C05D889FB778A0208298938AC423534B025A04B141B1EB7017C9D053B7463EE870BB17899ABB19C99193B670A23672B0CE15F97F71092CC121A0FC75A4AD292FF4A4C9C78BC24C764D7D4B9E1230BB46E02EE7A66357F25716C386B91193FC5A85CF63A748072478F23B0FD432944A5CC25A7DAC2297B1234744A918E7565636C674E4AA4D2C957C7AA55DA692324935A4C3749A08956028675EF5B9BA3EE5111DD73F1DAC282523CB4A89BFB7973A50D30085E70818EA596C7C4AE332ADFFC300A5D691836690228B2FC6600C5A3A363E357C66A53A0FEC851CD94B29B066305365B6A78FCBE57DBB40C8D02CCB5F541D11D24CE8EBA582104BB4DA4B9E099E822933B6B74080F8B743B59D94F094CDE7C45422317E358ADC6877613B7EC0A6CE8B702A1A32B285F475AF3769D8A1148B5324C6429CEACC5980B902EF043F00D42484A10AD08BF3AEF948095DE1AFE74BBC3BDBB45FD8F92EDDBF0C682C81A98F930F6165EDC8DB1CA35744A75CA14516ABE07472D0D1B723F70CA8CF0E5C9341FD2E8C26DA1804DDB5AA9B1C6A47A98F8505A49BAE2AFFDE5FE75E69E828E546A6771004";
-        textByLine[x++] = "ct = F3CBBBD4DA1B3E1B0851D939E24D773201C87D4243CE8D5D9F2233405BD232A8946168E81D25468BB1157735CB55D26ED675FF1D9A06C1D83CF96E45D68CB06D7F761C2BD9542ED37863500656FC9B61CA2EA862F84DB54F04E8968ECB3DE0DF0C3DB5DA89D49163FED7A6AF999EE2AF4E8E71A455759F57C0F39AD9ECBC7873386A3F3CD5B64482E1ECCDFF1EE865FFCFEB98368057A186985E882B0BA2EFD13D49380AEB3096EE6ED275E93F41EB3A86D2F2DB5172514D731E3FF9FD16C6BBBFF128A43A1CA2CF67CC742F7995659FCAB084A5FD69D5E26068BC3682B8001D4E76394C99075F750DD9D847F1613B56F64BA50178AC55361E91ABB172A272B47A6724CCBD20BC333C0BC82FC54203E579FA76EDEC7EAFFF83EA3B30E8D389B15D25AC487433EC7DC634E8259D2159636827FBB4007A26FB1CF78C7FA18B871BD67B31723B103E5F0971439A11CA582F54F7F44C37AA86CED57AEDA4E6A16C1911E4349C59AFBB31DC1F96A1F4D762C8218A2CC5762A5B0C3F6B0C2F2088CC65F9E9B6F36381A8A4BD9D975624E2723C9F26DC3ADA192D0A6677A858C84B3A05406E166758323151E75A0F5C252B9DDE8B2FE9B81CED714E6D59BDE97586BFA54FA9379A46F9EF5BF39B8516107BCB6280A33E9D2C0093D6B73F35D26B422E8F4C42326506AA01FF2D9103157E9584BED50B6ABD9ABFAD97F7E49D74EEBB6C4F20438A196984E1A646F50A8D08F7273A10BC9BEF2CE8EFA3D99273DA9ED6A20088A401CCDBECEB8A5CE30E7BDF98FF973EC6A6999E9080627D226E0BF0C286DD02DFF5B21E641DB3B4298BAEF4A1497278D5094B56F98E88897590236AAB4F0F9781F2F06C884B60B3861A91E7D7DD88CF4E1BFD70254AD31C0CE3259B9073916C2D1DE36E68B95099B199D31263CFA3FE292F131296512FA6A942CD58EB5005EF264EE560F110EEE5ECE397D08CAE913CBF88ED81524FC967D319A2A73A303FD1A6FBDC4C0F7B5FE2C91A6E5C2EC337D85A105AFE9AEF7424CE73F6112A564EDA07D30BEA6417FF7F618B20D32DB54255D48DC183557C4255A43A85AF569145";
-        textByLine[x++] = "ss = DF09F5512A04278A474D26B15EBC89F7258A3902895F7282F1AA5141BD45EFA4";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 9";
-        textByLine[x++] = "seed = B4663A7A9883386A2AE4CBD93787E247BF26087E3826D1B8DBEB679E49C0BB286E114F0E9F42F61F63DEC42B4F974846";
-        textByLine[x++] = "pk = 4E2008000D3E22D76AE0046DB986B85AD166052648993355C2262DC8E3477E83BC9A843476DA24444B3936DB182C608BD044A76FF88CB3C2B4B4F44F35932D0BB3CD8B834AD6E23EB9D9825D4378CC40A94D007FC5D97392EACB9DC770BC2569EE1B92CBF0AA2ABCBE1E8A1E10AB1244E14DEE474EF3E4531E330EADF71DB2A36B32E152A88B5D90B8212B45B69C483CF261AD54564A76FB0B2B0C2589037A294772EF8C0B00666C2CD18CF54BB3B9B910094A69FAB10DF29620A890BB07E16CD8B55CBB40C074E0AA256253F7159C07AAB0A26A9104B73B2942143E9622E07C055F687A5E1C2BC274AB629BC5F6B5C691C6802C8A4C1657A1553BCC2AB43DB19C2FB151AE1D4082103046032603D8716726539DCE01C940A78423B37661128F88E74CE04411AE307048C82DE6A2AF26996B28F91E32C21722554E2C51C422BB2FF5E3A35A0468B3AA02DCA384B0CA793D1B524B7C24ACAA889175A171B2522A07969249596ADA9E76D17395C49648740FC0127BEEEC0BCAD5C98852C3314111D149A0221168AF2CCC65C6961CE3690D64CE1554A137B373319C56DCB5152A19059E0128CA872CA6F100D4509F196C7AD4FC65EE6ACCAC6B80A9E8315C7619870B3623D38D2778C788C62D291A32B1EA078BC5A4E5E2BCD34C97E5A6301574C7854A8FEFD62AB6657E4EB9371E09B8DF2B1A45370ED45214CEE3B86A1417C234081047B5C84009BB10351932C3A3078B7CEA137AD22B665CAC0BC0C6A032778AC437F139970C377B4D651B0E284D48040402685DC3AB6D5D206AAB39C361789818CA7B3E4C8CFE2C4719E054A85B383EAB160139C377896FE0217D46B98F3D0AC2A44CBDDD003344974F30F3B9733579C506659272C1755C9346CB31153CBE133328283637BA5B4D3A906A3AD75D519786C54143101B77B7053977CBCA1175A0AC076DFA3C0595B0473495738DA76BA0D4A2333452D88C82750C94E745852A1118BF7A03B6F1B448298E8A2B246B166E18760DD5C468A4187B80FAB8CCD078837B8223769B2489420F456140E2B911290EB4E780DDE03E1A699B38B95EDBB1CD661E2C9A7E548CA42E385CC6A0678F9E9D268FFCE02C4B465A46773432109A75";
-        textByLine[x++] = "sk = 0FBB5B81752024EAA896950A462BB5A422377D60C59A8BAF5295252DDC8A01115C9902D05821B7468773E8B844802A284AC25BF7140EE460373EF5024E40991B9764A7C9212C57BD3D71BD65674078091DCD36A157BB00775AA8676768EB880AE1947106202E848096EBD458CEFC4850B15B0C2972B8461A59F8937E5B786635298896A392C11F61A678FE25253F5798E1BC7058B79397B5C190C0A0B178558E55C05C988E497578AB556702CA7CCF04B9E4736F32C002E21993B3FBCA77F1CA560A1437B52F43085A551A2CB6ABCB7DD07C3310853F374F25561563B68006617E55E2BFAED4B0FE04AC96955101F1933E9684E1183C8EE6CC866A6B9946126F8A257221C18722621BB151D5D0AFD98CCEACE1050D2BB3E1F38796EA02F1F06642692E8982B2196AAE69790B6D895FA3EB2245D09E16238618E84A01A55DD3E535CB113117D0B72FE10DC29A344B1A621900883B3BCD8D407B9DC24B8F468665B10EE86C5FB3CA9C6B0217A04C129DA05056F6997785A59A4BAE30A26F0159A6D98BC3AA4494A3E1BCB84432C2ABAF22D43E22D45FC147CADD3A2CF14437AC35709C5636EB932ABFC88F12322B50F8553DE2C2D69A5622A88BA7D08B1C3CB7EE546C54426D70E400D8080D129104297C2E7A06A41BA345B1A73028817FB5A498AD81CC4A545B32CB70CF8264819334DDD9AD37E14A9A187828645EE0D567DCC6853C48C5AF4A836F355D369149A5D32663C5B7D074774BC1720854C66225174028A565E42BB395CC1C8C3E80A23FC664281C8A9B144A39D7EB23B2211A3CE01B175265C6396108671845F4AF8E37BFFD5A97CAD4C11DB10048E467EB314275303F1FEA05DD895EC5480F41DACF725965D4C3CA0C104ACD228C0F10A634A18A0D166C8B69B4FFE604C7940D3AA06234E500C8962E39935976C1081726BEC208BE7F6B9CA51CAAAA7465F03CB8DE547D46C762797B7D58B056B78CBF13286A4479C5E5C70286CA6D05B892665435DA13AB997B30D5E0223AA14CD2F50A0F80B64CB072CDAB19118681376B968DF5B9C2A20169759572C6CB36C88036E8C90878CD4E2008000D3E22D76AE0046DB986B85AD166052648993355C2262DC8E3477E83BC9A843476DA24444B3936DB182C608BD044A76FF88CB3C2B4B4F44F35932D0BB3CD8B834AD6E23EB9D9825D4378CC40A94D007FC5D97392EACB9DC770BC2569EE1B92CBF0AA2ABCBE1E8A1E10AB1244E14DEE474EF3E4531E330EADF71DB2A36B32E152A88B5D90B8212B45B69C483CF261AD54564A76FB0B2B0C2589037A294772EF8C0B00666C2CD18CF54BB3B9B910094A69FAB10DF29620A890BB07E16CD8B55CBB40C074E0AA256253F7159C07AAB0A26A9104B73B2942143E9622E07C055F687A5E1C2BC274AB629BC5F6B5C691C6802C8A4C1657A1553BCC2AB43DB19C2FB151AE1D4082103046032603D8716726539DCE01C940A78423B37661128F88E74CE04411AE307048C82DE6A2AF26996B28F91E32C21722554E2C51C422BB2FF5E3A35A0468B3AA02DCA384B0CA793D1B524B7C24ACAA889175A171B2522A07969249596ADA9E76D17395C49648740FC0127BEEEC0BCAD5C98852C3314111D149A0221168AF2CCC65C6961CE3690D64CE1554A137B373319C56DCB5152A19059E0128CA872CA6F100D4509F196C7AD4FC65EE6ACCAC6B80A9E8315C7619870B3623D38D2778C788C62D291A32B1EA078BC5A4E5E2BCD34C97E5A6301574C7854A8FEFD62AB6657E4EB9371E09B8DF2B1A45370ED45214CEE3B86A1417C234081047B5C84009BB10351932C3A3078B7CEA137AD22B665CAC0BC0C6A032778AC437F139970C377B4D651B0E284D48040402685DC3AB6D5D206AAB39C361789818CA7B3E4C8CFE2C4719E054A85B383EAB160139C377896FE0217D46B98F3D0AC2A44CBDDD003344974F30F3B9733579C506659272C1755C9346CB31153CBE133328283637BA5B4D3A906A3AD75D519786C54143101B77B7053977CBCA1175A0AC076DFA3C0595B0473495738DA76BA0D4A2333452D88C82750C94E745852A1118BF7A03B6F1B448298E8A2B246B166E18760DD5C468A4187B80FAB8CCD078837B8223769B2489420F456140E2B911290EB4E780DDE03E1A699B38B95EDBB1CD661E2C9A7E548CA42E385CC6A0678F9E9D268FFCE02C4B465A46773432109A75B1EEF6E8C88FF8DA9CC4A9B01D4C08B6B585BEB5BB9E084C6C47A717B51FEEA356047447B810CC094D400AB204CF9AE71E3AFA68B88586ECB6498C68AC0E51B9";
-        textByLine[x++] = "ct = D18661618A49AF4ABC1A1B2F61EDCF23198B97D8A49C0875F86903D9B10A7B20153F7204C80F2044BE9D8C82E7B8EF0105050F4DDBE6C3547D3DCA3A7E7404EFB3F9D92A1F2E0627D514730537D9F63A7C2E69FCF0F7848772992EC9381F4EE505A922BDE0B3EC1E086B0447EB8ECA6BAABB6259BB1F65715122D671E11DDC34404FBCCA14674C1553CD5CF1F64A563E087E720F803FF8217F2ADD6EB5C5EA432E340962377D24A8C2261B8E556FE97820CA7232CBB44B91577E5328D1B9F49FE9A9D33C1E18821B9CF14231BC3A97327BBDB7A2B12DF0D2BA7F44A6B2B2B4898CAAEADDD3FEF8560FD0C22D26A8DE6577E945EAC6A3925F1E4307FB610DF30430D46AA9ED4C48FB7FEC3E9B0DCB7BFF0121B0C138DAC7D3BF1EBF6BE01AE478F1506761AF1488A594D38891702CDF36B0AD62FFEC739E421D2CC5F0D0AA934EB8AC4960F1BAFD55BE60876D8C3A6536BB22DA7CCF9C12A11064A547756DE834B47BF57B67F375E4307660A53B358BA026E2897C0C840AA8736D923B002A2EBCE9C8293ADBE2199C58E1DFB6307E13773E8F695937BF0EE6C389067081DC895A07786D554FD71A195934BD9EE6BEA54C5E92D3CEA80C8ED8C1F4567614A03A36739F597ABA6858DD53012D969488C02562320E99797DAA33490011900DAA1C9ADEB058EF5BC9FE5CEB0D05A6387CDCDDF71F0A99D544ED322A10E710B811712E56F8A462592DD26420169BE684EBA4B5259810EFF1A114C726FA34B39170A659069670F39CF8B63E4EBB9D2CEEDC7DCB5D61FD2738CBAA4512DB1CA38B8C778B2F5F8F7BEEF27E68D6FE63A65EF3CDB0F930F0E5FC5B9598EF03099E534503599628ED9A6C4D32E33B49AD9A4652986638E8A7490818E193BE5D74AAAFEB2101080A76480F334335540827C8E823EF0DBDFCC52DABC2DEF58CD8EE8BC448BC898ED10888792A0C9FEAE844F71DF836C92CC5575C42B74070BBBCF9600E1E593C1EEBFF74CB06D19676A6DF8B7890618066FC69B20194CD305FCFF6E8B005EBBB18F2EE543B5C5172EA4D4BD8F536B4BCE92FB06B34ABDFD05FCDB38029FF74EF";
-        textByLine[x++] = "ss = 07D4FE5265FE82CBAABA139893AC89A4535B4F97F94DA29282478F16266F483E";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 10";
-        textByLine[x++] = "seed = 980D0BA7C8F8B23D0E948A6029FF2659810EA1360064663A8994D0333C8543EE5FF5D6D5C9ACF446E61DC464F792B9D3";
-        textByLine[x++] = "pk = 478771E2F15C94962E6200501BB90320CB6A0EABC78FA97F2D69C5A7A00B81DB6B2A77A2B99CB1B0598AF4BC5DA77623FB5A2D3D1709AFE65521C5324DF95E40D6C20189A4CF80162737801C48C1D4B253A7741DAE446162D6A2457574969105E93C52F08757F80AA7CB28A2960A7208EC6429E7ABE3267B9C615B63311756D79EFA6957766A5DE25B89AF140A096CA145988E6582BDF1B590C8689A366B9B4E2877C2B5C5A33320D3D532E3958465C9586F604F4F800952EB5F96D73B6287BCEAD21F7B8863088728FF160D1AB7B3CA594ECEE60A8B741903E4892F6154D6356BC308BACB17067772580AF8A1CF5157CCDB86AA642B7DA9A6A583508D18773B307B2B0CA3A1CC89FF531E0DF13948C288FA4AA6D3001C592879649C72450202E39C5F837051DB1314BE4A25A13A6A00537C20AB5ACDC6BE15562B1027056BBCB63D6C8227683480B6BDB83C5A74F31B0D1AB84D129D4A883E2CF48AC96AC9AEE856A331A5B8A0504A461DAEF078D3D916F962A9F9A82FE69B3C91955CE5D34F4B3731D195A92C84AE39F38C7A895E0468A2A3701982FCCCC93353B0387DF0671ABD2140DC9555B8D98251924FB77570AAD8737B12533EA4BEE7326761E86986273BBBD447E47119B3ECA4B7F565DE6C0EF8494048A08967CC17CA4231C433864CC961F6193774494AAC460F23D978F4267AAD92B66678B560DC50C5E797BFD407B5B89B83AA1023A3046D098D939B3974C6626FDB5D4DF84B7A3A6D63727AE028560FD79995E6C310CC8B6F33A3F441ABA1BA3F44714975B3C3C299AEEA9A714058AC74F1334E8C011A748485289AF49542DF7C2AB7830A3F519C41612F3066B24D594322913E769386AEA37064F3B65746AFEAA361B8F444C717C10D04CBCC9924DFBB3B052622A15BCF0DC7911D148028C8A8CB574334010E222ABF06FBA5CE5022DA143E5985C7CF277E5DB727F6B07F2D8034E033A25B0B1AA9D180F4D403B7072F87C694A5962BE49938783613FCE30E8BFC204800BCB45C5FABA48968C95199297626EAC6F4C1099C903A24AB54251C353016418CA774C52294A001C2000C47537E0D5AE249EB884B67DADB110119F1D0A5EA38CDF9F2E0E27C75A43A";
-        textByLine[x++] = "sk = F4D14A47F661DE38531169CB1B05CA73A3527E599197570ADECC4D6D6BB1F9CA0284480A21D57269517F222C9208AA0D021A0F8DF20B39682CACB0472D776CE98442FEB4A0B5148E62F26BCBC018E0556912F2A847FA8FD3BAC8EEAB94FA5619E9C1274423AA34056676658AF6505445D0347B8554DFB1B61FE59CB3C696367A1CFAA87D47639D311476AC4B859BF2AE8FA86EB042AC5BB97C6E2A5C9C8B0854F73B33CB6F3F029DAD0877E79909C4C5A4D4B77B2B0C8BB20540B72494815521D2737E709162D01B7BF324068453B16FE187631AAC701551F2A1CC88D1B31EFC00CA79CE7A8703FD098570FA2977399B49A59D97C8CCDAB74E98E1995AA1C31FECA0A46A7B6D855E53E419A814CD0A9682E14C74B80B995907B4735858EA897EE09C9F1F868CC4D9C96E331480E323B627252764039CD354C59679F6D8A56ACC5179E9529E481C87603216A74F31E9ACE3616ED4567662D7BE4B18C0E82B949109793CFC1E722BA85B521D4E68A01816BA5B44BFB4E853CB5B70ADB2748270139FE53968303720F72F7D2217E805AB0BFA5F9116A01AF1448718155F277F2143A112BABDBC211E0CD47EC7D169707C2C4156097A8B02C48A6029DC619EF98A669B555E1741EE6C659FD57856E9214187B51B0361F6BCC1C0F99EDE6B5D0C394B1B23641D5C611B588E39103ED9C50843B0630035B868052493800053EBA364D95900EBA7B0A7088F2629B859C58B7534FD6483911CAAFDEC3126BC0D10A526BD5ABE2737C29636383622A2739C8450AC75B029847B23C85AD1624608576772B98F356B34A08012D36C8482C11DB931B22A914DDACB9F02877EE00F57F022F6D9543DC3045A304E9305B8499BAA9346B42F3889554056698A784D42575C01634175A659E26FB085B83C167FDC30BA62011DB428BEAF78710F7A659CB5320F25B1FA58618A991B049B7090065367370F3124AA7DE80D666B9C6B399013965C2C9B60A89197CC8706E6320C220CC148B60878746392F6B64C6A69092074606617E797A9BCD5588D602CA9F23C5D017AA460ADD3A95F11E89C8EA3408527C9CE22C3478771E2F15C94962E6200501BB90320CB6A0EABC78FA97F2D69C5A7A00B81DB6B2A77A2B99CB1B0598AF4BC5DA77623FB5A2D3D1709AFE65521C5324DF95E40D6C20189A4CF80162737801C48C1D4B253A7741DAE446162D6A2457574969105E93C52F08757F80AA7CB28A2960A7208EC6429E7ABE3267B9C615B63311756D79EFA6957766A5DE25B89AF140A096CA145988E6582BDF1B590C8689A366B9B4E2877C2B5C5A33320D3D532E3958465C9586F604F4F800952EB5F96D73B6287BCEAD21F7B8863088728FF160D1AB7B3CA594ECEE60A8B741903E4892F6154D6356BC308BACB17067772580AF8A1CF5157CCDB86AA642B7DA9A6A583508D18773B307B2B0CA3A1CC89FF531E0DF13948C288FA4AA6D3001C592879649C72450202E39C5F837051DB1314BE4A25A13A6A00537C20AB5ACDC6BE15562B1027056BBCB63D6C8227683480B6BDB83C5A74F31B0D1AB84D129D4A883E2CF48AC96AC9AEE856A331A5B8A0504A461DAEF078D3D916F962A9F9A82FE69B3C91955CE5D34F4B3731D195A92C84AE39F38C7A895E0468A2A3701982FCCCC93353B0387DF0671ABD2140DC9555B8D98251924FB77570AAD8737B12533EA4BEE7326761E86986273BBBD447E47119B3ECA4B7F565DE6C0EF8494048A08967CC17CA4231C433864CC961F6193774494AAC460F23D978F4267AAD92B66678B560DC50C5E797BFD407B5B89B83AA1023A3046D098D939B3974C6626FDB5D4DF84B7A3A6D63727AE028560FD79995E6C310CC8B6F33A3F441ABA1BA3F44714975B3C3C299AEEA9A714058AC74F1334E8C011A748485289AF49542DF7C2AB7830A3F519C41612F3066B24D594322913E769386AEA37064F3B65746AFEAA361B8F444C717C10D04CBCC9924DFBB3B052622A15BCF0DC7911D148028C8A8CB574334010E222ABF06FBA5CE5022DA143E5985C7CF277E5DB727F6B07F2D8034E033A25B0B1AA9D180F4D403B7072F87C694A5962BE49938783613FCE30E8BFC204800BCB45C5FABA48968C95199297626EAC6F4C1099C903A24AB54251C353016418CA774C52294A001C2000C47537E0D5AE249EB884B67DADB110119F1D0A5EA38CDF9F2E0E27C75A43AF581C2FEC9055830B38CB68FB506AA927443B1AFD1B2B6FAA6F92A325985C6CE8D6C42E7270EE2B77B6045385F3D175984A0E260363166C73B0C70C971644363";
-        textByLine[x++] = "ct = 80EAFF0DA8B892D8292F7FC7D98A14F33FC8F3D2DE7AA5DE81C956C9DFD8D0536A2689B5BE02FC7D12F0A1C71260B4155E75FAC558D76C381AFF21D961E2F074AD785EE8ED83ED5995FBB83B5A908A0509A2D263C6682D4973CC727E9DA4F945616C4141D7F148595077B832A5001E5D94A8E98A014F37183C9526C32CD92BEFFFEFDE2B2F5BD8032597D2677E06032CBD9EED16AD82486FFC68032E03281F119097CA1AA623E53530A998164E6858E6EC2D42A5B86A390345E68ED2A841E82C06F66406FD8DD1A93095A59FD43A3F6B64574FA6FDAB7C16F80EB598B7C22B6E6973D6D248EF3FCB41774EAB52D299F7C9DF2B59AFA71B114F5DF43229438B5FDA5D1D03636193D4D2B7E911049FFD81F0B6869A0743AC2F92ED47E13736CFE63431A336723FD0A9E94E16595B50C7CA48F60C4B638F4CC3D8238A80641377460DB085C420FA0CCF7EF77E2A5EE3043D9952524538B1AA6155328FC52F8D9546FDBF9C5A81F2A8073C3BAD1FADCC5D60177C3D4D931FAB0A08056B313EE34E694F80BC22DE33335A089A0D780440F02BC22BB7502557B9DF2D6DC463B15ACC2012C94ADF19582444F2B5E63F17C65CD3F5216440BF918E06A01C9CEA653EB4A05EB8B63AF5D657213947DA93C4B34260B8B11FB8C4087A79C4528CC0CFFBE8BC70FD5B85E974AB261EE674DA4A1190371BA8A6AE3FED1758152BE3947CF0D3EE265FAD70702FC48BC9827DDAD3D6FF8F9D66F0201E8F8C8266D5D52733979D685B7E254A2BADF58DEB9045E5085CB5DDDA1AA4C2B88B4B466AEB960D42FDAEE3C28C3E809398BB308E440BE5655E762CA143C86D5FAAB7C829B822A7389D937497A494ADFA4B7B8BFDB7DC9457CB93D723765B04D2D76321F96B58A886F54ACB2C5A518BDA88488571B512E344C6C86F24B726B274D4B86E19749CAC7D0A384E3B6824E71B59FC0D24BE840CA03925D42FF23F366C471ED224013EEA0B73391613E05A6D8A390B446AAB2CB5DFDBB1D3B6EF875FF5FD3F0326C43525A80821C61B950FF6CA881BC25AC60B899DC47BA92EEAFE5C2693E47CCC35CE326B581A6A";
-        textByLine[x++] = "ss = FD481CD0902EFD9A163377000994AD86E154BCB2B6458AE72CC7CAFC125DB981";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 11";
-        textByLine[x++] = "seed = 6C029462CA42ED520F10A579F52687101105E0B90C6E7BFA582A4C112B579D5AD0A0ABD38F72ABCFDCAAF5893A112BDC";
-        textByLine[x++] = "pk = 707A4731F46A6D2C59E27C013D7834F126719C302C7AF3609BD0457173850BAC49581557700CC0DCF034AFF6B36C2A53A5E8580DB101E0F718898CC8CF216FBBE1BC78C8984130C2EA921D872224572AC3DFD0AD0CA32A1075C9C2A97C41635AC9DC7AA2D014DC460115C93FC427C155726830B9CADCD8523C8722C3E4639D83C5898054FC68CA8588C55D89640E5CBA32FC3F5CB283F2F9032F2C8DCF3847EE1B67CA698292A99348D194DF068DB0D46D992AA59A83C08B24017CA1048F77532F22039F92BEA7139F1DBBA914B10DD27ABCD6912A8FDAB2AC5C68646AB880554B5512459EFAC549950270E825E39670F06288A97A5E36A31E61A5257A0534E06C1418593B7E844F6381BF1FF5916BE88C697C6A6C1C0B42CA1DABA6300106784F125E7FC80A37F08A6889771461AD90938894A54914E2CF759C60B3DCA1B86ABECAD16EFED660E4422CAE131F827B14B2BC4A7552073AB069365BCEC3D3A41B22323FA827AD50793B3186C6A0A7E3B007C892868F18BD62105E220517C0DB3057F77A3BE29F8E2276A49416737C9990216C2EEA6FFFA7B4BDC6603AA400CB5675AA5A78458A498056511AD42B8550AECDC4940AB1C1739C33FD07BAFBB287AE595FCACA6EA4BC3FA708AD3FF8ABB4126D6AA9A4D9572B74CC5567B55412E901CA0C4D5EEB4C9683131522917F0A7EAF56B20D1177B448878B657700AD885CC0134A249970E1CE1CA779196215D104117C3C884C9196F33627D6712A3FC234FE171DB342A24577A55C5C68E3A2350E41C14C701B1B01A39D2850B69274B2CA3A20EA2CB444294EA73042939A5A1A9A905856876B0B0E3492B6A328B40A949F1865F54558AA6263789093DEA2AE2E8631E2CA5CD2662583B676ED6B4F04A33DC3EB956A963BBA0670053C815F3C7EBD153680E98A89D51669947F1AB44F9ABA94BB239264A0C6CCAA64C0E2B3FE6212924CA77A8A6B8316A20E6A5DF6FA8B3E7A9FBCC54C6D599C4471A36AECAF3868B4B8F034A756020864CE4BA9A4C36CB02F0B4DDC94CC71B9C393CA6237A845B3CC9D80F31BD314CFC85416B2B2A1973714EA163B617347ACAF453AE235166CDD8AFBFFDAAAB9919F0CFFDC75D8796FCC28";
-        textByLine[x++] = "sk = 7B174B53307018768556CB04E6621BCD7558AA9C7C9EF9022B561C321A4D1BE7B459826A86513BB12873FCBB616323CB1CC83BA8B6BD6DE7432FBCC73D7C12B4A76AC59C00BDC431C071993CD32D63C66636337FA8F88697B63ACF4A92C6EAB4AEC503CB352B0E40C2F0920DC94909BDC7B4B26A3826CC8BD03A49481C684FD65348A291379982A0F73E78B59FFC86A1E2B3A79F4A038205AB0C5B705E523B01E022F8A54E2DB0B353241B5EAA4E8299CA1B372B3EC10BB128363BF291CF99BC12008BDFEC24DB711D71F56BD2CC55FDBC223042931FCC51D6D7270D6943D3FC29E44433AFB0963BC56BDBD9BE6D2A2F28380F2CD420AB844EF32C1E94C00E3CF8C88995AD8D234AD13B2CF45901369835E31B35595C9EA9B8338B125BC2179523328D3BE672EC0625280BBFA10814A5AC707F811DF3C79AB6966E5BBB8A93B6ABAF389BD9A859564C1C223334DA1C9CD264CAE9B43990209AF29C5D5A943DE84461C1EB34DDF54339770C38C1B21B5ABF691C3540884845D736A5728EB3226A312520D9A51A026A7952457E0F325BDBA82A7FAABB1D977906B8CB8E91B0034AB07B656944D416A5E9A779C0563F082E604CC673E1478FD5C0ED528373BC5D59394082160414C16FDAF8742A91AC935C322D0668490BA1099976BF908214674B6D7083DA2433ABB63A53403E35009D8C79CCB88C6704D5A3085BB2FD8C57093C083AA55636410FFC1B6B635B2A8B65A3AD83550FA83A7B1297CA7B1940758515EB115D7CC96E34415996A875D9BDBB0117DF107D8F4375E14A835FFB89AED34DA8D33DC1A08E7F103C520C48EC3B651AD79198C354330701C04C5878365ABAD936F8163C7F094A63C43FB793AD98750F0EA9AC18D0BC503B9FF198086E070C76C202882716920C31DEAB30DBB1C439A03931A6B855BA96CEF757460776E8E42B4F86848B019E83667FDB97692B1578662A8D27B8944350864C016275A01062E6924B5B2A4D4454C38B6EBE471CC55981B6085E7F65B3BC6BACB52CAA69F3B8E47B6AB0F413D8D138E5C73C89400A9EF7BFA5878155DC6E83B57AD8741F525750707A4731F46A6D2C59E27C013D7834F126719C302C7AF3609BD0457173850BAC49581557700CC0DCF034AFF6B36C2A53A5E8580DB101E0F718898CC8CF216FBBE1BC78C8984130C2EA921D872224572AC3DFD0AD0CA32A1075C9C2A97C41635AC9DC7AA2D014DC460115C93FC427C155726830B9CADCD8523C8722C3E4639D83C5898054FC68CA8588C55D89640E5CBA32FC3F5CB283F2F9032F2C8DCF3847EE1B67CA698292A99348D194DF068DB0D46D992AA59A83C08B24017CA1048F77532F22039F92BEA7139F1DBBA914B10DD27ABCD6912A8FDAB2AC5C68646AB880554B5512459EFAC549950270E825E39670F06288A97A5E36A31E61A5257A0534E06C1418593B7E844F6381BF1FF5916BE88C697C6A6C1C0B42CA1DABA6300106784F125E7FC80A37F08A6889771461AD90938894A54914E2CF759C60B3DCA1B86ABECAD16EFED660E4422CAE131F827B14B2BC4A7552073AB069365BCEC3D3A41B22323FA827AD50793B3186C6A0A7E3B007C892868F18BD62105E220517C0DB3057F77A3BE29F8E2276A49416737C9990216C2EEA6FFFA7B4BDC6603AA400CB5675AA5A78458A498056511AD42B8550AECDC4940AB1C1739C33FD07BAFBB287AE595FCACA6EA4BC3FA708AD3FF8ABB4126D6AA9A4D9572B74CC5567B55412E901CA0C4D5EEB4C9683131522917F0A7EAF56B20D1177B448878B657700AD885CC0134A249970E1CE1CA779196215D104117C3C884C9196F33627D6712A3FC234FE171DB342A24577A55C5C68E3A2350E41C14C701B1B01A39D2850B69274B2CA3A20EA2CB444294EA73042939A5A1A9A905856876B0B0E3492B6A328B40A949F1865F54558AA6263789093DEA2AE2E8631E2CA5CD2662583B676ED6B4F04A33DC3EB956A963BBA0670053C815F3C7EBD153680E98A89D51669947F1AB44F9ABA94BB239264A0C6CCAA64C0E2B3FE6212924CA77A8A6B8316A20E6A5DF6FA8B3E7A9FBCC54C6D599C4471A36AECAF3868B4B8F034A756020864CE4BA9A4C36CB02F0B4DDC94CC71B9C393CA6237A845B3CC9D80F31BD314CFC85416B2B2A1973714EA163B617347ACAF453AE235166CDD8AFBFFDAAAB9919F0CFFDC75D8796FCC28F12F3ECAD62BD327F1C44AE86C0BE6E7F15112B7F6F6D5EC7B13F4DFAB718965812083BFA3B670E3EAF9B443702FB6DB16AC1197656BBD61A8E25ED523B8D1E5";
-        textByLine[x++] = "ct = 4B279A18929D2BA3DE0715458CB6052D9E083796096C7B3A7398FB09CE4E3F5F0B9BA4AE07E9A923C86AEEAB7F44F8FEC4F377DBAC4009DBB34D594B19B0A2F71E1FF35131D5A993A0C8D200F1A7F25A318AF13F9CD922E71D35CF92816CDCACE01CF5AAE90E2ECADF4A13B8ABFF06469501D8E85CC7DEC2F001CCAC680D25DC458535B44E67A2B5D134307E70A7FD5E28156FBF9FE33EF9C25B5772DE6B83A5204E8C9BE43762F9F07CEF4ED3BD5ECDC67773D96270F2052D00250F28451794E71F2CBD216C85BB78D8E43180DD01B883158C47A5C572149E404B9D2CC2E11522940D22E8D334BB41F12CD43DDB52E424811871548981A5047CF25FAB5F9B987E010C5591CF58A20989C0C4EBBD22F6E2C7E9018CF60692DDC68A8AD0A33D76D1582D46A06C2E60F4B062506C763F69FD8C158B6A1F59D98F46D8A6887AC1422075524E7034A7B2B5410D41A1BEF19090DB5F47CDC2DEFC93A5C884EB5ED7EA681F15F000091F3C207AFAB28CD535E1D3A292C00781096386D97347B3540B67691A09BF3997D364C57B3FAA77C81DA544F8B558F8777F9DF39C6A25B87FFDA3F518D4A98A3594CFA7321016807E85E098EEA3C5632791B21DF1244265F5D4A51DB008664FE7DBC2CE34F095158FC07CA5600DA56E4123107858DD9825387C3DB0775058EA50F9743503B7C5CF7B72E633F96E42FC8D967D21A81DFE295738270C0B6F1E8582C0A807E1AC3BC22FA715003A3CB1BA980BF58A075CF50BA455620B0A07D45F50CAB7BCA3CE12D0E8057028320637E9A2D81DD584BC2CFE6C63D8E5723B0EF99E14239754AAB21F8C280294344C3B7DD30CE0D4C9A75011A3793D751D40C2DF3A190292688C8740A242F2735191E73F1B78D510E4A67C5622D305D6631B0785C277056022B4E0312CE1717BBC6C417328940EA922084BEB0F66F84D467DD9C0EB1BE414E468F62D5B9E372927399CBDAAB41F0C5D85D09A95EB9DA40C285786377253C640CDF00C4A0564FEADD1AE57A336D6EC7E461FB4CA493CD933F6791F491A41B6430757DD86D22017B073D5DE00B865E4B6B2C13613C139";
-        textByLine[x++] = "ss = BB711EA4B517003B1B1C893B5A84E52C7E5B85C02703E7E909621A8E3DCFCB6A";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 12";
-        textByLine[x++] = "seed = DB00120937570D62331F4C3F19A10465231EFF46465CDEE336A0D46AA1E7493DF80F18617F9FFD0476CF7784A403EF4F";
-        textByLine[x++] = "pk = 8F31AA78A9043268C7E25B0C43469ED0A535BB9A8D4ECC65C3CBB32BF2361838A8358B2EDC1A1EA2FB66CAE5070A30080A84A9FF81B3B020AB1DF4548E510F03B13CECD4AA32F380172CA85CC8962ACB7A51619632B53BF828A7CCEC1B65C72FA0F814CD2C101690B769E452E34993B0A33978C19DA61B0061F24661F20EA6A566B1D7AEACDA859E52CBF32AACBD1B7E1E66B138D2CC613A26996B6EC8D89C63A34A44ABCB70772083140FD6519EEF107F91983F2E4557A7E21C62179674031B9E7C2EDD845188C12B4745B7A68308E1E19A86968A4CA001268132E493A79595989E7B55A9F2BA83AC40C89CC752A97D6D6B6982E1033298445384C5FD04CCC06692CEE0007A8481316BC02A724491E469ED7A2F1B809715DA8CD130A2CF4C200B168FF33181430CBB5AF152C0510E46B9AA8D83060648C2ECFB74840C5110004C25D9164E1A3DD9E181216901B1169A9AE3A760D1AB96C7BFE405C657A2CC1E62C65D99AEF490892E96BD6AC08D9421975AF70B16D3A12F898528130F30BA4B9B513BF42B2F5BE08264A985B2CA61998A2A30030E3BD51200CCB3D0F66D08A677F6236BB951150E29531EC278F3D013BFD0AFA81C009D0C78537C62557B7C5C930614E14D9600A9E8AC38F44761460666D4701782390552693B83736E3E340D5671CE0C5128CC991A984630F1F3349FD80E7756ABED753226B456C2968EFDE96DE0A924B926AB75BCCEC5E69B24A42AA34C110D75AB27495C5D4CAB88B1AFD49A2FE5C02ACF3578FA4664934A1049FA7D89F666E2DC77165498EF61C575B4156FF7C2D7ABA435870999D62AE36A6CEBC66D04AC54BF4CAE14C0AE89AABE90F3C397EBCFE69AAE0618475E5512D5534F85F711A20A9699C620181ACD1162B06E990096F7799F836771A05E56C99D3402599E713FD0B44BE0DB130AC3079C583BC0CA266A548DA0895C1A3C3D1C28385537465DF75B055106A215309309820813B3B8F7895D53611061BF796B47CE1019E3AA09A013764EA8AE0573CA62818ACD346FE3012319DB7D351C073D17B3F377906E484FA7198DBD639E3F98B7F8DB37A0C2E966AC7C67B03EF5106F0A751017B67CC52A3D0E1586C74513D2B5F13260";
-        textByLine[x++] = "sk = 96A50005840F5A5A0E8B1083A57C8402A2CFE227CEEA80B5D9E175AE3131EB8BAFD291A63E01047FB889D2043A0E814DD55594F4274BFD73BF1828BDEF5A97C057091E480F3D6A3723467B989B635A7A70617647EB2060E6158A9DAC8B40263062D3975BF88B24A1902AD9C72BFC7D6B69ADF340CD2691119BDC67D8F5B28FA8894418AB9A0A97D9E9BD40C5741AE0BE90735C1C2C140C8461FF507EAC55BB16E65E93132105C46575006130C67B500030FE11BE78E4A4BEE364BD21041A68A676B398C1237A6864B494C383ADB4A1BF369E606894BE6917CF614934E145F961B3388AC3DE939A309373E47A7134B57CDD5915AE98C842B936A1660187427FE771606BE8421ED11412F020E722A3F51B6847391C6D77A100FD484241209EFC778496236ACBB8A00910820154C77916B8B0978AE3193B1AAB565A2BD9790CBEB3293E4910D2631672036E60C6806AA676B8866D3284C4B3B411E7D2B4A6A75D50675529E1B4EDFB5365B999711763800BBA82F66E8F6712CA652CFE0190B46C377D7BB26FCB7F32160CD031C862CC9A0233578B2BB372CB231E0536D3C88F46ABA8BED1A4CB6338EFD847D2F5C9605359FC2A830476A027D477324A8B15586C2FC2A942B4CE340088E7E8808C9C97E2B91D9E25417404755CC71CAEC7C5D82C35B3202008C4221CABC0C83084F4B98B0941019BE55B4A874B61E20A75BA25AB9BAF806B52C52116D9D17D586289CBD40D7BC42DCB672E76382C420336D88B9C3ED690458793C6126A8C20822A7B1591A27A0DE3C0CEBA443EE754829A471304CC985013EEB453D7B522B365C32D33BAA2D362306819E6ABAC03A0074B632953155A2250131AF6BF6FE910D6A75FAE56BC75485D247C5278FC50D5465AA67500584BC6FCE25EB3B401EEE5365D7C6D6BCC500C99C343476BC99CC433C173D6E74EA054ADBEDC8DAA57A6B8A77CE5E105E759057F20A7A02CB894EC8D72424B16D8925F118375DBBB847393712A4D9C64C5F997636AEC817FE593B1754BC8F2AC7AFA5A6DFA2580513536541E6CCCA60BD7A397B49DD34A8F352882612CC39683CF8F31AA78A9043268C7E25B0C43469ED0A535BB9A8D4ECC65C3CBB32BF2361838A8358B2EDC1A1EA2FB66CAE5070A30080A84A9FF81B3B020AB1DF4548E510F03B13CECD4AA32F380172CA85CC8962ACB7A51619632B53BF828A7CCEC1B65C72FA0F814CD2C101690B769E452E34993B0A33978C19DA61B0061F24661F20EA6A566B1D7AEACDA859E52CBF32AACBD1B7E1E66B138D2CC613A26996B6EC8D89C63A34A44ABCB70772083140FD6519EEF107F91983F2E4557A7E21C62179674031B9E7C2EDD845188C12B4745B7A68308E1E19A86968A4CA001268132E493A79595989E7B55A9F2BA83AC40C89CC752A97D6D6B6982E1033298445384C5FD04CCC06692CEE0007A8481316BC02A724491E469ED7A2F1B809715DA8CD130A2CF4C200B168FF33181430CBB5AF152C0510E46B9AA8D83060648C2ECFB74840C5110004C25D9164E1A3DD9E181216901B1169A9AE3A760D1AB96C7BFE405C657A2CC1E62C65D99AEF490892E96BD6AC08D9421975AF70B16D3A12F898528130F30BA4B9B513BF42B2F5BE08264A985B2CA61998A2A30030E3BD51200CCB3D0F66D08A677F6236BB951150E29531EC278F3D013BFD0AFA81C009D0C78537C62557B7C5C930614E14D9600A9E8AC38F44761460666D4701782390552693B83736E3E340D5671CE0C5128CC991A984630F1F3349FD80E7756ABED753226B456C2968EFDE96DE0A924B926AB75BCCEC5E69B24A42AA34C110D75AB27495C5D4CAB88B1AFD49A2FE5C02ACF3578FA4664934A1049FA7D89F666E2DC77165498EF61C575B4156FF7C2D7ABA435870999D62AE36A6CEBC66D04AC54BF4CAE14C0AE89AABE90F3C397EBCFE69AAE0618475E5512D5534F85F711A20A9699C620181ACD1162B06E990096F7799F836771A05E56C99D3402599E713FD0B44BE0DB130AC3079C583BC0CA266A548DA0895C1A3C3D1C28385537465DF75B055106A215309309820813B3B8F7895D53611061BF796B47CE1019E3AA09A013764EA8AE0573CA62818ACD346FE3012319DB7D351C073D17B3F377906E484FA7198DBD639E3F98B7F8DB37A0C2E966AC7C67B03EF5106F0A751017B67CC52A3D0E1586C74513D2B5F132604CAE8B58E0434FB1475312355A8B40145043BED4B269AADDD654D2E562324BC78E9A30597E4B52FFA87A54B83C91D12A5E9C2CD90FCAC2C11B3A348240411A4C";
-        textByLine[x++] = "ct = 91B91BD36C068CF050F86C99341DE60555EFE68A861A8A1CDEDE1F03078AA4944192940D2B112C41FD099096B21453560C552E9AB8BD02E0C7A191ADFD940431EF1D5CEF5B7AA6F700261560387A0396211FAB44A85E53F16F9648663EBC404FE1276099E744E0B639B2D2E02098D04CF406FB1527671FC7C5201F069DC75B754B1D58F73E6C6F1789CB7FD0BE848C0CBE53F2412EA1CC2136AA4986C048E52A638B8DECAF8EA2C3CB94717FC35AFDF67DDF0319EC44CF5B7A909E564C6F7CAA82D4CC7B7FAD69433615F5A11673F04C45CC27CFB8806E22DE9FCAB3AB76599A0574C658FF6B46E81FE36C3EDE03B0EAC5E75C6CF51A08E12D97D9D274443D4688017C6D25C9A802411A1E03A0138A7AF0D773252BC60F71D8BFA37B5597ED49A2172E57816F440F1D212D9B60D5C3254F087C9C6F4EEF5375DE7AD36D9264A585187C7F33C6B813AC11E3F1B183E85F39317FCD517A41F6FD5B7D519EA5DA42483AE611E4673A724502F6AC76223B20B75408412344313ED23824EB30A13A7054F26855925860019868CC19283081FB6E51302910AC0ADB19DE0658116F5738BC87782EF23DE0E1AA7AA792DE45510C0A2EBD001D98742E7F3A850758EF87F03A4660045DC8C3C8DD94B36377E02CF76D50374C30AE2B5AE27A25446A2A6ACC1D6EEA8F05B3251BCC01949763BBB62F46AA91EDCB92647964295D8C6092C89901E0E1D9AFA3F6990193960CB2B0CFB2498D7C5EDBF61464A56BACD950B615218834C0A925A0250EA05C1C84F658B16C4AFBB2AD5B5099EDB48EDB1585362556FAFF656C0853A721C9B07FF135BD83E93FAFE10ED9AB316241B2F1530168B0A924DC2D5125898373D80BDD94663B430250697EEA3A3734A56563EA4374C8C7EBEA45C98FA30BC5EC90887BCF79A3E83DED8E9CE6D481C2F3FA6B00D601785D5ED28DFF6377C27C2FE7B626C6C53F09459EEF59AE5C62EB7575382DAD4D63C39CFE705E3BC27CB8A159A9649BA4AD0E4465289E394DC4FAF1C36AACEE381BE92B05569C8C70D13A30E3EAFCE667F9C8C0E0CAE4EC7D3EDC513AF512DAC91D6BCB";
-        textByLine[x++] = "ss = 3CF9E85C71F1E4965A26D588D3F2CA74D4DDBF2D83DC15033B1566B7672F0BF7";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 13";
-        textByLine[x++] = "seed = BD26C0B9A33E3B9B4C5D7EA32D5BD1FC371015BE163C86F584E49BFD5362C8D8341161CD1308115B2A03B7E5EADDD418";
-        textByLine[x++] = "pk = 6693535CBA8A70D2410F72CF1B69CA2951579DA03B23E997146BB3519C521FF325F9F1A1C1D506CF42079F694F0340ABDA4806719B8DF468A53A92B5BB2629AD0B54799103C0C17936565E30D9272F44A657F190CB92887D4612A517A35E87B24FD314DBE32D99C7758E5458038140F1CA660EB8C1E813822F52865F6671CAD74FF478514F87AFBC4187C0C12A4F388A63613D592C1DCE237D13A01EE6DB54013590DD91078B23BADA249FA57A91C0467DAEE45AF38440F008C446B6503B94772427A5B9D044A3950377C2CE8A010C9F59AB7E27AADC49BAF10521D7B11D3ED707CA2B377912C131484C5E94CACAF88595C711599C081808681C6609227648033011FED686C9A2121E724346426108A5C514306717224F5928063549B268D87DDD91A79CCBC42F884F39D097E6246266173A79C68896235619928FAA907D93226DB05157319456DD06564F364E8AB68AA1FCA43BC419425160A6960FFEF152FFB85F24358D2BF3C375888FE8F7245225A27BD710EFBA2FF73901C1F080F6064C44EC982716B0FC7A88AA41532A99420C8B52328B76BAF58D1FD6A652D7CA5D4ABE930915D7751FC7B1094D4757FB0BAF1ABA40D0D443F60CAE0D5B19BC4C705567A602402D18C546AD9B8CAC337CCF4A0C1A23467E75CA55090AB4435446B9737902A73C69CC86D050A8C11FA928257C5774D3F74547016995633F7C564DD4C962F9865FE78347D8D0A5EB449F6A046BFD6028FB1185FFC86E722239CD3BB19FCC117C34658F00B10914989CC24545E615FA824742A1814D7642DDD21E2A89194D13270835799E23CE97F25CA7BB82BF096358916D73C73259853C37D814425B37E9C67F5630B408785290934A70448132C653AFEC782A478920A085C46823B960AD795674B937053543B80B98C52FA29961380A8360034674852D151A8C1393FD0C97A0B94695B8ADC652AD1D3C69764387E75B1038921FD53171FD43657FBA4C919411161004B4DB2E079541AF110E166CCDF2B77A8709028B18A96E015F13FA6142C63E71F73236D227E36B7B6B6A8E8A56CFEC8C46746A50B00A95705BB65E8095765EF7A13BD38F9FED3BF36477916CB802690A213C83F6624A067A5E2C";
-        textByLine[x++] = "sk = F8D65394E770F5185B92393B4F673A030A0740D3AB2EBB263F7561F1EC5B91160832BBC444834F67AC57AF33ABBCE75F31A8BEA234AF52665997137CAAD53EA16721E26172D05930896C9B6034680BFB74AF68969C8C51DD983A778040FC7C8A14EA792DB54D380CBA826CB772A654A496CCD3E983642997EA9253C15C958AC162A6AB5A80956CE4E3BE95FC9C06A98CABF235C35475FB58AC9E3641C208A0BB481F6C722C0D5B983D8B1F792B71CDA7A69DB9C0C00AB4C0F0375DA298078417A618065F808419180961AA5144D66082B2AAEEF26B8B55B14BC395A821C2E87805AFC07BDF91874EABACCEE0448CDB208F139A0F4C4B2471BEAE5597789C1F89A988263B8AAE549BC13218EB64A5B0EA62A39B0927667F302A277C769CC0E28823817E32793350A83F9B8B2A3AC8153CE6843D65A7FCC75493D414F7C98CE4C583CB66CBF701CCEEE96771D2C5F94323AE2365BE9AB783365B2D5C97A318CD7A4788ABD4BAFD31A3F19363D4E5BBFC996C2DC7B82FB98BA18070D4B014EE1854C12250B3D18157112838A58E005B3C9AC59FC8A65BD1F281FE7053D3664585B69015F74B16187A5D19CD26C503D0B2BC3AE32799D97440BB3B60C40F0F7C4506C56FF95513EF8B2B7DF33A4D3A1388CC5FEB44AA208AAD6CC972859B15E10541AE29C2234A904F6C6A8CD449C5B86897EC5978B4CD84F189D63A072C7BA846A0884DB14826743921E13EA5E105736C2F84C50DDE9738A4E9588D22B296FB13D57C4347868C7E4394B5F76AF2C18A90DC7491D6A5D510A75A198848737B7EF45970387A29B51C45B5623E9B4EB2A3414A1C285BC866729A98FCC08E3DD31567D63E7C57437F5A90F9EC35FCD74050858825781CC6D5A2AD5608A2D063C8CC369E6A7C0F7C7EB27AC433883A5946ACDBA84FC32872CF689FCFB50BA6E894185C973C196DDCBA52252948C7E159114A23A242B2F5D0996EDB7F2CB93408B9CBE68298F8455AF632275202C6B2E1370C5C9D1F6403C1A7832343AC2E524709268F06EACD753250486025B691B9235BB2CBE833E0B6086C9959F716B9A8D30CB840B06693535CBA8A70D2410F72CF1B69CA2951579DA03B23E997146BB3519C521FF325F9F1A1C1D506CF42079F694F0340ABDA4806719B8DF468A53A92B5BB2629AD0B54799103C0C17936565E30D9272F44A657F190CB92887D4612A517A35E87B24FD314DBE32D99C7758E5458038140F1CA660EB8C1E813822F52865F6671CAD74FF478514F87AFBC4187C0C12A4F388A63613D592C1DCE237D13A01EE6DB54013590DD91078B23BADA249FA57A91C0467DAEE45AF38440F008C446B6503B94772427A5B9D044A3950377C2CE8A010C9F59AB7E27AADC49BAF10521D7B11D3ED707CA2B377912C131484C5E94CACAF88595C711599C081808681C6609227648033011FED686C9A2121E724346426108A5C514306717224F5928063549B268D87DDD91A79CCBC42F884F39D097E6246266173A79C68896235619928FAA907D93226DB05157319456DD06564F364E8AB68AA1FCA43BC419425160A6960FFEF152FFB85F24358D2BF3C375888FE8F7245225A27BD710EFBA2FF73901C1F080F6064C44EC982716B0FC7A88AA41532A99420C8B52328B76BAF58D1FD6A652D7CA5D4ABE930915D7751FC7B1094D4757FB0BAF1ABA40D0D443F60CAE0D5B19BC4C705567A602402D18C546AD9B8CAC337CCF4A0C1A23467E75CA55090AB4435446B9737902A73C69CC86D050A8C11FA928257C5774D3F74547016995633F7C564DD4C962F9865FE78347D8D0A5EB449F6A046BFD6028FB1185FFC86E722239CD3BB19FCC117C34658F00B10914989CC24545E615FA824742A1814D7642DDD21E2A89194D13270835799E23CE97F25CA7BB82BF096358916D73C73259853C37D814425B37E9C67F5630B408785290934A70448132C653AFEC782A478920A085C46823B960AD795674B937053543B80B98C52FA29961380A8360034674852D151A8C1393FD0C97A0B94695B8ADC652AD1D3C69764387E75B1038921FD53171FD43657FBA4C919411161004B4DB2E079541AF110E166CCDF2B77A8709028B18A96E015F13FA6142C63E71F73236D227E36B7B6B6A8E8A56CFEC8C46746A50B00A95705BB65E8095765EF7A13BD38F9FED3BF36477916CB802690A213C83F6624A067A5E2CB899475C1802B1DD76A9783D93B4225DC558EEA558DDC598CDC45A898B7BBFB38AEC87A9A79204CEE2986867A2906EB851B734B8B22B91D6749B1A5F07C44E3B";
-        textByLine[x++] = "ct = 2518BAD0DE4DFA29228047F263CE666D43472A43CCCEA01B7C61EE120DEDFF531A864E7F63F16B461C0FF18AE7E551A8784B6A44E2D3BEFE2B3B994ECE1A94CBA8F846FD756EB94D088C999E73C96C3D16A74AEA53EAED6581773CC8BCC08CFD3DC2EA05FD0118495AAA20F387933258E2AD208B36037D49565C0B3DC8704580F6BBFDE68BD784DD1091A99C5C56A555BA1D94F3C9C508DE1F47FEE09539A28BC73F3C6B4BCA2A2AD51470CDDD36499CD0EBFCC1551FBCD36E0053715EE7E135882DC1C3DD5429BB77D93DC48FDF2D9B48CD9EA73618ED6A7C6A390440677D9C1C9B1E32160F02AC939714C68756738D9A73ED48B2CD1ADF4D87971C0B4A5FF2DD7B4D6F61416063675F61CAB95B7BF8FED6DC45154E90096F69EE41C787F910CD54D7D8D25028B95A1303C59FEAF8EAF5D45A27B5679240D4C22B38B3C89DFECDE17304C9CA3E3DF083A86CBE297A695F9D00CFE75A91FE2033ACD4797D041482121E32E1BCCF630552AFA9EB6F4F8CED9EDE3AD2A1AC728796624CFF48B0F0BB4DFA0DECA016E4C0A415E74B9AE978E984C2FB6DB446E4C1E0E7511B6AE7EA208B7E55A8BD38B0E85CBB7722574F66AFDEC0CCF36AC72D7579EF88F7B06D5054F46F5403C7EA67A45A7AE720CBFE927FED4D065152196DA88C033E082CFD679F72076A63EC9CFBE4F3716D9CBF0C3B6F393A0747CC5C10FFEC4AE4C30285DA51048D5FE41B5569CAF3DE165205677AEDDA9A55D3B179453FACDB3FD64F353BF31762C960A4E6F2859BD4D0E6F47422CEA3939BC7804B8D257684565E535B362A878B0B84B35804896BE08E60A264ECDA516BC73DF212DB86E980E83D76D027A103EEBD4042076474090A3F741CC7DE6E340059F60471885B5C03CDFAF77E0BB6598AD46CAD432135EE3F687C65A198E0A5C40B54CFEA967CC922E762768103AE867AC25DCE0950FB6A599BB9BF41EA0E276948BEF7FBE9781D96C6EF0BF9D2F4337C546451C9531ED8809D178A01979208F3001BC8B93DF98938CF21A36A85930CB3DABEC1774E6962BD214695FFA4BECB573920891E8BCF2C412131DA8D81";
-        textByLine[x++] = "ss = 82B4F6CF697D27168AD2A66041F86C6586494C39DB2EE32181970ECD82A1CDAF";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 14";
-        textByLine[x++] = "seed = E2819EF86853BCA1B9DEE7EE1C1619988964F9A913E635AACF0D96CA6E0300D084329DABD8F149E24176D22757404260";
-        textByLine[x++] = "pk = 3883135665AC3D6B0E710204689C2616487BF51295C5010347B4663B914BEF02791A147C20574F1DBC7065E7B2A930236A99304B6529E95B9EADEA48FA5490FCB8C59E6B5FBFE5522BC057E3F9AAB8E7ACA680CD620310A26BB4309A2F2C4C56226114F8AB63DE71B74971197D6A52308910188B603AC8523493A751A1CDFD441259B03F5D140F862CAD7A794307AA31CFC4624F2A740552266B22240E631638C2C17492ADEDE14997D95E4890002110CE40FA83F416A2ED06806CFCC49BC9A1599512DB09362AA01650F7CF56290D2E85424812CBC009AFD5520DA63B30DD814E25BB1F974B7F3F77C38C638E1943BEEBA234736A029342A13AAC8D21DA0747F41B217159869BBDA51885EA9B0A99ABAC1B740EBF40CADC78A6FBE93076E214031264275C3D56486EFDC00E9F1AB1D3BC98963C908AD13268D9B068CC2AD5C36F68A11281DA7B2C325509383E71D098C22A1DE3C3065F1082087338B3AB021B0A3FB2B5CBD1B29F7B3B7D897C8C874B9D71D34DD60BB686B99C82750527704A53C737B157A6C98A148AD0727D13CF770B038E9A275E568B19CC2BAD360C958C54900C59B4BB69B8341362AC7FB589CA96F563DE54A46D3C02C475788351C5FFCCBDA1998A87D7A27301095AC8577CB84C0A4A244CD8C544F4BC7B68CF02A99D9AF90BBB42A1CE63740EA784E665882C6AA1AE151501E560EBE9116FA9CDFD749153B7310E1583FEEBC2856384923200A811B2C0F71C23076DE6590A89B6B6114316EAF80C90480C1EC1C131990637765FB17C2B0CB1CA1C03A3461BC2C8534B35493B3DD3C8D7B6816D8127D192A6F7D79E805283E3E882E8120AAD321BB6A197FC60CF443ACE984510BC59C8BA832699C8B145BACBC090965ED08785F72D24F4B9BA70C41EA79C91591B2295CC5903B29E04BCF3566C9B7C001ADA05744605F1845F3E13BF9F22744659B2913B2489B073B6F01765C756AA494A41E44B599719EF5968853C0896425085D75CBAF73ABE304025CA6006858EE7C1C9CF0067B576C168651E3FDC9B9D978CB1C62354094FACA0A4ADB426C157166F08034CD4025A63A8610DB945708CB5425CE0C3C651532A43D32473F236519D54FDFE0A815D";
-        textByLine[x++] = "sk = 5B013906459962532F06782C95FB2823A230D9610966B0A13D245562E73716A0216F566C8615848B7A481B405314C79CB5B8727408310A447E58D12A9BA69831C5A32828621FDA3424B9CAB229AA50716CB4B0499C5A4041EB090205131BAACE04C31F0467B80A663F74AC1E51607FD5D4C8D3B02D8706AFBF83B4DB3C8F6A72A8A61C9056279EC64C3DE62378D01C2B7352357675BFA3B659F03314598611E9437E73BC0D7A7B15E9076213C77D08478D00E10FC15C1A2CB37E3B89930C9342605515B3C88B8A06062A372F8A6448A984AAF45168D891C5F0F4CE5330152459A82FA92C4127A5313B421AC4693B0BBC1D5BBF49D16A69E9482A37C42B07432FE405C218A08A5A22F00A443F258FE738CD8E54626324C6026993052439A0C47E3BC4849216C3340A7621826A778623866849B250BF25A6A28EC6A7F69962F3352BDB216D306423406C946F9B2BB211052706BC6A649DFEA411E2061C9F21441DDC8628B69C4529764AE16BEA89470F8407FAA00BAE8715314366BCB797887BCFC57C2CDED27CD8089AB564576BE95E014330C804673507899E7C6C98441BED4258F439C264C87BECF0418FBC9FE87338E909BF3A1897C8C151B0305E1729000E93B92B40A658B871E0DA0827A93D39A5A0F6950049F315FCC09843673D3EFC140F9551057B5A9FC55C9FB7839084852D677C8DC35E01F7A3F45A3A61C28A38A685B330B8E0675ABE736214661DC59409E31B711A6C6392AC1D50EA9DA3C845AD678F38B1CA8E313D4819C75C08231FF38BA0E4C33D69286880413D5C77F95B52D54045B44B5C0C453C5C6007A8A561810289B8D192CB5846AC273E4E7420E96C6A8EF78B89842FAE3A365B426C99C49ACBE24A86BB7CC89759ABC94E727B1BA55A5A539C2EC4879E3C040D3D5808AC05B794A46E20F67A5622235E11773B991F9EC55AC598BCFC365B1201008BF0CAA360B1CE7121C9304F4629BC65041A6902390F8A5C76D6CE4FB6B357020340327B861B3148743A4EB455B66762E499694F558F19765D6DB32B7B075FF6A6C3F49622EC482688964804A6158FA08BE2873C3883135665AC3D6B0E710204689C2616487BF51295C5010347B4663B914BEF02791A147C20574F1DBC7065E7B2A930236A99304B6529E95B9EADEA48FA5490FCB8C59E6B5FBFE5522BC057E3F9AAB8E7ACA680CD620310A26BB4309A2F2C4C56226114F8AB63DE71B74971197D6A52308910188B603AC8523493A751A1CDFD441259B03F5D140F862CAD7A794307AA31CFC4624F2A740552266B22240E631638C2C17492ADEDE14997D95E4890002110CE40FA83F416A2ED06806CFCC49BC9A1599512DB09362AA01650F7CF56290D2E85424812CBC009AFD5520DA63B30DD814E25BB1F974B7F3F77C38C638E1943BEEBA234736A029342A13AAC8D21DA0747F41B217159869BBDA51885EA9B0A99ABAC1B740EBF40CADC78A6FBE93076E214031264275C3D56486EFDC00E9F1AB1D3BC98963C908AD13268D9B068CC2AD5C36F68A11281DA7B2C325509383E71D098C22A1DE3C3065F1082087338B3AB021B0A3FB2B5CBD1B29F7B3B7D897C8C874B9D71D34DD60BB686B99C82750527704A53C737B157A6C98A148AD0727D13CF770B038E9A275E568B19CC2BAD360C958C54900C59B4BB69B8341362AC7FB589CA96F563DE54A46D3C02C475788351C5FFCCBDA1998A87D7A27301095AC8577CB84C0A4A244CD8C544F4BC7B68CF02A99D9AF90BBB42A1CE63740EA784E665882C6AA1AE151501E560EBE9116FA9CDFD749153B7310E1583FEEBC2856384923200A811B2C0F71C23076DE6590A89B6B6114316EAF80C90480C1EC1C131990637765FB17C2B0CB1CA1C03A3461BC2C8534B35493B3DD3C8D7B6816D8127D192A6F7D79E805283E3E882E8120AAD321BB6A197FC60CF443ACE984510BC59C8BA832699C8B145BACBC090965ED08785F72D24F4B9BA70C41EA79C91591B2295CC5903B29E04BCF3566C9B7C001ADA05744605F1845F3E13BF9F22744659B2913B2489B073B6F01765C756AA494A41E44B599719EF5968853C0896425085D75CBAF73ABE304025CA6006858EE7C1C9CF0067B576C168651E3FDC9B9D978CB1C62354094FACA0A4ADB426C157166F08034CD4025A63A8610DB945708CB5425CE0C3C651532A43D32473F236519D54FDFE0A815D1A7E0760C345CB5875303E20E4C72076C794E56AB75231750A190B45F374D979A2ACF359556DF4A2ABAEB9DCEE945829BEB71185B4D6BD18B76E5668F253383A";
-        textByLine[x++] = "ct = 47FF90CE4EA0C3D9C0E803CA5683511B1E57563B54116AD575BF2EA91BBDFF54DCC9ACA902461F0456666F5814B6D56865E51B963A314E85A26EE7B99E1197F8E34F407510BA1E10B22807D5C1B9FD8643810E9ADB3C4D0479CDAB6B7CA6103C695906DDE1CFEFA290C86B0736EE21C588F032990311881D146D089976FBDE8F188104A9A2E1BC9515569D6F8B2DD548EADB1567F63F23B51C5F7CEDFE42250E6631D34C526D9146BEA9124590B2E58C6EEDDBBBC21E7F6BEFF7148BF277B2876A66441FB1C1315F7DE065C651480BABED546141C970F022051B058E22157C8F7BD9A790333259F6033B983F26E73D498D5EC6A4E52F0881329FCA2D5B68215F7AF3B7E4B2039DC219339BF07F6BF8673127D3FAAB668697C20C714F33EEB6F50BB0CEAC55C3768AC227977972166DCAC4A341D2FE071D7167B7D10649E6B2C3DAAB93C3CDA58415EF01C9213C9E60979F610FBF5719EC56F132B76D3D064B7254598B65A36EF93087AA495414158D974B86D98F11973C6B63994C4116F93B8972258371C625DA1BA335D42F509A07BF5058EC7900B4DE14C707EE3E5B96043B6F859993B6FA5057DC151A03ECC1E6B775E4E0B442317395B1304237E319F10806DE1834510F903CD7AEFC2F31ADFECC084C3C2B71C43EAAC45A5FC6535742EA08D1F4568751022369944B9CAB7E72D107501184E729AD6100F0EB9D905BCE8A6566E32BABDAD552EB30BD5D3BC77E4BF9A71A9F16C84D2053080B57812284FB76D5DABCAD0705011874D87EFC945AF323D17B5D3B462ADE882A9D108A2E0CB6BF75347090B554196EC9869C9248440116870E736C5ACA48FAD18A58AC80283ACB018FB4F04FA0837235945F77572CC909A7C0C06E187760F4D52A39502D796ED45557DCDC7D3CA9703352A9933ABE1F3A6DFDA645A2E28D287EC943FD873F9B28E05EE7402F51941BCA3682447552122EC6BD5C0A3761539D40742F1A2662C58416BC94693C04FF77894CE15FC9E5CA34393455DF25B1AE9BBDDBC253B272132523D8A69E102EB116C2E382ED81CFA7C0780A5902F682FE33840A6E2D90769D";
-        textByLine[x++] = "ss = 0146EEF9BA45C59A7915DB7431F20308F6B230A5A459540261A5BE425C84CB56";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 15";
-        textByLine[x++] = "seed = 669C4EF8A051CE201DA65FC4BC34D398EC1F806276FC5D987AD71D93BC12DC8F107B58BE6E8422A0795C88CB9A0E7488";
-        textByLine[x++] = "pk = E7752AFB068A323B8C78B5BA865BBD2CD6651D9659647A99817631ADE890C1945AFBA81681B834D55864F8E240A69067BA1384F9279576110A0809B34C81AA350CAE66C535D5F24315FCB30B3469E59C45F44915D9A010E834071A60B4E29001674326E8B556943246365C87D9133A7E68A6F57B63F5B72A94D2545DD682143CA0EC892CA3376DDB188A83B3CA5D31899C5B8A0CE014DDC1BEC2988171D7BBEC2742FEB77E286306D53B687F9C04C45A4EEDD1C4DC593067086F1728724C282DC8B94978A67BACDA824E6A259E12C44340159510526B6630DF44BD4ECA50C62B77FBA073DE86C167E9974316962C6805DFFCA9F5D4A413CC04DA0B4A9BBC3DB7EB825D7B1F3F942870C559F900BD0082C13DBB59D68B8B7B84906B4C5E86AC94DA520B54A5BEA0F51FDD12CF53E90AB317117E320AFB377CCA024D91685A2371612724208FD02A2240B32349893544535EC21655D398914BC53589B5A6A920DBA6B76B125C32611C9DB77827132A00651F6BC3394EBA975BC40E87C34A696A8EBCA0CD356517B4B16F53C99FEB517337A8231286A0ECE32A9208BF90DAAC845CABB86C8D61D498543C4AD2325CC82A75A11A9751C6A0D1A7015F74AE1E32485B26372366CC97F42EA0840E20BB54800028E537CBE867AEE64A1ED4453D27768A55815557E71A3857012E33172B3A6ABC6729B207559899043185919883C9E6F74D1C5414E5728D18785CCAACCB753B61A6518EF57B4546C5261ED80D6262ACE4D72F423B15F60312A9352E19E0887E7A131E590CF24B499DFA53AC3C5123240469350E097524263CAD98A50E46739BD342BCF5D454DF2A82004AC7CA8C23A7B406FD396239F74AB0686141D3CE9AA85EFAFABE79C1BBE2883EFC6B18A3879A95EA3C67C7C23B25B4AA95CEE8847A8EF4BBCE67637E0259E485203077A2658A73871B70E28358C94143E78802596A4124B75A2376718B548D8EEA706A4A256B297271A2A0AFDA68030504E5C35F7F4CAB2A667897774FDDE85E5AE01FEC059111A1B1647571F2DCC0F8FB5871F8A2B154C4D1B7392A96789EA5875D15C817505418BB0AC3F8119A88D1FBCE1D3419BEF67B6694D9FA1BB309CC61C819176964DC";
-        textByLine[x++] = "sk = 72A882D4848542A06F83C28DF39C2384C2C86BF97FE18255AAFABAEA22A366DA3E6DE5B1518465EC60A5D0754FC4C19BEA36B63EE04A25617B3A0358B603998DB88C05593A637C232FA0B4E417573EA5AFA5036F752A0BD8F123B3287DDEC26A98B24A464A64502C92D284A2E22C2A50263872649367D39BF1E315E2FC5668590A534B6AD9D6298EDC57E9D008203A9206C3288634CA87CA5B7CB0AADEE53CE9D58E8B2B6CF340AFCFC73D9791C8C2079F352B5E6F0BC67942B58D1A2661B336C37C3BE7418F93BC4205F693AD795BD2B2827BB96DCD66AE82346550228AE5C91C2BB9AEF4F81924772855F695929B975F7273D4340020F33AEDEC90BA0691D9924B84F1AC30E4C34EF0949064892C0ABC0B7C54C7B0998BE1C48BF09B6DF143085400AC96637CE7B6CD32B8FE778D9FB6241EE58704737989C9345E88BD46F96C3F43C6482C9CCC99200FF02A9E4C0A3F81468FF5624A050272591C04D5A44FE79CA2A575C9CA4D629001230482FAFC9F3030180CF036A875AFA17A979C1B8C835931A86B090DE5236365ACC6E1282593ACA8F74172B03D72A9C58CCA346D488127046660BC7936A0A78C209FFDC2CB24A4C9686A988B8437CDE043AE34C528698643B916EF7B8D66C77D70C5075B1B2AB0975FBA08A6CA8403A753A63DD32F7DA15B2DE025B015CAFA85C0409A5B1113371A11243C4626F74A76F3F62911E8851B265A302A5A48A2A22861864E5C8AB094036338C1B5CC7DAFCB5F66E585F6447864E505EFC363A939BAB445C2007973186143D7F38AEA5A00B77213A5E053F6F74E9AA92574051A5B281990531182549371B9610F69A3EF3519D06A764D53102BC68C220145F4072D3CE5C7A8840BBD1C21A3034FE5584FA6191F44128652C73B09868FDC947CD90CB7FF9225BE48363437C5C45314A69460C3F55882B352937CA65B344C493263BA7A0D1513796916243700B4FAACC36F85872F049B399CAD9DF55F29E93AA6656C3139773536275DE5B52699299A6548D626C0C39141D64889F20013F706966D10B60B9B311C83B69CE9888BEB2CC77192A1C73F1F34BCE7752AFB068A323B8C78B5BA865BBD2CD6651D9659647A99817631ADE890C1945AFBA81681B834D55864F8E240A69067BA1384F9279576110A0809B34C81AA350CAE66C535D5F24315FCB30B3469E59C45F44915D9A010E834071A60B4E29001674326E8B556943246365C87D9133A7E68A6F57B63F5B72A94D2545DD682143CA0EC892CA3376DDB188A83B3CA5D31899C5B8A0CE014DDC1BEC2988171D7BBEC2742FEB77E286306D53B687F9C04C45A4EEDD1C4DC593067086F1728724C282DC8B94978A67BACDA824E6A259E12C44340159510526B6630DF44BD4ECA50C62B77FBA073DE86C167E9974316962C6805DFFCA9F5D4A413CC04DA0B4A9BBC3DB7EB825D7B1F3F942870C559F900BD0082C13DBB59D68B8B7B84906B4C5E86AC94DA520B54A5BEA0F51FDD12CF53E90AB317117E320AFB377CCA024D91685A2371612724208FD02A2240B32349893544535EC21655D398914BC53589B5A6A920DBA6B76B125C32611C9DB77827132A00651F6BC3394EBA975BC40E87C34A696A8EBCA0CD356517B4B16F53C99FEB517337A8231286A0ECE32A9208BF90DAAC845CABB86C8D61D498543C4AD2325CC82A75A11A9751C6A0D1A7015F74AE1E32485B26372366CC97F42EA0840E20BB54800028E537CBE867AEE64A1ED4453D27768A55815557E71A3857012E33172B3A6ABC6729B207559899043185919883C9E6F74D1C5414E5728D18785CCAACCB753B61A6518EF57B4546C5261ED80D6262ACE4D72F423B15F60312A9352E19E0887E7A131E590CF24B499DFA53AC3C5123240469350E097524263CAD98A50E46739BD342BCF5D454DF2A82004AC7CA8C23A7B406FD396239F74AB0686141D3CE9AA85EFAFABE79C1BBE2883EFC6B18A3879A95EA3C67C7C23B25B4AA95CEE8847A8EF4BBCE67637E0259E485203077A2658A73871B70E28358C94143E78802596A4124B75A2376718B548D8EEA706A4A256B297271A2A0AFDA68030504E5C35F7F4CAB2A667897774FDDE85E5AE01FEC059111A1B1647571F2DCC0F8FB5871F8A2B154C4D1B7392A96789EA5875D15C817505418BB0AC3F8119A88D1FBCE1D3419BEF67B6694D9FA1BB309CC61C819176964DC0F96FB9E146A1C22CC5D23E9108AF0DC5E13B7810B8F5598BBD5F8D4B54C8AF7DF05318B5F655EFE36F1B678CF4B875108A18DB2FA312261CAF839F84BD956C5";
-        textByLine[x++] = "ct = 5CFA57CB23C409AF22CC03845A4F620E6B615C9C9E00852F8379BFA52BD3ABAB39B304BBA0E641FA080B97B239180535F1D2692D755C579BEE0DB61E2D159DBAE317464E9B81091980761D6AAE6DF265EE602463660426728FEB29BD4A61230DF7A487A678376E9E9A8465027F310DB1641FF9EE24A450FE89E4F247564D0FD52B607D90FB6405D8CFDD103125528C05CD80F0672EDDB30764B3EA9870F04E645D1379FB2E5375DB93FC87179226CCD8EAC1E95ABC9B3F0C07ACE24D16DA348E6E01155119DB3F10725B34DF0BB46CAE3D2FF3E1C53B72A65E68F17AD792C84CCDE5B454453A2C6845246483F0D9815C1EB4B9A43299E576ABBB48B22FE5136D9D68430C21E07BAA215049A5207AEE2F2E88A78408E959F8F5D6D582213C88EEBFFE4A90D152AB1F83EB367703507FED17A2824EB1AE118D75BAE1B72FBB05A061E743C2607B298ED7BACB1070B68C5F03DE59E1DA8E9CE9E74D0509760A4FDD667505854106936C201ED505D0A251CBAD4A684E5B0927D08A74689793AEDAE5FE1FCB8D027BAFB6202C66770A0E5A2E4D78DEF6723D41940F255B0FE908254EC398313170920D5FD5F70034E383FBBC396B455F0843EB99B716B287B13C60957182F1C1D6E0680C154320DB3C2FC3B9E66B9B1D43C8468C99A120D40B4B9DD20C2F7C35AD2423619A2B5428980DB15768488DF2962B4F9DFF6ACF2BD23139B867A42534AFDC4D8C7E2FA984B21C2E40357E75EBE3DA1F646685A932A12BF6A77DEF9435F955431207F652E42704548FCA5CBE5A8285E7B9025FA9E85C0515A35260077E67739C94AF31D21A4FB5CAE7B7AD61B17A1700F02766EB7052E152677AE2D74AD2D0AEA178A1DC1D297F2F94653FA0F97422FE7BF52D2ABCC5FD2453571A3B016834266966E5376663828B54D43C8F0949687256E2043E2ED700C968894EF024E601E509122665EAEEED4E9917AC35F2F42C489EDEC0990770CFEB37EFDE843F281153CD4EDB863265049BF276D0B72119B85144D2595EA1BD33C300F2C2F466B56A4DC4C7F2B6709381BF982D0FCF5CF7F16E19C993554E8559B772";
-        textByLine[x++] = "ss = D1446F073DE8866970B868A0282C2865682765CED8E3E2ADB6D09821F69EC64F";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 16";
-        textByLine[x++] = "seed = 9DEBCCFE818F6B5204DB4EA09C03EC9A19DCF1629C1527685B8A29776BB1DAAEC45F8ABF8F0ADC9A8C8BD6E2DF6D8048";
-        textByLine[x++] = "pk = 4A20774E234119411EDBB3515E4C00A4987D491C37B3890DB4AB249D28AEF2C0CEE1768C52B70CEE7966B31C58EC975EF8B96DD2E156544A88A9772BFC834D422599B117968B648172B2ACE7633EDE1624B0A4CD031779040128C0E94332B03A798579206873B5583CA9C6BE34632FDDCC223A76C415E262EC8831FE32225AB2B484758728182EB45C851118CFC5086974403F6B161028534BC0390DC7D7902493440134C784B30289833652E96C58D12867CCCD61713B51345C21C865976C0857808422F78DE8B95472627CF6B895DD4065C68156BCD16E65494DA75AC2E04668E0548E9658CB55D89BC8F98333E030A4720027ABA862FB6F3B006F6BE711B10B6D5E30B892708F42C49006357DA4F637E8B3210E49817A9026B7403D64D861DC65955D75028E596FA68C97EDF133D0997D84F342CAAB0F52DB4B1330AF6CA57B8B2423275255DC605FB9111907B648834C37AD812A300A715E231DBA4551066051D31B82B6C3BE14928C9CB78179E16EC0088CEC140D3D6842776B30DF33A11154A04EA7A6ADE981B8C2995A37BD16734F98E95E1F753425F15C1A9B69AC4BB27A9BBFF4F1845A734BAA620595A66C97B64B43EB2C54F43E506CB8A7B759FB063F7C957155DB10FC194171ACBBE5EB47E024730A76C04D4525BAEAC5BEF681BC3159BF0821C5B448E3A2C6BCAA55EFA55E84E5084D257A0F7A97C322C8C1848FADC7A2F3DB817816758220A5C7E67DCE856362E8C7161A911F0B5B01089DD324848BE5807BC67F4AE94B365132EBE95DC25A9AC3A1838897C0806891CCCC4ABDECC0CC87CC125A344CF83A5B43BAE1D81755877C83B6511E10CE4D52440BD94C246579711150A33C62F42192E90A178F676DDB34A05401A151A4C167391D199211644238E8500BFB94ADDA266E23C0CC5F422A5C0719CC1A870E768C5FA95EBA105E904A9875FCC58FF39375B72F84F12672386B690710B6B96C4AA17816A6A3FCF68E7B724EF4982C05799CB7A502B08B9ECDE916B3E47636835C500360F24843C265B1D282A34F04BA6246B6ADE8ABBDFA13681542E77B17D398088B6243B6955ED03C49E0BEB46C4EA9FF7BE444932E61D464966BFFC96BEC0647AB34F2";
-        textByLine[x++] = "sk = 2A0CA3AA8C5B212426E4066CBF85C540177324559CB5E065A31AA5DAA69448B5469B24587D6CC2A053ABFD4588AA657894592C21AA88C3FCB7FC1A7F5032A786CB121E38B68EC0096E253F3CAA94CC6A841867A582A77494DBACD97B8ADC66299E54444A2B420303429AA55022C961F0D953D9967CDB9397E6631956E59259164E666CCE7D40B98072973755408FF1303D29ADD7770D6B6CC40297648A66C1E7E253CFD631430BAA4A701D8803BB834483EB198BEA06AEEA9A4C6487199BC5BADC3526712282EDB173B07830DC26BD796661BC677D73D4AE72A5575EE389BD2ACE05561651999FE9326C9109A1726A0EA3354BAC66794AF387FF097E37B316D079C6F22C8932B8B02F33050D20C03770495636CEE8A557ADD61E45A20702E1A2E04A854338AF5FC4478BE47271C99C24D79F4A38A560488B624CA0EC5991B141B3E62141C73A457FF5635923C7C7E3522DBC937AE5BFE962C297C1C6FED6BB1C4A7B66D2AEFA71B272E74559381E04FA6D795143AB6789C06384B6D22A37DA12C2A3CE92EA09B705A0EF61379B98A1714C71FB044F3427CC20110C421207A05CB36AA4477C86732D949B64CCBC8F841089C878491C47940AC61A5920EB23CA823C8F45332E4317BFF016147145C299DB4E8CEA71D000850F113F12E0429F596DF9CB4ABA2329CAE2734B3C4C0B2643F7612F473BC0069199E1F08CB03C2EB8E96D92E6305909BE11ACB29C399D4BF8B48F5CC47E8973B51454E67AA5578359FF19325EFB7493382A41665BA1D168BB01C1577495AAEA9AD377252B39402C598C60E2B376010C9711C595F81D652C5C39CC8857B949E51A8939F4548A1959DFA464020BBCF599089AC9058CDC1061AA34C78B16688231D98792EC23063712924581BEA2A315841A6A49A09E8D47666A8427C811BB839745C83BAE65B154C6463B98448BC638CAC1064B03565F295495EB9CA032F778CFBA4ADE47A906379A457C6231C8CEB3FC42F9175DD50C38323C46B71395C114A3BD1044B6176DD58AC0BEEAB68DC1AD57F7ABC6049A04BCA06C9B0C95456B19F0A2B8022412463D20E4054A20774E234119411EDBB3515E4C00A4987D491C37B3890DB4AB249D28AEF2C0CEE1768C52B70CEE7966B31C58EC975EF8B96DD2E156544A88A9772BFC834D422599B117968B648172B2ACE7633EDE1624B0A4CD031779040128C0E94332B03A798579206873B5583CA9C6BE34632FDDCC223A76C415E262EC8831FE32225AB2B484758728182EB45C851118CFC5086974403F6B161028534BC0390DC7D7902493440134C784B30289833652E96C58D12867CCCD61713B51345C21C865976C0857808422F78DE8B95472627CF6B895DD4065C68156BCD16E65494DA75AC2E04668E0548E9658CB55D89BC8F98333E030A4720027ABA862FB6F3B006F6BE711B10B6D5E30B892708F42C49006357DA4F637E8B3210E49817A9026B7403D64D861DC65955D75028E596FA68C97EDF133D0997D84F342CAAB0F52DB4B1330AF6CA57B8B2423275255DC605FB9111907B648834C37AD812A300A715E231DBA4551066051D31B82B6C3BE14928C9CB78179E16EC0088CEC140D3D6842776B30DF33A11154A04EA7A6ADE981B8C2995A37BD16734F98E95E1F753425F15C1A9B69AC4BB27A9BBFF4F1845A734BAA620595A66C97B64B43EB2C54F43E506CB8A7B759FB063F7C957155DB10FC194171ACBBE5EB47E024730A76C04D4525BAEAC5BEF681BC3159BF0821C5B448E3A2C6BCAA55EFA55E84E5084D257A0F7A97C322C8C1848FADC7A2F3DB817816758220A5C7E67DCE856362E8C7161A911F0B5B01089DD324848BE5807BC67F4AE94B365132EBE95DC25A9AC3A1838897C0806891CCCC4ABDECC0CC87CC125A344CF83A5B43BAE1D81755877C83B6511E10CE4D52440BD94C246579711150A33C62F42192E90A178F676DDB34A05401A151A4C167391D199211644238E8500BFB94ADDA266E23C0CC5F422A5C0719CC1A870E768C5FA95EBA105E904A9875FCC58FF39375B72F84F12672386B690710B6B96C4AA17816A6A3FCF68E7B724EF4982C05799CB7A502B08B9ECDE916B3E47636835C500360F24843C265B1D282A34F04BA6246B6ADE8ABBDFA13681542E77B17D398088B6243B6955ED03C49E0BEB46C4EA9FF7BE444932E61D464966BFFC96BEC0647AB34F20BB63B48B8CDD1C7242BD4F017C519B43502656E23817BFD683150488F8B0B44DF7D92DDA83E6B2EF4CCE08C9134563063068A196D7B1A1A13623E48AE12528E";
-        textByLine[x++] = "ct = 65CD400076B4A68763296F2E5057031A5EA130DC8B21BD45083E1226F135C502EF1D6DF338A95F3FEA888FF00140E39806FA59C920C6AD4075D6D3F443974D0F9A80150C97C6DC4500ABD5FDD18660ED580F86BAA8A00C1C3AA19810FC6A5E7BC4762CAAA90C40B30163F967FFA8A33E8CFD6F374EABA177DCDF2C1E66B3683A69C93E24ED89B68EC1C991131285F2FF31E1CC4F348427DB99D40A2C500E6369B88D1E2B766896EFB40F218AC12D5A5BBDC1A7EDCAE5FBF6DA7E3D7C37868E9F57E68A5BF83B29992C4F7CED8E8A2BA2A52CF203461DDDB0D58A17A811203606523DF56FE2B56812EBB008E767CDF376B10A4B0882094B1CE5C47381099B226A8EAFC6D4996ABD9C62E72EB497B83CA9D22A50B7BE4A3B510AF3D5E5B48776188F865C240A6B33CCB84E44B10208FA575A1B623F6DDF0CB0AC511D027A6F4D4051911C557BE5349F54A3ABF3DD12BE416B59F636F9767851FBCCE5962147FB029198DE4ECE44A01E21284ADE006DB00F700FB02BAA484B5BC01AAFD80BB74942317DC965FBAD6805F4A40FDC728852C6898286E584EC1FD746222C9E33B60D45A06D684667BC5ECF8C72E672B71DFD0B11F0B7EDA5D3E7BEE302063873D64F4922F5AE97AE84B63CFCE8D81526DD5DE43860D4F2961A1FF88D22662D921E90FC0F04C6041A31106DC2599B91D7C43B1CDBA0D596DC10373B13D140B9AA2DA4BD1C03499FD5BEA75A2F43882A0A92303F3287AF6514311CF08CB403B6D3330600E95C77E97887080308721690350E4BE344FC54389F8B919AB73BFCE1A67317BF7CA0BB1AACF519EFFE53ACBC794414E0964C58244E261ADBD2D60875C7E0C4256E1A698507D1972CB38375EECCA573F21AC15D4AFC0C50B2A7C7570A86F249C252DAB5A7EE7AD5C6004F686E70B869DE6AAD078943B82434374DD0B4926DD3B7DBB48E29F5DA25E15975ACFFC0B373BF8179F7533D66E07F7A5CF5B66FD5DA19A8077825456643FA1EE82D8A95F05CAD707AE20CB1A8359572FE38B27BDE1432925585BF6037CC5429B760892A169D058178E7A4801A7CDEB7A2FD7C607712B4";
-        textByLine[x++] = "ss = ED8F55FBA251D1F3090F77823FFB0D91C7028C66CDDFC340BF9945D9A56D917A";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 17";
-        textByLine[x++] = "seed = 8098AE7A92C10F707D405F7DEA02C2EFBEF44EFA132BA8AEFE81BD45E543ECEC74F10920AE48A40B0653D63532517F2A";
-        textByLine[x++] = "pk = 6C10A1ACF866163B55706133DB1C41474A3EF0D4C7F131637D32B4803AC902FB5246C858A7426F9145CEC60047473666A5E9C37B8CA4B5C1161DC5479341876AEA6C515B564D68650B9822C6A817B5938F3809A784010278751D539B75EC07BA09AA34B08178CE5CB5BF70C99DF201018B55E21C8A51B9A70BE2997AC10B8A783CD9C54E69CB8B8A360D0DBCB9D6210933A5B7C5853AF4B22364635526ECBE5774C5A6093C2FE9418A279C0E6CCB8706C6A45181BE8181CA2515D1394E7EF46AB68A1E93351A6DA3684C8272C3E41547EB9E2E397A18F982E95730529C2AFFB88FEF731978388791CB053906A57241CF99525FC87CAE12E7360BB2A68B936DB9D55DE3A885C3B74BF94C5153336444BB6B07FC3E36979EE3B231BC28BFE1534A24E15DBEB43FDB40238443A29D3685F3180D65658AEA5B96078BA150623AE2C473B6B5A8F1C646A9C8848BE5C2A8DAC00D4949E66558124455F19B1CD92177C4C2019789765790ADB3D63C59719A292069922C5AB4B6B9EC2523AC919081764019282B16E4AC4EF7530D7A94F7EAB5F0AB4AFE7B5139076E74E10196EC67DE372878345213754AF4D2AFFFF085C970B6FD7CA06BFA60DBE526114BB854480D519A09BF5B6831F4B2238B99428538FF27C66777A49B4108FE3CCB4AD486F54A01E514266FD96A61FC2757FACD39E071A0896E93036DB4B110C8D78B586AAFA5F182E1D05E17446F6158CD34427624A488FB4650C8883190F1B60374B0E8418A12866AA8000A7B2CA387B4B792C3719AE883A030150A668CDEEB6E8E59AD3E420361361A5A149C85880E245888192560052B490248B91A29ADC0708344280B0B153BCBC0B575593245718B0180216D9A3847A186F312C169F42853820E862B90A4429F5D927A340589E193A5BFAA46F5350145BA2E6CD2727FC2545EE5BD74D4A38E181E527A80E2288444D860E7400B3AE3827A24042596124AD345E43A03CA310D37522DD962B71E8B3B1E3B29972934BF00015B6380617C8958303494D03366B6A51E7CCF6D3ABDFB242FFB8367FE3A1D44BA87BDA4587A9427DAC62D280A0CB93CC0A90D2A9640377808CCC2673495C4839FDA0D1038B27BEFE3D22E2B727A";
-        textByLine[x++] = "sk = 54E04CEDF980FA4114C9A285DF546391E523D49009356878BB2C49C77462053A2EBDF802D253C694E11169F940295279E9638C126895762A5C0B6BA3C7D44C91B4543163C27BF9650C74CF472CBA69F71908004540B83C7F081FB827C2CB4186160362BC0A71D602B41CE5395101B0235662D441429C964B28F4730AF20A802529E046B662A72ECB206A18AB7F002B8A224007E312449CA5B9A01AC4D54CC00C1224BF8C0F6034AE9C8862D3C0A58357282A55A8133A95862B168266A9473C7ABD0813E9B53FADB619A492A93D708A8DB2A84F866EDBB0CFE0B18DD8A0BD7281A7EC5079E952A5607C07E5DB6FBA1A010E28167B28B684BAB4DD2B76FF4A227652BF2E448DCF86BA498518F983B0B048C166256AA5F38405DB95C8E848DF37BD971108AC782343026E473C435BB5A3573B866134996910A5B5D91D35281BC2F928D9144F954C4FF31C3523F80C8A9420E064073DD8A6A6F85C3F4B6245A1900BD15EC21801FDF88C87A105800127D5F1060B6676F7F2CDC717C9B35BA6E6C16F448926679C1006BA0013B2BC35C37FDAB07E5DB79253E9669AF80A98277C65425925A059DCCBA3C0580E8E5A86DDC8ACE81971CC5A06BE7B9B8FB2CEE4A1B5B614340DB5314BE2AF85C06589F188F4D42738590736A381CE333A866B108CB88AE68803594903FAA280532C37A0A4CF082B37DFA7C438D9386D029BE2C6BDC3554C6D458D37F0930AC71DF99B7468858C9E1A2561BBBC858BCDAB73B82768503E946D48E65F3A1253E99C423480CEF6979AC96C7B10CC6311375206A90AD4346590D69A3EE848A1C5287841C7D58B5DB0B0749026387C93A29B7586A150CA803C3F36997FD523AF0014A905E3BAA92B92D0D34788D2530FE774E8071830C869E2417B39ECB6F0485EC7770F25E3BA22EACF5C180E665BC8096248EA0A881D59042AB55F7B1C8AA0F348675C5B4EB549DFB770AF8633C0089EEC5CB979646AE579A99D58554C1A0530A85631F12DB116C7E4D2A89E2B42CDA77B957962A1EA4B089B42D5FCA0034529A4134702F06E989113C284AD2D131A99F592D3F7B50069746C10A1ACF866163B55706133DB1C41474A3EF0D4C7F131637D32B4803AC902FB5246C858A7426F9145CEC60047473666A5E9C37B8CA4B5C1161DC5479341876AEA6C515B564D68650B9822C6A817B5938F3809A784010278751D539B75EC07BA09AA34B08178CE5CB5BF70C99DF201018B55E21C8A51B9A70BE2997AC10B8A783CD9C54E69CB8B8A360D0DBCB9D6210933A5B7C5853AF4B22364635526ECBE5774C5A6093C2FE9418A279C0E6CCB8706C6A45181BE8181CA2515D1394E7EF46AB68A1E93351A6DA3684C8272C3E41547EB9E2E397A18F982E95730529C2AFFB88FEF731978388791CB053906A57241CF99525FC87CAE12E7360BB2A68B936DB9D55DE3A885C3B74BF94C5153336444BB6B07FC3E36979EE3B231BC28BFE1534A24E15DBEB43FDB40238443A29D3685F3180D65658AEA5B96078BA150623AE2C473B6B5A8F1C646A9C8848BE5C2A8DAC00D4949E66558124455F19B1CD92177C4C2019789765790ADB3D63C59719A292069922C5AB4B6B9EC2523AC919081764019282B16E4AC4EF7530D7A94F7EAB5F0AB4AFE7B5139076E74E10196EC67DE372878345213754AF4D2AFFFF085C970B6FD7CA06BFA60DBE526114BB854480D519A09BF5B6831F4B2238B99428538FF27C66777A49B4108FE3CCB4AD486F54A01E514266FD96A61FC2757FACD39E071A0896E93036DB4B110C8D78B586AAFA5F182E1D05E17446F6158CD34427624A488FB4650C8883190F1B60374B0E8418A12866AA8000A7B2CA387B4B792C3719AE883A030150A668CDEEB6E8E59AD3E420361361A5A149C85880E245888192560052B490248B91A29ADC0708344280B0B153BCBC0B575593245718B0180216D9A3847A186F312C169F42853820E862B90A4429F5D927A340589E193A5BFAA46F5350145BA2E6CD2727FC2545EE5BD74D4A38E181E527A80E2288444D860E7400B3AE3827A24042596124AD345E43A03CA310D37522DD962B71E8B3B1E3B29972934BF00015B6380617C8958303494D03366B6A51E7CCF6D3ABDFB242FFB8367FE3A1D44BA87BDA4587A9427DAC62D280A0CB93CC0A90D2A9640377808CCC2673495C4839FDA0D1038B27BEFE3D22E2B727A2D19BF7937EEAB0D2A7570D43CF965547542A519BE85BDD4921F7D710747EC6F0F6AA3E88F7FA8A96067F8CDAECEEAC90C2D0B5E277E56E9C405EC9420C30252";
-        textByLine[x++] = "ct = 3C49B86B127C0A05B1E770A0D858E84CBF3223595313293E48137D59F520FF53E876D13FB33B040A69967E3B7CCAF68033CD318E1EEF578B2321E20329E5946248DD5B019B01FA7F3FE5318A768439336A718766247C6D24F9C8D1970B81DE87CFC58F7B926FE352BFBDD9BB879439CBB183FE1F2B9A29804B6C9F90853974A5EBCE6810B6BEFF0E9E37F18B25419AADE051ACC2556C0822A09781333ECB012896F30F82EBBDE6844AAC9E47F630FA5E222535C5793C652EBF76517ACA290E812F0DAEDD242B815B15BCCFB92B1F470B23CEAABABF18CF00A5BC2EB2A98785391EFBDEF71398D427411E0685CD41098ABA44A451655B1140A788A48DE4DCDAB70A1849F5A2348F4DD2CB20F54F544BF790C294CD6BA1101EDB406C53604D88CF532390FCA678358C31F1367701CFC064DA33AC20068AF9D56C0BE450918FFB8BD03820D4994BFF3CE9E5F1251B31EC8DDD507BA0F7CF60E6CA2E85C79E44BB993E83D210E14C1B59EFDA25F6D09AD93EB9197A7760D4C30A13C859F5C2FB6180708C2A238499BC27530110144CD31FA1237F46518517FB6473670E30EBC1CF25C372D96E4EAFE7345237330096DC65A4F7F83B6F6C095F3BE5C44A5D9E8D4F8BDCC4DB7EAC3304D851A274CD11D6C6E544465BC270BD9DF4B34CB044B2B444F08AE08DC401B949C1348B2493D6E228F9ABFB1206EFE0611D20ACC1432AC6E97C41410B895BDB55874E663691E978F38010AC139734BC1B4051F843FE1CCED989972F3797890295811594BFFB9DC1B64D1C2B0CE95852216B07961AC0561D46D07EEF53219A659AE63CE332D90C67CAABEF5B19FE654FA496214D30638DF44A38495863E75CA4923CE444976CE120820CAD972B260934A2C8F2375B9D22C2E481B4B986414BBC820ECDB2BBFF776EBF6E69B8AAF603731AA6918949EB5D0052CA4FFF439B673307C5972ED0C00B6134F6FE6DA833BA4770FF537F8492DCC74DDED5DDC753BAD51951A4E6F05FF58060E0DDB8921134500CB7E6B34D280525958E52293E0763A61E27BDF1FCE9AC1941BEF33219FF1032358B65F97FE0CC4158D4";
-        textByLine[x++] = "ss = 5451FEFAF1146809CC45BBB88DC3726DD4754BDC9B25B31B2F7E1E4D35785FFD";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 18";
-        textByLine[x++] = "seed = D5F23808871544E9C1D6EACE2028362B48E225312F77663E9F78CAFEB512B908CD9E25875D61A16EC615F4B8FF826856";
-        textByLine[x++] = "pk = 608A70DA01862DD25B9717BCCE38AC41045D44876AADE7C1ED6A2AA638994DB7011FD42B3D474B08F87B4B2A3B83EA94B4A21D214BC2C974A078B22598A7CD7895942AC29D876B9723F32FC3BB696B467BEA64B176C1219732AF5E21AB49B49FDB0BCF9152600A1A50B863B591376BE4653DFD93B360B853CBE8B8D1E84C1C85460BEA5D380130AFF7A0BA20A75F8A04238294A4191EBC900D255BA923056464F6621D2B96C493C2E5379A95D16F4B5A72E5C5BA3840517A28AB3D8A8C3B8C63E882AE37F4215A74BF62C54BCB65159F9CCD88E07933D4936F12C2FF174F84A1A93E1A9163D0CCE3290324355C1D6B21ED458E2F5883A8806B2D65A5F85B3BC103A692C94333331671F54629E89B1BE35C25746130D7A9B939CBE017170FEC7D5675B3BBA33E4E086D4C6625580536D0C28AB5E073E5F37CAD826173CB422F60BC11208FD0023395603D8D047FA57CABACB428D2F361A13321BC20827D5566DBA65BBD827A2F952A065CA19FC208F4617E0BC9BB97E82F4322413D7317C14866BC72242134C38A7774D1580485FA4E3905122EA993B03B12A1F6323AB778FCE157E3450EB02357A71C3CAF9571FB83718748B2ADC18296F570B05C4A77502062841AD216389B3B3B71C0AACA94A7051B0B523504209566BC153B3206B822779A98F59842442CD2B5246C674105B450F8E385D1585E651C934C4312D3208F7740A6F8A47E3393221C40747E452E1B0B7918B64D6C018A130416FD32C20FF641DDF25BEC731F9BC9A36DA09C1F5A058440B920694B2E9437BF23C1BC80835447A33F40A8DCBCA09A14CC83D44B20DA529B303D74932CD2761D27F5027FD01F93E907BD0538898078F57395EE2972642097944C19CCBCB4CFBAA79289AE31A230C67218B3C7075FF32563089A1E65AAB279C3E4D9C07DEBA0F72A796F601382385568275C8AA6B26A8CAFFBB09E44409D1C404B6FD957A967A17C83CDBCAB30D299A623D4B0DA14A1971A09BC83A59F56A05BC6727D91572BAC8FE834105616B5EF3C3E0CC2998F5006EFB3673F4471B6E9005957590B749C107A513E07AC15133976C1F4BEF1609E71524B877F53FD3133BF71AB13912BF37C2CD7A359EAB035CD";
-        textByLine[x++] = "sk = CC781EF0E49BC86B3F35C4645EDB42A0A37A17501F80367CCA61C8E6B9715F2536A9C27EDEE33407A159CC1A59CBA30E3D79A058C97E30E36DD4553353B057AFD87E4112223E38368988256B9C6A1A2214C24B1AC0AA88391B712270607A284862B192A38C2BD62A7A64D3CD1A9BB88D03138C88880817C11105C761C7CD0FA53A2624307DF5AB95B2CBE6D87A6278849BFAB67C95ABB0EC9C58F33BE488BF4E963589FA1263D4CCB0606E7D88911C82791A91C90C674AF04576E3E31405708FBFCA2BF317AD03C187492A6FBF498A66389C9F5469E450C094530324DB1CDE5B15FEA74C9CB7382AEB76405950648255AEA13160E41B00BD05E4921EBAECBB23B6A87CC96D3EA8BBA500903A44B8A085C97F4820FE502BEB69CD71F58C6A9B7089D4BACDDCCE28D0B63B04B7E33B44B6CB1623E64141FAC4B6D573D222A28BA8C02053515504269C501091536D598336B6391148B460A9407B2FE7AD8C439649A9A17E5554BCE7A4673B7A0F048F11104BC5B5C0D1210A898502335CA8CE1C2ED6BA29C59189E6C7CA0077343FFC9E213C8F08A5241EE7A43492386409B72A6A8FD01B81836B794E82A7E4031623C977C5B3A665D05D497ABB466B73EF05847CBA6C7DD9554AE237F7FB92AE70CC273B44436C0070928116B065577A0ACC3255956A84B7E64B9935779147819230721840515D073F2C91722D3B9C76A7AD8ECC7BEF809AEBDB7AB24AC9782C1CAA01B8871B01878039173A9C75C27841872D5538A990B530CDA7AB670742F9EA32B8289DFA832CC528260688C645F43A7B81601BD68ED2F6A4F5A61A90968329103CAEF59F80A9C430064BCDA9C7D4710F82FC646CDA3454893DEF63C8B3F11CB006580A8A955D5A55D0387AD9C5051CDB8E9A03520B5A7AE0CC5B63A368F6342587144165D08DF4A29455B11E6293A638102C0F0836517B15F6B726B5EA8DFC354D84BCC8C3C965DC3788682A411F904D5EDB6A25CB4273214CA26C2A8B787FE468463EA0120798B8C5B78D7F3561ECF59AA81BA0503A2F4E777A4DC2AD49BB29EDD64CDBE5AB083905D0A19F347C789B08B2608A70DA01862DD25B9717BCCE38AC41045D44876AADE7C1ED6A2AA638994DB7011FD42B3D474B08F87B4B2A3B83EA94B4A21D214BC2C974A078B22598A7CD7895942AC29D876B9723F32FC3BB696B467BEA64B176C1219732AF5E21AB49B49FDB0BCF9152600A1A50B863B591376BE4653DFD93B360B853CBE8B8D1E84C1C85460BEA5D380130AFF7A0BA20A75F8A04238294A4191EBC900D255BA923056464F6621D2B96C493C2E5379A95D16F4B5A72E5C5BA3840517A28AB3D8A8C3B8C63E882AE37F4215A74BF62C54BCB65159F9CCD88E07933D4936F12C2FF174F84A1A93E1A9163D0CCE3290324355C1D6B21ED458E2F5883A8806B2D65A5F85B3BC103A692C94333331671F54629E89B1BE35C25746130D7A9B939CBE017170FEC7D5675B3BBA33E4E086D4C6625580536D0C28AB5E073E5F37CAD826173CB422F60BC11208FD0023395603D8D047FA57CABACB428D2F361A13321BC20827D5566DBA65BBD827A2F952A065CA19FC208F4617E0BC9BB97E82F4322413D7317C14866BC72242134C38A7774D1580485FA4E3905122EA993B03B12A1F6323AB778FCE157E3450EB02357A71C3CAF9571FB83718748B2ADC18296F570B05C4A77502062841AD216389B3B3B71C0AACA94A7051B0B523504209566BC153B3206B822779A98F59842442CD2B5246C674105B450F8E385D1585E651C934C4312D3208F7740A6F8A47E3393221C40747E452E1B0B7918B64D6C018A130416FD32C20FF641DDF25BEC731F9BC9A36DA09C1F5A058440B920694B2E9437BF23C1BC80835447A33F40A8DCBCA09A14CC83D44B20DA529B303D74932CD2761D27F5027FD01F93E907BD0538898078F57395EE2972642097944C19CCBCB4CFBAA79289AE31A230C67218B3C7075FF32563089A1E65AAB279C3E4D9C07DEBA0F72A796F601382385568275C8AA6B26A8CAFFBB09E44409D1C404B6FD957A967A17C83CDBCAB30D299A623D4B0DA14A1971A09BC83A59F56A05BC6727D91572BAC8FE834105616B5EF3C3E0CC2998F5006EFB3673F4471B6E9005957590B749C107A513E07AC15133976C1F4BEF1609E71524B877F53FD3133BF71AB13912BF37C2CD7A359EAB035CD6907E1096410AB332E10F37C93D86D9B4657159EAC1FAFFCD1688D182D1278444F3029E1BE4E1C0258C3A22FF5B50B2674CC094BA7018DA2A61569845C17D26F";
-        textByLine[x++] = "ct = F103A6920DE65D0EA498EAE39AE95EAE62BDC25DFCA0AA8B5543AE984E1EBC091AFD3ABBFCB9BADD6487C0FE098DA4726EC61C5EF50A043FC15A103AA30F6198DB5970ADB56B110BBF3D000CCEB6B701BFAD2D41D62E90DD1ABA87F8121DEE44742FBEB62595515338B504F4FAB675F95EB2469B4FAF1E6EC61F675D63BA0285728A4303E1C38E0E3857F496BBB4E20185F4054B8E8A6A9A8323BA0C2E25E4A1D29CEECF952C75A4B78799977B3C282CC56647145A6597BCBE549B849DBBDA79141657672396A964F1E422AF1578A217F32C793FDC118400416D70286B682C6F51E7497C1FB78E1F528A6E1E579F98DBAEF4640A5F7D258159FF2B7A156F8CB69C1F438C319C68D2EB367271C1E4390D3D9BDA77A0D1CF65274697526972D33179E675550B94980291BA8B353E694904CEDBCFD65A291BBF01DBB15BF52E79E7161605F1C61C042A2348A3B85BE0EDA083B1379A8648403A58DC2DFF2C3C4B750F2E5DE7F47DFDC858AE3BA20C274146A18BCA8B0A2A453654DC680029492D41ABF2CB21F0DF3D0658C3A0B603478B56E8A2FD686E1E3A83EF2929FEB1C62CC81B838071B7ED48BB5E5B80571D92D20B1EF253DFC7DA876953BE7F632DDA8FD32A9A5CE7385D0389E81E8E73D8E8433F187B83B3C4A60CDC625AB11D47A45BBE881520FBE0CF1F7D2D388F1E76E7063B349B1A96679BE2511A85D6D155F9D6D08F1BE57E11CF0774C30638C313130CE40347E4DCD182A4509885BA71900DE4CF919D5A95BA656FFEB4B99447DC1896406EE040B85A46B6E47B6FBCB2D36D06A7598F36FC0AB44C63A0A02B18C39D84B501FC1A9458FDE6BCE633B36E2337B8E3012C5FFA0DCC6BF59469E77285A62DA260E6D3F6662B69D1B91728B7561A849DE0BCF7B1D188A0F35BA08F125D4759E8744510858E20FF460C6DA1BE11A05BADDD9837ABAA12F49595EC5F953913D639DB44A094E5637279154BFCA014F555AC75608A14A5655DDCB15907B01C31F12D0D3E2B89A91DE48C585DF22592F59B1FC0B1B81FF7711011EF9958C9BE97DCCF2266A5E6C70C542CB6E693FE4BA1B868";
-        textByLine[x++] = "ss = EC2DF494562866BFBCE748AE941330435364F6B9ACA579B73F00D576FDB9F967";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 19";
-        textByLine[x++] = "seed = 822CB47BE2266E182F34546924D753A5E3369011047E6950B00BC392F8FEC19EA87C26D8021D377DF86DC76C24C5F827";
-        textByLine[x++] = "pk = 055323BA95C83AC687A58A7F92701E7C388A4DCBCC611AAF6399522960A44D316B77734F025218E3C2B201B0816CBACD5B9B303297B0361B23D531A77DC965EE89694288460844259A735CF0C4C0ADD2457C5724FDFA1EF4546E5EF7C2363760AD478AA7806DF9E35F0E46CA8DD643C36C6C9EE3B564181893B1B3EA1B7F74C675E99BBC6FCC96D3FA677B23378A3B76D1F5631102AAD2B901D5A7675D541DCFE35E92239776A81E758C1C54E00D380232D5849102117D54144A20247017148584C1038A9329B9CA5C1DD337C1F758F558628C6962EAF49ABAB214279138DB549C04F87BF243BCAB3757F75B95C1F08685F20CDE8C6D1A353FBDB3ABC0599948EBC82E2434ACA485D191287BCA1678D2CA75497D73296177009BD384A9A5D0AC8B6102760261852B63D0520FE82B9307D1AE2B8C38BC1054C0295F7AE2321DFC82417849A3BBA7467232830C35C08038CE2C4562B7A89171864E566121F6278A0B777E02BC50029718709AF63A7014D8B9F79627F61B457A25C202A6CDD6F9A59FCC3CDA84A1A43620B1394FA65841162638342A24671A6A71E092A7A19866AB7519E723D6ECB836998AF8724EFCD2941A5BC225F9ACF8468B5C68A781B664E3614FEE782C20E80CC8F27D1F455397509C86067979D7407B1BB536408C654C624ADC0CC126BD3EA29C33F897E168C9C715887474CF1479450B80659F816A7E1999A8F2008CC9CC732A35C8D3B290988DFA31A80FBC1A18A58263C7BF18DC0498260E66FCC6B991B4E91ACE50240E7A2A4563460D016314C404B269FA9A8D1B0C074545FEB288208B790DE67DC3C787A12B0041C52F80EC9F6A96733D874E986A3E06B72CC4B2AD2460B7AA2141F3B186525AA6B6D2901D46AE2F5C7A195C55A48934B4478974370A982414D9A160A8C45ABA043DC597A2D2A4ACEC6708A3BA881C925C215A8063FB80F0114A94C63A1971249368B772A662AC38856C79C7B726884CF5A014527DA479C1D7747B4D74CF33F30612B70D1E0C2FAEA53EA1164BF9733935D51542BA3A47B099FC82CB8EC391A1361C19484F1BD52DC2315E1FFAC169C2128E0ACADBAFD72FCA96AED457CAAFAF51DC8C30CEAC70CB4621CD4D7B4C";
-        textByLine[x++] = "sk = 9B828AC37BAA3EE2BE76B5408E60CAB8E684E1C16DF00C78CFD4700110051EFCA6161789887899BC71408E32587B52CAE8570F9A0C017773B1DE06AEFA38B980CAA7CA23C4534A87BC8B2BF24233DF526CF57C7B9AD2B1DB465D8529C4855589E9E58F8D52293AEA2EDF630FBC9968AAF08FBD539849E3912EDB91B1184EF56827E104004CA05E75A6C90A4523B39883B66B653DAC0DDEA5383395498E0B96110C5D62AC3EA60512CA03670DFB89901C089D4C59FA95B6A5911ED4BC0008FBB58F1C0705F152C5846E753482A5F677DD7980AC7A3EA339B1C9112AEAA283B009C466454C8C892B7F8A4BE7BB23E057C36E837F67058FC01BAE81C259B605A02153AB7874259D7BC593574ACE70A22492401E2AAB8780AB893A820E33779B9285E0B60A018B3EFA88583C76881A1C7277F585D82623C650565E55CDD4708415585ABEC0BBDB7C8F694B1E998382EA1932A7D9C8FAD682D9C62063ECCC63CC69F7A7A64505221B2194F24A79F1A10D7A26A1859179BDD45C44D9B04206119CA6AE64B97F4865561A0580941C90ACC237E3D3427EEAA15578B6BDC8741CA9A46FEA9EA0754208779E9A748A1A648CFC802FB2C1740444A6DFCCA13B450C6FE8848EB2370261A1D0BBC39F16320ED4ABB7A65EC2EC4AD0838310642F4F752808B3225F112B8E279196107DB2407192EC084C5B4010481ABCEA227EC49F63BACE46B67A123A3664FB8DF7BACDC8FA44F8C99DCA57957B446FB6C871FA64221B3A81C6002208553BCC7A2D89AC403008B1BCB344A2BAC20DD166F46212059C429292A36221B6CA51645719002DFA047DB11CE9C7A6E26AA77333AE1EE33D8490487F3718F8046A03740AA028871370B0F246CF227C7318558B9241190DCA2B6E720E8FC98ABD603F77C1A7597C49C3651DBC05540B59BFF7912184593C78755421B58FF6C84F1CB173A27BAEAC109245260F35F14F9F2C2BD694AF6146A95E7ABEC6198344D281B9603A32E45D1A4B359208BEEE62A60B67288D8663511071FABB6716867F388507A1AAA70D268458504614969C9022A920B45354A89700145941E7A1055323BA95C83AC687A58A7F92701E7C388A4DCBCC611AAF6399522960A44D316B77734F025218E3C2B201B0816CBACD5B9B303297B0361B23D531A77DC965EE89694288460844259A735CF0C4C0ADD2457C5724FDFA1EF4546E5EF7C2363760AD478AA7806DF9E35F0E46CA8DD643C36C6C9EE3B564181893B1B3EA1B7F74C675E99BBC6FCC96D3FA677B23378A3B76D1F5631102AAD2B901D5A7675D541DCFE35E92239776A81E758C1C54E00D380232D5849102117D54144A20247017148584C1038A9329B9CA5C1DD337C1F758F558628C6962EAF49ABAB214279138DB549C04F87BF243BCAB3757F75B95C1F08685F20CDE8C6D1A353FBDB3ABC0599948EBC82E2434ACA485D191287BCA1678D2CA75497D73296177009BD384A9A5D0AC8B6102760261852B63D0520FE82B9307D1AE2B8C38BC1054C0295F7AE2321DFC82417849A3BBA7467232830C35C08038CE2C4562B7A89171864E566121F6278A0B777E02BC50029718709AF63A7014D8B9F79627F61B457A25C202A6CDD6F9A59FCC3CDA84A1A43620B1394FA65841162638342A24671A6A71E092A7A19866AB7519E723D6ECB836998AF8724EFCD2941A5BC225F9ACF8468B5C68A781B664E3614FEE782C20E80CC8F27D1F455397509C86067979D7407B1BB536408C654C624ADC0CC126BD3EA29C33F897E168C9C715887474CF1479450B80659F816A7E1999A8F2008CC9CC732A35C8D3B290988DFA31A80FBC1A18A58263C7BF18DC0498260E66FCC6B991B4E91ACE50240E7A2A4563460D016314C404B269FA9A8D1B0C074545FEB288208B790DE67DC3C787A12B0041C52F80EC9F6A96733D874E986A3E06B72CC4B2AD2460B7AA2141F3B186525AA6B6D2901D46AE2F5C7A195C55A48934B4478974370A982414D9A160A8C45ABA043DC597A2D2A4ACEC6708A3BA881C925C215A8063FB80F0114A94C63A1971249368B772A662AC38856C79C7B726884CF5A014527DA479C1D7747B4D74CF33F30612B70D1E0C2FAEA53EA1164BF9733935D51542BA3A47B099FC82CB8EC391A1361C19484F1BD52DC2315E1FFAC169C2128E0ACADBAFD72FCA96AED457CAAFAF51DC8C30CEAC70CB4621CD4D7B4C379C9176059F3A7DDFE021041301BCEBBC91E997A0D5BF2ED1D9D125A71298341C0EC046899A777655233E4E1B5CA44E9AFBDC67964BFD5D5E3DBB45E60D03CF";
-        textByLine[x++] = "ct = 77A6D1950DF2F7DE9D7ED9F3DF6C7FF6CB9E4C6315802797A1938664A54EF61A98432E11B1228ED872045AFC011896E6AFAE1CFA4C70A769FA33656B799ADFED7C5542B5E0814003CDDFA30DBA6690FA6B41A92DF56BF5EB0FD38B47EE121C6A5F29613170291565FEABC690A05A4635DB0383D62E1C114723F7DF6892C2E3A84AF47C50B932B7E7BDBA70D728CC111CB6F7C8AEC06C5858FC57AE14DA29AF1F54EB3D8D1C2C98007DD4500DAB2710BA1267FBF2BBF49373C6F637CF487384D19AB269A115D7EC86347A0AAA7556C805CC19CFE9EEBD28FC3A71D3C6C0E6F4D247AD7845E004F3F40230F0EEA5EE744431FCF769F4ED64EF8EC46B3140BC11BADDF5C6D46C0891A72A517A5C21882C0DF57AC599AA9D2F6706E1858B4C8EBE6FEEAAA495C22B56D54853DB69FED7FFF97ED312D304D39A3F84DB43CCFDDDDAD2D8E3617660CF3C65765BF373E0AD3133A2928ECE9774645E03C5D8C67DAFFE3385E13301B5D0BBBDCF50FA5511B64BA808103F3D56F82DE5675ECDA72723D22DAAB7F8A94B598F9810F1181EF9CE796B58CE6CAD513464AB8A0C6F0B7EEFCC8F33B5026FB5B50E91BF837D1365E4053B2F3182BDD39B69FF1A7D1A4D586BDBAE2FC68A10E1F28987BE6FB0D1DAD2A9A06B050ED93B50F24521EFA50C757C4EBAF964E2621C26A8FB70285D4A7C9A4546752DBF1EF21F7A28FC2F9C5FCB691864ED2BD7E85753FFF98427BE3C0782E63724BC1B9C52DD643DA223CECD8C4A4382ED3C9B98DE12FD96796657679094F9FB5BA09AAED9763E2D20A36E7191B93741ECAD6ADA10EF4FA170FAEB17B1492F375AAFF926397BC76543F1D63E5062143D2813B8B0A3B621B4BC3DF0CC288810927A37A60D597845998AA1A542E49367CDB07D7A13D8980F1D0F7A0118BFE7BB088903F8947001A1E1EB3AD36A69A8A28B09FEC1DD7EFEB62C0E32B43E46C0C0E37DCC6756066E34FF9DC74B7085C073F0CD71CA4DF6C7C3C6890C44C97A3E0F2A10A6C69AFB3D34F3E80E051F486B223486AF140A040A7996DFF81F1BCAD401219275A148F87E2EE72F2E0C2F19E03AAF";
-        textByLine[x++] = "ss = 6613E6135F8BC9F03A2E1207C85CB568E4FBB7AC5CB525E2C9951B040294D360";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 20";
-        textByLine[x++] = "seed = 81401DB81138D6874E91B7C11D59596E4ACE543F5A3471B6FB00999221765FEC3CA057ABE20F03B2D59003375FD71FE8";
-        textByLine[x++] = "pk = 7F010097591E75470EB931B90D0A7BB708C1B5E97FCA41B6161AB4C1CC9AB3CCA4EF8804C76C45C44C4BFBA29D978014E36195CFCB04CE7487994261638A779FC540B6D0286849B7CF51B8B648AD792BB225B42B637693F967C21758CDAA71134CC68D8BD7198B2A971071373F772F7044B912775652D1B78A9C18C7F00A86526B134AA656801B507714AB6A37FC57051DF46A4FFC2899411EB6083DF07A9E59C2C55D626D0BD04425583317CA5C7AB86A6C3867786AA2A69CC8E114637404BC4E0A1F9D9416E2B2CA22CB20F8F4CE3080ADED2262D885780C9C4F171685B466A5DB14BFACE3CFBD979895586A5F1A2BBB7626E567075C004B92301BB60B0E3208882329CB7DE807A38656F98ABD1A326DED150401035C816B9E7E677A29849CAA7227D57B7969541E11F601526A15631C75F6E9BE24D54773F906F394643AE31161898530344C07693C4EDC042AE805B92157B6637722146F16F49297370A074962EDCA884A2CB091568E70E3A57EF2AFF79B17BA6226B396A5702673704B01D7959C180513E0AB03A421425274CA53774557A8BA060817B62B8ABB20596EAA16810513885435486BBB5FB83C7A9969AC593881173377B1B79EF4B7F20B0B6EA325826667FBA3C4E31227CD858578BB771C27ABED688844B95A4906C290596EC7B14DCA4A60CF8BCE7D12545833803351A0266384DDC2673048AA660B9A8DB520D37CA59EA19CC6F19EB9E63D6E842076B397F5027FFEE9672E91BA1BB50F0CE37410C686E9952D86F4752FA650CA2C30A03CAC426830CDF4B5745A40BBF53781ABB1A2C3637E227C963029E7935814FA0B11C4B0E695AAFBC75DC2E90D8C63740C8875601008B8959FF214B513D42056F78457B45E47285440306D15E3607A130A4D6B2BC0904C6BC35E4B99B55F443D9CAB423DCC46460B973963CDC92382624C07C4F26FB449A412C37B73037131C81AF9084EABC16B50956ED9DAAEE0F4153DA0C959C40F78366867E11378D2BCCAE21762B543D8B2CE2D7CA79CB7AE2D06544982728A7A2CE39AB54DF83521312D942C26F618AE5491BEA73556EB297FBDA19C123C24504ECDF72189DFA1CD24EBF011A3BB66D35F78633E1EE7B249FF";
-        textByLine[x++] = "sk = F2DC1B40867ECCA65895960FFFC60469D809A85CBB383886B9D037785345D57936DD7AB93AE0504DF32D8438662F050720262592902489F9A90233CB20A5492BFAAE4B444AD1D8C84C0A37F6C928B8A89C22A326835073B978A200212C5B000334BC936FB3C8F2626C862C52025A73425A0E16F40D2D87556440659AB53D6DB763B7F19A00ED6A99017A5677B62B141ABD908A51672A65E31493659762A04795F80F254CA4D3683CEE608DF6C79A70994FDE528775A991BFA1035EB1BCB6DA3C63432BF958790A81620A614E3A330C1DC658E7398739B75E1437451D21368C798009178A830C19B621802D848918AB34440175C825232E70637527C2E276BA02ABA363F082142C9E4CCA09515C801EC78AC7AC68669C2A054CBA8008603F9A3368793C0BB73462182977D202DF4ABEEDE70921110CE8E6108B784A2BE9B4410876B14A097D50BD8CB933AB160860950656F006A0786F1894736C7C694E8A81A301B28B9A43BE14352661A1ECD11104FC52DB91C1E9F85F1BFB20CCC971F2BA8505890DDDC3118EE98CB2459CB2E003DE4B3D4EDB74C934056F4A824B721E37D247142BBEFE25ACD52B3122519FEE154D9C098525839D9E8593D3A5B2DDF91BE4286A4FF470D45B55F5F75DB92B8ADC626390698BD780977FF5902E206669E092ECD5002F43801BCC14E75553DDD5A122EA24BFC1B799A727F5362FF90C99B035B3B2C545E985860BF8C1FA517D348A88BF85690E911192A643DE17B25363686F6A3F7D643CAC6B536C8B536AB84E3E6B1200DC7F71A989D04098BA39CC15D2776D50B391522E4BA60916625941594F76D7469589085FE45793529924D6BCEA397FAFE8A963311581429F194A76D627583B51675DB41BF42650DD44C598C1AAFC177DFFBBC6BEA8BDC76C143F82B032F45EEB770231E8B85C8744BA9507F7DC00B0D05772B927C09CBE92A05C80987080A69D560094B3B021C38A323622C362FA0809259DF6CB8138D9774AF279D4882E4334AEB7A9B1EC82648D407490D168A95C769869A8E6521156867B1DB3CA7559AD74574ED6C61B5260B7EABC54B3384D7F010097591E75470EB931B90D0A7BB708C1B5E97FCA41B6161AB4C1CC9AB3CCA4EF8804C76C45C44C4BFBA29D978014E36195CFCB04CE7487994261638A779FC540B6D0286849B7CF51B8B648AD792BB225B42B637693F967C21758CDAA71134CC68D8BD7198B2A971071373F772F7044B912775652D1B78A9C18C7F00A86526B134AA656801B507714AB6A37FC57051DF46A4FFC2899411EB6083DF07A9E59C2C55D626D0BD04425583317CA5C7AB86A6C3867786AA2A69CC8E114637404BC4E0A1F9D9416E2B2CA22CB20F8F4CE3080ADED2262D885780C9C4F171685B466A5DB14BFACE3CFBD979895586A5F1A2BBB7626E567075C004B92301BB60B0E3208882329CB7DE807A38656F98ABD1A326DED150401035C816B9E7E677A29849CAA7227D57B7969541E11F601526A15631C75F6E9BE24D54773F906F394643AE31161898530344C07693C4EDC042AE805B92157B6637722146F16F49297370A074962EDCA884A2CB091568E70E3A57EF2AFF79B17BA6226B396A5702673704B01D7959C180513E0AB03A421425274CA53774557A8BA060817B62B8ABB20596EAA16810513885435486BBB5FB83C7A9969AC593881173377B1B79EF4B7F20B0B6EA325826667FBA3C4E31227CD858578BB771C27ABED688844B95A4906C290596EC7B14DCA4A60CF8BCE7D12545833803351A0266384DDC2673048AA660B9A8DB520D37CA59EA19CC6F19EB9E63D6E842076B397F5027FFEE9672E91BA1BB50F0CE37410C686E9952D86F4752FA650CA2C30A03CAC426830CDF4B5745A40BBF53781ABB1A2C3637E227C963029E7935814FA0B11C4B0E695AAFBC75DC2E90D8C63740C8875601008B8959FF214B513D42056F78457B45E47285440306D15E3607A130A4D6B2BC0904C6BC35E4B99B55F443D9CAB423DCC46460B973963CDC92382624C07C4F26FB449A412C37B73037131C81AF9084EABC16B50956ED9DAAEE0F4153DA0C959C40F78366867E11378D2BCCAE21762B543D8B2CE2D7CA79CB7AE2D06544982728A7A2CE39AB54DF83521312D942C26F618AE5491BEA73556EB297FBDA19C123C24504ECDF72189DFA1CD24EBF011A3BB66D35F78633E1EE7B249FFF5515B23187AF5DAC6D1D090BC7BC01DF34EC781561E3D3B8B62164F749468026590A2E5C7ED86CF2C5C2A898662BC9A81418720BBB632EF9CF0B845ED052D73";
-        textByLine[x++] = "ct = AD3D21CA26F64EA4D45601BBA4FCB282BB0F185A865E74B30B3724D4CAFB7101705C64415311801EC3D3DF0FA7AF6EEFFD84A4FF21FC03ABBBA8B89E1893092A9BF5E5637D206C99761F580ECE7CEA877ED894D6FDFA32DCC2B6535EA687F53D7C5F36247719622E1D3D466F619F449E1CAED985E5B6543258B8B9F18A04C9684B59420177DC03069868A6F868AF9758CC877EE35D69AB491C84AC74DCFA0DD618CD37F11C3DB6799AD11E50EA2A9886590A1BCA6413519134BAB67C2706E596F509221B7AF0C9CFBD913472560F40C91E5B8D44C51347375CF639718D876D10CE0F0F7138383258921659FD4148242606562A792CF1B812051C9DDD00294978A0594EF077EFE7EFCD3ED35835FDC54D2AA1B3B5C339E00828C0F1B8F52777CA14C93C83AADAB073F1DE8E47069700701829AB595F74A1C37A292D06464BD339B84A7049BDDF753B466FB9C13BFB7E0AFD0B8319C6B685AAFE8F4463EF83E6018FC92E95A15EDC81E1F930A475791D5CF3E6EF301B6B2D0051D244C467837414412AB2961A3902A42523CA5D379828C35BDFB951E2B2376D76A0F036B102342137E804AC71FA40E748A4BF1407E30EF8AA847523633FA3C3E3917FE4891F11140A0CD6759B61D4FA6E6235631BBA18788910EBE68BB174C73917723220DCC1858049B15AD5F6DB1D31940CFEA9E21E6FDAFC427CC51CC324AF0339B5D16459CDC01B8861ED0DFBCECDA125A51FDD21EF8314A3E6D2CCC320E743CEA8C13EE1418DDE8A7FC4EEA2B10A62FA15992C988FFE1B8CD3BDB97BAC5E397528F13B87388E46186B6EAC6A27C856422537E26F943C39F35E48A8ADD22A04EE044777A12F7232AB5DE094F34CC9CDA448E3BB9CB06697128E5638E244EE7006DE63623918B8B6860575F56C6A9D5C2D3548D97C6B8B6648C034878F2930433ED0FF52F78A438F6DE25C134EB86D925A8DC5B747EB741FA90A8F1132C563435409EB81731B5EC1CA0ED4E6AB28A16FF7EF26DC633A1FAE306DCCBCF1DF8131A4083D330751E56DA8427F098D0863FEF4010CA54803F130DF54356F7B6B141EFE76CE438D4D";
-        textByLine[x++] = "ss = 54CFE9697319A1D1B34E8E9A80D019AB5F574655763C9E36DA4777F0A971BFC1";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 21";
-        textByLine[x++] = "seed = 30B5DE5B73681EC08AAA03F6F2D2169525D25F4042A5E3695A20A52CA54927B85F8BB948FC21DF7DEFC3910B28674994";
-        textByLine[x++] = "pk = 412AC5007438690416FAD3ACF0BBB1642132613200006B4A502975FEE79D2B7AAA8AE2745E16C0A666C8A3A24A990CC4646C8BD9E6744D6245FAD4B2ACC58B0001A7A351B61DEBC0CDF85B5B5A188D040D0994027F8131D9706AAB35763E4AA232554CEBD44886A70A7A846E67C3842E96A3DF7233112271BA001105E2A35B5689378C108EF44F8FF858435B7FA1B1376F4C5276A4002732B81974C79AD23143D8134FBBB2426C9BAF566B777803A354C5AFE8A1B840CA5819A3D612752D047207181BB6C049F70656C22589D1FB5D5B9506F432B52DC933D0E816B180681D7743ACA5259F92B8B2309286B680D174B267C5BB01E38224763A26DB0B36520477591B0707B09E97AC78FA71E43154AFD39266217067FB6271FB4C16C71E277A0ADE710562EC287B7493E4FB453C098E5D991FDA9ABF9E9A29E7B28E0CABB4BE5C8A3F490265F5CC93A0B3A52881AD806F4B58913AA67340496C73F3656C7586D4B3A3AD06A0A3FC5E6C7053A48A5168934F0F2341BD263648291078554692815E1B69B1FA97031AF13901C4A90546396AF914F1DC6D09F58C4AF89474EC34614535A6DAC8D0301F67339BAA610CD5D9C2AC832C54A55175567A5565C478CC5FDE74BF2614C6815152E83A615DE8CA9ED465A05507B9218AD6F7B9B2799E2AE040084287C19573AD0200C8E683D138AD4E8804EBA5729AA81C1E1A9AD034A352C156E9AB635E849F65A37ECBA8C0009843016266D0E4A2BDD7B23FDB638C79C73E7B51FC6C72D5B68C9B461CDEB83B637196D757999523097A00920D0677AD5C23906A3FC9054F1A3176D5759D39A03E591BC10A7CC7E05397AF2C0F60E84DE24318423C0470B82ACBE97F3A9889C2F45418CA28FDB092AC703A6A9BAFDF6B0D05182DBF9A55DD3397DE5A9B0D7C4950653652C035ADDB2ED3ABBCE4E755D2519E881266D28524C2736B5426BA55665BAFD66CA2875C1A96BB759ACE54DC4986E6B76C7811966B7E202395D4A46D81B0B3C2D3950FCA0CDD208CF462B688919B79366381A11A6E195CF234CBF10724D4C3B9BDFB0816160215BC6D5102689A21AF235C2D8DBFE40DD56CE5DE6756CC4B6AFDF64050DA2EECD9953E893C53BF7FFB";
-        textByLine[x++] = "sk = 8416677D2606E578C24F59B59138C6CB1144C6311541839BF79066650180799862D0049FF1FA13D0B2C1B4227D2E673C9CF09AF164B7FE7AB10B1928AA910F5E81401920CBD4C8BAE6A71FA3F783BF8616A2EB7DBEBCA74EC94514C9A99A16B75C41A059F437E7CC3FEBABAAC6918AC41B40F3B8BB287009E2C29A4FA586ED8400742B7C05B252210282F7959A72C2B9921BA415B5B2B78106D7C464E0A01C229046D05ABF7A611BB48B07835A461264C0BB5770906812A60253570505AF040338445EA2E072844445CF1050FFDC7F29F228C66A4A402B98DB0C497BBA0ECB68CD93B542E8BB6B40393D73E7AC51D093C5C15EF9D4A7A8D056259C06977BA75F4CBF5CAA86F5568C422C1424D123721CA09792C16F948D7B84B758375E93B156466B8F0202C7BAD31DECB489DC0CCA1C0788887C0D57F3808E16634B061D5ACA96F96B9653827387651271EB05D5320230293B39747E001BB875728D2F2A4FDE26981DE26C68D542496A92F5871AA7438452073653D14CEF0B2B6D380DAA531874B26370026EA59884D47528877AAFD444A7EF16C03DC780BB938F5FC94CECB5892BDA259C9A625E68B89E374B6D134C3291168CB05065953C851AA1E5458E151A3B49F47894E646311575691342552A27116399B3E441D7524B9A923D616A4D9837B05301C1467991FB81492292B5A7DC2E13E44A83265AFF2AA03C6465ED1C1AB1681BF0346AFF84BC61E5CF3DA10525C4AB56A85A053469AE73BBCC77C28DECBEF6007EDD003CD7594B9A30BA6C18617FE15EC8D549530C3F7978ACE489B4A9C0864E175680A7C8BFF43E7175B393A2432126C945755979B36BF9AC10D806150BA38280A1C7299A64A085CA55B49CB723A9B0BA1009965A0EC66A7E6341B2A5C89A1A0AE6A3A2098319200BB06F52BE404890F7EB66E9367EF0A5A92F526EA9E8B43F60BFD80091B4525184C223554023D7E698EC144D1ACC6D1F194B73184267A03B6BC43B42A07BD9A5CAC4388EB4A2323B723152E6A4F617A0649C469B839B555CB56329186E675B929C8DC4C83977B32967227BB7F971DE607AD49579412AC5007438690416FAD3ACF0BBB1642132613200006B4A502975FEE79D2B7AAA8AE2745E16C0A666C8A3A24A990CC4646C8BD9E6744D6245FAD4B2ACC58B0001A7A351B61DEBC0CDF85B5B5A188D040D0994027F8131D9706AAB35763E4AA232554CEBD44886A70A7A846E67C3842E96A3DF7233112271BA001105E2A35B5689378C108EF44F8FF858435B7FA1B1376F4C5276A4002732B81974C79AD23143D8134FBBB2426C9BAF566B777803A354C5AFE8A1B840CA5819A3D612752D047207181BB6C049F70656C22589D1FB5D5B9506F432B52DC933D0E816B180681D7743ACA5259F92B8B2309286B680D174B267C5BB01E38224763A26DB0B36520477591B0707B09E97AC78FA71E43154AFD39266217067FB6271FB4C16C71E277A0ADE710562EC287B7493E4FB453C098E5D991FDA9ABF9E9A29E7B28E0CABB4BE5C8A3F490265F5CC93A0B3A52881AD806F4B58913AA67340496C73F3656C7586D4B3A3AD06A0A3FC5E6C7053A48A5168934F0F2341BD263648291078554692815E1B69B1FA97031AF13901C4A90546396AF914F1DC6D09F58C4AF89474EC34614535A6DAC8D0301F67339BAA610CD5D9C2AC832C54A55175567A5565C478CC5FDE74BF2614C6815152E83A615DE8CA9ED465A05507B9218AD6F7B9B2799E2AE040084287C19573AD0200C8E683D138AD4E8804EBA5729AA81C1E1A9AD034A352C156E9AB635E849F65A37ECBA8C0009843016266D0E4A2BDD7B23FDB638C79C73E7B51FC6C72D5B68C9B461CDEB83B637196D757999523097A00920D0677AD5C23906A3FC9054F1A3176D5759D39A03E591BC10A7CC7E05397AF2C0F60E84DE24318423C0470B82ACBE97F3A9889C2F45418CA28FDB092AC703A6A9BAFDF6B0D05182DBF9A55DD3397DE5A9B0D7C4950653652C035ADDB2ED3ABBCE4E755D2519E881266D28524C2736B5426BA55665BAFD66CA2875C1A96BB759ACE54DC4986E6B76C7811966B7E202395D4A46D81B0B3C2D3950FCA0CDD208CF462B688919B79366381A11A6E195CF234CBF10724D4C3B9BDFB0816160215BC6D5102689A21AF235C2D8DBFE40DD56CE5DE6756CC4B6AFDF64050DA2EECD9953E893C53BF7FFB9DC0D69094EFE63D751E6F9C1E92D2107A7B45FABB820222D30B11595C351643B6591121E25D64010C25A18676033E1D7278AC5F2D0B43A31F3A4156AE710465";
-        textByLine[x++] = "ct = 19E9B0CA9554D7CD15467B9C7BD824B41584C9A03B753D14CC45896F4D838EA79CFE976BCF5D0B251220049C2666525C1EBEE04D54FC93695EA16E0EACBE3C8A2240253962E1773FFCFB5CF9DBBD31899BBD5C0C177C1A60A307BEA6FC1091D8C73CF17B32C4C0F1B06EE596406F60461A9701C2FAF812EF8708981059FEFD655BE20BB7F04D18A122960E81BB628D65811C08719C9BA3F0D7730BFEA056EBA07DE87AE0993CAF8DD2ED815F9FB3501C3ADF7D5845C2D322D4EA30A45238A68BB5A061ECB0EC9CC6A473DF40C90B128942A62A6CCBDBD3B812D84C1960CE2A39D7A2F67828EA3D6C2B5B6141F1484652CD350D6E7BFF30C4C7065A08F68B33EA88E9C0D15DADC50CDDF3097D7D987416A23F4C32A43B11A839384BD9759D6CCA504AD15DAAF5B31107F72B495CAF18298BC336119125370598F5498FB1020691D59C2DEA0B38FF675437B3F5C5778B48C0EAE9B27D89B25E3CC7AF4CDDA2AA73F96227D941FCB1B2EEE7D594F7EA9DB9D8A146E5238378012FFB9A5EFB857C9706CC2A57295096708C6F0F94F91BB9211208BD83C54220681C2E840527069187E35DB38FA478B7235FA5A4E2FE8DAC08A31054430AC163D0DB5B4EFC7DC38D9BBD2FCB96E104D009F58C2831096DEE228BE736D018FB29C2608D1CCFC4055710FAB3C50A4316C5A9E656A783083367DBDB53108B22605BC9790BD1A2E3B4DF8EDA75CE911E8F0114B716A222EE4ED9EE526E6FB2AADE937CCA503CFF7B84986025F2A09B6561C5FD6016328DA4B065CF183F2176864CCB400D2FE5A050145930ED7AB06542F744E0B0FBECE0CFEE53B4A98F48C7A05C2955CBAA7AC94D3343D03136932695AF47EADA59CA9B6A62B7C3CE9B42FC066F380D4A29568DDC9DC9967F62E2372442DA1BC4F8FF0AF4DC439E63BFF72E1295B551854C6BF8D3228388D3E7752EC3C7427CA616F45B441DC07D57081638DC91BCC3008B8F391F3B2DAD7E87F8D381E1F2258236E588575D1C0819E25D937FAD345B3B8C59F2A140FFBA2D18AC36271AF1460A8754367CF766A9C5B0EFFBA17DAF1688C252066EC42AA5";
-        textByLine[x++] = "ss = 2765EE1DE38D074F1086469BF13FE168CFDEB6E609A47D37DC9B8415265D953E";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 22";
-        textByLine[x++] = "seed = E335DF8FC0D890588C3E305AC92C7160FF199E07C85760A828933750E3FED8C83B0DBE802234481ECF890A32D7A2884F";
-        textByLine[x++] = "pk = 54342021507CE3543789BA78ABE30D6241382C6292E084319A4ABA75374C0F6617BB0A92EBB52E66D790B9106553D5C2931A9534801D37551D9E7A854B9733BE2B0DC6B86390886A6330B159F96DD3339CA12A206C3278603A123AC0C1E8A982933B0B29B5671A291AE67C08C7945E71891EEEF048DAB9370A72865C0B47C2C5B90D134132BCC48D4BB6994B2D6E1567409467BB21868BF17EB4C23184FA9EDA3BB6E2187D7E9B7D503A47AB1C2D0837BA25A108805AC4CCA86D308B4979F7868788958D3C57089B5A48784B8367BA8A612402091349E0CC0D142E9E763ADEE2AF2D998E8E686FCD76C03B069A558605F572B359FC4BC7B0346D11C1E6F9AD71D1399EB992B9E54268EA8EC5E9AF804290A19732CDCA883B5062FE1A878B1696EAA0340F071E2C9206D39284D6B2499BF0A7FAF99F5F8A6B77499419DCBDEB6725E776A0335286234A84474C54F952B6AE075AF4729A277381A94414E8E6AE2A9BCD2E01517B99B299F3AAE1AC965C086E59BC6D32A02A26B911BE148C7E48385777B841D917C34C8842C9C90EA431B2F8CD71A78A15F185F77CCE76959EC1748C44E5AEFB140E752C97C5AAAB8E936E84B5C89B3080480A4B8BE81FB46B12049C6BD67C74FB9095FD95C971A2C813F08B55D9C867AA61783896707A36FCFB175A64013B071447469E768A7A1AC43FB77649802522FF880E59B322F85B919B2424650914D529AC7A147586279F1206338A67C02109194EB493D4B9CE33BAB709C333A91079A542BF0D717F1C875D54F11D7FE72ABC346000452FBB9178B7C87FC437129797CF38467296889D3E225DCA6068583921C9767050F51246900AF6689227E709C91727BF41483915B93B3225454979C0CA7B3A2C63A0521A5679CAF5C26D5944186F43463AA419B4A660F2414A535B9236868C2C091616FA6522BB859FA61503D4A7FF997B8A3B8920F562D384A7E6C9423DAA5D1D700AC825C501C986ED28BEDAC0604B40A0B4F8990597681390B2656857AC712D7D4AB4CE85673FA69C404B0B5410A531F0A6258336D2BB639F9230C16C9A85E363F9C355F8F00FDF9225573A23664C9CEA086428DCD19FF40A06186A41FEC0723953781475F648";
-        textByLine[x++] = "sk = EAEBAC1F43968FDC3E0F190FFD117773187BF7BC1D0978AD917B84F3CB8232E364456CA6574B004F8831A5972D7FA38B90436A7A773A9FCC83B8DACBACFB57C2323816F26B659A666711588AD7CCB3A1CF7E5C4592684D78FC4B3053467C28943605774B039FAC98BBC1F07AE1F192962BBAC65226316BCC1DC518AEA752963C5D272030458B7880364138850DA38C71CD8CB6454B13F9AC8AA4D508155701EE1A643251411825B68312225623BE92F379006109B02CC93782A3951465FF49A36918BF4AAC8328268C9DB387D7936EE37AA896A50CEED6BE31A59D1F415E2C6053FC9B8500597DBCB7A0D00B011AD844E37B67E52C9D2684352CF837CE732B7708386B3BBBDCE3B52762627BAA846CE93B13B8BD655143E6CC7680A864CBC59A64797A9897914A99CA40D4702D35C9C1C22E9804871E4C245E12BC5499C8BCF28AB37A6202F99B6BD3B64AC49C0FF74538AB11EA7194B92258FB2078C1705DD643B0539728068625D21650ED102247F1605B051EAD06C00F271F68DBCED3014F0026904256A4AEC6041B748E6146A59B06C7E2BBA5782681E4416ABEEAB61FC60CC68C53A501412AD07A721AB1002CC2428A1DD0B48C0E53325BF6CEDDD2331DF849A1939097A578ADD64352849AFB2070C68B596D4573D09060013BBE3CB4A426E3B58414A108C37F5DF6091A560E997263A013455257A24BECB585307F7D7B6565A8781E33551BF26DCDB9CAF2B02841D97744D71BFD3A3BE87162EF6570A1CAA1A6920ECBA83B000242912B7986F7913B418FDCD199B66A015AAC03A602767F212AA367BC4F886ADF34A1F694A305627113F6074B6737FD2889FF4411605B2DF3A7CFAF6AC1BE726A0DF282ECE479ABFA02BAEC549FA98D0C6331C3E26FE9C94D83277B4A08556B9813D4C6B080818FD07244646631671252E52CC5335AA32DB09F37E8628F781256D811E84B989DD9B6DF174526C9C1FCE39168AC20458908A09363EA961D019C9AECA9CD2CB60FCB0C3190A401BFB139583B8C3629CAF80432E71A7B657BC7AD2B3725708BC5666BE813674068A8079A8A4C471B0FF98354342021507CE3543789BA78ABE30D6241382C6292E084319A4ABA75374C0F6617BB0A92EBB52E66D790B9106553D5C2931A9534801D37551D9E7A854B9733BE2B0DC6B86390886A6330B159F96DD3339CA12A206C3278603A123AC0C1E8A982933B0B29B5671A291AE67C08C7945E71891EEEF048DAB9370A72865C0B47C2C5B90D134132BCC48D4BB6994B2D6E1567409467BB21868BF17EB4C23184FA9EDA3BB6E2187D7E9B7D503A47AB1C2D0837BA25A108805AC4CCA86D308B4979F7868788958D3C57089B5A48784B8367BA8A612402091349E0CC0D142E9E763ADEE2AF2D998E8E686FCD76C03B069A558605F572B359FC4BC7B0346D11C1E6F9AD71D1399EB992B9E54268EA8EC5E9AF804290A19732CDCA883B5062FE1A878B1696EAA0340F071E2C9206D39284D6B2499BF0A7FAF99F5F8A6B77499419DCBDEB6725E776A0335286234A84474C54F952B6AE075AF4729A277381A94414E8E6AE2A9BCD2E01517B99B299F3AAE1AC965C086E59BC6D32A02A26B911BE148C7E48385777B841D917C34C8842C9C90EA431B2F8CD71A78A15F185F77CCE76959EC1748C44E5AEFB140E752C97C5AAAB8E936E84B5C89B3080480A4B8BE81FB46B12049C6BD67C74FB9095FD95C971A2C813F08B55D9C867AA61783896707A36FCFB175A64013B071447469E768A7A1AC43FB77649802522FF880E59B322F85B919B2424650914D529AC7A147586279F1206338A67C02109194EB493D4B9CE33BAB709C333A91079A542BF0D717F1C875D54F11D7FE72ABC346000452FBB9178B7C87FC437129797CF38467296889D3E225DCA6068583921C9767050F51246900AF6689227E709C91727BF41483915B93B3225454979C0CA7B3A2C63A0521A5679CAF5C26D5944186F43463AA419B4A660F2414A535B9236868C2C091616FA6522BB859FA61503D4A7FF997B8A3B8920F562D384A7E6C9423DAA5D1D700AC825C501C986ED28BEDAC0604B40A0B4F8990597681390B2656857AC712D7D4AB4CE85673FA69C404B0B5410A531F0A6258336D2BB639F9230C16C9A85E363F9C355F8F00FDF9225573A23664C9CEA086428DCD19FF40A06186A41FEC0723953781475F64816829A8AA9F8C4E949D4E6388448C2C4EC6A977F8C5FB80BD75D93A723BC9BBE76EAE84D11C4528382828F7A689A0D5CFF87B8CA0BBA97FEACB39B935A8788CB";
-        textByLine[x++] = "ct = EE8B3FCCF1B573069ED066A8E4FC63372F7CAE32AC2B630279BF9632BF4A7B53F385E832F9EE7C66D1F2437F356E4412C689E8CC8E229430C81150FB532CED9EE376B708AFA8375732D0A1263B2D50B213EB503D47EC508D9354C1076A7CAB6559887AE89B4BD565667234C68F0A4D4DA9FFA969B9733D0402414A1E388E37EE096662D37FB37CFAB2D8869A419B52F6C3D66FEE3EC33B919A3AF7E98C3905D63EE346CDCC52D083E44D8A4D3FE9DF96EC8C64845DD9FB57223B42F1EED48FAEDEC3A9283A6CE70ED9CCE1082822B4A55B4D67DCCEF4BBF141C0210FD5720D19BC4B72CE73B455FD85CB0737E71F14921E70A42CB0123E891D2D0907F2D0231A49AF56BEB44764B133CB5F0DA1BFBF68E3CF0FE3878532B0C310A9BCEC77424F4F450496663D915BBF934B7957464F94FE69CA1E0BB8FF4D78FA386C49C6DFAD63FE3AE65D331368B2A23EFB5AAECD84428206DFC5AB6BD3AA2AF858913B1B33B920BC32A396CE1944E5AAE00AE2C3FB7116E0AD6841A15AE6F6A086972852B31EA9D6842E6C1AE57104E09ECCB897A2A2C8BB2B84D0F58834163DCF16308E66D7D1C8A8740CCAE37DF33034A584863F69B3F8C3B7908333C403ED4FB33BED436C40A21FA6656B59FB8FFA968EE9DCC4D473CA5D2750D64B12FBBE1A031CF49F5243FB304CCCB9E6BD7DAEC564697CFD2B9108EC86DF1D6785A2F19D82EE31DE6FBDB6FBF0C3E258884D920870D7EC5A89CB255C1FF1A901B3D9A92A1F837E50FBB3FAC6D65DD0B385C744EF9E08FA07A687747F99F47D3D086EDBFFD9722FE5983085D4AECFCEC4D5B3331A90FC0F8B7C5993D7A55CEEA0E22620EBA9B3B26AF802D5DB5CEBDFDB75AD4E39FAA7FACE6BE2505117F7D6B24E770490DB4EBBE7FA773498288BFBCF4B5B15976A37EA29CBFE0464C8DD916A73654C5F6194CB270B49214E2E79C12E28C5ECA77B02AB3196C424EC14D055A5207AFAB28E834C87E8C1FE1157749CBD616B15F4DE795AC1CE6BD46C486AA487F4E28F80FF801BC2C9D648BBF910B93C8157ED652A7E68A69EFBAE58A4ACD05F70BF9EE498A0E7BB";
-        textByLine[x++] = "ss = 5323406C537E4300C70220C866666848970D29759983065EC5DE317B372CC265";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 23";
-        textByLine[x++] = "seed = FBEA1BC2C379F4F8FDCB0DE260D31CDB064C9EA9B1D6DFBE91B3692ADD1D34DEC9C9FFAE7BF5E72ED2743BA3F9F2E43D";
-        textByLine[x++] = "pk = 3FEC7C38A86BFA490BBB6B001C129707B1B765416401290A94DC8E2CAB1503DC4CBB2A51BDA96C5828397D406386353A75157B09F1776ED5347F3A32FE6B2599827F83EBACBA251DEDB3C3E514B7ADD849AC5C40E49B1297634FDB8A6C0D9748A8FC9E98778668BC4446C1444B104DB4DA7AE5FB5DB088CD34017EA6926DD2128E9B39419CB13EF8511705844D4EFCCA1219453F987CD5D0B532C6B958B202938A90CE9016792035577A4B59ECBE063A8A158B92E89AAD62EA507520BAB2596EF18778590708DCC62BEC78A74715AC69BAB4521949E8C0BF914B5304A7384AD25E79C3244E581033841EE8628AD68842F320584068CDFD91467C1051D1A8AE77E4B418343743F0A64635AC313CB722F61D0A672645413E5E92853F06AAB35A067EABBF6774A291945E9157255AF4008A123A25778D57308328A983C0DC8B4F21C7DD34721DB734967A706FFA75E0B052F67C36168AB46C485B1190A6FFB60F4EB739C232B2EEF630A00469BD011BC1EACAA9CA60C613039439CFD4ECBEF6D7523926AD88B8581E619B02A182B76993B26B3784799A7A314B38BB6A17529650C7A0A556C3DABB0FC44AB8EABC2AF522207E90C7C7E113FB7220CAC24F45DAC26D1605A70C16D1F58B6F766C8D07C56F582C88F6402FCAB763F996B164047DAAA7CF5048EB51297C50C44D95A664583579F18639772325CA12FAE19205742E72803FA4B9991517442BE7CAB72996EBC50018963F89A5AF785C354F7A94241051C80BCD0D9C7F8B09CCAD58C0BA22820E859C9A261C6D41A6C310B310A480D0C8950FE1383727B0863AB758B2C551BC99CBAA90F0365961F7727F639183FC652BC4A2782081DC69571B298AFFC7AF09C349124601602BAC8C79AFEDA8531423642ED20075A9B176A75D422740C0C20FA87AAD22ECCB98D4BFBBF52E7B590ACEB660E3982ED3F3CD328CBB6103AF5BE626B5036EC8460BA1FB8DF516B315E1267BA1BC5770402082BD1100BA019CADE157C6A43ACA6098798C7ABA3BBC5B110ABE3526520C89620DDB15151B9C67A9C57AA678E7E83B3AB4196B682F20699DEC76BE6A4FC08AD10190D2A178865ABFA35607E1A88B47EC8EA71B102D7F1567BED46A";
-        textByLine[x++] = "sk = C3AA38DF508762BCAE32850E90E2CEF9404BB2405B1C7322114CB440C507F27544A8E65BF08A4E19988FEAF3AD91546E95A2A690CA99F54A803794578EDBC9B9B955784AC9B0D9207487A2A86BAF45B04DA2894FE2508C06E49D2C487B87D9ADF3F67EE5435F164510052974ADD5A26FB227B8F029DE714E9C39BCAD318B2102A04D03C1BD1719A87279F589401DB284DC8189D48C897DF69DA478C5E5763968929A3771C3AD7A2AD2140B5772C091439EEA807A35E988B69C531C2B47A500C71948804BB09F682C27DBB39F9BF7B53F47CE81024FB3650F32573D734964A392116FA53808411C8B035203F5564576334AF9929ED78E8F6CB29C9B4F171A81C6A34DFD57C59C380180B9B7F38538BD82834FA354D629544CBC659875B1D77B63579A8FA747C93049127B45387BF6C08EFB9442F7565901B71C888BB2074EB4C9CE945568D99351FD0A3ACC3C54E600436BA5558BA975805025ED07444A9034C30A9C13A8AD85EB4C7D0142A2CC2E06584F37F843B103BE4785694D2B2C4DD0487E030F6155BBD52526B0354847B233521312F5C725AB190572554E347183D0902737B96583A87D5774298D4A7B6B9292EA8230412A06DEF3551B4481D314C6931C8012D43A3EAA0D0DF6CB87185B7BE43E6EBB844392960E8A65F5F691BEEA69BEC55B24F374C41A1A49560C33296BECA0B07A7854C658542A8917C35326A1A1C458448B77D27C3C440C727971B47677E45954FBE9011D00A2F85B3E2CB9725601C97C7B21BDA481AA04083576496900A70CC135005221F69420D0F884D35216548022126604CDAC4100A74614D4B1206B6FE20A8AC07C31BFE6867362B5D2A67E60061C8BAC6620D93B07B87A5BF4101FD645321BAB2441185281B933A090686A8CCCDB6A1705B07DEB9E66BA4A10617A93AB7CADD51047E50F4988C70012A39C787DFDC3AB8C9B19FEF0AC4C702BD693170E71C5FF4070B47B3609C5A9F2E8663EF78BC5E27EE6092013A263F2EC172EDC4350606840393C9A771999399E948B41AB273EA061744E4A08AC7550C13A265E9B82E674063179811CD7251220943FEC7C38A86BFA490BBB6B001C129707B1B765416401290A94DC8E2CAB1503DC4CBB2A51BDA96C5828397D406386353A75157B09F1776ED5347F3A32FE6B2599827F83EBACBA251DEDB3C3E514B7ADD849AC5C40E49B1297634FDB8A6C0D9748A8FC9E98778668BC4446C1444B104DB4DA7AE5FB5DB088CD34017EA6926DD2128E9B39419CB13EF8511705844D4EFCCA1219453F987CD5D0B532C6B958B202938A90CE9016792035577A4B59ECBE063A8A158B92E89AAD62EA507520BAB2596EF18778590708DCC62BEC78A74715AC69BAB4521949E8C0BF914B5304A7384AD25E79C3244E581033841EE8628AD68842F320584068CDFD91467C1051D1A8AE77E4B418343743F0A64635AC313CB722F61D0A672645413E5E92853F06AAB35A067EABBF6774A291945E9157255AF4008A123A25778D57308328A983C0DC8B4F21C7DD34721DB734967A706FFA75E0B052F67C36168AB46C485B1190A6FFB60F4EB739C232B2EEF630A00469BD011BC1EACAA9CA60C613039439CFD4ECBEF6D7523926AD88B8581E619B02A182B76993B26B3784799A7A314B38BB6A17529650C7A0A556C3DABB0FC44AB8EABC2AF522207E90C7C7E113FB7220CAC24F45DAC26D1605A70C16D1F58B6F766C8D07C56F582C88F6402FCAB763F996B164047DAAA7CF5048EB51297C50C44D95A664583579F18639772325CA12FAE19205742E72803FA4B9991517442BE7CAB72996EBC50018963F89A5AF785C354F7A94241051C80BCD0D9C7F8B09CCAD58C0BA22820E859C9A261C6D41A6C310B310A480D0C8950FE1383727B0863AB758B2C551BC99CBAA90F0365961F7727F639183FC652BC4A2782081DC69571B298AFFC7AF09C349124601602BAC8C79AFEDA8531423642ED20075A9B176A75D422740C0C20FA87AAD22ECCB98D4BFBBF52E7B590ACEB660E3982ED3F3CD328CBB6103AF5BE626B5036EC8460BA1FB8DF516B315E1267BA1BC5770402082BD1100BA019CADE157C6A43ACA6098798C7ABA3BBC5B110ABE3526520C89620DDB15151B9C67A9C57AA678E7E83B3AB4196B682F20699DEC76BE6A4FC08AD10190D2A178865ABFA35607E1A88B47EC8EA71B102D7F1567BED46A90FE22B38A4FAFC045CDBE0C9689745FB45760CB2F0F94F7D13CF8C834C4DF3CFC9EBBE336DC464489861DB8253606971BD0A9008A433ED17752D04023781552";
-        textByLine[x++] = "ct = DBA6E41443D740FFD28051A50DDD9439890F5765A1041863AA376995313C1A4564371CCDC1B59501E395222349814D773ED5E858F736250A32F8447584E49DD6F86C43D13075443FCE73C1A1743EF7720CEE8D4F8A8938539617B82F48BDBE56C5B1692692A78FCC806FAD91DCCF95CA222C42682833D99C502B750A8282F737A0DAB64CA0F8CCEF14172D719FBFB658B506C8483CC0FF6742516548BFC11B366BCAC26CF2229F82E9C70C525B1447EEF349296CB2177B5F790C8E8CFB07B117EB3CD9FE0AD441C1B62B215A691ED814CA17120834E3D86C5FAD4F371C43752D39934026237E04DCB4591F060FD4FD7671D23FB2CBC35A3F3E61B5EE6DA6E9D5047B3F8B59D98883FD26DCA336AB6B52F6CEE5890BB27F1694C15BB852A2E034F4CDEF27E9D3A3ABAE641CDEA7AEC0822AE7C1904F5E7F357CFBD386C9B26B53B689D8404180B5A59AF2FCC9D1153A223C64BA1F3CCC7FA8A6BC5E365C7B855D1DECF93D9E3B3397A3CB0558405B753FAD7CD1617E3E34F33184D9C5BA0AB4437A87291E220CA95537CC1992D1BD0E135DFD99663279703073E91274BC611C63ADB4440661FB107048C30AC2CB98605C2D9F07A6EA0B3B554BF28C85F1AA7B64F83EB2D91342179E770EB1574A95C133133169263B43F46225923A8E580D60D9D579507CFD14F2E51AD7E2F5E214392A4CBAE07E1AE9D65A066D8AB78CBE1CBC05ACBB710A4F1466A79BC121007357463F0B8248CE4243F91062A534A343E12BA0FE00A7BED4F1DB18C76B09325B99FD0DF9CCB9845FFCEC34B4C05B76F304F4B1076349E27B06EB122E4607676EBF072510563653310125A80980AE09BE7889582863FC2AEC1ACF4016BAED6DF1753603353742C4943E65E25499E42027DF9277D2D3B2EA010992B47D51486283A566146F80C04923B00E9A76674D10987A00A1B59B56DEF861AF1E4648197CFFCE32BDF8C91D0A6DE67046B59D00FAE6AFE17CAEB8888A73040DF65834019289FF280DC250CF46D2FBCB8ED2E775898CD704F53AD10F53F96451C71549613E248FDF68BE1FB10A9C84916CD7C602167348C2";
-        textByLine[x++] = "ss = 38F766601CCACB7FC75A27D16DBB585CC3A33D21F39F9A284DC389CE998E85E4";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 24";
-        textByLine[x++] = "seed = 7E87FB886BC3C7C9FC12569F465D2ECD12532E76CC27C65644C8D3DD603B0CB2D036C5974E675058F271D5C82AD7A813";
-        textByLine[x++] = "pk = 5CA83CB627B7477480002C1AC0AB41865CB5AD306B8AE830E9758DC643CC22D8B4243A90F8B8BC07E8C1BB2B50C9DA4233F3CBFDA5835F8189A8F1829D09A379C059F3833E7AF4593F6B5736F782215C72F8A30E60262DD776116FFB50746BBEB7565FD1A585DACC7C644C15F6647A25330E6E1301844652CCFB90D4D266E3544FDD7733B89B2326F0378D214B615CA423495CEA4965FB586C00DC7243D423C1819BE8B97A416293467A77EBB87BF724632657348F2A7B34AA256D0826FBE905267076C92262282291EA620B262355D067C6B882A64ACB8AA6892CEC15B3D66086A665054C40058C7A4714165A431A8C5021102CFB8168E4B80DD8B0C8D72CC8A07C064B83B5F1800B42AAD50664CBE1B671D9373FF700CEC873EB8A352081BF3FD9C9AEC277CBD21EB8A4A2EC126F378B3B60004426A66F167154145B28770BA7B700B538863907961CF2271DAAB2118F2C40AC4989AB20A056B40C99A769B25C7A38D7B76A164964FB24A27880D7ABC72E324A88A25466657C352486B9B17D4C13957D4B8AD26640C3A6223AD44BE71535C3C258DE440FB2A69F53E22103597AA8778127E971BB074B4DD704441C1BDB38274058C2576976FBFCC28D04A3D4D9A194AA5745658CB96ACBC5478475821B0FC7528D932874C47DF5108F3E06106E18ADDE5A4E50D134C3648424630C42A20C0178BAB98A67714C80922A3DDF431DC1A83A9A0C3087A45731177A22928551CCA0E90BC229B95589259B9824A679A5A144C0CEBD690620C12DF2AB56C3A633FF6A1AF01357B87108C4D56E6B694C41E153334B034D568F3880744059A214E80D3F477D67A332D44BA4CEE7AB25D157B61416A81024DFC92F3650AA3E9C6F89A7629F347F91EC54B13997EDA15BDA0412DF111529497284B312DE5B4B0CC70BF0D2B643E5C2385133749243B678A026B415489C31D0B902F4DCC96981ACCC8ABC5B08B9FADC35022B2CF5888D417B4A0A188D0A305D9EC820EAA4BB89C085F3655C0A2AB3962B069BB0A1AC6932C748CDC611B1949ABE4A57B7AF0C934C8C0696BA6F39C32F4E6874798BAFEB70827F9447579FCB9BD38AF3B64CC94782E299E1D98E68F8BCEFA20D1E8DB8552516";
-        textByLine[x++] = "sk = E2AC344C36B6A047CCF755BEF0F455991C2623A76AEF7988D0A072D53054D1D29C147881F65AB97FF40295B487677291FA183831B9A6799181EF2872A935530014187D706015AAC1B122567EC54AF05361BCF384551C71B2468758786BF61276A9DB8A615442CD80B3253C862E5129078168F23757B7489D98AC60BCF04585E29B623A44EE737343E20E30E7AD5D20CE6AF1187D738B60374A02B45E60F71A148705C65AC34076AE4E390234C118ECB057ED3AAA422072239A2545021B8AB5419FE79BB7E7B73FC38384437A5AD673CB903A55645D00BA659BE07B708367A56065BD0CA8047B3258347871987985917199B4445BDBC4CA90173CF410D1D5179B19BEF5B0675155AFD0F0603A446269E3487A68569CAA1D72C6754B441C00FC0E33D17136A95B990068DF699CA6F14001F509C1B7C7BC816CA2548DC760516D9BCFD0A61670D9093A9B70BEBA40DFEC2B5C8086ACD164D57138A253328DA0284DA9AE3343003EDC193231B6CBD7A0AE0CC19A72847EF7C01A850209E3B6D579A5EAEBB566AA001B6A7EC8C0817859932C9570C290214848C25F9C5676553BFE734CD12B747C88AA0A59BFB389A55AAC4FB46AB932F7B4400978FF2A59E8E4AF7FD3B04E9B8D6E0A8875764862AB6839844F01014AB131003E876FC17BC4699523BC16AF8294192116ABC03A8B197852B31CACCEF20E536713B1699282598A4CB5BB89D56C6829C2DF39C0F3494F51107C53CB60D8483D6FC69EEF5014E9F9BD5ABA580FB25C854A13AEE72D86AC059CB7432E514F4D49C3BC2A583255988243C699D520D5D80ABA6868EA811C487027412988CB4762CD810FA0F18D39670A5C249BAE19B0CAF653E7364A1B9557D7998E8562980E275A60B98911F179376C0139A3350D6B8C09AC15086C3780331456F0AD7D40159E705D1F8135D1F5613A71B1C6355AB8799BC950AA4802602214365F90C1ACEC7FF81C87A1E7A051E3A14249B27A2C5C3C61744D9B61E7355B26189197E44D5356AA2BC235B599A3A577967E689D66C4AA966B9D0DA431C6727016942B4C0B9F1275888CC6A25EBA388780145CA83CB627B7477480002C1AC0AB41865CB5AD306B8AE830E9758DC643CC22D8B4243A90F8B8BC07E8C1BB2B50C9DA4233F3CBFDA5835F8189A8F1829D09A379C059F3833E7AF4593F6B5736F782215C72F8A30E60262DD776116FFB50746BBEB7565FD1A585DACC7C644C15F6647A25330E6E1301844652CCFB90D4D266E3544FDD7733B89B2326F0378D214B615CA423495CEA4965FB586C00DC7243D423C1819BE8B97A416293467A77EBB87BF724632657348F2A7B34AA256D0826FBE905267076C92262282291EA620B262355D067C6B882A64ACB8AA6892CEC15B3D66086A665054C40058C7A4714165A431A8C5021102CFB8168E4B80DD8B0C8D72CC8A07C064B83B5F1800B42AAD50664CBE1B671D9373FF700CEC873EB8A352081BF3FD9C9AEC277CBD21EB8A4A2EC126F378B3B60004426A66F167154145B28770BA7B700B538863907961CF2271DAAB2118F2C40AC4989AB20A056B40C99A769B25C7A38D7B76A164964FB24A27880D7ABC72E324A88A25466657C352486B9B17D4C13957D4B8AD26640C3A6223AD44BE71535C3C258DE440FB2A69F53E22103597AA8778127E971BB074B4DD704441C1BDB38274058C2576976FBFCC28D04A3D4D9A194AA5745658CB96ACBC5478475821B0FC7528D932874C47DF5108F3E06106E18ADDE5A4E50D134C3648424630C42A20C0178BAB98A67714C80922A3DDF431DC1A83A9A0C3087A45731177A22928551CCA0E90BC229B95589259B9824A679A5A144C0CEBD690620C12DF2AB56C3A633FF6A1AF01357B87108C4D56E6B694C41E153334B034D568F3880744059A214E80D3F477D67A332D44BA4CEE7AB25D157B61416A81024DFC92F3650AA3E9C6F89A7629F347F91EC54B13997EDA15BDA0412DF111529497284B312DE5B4B0CC70BF0D2B643E5C2385133749243B678A026B415489C31D0B902F4DCC96981ACCC8ABC5B08B9FADC35022B2CF5888D417B4A0A188D0A305D9EC820EAA4BB89C085F3655C0A2AB3962B069BB0A1AC6932C748CDC611B1949ABE4A57B7AF0C934C8C0696BA6F39C32F4E6874798BAFEB70827F9447579FCB9BD38AF3B64CC94782E299E1D98E68F8BCEFA20D1E8DB8552516C277A9588D9A781DDFF6AA9EA8D259E5599D0ADABA2F459598EBD5BC72786023FF8563038AAD865A817CAB9CE98846BA75BE9363718ECF5FEA538AEA90B2A558";
-        textByLine[x++] = "ct = 59B6DED2FD38B9AEBDEC9367A140E2F42FA91F70AA73ED06AFD4931B8E7B9C6FE5DD6D3E92233A4FA0F569C54DC3553169A10481F519A00745D693C75179C0E002BE2B60D843562F4A3F7100DCD642B4A3054501E05CF9343B69564CC870AB7554D1788600ED5E67F0962A1E719B0012846F08B623CB0F8168DF45D2B8B358315061230917464770C962B0214D6E91C70960FA7B145214A8F1F0A5F7891F018B2C3620DB5583CB3F78C73EA37D60D3AE270BE8CB4DEC7F5CE35F1218BBF2ECCE895710FDE9CA201FDC9E52AD006320824D6DBBDFE53DCE2B79B9C23095D66AC1D2D57B8E956FA2A975B64A79A76EE8C70829CE83BEB4D1FC402B26124D605A1C730405F81B6130B15A75FE16F61E24C0FEEA67CFBADBEA49BCE506C3922693C54FE24CB510D7B96E8E55CEEA16FE42F2FE5CBA9FDFB9663272E19EAE2A7872F777374AC2A74F5FFA52A55CA66C709E399CA785B39B75B894312F4D528D135774AFBA1B2DFFCB75D7F892BE49DC2F5A605280B88DFC48C4E5EE02E2EF96BD8BB8935B58184BEBCCFAE81E416477823373D74412F5D65BB16F4CB576F82D91F554B366453783996CA6547E9747AC720C8D3A36F0F389D12AC4A300DDA6F5916A1239AF00B2204C8D15EBAE51082B8F37B1793B2431CAE767E2C992EA20EC798B13F19EE8FC70C5FA7C4133F6A746046A3A5CC45A66F51A8F067B03D1278E135844552298FA6C624EA0997E2A7E112E76549113CC8B1993EDFD36DAD5C8EE142D96D2645CD3824E6E54039DE277A899720CC3C2EE497E3820A1B78355B9EACEFF61689ECE3342A29A0E5652806CC4A130FDB6DFA3B5F3727DA19A321B5F2ABDB4B02E0510B884D83DAF456C899227CB700691FD13F8EC0AC704E563BFCD0F96EC4295CD57DDDA1B44F813EC774EB26CF982AB65102C3AE1FED2A51C5A6AE185A134EAEE5DB0481BB4A8D7789E9EACFE22B12E70C1C63DB4EB082A68751596B3B3B3E4475A2FBD3E8F726C1D09DC9821FA762E5F3C58A378FDAD89283B5CC179A62D08A90EEF031922EBC4D43F4724C5EF2C534D025595972A7619D1C29E4E78BBB2";
-        textByLine[x++] = "ss = 5B052804906CD6A9C2469F8A813C652D47013E11200F1C894DC1650222A75EEB";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 25";
-        textByLine[x++] = "seed = AD1424E804F306C7FF513DA4C1E8D445AFCA7BC942FAC5C0B335733AAF70693712ECBDE26EA726EE0F9FD9D52A83B1A4";
-        textByLine[x++] = "pk = 1E0315240833D0F09ADEE4BBB29459F947897C4B882780C339019161E80B4699924A5C945C1A97C8EBA4AF258700126747A2800F81092649523DBC47CED32938A783461AA1BF6500F66B6E8307AABE7C4005209826A98A2904BECD2853FBCABFC8C24489380BB4F7A1DBA07473388508792AE1E7CA257B5C15C3771C92B9D07BC0B83C7E3371177985CB61B7BCD0083FEA2075DDD321CE490A483A897CF6955384002BE3016F6B9E2DDC5B8D5CB7C4F728E7966E13C04B310B7286021A5551A8B7E8472D969703F54EE4E1B1AE18CF1F6454E360C7AE481EC2B3B72D4049A74514EDDB57F71B81B4405DBDE79E05A1787DC2B19CF72A0A93B249B15FCC061E700C5325A40B880527F33B78EAF7370FDBB8EEB38E6C1585A12C160CDC7A43A7C45EA0B9BF18C5B5256B2FA2A25C1C29289A72F09560D54662AF2C359DD87D9C599288541E36BC7313A4893ABCB4AC8269C2829330D26B46CB666C821F49808C79EABC046B110C75A67CA59DB9035B7061CDEC3486A9B152856C360E021E3C25B4036259044347AF18CBE495369DD5BA76BA917FB37D2314CF73607FB0C845463693060AB67785C1C6BA8EFC581D21EC2A856CA54170190E61C8AD2C91B2A08791C1CD3CE29B080B342183CB5355B08D4A153C8A9B32BC4469D5557AB6CCC4A41D1F9B6EFA405549E30022F64F62E665AB8934A617A4CAB60567CB62DDE7BD81FB69EE60A603C9138EEA88D6823CFB3B6C0448C7D244CA70F5991618C3FF504734C98268F5770FEC449AE6B4C47B563B9795A9D58F00B11206F4A26E6460AF0531E1C07C54F1A61A86624A64A77019642082CD2CD8464E029E94085A8AB0352710C9F41C23AB47A53F2236387A381648036CB12F3F231624862F36084E1ED6B58309A03C50838A970EA14B76CA064756512B12E0ACC6D4A548E63213C746877B4054C41AC3EB6EBA4CA759223641613533C2382D53352FEA4663D5A121759E97849E7166A50F139F04B2BF9609AB5DC238AF2C0DD59AB31C6214C288B21B9B33A5C04845C6283AD0BC16285684D1CEF0B11E8B324AB3D2616B71020993959815207B8F92C5D5A3BC95122A6A7968DBB1334A712823D470766B3B9E7B55672D02AE";
-        textByLine[x++] = "sk = AB994D6B166701339677E4B8026514EE41418F1A96B655B214C49E72D54652D82133B0661767A55B60203BAA44F783CA78B14B4B9606895A937CC79095BC0F282862F86A7B595236C3F44017403B74148A00AB62A8502EFC9522A736181E0205806544E4B4C180366A554019B078BBC5D0ABA0252C1B447887AB6B08AA7F2BECA0A783891D4A8AD8F11F6C052179534A9686027BAC102F85CD06282C79970400600AC19C01EDD69C1F0A9E837CCB0BBA0C517574DC97551236B843E2B0C12985D544B88DA34C78053888191FFE8852B9D86418CBC02A961694E3491B886C3FE4C53525152190431213C931100E108494F787C26C3A4D16E88FFE585E2B158F4E755321B09F1DD770C041518440AEBE4629DAC3B7FCF89EA9931DEF8A62F51AC136234E48722804DA5570B41E3F041F74444D11E2C6BE822F0D98A6FC23B77F2BAAFCA1B8C738CD55E58E01BB33C652C25DF081B8A471BA6BCB46AB9996B356088654E2886D7A9B05970958732694869C1F3E216962A21A8DF9CD46B128CA64CC59277954110DF74A4A51AA455E9A0F353434B611BC25124A3564359C407C11A261F48579BBA788A499A35CFC40CC72C41A98BFCC7A0802610EAD89236547AE21F6ADC6515ED0739E3B9B240E0C19B2B05E2F408F4673A744716DC9D5BCD9A24389C6C2FEC41AE4716DAC67A43D52B25F02B4349929654ABFB8E66C509C38BB4382C4A627B2B12BB6C6321DA64344E91C5F989DF559B0714B879975431C0448E5878AA3B0C15210149E7808ADFAC69DD8ABF0123D10300E7A53806B7BCDD9743656CB3F8AF63F61D7553D13086C71352410C155E89096D879ACF5916E69046927A9AEA15568660211E405FD0779672AAB73452AE2948B44C67650636B1816C3FBDBC5848059FEFCC59F796B6D6841AA6982B6664A5B659D7E9A5CB3E9BE1B4C22828A76BBDA57F79B0622C42EE95B1765292BD7873A0EA853FE46CDF521184FB230EE5284F07888D07A2DE9D7A77C3006AA216B45AC1C4298B2D04A5C526096DE329C9EA79D0DE812B0F1189F3A686CC17C173265F72466AAEA293AF44462C1B01E0315240833D0F09ADEE4BBB29459F947897C4B882780C339019161E80B4699924A5C945C1A97C8EBA4AF258700126747A2800F81092649523DBC47CED32938A783461AA1BF6500F66B6E8307AABE7C4005209826A98A2904BECD2853FBCABFC8C24489380BB4F7A1DBA07473388508792AE1E7CA257B5C15C3771C92B9D07BC0B83C7E3371177985CB61B7BCD0083FEA2075DDD321CE490A483A897CF6955384002BE3016F6B9E2DDC5B8D5CB7C4F728E7966E13C04B310B7286021A5551A8B7E8472D969703F54EE4E1B1AE18CF1F6454E360C7AE481EC2B3B72D4049A74514EDDB57F71B81B4405DBDE79E05A1787DC2B19CF72A0A93B249B15FCC061E700C5325A40B880527F33B78EAF7370FDBB8EEB38E6C1585A12C160CDC7A43A7C45EA0B9BF18C5B5256B2FA2A25C1C29289A72F09560D54662AF2C359DD87D9C599288541E36BC7313A4893ABCB4AC8269C2829330D26B46CB666C821F49808C79EABC046B110C75A67CA59DB9035B7061CDEC3486A9B152856C360E021E3C25B4036259044347AF18CBE495369DD5BA76BA917FB37D2314CF73607FB0C845463693060AB67785C1C6BA8EFC581D21EC2A856CA54170190E61C8AD2C91B2A08791C1CD3CE29B080B342183CB5355B08D4A153C8A9B32BC4469D5557AB6CCC4A41D1F9B6EFA405549E30022F64F62E665AB8934A617A4CAB60567CB62DDE7BD81FB69EE60A603C9138EEA88D6823CFB3B6C0448C7D244CA70F5991618C3FF504734C98268F5770FEC449AE6B4C47B563B9795A9D58F00B11206F4A26E6460AF0531E1C07C54F1A61A86624A64A77019642082CD2CD8464E029E94085A8AB0352710C9F41C23AB47A53F2236387A381648036CB12F3F231624862F36084E1ED6B58309A03C50838A970EA14B76CA064756512B12E0ACC6D4A548E63213C746877B4054C41AC3EB6EBA4CA759223641613533C2382D53352FEA4663D5A121759E97849E7166A50F139F04B2BF9609AB5DC238AF2C0DD59AB31C6214C288B21B9B33A5C04845C6283AD0BC16285684D1CEF0B11E8B324AB3D2616B71020993959815207B8F92C5D5A3BC95122A6A7968DBB1334A712823D470766B3B9E7B55672D02AED3C8CC315C4054D09DEAC08C6D5D364FD5D47A3C09041BEE42C561F978E2D98FE1FB7456AC0AA1B97068F452CBA64EBDC138BCF5D36B0A0FADA2A3B374141EB9";
-        textByLine[x++] = "ct = B6C506BC98C1CCA09C6BD094D19547EBFBA54EDDF70C980BE3A6B10A32DBFB7506400278B7A34067DBBE26C8B69F6859658D1F51BCF35A29B5CC0E2494C9F372E4BCC277B7E5D3C444F7224BE57A36D6E39C1E7FB7F8115F74705FF63A8CBDC73A09264016EC0D4D31E0CAD0CBA1909B807983F06104D618D59A0EDF2DF0B3BF6C4DAF4FF76F40E0CB38B5BBD7C2083928264E87A6C6BABB68DB8D0A2FFDE33234884E5785ED30E2BDDA59107DBDAB400342CF7491F143D67311DC7EE4DAC067D291FC72A460921BEBFEF27946CB5E369DD462ED1DF0B43BFC8C4DD055BF33C875ACF8F504E146F49493FC2B0C12220BC380039926084AAFD0B06AF5077ABB98C973F801D52A785BDD8C8451A84B39FB501C66E1C7CDD8E5F0FA512559885CA680A7A5B10A0AF1C26EC219952983FE77AA2DBD5A8891A07CF1CD10EA10FE65F1613B17BDD5DD74A4A05ECD6C5DCF0ADFC123D02F665884FDB6E4DF23976BB9780F9C95E85E5AFA3694F01360FC81C1F2CBDBC95F349571260FD54C84786181027D914671449BCBC6DBC933EE93B9C3D22C54D291932B99669CA54710F117F1B24414335723AE0A284D377FBFCA33991C20285F2A825550E1A901D6830307FD41B87B20EE953F84E5F881572FB4959D745063401D403E3F096BFE7977E979F4AAE0C56F89ED4042D5801C8B5301BCEE4551E8585ED441A7B6C337AD1D4B331B152522A8308343CD13F18D1178B1A819D79C880C1E5C08A45F7A96B7F11CF8841BCAFAEDBBF1A93D4B3D845A5842DC5DE01BA795834660518412173AA6D333238D3B950EEB22E59C5D7E4F8FDA2C163B7B73B265B6DC962D69035DD382DF863EC3D6855363682A7F476445989636677DF638943CCEBDF212AE1A0249B7C2B86741C94D3ACFB59DD6408DF5A5B597C6E096CE7B067F510481F13DB101C4B3BB76C7944648AB94FDD90C732A8B0E0EEACCB3F35510CA791384C3120CC2DAC6FDEF67C27037C306AE2FD7E835600AFD5D297EBAB7C3C3FCC9D0F002C279A51E4D845355EF8166469A4B5B2B30AEF8622CB5B4772579F4B5A4880CAABFAA28782B8F17";
-        textByLine[x++] = "ss = 7DC822F6F29C56FFA58E7ADF1D98D179A48A8CF4D4C021479AE02DA889225615";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 26";
-        textByLine[x++] = "seed = 7C33CA0E987226C8524DD56C811FA4D1CCF9995B1E4E4DD5B1481974E88CFABFBF6787775C2611CEFB27ED4403EA9B46";
-        textByLine[x++] = "pk = A2CCB58D9B00887179C1E007E9624913B9924878C5DB1C9E46FAAABA1A2944304ED64CBE6B96C3D61B83C404C498F1BA7EEB8000C8381DE471A50957B64A94C4D42005831F4B4380899B5B848C307FC49654438EA062719B20796BC39B72C34FBD717BFF95C687EB1EA034AC3BACA3504A7C94789ECFBB512B499BF3F4A2CAA684A796B3ECE845AB477EDA88BBA0BA89E99A57B360B3DE0055742563A1DB2782072FCFA86945F83F8E028F80E08825782B05960005F37992FCC126B9C942A7B2C7A230C30824325228C971335FC3609878509D302C8F1CB7EE3B4A9E58013E2377C1104CDDB2CF9F969794F715CC805157AB62B9B52D7E273C2F6B74F8E142B8473EA9AAB2BA3CB0E1791831B56DC7D6AC7A41482BF347A63BA6CC072201E19949E7BAEAD45A49922BEA808B0AE8000AA1794B4A92056A51DDFA0E90AC818940B57408B9282C0835B2BE2AAA417ED6BE7328926EBAB1BFFAA0C2360E60B905834A9DB8390BC48026F1136D48C42587693DDC15556E4472DAA04D8FFBCE175BAC214B28B73C0F4CA2A521820F7206CE7DAA7491050937D5C3608B024A97993AD0156C9CBDFCA0997893A7E412BC5D6B8956385E00D7CB61696A3E94A98230C4295394079AC7B1818F1C4601301850735690ABEA3EF9AAAD82B16B30EC4F7612364FDA0F78557249AA1302D94FB9792ACD5914693729531CA3BCBC42B9B2BDDC768803D2611F01B8589809F15506AB5C21CE5BB9404306026B74B1685706D09163A74ECC51684757A02A9B5FCF21A59C17C894135DBAA37E89229A90130AAC7CBA14513DE24611FA77063F4ACEB30A92D3F75C4DABCC5EA3280EDBB0297B7B2B842CFF286E442834624936A8461752693C335916210C3D6C1C54F9EC4ED60076B281534CD497EC113AAB73027D918D6FCA080EC48B70C9B6CC57AC527276FF4BA3AEA74270C230AB058A135995D39438E5F52649B17BE2E5BA1890BFB484805C82A912E9046EB9C2B563BA9FB48BDC9B95BB9276F3D906CCA8C89439C8659BA84D672E283890C468CB33877AAFF06AF640A9E87393F476BA2CF46F160359ACFBCC46E935E0BD96EC59643250A0B38F9779B0142A9E546EB525E72AD204D1EB31A6";
-        textByLine[x++] = "sk = 4A9B766AF1A70935B674049ACA04A9C07848A40467F8DB039FFA71AEB972758959837C5CAA6C9A2CE421EA23B4AEA23F4EF4890A8576AD48016AF36C384407D016854BE31C79C120CE826AAE237D33439DB2E62035D5C2B34C4B87D546B342B66413BA1CB1BE43B34D550C48CC640C6B0C95FBE6427ED086F7064A4C50AD6EF0113AE7130F23CA8EF57730C4817BA45732A79D5EE835BCBBC059E640787AA9EDF182D6162CDC0BB9B89B2F9ED2CEF4EB5FE0BCA19FF21D2825710DCC2DE2E44FCFF46EDFFC7B31CBB42A367DC2E6899E19519FF024F6D6416EB1939737250D4A9EB0AB0CBFB94B71A300A648367D099288CA2C703666F4C8AE5C950C5DF6457AF32842FC04F78334E2D813933616FFDC0E35E11AF7F4455646A8A437552D5C3F5EC5852D2704FA40A4BD6BA7AB65C048D4027A682E7F4212DBF890BDFC8A3D2A00BB65AB8F616BC4F34E2AAC8F46C83686E5CF7BB58A6A47AB634C361E3871A8B9344F361834C22B234071E34034D7AAC431392C2C85C8A5D4B69AA711206B1592E5CCC598C702F36A03290C9728A5FD837F16690954517D07E545BAB88CC89916FC6469BDFC4FA4A35B9DB681F102BFB8A24D995415635B2A5E3A4DB3C937D8A149CCB742C17AC55A0B62879A847FA97C609A13B5AAC012D55409F12D98E440A97A33FFF52455C880DF1C05B784B4D2C63B813599750727A3EC390CFC658DA262B791B3CB08A7E977A3A574277DB97509201686385E5CFC74AF851FDFB9BB0265AD678CA2E37829589320F367222D50B2E263241F6B8860935004BC365C356EA396723AD53A8E367BB7E6CEFD1BA24920557FD71624A3A51717C1D17CC886467ACC304031917007ABB151D91AB93C06D050C32EF97BB02676D96C43152AA3A1B63B26685ABE966A89F415CC9C92BBC05C76F126C9197C230679340A95E52196B4E8C3327C644CD430C52B32E2CB50EB9329D03C851465323CB6CF09679DF87C15740C50CB3B4A5CC1037E5461ADC57D33138DE0D4854E46106E4B92EFF03A5BC0B5F50001EDB0A15DA8AE246B33A9135A59D3A0D5D70C396B55F2950DA7F788A2CCB58D9B00887179C1E007E9624913B9924878C5DB1C9E46FAAABA1A2944304ED64CBE6B96C3D61B83C404C498F1BA7EEB8000C8381DE471A50957B64A94C4D42005831F4B4380899B5B848C307FC49654438EA062719B20796BC39B72C34FBD717BFF95C687EB1EA034AC3BACA3504A7C94789ECFBB512B499BF3F4A2CAA684A796B3ECE845AB477EDA88BBA0BA89E99A57B360B3DE0055742563A1DB2782072FCFA86945F83F8E028F80E08825782B05960005F37992FCC126B9C942A7B2C7A230C30824325228C971335FC3609878509D302C8F1CB7EE3B4A9E58013E2377C1104CDDB2CF9F969794F715CC805157AB62B9B52D7E273C2F6B74F8E142B8473EA9AAB2BA3CB0E1791831B56DC7D6AC7A41482BF347A63BA6CC072201E19949E7BAEAD45A49922BEA808B0AE8000AA1794B4A92056A51DDFA0E90AC818940B57408B9282C0835B2BE2AAA417ED6BE7328926EBAB1BFFAA0C2360E60B905834A9DB8390BC48026F1136D48C42587693DDC15556E4472DAA04D8FFBCE175BAC214B28B73C0F4CA2A521820F7206CE7DAA7491050937D5C3608B024A97993AD0156C9CBDFCA0997893A7E412BC5D6B8956385E00D7CB61696A3E94A98230C4295394079AC7B1818F1C4601301850735690ABEA3EF9AAAD82B16B30EC4F7612364FDA0F78557249AA1302D94FB9792ACD5914693729531CA3BCBC42B9B2BDDC768803D2611F01B8589809F15506AB5C21CE5BB9404306026B74B1685706D09163A74ECC51684757A02A9B5FCF21A59C17C894135DBAA37E89229A90130AAC7CBA14513DE24611FA77063F4ACEB30A92D3F75C4DABCC5EA3280EDBB0297B7B2B842CFF286E442834624936A8461752693C335916210C3D6C1C54F9EC4ED60076B281534CD497EC113AAB73027D918D6FCA080EC48B70C9B6CC57AC527276FF4BA3AEA74270C230AB058A135995D39438E5F52649B17BE2E5BA1890BFB484805C82A912E9046EB9C2B563BA9FB48BDC9B95BB9276F3D906CCA8C89439C8659BA84D672E283890C468CB33877AAFF06AF640A9E87393F476BA2CF46F160359ACFBCC46E935E0BD96EC59643250A0B38F9779B0142A9E546EB525E72AD204D1EB31A6DD1A07043FA0C6452500249601F25DE742AB44213E2718CF0DDC5FF6A2A9AA6A9DA0C5DA5F195B80FBB99C2E8B06926074F3F604B3F6195B5A5B9737876BBA72";
-        textByLine[x++] = "ct = E62BA3AC306E97A10CB2A9CEE57DEC67DBB8F9D87B5E33CB939BB4D6A8F55FAB42EA99649EE59F6A6A9E16EDA3A05D7DB14D068CBD256A1BAA5F01CA9948364C76D7304F9B06B8752CD4A2F2FCE9DCA42D3BC0C3B0238F162246B8CFC8F85238BCA3F8B27AE9D016144636EF63B1DEC95191E19F8EDACAD56C353EFB654F868699C81971D178F711105E99A4BBB9AC811EF790DBEC51B12EBC2F74954146E57B61F55E5F6BDD68232AF2F3F2EE3B638D5307B615BB338C8DAC0725F0ABF92CC46E2FF4985EDA35314C77B55CEA5582F91416EC87FC1121FCE28A773F33A53FA3B4FB51904AC215D264AC1191566FBE74D0B5600ED70A9F6D47BBD3B129422E35B2D68756E7E481A7BE0B7871B85752AB50333DB4E5E5178E9B8C786A566DDF7ACF1E6C0BDDD3E222DAFA64F6365A36EF808574FE9AFB19CC1AECA2199A112D145389726C0AFD2D683DC449A636FB8DF86E6C02E2181022C7FCFFF00EE67445027B68B9AA54EFD0F6ED5BDE7E6C44E764D9FAC92414FE9ED00D649BE542CD8BE45735BBBA1D8536B128360B005EAF9F8BC909880D4AA52B798D6AB1EF18A7113DE951EE9106884EB3BB73AEAC08F6EC79A7F7E66B43D82DA165591CCB81435593CB79C358FD0FCA273370F38089B03F2C6C69AE740B14FB5E4DEC624609AF226CCB2E1E37FEB3D38F5C1266A3D6C3829B98D0E4416CDF17B0626EFAF6E7A83A01369BFB4D7C3F79CD34DAB3A1FC62730F3898D27AB1F527AD4610227A9168A17FEA58DC5FA186FCB9410B52BE6E0361EFCBEE1B78F58E921CCDA33308CD5F3EEBABEEB8B38CB19EB487FD2D8DDEEAA58035B50FDC6DBE16352F397A6B380CC0B23F63954594BDA7ED15C7A3D0724AEDC7F8A3E27FA945430680A563900B3BA2785CE530E8435D679A6E8CDD6BBE00E9ADDAB750CC765566CF73ABE02AF76C5DB534701FEF439B5A025087B3E2E3FB1351CC48B3D27C57C465FE08F5682E923A7603E284DD4C23FCCEC883C8AB4630AD8B1A411AFBC89CEA0B3501B8220A06E6A840BD49C8F6DBB53D6BE3B63A2D8DC9447D35832449AFFABA2AA8B7856E92A0B0";
-        textByLine[x++] = "ss = 7D97AF269E4CCA8BFD59D6F7602B7D9DD49935F914E64E72E8E4A755DAA2BBDB";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 27";
-        textByLine[x++] = "seed = 54770EA1252EA2857D6635151194F5F520ADEA8A41E409FF498D40C271359858FE2B084D5B96BEE087B8E8F4DD4E00C5";
-        textByLine[x++] = "pk = 05192FBD776EA2338C7AA35EFCC6A7D3281C50E1521186B785D020868B5052A10288321F363986F6DC5D28033D8E0553D9768241734561416FB1F8CBF623CCB3B74263492CC0D3C086B448073804E3A1AA93D5B1A22B9E02360297791C700A1DDB6880B9413840A828C06C4B5C69A4AE68A8069431F35B9174020E61758EE5EB6E337888BD563E1FF6C05CF568738C2683C50BA4713CAB600C55B362F2A3A0907159A30A97054BAB56655C273897D168CD41519A3DB96C0128803342058E385C802AA7DCB60544921584821B491A4AFF9155D2118BC9357BF6E78FAEE87606941A82129E6A401C15F41AB886B0C262A662C27E7DEAC9192CCE0740AC47481744CA938B901CF83771946C6EDEC63CB99B1817F5AD4C4285E1AB6C0186463C3318A5A923CDDAC59A7991BF4279A1324671153DEF59AF647AA7CD454D532A4ACE3C01E040789D867D8230095DF9C5AE64B1F470660A753CC56AAEE948228E7B31E5D50217BC034F351FC1264512B58C6A206B5F844F881C0C833BC78DF4C936C49247374590146763404441A4377A105431663394CA183F22789EB9BB96D73A0211B5DB155A304584B3FC56EC2C7EDF7235AC284021C5771D760EDD4ABD556800F61C65A263306EA81DAC64321FD869E1A369A8594D9B219C26E754E1334269E4AAC5FB0424D9C3FAEA7C0B384006AC250796A8D919AE8CF88D63F848B31C0269A58FFFF9CE6F436ED877C33EE72EFB5695F9E9C422DAB87C6B92F3AAA3333688F5241CC996052F7A27387B6D8CCA70FD1273B6473D0501B4155719DBBC464747702DE4B45D3C4F0E3A8FB4826752F3BFBAA08F97804F021ACDC37887F69060AFBC3BEBF3818BD064C4FC04CC35658C60BE55DAB57AA810C98CA49B790871F1A5BCF235192646C8E7B84A24185BC6C4B679586E6C9002E0767AA47B8B23905CE0BCEEE95F84A1A529185A72A80A95D30BDD74B4A664A0C0864EF0A557938C8E02B92A5DE767A27C14D4B4269E22B1E70A869767B1486513809B1B6AD0ACF683963DA5248296CF1C71295529C9889546B7519212742E86BA40207B54E874CE0595601B57E338A864D6C447ED4E29D88C30BAC7D2D0CDBAC43E9F4176F0078C715ACC";
-        textByLine[x++] = "sk = 06F16B2689B409DBC0CEAC88A1EA262A94B61951499ED4000730753F5A0103B2692F58CDC414C492439A3AE46B8C079BE94958724C6D5A68535E5C0192CC3F6AF8C601C8280D76507234C5C2742235265316E53365C4157A103D6F7B1DF3F4910A965A1663131442C6E8B674F1F078A0738F05390698819556F424ECC665586AC387C0759EAB24BF90A06AFC5EADC9CCE95AA1F7D19E692B211B21B33F8587CCB72A1022085C5B62A282C9D5880B15754E08971F50B769B65A03A630AC9030C06D1418338C3AC8815AA7ACBBD9D7831715A05AA37FC5F7C6E4C92698213A750C842CE37110AABB40F47489A8AF4F0CBBA9ABAEF132944CF963D86099DB5A5987DC7A5CDA1FE5A0ABF85B2B9C81C3B2784D0DE87F311C298E532AF380B84BD808D4A71C4E234E2AE4689A23038A83B703C1BAB677863BCC4DE4F6CA1D805701821E259818CE208948285E057382BBD8AC05B486E1482DA7B2ABE396A7C6C6136DFABBD4117FD9877F752882863725BC8B3BDE332C1E242D2FE523FE2B951AC3003BC90417376F0FC27133C0AD082399AFC9272394BB34387EF1B32936D3CD0AC599C74A03E6B2C20F95710D32816C043D33F13110AA7A79D885B51242EBC18ADD296267F7779500455019C9C3799C9CC050B85595EBAC465AA01C7BAB095B68C4B71468229425E60C9E708C3332C31A11E5B1B5222FC34B28A4C4331E7A1E7081927218BA30C9A26DFC7369E336E7CA5E32C83D63970817F85B0025CCC65789143961F2A029D87773B72141A3F728C18592BC447D6A0056E214B47E432C54943B10BA25A271B7689711FE145E11BB48DF98208B3B1BFE059B30DCC17D63535EE7BC11D47A791A63B6C970E11BAD82371E51FB0DF938CFB3C957E19BCB8750AC1F5C585E4B755442957392212A2B16EE7848521549ED68C93D11BC35F0C598C44EADDC0F1018BC3DE9BDFBAC3D59663055315EE2223AB4E2CCDF78AD68256AD3259F0AC044E0C96128C38AE7F76C19A29390844FA69705278B7DBDA8BEA7D16336B1583F60C09099C3FABA7DF1C99CC3032537D7BCD163328AE299115B82FC6B0F05192FBD776EA2338C7AA35EFCC6A7D3281C50E1521186B785D020868B5052A10288321F363986F6DC5D28033D8E0553D9768241734561416FB1F8CBF623CCB3B74263492CC0D3C086B448073804E3A1AA93D5B1A22B9E02360297791C700A1DDB6880B9413840A828C06C4B5C69A4AE68A8069431F35B9174020E61758EE5EB6E337888BD563E1FF6C05CF568738C2683C50BA4713CAB600C55B362F2A3A0907159A30A97054BAB56655C273897D168CD41519A3DB96C0128803342058E385C802AA7DCB60544921584821B491A4AFF9155D2118BC9357BF6E78FAEE87606941A82129E6A401C15F41AB886B0C262A662C27E7DEAC9192CCE0740AC47481744CA938B901CF83771946C6EDEC63CB99B1817F5AD4C4285E1AB6C0186463C3318A5A923CDDAC59A7991BF4279A1324671153DEF59AF647AA7CD454D532A4ACE3C01E040789D867D8230095DF9C5AE64B1F470660A753CC56AAEE948228E7B31E5D50217BC034F351FC1264512B58C6A206B5F844F881C0C833BC78DF4C936C49247374590146763404441A4377A105431663394CA183F22789EB9BB96D73A0211B5DB155A304584B3FC56EC2C7EDF7235AC284021C5771D760EDD4ABD556800F61C65A263306EA81DAC64321FD869E1A369A8594D9B219C26E754E1334269E4AAC5FB0424D9C3FAEA7C0B384006AC250796A8D919AE8CF88D63F848B31C0269A58FFFF9CE6F436ED877C33EE72EFB5695F9E9C422DAB87C6B92F3AAA3333688F5241CC996052F7A27387B6D8CCA70FD1273B6473D0501B4155719DBBC464747702DE4B45D3C4F0E3A8FB4826752F3BFBAA08F97804F021ACDC37887F69060AFBC3BEBF3818BD064C4FC04CC35658C60BE55DAB57AA810C98CA49B790871F1A5BCF235192646C8E7B84A24185BC6C4B679586E6C9002E0767AA47B8B23905CE0BCEEE95F84A1A529185A72A80A95D30BDD74B4A664A0C0864EF0A557938C8E02B92A5DE767A27C14D4B4269E22B1E70A869767B1486513809B1B6AD0ACF683963DA5248296CF1C71295529C9889546B7519212742E86BA40207B54E874CE0595601B57E338A864D6C447ED4E29D88C30BAC7D2D0CDBAC43E9F4176F0078C715ACCF2A8CAD42C743EB61AA338049CE917616899C803358541DE1E58CBBDCF3C632871600A8982C350DF524CDE514431DED7AEC23576530894BCBF0EC0BFEF0BB64F";
-        textByLine[x++] = "ct = AC1D59C56EC4ADABD14CEFCF55D437299908211058B96171E6EFA8213E2B54809974C0B1F787F7883B44D44F2228C73C4FE1779D4B8B10D553C4A3C1967F782F4CE690E9B361A08AEBC3620DD23B0BAFFFBB484C8335BADB2E23C12454B9E9C029379914216C2814DD8A22AE11C588296BAACEF92D83FBA95EB48B873568690ECAF9736D0683AFCE8E7A1CCDCF928CC0916315048EF6A4BC687C57D45ED1ACAE059D253F8D086A3FDFD58A2269B7F3CDB41D97BBBD8CC174A35B7B77A20BCEB194184B4201020E8D80B1C0A1499C753860D194A0FF5BDD07736843954D79C57A045F0F454907BCF7D8ADF5280F971F1766C9E0FABBCE8810555FDBCA9B772493A59E7285DF2775B4D8E904595E819110370C9C27B0BF3B1169B77E7842E197C22D4893F67C764DBFDA876B03B90334D2F02F01801A92BE16904057161CF0207741F3CC6345AE1B9D8C056A4FFC2B3B00A76BF2BAF835E922599BDE8BB21E9E3E0B19AA3C66B48353719BB33329249EE0981D6B18AA928E184D82C12F7C075CFDDBC611EFE4B2A5288E512EE962CDE6A1579C8EFB0648D5A181C90D7D38697B5FC014FE7BF4824DF3C81563F70D742EE2CE44DDF85717559CBAD9166635B9CE9588DFA253770272A7516B6945A5671817C6D0C8D368B52E7DC73A50B7CD618E921ED5E092B68737C7CE24436BF5071872A9DEB1142C8EAE8F1A12794E5C2110354D874129153833BF2244BD9C616848E5CF65190D28446D23F249EB9565D9736CCEEF4F4EE45EC4B985EB104640DD999F27EC2D956041FA11E0390F6562E16D2CBE01100F5A15785D712FD55F84EB18DEFD0B70FCD708D8F794224067DECD6DA7CC31FB8F2C3AD44D6C4D3264648B7B30BD106AE9D26D00F6BA4D52D16D1544499604847A8F082B693EAC119537B77D6C1550DCFEB2BC837B0779856F65E8C1E547ACEF7A90C748FF310AB699E39B94F30282044C2FADCD0E97D0E75D91A8F0301D1B90A295F1057718D03D35091BCB364F234757B082A22DAC7920B6C9ADEC90501466727E369FBAB268B9750124A8E3BB24287C0FDE750570287F5765CAF1CF";
-        textByLine[x++] = "ss = 310980F43E8BF63480D0DC26864A664390977AE920B2596ABAC62EAECDE95DB4";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 28";
-        textByLine[x++] = "seed = CD6CFE94E9C0A1CC4FFDCD2D7876504BE5F50F1D1CA5CF93482943465B268276056F2781F4DE805C138976CA72621387";
-        textByLine[x++] = "pk = DF624BF2996F55293FE31B0704145A4A92534116109E3C0B8F904DB4DC70F4AC96C1572248640D73DBB88DB3861D108D368B30086CBC72AB177E1BC48431AFDF3208DF342DDF802787E385D5344E02C49192D105AC0C78C95253AB90CEFD870FDE5C5315821DDBE82CC1C267BB797492409603C8536640285D396A53C61632E227AE209622725E4CDC5768E96BF3F42E81B6AFE853C7FC8381B4AA6070F2371E00619D685973DAC323A1513200AC6826B6BFEB9C053508160700EF6238EFC37BD5AC12ED744714B45DB77CA4FB998745A6012EE042142CC29F9161C72C86F7CB7E834749E647A30A078DE01311D908ADD39B062018BBC81C96B74AA702D4A40E7A596A9720B08496D2F3A990337A1A4396C291C390E1C4CD685DC9A635E7C69F7CA82EEBE24356200268C118410706983A49134C2D96365FBA38B992967DE41BA6A91640857C020ED955A1228E5A44C91EAC6A3A6710457BAA88D4BF072C32D458B333345F9F6CBA68E9A4086516F0641BB311C72D72CA446430551C5A8D33CFE2B6867176BA81CA57AE9A4E562A7F74B60886A19DF5AB7D2F2A8390E44491901DC2B58D327453AE306530D3AEA6D6456A3874C8F4AC3ADB325037677149507BD6B98EC988F4B81709DA8191E2A2201C9E6FB973F7142622FC95D9876D4CD893A8F27DB619515B476A1560949DB5A893A675E0259E98625F46AA41FB0A4436410591470025305A01FAC275D8CAE99A5E06561C94E01262C8B878081852D86AD4270BEE2C81A6CC7B4F033A529BCBE3FC959DA6C63676B6CCF43771738F1A995912A50C08D17254788B0264933215C74C9CA4DE4262EF880571078EC2695F80277E934208C8CAC7528205AB523AC08CB8D29A314242606677A8B18616F9A3AE1B4856537831CCA23447718EDBB056F8F9B746F14D3B466A1C4419C3C155DF08960047524A7B39EC3C5778837F0ECB8F49D03204BA6A41710B07F8589667C769B26A66472AB8217C19F2B3037929F8364C09821E80BB1B5B1C2D0078692FB01A9448CD60A59DB56CB96B5694FC7B7ABB48A23B8A12FF327A5419342577C19D30B0FBD23920C0D2D0CB20E3A9C63BFF3E047504A8965639E8FD0DB690FFA1E791FD";
-        textByLine[x++] = "sk = 64A73E921150EEC8C44DC94084AB4AC7AAAC99DC29807B922E902BE8C66B103543A6644CB437B4792815F925827360743635717D05B9B39C6247A51CE78130848C1963B7B7507B12AAAB27EC848F2953C4272134C29C371C8106EDD904A99C84A7D3322C55C1E4467715906DC56004068402A83179CC2C578FBC04EC2A976DFABC44E3AACB429ADA191CA27857376A70B535B1D5C56BA0387CB72B9B46B537C1EC436E27A5EED282B4E7B86443842CD80BE1011A9ECAC84126BB50DA5534D48CC8F1AE0253C203520F230C8C474C10715225CD66A0BB031C7CF4BC059BB69B9B6EC3E26406396CAFBA07DE5AC445D60229F30C10F2437BF37AEF6232A66C9D989B52F83441F046871B98CCA4AC756EE8A8D8AB42B6864A3674B890713CE2F85E5AD2164172B8B8DA616E008148E0CA639390DF9ACF29C829D39CB6E7CB201D0755819B90CBA2CE8D18B4C80C065E8A6F83220208C40EF1D7784F589DB95103BFD22D09D93B62CC90A3A161BA198FD1D087449A2F3DD634AA7A299C02B724286555C119CC474C55C1752796B40885C99C32635791AA794479FC6A4A989BABB20B9738306244080B9A22399145A54A126D31770C9096B626A61AE9394DB957711D7A38CE1A17B0F57E6B395F21C3BE4590A6A45923130597939765D804272A1C3FDC082810B52E5AE8131157BFEE994CAB860B17402D3FE2BFF4162218396C7A607BF526B346F45922D6753983A8832B7A99AA7EA4674464C33D55A6172F46A6114497B1A8B1EF835DF4D1203D96CEF9E43DA9E97C723587C608A8C2D24AD0194164C944D56166450CA20750BDF52CACA265ADB71BC5CC06736501C63D626784713C4A575833D5029A19A9997C45D4649E3E942946F61CC5D3215DE5B9B6723D4BDB44F9B9848C41CD3DFBA38E71927FB4175A7635738487C7FB5446C2C92D70810EC9A827871215FC630E4B9A2DDA4DF5D6C06C46A60557C20AE26A1D734171E96223F22698055700174B118241B0063C13559CD149AE7F34B6680CB4A3E8854B030BDAC739BA60653301A8FF4B63357646CAD03D7B2A3032441D08FA53653BADDF624BF2996F55293FE31B0704145A4A92534116109E3C0B8F904DB4DC70F4AC96C1572248640D73DBB88DB3861D108D368B30086CBC72AB177E1BC48431AFDF3208DF342DDF802787E385D5344E02C49192D105AC0C78C95253AB90CEFD870FDE5C5315821DDBE82CC1C267BB797492409603C8536640285D396A53C61632E227AE209622725E4CDC5768E96BF3F42E81B6AFE853C7FC8381B4AA6070F2371E00619D685973DAC323A1513200AC6826B6BFEB9C053508160700EF6238EFC37BD5AC12ED744714B45DB77CA4FB998745A6012EE042142CC29F9161C72C86F7CB7E834749E647A30A078DE01311D908ADD39B062018BBC81C96B74AA702D4A40E7A596A9720B08496D2F3A990337A1A4396C291C390E1C4CD685DC9A635E7C69F7CA82EEBE24356200268C118410706983A49134C2D96365FBA38B992967DE41BA6A91640857C020ED955A1228E5A44C91EAC6A3A6710457BAA88D4BF072C32D458B333345F9F6CBA68E9A4086516F0641BB311C72D72CA446430551C5A8D33CFE2B6867176BA81CA57AE9A4E562A7F74B60886A19DF5AB7D2F2A8390E44491901DC2B58D327453AE306530D3AEA6D6456A3874C8F4AC3ADB325037677149507BD6B98EC988F4B81709DA8191E2A2201C9E6FB973F7142622FC95D9876D4CD893A8F27DB619515B476A1560949DB5A893A675E0259E98625F46AA41FB0A4436410591470025305A01FAC275D8CAE99A5E06561C94E01262C8B878081852D86AD4270BEE2C81A6CC7B4F033A529BCBE3FC959DA6C63676B6CCF43771738F1A995912A50C08D17254788B0264933215C74C9CA4DE4262EF880571078EC2695F80277E934208C8CAC7528205AB523AC08CB8D29A314242606677A8B18616F9A3AE1B4856537831CCA23447718EDBB056F8F9B746F14D3B466A1C4419C3C155DF08960047524A7B39EC3C5778837F0ECB8F49D03204BA6A41710B07F8589667C769B26A66472AB8217C19F2B3037929F8364C09821E80BB1B5B1C2D0078692FB01A9448CD60A59DB56CB96B5694FC7B7ABB48A23B8A12FF327A5419342577C19D30B0FBD23920C0D2D0CB20E3A9C63BFF3E047504A8965639E8FD0DB690FFA1E791FD3394E8401245FD6348BFA697F6990B6671577EC7B35A45B0101730A8019426430E145E44AAE52CFC609E6F47FD7A6F6AF877190FF52256D0AC5B05B89C3F449F";
-        textByLine[x++] = "ct = 9AD8285A1FAB934EE7C2253097474E19D92846402CD299660BA603873207ADE2C383CC749437C15BB3F26906064C4129C67D6FBACA637D45B3A3032CD0763523ACAEE3386C2F0708EA7CF24497CB28DC51C9A6C6B3921A6BB70693683E5539D9EDBF62F4F2CD9DDB7AA91247B0A8DA44E293104E7B846354BB5AE86F7D90246C19C4F06C2AD47616336AE7439DC9A9867CDF4A3962BF5C8C4D0A5365159823A2D8BE58BB87DB8364A23A30C148894FEC0EE5439E31408BB1C4C3FA6B06AD1ACFBCD9C159FB9DA3F4E3A66A9D102274D69A7EB048BF0C05459D23C5477BCFA96D829709FF0941A80A7183917B92E4FD715C42CFB801722CF580E9843CEBD51814821125E70B9D0C2514C7F9934F969A5AB0F3289D6005F313CB03B949DCDF9AE5856A568D962D030926CAD84AED5CCC3573C53E7AFB1B8A26AFDF7C5B1A70EEC02CCD4F774823E7035E9F6FD147512F11C00E645FC391858F87FCD92FFC8792BB9C5BE6917626C2072D0E257F37944272692E2BF0945A05044E73B816D5216D590A3CFCE38A9099BA613C5610E0C8B006C31B13D914235C4260E1A06C03298C970CB1EEB3BC6D26D01757C8E6C156D10BB9B78B3A5AA7CCC054B53E8B5DF30897CFCCCE9C58E2A834E237FDD39EE7FB308F1D4DA783932BCFE4BDF1861D3FD652F72E68EEF02A68DF2980CA796F5FF6C46FFEA237B35C5FDAC5F6D1280F0C02F8EA0E727ABCA0CE390FD9A788F50A6ECF5C2D1A519C4F7D673E3A77450AAB9CDE1573475C0A1E572602593471B8519E64C3B1D11D295B5F6838EBAA3E8AEA352A4DB8B77CF119DFBFA53A1CAFDFB49A0AD03AFDAFFF303183F2B167E022D862EAC8B5A0E57FCD4C97F76BC25E2EEAFF68EF00AECA339BB8ADE1E05683F678DFF2E6C71223E78A57CBD4DD5B28559081621EC9109C28364BF0B4DB3793A97545B70DB48B05BCB4DD36B0D25B43A27ADFC938D96CA6B174EC13BBA077D463EA5C9CF63BE0F328F303D72D1A7D5F2D77515E096CE793B25BA515C485AD7CABD13BCB4C2390272CF9CD24D33675132701A0BAE3F75FCBA23C3D8BBC7624EF7D1C1F0A";
-        textByLine[x++] = "ss = 3763C0093E1AA763CEE3645EA950CC2E14BD17CFBE5A0C91F1A08E2AE2037BA5";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 29";
-        textByLine[x++] = "seed = 265EB2DE7099E4BD5614E5DE7F0C2A05C78EF3E8E2DD4AE4CB70F3E5E59C8D1D88248303F07DE0C5508652DA66B47222";
-        textByLine[x++] = "pk = 65A217F49001F7A44A5CF83BEE55A6268AC909AB6230233EA188543F144D6E0A1688182F35446C1E972A2F923C66D2C15BD0534D0B2F418C50E0D81BF309A002C100C55040C6E6B5433A5D47D2BDCBE84823C939C3F76A681982075C90C4C712D1399A0D82C6CF713E5FB28D0EE6368CD4A708508DE1530EE89CC53E8B7DF748B91AE45BF2A849748A3A54695B3453975082A39F9C89FA9C8866284258E6CAE563B9AE7B9E18AA8346B680AFF2A80C4C1A07647FC5E8B87B59C8BF97C235F0A56CE2A1B7608D6445B907F4B261DC55CCA76A85DC8400895B4A4C03E7E65675F5479FB4CB535240FECC628C180337635AF6AC6366C8A778D84980BA659F8482785B5B6FBB1A265A99012A41D5D13CFE07C7BD82CDDCC98449D0A2663A468FE9591B0450707A95538BB1C22393F7813E68719A2C11AD8E311402885A54588BFC47C9FAB18218BC49C87397BE532C0127302089CEAA97102BB2CB219901EBABC69AD1764BB6CB5E7553810B923BE76796406994587BD8A0C4216662651B2E8787BFB6B15B98E26481559CD3002C2A03BF0D53467DE01BDE0BAC05E968AE266678BC6945C182D1D66018CC7762ECBB10012208C3CBF3D7671A98388A30B990A4674A8B7C6F958EAB221D3E58579E521922ABC0B0879B825C9D64791671FC6FE752BF49F87B606580D62C8A17D85A927976DAA50EE54A0D186C6C48F61F6955B8AFAA1FBC805A53E22FF192161D2850093816D7235D134623D3D4BF20479AEF39699426642AC1C084AC43D8657559F817EBB31901F2AC308421A0EA975A4023221080B786049C89A6C451AC076A80E87192D8D8B19A6083B689B128F90AFE044D16663FD2BA1ED717C17D5C06CED28446C88F30DC8D89DB3D5C531F6D6B63D5D535FFE2671A625D97254223F68E89279198296DB0C0917DC338B1B5B33E60210457970AA2C2CACA854B07937AE6CCA428B8C4DC96029C57EC309AE6E306B077AA1D8BAF3DF17110207B73D056550AA7EF171B4EAB2E8F7990429141C7C518299733B734CFFF884AAAD95E55B4A65776256D5540A057BAA7450574F1266A3091D5D53F74A75B0CD39D1173C3F411AD1EFDD8BF4BE2AFEA69C2327BD070CD1432C8D219";
-        textByLine[x++] = "sk = 631C3A29AC6B4ACBAA574210BE900D21F402A46653A931B8D4618B3D366D35A7628FDB3E25BB8FF1DA8C5872B0C65153D23A724A918E1A63B2AC4C43FCE7A430572E9AB5A39C4BB5249A7FB723701BDB9F8F900EE363C8C59501F9C2C46B62C4F5FA3B17198B980233AC71AEFDF632A28800BC147FE4DBBED75930AEB8023A33288241C373D9AD4E6B14D4092E834A8443344744069591A247CDE4AD5EAA4A03C4C9A12799E08B73D762A8B9B1B8E7DC6EEF601B3825C399B047955BAFEED1124512C72482511117630D5567FB8B0D29B09978938DCA053E5306BD8F8950E4C162060734E0A79290878376B7C76B8B1EFF5C1AA30A1FBDD6121DD65BDD4216B8727B5CB3CCA576035E62B673CB2D95DB9DC532955A98B4D90B62B53B22A2A65AAE25C08607C17F727DA47385DA4BAC7D6857FF697C22235950B063773A6F15734D1085A24A0A1103E19AAC5399608AC8BAD386EEF981FF5807D25C1EE5291C17762ED0D637DFB82E186893B86637404952877A0B8C8545A52CA481358F5033A90C45076B366F026761621945A3DACAEC577313C0CE420AA932D964000AA2C4052E49F90C62A62FB2D377F76355AD961BD8EA7F24A72CAEE21BD8D4AA037B7C9884AF59E5035FC031A053AD276CCC8863CF30A00FD0065770C3995AD637149056D5DCAA2D634969352CB0DAAE78D3059707292744A513493D13A28383F002B4928EAAFB2941765927259B43E36334F7BEDCFA39F22292F734B478F96CCEFBC5DD21B585770C3FDA67337348731080B48762B2F213C3A85DC3D810B360745F5527867586744B46EF068102CB16B0B49C6139C9DC6BB5AAA6863652B358EA322FACC238921A0B5650A8C7709D6B95081B4EFDD42F476701D2C65633795BCB38055F845F3F788C8BF73DC84364BD1AA343C306C9A548808C10E31840CD889C0E981ED9B3C118E93B1BDC99212788391A532F716FDE86C5BBA30D8B23ABD028C5B788C3D23A824C86667FAB2804E7148E8A312C357963DB7CBD8B92EFC45AEB43404FE78F25529B5AA3B64D0B073A46C1D3884843261AE396B1901C730AE4C22CE79A65A217F49001F7A44A5CF83BEE55A6268AC909AB6230233EA188543F144D6E0A1688182F35446C1E972A2F923C66D2C15BD0534D0B2F418C50E0D81BF309A002C100C55040C6E6B5433A5D47D2BDCBE84823C939C3F76A681982075C90C4C712D1399A0D82C6CF713E5FB28D0EE6368CD4A708508DE1530EE89CC53E8B7DF748B91AE45BF2A849748A3A54695B3453975082A39F9C89FA9C8866284258E6CAE563B9AE7B9E18AA8346B680AFF2A80C4C1A07647FC5E8B87B59C8BF97C235F0A56CE2A1B7608D6445B907F4B261DC55CCA76A85DC8400895B4A4C03E7E65675F5479FB4CB535240FECC628C180337635AF6AC6366C8A778D84980BA659F8482785B5B6FBB1A265A99012A41D5D13CFE07C7BD82CDDCC98449D0A2663A468FE9591B0450707A95538BB1C22393F7813E68719A2C11AD8E311402885A54588BFC47C9FAB18218BC49C87397BE532C0127302089CEAA97102BB2CB219901EBABC69AD1764BB6CB5E7553810B923BE76796406994587BD8A0C4216662651B2E8787BFB6B15B98E26481559CD3002C2A03BF0D53467DE01BDE0BAC05E968AE266678BC6945C182D1D66018CC7762ECBB10012208C3CBF3D7671A98388A30B990A4674A8B7C6F958EAB221D3E58579E521922ABC0B0879B825C9D64791671FC6FE752BF49F87B606580D62C8A17D85A927976DAA50EE54A0D186C6C48F61F6955B8AFAA1FBC805A53E22FF192161D2850093816D7235D134623D3D4BF20479AEF39699426642AC1C084AC43D8657559F817EBB31901F2AC308421A0EA975A4023221080B786049C89A6C451AC076A80E87192D8D8B19A6083B689B128F90AFE044D16663FD2BA1ED717C17D5C06CED28446C88F30DC8D89DB3D5C531F6D6B63D5D535FFE2671A625D97254223F68E89279198296DB0C0917DC338B1B5B33E60210457970AA2C2CACA854B07937AE6CCA428B8C4DC96029C57EC309AE6E306B077AA1D8BAF3DF17110207B73D056550AA7EF171B4EAB2E8F7990429141C7C518299733B734CFFF884AAAD95E55B4A65776256D5540A057BAA7450574F1266A3091D5D53F74A75B0CD39D1173C3F411AD1EFDD8BF4BE2AFEA69C2327BD070CD1432C8D219EC9C0D68C84CF3804F14E8DAFFDD1E28C28D3D55EE782C98C498B0D9BD4EBB2350A7A2354F7E5CEFA6F4A4E9A1C411EB9364506E9E1204A8ACB3CB77FBD2C4ED";
-        textByLine[x++] = "ct = A626A385C05EBE90E579A59D76F983EC419D28310F75BC913CF9337EC3C66BA0AFF7A6F5795A50CF81D1703EC1164D893CD4865FD0DB6DC0D440D6D22DC92EBB3485E823EAF5D8A86A16CF88AAA6560EAB45F4C66A75507BEADE563BEEFAB7171C3F5D5E0675C85737AAA83E68B6B5AABCC7FC8E7F339F308201F887A144C3855224E67C914DDFA278CF28DD76D488D8DFB68E45B1BF15793671415251F7177A58769D8D0AB3A5E5D191553CB970CCEBE7E3198B91FC7A2867C61D89D9B9BEF170DB0FD7E9E1CCDE065555A2B2838913CD19408D084F9A7045B990497331EC2CF23C460978534B33C509FF9E6D833782A6CF905A0C755C77AEE52ACFA0B76227850FF4DA29BDFDE166AE1404A6089D83A23E2A2891542D66B5EC0CFAE0A36855A6A3FC650290552A7CCBC94EC8F56C1AD6EA030EABDCEAC1F8C9CE22F496CCB022AD11630A51453C68B3CA1D05250B59C00D8551A9CC16D7CC0AB271ECAFF584AD45C7928D64801F42C2D153DF814D792A619949EE2840079D16768DB7A717F9899A8515206E35F8EAE067E1D157F0FEF29B57604AEDD4C0411530D95B3F63727CDD8DA2681FEF0AE7E306A58280D48E8AB5227838F46CD2E7E720285BC9EC381C29C85FEFAA13C57A84E7D9F69E710C6F5753160F1DD267D6747C71F8AFAADFF93289EC2DEFA2E965583A576FA1E92A40F6CB1AD55C5AE36DC8ECF38422D011413544D3472BA8F09A1B2FB8039EFC758AD526D099172B052561243512AD5C550E90311AE4376F4A4FA3AF0B8252F1BEDC09771B6C7513B63F78BEE381D352BA0EACF2E3FAAF4D784B52EDB635822E729D568E7746A39E2B22C4C0DBE64602AFD9AB1F078631121ACF052FB092FC7BE5AF571D9749B1D198C7A633D9AC449B5F941D4B3D31325B65B246B4546358D499947F59D83785F31A4BBA67F77B607523E7DFBFFE625B36F4D7C9AE701842C4E00015BFF1FF2354E0D2119D4B711A1FC28A362156E9B6F7D37467E3A74D93BC968520B0BA7194F23381E1E35ED0153631F4E172C6EAEBF20357E9032C1CF9256146148B3441E73A7B99339F7B9E6A4AD0";
-        textByLine[x++] = "ss = 88D2D42138ED5B56BA4C57E7EDF322147206083B80FA313233AB6B9AE0BC7634";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 30";
-        textByLine[x++] = "seed = 806BBD111F27C2668318387BD0830F65EC21A51AF01985EF48D03D64E1958FF7EE5133A4EBF6DBF36329BCAAF65F40EA";
-        textByLine[x++] = "pk = 6E1B8A3BA66274E66D3990A19FD84BADCB9816036919F23C61077D12D85EB2058BB4B3369A040C5E61573D70C590669F0D394135E30570DAB863488A66C1744A165C2E31144ADA7B351083890A3D10077F2E556D0271134FD78D570A2FED451572D4197DD90FA5B7B19FB588D1693C3DBB4783C690400CC3C225324FE834A3C154728080F0E4B910310CE1C948007990DF2108B4544354F92A1FA6685AC203C11A58EEBB3523B47349FC2CCD19B33C522DDC60CB97671AD011C150A29B51249158D5A131D3583196C828912E7B15572DB019904A548E0967C91A684F4965BB3B3E8C008BF8531F98286C005B27A01B7AB2C13EA2C50133C3431DB1C66A0B83BB92302FD7948938B4E87C7AD2F430C6516872474185D804C3B8CA891B95F5D0893CF20B90635C84AA260A48AA7B9B3C14130D77E3994E952CF52843069A42A5C285DB221D4F492E152C03A51270A35738F51ACA012560F84A238DA294F2A17BB36BCADAC68BAA40B110D78966F6BC77B8930BD708A74704549560FC59769399793C26253E67BF4ACB629138C277F7826CC00BBDD61DD3B97C2F8277696387196950E1E53B3CF40164C32162416308761E72756C2DAC0AF7945DCE06571A5BAFC1968D25A6628B766BC99A5D43C219161BA16A20C5B2075A62D18710DAB472550EDD2229F8428717B58DDFAA67025C3E0AD97657B20D3BE467DB6752747961713971D5CBBE287937C12872D305A128F05A53E56B43292C7CE2C2A360381A8610F1A0CEF2CBA93359C06B3C74E9FB4165F187376A55FFF7AB9FE872C9121008579A877099581458713A0683A9425D6072C6B813048649A9F5CAA4C606C1CA2F79299FEB0AC1B277CEBDD82A2396A02B272B4AD196D457838A262BE3918DD3DB84D7D821FF3ACA89450478E8C10997628F9AB23FDB0077997A8ED5B26773377F7A466A69AB4E10B2D93899C66C900FC585391805AEE1677695CDBE264158816755F69515D1C3D76046D18C18E07300FFF2BF6776CC7EE87000815CA4E83967BC37D366B9CCF74870A678CEF2B13A7636D1D311DFD5A37AEB14A3C51C9087B00A2911CAF1F339E468BE45459E708BFB464D0C480A1BECDBC021A06AF7AAC4772545EB";
-        textByLine[x++] = "sk = CF32873EECC1C6215A531348D22060C1E95ACC1128C0E0ACCC6C5F824A4F2405BCB008785A893962C65B330AADD5D2C007327EF6FAB100D52E0DA1260E9102D19353F29037906CA08C76367BF669F8B5A4E608A65558A47CE017605226640BC53376920ECB192187BA716842FD67045F928D5DF21DD0EC1F648C58E458A86C340C0204654BF7788DF525DC396EC7292059830E118CA3B2804E2C621D92BC8C7D00445AB36C38FAA84E0697A2A231D550CE17AA6D903B44E9BB9222244A251A7FB2A8BF5393989B1B2F4B5897D2CB300C12B1F763704B26A6B7E1AA5A13A59987C6D6398BE32C18F4721CC1C52816B17037D526218A4FFAE04D1E22B95E44B9D1E2AB370507095B6062C1B98DB588B745571621A5881993580B17E533B81BF1A314311D08CCCD1D5A260C19B7355B68D2E5AB671CBCB5AA5538079FED022ADC9A25E48B279E47316D634C7B2B1F485391D1E227B61355A38921549BA88A228F66E515E2B31D7677A13D254551646DF15733C0F7420804782BF2B520D6A5760B854749A0E17434C49348F13ACF502311F1C48E3FBAC0DFAA67AF77699DBBC34842C198D5668FF3BAFBE60ABFFB3E80A852F8B083E1286009006A23975783F686593483C10054C5A3C9FC8A6553890A32428B0E773A5DB9A0BFF58257D77BAABC9930459D78AB7CDC39A8EC5082A8B1A66B864523ACB151220F830269537008CA87B963316A04D2783D857D21A708ECA07A701A282025A26B88100772A751ACAAAAC9890F4449BD1971E45A9F0AE0697E43A27CF7BF4D65583720A63DAAC323E7CEEBC6A8A8819D9752409EB429E6B85ADC2A719D411DA5DC24E4003772C11E58D849889638BF57BC2D62AB87A4B7837C474EC146A14C543E7A37B258C83F587AD2801DCE56BFD8663DB8E5A9197591B4871888C084512AA2F624C716A02023566E584155B5A784A964B46AE67C978471DA9060844A3811BC67EA87A9878747202C689EE26109CC22AE93AB24C032B8B332D4BB1CBC72C166166C1DBBBBC7D70DF1C49C2DF2C388E7817D462AFE9A3429305E19C929FC065818A2C3304723184B756E1B8A3BA66274E66D3990A19FD84BADCB9816036919F23C61077D12D85EB2058BB4B3369A040C5E61573D70C590669F0D394135E30570DAB863488A66C1744A165C2E31144ADA7B351083890A3D10077F2E556D0271134FD78D570A2FED451572D4197DD90FA5B7B19FB588D1693C3DBB4783C690400CC3C225324FE834A3C154728080F0E4B910310CE1C948007990DF2108B4544354F92A1FA6685AC203C11A58EEBB3523B47349FC2CCD19B33C522DDC60CB97671AD011C150A29B51249158D5A131D3583196C828912E7B15572DB019904A548E0967C91A684F4965BB3B3E8C008BF8531F98286C005B27A01B7AB2C13EA2C50133C3431DB1C66A0B83BB92302FD7948938B4E87C7AD2F430C6516872474185D804C3B8CA891B95F5D0893CF20B90635C84AA260A48AA7B9B3C14130D77E3994E952CF52843069A42A5C285DB221D4F492E152C03A51270A35738F51ACA012560F84A238DA294F2A17BB36BCADAC68BAA40B110D78966F6BC77B8930BD708A74704549560FC59769399793C26253E67BF4ACB629138C277F7826CC00BBDD61DD3B97C2F8277696387196950E1E53B3CF40164C32162416308761E72756C2DAC0AF7945DCE06571A5BAFC1968D25A6628B766BC99A5D43C219161BA16A20C5B2075A62D18710DAB472550EDD2229F8428717B58DDFAA67025C3E0AD97657B20D3BE467DB6752747961713971D5CBBE287937C12872D305A128F05A53E56B43292C7CE2C2A360381A8610F1A0CEF2CBA93359C06B3C74E9FB4165F187376A55FFF7AB9FE872C9121008579A877099581458713A0683A9425D6072C6B813048649A9F5CAA4C606C1CA2F79299FEB0AC1B277CEBDD82A2396A02B272B4AD196D457838A262BE3918DD3DB84D7D821FF3ACA89450478E8C10997628F9AB23FDB0077997A8ED5B26773377F7A466A69AB4E10B2D93899C66C900FC585391805AEE1677695CDBE264158816755F69515D1C3D76046D18C18E07300FFF2BF6776CC7EE87000815CA4E83967BC37D366B9CCF74870A678CEF2B13A7636D1D311DFD5A37AEB14A3C51C9087B00A2911CAF1F339E468BE45459E708BFB464D0C480A1BECDBC021A06AF7AAC4772545EBA9D7D5A52AA2DC226832F6E4603322F60B1DC21207E3360712F9C6445D37E64DF072D9B5A99F9C7A0A011E4DC10F6B600D611F40BBA75071E7BEE61D23FD5EDA";
-        textByLine[x++] = "ct = 7054442C482FD38D0D02F9BBA2120409F39E613CB38B81A5609FAE977471C3838154C7501A82DFD68F310AA074FA7FC397DCFA4FBCE36ACCE6755C2F2D431556E7C89436D9941723A14907252B1FF7D77B4B6CC54F9E2EFB772228495125139D1BF09CE71623AFA37CD8D762CA6FBA528FCBA9BC9993C684874115D29F4D3275BAF75791928A9EEE5C99B57600627FB12B10FEB7CCD1FA9E884D900DC92B1CCAC949588EE27A5C2C8B07F2C91BB7744B494AB2E477F7C403272FD5631D2E7BD2A521705DBF0FCFDCDFA6B0BA8E056575015D05514E469E8080925E07EA5F1E7199D3CF99E997C7ECB6E45EE2A14E4DCA2C96144808A0FFC4714088869B6ED224851D95369E50C450A3C4874B7D78299BC75DD7215953DE770A8968BC6C2B3D8F986AE4F2F32B6963CBCFA1773A4800E7B0E8935F5C0744CB5C76C68D1B40707064877D7715BAC051D4B1D17E39D8148E3C0EB0686DD0ED409449E9B4E0686D41F86DDF82CC603BBFED2F34182AE90F47298A68F4B582BA3974E097C4DDF77F6CF610BA29615BFAE4FEB4DCD911E5C4588198207AC61C27825E618BD78EA7ECBF1E6C6027FA561555415AEA59D67A9B8169245C36CA6770249F58DAE80246FB1295E1B20AD11E99D83D56574979F288DAE4D6A9C6144F785ABB70708839B111DB31B032EA3B6EB59340CB8EB3AA8CE61BA284FA3D624058BDACF4AD290460B8F8E583A99BEC59E202E24BBFEDFC799C12246498744E3F8C875995D2D52B4E925B601802829E19802D2BA132F319447C85B790861F838F897152478B7C290965BF30A682CCE889E52C4D3779B173C27D83F9C53842693CEF34A12339C959E8A96DFB2647E8E635D8DBC04B539697E8AD26D92FAF2F6371D1D285920ACEAD6A9535F3ED228B5D3158953B4CECA7AF6688CA11350AA6E9F9FD910A2B6CCF4A223E2205521A03EAFCE53BA99D4C287083F6FB6B7BC481F68138BDCFD884F17A6FD5AA71AB56A14892077F116D4E96A103BCB5E8E38870CF06DC0121D84144B6E02B8577139C6475C8DFF629E797E12F4FD167675A3CE8CE3B0DBBF5E1B5C06FA228C9";
-        textByLine[x++] = "ss = 13FB6A49481D54CF39C2B0303561B262A605B0310D939E6A531F62DB01118D06";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 31";
-        textByLine[x++] = "seed = AD540A9CE816D6FB1661E5483C44F6FDD00C9E7BD1A8CEDA4B4C4D3697D4F78ED0A56954996CCB7DA96ECB8F5CB15809";
-        textByLine[x++] = "pk = 8CC33E478B0946E4646E934C7BFAAC517294C2A75357F1028B8C32E1314CD097471F15B35707A28951BFDC88590D464750A6C7B5B62C4218BF9C152E30CBCF97D8C64AC73DA1C5493848397ADB47EE43860949B65BC4CA1FFC00E93475AC669BE33808079B2B5E230F838A8B003D77B97672844639F8B7042AE6343F681FB1F77F3C11970CE715B8033CE11C9089C9B79E9470B9B64F4FEBA92067988297BE29413C609A3E245866DC0079AC61A61BA1C90542CE965750F2B57A02D19F59719AF9191E62A1B64579BC6BC5B1B353A050D913EB8117C525B8E2A417743C9EB8E589776B885C465E4D02A51ED7072D69C8912AB6493BBA5FD186836623DD635D8121AC8B97772B671D76D983C513A45E4068C6636F6F1C1B21647ED762A3FB31615E781134075DD3969366527922868605459A6202428C3B94497978429B7E1BD2384E1154BCE5396F71AC49ACA4C426CACD1C66C0A19918104E1E6AC72018BFB18019B9DCC75A020C14E35B3E7759487B089A45AAB9773125F61455465C19A062EC90954429ADCA61A62D20114127312DD52903604F943BA8F3E0583341844500CCD7E06403A95328E02BD3EA6BF3B721C2049360930602611F5E9A06A795A4B1A8B8D8FA7845A12D1DD44D9D67971AD0AD0B3280B9F996D3770890582AF9757360E7208C8B9766C8C673DB52C22CB6E167191D11900DF3B2190230F01437BDD8145CE232A1737EECAB8B2CA1489D427AC74426DCD39E12A8B510A0B6EAE269AA4A0F46724045792A27D7CC343459914A490A170BA0C27E1405639DA5141673B8E9606CCE509D353ABEF9B7C96C2249DAD3320CD189060662C11069B36B1C75E561FC3A20631862A9B531C41683C30B7879E0C03C49B8E26C7BB59A2BF16950CB7C5EB326481A9161691859932C430E66C1D998A1BE066648C569698285695C08D004586408360BB8954F195CC5198FBBE3C16A32C72EA0B577914F5590BF189833B9D38F27433D406A88876BA754D86F4D9BACE1665F42092129995FDB3B790A89A2F1FCCE9C2048B986C8BF16B5CFB5B4F3D21F4AE84B5057C1AD5922BF15209EB3382EDA6D6338F166ACD09E376826299B77B781250C2224486EF23D424BDD";
-        textByLine[x++] = "sk = 9388CE90930382ABA7453A3493F87804172002E6C55852C72E550EE0F018AFA50499C20914E6575AF217CFEC0C55D627E29300419657A6575552E35F5D243535E36932AA98F2A64873EC6B72962A2710296B3A74F72827B51A40F7D0A2D8544B586695887223EE1BC71EBAB898142E1C4A412464526A7362AF62CAB1F9BBCE33444F43AFBE016A0D67C6B65B7872F3C69DD60ADB9443E0766005F4CED873A9A22CB99083A3B857850F51AF8C3571F18949B932B77E9B00863398355BC97CD07204606CF5EB80092ABF1E42AE00315C79B27979D0C8350942DCC3AE5E0086450171EF17A0C48B3387921B92DC8C60D0C364AB7110C59A3FE27B7004A7A0D10F24F66C57D15FED49285B995E4D198D9FA90E46849130167238F24AACFAA4419A627B30C6C8185A5CD751313A55729B854B61CC1BA940A0AB9DAFB241B3F81A590C4903C54A43D790C3FC1E2176B26E40375C294839516D0DE4615E16302C935824F6528BDC22355BA9DFD77E3A0C6D8AC36011BCC760E6C04175C088D06079709EDF3570CC259B57CA85B505A5277A92A5D83F332747B497721C707B44B0471638966D5319A6928F4F10396D192AB7EB340EDA4FFA66284D5A7E303175BBD0CA25B2643A5571E8A74FC1828656D737C47347AC120125F12D7EFA06D73C2DFAC4C38FE34D1A393907ECB44834C4988C7A59D27B26B32420E98723C09FA8B19B730BCF672CB555E3C4BFA1AC2AA2876EF792B5577674EB7EC635C1B692017346BF5A24279D018ECCB9AA3E04065A73061D8115BB208277243709A37139058E30B8549B2C00A54093E9D14095F13A9F5B088F1057207096091BB32BF4B85FC3C088A7CD0DB9C4301374AEB907B0A73AE15026E0900CCE347F2F883223166AA8B012E91B5C67D50D421BAB6A6CA88FC373A2943EC7E51651A13554C30DE5424852804DEF43B72858185C38040D6532E2D25B6A6970220200AD352636B4BA3EA8466AD678BFA958472440D5E445C4680701ABBEF7F2612FAA26BBA87DA1D8B8BB1A3568144A568C4B112263A4A5292BE317DAD102EA5555CA1B197341040007808D68B38CC33E478B0946E4646E934C7BFAAC517294C2A75357F1028B8C32E1314CD097471F15B35707A28951BFDC88590D464750A6C7B5B62C4218BF9C152E30CBCF97D8C64AC73DA1C5493848397ADB47EE43860949B65BC4CA1FFC00E93475AC669BE33808079B2B5E230F838A8B003D77B97672844639F8B7042AE6343F681FB1F77F3C11970CE715B8033CE11C9089C9B79E9470B9B64F4FEBA92067988297BE29413C609A3E245866DC0079AC61A61BA1C90542CE965750F2B57A02D19F59719AF9191E62A1B64579BC6BC5B1B353A050D913EB8117C525B8E2A417743C9EB8E589776B885C465E4D02A51ED7072D69C8912AB6493BBA5FD186836623DD635D8121AC8B97772B671D76D983C513A45E4068C6636F6F1C1B21647ED762A3FB31615E781134075DD3969366527922868605459A6202428C3B94497978429B7E1BD2384E1154BCE5396F71AC49ACA4C426CACD1C66C0A19918104E1E6AC72018BFB18019B9DCC75A020C14E35B3E7759487B089A45AAB9773125F61455465C19A062EC90954429ADCA61A62D20114127312DD52903604F943BA8F3E0583341844500CCD7E06403A95328E02BD3EA6BF3B721C2049360930602611F5E9A06A795A4B1A8B8D8FA7845A12D1DD44D9D67971AD0AD0B3280B9F996D3770890582AF9757360E7208C8B9766C8C673DB52C22CB6E167191D11900DF3B2190230F01437BDD8145CE232A1737EECAB8B2CA1489D427AC74426DCD39E12A8B510A0B6EAE269AA4A0F46724045792A27D7CC343459914A490A170BA0C27E1405639DA5141673B8E9606CCE509D353ABEF9B7C96C2249DAD3320CD189060662C11069B36B1C75E561FC3A20631862A9B531C41683C30B7879E0C03C49B8E26C7BB59A2BF16950CB7C5EB326481A9161691859932C430E66C1D998A1BE066648C569698285695C08D004586408360BB8954F195CC5198FBBE3C16A32C72EA0B577914F5590BF189833B9D38F27433D406A88876BA754D86F4D9BACE1665F42092129995FDB3B790A89A2F1FCCE9C2048B986C8BF16B5CFB5B4F3D21F4AE84B5057C1AD5922BF15209EB3382EDA6D6338F166ACD09E376826299B77B781250C2224486EF23D424BDDFA7BA132B5DFA2E3CE67B64BC72D551F3290D428CFBD45EC026F44C8DC28334D5A4D0A8A41C4F666854E9B13673071CEB2FD61DEF9A850C211E7C50071B1DDAD";
-        textByLine[x++] = "ct = 28A54A6F5B9582EC0E9331464D5D5473E162EB833602F3A41717EA2C8BDA1904C11CB1C5266A7AD90BEB09045076F00DFDD8A0C89EC9619DA8BC871D7B3358F7541CC4557AC183213FC7540812FB37C30440173B7E29DADAA35C9207E51D78531236510EB920742A4A51C1A5C69E6DFF410FA1B3560E75936336909F03609D73BD232AE32B2F3E9D698A6CCF8AE0BCB7D640E94138958EC30B1E4B7B324A99E9058446B269EA089FB9632A6C07A1E06E144E5F00CA38B2E9AC7C7AE1C1A44510D7D8F5DD7A4DB8F78C3C96590088A5E12DD86FCE1C14D6D0FBEAD35F8FAFE18AA8CEE5F1AB99C3929F5F602789B2B34BAD0E8ACE497473ED23ADF7DA0EC24AF550410B7F643D611D58852F35E9B592D2A9896B4C30879B72558569C12B9F94AB122199C5817C1390CDADBFC3B8000420263E6008DBEF5A2FAD07BA29DEF635FB73675BF743943DF1949C959208E52FEEEACBCC50769C8809D64FA33EDE005EDD6ADBBC7C600B8014863D69048816234F8A2BCAE7596A27AA48471E92BB581B780490E2D00CFB95F278998286C2CDDA8C5722DFA10AC06F00DFE3730B187D267BC93E760710291E4AA7443A3FBB4E21A3341C4624A458B3ECD806F4AF6F7D7BA06EC80BAE40F456895E6EE2D5C076008A687B057342CAA46197682063603A346AB8AF4512AD3FBEEE4E9600F88DF35CFD05740DF15AA80F32B71D527E2FB655DFADAEF2682399E9507838AEB0FBE5FE0ADEE77FEFEFF674910961DB9C9EEAD74051E831D76699583078A80DBD42A6F9100D9A1DFA4FD0D0D012AD1CAF035BB1277769CAF066867ED8A59484F357ECF7AAD535204758906CA805543D9F9E743E1018ABD8F0F2955CDA1B1BDBDD41080EF03C0C5240A55EA7167CFEAA155DCF50885453CA88E37AD7EACACBB8F69BF6454EE723737353FB86EA5AE8DB12664854EBD01531149479FE205AD0703986E5ED72FE0E47E24C66579C29E5117796B42965BD9A14DFB47CF92456AA2BCEC14F7B3BD7A1108434FC6AAF7453A27D21B8520813D42C951D1DAA7CAF1EBED91319B42670A928A6E7C300B0BBB6EFFE5F6DD2D5";
-        textByLine[x++] = "ss = 7E68F0D508A62784F2DA4957E8DC092C19E523876202121379E03498B6BD6A22";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 32";
-        textByLine[x++] = "seed = 288A5F2684D862A86D2790AFDDDDBAC6FDA934EE7D2E6DA1508BB550838609E8107312B28E00A6C01706374CCD3AEFA7";
-        textByLine[x++] = "pk = A764B9E7ABB0BE68520A095BCA8946289731B5D068114ACB1209507E9B20831BCDB2B2B6610C0031F89F6D408003BA57398B5D4BDA4479134350994A8190CC1EC6B8EA0905CD38772789C9873A4CB6606E6A591410125786D7140778975C472077E42416D3223D69AC98320DE4A1BB45761F04178FB63C92C71B24FF8056844455A45A37969B4231123483B341FF6652E7666EDE163E9B614313012FCFDACA544B99CF922DE994CF6DE08799586BC5810C5C1C54882B935C52046921963865C0B82B5466E29EAE6A62FB1792F4E1035308AA5AE81AAA524533EA7A000D7A128CB83BD0587138C73D66B17C585F7037BE9C0089E6572F2F68C5BA09A532326419B3C19346267D8887DAB82FB0176062F4C6E6707EC2AB7448215E895908D82CCEAED528BA75114C7609E0B6B4E27B9B14BB8ADAF0413D354F00D33409D5A185D1B95C58B7A86CAF903C1DE1AB16AA2054C13849EDD469899780C34B8C423A27483ABCF4C53B4BF2210F602AEE904D2DD879054B69247B05F3B86F00A1113DFA29D47BB006A2B1FE8A540021541F412D307433CE71362F639FE39912FC0A6AE4A33AB4B07CEDD1813D0009B784BDBB209A58D66EDE34BBFB939C09ABC80D6C71C550953494C99881A1F874791031A8EE2BC7760CBF75D82BEE11668BE002255B7A0309527D63BD3707A692BC3D3C927E0A406E852A7215C1850DC9AA9B17AF5DC71FE9C57DD5DACB26F95478613C878B7694D74BE742C282991DAE15267CAC6D2BD0B2D2C469BF391EFD470A19D59A6DB65710AC98905520C863927EC80BBEE88513D70D009370D6B04AF5EA49E6263D034228644307FB407C4617B8B7977C8F2C8BDAB888940C2B1E157193830DEF0804D58B8F380316F60A3C26E27581D03351237CBF85CE4252C92C19C7A842201826CF698A074044B9B8132236AB6852718E09E033E009A1E8DBAA6CE98A81FA6371407FC2619E5AACCB94F1C8FA18236570ABDBC217A0489BE14AAECABA1C631B76C5A996D4BB842BBCCE6798255D7365FED744865267DA794CFA97BA6C7927474647A6C952A68954369297E96B6612C3A0C9709046B442990CF89513930F122152632A3C3D7C15C8018E1C23AA33CB89AD";
-        textByLine[x++] = "sk = 5177B63A55465CD09A42FC7C26CB3380880F239415C318BE33E486582A40F3A685C060A916EA06B5DAB029C73A5756AE52AC299B16151685611BFB5ACB3465A591B015BBA901765D2C22222338C5DE7944F17487D7BC7C444840B3C69AADAA3E87852446B63D80E68E24CA02775BAF035A24AED04ED5A54193693006C326F814A7379AA4141320FFCB18E2624E08E27952E75D0AAC6CB4B27C9FAA6850C035799B229372832BBCA68CA915009B8EC877548FB657A73BAC7556AAD1B6B772F24393CA11EEB53D05D6996C162D785BAE9033A23E78CA224CB92A770713D5150CFB8FE570CD24B2C43C2CA60B81C3243234BEA625F3A05CFD434688610A7D46BBAE25B14C207225FC0C60326CF33566FC340D4EC8B1AF40C4584828E7709D4042016CD5CEF2B77F5C3B434053A5783A761C1357C6706A490314D8D7C6A94289BB37B999739098DA95D63B6B5043036C7A554F148D511B9E190A7F10A3A5F2581002938F2F92678EE28276443387B28A0907641E4371643B9EE4D5A0C2C8B6A2A01C6F427FDAA38001086624F805A7A1B4DFAA24B481C32FA280A8D85726E08F237CB3909B20EC51ACDD7424D4C74F6C67BCA4B6046B44C16C54A059666EA12C5E68AB7C62705043750AA67538FCD470F09120BC93B9FFB02110A75E3DB179C20B125F23967E20B32EEB9B2AF1C9927B52834B89E32295BF57428C2CB67C231E80D26E122353186C13CE249B56FA668EA4C599EA62C57C65B0360088FAB236B3BB76C60AFF1C547948212420B3D322B4770A15AC136AA279918D9003D337AD1B78CB5523903A5CB32A10C17C820D6BAB430BB3926BA34A11077AB834835FA78EBBB3B766C25955E46CBA5818B6D729C474BF76EB706F93BF74F046971AAB7859BE78A3A8BB570CEDE984EC72B5E53566150003CC81250E97774F273E629188E3141C8BE771A53A5FFA47126B1898B2512BCBA038781304729C6807C3B450335658F3A41BA91795709FF0BA02135A5C762089B8E44DEEF53A280A198B8275D2A00DFAF27F14C93FC4E949D03561536B895DAACCB73506F94A06D5225D94E7C98E5B26A764B9E7ABB0BE68520A095BCA8946289731B5D068114ACB1209507E9B20831BCDB2B2B6610C0031F89F6D408003BA57398B5D4BDA4479134350994A8190CC1EC6B8EA0905CD38772789C9873A4CB6606E6A591410125786D7140778975C472077E42416D3223D69AC98320DE4A1BB45761F04178FB63C92C71B24FF8056844455A45A37969B4231123483B341FF6652E7666EDE163E9B614313012FCFDACA544B99CF922DE994CF6DE08799586BC5810C5C1C54882B935C52046921963865C0B82B5466E29EAE6A62FB1792F4E1035308AA5AE81AAA524533EA7A000D7A128CB83BD0587138C73D66B17C585F7037BE9C0089E6572F2F68C5BA09A532326419B3C19346267D8887DAB82FB0176062F4C6E6707EC2AB7448215E895908D82CCEAED528BA75114C7609E0B6B4E27B9B14BB8ADAF0413D354F00D33409D5A185D1B95C58B7A86CAF903C1DE1AB16AA2054C13849EDD469899780C34B8C423A27483ABCF4C53B4BF2210F602AEE904D2DD879054B69247B05F3B86F00A1113DFA29D47BB006A2B1FE8A540021541F412D307433CE71362F639FE39912FC0A6AE4A33AB4B07CEDD1813D0009B784BDBB209A58D66EDE34BBFB939C09ABC80D6C71C550953494C99881A1F874791031A8EE2BC7760CBF75D82BEE11668BE002255B7A0309527D63BD3707A692BC3D3C927E0A406E852A7215C1850DC9AA9B17AF5DC71FE9C57DD5DACB26F95478613C878B7694D74BE742C282991DAE15267CAC6D2BD0B2D2C469BF391EFD470A19D59A6DB65710AC98905520C863927EC80BBEE88513D70D009370D6B04AF5EA49E6263D034228644307FB407C4617B8B7977C8F2C8BDAB888940C2B1E157193830DEF0804D58B8F380316F60A3C26E27581D03351237CBF85CE4252C92C19C7A842201826CF698A074044B9B8132236AB6852718E09E033E009A1E8DBAA6CE98A81FA6371407FC2619E5AACCB94F1C8FA18236570ABDBC217A0489BE14AAECABA1C631B76C5A996D4BB842BBCCE6798255D7365FED744865267DA794CFA97BA6C7927474647A6C952A68954369297E96B6612C3A0C9709046B442990CF89513930F122152632A3C3D7C15C8018E1C23AA33CB89AD29F8A01BA71D04D6831C03D1FF294FB58EF6F4041772CC071074829C32A3AC9D36B817736CBC5F7B1DD6EEF5FE6332FB1A598F3871E5470D440FD2EA631DA28A";
-        textByLine[x++] = "ct = 83E426C1DE1E042EA955E5EEC8EC37E1ABF6774FD4AC3B70FB78F8F87F5F6C389FC53F5A2D38C3CFBD62AD4E6E765DB96E0E8A2E7EABD77C67A20B633D899E55CEB734CDA5FE921CAF081C5D815F61F7DD42FBC982B1E727D0BE327D53156A3953DF76CE502B263ED0EAF9089693277540413895E3B27A744D8EFB2983992C7FA40A88279A240A8B1FDA3FA63C31CC3E9198365F18F09EB407E925155DD02E31D48F7F346C17C7A10CF854FACE77663D432F6C2354F5694022BDC311362BC933F5155735DC6B7E6330B705EFC3D931DBE0C50EB12CC5BE7BE9E1BE97C6F1A03564A115BB73A8F6B3A653D08C91ECB3DEF7201C0324FAF6E995C94E5575859EB02D426DE5DC64A27EB8354DE552FDC9C7884ACC4BBC7497149B97854E524000959C4ECCB2A1A60DE9EDFE39E654DEC1861F58CB7E233CA4D0D4595945E279F702EC7A77347443AE0F633D5973F49CED7B4912D68482BF321C0DE76EA5015E74F9D1CE8404AC0915F8492E1C08362C8DB6A37FE09D9B93F00EEC5F1E0DEE1AF3026E8215A031B42F36791A14CDAB3B790B1FC20D7192BFE0FD4D3D8C38DF1452B8250158A624E78E05FA4E6D7D8BE6A4EBC7DCB14639250234AFA26B2351E6D90B89C221EC716240347D7FC7D02F970822C05E26C4DCDF63EAACB0D170F5939398877DF72EB5F2F77A13B873D5027AD99FDA9B2293AD7CFAE136BD16C8FDB78AAE2A3F98207DCF2D37BA2660FD43C001351063C3D6A20E8C68E2323269DA6B69C062DA91815F68C72B0ADBBB8C0C1BF7A01EBCE9056963A32B1E1381ED2D6F2D9CCF043CA4C472E0C282F2173754907240866B326096E8D173151A618AEF3FCF8378C5B30C8B9B1CE7F2C791448C5D600BB0E998732592CD65D8BA1D072BB0D8BEC183C0C2B54F49BD7E492FBC40DE66325E842009B5080EFE5E8CC0C9771A227377C7190004F01981D5C929476424A9EB460D4730D5C5F42A8A2EAAB87156E8EBDC094F4BF39B00EAA48CC4E4E4870F78C3963B9BC4673B9C2BF20D57BA4ECCA832D4E9AED19ABA6850755CE2481CE0941691E8A3AF117CE09C05087CF57478E6";
-        textByLine[x++] = "ss = D26602625CCD72777515C2161999B332022BB25E0F9310312E605597C3D8D4A9";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 33";
-        textByLine[x++] = "seed = 4635DC5BB92EF98CDB6220DF0DD717C7F8158375EAA2B78FC3F0B58E9C9653E92684CAD3461D9158A481DA3D14694C44";
-        textByLine[x++] = "pk = 5722C4C5ABC6BA118828263017D56E8FC3871B503A8517A0E3B8BD8192746E211A1A09923B761B20695F6A3CA01EB62E7F6B5302F54B8DE33FE02B8FCF9C16E7C552977735139877C95BC69BC704FE94C0333115D7EA091FB41C146C07F487961C83B1B18225E91449C961769A7BB434A93DA88531A75C207044A46623ACB8342D59D1455DC434E2D2BFA5C30B9807789856B76D3A4C65D642FE65827EB7040290C21F2228E40251680AA7AA106A4E150D3226B030407D293929C20BB1AFBA5187B1C4A300749A323168576AEE45474A8B3507BACE55A333E95370BCC7B8B664C281F653F9C3B439C30850B68F20D860BA262C992C99C2BC37EEE195D2E945C1D6336C990A77E9AF68EB8932EB3325E362DB5A77980274AA3B699BE212DB904E49E326FD445E48354B1609C0942735DC6480C53BCA3C8857FCD90965F61D4DE0509891272D31A51F3528FB17ACAF669EFC1032A4240F097118697842D79239B16313A6F74ABA689AAC94936A35A21331961397029A823D443244F49A445527B039EC8547C35E83FC2D076225D72B7634FABE64A103283434DE705BBA284FD2241A7E161435C896E899579CAA2CBA03C53EF74BA3CB30ADB80B94BC407159A5D3B35F85B3BA3491C85B4379CF6472310335DCB0CFF3006BBB5C8C37E3A1B758518D4C740AB5358CF8AB6CD92542A79A97DC4498734C8C9C36BAAAB29472A9CB633CE5D30039BB53B03978C51402FEA962B70506642B5F6242345746ABC312B6625A96443111A2C78D674A755554266C5089E23C9B63EA4B255890F577BC5A442066A2C448771629B542D2981093E49961F8A87A93C068E25167483872D378C2445F398796970C92B4B42AAAA65771382B53D8C79A0258CEDABD6EE33539B73642863B6A8A3759BB76AECB5E6AAC3D61A0614F1436E3623A77D38ABCBB780059521AC7148C088A89B916A0103F477A15A68489D5F63CD7C84132AAB6BC63A5DD30B8F27C835A738F1F619EFB31509CC9205A4716B64A3CAC7725B79C8C2D304FF4A60B328013FE6CB99D94496B363D03C1A278532780FCA35473A000291D8715B17CFE1B1B3BBF85039A8189076A3752784E23D8A802023FD0743EB03D989A6968";
-        textByLine[x++] = "sk = AE066432F2585C1097A9495A937589ECA954FE6B27510A58BBFA35C166A0E697CCDD7A7A648A80E09A461ECC9A1E9B8D288C488C48CF86D9C892B2C4021CC4D5194AB3EA95BA7B73ACC48568D9CB1C682BCBC8BB93A8CCC091B5FCF706DFC131AF4911A947BB84002EA9388F47E4A0FEB26AB1AC35B561BD5641512574647A4677E688610BF9A545F385F9B843A76952012379AC965A1AFA8BBEA16C6F198A579A6733A40DB261B9AA449BD9E89FE72C85171B6F27F45E3C0C9664D7B0661A49B18B5180F760B4A99EBB0A2866D70825489AD817C4CCD00C303A583722A686316261607C1D6CAB86FC126CDA4E75576633B91614846DFBB35481508C9CA06625C49BA41AAF7AEC38B49663870BCB0F331296422CF1B816543B0BCC3806EE113E23D4BDABFB5CDF173B22679DE771071EBCC53903227A836084DB363D251FEC091296FB7556CBCCE562CE54B24554E7C6DC6AAC7AF699AEF7B8DEA52465557E0FD07547F77D3EBC5A9981CF2CC7729E9AA228F62AF4A8BB656932FAE1ADBB820B96F27617D041DE7972EDE45151805A59A58E3EC57D02D27D0BF448187413FC886C03D0782A8592446A414A760E5FB384F542CF0A99A57AD615BCA14043A252505A6956EC64A8A4603B34426D67A629B278A9774E6873C8D688A3A5EB0690F459EC98003274C010331D73FB34595C1598091F64809B35AA05497B58CC5C5978C095411B2558C88BA2EC756850CC5107B06D2C6930CAA0CA8A8ECEB3097C759364992FA5D964A70236990024F72039ADF5883224B64966C1D98C87018163B21AAB404A697DB5BAF3A1626FBBC218A04EA1E92778BBA3621618255257691691C5A3A11A4C1E12A5BAFEFA8CA3D4BC2EE98FAF92ACCD6301E3FA3143DC6F223767C0112F26CB7E90095F6A116898DAC9528C64FAAB8A8F0828D08302EBD2794EE71CBB47176F62C19D80088D40297977653A3BB7EE277CE0324B9D163D2506B872580F4B60971657CBE1F322A85AB5830599B4DCACA4B73584255F5FCBA21E5B966197A5BE218149F7CAB9A0AF6536A528873A20CB8A3830B84A67841A99074804135722C4C5ABC6BA118828263017D56E8FC3871B503A8517A0E3B8BD8192746E211A1A09923B761B20695F6A3CA01EB62E7F6B5302F54B8DE33FE02B8FCF9C16E7C552977735139877C95BC69BC704FE94C0333115D7EA091FB41C146C07F487961C83B1B18225E91449C961769A7BB434A93DA88531A75C207044A46623ACB8342D59D1455DC434E2D2BFA5C30B9807789856B76D3A4C65D642FE65827EB7040290C21F2228E40251680AA7AA106A4E150D3226B030407D293929C20BB1AFBA5187B1C4A300749A323168576AEE45474A8B3507BACE55A333E95370BCC7B8B664C281F653F9C3B439C30850B68F20D860BA262C992C99C2BC37EEE195D2E945C1D6336C990A77E9AF68EB8932EB3325E362DB5A77980274AA3B699BE212DB904E49E326FD445E48354B1609C0942735DC6480C53BCA3C8857FCD90965F61D4DE0509891272D31A51F3528FB17ACAF669EFC1032A4240F097118697842D79239B16313A6F74ABA689AAC94936A35A21331961397029A823D443244F49A445527B039EC8547C35E83FC2D076225D72B7634FABE64A103283434DE705BBA284FD2241A7E161435C896E899579CAA2CBA03C53EF74BA3CB30ADB80B94BC407159A5D3B35F85B3BA3491C85B4379CF6472310335DCB0CFF3006BBB5C8C37E3A1B758518D4C740AB5358CF8AB6CD92542A79A97DC4498734C8C9C36BAAAB29472A9CB633CE5D30039BB53B03978C51402FEA962B70506642B5F6242345746ABC312B6625A96443111A2C78D674A755554266C5089E23C9B63EA4B255890F577BC5A442066A2C448771629B542D2981093E49961F8A87A93C068E25167483872D378C2445F398796970C92B4B42AAAA65771382B53D8C79A0258CEDABD6EE33539B73642863B6A8A3759BB76AECB5E6AAC3D61A0614F1436E3623A77D38ABCBB780059521AC7148C088A89B916A0103F477A15A68489D5F63CD7C84132AAB6BC63A5DD30B8F27C835A738F1F619EFB31509CC9205A4716B64A3CAC7725B79C8C2D304FF4A60B328013FE6CB99D94496B363D03C1A278532780FCA35473A000291D8715B17CFE1B1B3BBF85039A8189076A3752784E23D8A802023FD0743EB03D989A6968357376DE9843D74252466888727F9DC1EF48D028C0F52C902AA0DFC3DE374C8375D12195EC32A8686D0600E45D4A7F54219B0D7A3826D193A51B9156ECF2EDD6";
-        textByLine[x++] = "ct = 1E3DEA0EF2EECADEE305DEC2F5586C62718986D74089E218CADA761197345627AA45D249E88B73FE44DBB4F51342238ADFE5D70B042DBD1DCE342E1F23A5B01A89EE75B431A88DE9307434F62371AD76062F619F1F89F4727124C39178FCD88075BF2092B2088C332B7FA2F71D8B3D91324DF0CF37BCE4A041167337B8DABE7CBF64ABFFE6A4BA94E9FED9DC29708E2208EA119949BEE330EFAF27C54F186F63AA27A0006C1FA0A68487A1176978041092C0541411D36FCEB1C63637742A789A998A8EC97ED20754CF75F0273EEE8B86225C6B69B801075796455493DCAEE98CDEF7834F926CF158E361293259F300ED25C9195E958CD90142ECADA2E44079C7CA7E4957BE6B1D4651ACD48763229E2DDC1141D46ECDB3AD1955A6201DF13E5926B2ED7C6595EB0BAC5A26693EBC337623863291D6294FD2E46512E12A6DDC20B7FEA36987D2009EECB99C394665D08E1790D65CF8A8D41DEBD0519F971372965047D78F570E1E8FB5C39861B806764D68BDFA0A74C965A287A1568147B8A37AB18580B7389A65F013C81F39F2F93DD3C064045AA210C1C8B583CDA631B86DBD3A7A880123ACE01364E9BF7AF9355C1BE0EF340D06BE58E50DD86A915AC6CD270C5651CEC4A070BB6C613A0D26922293D91BF436CF48CFDE28442198F71BB9F493B7046BD09BCADCFFC413CD98B32830FE56ADB5A2F346884F46388F2BF4E9385629B631F5BE4FFA20CE81D8265BA98FCEB67F611A87AABD256A258A08E58E0756B99FC7E14E3610D64837973E35AB8F58F356001810CAE5CD0112B056E2D9FBACD5FEB824E2406434271219593D0928274C42F19536ADEBCD6EA01DDC05CE6CC6C253E75A7907EB0A6EB251610A8319D56F3C385D73DCDE372965D66E17484ADA910FBCC3F907F841E3DC22DB309108B5080C184E3FAAD467CD16F0519D19949DFFD9D8CD3D905E3F8657618C12B2ED57DCF2BFA01C8F6D86EEB6B5B6F8DED070109560EF35B24EC8511362C99907AAB277010C39A9E3E6B0BDB8D324750DD651DB665BBF8B689052A0E85F786373685BCED1C4C48842CE4D1E5E2F65F52351";
-        textByLine[x++] = "ss = 7880372C71846216F925E718FFE2B65124A09E4B40D636F7908FD26B2E5D7CBD";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 34";
-        textByLine[x++] = "seed = 5DA2C51B4ACF488C8BDED5E985CC4702E4A7BCB248B5AC18AABA529F7F9CBF30EFA776E99F76D5C1686E94F50FB57DAE";
-        textByLine[x++] = "pk = 44D99657B40036BA1462E34B668715C8CA2A84B4C5B7E81D11E4ACD7C6AE77A7A7E6193B5C8143A45B997DD291D3B08840CC4765B8B4F8C7CAA7158F2B939CD273362C9302AF3C59B2A08DD545AD119C0522FC60AEE902F6A6B49778BA17A97A47B2018E14336CC1CBDF49B90698551059BCA80506A4C8533D791BDAAAAA638571398AC85256740AAA5BF4BB35DA6B3B6F514A7E364935E769137A300E9811355A9097492CE020AABBC0CFD8398792651F82B887B0D13C3E9C5632029A1670B3F8C8437B09A8CFD6B8482BAD74347144661B0CF297FEF2BF91AC607EC7B77ED308AC430ABE56C69B668CD6201F329875F6454AEB73540E3C0F0816CD7F2B372DAAB8B3EC1718D362F97C5A05B35964707B4A7558EA1276FA837E4D90BE1B19AE05CC7B948A32D1018F14844E1CC3B79FD631D8166D1FC072E538429AB1B09F8A0AC879143F514ED31931878191A0C203B5E69B30D40734904C1BD9CEEAD909136593B9C51402E5CF0917C3C9541CDFD95FA66018784AC144C610B4182A69A08CBD43CECBB8BAEECCA48DE3CA5D21CE58A69A96AC65778CC9A5DACD663A632E63B1A4E71B012846F0C6C26B728902F64BAEEB6718163CBA1AC63447CAD9D63EEAE21855776DEE780D1B6443753235F4330EDC889094241930C27FAC186F46428A60180D239008FCAB21AD162F903A7A0984489F8A9D10840F2171734536B67A329174B48919A63993D8C4724A73C51B3AEDFA30A86AA2606A5C8F2346E9CC129E4BCE6A519947D17CAADC8F3CAA6A5B10BF98A526EE0653AF3B214B652DCE4B3FF3D2C1CA4B3B2F751E3AF095D4128B57C46C8A89A1DE5B805FFB20D0300E6AE5C57F562FDF493562E1BB5AC0BDD35B8395889F6C7037ED636E56C1AA661289052952EBF386150BB03EDA1616478A1DC43F50FB1EDBB63968945E05D09D1D320B335433B701CAEF733A47BCB0E62BCEC0E68CD6DA26DDE55C53D5A289284A7E6B1C239A092C0841C6E7A8292041A04B842BFC8F2430A632D55568A58282018D55876BC8E90BD1686B61D7CEBA6B500CE628DCE8A5DCD13CF76C81FFA1AFE352C6877B8B2EAA1ABB3132E55D8BD5B08678BFA4243430BB4D059B58A4B0CF0FD26E";
-        textByLine[x++] = "sk = 058115385970FE9640387526E37B2C5FA614EE27B6E1512E3069C5363A4B48CA44A523714C37C15C60AE17751822D14A18BBA78A6B1D6B2614AAB3A09C314307F06AE7C3702F37BA9891B9CD7BBEA76098BB5062B1356582167C12A02529F884E05C5AA6B054AEA5A58E19429BD7A8FC9C5EB0D0AA59B54526884EB7B740BC2ABA74902EDBA3A5C1B53091F219F8CA1E79575AECB556C082700B844690C05FE0692FF2953673640D96B72889A317DF4158DC4475A6993C4FEAA1718863EAABBC551A11D462A8E8D5293BF666EEB3481AC80F7C4A3DA10B2169BA6FD12619BB96656CBA731C430B21C24D337A51FB4088EA57105027228952CC79EA03E85C3E1304B1C7EC4E98ACC486C411FE1C2D539927D0B822646B8CAC7C971801CEC9E07625D50CAA291808B4128CC1BE98C73BD0B03BE97645E0048117F5165D71B5AB11AF63BB3D759A899C2176DC828736B50DD7F15EF480578B619F3BA8A9E5EC8C24B472D4886F07C3A07C3B677625296DFA9B64CA7D12E94CC8E18631CA6BB80B820C7A229A62B141C42C31F70075EA73AC5B4D3DE973D4E364DBBC13AEFC9FE43C39BE762F0FEC97FC0738368709C426504EA71285DB774F6B56B96396B2A683939947888267CB834347DC7F3346694E06C6B024C497B950048C96C1988642F074A9B95AA5018C504CC49EA659AC9310C933AF9326BF91FB06DDAA21A8A3AF4B3AABC608C6CF89C554386DA97AB8EB9CA9BC98C9B1ECBE550A6A53CAC0D7A72BFD7BC9F710BC6D140197B465C47094F3663F9C5089175AAA8F23B3FAF97A09C7AFBB94C2E58BAEAB36B0CEB1CF194720D54BB98B03C0EB1756B7C376560A7603B306AEF22A09791C96E952F077BD2F5040AA2B6E188A776AAB6530890F2E34C7EF792777B4B07C4CA8A8A071DA13C9FE47B451A009E0A68EEC9037F89627E7A979175B7F7469215783C337DAC91F55C574D223222A0B71DC4222A4716A69B3FC5533CA9842BA17ADB23BA6E300565F739FAC07483EC53EF192828EA113199BCA45F28B558B96302900EF872F6A7972AC025EEFBA867F001F40736EB41737EF228A44D99657B40036BA1462E34B668715C8CA2A84B4C5B7E81D11E4ACD7C6AE77A7A7E6193B5C8143A45B997DD291D3B08840CC4765B8B4F8C7CAA7158F2B939CD273362C9302AF3C59B2A08DD545AD119C0522FC60AEE902F6A6B49778BA17A97A47B2018E14336CC1CBDF49B90698551059BCA80506A4C8533D791BDAAAAA638571398AC85256740AAA5BF4BB35DA6B3B6F514A7E364935E769137A300E9811355A9097492CE020AABBC0CFD8398792651F82B887B0D13C3E9C5632029A1670B3F8C8437B09A8CFD6B8482BAD74347144661B0CF297FEF2BF91AC607EC7B77ED308AC430ABE56C69B668CD6201F329875F6454AEB73540E3C0F0816CD7F2B372DAAB8B3EC1718D362F97C5A05B35964707B4A7558EA1276FA837E4D90BE1B19AE05CC7B948A32D1018F14844E1CC3B79FD631D8166D1FC072E538429AB1B09F8A0AC879143F514ED31931878191A0C203B5E69B30D40734904C1BD9CEEAD909136593B9C51402E5CF0917C3C9541CDFD95FA66018784AC144C610B4182A69A08CBD43CECBB8BAEECCA48DE3CA5D21CE58A69A96AC65778CC9A5DACD663A632E63B1A4E71B012846F0C6C26B728902F64BAEEB6718163CBA1AC63447CAD9D63EEAE21855776DEE780D1B6443753235F4330EDC889094241930C27FAC186F46428A60180D239008FCAB21AD162F903A7A0984489F8A9D10840F2171734536B67A329174B48919A63993D8C4724A73C51B3AEDFA30A86AA2606A5C8F2346E9CC129E4BCE6A519947D17CAADC8F3CAA6A5B10BF98A526EE0653AF3B214B652DCE4B3FF3D2C1CA4B3B2F751E3AF095D4128B57C46C8A89A1DE5B805FFB20D0300E6AE5C57F562FDF493562E1BB5AC0BDD35B8395889F6C7037ED636E56C1AA661289052952EBF386150BB03EDA1616478A1DC43F50FB1EDBB63968945E05D09D1D320B335433B701CAEF733A47BCB0E62BCEC0E68CD6DA26DDE55C53D5A289284A7E6B1C239A092C0841C6E7A8292041A04B842BFC8F2430A632D55568A58282018D55876BC8E90BD1686B61D7CEBA6B500CE628DCE8A5DCD13CF76C81FFA1AFE352C6877B8B2EAA1ABB3132E55D8BD5B08678BFA4243430BB4D059B58A4B0CF0FD26E30382CB59FEEE1B6B0FC129FECB8C74034DA92987249BC20CC8AD4A2CFC1BFE0248C0A21EA0BB6D6F56F12300E8584D8E9A34E0E6F52227281151AE4C305FB8F";
-        textByLine[x++] = "ct = FE2C6F20707556D7DEBCC690E3795FF2829A1E147101E88BDDB3D4E42BB93CA9E5BA541CCF17F93FDF87FA80BF8ED68BEC0536982E24B4500281D16B36652B0ABCE550174B7029B453CE95813D5ACE8E6652DA8F0BB31804E36E50BEF7A72D1C2A54C499786270834AB2D39580C91D83C7867ECF89C67CCE525CBEF770CE3B89C776DE0BFF8BF6CF9B4E9537CBDB4BD5343037B1E893DE77149F1A0DFC705232C339331F04B197CF684004A3D7A4AB0D42E3E1B60CF64B30E526A523B7E81BFAE0C43C01BA92942AE3980CBD6D8C772A0476579D2808F2AC7EB9B65650B4BE806B083EF3615759A9C64E5796A147E6353AFC25635412CEB8EEE5C147094382EB21069EE986E3FD7AEBF418DEF59BC2501C8B09C4EBAB6F92E86C6FCDCB9B263083EB0AE150E5393FC378EDA5C2D88C68F0659F8F0F2F56703B382DC6B32CBCD129751069C543F12E7F28540BAB51DD3F9E2087D8EEA9603AA20E9E7F4CC8E146E4A00BF94AD9437E8C7FE0CE7C427B8D2F351D6F87B41D1D481CA107653D7D7AFB8533434079CF1664280A82ED44E9621BF475E82AED2C78AFF42B9DB65DB5577117A62BD5ADA6916F9CD442820D0D0E3074F22C128ED04D7FA8EFDA6C97E655692158C01615CBBEBB61985EB6F567A821F4C13A366F1C3C98298E39758A52DFC6EB2126B017458E2DCD714510E0042A40374F971F875C188FF3D810F28092A002ECA81F9718FCA0AF75F20B7D0D4AD057BE214D7A6E3F38F29CB508ACE72B9242BB3503C4657D35E045F1C31EB282A53234FED14B0345938AA12CA79F90C4B24A50BA4181B9C1D00A422A23DD93B5794C552B87FA676A1B8F94224808E8DC277D39F693A233C818DEB5BD8ED151D6DDA4DAD078F70CB2E53DEB2DBEAC45ECBDE809919BC6F5A000847966836CA3D5FB142BEC730CE7C8E07677A571A9BD26B7E4D65DB6D3BDCD16C1E900783DF377D590F86E411A54775FC248BEB684AA5375DD1ACB3776314E03D0EC2AD35E69E6708AA73A544256BA00182F94254B10199F87AAF2FED25970B4699B7654B57087FAE141FD5C05C95D11E58A8F4A479F2BBF";
-        textByLine[x++] = "ss = CBB85BA073BE238CBF61C5A04F0B8ECBBD1ECD19EFDC1AA3D55778EF7E9AE537";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 35";
-        textByLine[x++] = "seed = 4D2239E84B052109A78DBAB6D80C51A86D38248105970476B74A0B78B9CFAB6283E30D5A406FAE1C7F54F8BAE1110EE4";
-        textByLine[x++] = "pk = 945762AA4B7684D18022BB247F593D00F4956C728F6977BD197565696C3FC61B6AC2B67CD644B312F992C1AB45C4C6A5AFF378DCC3269622355B436610412CFD92458CC5703FE2B01CB3A395927BE19C8067A793BCA615CEA3C2EA55CF10C0CBDD94577331939E6B7332D849AC501750411223D143DC953D648152005A323DF711009B81614A657487ABD5476BD5D71827CA1B5BA45E9C268C6F826E9263ADFD716CDB842D4F31B2588A3291165FB7D7B3F21CAA0D639D2E1B9981FC4DFF1C9F0590B41661B3936950009C1423153C96351DB064A794CB345E3C46ABB00B061C4EA6F9BF2B53A679244CE8E453170B6EE9375C7DA69056A5345C524BA1A1345D052AE176BF16370DFBDBBEB906996EB41FAD306A9153C0E8D98128A82231D73A878A8117529F8FF85BE6CCA6166CC5B0503134AB298C066C62260DF091A15F598311815F3503965695586BA134847B3ADA551B62072D03D468360150D0B17CEAF0A1496070778C7A75593ACBAB2BAA4C888BB99D9EBAA34F8B02C27AC7ACE0A15CA73905D9582B8137A223BCA48B42EBF28D4360B01CD25D644A6F7E831E155928E971627C3C52A9B015E5D8A86A790FF785C653CA920151AB662C3FCBB18AF3B9CA27F6C0CAE82161EB940FD45555D71FA801BDCF418C5E9879FB33B675D5A27E5B45A4E2A20916C83A1BCEDAABC0AC0666B4A2B403F05DAEA6906E773EE9EB3FF9441C06F86634F01D1C93788A08B76B15BE95B296D407A9EA500D89B191C1C68B7D85763D1C2D2633277AF163596A7EC257BDAAE2A510B8282976BF25936A6E380A778939EE2B44BB1054669A2C5C06C77E712BF2A5B6AA405A1408B5FD2573EF231E2169C165727EE1A19B4C6343F2038537DA304909C1CF81862E9676F1E26D7F48748488CD9AB64BBE3167B442719A304500D8C72128CBEA470942289FC35C1FE32CCC07361BB1591E43E5A4F9076B7D416E5D2325FE0413A0A88984B048292758FCD080B5F5378D6C508927CFEA478BE3F68015B12CC1B05B47791CE7CA8C1A98CFFEA637807931A863B2CBA011C8D8C35DB81BBAC79C5D05171BE83F32E99B4B05D558EA7918A7881BCF516457AD2C3AB72EF2E04E3A4ACB85A987C2";
-        textByLine[x++] = "sk = 48340BB266C646934C7F42388385C1BA2CAD8D25B57E17C1D728B767A592505A387A46722B652F941A2D420262C188380AA638C90126B9001F9A4C193DC1A7FBF5143D52A9D94CA6F50444BAD7AA84432C18B31B8A40003F393F0AD3346CD740C0637F88975F32DB5B6CF2A6C0923993E680E4547AAA9015C7559CCEC2823279519AECBCF0314105084C63379D92244FC9839A0EFB778FA28490999872933B0E2CC10309BFCD6070509B3A50C292E45C192E0146BDC1BBF664BA93953081CA46A1A5AE374955AC771E29048E830569423A2FE9A30703992BDA27257F230B924CB82A3780BA3A5EFB0C60ECCAAF64C5AA4F037D229342DAA9089EA1508DDC1C90AC72DBB68D2324CA91AA3F153A7F2902A5EB95A45EA88AD9EA4F62769574071038917CA015463E0252D3394131090A4081247C6B038CF6A095D2A7D4A22E7AE52552513434442B4E908EC65054A4E08236B4A32F054B9598A1E2F48AA88A6B53F950AAE0C183A546CA44CB111974A8D1B494CCCA5F176979B008725C27F233868717502275095AF902F9C91EFDBA917A3A1A7F5AC89F660F4C34A0D648614F8CC3DD9738AF76C63A4C4B64118BAEAA72CE91C4EE3ACE9A847D17E996F8119039198ACA1B2C71BBA11A2BBC05E62B33D2B4F09A8DE917BFD4687A151552FC4446EDCA2EF386BEC16400E41864C19B9E2A603D5B1B756E3CBE5B092327D39B0CB6B01C92224CACC6CCF5C4381174EC995435041CAA07552D55B8A2E8AB77D720BD31443B2C7EE7395A18D378E9E594EDABC504E6C310B8617B9B099AF61FE8A0C726C0334F761EF85C609266C4EB56C12B8CCE7257C0DD96A1390979AC076167F3441FD91DDDA9145AF6183AC5810EB56E2FF85FB9DB4467DC11E70B99DEC0CF0083AA02022BF1A079D580626EB2B653B18E49A64344CC250EF9877D858F248C26E41A28E5952F040572FE800A5C8873194BC4430AB739D56528D1332E14B78B56C47FA0B02FB719EF4003A444C7A4F26FF270A279F44E9CD1C899187CEBE1A620386D53B35540B359A84656B8BB47BC712982309CCAF8BE6D37267B2166A6E42B945762AA4B7684D18022BB247F593D00F4956C728F6977BD197565696C3FC61B6AC2B67CD644B312F992C1AB45C4C6A5AFF378DCC3269622355B436610412CFD92458CC5703FE2B01CB3A395927BE19C8067A793BCA615CEA3C2EA55CF10C0CBDD94577331939E6B7332D849AC501750411223D143DC953D648152005A323DF711009B81614A657487ABD5476BD5D71827CA1B5BA45E9C268C6F826E9263ADFD716CDB842D4F31B2588A3291165FB7D7B3F21CAA0D639D2E1B9981FC4DFF1C9F0590B41661B3936950009C1423153C96351DB064A794CB345E3C46ABB00B061C4EA6F9BF2B53A679244CE8E453170B6EE9375C7DA69056A5345C524BA1A1345D052AE176BF16370DFBDBBEB906996EB41FAD306A9153C0E8D98128A82231D73A878A8117529F8FF85BE6CCA6166CC5B0503134AB298C066C62260DF091A15F598311815F3503965695586BA134847B3ADA551B62072D03D468360150D0B17CEAF0A1496070778C7A75593ACBAB2BAA4C888BB99D9EBAA34F8B02C27AC7ACE0A15CA73905D9582B8137A223BCA48B42EBF28D4360B01CD25D644A6F7E831E155928E971627C3C52A9B015E5D8A86A790FF785C653CA920151AB662C3FCBB18AF3B9CA27F6C0CAE82161EB940FD45555D71FA801BDCF418C5E9879FB33B675D5A27E5B45A4E2A20916C83A1BCEDAABC0AC0666B4A2B403F05DAEA6906E773EE9EB3FF9441C06F86634F01D1C93788A08B76B15BE95B296D407A9EA500D89B191C1C68B7D85763D1C2D2633277AF163596A7EC257BDAAE2A510B8282976BF25936A6E380A778939EE2B44BB1054669A2C5C06C77E712BF2A5B6AA405A1408B5FD2573EF231E2169C165727EE1A19B4C6343F2038537DA304909C1CF81862E9676F1E26D7F48748488CD9AB64BBE3167B442719A304500D8C72128CBEA470942289FC35C1FE32CCC07361BB1591E43E5A4F9076B7D416E5D2325FE0413A0A88984B048292758FCD080B5F5378D6C508927CFEA478BE3F68015B12CC1B05B47791CE7CA8C1A98CFFEA637807931A863B2CBA011C8D8C35DB81BBAC79C5D05171BE83F32E99B4B05D558EA7918A7881BCF516457AD2C3AB72EF2E04E3A4ACB85A987C2F4E474FD64A6D945E85EB4EE7509CC99FD4054DE99F819FDBBB05C54CA6E36DA1646460817A0FCE5836BDFE124A7448E7ADF7B8ECC2652AC6D280E986682DF71";
-        textByLine[x++] = "ct = 1F749D35760848E705D7628EBCFE4D0FF9EE2BB6943277A9F5A0DE55A46022B4CC525E01D54405B85CF799F2040197A6386A92D0ACEF79DDD56F26A6903D9AB37270E982980F20F9F2B795A7E056138236C79C8A2184F20DA2A2B0E3E606B42AE998288EF2A7D450F2601799F87C40E308E0231D5B275C6444E83D6885C2F9071C11CA482292BA84493A7AD95E9F23F1D79B8543EEB95044C13E719DDBA96B6A1E6B0D67F362F6EF6667C1604841B7F982A2ACC37957C9D810D2E6D99546218EFBE9E7CB3B4471279B1A84E687F8EDE0C7801FAA8D0944C1DE4D9D08304437B5541C82368ED14387C69939DA99730BAC380F0938FCC730CDE77FEB6BD6F7FA5BC6B7D131B7C71F3FCE81D61B364E620A8F570CBD6F87EC6DAD73F863DAAAD209FE962E1D581648EB4DA85649927795E4D51ECFDFECB282FC790C111D9213393BF475CCE10343AB1F4BB238F07840E72F4DC497AAB5B18473ED353255E1E484A5BA5AB4A615BAA30D26AFB73C7F68CFED21AD829231ABFD8C3D2A33D1E168D0770971A0D136646BB0D985101C16D39025ABAA62C76CE110784CB97568AD42A2C9508D089F5C12F9EFC2E6B456D33DF2DF5FF00D46D5DC72A216AAABBB6459316CC735EFF0EFC2F8A2D136263DF4F51E777B2D91E9C50B04C17EF7C63263A173E4ED1306A911C7DEAD6965FFF0250407B065199E728C0B0966A177505FEC7D92BA60A1E6A32210E8728E605F7B35B929574121974FBBB5FB332943199462DBD7146E7B048B5DE1788B231D09A1DD115A269A3B20A36EE126EBECA66D8107ED81606B9854AC29EE66EB625F1E8B99143D2529DE6BC9DE1F818B36FEF5B2B29773B3D7D741C2CE150F60B7A1CF33150CB9067ADF82FFD44946885744A0FFA77324011E60B5179C18401D02B4ECD5AAC91A7E0B11579429F6ABCEB6A4FE86DBB5D6664507179577E66B0976C0E2EEF161D8BEA4AAEF78F42378489CDE3382976DEBD378D63BEFF0B3A8C52D1224007F703CD231360D9BF937DEC13789F824BC6BC61C06D5CF3A6C99FAE93D2D0E9C5AE6B58B115C9C0C4915706D36CF89B81F80B111";
-        textByLine[x++] = "ss = 98C0FA44E2A053C1A84A984D8E0ACDFBE1C17FA07F5F8F0C9290337DA969E07C";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 36";
-        textByLine[x++] = "seed = EE762F5C9021C36446706A88EF16312F4A12C725CD7AFFF1484337C91EDA8E89F7007F3705747D29907B3FB7500E5074";
-        textByLine[x++] = "pk = 00D6638044335765803648B2C7583D29185714C06345C8002F97A0B35641A2457C1F843D3FF637FAA04DAD093733811F2B143257C37B2F75BBE8A81B107443D071BE7FF5C8A89548CDC1B11E20C41E1A6C5DDC57D7E72C8E17A5CD82A60B6C8136BC3B526187FC8774F9C316D9B7C2A9B41F676AB6F53B7E436194DC2CBD8EA324E8701D5DD171B4C20054C87970258FDF259F575A71145B1421667A16812933D645BCCC8AF72266D55184B1375BDCB15D87B5C1A9B4C0E4F34526194754358DE8D655104241D2A30C6021C9D3E727D933147385B3F416B2418924E3369DF7652DEBD6A3B0C457FC28CD88355BB1702D802C0E39773896ECB120A75C171069838888B5CB788990A349B44D5E85712CA91AC8A20E2F03A3C119CCCCD37DC783175485BE3DCA1515723FF2AA14D77A216EAC92B187BDF9366AE4DBBF593B4ED91CB79864C9F4CCA6CA85824A7072511B1709A4221B7526DA8602CBF11DEDC601BA492FDE8A5D3BC27C458BB1B994432A61A7A4E333608207FDD700ECB8781887A6FE02702DF120F30BAB2B30C28CEC7D86447371C6A5E99A1C171B64827229527C48B8E343005A58818BC8B9B9BE2125AAE9CA2D640701B5B204DED33D2CDA34AE77134EDA9FC2DB12B5B12742FB4B4B8A22D8D75CB1F83DF409CCDD486303202637A99CC613035EF54257A27ADE904E88C13C91E42E841107BE386C7AD228459298E01A1CD4151D64064666DBC954E921A408975AB6814752045324A3A9F41F322153E2DC1C8255A5E63280FC2210C52176A4C93CDC9693BFDC73156AA319582E8CD092A0E28A1A8148C13A14FBBC745F5644439905119B44405A27CE9CA446872927E06EBEB11C8FB39ED407042BB2308B90379566A18A32B7ECDB6F832C392BF205EDEAB45BF0110AF1AAC076C417923F80CA059F34101D87234B7A288374B2CA0A88950BC722A01EE4E7BE48A81FE732998F536CEEE8540323AE08F49217EA880DE4431BFB74CC80CAB0B89F327A28EB9BA932B523907164DC82C961343088002D10F02AC2647A3A532D5CD796ABE16115724D37122431A57B1E9B2071A63CB7AC6A7DD70D90506DDBB5F53A83079ABA0927BD52A68E278D3F01AC19EBA6BD";
-        textByLine[x++] = "sk = E5929843493C5CCC19F047539427CB993481145B7899259865758538B160C1CA72877688FAC53F0C306237D572D3C11B6A0B05F5F46655AC09B01509D2428E8F7385EBBA74C7777C56CB571AF991F33063B0239120F894CAB3CA804A7E3A5896299601EFE290CDC529B8127FEC01ABFDC930DF7BC345179FB6B150A5B5796F12563DF87B0DCA299D8A2980B5C096B01748C2571C837FF072063C80AC323B05628333227CCBEC1C9E55399BC75739F6486EA379B5E728691FE004037399AC73487A03C3F8A5BE7EB09174C60F01EAC9227A5784D97F0D9420A3E34808844D1772C846C3527FD36FB17490B39698197B644EF15723832DF93C344D3A7C5728043A2734F73943B983A3F9C856AAC75092588A24CBBF7E3916CB8B6309C287FAC67837D63F8FC44DC901697F007AE429479227440F7495845B9AF07192B6667DB7867C6DFACA947310D956A171F15BA73994BF214C426831C3E0C220582E6D4437BBB50055ABCB5A36829F93150B810AC6907AB814ABA0C95439B25BEEB371761803AA619BBC01137969047953A767C947E4E7115727289BB47C8016B30EE84822FB5CE5683D4F7C61696108C5413FCE2A1F3B8378E65215C61B3028F589CE082386D3AE1D01806BBBA89D06ABC2548BBE9A80914109FA892128951D9D8A2E545AA273B8A9EB66C07AF53700A95708D6610040752BB61BBCA29A4A814D2485A48446079496C01B3603BDB6209F77427BF750B1C0A836F89EA5B176536B2C011441B49410C99386B15B2FBFA4A6A93226AF53A047A49D738CC4AF9C30AE026CA24A060895A04F456B19157EDEA36DFAF57FC32155F8C9A59B08508CF880C401A684440269F12F8A0C8F98B930A1190F302818B308174CD48B40DCCD5FB851104B107CE48A62E86553C98570DB342B024DCC5C5C9FBB48989A964771620C06859AC63B92898D218A43DF21400DDB04D5E70C3ABBB890292180D47FD0DCBB348131BA143E666072C8D64D3D435CB57956F5E9142B619A1DA05E205BAB945A79A154CE34B2B04EAA3B0AD6268C1A330D5C34DFFB8116D883CCB4755CE06E2C499C30938500D6638044335765803648B2C7583D29185714C06345C8002F97A0B35641A2457C1F843D3FF637FAA04DAD093733811F2B143257C37B2F75BBE8A81B107443D071BE7FF5C8A89548CDC1B11E20C41E1A6C5DDC57D7E72C8E17A5CD82A60B6C8136BC3B526187FC8774F9C316D9B7C2A9B41F676AB6F53B7E436194DC2CBD8EA324E8701D5DD171B4C20054C87970258FDF259F575A71145B1421667A16812933D645BCCC8AF72266D55184B1375BDCB15D87B5C1A9B4C0E4F34526194754358DE8D655104241D2A30C6021C9D3E727D933147385B3F416B2418924E3369DF7652DEBD6A3B0C457FC28CD88355BB1702D802C0E39773896ECB120A75C171069838888B5CB788990A349B44D5E85712CA91AC8A20E2F03A3C119CCCCD37DC783175485BE3DCA1515723FF2AA14D77A216EAC92B187BDF9366AE4DBBF593B4ED91CB79864C9F4CCA6CA85824A7072511B1709A4221B7526DA8602CBF11DEDC601BA492FDE8A5D3BC27C458BB1B994432A61A7A4E333608207FDD700ECB8781887A6FE02702DF120F30BAB2B30C28CEC7D86447371C6A5E99A1C171B64827229527C48B8E343005A58818BC8B9B9BE2125AAE9CA2D640701B5B204DED33D2CDA34AE77134EDA9FC2DB12B5B12742FB4B4B8A22D8D75CB1F83DF409CCDD486303202637A99CC613035EF54257A27ADE904E88C13C91E42E841107BE386C7AD228459298E01A1CD4151D64064666DBC954E921A408975AB6814752045324A3A9F41F322153E2DC1C8255A5E63280FC2210C52176A4C93CDC9693BFDC73156AA319582E8CD092A0E28A1A8148C13A14FBBC745F5644439905119B44405A27CE9CA446872927E06EBEB11C8FB39ED407042BB2308B90379566A18A32B7ECDB6F832C392BF205EDEAB45BF0110AF1AAC076C417923F80CA059F34101D87234B7A288374B2CA0A88950BC722A01EE4E7BE48A81FE732998F536CEEE8540323AE08F49217EA880DE4431BFB74CC80CAB0B89F327A28EB9BA932B523907164DC82C961343088002D10F02AC2647A3A532D5CD796ABE16115724D37122431A57B1E9B2071A63CB7AC6A7DD70D90506DDBB5F53A83079ABA0927BD52A68E278D3F01AC19EBA6BD50688DE263A82386F39A7B82592247BF5499F1836A3A941413C75F6331CE403179238A80DCFD7C992D84B2DFFA67493E669243D4FA38C46B090BDF86BC548411";
-        textByLine[x++] = "ct = 59905C5BC80FCE9E893A786EF93D757F798EB4934FBB1874C216106AB76C400B2DF0F71F08D648B10EF09C14AD06862532F93F20476D5FA363FB7AE1450DB64F8062D68F22EFA2C266AE23D465B139EB091495A79FC6E72D6A8F81D8062B3B0D372B26FD566027EBB753A18AB225A55238F4F7462AC4C6D7BC0BEE6F6966507B202F516CA50492B63DE6BB3026183AD26DBD37504FCD4FD848FCBC8194DAA3E93C364CA8662E27BB6E7EC8EBECAAA5069792896BADD83158B22D64A3B606C127FC5E98E22718EEDBF37144DD79EFBFD3F4FBFDECC9950D717B5D3F28E0C3BDF9FD680652D51526A0361CEE60AC4753B0E68C552C2F61C808821E5D13B8328275395B6B6BF4CD6B7A57079B1F10F2271C401F2B76B81AF6CC14D2D37149616B764C5AD450DE8FFC2D15A16C17169C920D5A37A2F97C6FBDDC6A5BF02A6C3CA88D30E60D2C2C237FD5197FB08EB5ABAA4C16347BBD798BAE761BE797868B0E5874111E9B11BFABD29CDB8E147EE09D7ED7473302DE235CFBD271A6BCB8B521BF3109FFEEFBAC9FD08F2E08F1AB1BF914F72920D301E56CA9ACEE22D3F43FECDA982BD2F79AE9A80EF75F1AC7EBB78C2F2144A3B3939A89CFC6A87202E8FDEEC5B9ED198BA5837E35F0A151DC3A7C059F9E00E919CA941DBECF854F43A71B1E9DEA06D63D456F829477E9ED4A5BBE6E84D1FD6F6E0CDB055CCDC9534ACBC5F19E299E1DB7ECDDD3700C403140DDF62EB96CAF7ADAF64C7A83226058880C3E5B9FF209FB3F5ECEC4B485A729F70F0A0D4F4FB01D80DD7C7F6800D11C4F42C246D8909935E5636ECF0A5B9D5D1636889D3AA0993B3AD0BDAA6866CE13EBC720EA7726636887AF0E38AFA80D4ACA16290A1343D6898DFD3E42D4A2B7B4B7686811CEF6731E9EF72E543617F078E69693DD3E92696FB81C1C2AA44779AF57AB59A28D9E8CDA74C0CB4AAC8BE07450BFBAF25F983DDA947722A3EB4B2C6BD5AB6FBC6359BF1B07929B145EEE28AB99C7F1656E1ADEB192761EC72A74A1DCAB20A17FB222801D95F9A2A26211968CD88F0D33042CFC945410DB96B9828E22E346971B7393";
-        textByLine[x++] = "ss = 48AFE1582C88F7E89CAEA5D594665C0592140F0615715D158B7FA9AE1544C6F5";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 37";
-        textByLine[x++] = "seed = D882BA69AC8BBC88715F1C6387531F53273A5DAB87E66FAA8221A7F628D2BDEEE1CBC59C0E08D0ADD84520A3A70C1389";
-        textByLine[x++] = "pk = D9F893E986491D219B6070AE339C3114E1A64D6C61353411BA2008EA358749866018C802D3DCB05B0C5329A691F57303C0D724FB2A1121D264374AAB2EB209412941F7E39EAEDABADBA71494863F79E34EDA632C1DA77EBCA6283311310F4918C69C6C5036A47AECB3B2433E8991B8D0BAB01626034BE96F31A41D98C1A2D3354F47E87B9053033B82A6A8F6B167E827CB1C11EBF4758AF8C70FA98DC1F35B353C54B5552A0F37257367BC43E263E8A23284B0982CE8A6951A4AE5924D74E3481A4BC141F0A85E90C06E97AE64183C0F469DBDCB081DE093DDFBAF9D4318A24615F8A38D1477132AA5C322934D5E92C89ACB29AA85292C7971E61C89AB484E69976A57C2181ED5450260C05FD957163C0269E9A3AAE27114A5395E398CBC198F65B46BC2108150B40493532D63A35F1882583FD16D5DE1BF0A7A9C82D9717BAC5E31A15BAEC1AFCD94A352C01DCD73AD51852D618490EE5993DC617E0526556304095657274A738BD4620E80280C828C17D31892FD174A4FD8302D705CF738126C352899026D8795C9AFEC77F39C87F1567120E70D9211B73DAA813497397C0ABDBEB7124F942DF311067A0AC03FD3C3E8641F202765026B7FC5511754481BC8F227E362CBBCE579037C4CCAC5564C015318E598CFCB538F1558A1B55E4BB61C372CAF23C2A1EBA52E7ACC5A05F129A469BED6688788C2C68C72B75CA413B7496F3C2505EED19BB2962D82436C16C29DB904B76CE5626DA57BEBD05BFE838725052D1103202E563DE581151BBA7D46E1CFAFD50389A730C9A3C56D88030BD397A9D54AF0E763249CAD1CB0427580853B3572E705BEE6F1BB1F4232F6EC2AEC3059D777209DFB32710B9FBEF71203F5A1EB11507ECB98E5E4CD384124531490E48A0BCD39BE19E21C424C726DBC1900EBBC1BF155256A03A89B3D0537B4E00988447CA3C02A65AAA2AD5BE40825D207FA683B9D915A6A5A1E8FE20B0CBA4EA14378FB759E1A064AD93B6E5AD712BE3551C9D4A4B0819EB7420A4A54CB912888262C7035B34B2DF43DD508979C555F0F0AAEF43C83A65BC8C298534FEB95FA4949003197C8F9C878A367C021DB7E9273FE2E03A2716683DAB6CAED5C770F6E7984";
-        textByLine[x++] = "sk = 8977C913909B2F2050958B52666C3F7D16094A4613E8B1909E1838A3763991805D58AA1ACE8209CE5CB8849A98A1616B36778F1E138ABB5B2FCAA5AD2CF5372181477F7A4A7BA4769CC0758D911B28E447F76947CB5BCEB39359BDA2050A91186B37469295040BB6753D043561B84DC345607CE94A8F0693C91096A4C9C69155076490901F85B321B175F808C76C9698EB9036B4645081051A6674B4FE6B90E3E0753E032E6E72B3DCB07671D300E7DC5FAB7275719410C685B4BCB885ADB74DA7DB8588E54C280B82CD41A7F85CAFC877C6DD212D9A889D8DA091EF4974E7E0AB1112A3CE0446D8715CD309020184660D8A7358D137C825CB78A2C202C29E2DBB10271275C5225FD8A57E34B54E7700108E83436E712944848A6A0A7098F1864A42068CE81126895087A96C4D0305EC475825F44418265C5A6769F5D86D463BCFE0F324492716A862859DFCCC8781B2E1CA516866847EE3AF99C94E41EB9CA9303D6C6717B53444F3F1A48CC66B43883C23848B9CF7902A4722C7C9BA72DBA2A1D15B6A762A9CD2182AC927E63663243571AFB78C2B00095BFCC889C0B563C249FB1481CC7A4301A6AC7EA8CA194A19C8859505B267DC982E4F339802B997E183115798BC9B104C18C04C6C7727106028B20112D7B0C35E43246F573A0AF1793848BA4B412BC5800E5AACB1A197B29AC4AFE55567A990176002BE852360BE346019C310FF8C5ADEA09FEF258EF560ACCBA00B15321E48D6CFD3F5CE6FAA85B2D6AF453668504989CBCC4FB60B36CEDB2EEDF36E400491044C3B89440D7C2A1E3352C0E9D616FD4C58898B57D10A459D609DE4E58249F172F8549A4553AABF6671A0342888E954270A78C132556F333C07245A54500C5A5B7918D0411447B971901B17BA57415A3DB56C597BB4B7E55752D0BCC6356C1566C01FD79C64AFE59B8C925BACA6ADFCA4A2616A9F505313C3E01E13700736D8541F406248739FA6868BCDB3954E226287C0C4E7285EF7E040322944C79CC95106052E9289E9A14A087069352A6A0738699A37CF2ADC46F13359D7152D0D98217FB3574E787A0D9003D9F893E986491D219B6070AE339C3114E1A64D6C61353411BA2008EA358749866018C802D3DCB05B0C5329A691F57303C0D724FB2A1121D264374AAB2EB209412941F7E39EAEDABADBA71494863F79E34EDA632C1DA77EBCA6283311310F4918C69C6C5036A47AECB3B2433E8991B8D0BAB01626034BE96F31A41D98C1A2D3354F47E87B9053033B82A6A8F6B167E827CB1C11EBF4758AF8C70FA98DC1F35B353C54B5552A0F37257367BC43E263E8A23284B0982CE8A6951A4AE5924D74E3481A4BC141F0A85E90C06E97AE64183C0F469DBDCB081DE093DDFBAF9D4318A24615F8A38D1477132AA5C322934D5E92C89ACB29AA85292C7971E61C89AB484E69976A57C2181ED5450260C05FD957163C0269E9A3AAE27114A5395E398CBC198F65B46BC2108150B40493532D63A35F1882583FD16D5DE1BF0A7A9C82D9717BAC5E31A15BAEC1AFCD94A352C01DCD73AD51852D618490EE5993DC617E0526556304095657274A738BD4620E80280C828C17D31892FD174A4FD8302D705CF738126C352899026D8795C9AFEC77F39C87F1567120E70D9211B73DAA813497397C0ABDBEB7124F942DF311067A0AC03FD3C3E8641F202765026B7FC5511754481BC8F227E362CBBCE579037C4CCAC5564C015318E598CFCB538F1558A1B55E4BB61C372CAF23C2A1EBA52E7ACC5A05F129A469BED6688788C2C68C72B75CA413B7496F3C2505EED19BB2962D82436C16C29DB904B76CE5626DA57BEBD05BFE838725052D1103202E563DE581151BBA7D46E1CFAFD50389A730C9A3C56D88030BD397A9D54AF0E763249CAD1CB0427580853B3572E705BEE6F1BB1F4232F6EC2AEC3059D777209DFB32710B9FBEF71203F5A1EB11507ECB98E5E4CD384124531490E48A0BCD39BE19E21C424C726DBC1900EBBC1BF155256A03A89B3D0537B4E00988447CA3C02A65AAA2AD5BE40825D207FA683B9D915A6A5A1E8FE20B0CBA4EA14378FB759E1A064AD93B6E5AD712BE3551C9D4A4B0819EB7420A4A54CB912888262C7035B34B2DF43DD508979C555F0F0AAEF43C83A65BC8C298534FEB95FA4949003197C8F9C878A367C021DB7E9273FE2E03A2716683DAB6CAED5C770F6E79841A29C0F2DC4089A85DB6865EC90FAF2F4DDD25F210EB56E49741866BBCA8CF811F135CF64B6403E103AFAE34DA038613E2853BBFC36BAAFA3C6A95347193F37C";
-        textByLine[x++] = "ct = F648B2208405035A7461454370B1FE623177A87EB4417F301955D7C4F77D357906097E195F31356A00B79525A7ADB451A19B38B249BA61C8CDEBD8F47DA40C214DFC70A6E1A810A368E5C85C3606D01ACFBCA060AAD658EAAFFFEB0852D155997706BB7F784F3319A68A3F13554C6DDDC7D30C5F63A4E7A87515641638289C76967D2EE2F93196EF21C9CE40B2935F6359ABC6D99251E4EAB826601DA95C70C3CE6BA170F70B7999DC49B4E677307EBBA035F328B2ACC2D21A228DA9F4DCA16B4C96041430555889FE4A73F6453953A717D1C2BC7C251A3DDB0D9509F198CBAC577A9E33681865FC1B29A250C578E238C9E4668476169DA20E5051DDF03BD67856AC1A513E7466BD44555533024FBDE83AE3FB7275B7131391DD485571D5B140228791DE1CC8B3EEE88F387B8BC93085C8971E092C2B81E9062C3ED84A5166C654ED4E9403C4875086A96E436956AEFCBC86C0E47117F7DFCCE619F5291A9FF2F0DBA7D874EF8F6F0D69811B2B4D8A99EDD45E36AA7E298C9418CAA7CC790FF8CD76245BF1B747833FD534875C7D74250708BCC05126732A549E19C9FA510C1C624DD0536000F1BC84E6A38CC4148588CFFEC293D9FECBD592ADFD3F1724A394226261A985166EE25618D31893FE1AB7D75B778BD617C63A708E2DB72B9B523DEA595FB4AC26DD8E2C8DBBFC8D6A6DEFF030C0DF2C5E4222D4020AF75B867BA61EC4246B30B4F6E21347FA72319108C9B7B45F72ABB094998FCDEFBF28CED5E2D4C1469BD65E6C95657D67DDEA976CD313B601BCDC2587BF3A623FF509F58ED7CB212B4A9C5E2B94358C5F53578F1CAE4532F1BCF0E53352F0C027FE25C0BB9C7F0C6DEE7E5797F69CC2301E1C4F0B9812550D4904C40689EF4F391021925290A5FB48665FE4556CBE96F38EBDAA00B2C3424B3F777498F821186075A6A8272F943E831A5846F7EFBA7652610B002F0966A21A23131E9530F4E8AF693D86F8BDC79A103501C609FDD5F5C60F4505B14A14E4F5FFE0BE8296EECF6C465F43706262272D1C7ABDA495833C58497CA2C75F9D7D342EE3A2DD7C6532F1B6E765DE5B";
-        textByLine[x++] = "ss = BBC34EB1E6888D28A44EA5EAF8A85490E8A1E79DF5CCADC0836D86A0DC86B867";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 38";
-        textByLine[x++] = "seed = 6C3AFF39F5D097096D882F24717718C8A702382DC4AAFFD7629763FDA73C163CF084807BBB0C9F600CD31A7135F48AEC";
-        textByLine[x++] = "pk = 87B3281828644FFA865C43BF25CA3EE561118497BB2C1A04C50B89ECB6B8F173AC78C0380153B55D551492A95F8013B28D38710EE7B0B3F75CB0307E22F1986B65C9A890BDC7846E71B926EEFC4814B255A428CB4DE94313DA24A17973E5D679AB44057E664217A54F6B16219BE642FCD16B35952F0D2A37F37692B34C3639E9400A15C245986134AAA3E0219B98383CFA7223ACC31B5A05060BC1523D32C01239C9DF8338D8FB2F998634BF71187B3C458D155B01DCBC20A7558D6196B7E0B0FFF5C856077853206DDE97268DA274FADB80AC727555E156EF640C2582C4358AA8CB78A55275393DE19792CA0F6F030E2495CF1D169E3B327A2CC17FB87BAC4FB92F603C93658C2135322B58A4BBDCC95E56F66104807637D4232FA3868AF473355860F9850EA5B61391A8C20537AD23367097B1911EFA5F74767CE9B1516936A11327623D371E8D64A753785D09F09157697A48902D4121673E2B904AA94D845A5F17E90BBB60B81FD591F46C576D14383B077A2F78CA58F87F2228B09035CF56693364878E91822857F40FE1F2C818700D26B882E58A3EFDE1793AC428D9FA8A94F62BA9FB16AB867A146CC1C7C0A0D45A32DD074A4BA52232644049CAB06126ACCCD996C255A0C0A5464AB65706D78AA60363F0097380D17A6F6369A5DC55616950918B245BE7A1A3656FF4075ACD957E1DF062218BC84887B74DA635D9011BC02824603007E9CC594387771AB84F7BD065C741185FAC84096AADDEBCA179355DC365516EFA4873E70159E28C714A4E1149BEFB0A18AD6098D5115419DC4779400F8259C7CADABD41A7A270E5C91A616E5CD0B05976979967BAF943B592917BEFACA4D6827A4A545FDF584B8A48B6FDACB1DE775BD259B083693947A31D91BB775E17C86CF78DEE79B969F487E9EC5E19A34630F991A3D235B870896A558A5FB2CCD7D13885969D2037BEE23B3DB1025BE64B3A5FEB95DA076019B65685186A445BB2387AAD029B9DF7F1BC5081A7423C267978C295F2653C785293D65406004806DB9F98A8A7D12BA7B87B8032E0CBE218413DA907641593EE627831283F449F94385651C3B4C0503726CAFA118167110E848FBED995526B458D362061A1";
-        textByLine[x++] = "sk = 57343B70B6260FE3406818ADA3E422AF7036F631C500409E82CA670F894607BB0B067AB280A99E0C7047572CA703DA89429559CCB397EC7A6E779ABB69CC0EDD022B012A30A978B52BC28A1ED118907607D3F81E60A91167A066C061BF000BCEBEAC072C23738F13B84960C630B81DA0D724DFC1C67C42115717BBD51BB974502C11840362C033E1D3C1B9887ED14231A7E54DD9830ECE994DFA0117412270A830744358C4FE460A84E01992F92739D6A1A5A91AF002371834394DA3C8D83022519C292554687D02A35D7517FBC4CDD916845680995F48CD272755DBCC6128039ECBE00043E54A25F2B7A5A14CB48776D278C55CE79D8447B013F063C4B17AA5B8356601931163686C1C6764B0233FD80F0CB6919D19C5A14C41FC7AC0DFC2726CB54A4DE38399041668BC88BE0A721E86C5DE0B3B8DF862AF7084C3176E0371A704A1738B8C7D0F163BD01C1CFA01181B3BC9D97BA2B8596187679986452FCEAA99B2E26F0E2C6AC0CBCA10DB625FEC82363AB746E12DB473755B0BAE5A71574745C1AC1648FAB92675735F5B855837F0C47BDCC23A3C6FDC5550B29A75740C34EE1A42A847756D892FBC2CA334D06D6E90216E2C0884B9444B07C788C08FCDA49D95A4A1A13947B3FBCE992B995EEB8AB5CB65AD4A67A9335E1B3A53A7431F827B0FB86218274833EC7C00852CB6A4C88E28A99FBDC635119672E7B62D32138FB815CBBD29A7D3005685F61FA8BA60890A3DBDF58EAE85310C776216D43C90CA4D68A0C7A2C0033E694BD48C78C48870B3294F6D03B6A4610633211B03A28A6F89B86743273193A6A8521034215B7CC27E72F2197D9482F26750EB6A414A9AA6B05054B111A38ED901A4C479473484FDCA8C5757121733C67D953047401E9FC7AB1E06A01CF509CA284E5DBA7273644A8C1B3F1F2C52B791910CECABA06B391CD807E0752D0587565D20680374BFF2E48711E76155480EEA54826485C3A4C12DA01A9EE3F95D27A2BF6187B625E72CB02191FC9357E724C769624148A71BD8B36B169CCF23D265796120DA0328B6FC4A6551BC91AB809863BE6B4A1ACB039887B3281828644FFA865C43BF25CA3EE561118497BB2C1A04C50B89ECB6B8F173AC78C0380153B55D551492A95F8013B28D38710EE7B0B3F75CB0307E22F1986B65C9A890BDC7846E71B926EEFC4814B255A428CB4DE94313DA24A17973E5D679AB44057E664217A54F6B16219BE642FCD16B35952F0D2A37F37692B34C3639E9400A15C245986134AAA3E0219B98383CFA7223ACC31B5A05060BC1523D32C01239C9DF8338D8FB2F998634BF71187B3C458D155B01DCBC20A7558D6196B7E0B0FFF5C856077853206DDE97268DA274FADB80AC727555E156EF640C2582C4358AA8CB78A55275393DE19792CA0F6F030E2495CF1D169E3B327A2CC17FB87BAC4FB92F603C93658C2135322B58A4BBDCC95E56F66104807637D4232FA3868AF473355860F9850EA5B61391A8C20537AD23367097B1911EFA5F74767CE9B1516936A11327623D371E8D64A753785D09F09157697A48902D4121673E2B904AA94D845A5F17E90BBB60B81FD591F46C576D14383B077A2F78CA58F87F2228B09035CF56693364878E91822857F40FE1F2C818700D26B882E58A3EFDE1793AC428D9FA8A94F62BA9FB16AB867A146CC1C7C0A0D45A32DD074A4BA52232644049CAB06126ACCCD996C255A0C0A5464AB65706D78AA60363F0097380D17A6F6369A5DC55616950918B245BE7A1A3656FF4075ACD957E1DF062218BC84887B74DA635D9011BC02824603007E9CC594387771AB84F7BD065C741185FAC84096AADDEBCA179355DC365516EFA4873E70159E28C714A4E1149BEFB0A18AD6098D5115419DC4779400F8259C7CADABD41A7A270E5C91A616E5CD0B05976979967BAF943B592917BEFACA4D6827A4A545FDF584B8A48B6FDACB1DE775BD259B083693947A31D91BB775E17C86CF78DEE79B969F487E9EC5E19A34630F991A3D235B870896A558A5FB2CCD7D13885969D2037BEE23B3DB1025BE64B3A5FEB95DA076019B65685186A445BB2387AAD029B9DF7F1BC5081A7423C267978C295F2653C785293D65406004806DB9F98A8A7D12BA7B87B8032E0CBE218413DA907641593EE627831283F449F94385651C3B4C0503726CAFA118167110E848FBED995526B458D362061A13FFFC419D3D8A887FF789EB661B2AF1EE5B32A302CA267B33EAC2EA7E3340B9762D7033947AE42CA53522A65FBAFE18D3BC3E0CB66164E9A094FE4B44D8977ED";
-        textByLine[x++] = "ct = 9B98392BBEF4413F814BEDC0269BE2A891B4DEA2E8A5A2FEBB2733D487F7231DED412CDCAB4265467BA4B3485FB4184327341012069C49DF4285202419A214BF1CE8E16C15C9E883F7CCC53C2BE4E32C801E7DB2F9F6E1B8493AFCC9280E9179C1C5FBFEC3C948C6A8B5EBB1EA84F634D50BE574028DD003F21E14E3D2E8635A953988314F3C66B387ED7FDE62C2FD7A9346A4C883913453A476E58AC812B14AE045522B8D0924A090B21A8FE7E1108EF88F4C9F9308B11E251252ACFB3324D3A8F2246D7F7FD8C231128D0618C8DA09DA986E2358C013105E6951DD6FA6F489D63F0874283CEF7EC5705747D9AD378A3A89384ACC70A6440008603DA0AC4DA5065792769AC7F1A127D7A564201697FD9F08D7D14BD5B5F4D99A1DC544AD7BC74E26ED1555CDAF887C0B2889F879A93BB796F153568BC4C1C925799F1A359E3EF3D86B24F3D1C6F0E81784EB4BC796F713F884A430B8462594E0A447B921E70B40720C4E375111BA61A7017C13101E9D14A2E1C86D61FEED243956331134C77872B3F5402C0FA0031AC820996D6300F07A3426681B3E31ECC047D97625A9E3583D384FA006FD4341BB4E3E6CE00D38581F1B8C8F12B9C8C5CADEB210E734DA5469F761853C0B235B83147BBCFA56DCA23D8817A51DC5FA7CEEE32D3581C2834326449D95294724A7C92D049E8A8D7226974A9D1325D835F6FF4C51B221034C63891D236B2A391A62271D4D34B4C416E245DB25B31715E1E3852E407306B7A7424ADFB326A18C01B7129FE63B4B3FD181DCC1DDA171EB80FE6F5003DDDA87488E058153DCC8C67D1061EB5AE418A8B6B00E17F13A088280940460121F56B406A0BD2AD53711CCE7F4E67DFA3ABD2CA05D506A320D9073F854AD55F1E1F7612CA34A01D11E74B77DDC1A7879862D956222C6A7549161AD881D5FF1A6C197197E6790EB24993F853B3F8D335BD5D817CE9D945ABFF477751A2D5352530885A5A9856018F4AE72A4D17363CD09D58CED0B87C4A50BCA3B86D708A7F657D166CEED9626E72E47B9A967325B0533C58179269C62EA22FA80576C052AB0B58710BBC0EC";
-        textByLine[x++] = "ss = ABDE3E45F9CE3C4E18F9E224D77F24CB1661B4AA4850F517B402BB4EDC8E50E8";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 39";
-        textByLine[x++] = "seed = CF520B92A2E3677AFD003EC1EC6EF136A709D78F828C9C0DD4946EFBD451C5FAABFC83CA66F9D3D17EE4220553B7A69F";
-        textByLine[x++] = "pk = DDEC85C013CC70746F2B268D16F48DB17616367981940214020B87D2DC9D17BAAA25F4C8E10BB788F839738C4A2F14309C786D3D3AC4A56C6838B54E4DE4837979C5FB715428542F5E49B6D5C762CEB26C2520863BF025421A29F854BB52B3A5DECB8A5BB7AD23101A254B89FDD95AFCE255EAC087651A588E8CAA2D5512CAD48C9041A7C6F06DFFD86341E62935A6AE0D4907CB3A6E4E223CB754C15E2C88D4E13CEDE42A636724568A1F4507ADC8D0BDAFC91178D260C262224EC8A176EA573E69C057C491D1234E4F39A2F6C4283A40C70223539697890CC5CD935AB8FEA89A0AC513CB12C83BF6BE1DE55788F8A434001B7233CD3FE859C3EB3AB0D15067422A5FE1ACC2286F59B75111672A3EA24515F9157835BA868A6219D2A10E72703ED6B066C036D118BEF4598D76D08010967305199E3F46CDFC41AE1565BACE1C52BCC89628A84F8B74252566917D440718A48226B4BB2F29C0E7743FC2FC5A3252B93053C0BD1285ABF907601B93C83399B104B8B2C06ECB1CACF37059016683D2D08376111F4ED13A3204701271ABDED98BBCF5141B12B9455687E66ABFF877AAFD507D01395E7DA932A2E386947B015E3896D2A38214443D169B565FE8CDA1C305FA668AD7D57987BA95A4E8A8E047A6039159F9C94B6E896679C325D2298A2896B256F528EE7B114D0101ADC255C893530BEC9D1AD397C6776EF185487E6140F2749AF802CC1ED60069585D316959B2BCA22E224ADAC5B54D0655C0939F3E29C864D087FAFAB871A29AD82C5533B40F67D672A16581C3D05AAEAB3CDB0636C938C575C611095504FD200B61293AE1AB3C8895B6EAA64D26617AFC82C6821A5B1AE4830C526777F1B9D6BB271C48128098925D607D507C9C7382CD2267C4ED7C6E4320372DD88BD5A9A50737663998934B70017386784867C5B9B11AAC66C1AC3BB1793CC02DF88E54A41A3DB8603AF791AF157665B88B0B9A075F5A805223754A2005C81AC211967A43D7BF625069D098058DF21ABAB95CA1E57D2D6583CFF926EAB06AA139A3DA3B9BCA10C9DE93BA6C6346E76A88A8E1288DEB6832603B7FD32A677F68DABFA371062D8B8CE9DFE0D90BF06044AC3A840CEB626B16E134";
-        textByLine[x++] = "sk = C4F46B76F1730B277C1065622E85451922164498242B836E0B389D25919D8C818E67D64837634CB133BF64F9931EA5B79A16CE7A8826E29C817FA83860177B31198161BA4E2BA142C1E81D0D4347496CB943A2730C3784DA86370E51C8000891016C2FF6063F0551AA2AC8B2A9D374EE51B7E24C9A67F47449B0469D75275EF04997334482F8BAEAA2A627904A6D8429B266A4573AA0E9435F65CAC4BAC46CE162262B59CF4AEB79FE17B68544CDFE1B4FFB6B205C131E73091B77CC073E7C85A7559BE923208FA6B90D6A3E4E69BC7F486027B2AE3AF86896F060DD622777A6768E5406E8943FF1F9254A36BC1FC4178917C46B10C5DFF69EA8DB2488FC4769277D8B6A4082D8504FEC5B4F291532112179282CC740A4DB689BCA79C1BEDA6E6EE861F3243C5CD23B18F59B5588C027F2392B143ACA675C844975AEE455FB8738C1B30543775804034CC01A9E3954967E552DD0B55C6CF86D71234830E453DC357B45C830A162B990F7472C203034341FF5DBB14D61131D35356172CEBC60C2ACC16496D1182953316BD6140A2AAF87EA6BD8002E61F346539AB1E965CCFB607DF0296E258717CE85155FD17433C712CBBCA74B9533CAC87D30A4764142CCFA610B612ACAFBCAB41B968746A5719014A9D7E840E0E1536DAAB3B12BC72695875827963A05BA0CE61AA4C0B5DA3224EBC42660F87F80E55EA3D23219C5C28779C8B7E287771613F9F30075202225D1BF98A1213687BFBED25DFE61C8E2753AD428C7ECCC8E294579AF021763D1BE13D93F9EF8CF4B700B75526ECCCCB24FD727DDAAADA8A750CB7211EE8AA7CA5B05F06020C14C332FD02BF1C8881C2830F73316681933D84674ECD9033FCB4465EA2DC259522C4B6B14419C78FA2F4BF6114E9C4DC4DC5A6040A01911C18705C7D317252AAA1631D17E28F2CFDC7C986EE2A8D934819FFABCBB7CCAF37A0D42B22E71E609B2873F76AB42BF841EE8F51F3C2B440234A4C344581C28BF5AFC9224721EA8A8CC095680BBA4A561A8CF54982E882A806E541427B333991646CDA51ABC3342E0956D4164A96FC4A64303675862C0DDEC85C013CC70746F2B268D16F48DB17616367981940214020B87D2DC9D17BAAA25F4C8E10BB788F839738C4A2F14309C786D3D3AC4A56C6838B54E4DE4837979C5FB715428542F5E49B6D5C762CEB26C2520863BF025421A29F854BB52B3A5DECB8A5BB7AD23101A254B89FDD95AFCE255EAC087651A588E8CAA2D5512CAD48C9041A7C6F06DFFD86341E62935A6AE0D4907CB3A6E4E223CB754C15E2C88D4E13CEDE42A636724568A1F4507ADC8D0BDAFC91178D260C262224EC8A176EA573E69C057C491D1234E4F39A2F6C4283A40C70223539697890CC5CD935AB8FEA89A0AC513CB12C83BF6BE1DE55788F8A434001B7233CD3FE859C3EB3AB0D15067422A5FE1ACC2286F59B75111672A3EA24515F9157835BA868A6219D2A10E72703ED6B066C036D118BEF4598D76D08010967305199E3F46CDFC41AE1565BACE1C52BCC89628A84F8B74252566917D440718A48226B4BB2F29C0E7743FC2FC5A3252B93053C0BD1285ABF907601B93C83399B104B8B2C06ECB1CACF37059016683D2D08376111F4ED13A3204701271ABDED98BBCF5141B12B9455687E66ABFF877AAFD507D01395E7DA932A2E386947B015E3896D2A38214443D169B565FE8CDA1C305FA668AD7D57987BA95A4E8A8E047A6039159F9C94B6E896679C325D2298A2896B256F528EE7B114D0101ADC255C893530BEC9D1AD397C6776EF185487E6140F2749AF802CC1ED60069585D316959B2BCA22E224ADAC5B54D0655C0939F3E29C864D087FAFAB871A29AD82C5533B40F67D672A16581C3D05AAEAB3CDB0636C938C575C611095504FD200B61293AE1AB3C8895B6EAA64D26617AFC82C6821A5B1AE4830C526777F1B9D6BB271C48128098925D607D507C9C7382CD2267C4ED7C6E4320372DD88BD5A9A50737663998934B70017386784867C5B9B11AAC66C1AC3BB1793CC02DF88E54A41A3DB8603AF791AF157665B88B0B9A075F5A805223754A2005C81AC211967A43D7BF625069D098058DF21ABAB95CA1E57D2D6583CFF926EAB06AA139A3DA3B9BCA10C9DE93BA6C6346E76A88A8E1288DEB6832603B7FD32A677F68DABFA371062D8B8CE9DFE0D90BF06044AC3A840CEB626B16E134F1DE70B1072881EB659A5E890A92C9313C7378D2E960A060B9C918260D4C245801C8E376FDB140EE343106C093AF7CB149B316BA79446CEB4E5E0CEDB9B164F9";
-        textByLine[x++] = "ct = 314A8B90CCC53CECF27771FF9049146D4C6C91AB11AF2674B44DEE6A854C432BE04DFBD63A01869F58A5E21D3F80B07DE3515563F7145D44386F862981F9BAA0175C1AD77A57946BD5C3F08A0A7481C3F77B27E3CB295AE7F041B690F1554C2CA3A95F29CD414BDF403183F6F4BC9BE3306A003BFBAACABDA29C446D818FDC90D9CF7FACD418FFF84D9DA4BCB8EA2AAD9DF12133308194BCB901D27A8BA2107A7D08D415229155F2F38499598819B916E6F411B37E3B02F655E2D3A0644D2B65861B557CB0DA2DC28CB162FCADC4967125026E6992B77478980DB24138201BA5A729955CA9230DFCAD605B104ECF350A2E0B6EAFB5CF72726C3A332AD1EED6EC5254940DCA715E10894B242579576B7CA34690920777786687A36868E2D0160723D8D5E17E21A5D48D8062BB4A0B58D595B51A9227F34A7BE8CDAC54FED23BD443593446C7B8C7749557C73EF99BF446BB99D4CFD74323FE5C89C5493B9B596F6853D233E90368D9C1563AF425B863627C97E2797C1787AEADA984A5A090284EFF806A05FDFB35D0C226EC604E1A0B9A8F9519DB5FE566F7DCE7CB87A9BBFEA6B8FA74242523A7C2463A038DD0320D29A01C17EFB512D18F8481227F353F8EEF127035BBE2780EB500D8521031B9EE3C21D7259EC98BF0089A12FEEF21A2049C300CC96849AD0FE8E0BB6AC4C0662E9FD2485F2D65DD16D2041AF83108F92011C72C8CD8DC274D4B09415B4A9CFFFC2A3EEC80600AE7E5284ABE09A9D5BBC5A094C58366E1DA560B58728BCA399E819FE3C0CCAC1D2B37589EF386346E41122B7B8D0EE5A4D073D864B005C324B3532509D9EEDBCEAC1DD9116D07241CD4F054872428AB5DD5FFB1F96A6307DD39CEC099508249C62E1AEACF74A8E9240201CECF6CD0C25C0217941777129A7AF42D964251D2BC6F5FA46F4BE880CACA43226EB3274C125E8709B0253CD7DBD3ECE14D11EFC9D5611A1E99BD00B5C8F42161E2708FCE6D703E9FC79955496F55818C8AD3CC279DDBAED7CFC9C016842ABAF5883195A67D5E271B8A7CFF63BAB373304CCD9DEB6F9C7253545DA2BA03872F0029";
-        textByLine[x++] = "ss = DAB67F76598E58E51BED06884AC65105A9051A2E4DD876671B0CE67FE49DDECB";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 40";
-        textByLine[x++] = "seed = 197E5D562DE7E01BED4FC597DB28DC6EFDF0179F3A5BDA5F94CAA39D67BAE730540534D59A7A06C8448F628DA8B7859F";
-        textByLine[x++] = "pk = F839CD5B3685E864C874197E1BF074D30C41BFE01FB82085C8F5C43A26343AAA9184A095BEEB6E01753DC7DA7482F2199DD798D17660C5CCBAD047978BF0A62D3B9DDCD92487F9103F00ADC8FC9CA566A9331790BF93A1599CB3DAA229F5BA8D2E33A8C7451130E17C9D4C91BA2CB187495C9A9A9916700E4F8551A4F8793A6C7E85327012BB8C2F756FCC1A4BFEC39181E8BA95447282755B7C5C8AB8B51FEF740B0ABB7EF3BBC8DC00599F711B47A4C858798A76494ED5F01796C43688339DB7C40D06CC7D205B5A6AA3278F561CFDA647F8961DA7966EFD47B433650CA5405770F5742B919C81356D0DD2A87B21BB9DDA76D0B330891952C81C5D84761476063B452A6503F7565D406FB60B56CC14A9734A297283B2601536FCEA5A67C42EAD903D22B672D4828A93E2A321FAC920771C1D038AB40075771A9F0EE97929C69143808578D114C5366FD0B7ABDA8A7ED521BDED7BC6E231057988C362C5BEFEE06895F89B2637C2866BCBBA39B152651D5BD912344A9B68145E2AC69ADB853D06F513E108105F65622EE25750595A4BF983AAF45921454E70A06CA392A78EEC70FD5685B83A0532F4AECC8A09C2468FB2037F73FBA689B82F590891BC087CCA35772596410969569060A5D5EA0AE34B0BE06CA8DF188CC458CBFF21615B1A4E0259925CB3012105AA50B494B35A45D4E9312038866DD4131FC4578674273E182D7A1A1BD049076D70AEEE016A6C1C520D2BC404EB4FB28918F1990024D579175082EA9795F0616E584B2C7F93AB33944401C7BF7EE64040A3336CA5906E89CF406512539C8579F078D957A2F4B625F90561BE79BB59244B0537A41FA0202072AA760A0E34E94FA751A49D68602D97C807B9992DD637C652563F7317084946703171DB7262F71737518C52082966F96CC386E30BB6F89D02B93F8DB8B9713580C7C62C06963A18681A1FA54A20D774E40C0ABB98A6DA5A148377A264D0CB705710F3F708955B16E8EB22754B26522519BA833FCC3000DB88030546298B610451B50A247885E6321FBEC37B2572A246E181DCF97B3003727141194337A108A2280D2DBC2DDC739F6B876472EB12CE233CCD402DDEF61523FD6FEE69A88F34A34C";
-        textByLine[x++] = "sk = 22F7AF6DA8BFE284931C0A69AFEC56C4E4378C8B563CA29E2B88741EE94875429006F26630BCBF0BB9543AC427FCEA1565243D876426500BAD4B171D3E31B1F538C5D4602195570EE02CCD004608216C9B864C378AC308B4E0B514E423C96C2BA1B24F68843892B825B4105FAA1342ABB97488BBAE4ABB29A7CAA75A1B065E652843A52BE3F571A74B7B3095C1CC155CD5821C921C193FBC7858FA23ED502BFDF971F02501D3C37C2EE137DAB0C63A2909DE9C8720C17429D98675748C9BA93235EC2B608451C3BCA7A055C913191FDC44B1469B54162C3B037289F1E039F8E3475E259B8E3C899BD28B0A093D7BD65F405CB957912FE015721E45858BF2BE4D943303D0860E4496EF85519F393E99D54A15DC69F8459ABC707F5BF09073E1CCD7F7821F455DA0CCBE95C377FF449B95019F15698384238DF4C27F6DF48C1D89A0E9C7845CD6B365B13C2A7841275986A05B8D8B6CB3FFB66BC9322141D54CF3A255E3FA3B9A2C236C4201A270BEC078C7229973FBA093F745BC62C98C8E2C305C75667DD5A968D04EF4655EC0C04333E8B637209D0E9919993AC11424C1629C164B0589E5296266A06D51BA055EC1670FA22359E0A3115A58BE094BD0E8BB7A6336BC7B1128359C0B4221347886588C099B16833E93BF8F6010D135020A8CA9489834D88B4127B12803FAA030A72C49A7623EA66CB889535880A2D0756EB59936B725347DEC4BA9140C33654B05F6B711850EC8154225607B974B55CDC64C41DA02E537646F2591078C563E0B0B58FABE99A9696E1424D161AAA1F72FE8E116B1242224CA210DCC248F43CA754014300AA2BB89B36B0977BABC2A52D97C615727903072242AA1C3376701892E58E418EA2A3036601E37A42DDC375A2B41745DC9BAD55A5443109E7FE23D75F2AEB48CA4DFD335AF158F5D7345687AC021F037A8BA19170A41C447BC2E733B5CC10A23EC678CA32C172412873B0E7FC7AAD9F53E41FB5AA7928AA8247F157A6E5DF313B8AABCFC58C2C8978CC6539498F5AA204189AA996A3FA52274A0170163B56331489734708A8B6C59A66EDAE8B575D975F839CD5B3685E864C874197E1BF074D30C41BFE01FB82085C8F5C43A26343AAA9184A095BEEB6E01753DC7DA7482F2199DD798D17660C5CCBAD047978BF0A62D3B9DDCD92487F9103F00ADC8FC9CA566A9331790BF93A1599CB3DAA229F5BA8D2E33A8C7451130E17C9D4C91BA2CB187495C9A9A9916700E4F8551A4F8793A6C7E85327012BB8C2F756FCC1A4BFEC39181E8BA95447282755B7C5C8AB8B51FEF740B0ABB7EF3BBC8DC00599F711B47A4C858798A76494ED5F01796C43688339DB7C40D06CC7D205B5A6AA3278F561CFDA647F8961DA7966EFD47B433650CA5405770F5742B919C81356D0DD2A87B21BB9DDA76D0B330891952C81C5D84761476063B452A6503F7565D406FB60B56CC14A9734A297283B2601536FCEA5A67C42EAD903D22B672D4828A93E2A321FAC920771C1D038AB40075771A9F0EE97929C69143808578D114C5366FD0B7ABDA8A7ED521BDED7BC6E231057988C362C5BEFEE06895F89B2637C2866BCBBA39B152651D5BD912344A9B68145E2AC69ADB853D06F513E108105F65622EE25750595A4BF983AAF45921454E70A06CA392A78EEC70FD5685B83A0532F4AECC8A09C2468FB2037F73FBA689B82F590891BC087CCA35772596410969569060A5D5EA0AE34B0BE06CA8DF188CC458CBFF21615B1A4E0259925CB3012105AA50B494B35A45D4E9312038866DD4131FC4578674273E182D7A1A1BD049076D70AEEE016A6C1C520D2BC404EB4FB28918F1990024D579175082EA9795F0616E584B2C7F93AB33944401C7BF7EE64040A3336CA5906E89CF406512539C8579F078D957A2F4B625F90561BE79BB59244B0537A41FA0202072AA760A0E34E94FA751A49D68602D97C807B9992DD637C652563F7317084946703171DB7262F71737518C52082966F96CC386E30BB6F89D02B93F8DB8B9713580C7C62C06963A18681A1FA54A20D774E40C0ABB98A6DA5A148377A264D0CB705710F3F708955B16E8EB22754B26522519BA833FCC3000DB88030546298B610451B50A247885E6321FBEC37B2572A246E181DCF97B3003727141194337A108A2280D2DBC2DDC739F6B876472EB12CE233CCD402DDEF61523FD6FEE69A88F34A34CB0C77B5407577A9A9CD8864EFB80974AAE107FA2801B6CCAF341D5456A86621F0E860576285483BB5FD36E2F944D32C4317BEBC1E441470C1372046A790D79D4";
-        textByLine[x++] = "ct = D2F3D9ED15BB06F79D2E4CFDB71229F6DBD352F644CA292B88851E174EC372E8F70CD8B98663601D7054734D43746BF04E8029B7D9B3E9514F2548DC9A008030E5F76D1BAD0EE57E2D0CE7350410911EF64AF72B3FA436836722FB652F7A8ECC19D465872E1D52B6AFE7EB249D70954423CCB19ABD117C26ED539FE3658CC0E3F384F0BA34665DC11B9A92E53542023A97B92CB7F6F876FB0613684E10046ECE963A0F79BBAE9DA673F00EEF151A262E48973CB49988926EE2FEADEE3F1783AC9406396006CE29AB52A4E3572A077380BC38E6314A9B0E40DB20ABD27BEFEC5AC941FD5B9C339528940E6BACD420057D0795B61E941C55B74DA11AD948911070B047DFDD7E9B3D9D38CFE1AC3191486D7D2D1C9B762F7CE28154C865128805AC05F742A9DDBA3DC7E404C3FB64FE57D59D8B05C5A67D4AA947CE98F296ABC1CF7A72B63DF5828FDE5D674FB4A93EFF217B0398B7A60ADB981533AFBCDDBBB8C36C097C2789B579EF800A4120A3F2C1E04C2B23F70066E20BE7DB4FF05166DFDDF4D918F7B90DF9ABCA0A603169C4587FED8C8D6798CC2BE5DC03F37EAC7917AAED154A775DB7A2FEB58829E11C2686994A9C7EFFAF63CBAB177802D23ABAFBC16E4F15AC2DDA26EDB58AD855AD4AD07A89DA9FBB04B4C578EFCC776A5B2B3EAA2D318158C4D4863E840C54C193684B1CB5E2B13A7534E8A69E0E465671B178CCDC8B96A39063211A97E27A534CA0F3627E1EF63BCA58EE65780622E0158134B3B58D3E670B989661706B512ED6A119208AF3BDC71BE472C52752A1CE144BB3F8094909AF526744A500ED6E6D3EB93AAACDDD7F330BDEDB31EDB12BD8B6C1666E8C8B844AF1AE5CBE3F6FFFF5B6836C72B942BE708739312EFCEBA62406A96D2AFF48087CD7F16DF38A45BDAE116F1EC9BFB242FB460B7E31FB132C622FBB3004A9F42D8A32AD5FDA30B929A73183F1D5862316CBEFC1F31C216A17501A48E6DDEB1857807787778500C4D96AB4FEA58BAF74F7E24C5E10573E97CAF80473E10C06E571E8AFAB0B73FDB2759CDA438A67EFDC1858AF712B670C4D00D2B3818C8D";
-        textByLine[x++] = "ss = 23D0479E4B6CC2D32A1F73C2F1657BE561482BB0E3F79CA988FAFF2EE74DD1B6";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 41";
-        textByLine[x++] = "seed = F170583CB451D8A45D105457C02C01A33A40350616ED8515BD49067142F61EFB00F07857E4FFF3FE11E7164C648C76ED";
-        textByLine[x++] = "pk = 1EA1CD19983F91737C99E4B57C67B7DEF879FAE835156A33ED67524D856560E0688F75C96B524FD60BBFB40C18533B11D3F6B24069C5303CBE3E6558F376B71DA5161C6310AE651EB0C9A8DFAA2C265B85478C59A7B3519CF95176768D048018E8A24BE09BC99F6A459F9CCA9600AA8625BEC4A76959D157371B2ABF19130A6540F2F69821AA161DA542861955DDFB729A95841845635BD208AB5A7B85527C01F811A98AAFADE122EBE57CBC89C5AB551C6645BB40B36026B0B10B40B7E645CB571B664FAA9D06270A1902549C507B33A568DA51A1A7322B53B95B92158DCAD6B85E07ADF6042F843A06318B7FDACA35867910B0DB0E09D03AE54C22B580C33594B85361788DD12764729B54F92B74DCA45A973872B00412DA2D83EB12D8C51627C4BE48955D8EB67B54EB1879479803B30479B59C578C175448525C514B9E685B3CE751B035836B229012709C679C1BB710B947A27CCF07261D639314C2B1D52A77DE2C9C2230761FF5254714AF940AB4AF7BA85C627A1A633A994752DF4125ADA5C86A60709F37970D771E96F01EAE2B322780C3B2EC01FE086BE76710F51CB4690A58BE890854B7B03DC04C6F632EB56CAEBC393BCC70410375457AF17B27C5817A65B7A0064D8FE5A1A7AA4E3A6B56C8B45C59145190098DCE89C891939BA0E63AFA240CEB7936FB90C0673877D0635777F8C2A9A5B03D8B731E9A0FDA08187B44037653BF44DBA3F29074995AB3BE5A59E3073E52938561FA9496B3AE0031AE0BB27A7DD67424C39F250B5F9C2512E507878438CC8B086030CC588D0C2DBCB1024167715B52130CE969785B4210DA26B8A6A18606597829BB40FBBEC83CCDF76913685C48817111BFC216699A9966B94590E80A0D45307C36499C006D37A83A46E12BB9FB0712961DB7F33D49D633A98B7A36A3B2AD5402CA190DA1766071473FB21529221559526A2E5BC5944009CF2D47075D0961721989F8800307C91E04883CEB97308CE6C03A7CC39CDCBE8723822561132B6705F54345AE1480B9FA11184C999AA8A1EFD17944027E1969267973CC3456C54140B57019BA4F28A8B7DDD07164969A62466B80918873A4EA56CD80A8E559FB30F6CCE44F1F8FE60A";
-        textByLine[x++] = "sk = 8DBB979547A684B4CAC2E4824A251B808A646BC8B49A92C6E4D83BC82A30E9649C42B4B955263725E505DFE8614CD8599689025D0A189E556FB073011908609D86CEA8F77D0C687555A88E8F786E2AA65C9154685B038252D06DA3EB9F2DC068A14A50D5D641993CC152641881DC27F026CD49540D7AE04E06D99D5D45A056864CEF0BBAA0E92E84F4593F59C636F41B7FBA346C70239FE511E9C2B39FBC2BEC1A452094A9F7CB78C3E9C6D72B5DADC8208A41050925BAF9824316B17475E47BB2E7663ECC88A5C60E5308C34AC6AA97C6B5754B434D7B6E1D500D080CB29BB66CCD707254D824A5D84CCF883328033048919747377B9E628E99C41A9756AC4FBB4F81B47B9DA81278B99B13B5711B936B42189D8B88CCAFBA398760738599089F905F2F2C62DD406B1DECBF29815CF506971DD32FD3F28870F81393C2AB701A7426B542662C2611043705DA7E8090B84645516E37CD4EC48FF2E1C51D0AB393877FDD660FD433AB8F2401A9206DDEE1055571258C613FFCC8991A006A30DCC6B56816D0266A0665CC7E0C8DDD48434808289BE16D236C6C9F04C3115923D6E879BAEA0C33C717A4946342B0C31057B848269A5329B8C5218D5B12C7ED3746AEF52AF89574A87BC90F4864BEDB85911A1B6BB5C744A623F96B621430535662CE03B8073D21906636C5D959661DFBB32B3548ACB63469B1489ABC6988B8732571725CFB71833B4DD959B15783C8E0121AE95100304338D900A741597008F67312414E75C545C1D6AF2EAA70EAA65FC742185EC2A0662443CCAC36C06426C3DC49A14537CAE1B8CD3A647DB059E681ACD78006DF966213A757BD27A4C79B79905556906789BC00177191C0DED1B63629A5E462CCCDD772589A24A04CA6F4CBB47323ADB755781BC09EDC7BCE6E10B5AA11067DF3B7D7F21CBA9692A5D5CDD26AB8274A1C6B8B1FB1C3724F2B42BE94758B701A19726A171CB4E8505C8281575106336C90AAC7A25BD785BA3B298840F76262D561038348B15A61C6D1B6EBA4922B7362F1300F53414DC0BB77CEA68D49E676C3302CDF50106DA230D1C2319D38351EA1CD19983F91737C99E4B57C67B7DEF879FAE835156A33ED67524D856560E0688F75C96B524FD60BBFB40C18533B11D3F6B24069C5303CBE3E6558F376B71DA5161C6310AE651EB0C9A8DFAA2C265B85478C59A7B3519CF95176768D048018E8A24BE09BC99F6A459F9CCA9600AA8625BEC4A76959D157371B2ABF19130A6540F2F69821AA161DA542861955DDFB729A95841845635BD208AB5A7B85527C01F811A98AAFADE122EBE57CBC89C5AB551C6645BB40B36026B0B10B40B7E645CB571B664FAA9D06270A1902549C507B33A568DA51A1A7322B53B95B92158DCAD6B85E07ADF6042F843A06318B7FDACA35867910B0DB0E09D03AE54C22B580C33594B85361788DD12764729B54F92B74DCA45A973872B00412DA2D83EB12D8C51627C4BE48955D8EB67B54EB1879479803B30479B59C578C175448525C514B9E685B3CE751B035836B229012709C679C1BB710B947A27CCF07261D639314C2B1D52A77DE2C9C2230761FF5254714AF940AB4AF7BA85C627A1A633A994752DF4125ADA5C86A60709F37970D771E96F01EAE2B322780C3B2EC01FE086BE76710F51CB4690A58BE890854B7B03DC04C6F632EB56CAEBC393BCC70410375457AF17B27C5817A65B7A0064D8FE5A1A7AA4E3A6B56C8B45C59145190098DCE89C891939BA0E63AFA240CEB7936FB90C0673877D0635777F8C2A9A5B03D8B731E9A0FDA08187B44037653BF44DBA3F29074995AB3BE5A59E3073E52938561FA9496B3AE0031AE0BB27A7DD67424C39F250B5F9C2512E507878438CC8B086030CC588D0C2DBCB1024167715B52130CE969785B4210DA26B8A6A18606597829BB40FBBEC83CCDF76913685C48817111BFC216699A9966B94590E80A0D45307C36499C006D37A83A46E12BB9FB0712961DB7F33D49D633A98B7A36A3B2AD5402CA190DA1766071473FB21529221559526A2E5BC5944009CF2D47075D0961721989F8800307C91E04883CEB97308CE6C03A7CC39CDCBE8723822561132B6705F54345AE1480B9FA11184C999AA8A1EFD17944027E1969267973CC3456C54140B57019BA4F28A8B7DDD07164969A62466B80918873A4EA56CD80A8E559FB30F6CCE44F1F8FE60A255D2E2FE01C87CF70BC30703644FC255F83FB47CC5CC5AE2C0E49D6198CAE03F89D7D99D5C3E0D10D6EF9AF054D842375F695ABB28E3B8EB495100F04306E92";
-        textByLine[x++] = "ct = C36FC0E3F8BEA75BCE55D0443EE9367DF9B9D370B16F7DE51B132ACD269DC170F9C34B8AD90BE0F7CCDD6ECEAFC8BCA9649E67056FC35B14E3FD84F2FC692E1A815854C69846A8DE8E8FA6B0FC6FA7B3E4749DED82FBD31AEF6C08B5F2BDCCD2BC5BEC8A55047842F723A745FDD1A64A5BB2ED38D5F2878C675310D264752469B0490239136FE3848BE0BDE019BEDCC52CB9764302EA8ADE78624EAD610C0D516F720765EBFA670313D7A9B3B5FED0E3EF7FF9F459689BC5A9A8C645D8C673CF432D74329E3105AE87E6BBCF0E2D16578D5DFA1F30EAAF806FA60C3FCB40C740254A3CDD69172779B83CC6C70E9AB7FEEBFD78B88EA27951B23728C6D621850995F6C9A44D27B6559FB6518827E0790C4B6F8D69D0E65CE64855C66370A5C084136919A74FA81725EAD9255097EC1E731F0DAACD3FC0D218014F10C71D9C76C1A0DA5A5603D7513836F85EBB13FDBB5488EFEE8FC4ACEA479CACCCCBFC0371816F14D730F215DA1C2AE500C24A918388672F1DC13046D8046B7F5EAEB55C2AA1160D79FF21694F172AC0D31A9EBE2D3114B9E1ABD54FE5A7B7A692C89E6FD26E571484873AEDAD2BE876818BF73C55586679460988B092F42FA1D791E3D2C79CD0526F398E88CB9CC860CAED27ADA5FE51C85D9A3E5A88D1BF72475F44CF39EA3BF101F3877D7C78D54672A30DBE53F59AE1BECF36EFF66FC53968A193268465426CA86A0E55692A7C0FCF8EFDB85F8EE38C040D55A3281089433B28B5BF1557041F90FDF1B1F8E3FBCB0AACE9BA3CA33B10519869C11491F4C85B27DC52AB1DB5CE9CFEED6444D6D62F8724FCF3BEAB31B4F5D8C8399A0327ED170E3361A0759C736E37CA36001D0F342B85CCD19B6E9F887AF73C37FD1C24EF93E52921C57918F1B2E2484D49FD7D37D4AE90896CA45CF4B4A4A61DFDF978512E1D4178DFBE24CDBE43CA693B2FE6A907363469921E1C7AE734ED53887CE6279D355734548244770CA12B227183EF554E8EF454B73A2241BA934E4F25DB23555E65E9D92ABE9C96F50D70B10E7FC139792A63185E405C44CF18DCC8660FDE65541F66E4AD7B";
-        textByLine[x++] = "ss = 13D8358C95077D991CCECE97F8C4A33AC938A847EAED64E04FA8484F3D27ED4F";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 42";
-        textByLine[x++] = "seed = 44A6774B2CAC02DFF210FF861A090561A453DB311F47B6FEDB81811872D5D9489F5FC4103010139AE53FCAED209DC9BE";
-        textByLine[x++] = "pk = A1F21B5F97535710A214345EABD39B1FEA121CA7C866981A22D06C547017D6E16AEB14A105BA22FF5B2304E10C948C0C4A376B9E5C2425920FF94953CC831AD45B3F81056B6F321D4C063F8323B0E23813A5A0873FD71D93F9AF8059900C973327A048802A2585F29F9F81714A869047B0CC0F07AE4A9B5D398469C9832A7DFBB79FEC3FB99C5F9910183A5651C2077F62817FF62C80C0F3BA5B89A19C8280F62B0162A87CBB2C39D98445FE49072103A63782C09E7BC3BEBBB21901B081729B7DB37379017453F090E5C672A1FA195C49601735C0CDF7338E0521EC0946AD2784EB1A5E138C21C8C04244D2C8E7E0A43C7551505AAD3D85C9D640885EA8004FCBA8E64C9DA72C0EC19197732156278C3AD64282BF9590934A2806680F4E8AA14A8B030519CCF3896ABC085566BC5757A467359018C79B57C149338AC2680C249B94FBADB134BE1A911DEB09ADD46AB710F930C4C24EB4298C0A05A1AF583059B7724D7ABB6702BB6680CE2FD3BFC73203D2A563F6D0B8CA54B0886998A449B70E256F22F7A3837263929B22E4A6C97D4141C0C79F33954E42DA92633779BF996C7C2B7324379E6944C524D43320B426749CC971C6735AC769C2072EE88407998399308A1A81A3437326CC0BB6C3BE3C3B1D0AC13A28A0E5F4BAE613493556C8EC8ACE279B9EC325295000157857B664B548FDF9BF3924B508570B1A003CDB5158B4E61A8CC0054ECC9B42491BDB9115B8492848F0B6B236B963571BA882279CA3B6DC2532A481CD24375D8F9A199D955824A48916502BEEDC12C138998A14CD75190B9DCB65C5B20AF7FB254B97BC412BC338A6C0B1873802884475636AF09A1F222CCBA2363C0B873555360325E18B2BE4C33EDC29E6B874EB74BB12511AB0364245F058AC90561D144AD230BA7882C893D9A73C4A03F82C5ACCC04031507971649FD457AA4D36A99CC856A2153F4ECC7B4F1CB13ECA217B01647DB07C8726418251703CFB653BC72E3A32192E489D334C53B91136D5B9794C96A8D3519467571A83E0B754B655C85A818D51014A15B03564B665A80DF21264C5AB8EC8902BE351A73036F4B363137340EFA7764C439F68D3C8E0723683AA8254A66284F447";
-        textByLine[x++] = "sk = 51688C6A414ADB473F37A6BD2A73C9A6F6C96FC25E68E45AAE8670D003B353C157A8D8B07436C59F1A12B0A63416F798EC80BF84258AE127895748A22E903BECDC5FED6C922EB41AAAA0BB5FC2CB22384D81BB53DFC78ED4D4652073C40DA785585102ADD4BDA7E90DBE491C06131EFB583D6CEB7F09C781E62337E202028E437CCE0832B6D02EDF5403F04571BAC4CC6961729F638821048AFD80BF2BB9925C3C1964925FB3B62F615C590F4ABD78679B44823117074BF76B3A0D104AE073B7AC0C564C220E727A7E5A958E37CCCA5397448DD55B5024A439982A431A6DF39AA62146410B477F95473EE07C73662114D14BC7BDC6697E4040354BBDFB511A72434073301CF1B2C4ADE05FC291AEE99771A8E9863596628DA860AFCC1674671FB9A6307F562BABAB6016809A3B88960C0622B9D21B3C632DF64BBD68B92DFDA06E8F1A14DBB5AC30E6815CF8AF301AB4EE508E0099256E290235F683FFA6470618519310A4FF4576444011F97AA9A5BAB14EA90475828B9FBA6DD4134AD3D684D52660522091B6971FF7D88B74746326E5990467A4FFC78FC8E177BD2871C35195A4790E4683B3EC81A20C39B5A784C8E00508793AA4333C009A907D0707A0FEC5697A52725B563984C73A306388ACDC57ECCC650089B12CFA34A0335FB3039CD786233B5509BDD2787F63468691C8AE72363EF1723C614FD6BB1F229A691369ACF0DC84CA205DA8D8B9D852CD4F05A621BB5AEFD2A26534A7459C76B2212A8883C772F661BE393ECE185BB0E34C5A9212EAD05BE4A417B383A11C081B46A67685AA722CCC9FD7D124AE686D1144C5FCB38D0C0896DA5944F018886B671801239B13D8B3DE035884F30BB91547D26B7A3A058AAAC800F2F48715A3BEE7BAC856B11B455A54D9C84F30B63EB6DC3BD58ABA6CE0B05724149F21AC79F6545A3B705D951A5DEC9710E44078688449210EF0107949CB0AE720000203870A23849F95602C30C848064959C53A33A400AF949C6B0042824299ABDC48BCE567287A749E0C11285C8AB4669CE6E53558E33C197AC2E96A3D97E5992DB7C4C48C5EC42BC2A1F21B5F97535710A214345EABD39B1FEA121CA7C866981A22D06C547017D6E16AEB14A105BA22FF5B2304E10C948C0C4A376B9E5C2425920FF94953CC831AD45B3F81056B6F321D4C063F8323B0E23813A5A0873FD71D93F9AF8059900C973327A048802A2585F29F9F81714A869047B0CC0F07AE4A9B5D398469C9832A7DFBB79FEC3FB99C5F9910183A5651C2077F62817FF62C80C0F3BA5B89A19C8280F62B0162A87CBB2C39D98445FE49072103A63782C09E7BC3BEBBB21901B081729B7DB37379017453F090E5C672A1FA195C49601735C0CDF7338E0521EC0946AD2784EB1A5E138C21C8C04244D2C8E7E0A43C7551505AAD3D85C9D640885EA8004FCBA8E64C9DA72C0EC19197732156278C3AD64282BF9590934A2806680F4E8AA14A8B030519CCF3896ABC085566BC5757A467359018C79B57C149338AC2680C249B94FBADB134BE1A911DEB09ADD46AB710F930C4C24EB4298C0A05A1AF583059B7724D7ABB6702BB6680CE2FD3BFC73203D2A563F6D0B8CA54B0886998A449B70E256F22F7A3837263929B22E4A6C97D4141C0C79F33954E42DA92633779BF996C7C2B7324379E6944C524D43320B426749CC971C6735AC769C2072EE88407998399308A1A81A3437326CC0BB6C3BE3C3B1D0AC13A28A0E5F4BAE613493556C8EC8ACE279B9EC325295000157857B664B548FDF9BF3924B508570B1A003CDB5158B4E61A8CC0054ECC9B42491BDB9115B8492848F0B6B236B963571BA882279CA3B6DC2532A481CD24375D8F9A199D955824A48916502BEEDC12C138998A14CD75190B9DCB65C5B20AF7FB254B97BC412BC338A6C0B1873802884475636AF09A1F222CCBA2363C0B873555360325E18B2BE4C33EDC29E6B874EB74BB12511AB0364245F058AC90561D144AD230BA7882C893D9A73C4A03F82C5ACCC04031507971649FD457AA4D36A99CC856A2153F4ECC7B4F1CB13ECA217B01647DB07C8726418251703CFB653BC72E3A32192E489D334C53B91136D5B9794C96A8D3519467571A83E0B754B655C85A818D51014A15B03564B665A80DF21264C5AB8EC8902BE351A73036F4B363137340EFA7764C439F68D3C8E0723683AA8254A66284F44763B304A19162ABDC4234E6046109F99F955695580A8B782017E107E45575BD78CD292E4C5F9E1A55E0489BCEFFB204D672A6215F4F3980A646D9F880817C52DD";
-        textByLine[x++] = "ct = 85E97A991DB6B8A6612797268D0A2A115FFC4888226860431434A6255925E532A98F11FAC7BDABA00FFAAF1B4B26F14E20DEACC1B68807A5ED677D707E88C22D46F2A33E4734AAD42603F0B21B15ABAC7EA6B0FDF8994BB285CF6AA3584D02E385A3C5F52C8E295D8A80CDF68CDA5C4C44C994BEED8731A88D6B84C5090F351BADFFD5388FDC1791725D3147C03C6A5816D55CD5CBC6F26D38745642A247C740A6D765B7A0147F46F6D6ED31A085179EA9BE56093FAB6270865525BEEF47533D7629287B1AC5F0516083342981196EF4C52EAC95F4BDE92F7D3914C662B463648B3C712020A2A3328F777EDCE5D9B9C090840034D501357B803809F0987C7B8DD5B63FFD0EF751AC3A51D9B051C12AF752169D935F105555E594094FC61A0E200163A2A7E9D4D3482C8D3875106C1AE1BE8DF05FE3012247115468142E111646516160A11082C85F7ED3152A6A974FA7246B0A81EE27734D5E011D4CB69B1EA572FA2AA8AB7A22245CEDB015663AE4636B1424A2A6AF3F96F7CC168BBB06EBF64457F26F30E976D13378313A8C0545E336672F3494105C92118D056E4AF2DD851904EFAC45B33A107BBA3F8C1BFD897514F1D6A75B0E3423EB700CAB242616D8EE6EAB20ABFB60F08A41A8DB276D429FE5DADC3CF3CA557890BB014FB99F9E94048BA540148545C57CCE95E5985E3C474B9B92F80F4A45CE4F35837A2889B376A0A1F19DB2B4BEEA59B8FB2EBB50BC4EE73341E55D6350D7E25AA2826CA6984EBD6F657FECA2D6A78F52C264A40159CDD4D2893FCC08F7E57BCFFC761AECE91220124292E4EBCA5CC4C46DC033C8B2470DE2D6362F135874A8D1883E130012A94D51C3CB26F8D044AEC4D8A79E3A72A560680B61C116AAA6ED87C27EA7DBCE3FE5640894F45A9FA1043B89F06078AA94B4D66C374EBFDF7AF488E9BC7D8F42E91D2A8D974D61627016AE86B3681BF5DFA64BE82164525EC454B56A8CA9424F6CF9E28D4B6E344F251A8EB61D10243B223B853837FCCC4E340BBC69DA4053CD55941EFCEA5C6D96CF34912AA30C88A4DEBA3933E15609570FD91EFDD80A9F19F3";
-        textByLine[x++] = "ss = 9F2292EF064BFF3C7C2D576EB668C3ADFC7FFCBA3635BB871493479250373BBC";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 43";
-        textByLine[x++] = "seed = 49E1855588B6235DF2A400C4A70AEDF8AB17B6E5E2891AA745F132FA2E7AB0C8117C1DF37C39F5D57624EB77C2B4A091";
-        textByLine[x++] = "pk = 7EBCC6700B95F778CEC6F514B10C58E323AB7F013904345308601ECF1707F8350B9F29CB39B261580C3DD2651F96E28F89AB9C1AD86CF77CB3DB7AA8A05C007D0A1A93A0A83E85BE418A7F141078581A5E60C25E4564691E11B5F16171564A1214D8BE06C15F6281324997A98F6572ADFB62612C6623D4C9CB24BCF0D896AF9A16BFE000354A41F9720C53F1574F97C6E8A49886484830D5822751C6E4C94DF54ABA2BA767B2B3199148BF8A0A89C620866F1BA52C46687AF31ABC6A7B4FEA9E5D6C70A5570F3D6A6113674C92173B6AF4902F614F1D508B3B456C406522D986C31AACC3653098B0985EF1879B204261BBA81752425D7CD549121983FFB30B17E181D2B8B4DC049F248B55A25B561AA54507141914E580684395E332225089BD29A934CE114F60936D9AB50F568362FCAC1153620791D318DC735253085C8C164719B6C0B426C136A311D704D009F226FBD340ECE426A25274DA929BF5A206B1520BD114C754DB2DAB0B8A881C03AA569091F40EC3E38422C3B8D4B2C77373853E57068A591663446B17F676BBFB941ABC0E1AFCB01D939B426A551417ACC95988D712600383063DFC5A6BE917C3E4041EA5496AB68855B6CAA6C92B463692EF2390CE797969715141397B40B86D5219B0A8C3858BACC615283169A57151849AA9BBB7E50BCA52183CC6D93E163144D56A191E29C66EB75F86D6BAA9E2320B43463B300000083C49A88B6338C374341CD83C1C15266FDB266E1E0933086C7358D82770AA652B7842B2B9B6F9165613D4A27298C0125A2609885D29715F9CB854CF6A0C308B36697CB1F5B530C7625694487252872C70AC1ADA8B4959C681F64C46C5CCC2B3972B6188909A1955D99B65B0B80AEC1770F60421CDA11D7822621AB46FBBA61CD0DC6DF4082609105839D80BA850C0A8342BE5A70D999386167CA06A485368276B4F7340CDC0A9B3010C3FC3726DA1AD68043C1665B1AA4413231455078CC898D938D2C5663B1C200FC87A3B2C2B5C5B0C507C1B7F12BA711680951AC8AD9C7E430345F2F6AD3EB9317B044103A82BB03949EAF288B2377B66F629268F2AE99C43BBC1FA7D8949CD772A745BD9AB018FD3F6ED02F32CD2BF845923";
-        textByLine[x++] = "sk = ED777AABF42A95E30FED857CD4C4758C2076A40BA9534B56B2749527CCABA7530A422336913283FDA435751B6D2158ABD1E304BDF91160E389B8A3B94D610FED22268F685350590A44305CC57CC98C97A6A2345C5C29BBE6CB49D182CB499C83F19AA5876CA90EC3BED6592A35744CDC44770EC1094F6989ADD64378F739AAA85F4F4B98B9750D43A05820444E5536601F71A537AB58D738B7C643C623302D26D70B5B242E0749CA31B95A33581BE9770665631AEEABC6E6BB450664AFF4116E6E818D72683A442C7C14E21F95937C22D696706383D9E84910C4CFE4C57E487768CFA0066EE79DDE868AE6E4A7DE470C251C2CFED77A154B0BDD258EC7409A694645EF8326F7195EC8C07DE2FB5964478422263A5440AE351917DDC7B7620438D31426ECE458A5609E2D404AEFA94C1DE2275BC46FB9493EE8B54B323150FC5ABB4221AA602C9CE36C34FF854DA0E3595F2199CC2B1B2750A0A75637239A1266F9A7D50A6C86D68F1EC7886F90C351E7001021BE347AA623E964EED3CBAD45A6BF92A6F5C61BDEF076AAEAB527F38EF7304F7E2A158EBC5A06B23E16C356F9B69FC4E37920089A6496237BC86E1E86B24BD1956EB67678AA416249417F0C87A6FB9C88E96E39B7ACE53543541C425655B2A5E405CDFC433AB68CA568115C535391DC80DB3A3B62F3153637A0C4DB1D6434A1C995C093A0ADE3B1749A758A83C0C02EF7B117F77C74D2CDEE2314D3CC458DD89EBAA56A0C295B57C19A315B3AE3E3AD7C029A9FB381E07AB2F4B07A81415913F21B6DF48F8C77418E9A224450AA2731984200C0A7C75D517836A7D7463E3C04A3204AB331AA42D7CC56B52E49FB92101400FF1972A8F3BFEBD5A1A6A3946A4152982A10D29C1D04CBCF1BAA86140A7FA9915790DBA7B311B2F3ACC6FDE8537193B6B950829EF8438F8C90127C44B780157682486E01928083B552F86F894CA6E638AF02C1215C27B33136022A129D7FFC5FBE641680A89535774C2EAA259B158F42CA50EE75A7C9F62604BB5BACDABDD2B304AD837986DA0F8C9980945CBB29E64EC0C264BE853E02B1AF4944187EBCC6700B95F778CEC6F514B10C58E323AB7F013904345308601ECF1707F8350B9F29CB39B261580C3DD2651F96E28F89AB9C1AD86CF77CB3DB7AA8A05C007D0A1A93A0A83E85BE418A7F141078581A5E60C25E4564691E11B5F16171564A1214D8BE06C15F6281324997A98F6572ADFB62612C6623D4C9CB24BCF0D896AF9A16BFE000354A41F9720C53F1574F97C6E8A49886484830D5822751C6E4C94DF54ABA2BA767B2B3199148BF8A0A89C620866F1BA52C46687AF31ABC6A7B4FEA9E5D6C70A5570F3D6A6113674C92173B6AF4902F614F1D508B3B456C406522D986C31AACC3653098B0985EF1879B204261BBA81752425D7CD549121983FFB30B17E181D2B8B4DC049F248B55A25B561AA54507141914E580684395E332225089BD29A934CE114F60936D9AB50F568362FCAC1153620791D318DC735253085C8C164719B6C0B426C136A311D704D009F226FBD340ECE426A25274DA929BF5A206B1520BD114C754DB2DAB0B8A881C03AA569091F40EC3E38422C3B8D4B2C77373853E57068A591663446B17F676BBFB941ABC0E1AFCB01D939B426A551417ACC95988D712600383063DFC5A6BE917C3E4041EA5496AB68855B6CAA6C92B463692EF2390CE797969715141397B40B86D5219B0A8C3858BACC615283169A57151849AA9BBB7E50BCA52183CC6D93E163144D56A191E29C66EB75F86D6BAA9E2320B43463B300000083C49A88B6338C374341CD83C1C15266FDB266E1E0933086C7358D82770AA652B7842B2B9B6F9165613D4A27298C0125A2609885D29715F9CB854CF6A0C308B36697CB1F5B530C7625694487252872C70AC1ADA8B4959C681F64C46C5CCC2B3972B6188909A1955D99B65B0B80AEC1770F60421CDA11D7822621AB46FBBA61CD0DC6DF4082609105839D80BA850C0A8342BE5A70D999386167CA06A485368276B4F7340CDC0A9B3010C3FC3726DA1AD68043C1665B1AA4413231455078CC898D938D2C5663B1C200FC87A3B2C2B5C5B0C507C1B7F12BA711680951AC8AD9C7E430345F2F6AD3EB9317B044103A82BB03949EAF288B2377B66F629268F2AE99C43BBC1FA7D8949CD772A745BD9AB018FD3F6ED02F32CD2BF8459233C598A48B06D7474DA19CA85AFF6B2B3303B5D25B96088C52A08CC7F1E87C5FD8C64C049C6DFC0F1476CFFD520B055756162F7EC94243DE6B14AC0B9E5FB366C";
-        textByLine[x++] = "ct = 102483694DA2C793FF4032ED7A4D13E3CF2C34566C766183DE318C8AC355FAAE9F28668413A3C0D5D94F5BBD9E65C938E515B9ECBA22906D2671C9471149EF6D868FF280AD7908FA11C8ED617AC045580E6C001E1541EB3B681FE81A088E59202CD1E193D7156A44531853EB168C381C3A289C061FF81A96B588000B1DFC841E34CB198B54F3D7E888A2830B1A815CB40322F603AA0BD175B3FD0247E0383B5ACE2723A2DB93D07313D38057358F249E40D3C959E7397D77D3BE69EE587E7FD9EC9B5F98FD65BDC852DCB86B6AB0EA799204093DD5879EEDA56EBC68A0E40FE5A5380ED7C487CDE87D614D334E0E66E25FFA0F60043B0962E28C796841C9CFCAFD09F5A90A0097385FA4E891A8706D81065C940A024E2EBE7C06C06334FE8EAC0BBB152389829B6BB47390955A4721741DA9A2E4159D7E23B46D70CE49A7FDDDA7656F769718D355BAF84FA6B0422E97FE7AEF08E7D01322384A07C23F0714A5A0D5FBA88FA043CE10BE1B752AA249B6DCD60150EDC28D1B2FFC2B0B91E4B68AC2BEA215A20094FD4B99CEBD06862A94C651F5752E456448772F02EECA33D3B86A8713C618D9D1CC0F81D5CB6C7A31207E8FE34CE629A95F378FC22089A27F447AD098BB6DF80AEEFC1E43A91A402347BDE51BC3D593DA9C1410AD4053E1ED71DA28924E4F1561B7DDC3CD2C616129D58F0950F016A3046BC6C0F697E6E915AE4CFCC4140CCC0A64D111525375A990EBBDFE48DE099C9E4AE1D4C0F819C4481D68B591008560BA1F2A451E5E30F110E1F3E9229216AD1D799FCA19C449F8DCD1196CB4ED4570FF0E971198C1D4F7586668DB88EC37D74695E4D663EA1DD61118813143C72461B63A13B3A9ADB283DE135CEAD7370B49D59F6535F502EEB4468C11D173279526C0F210BD53362B796E189612A85C573FBFDF820790FCE3A08403BCD86C29FB85626054F67E4E493098B3688395C7DD6011BA0B872E87C7D913B18966BC6F465BA3AEF36785AA0FFA3ED467E1935012FA1C84C6DE563CE455E39F922C4ECA29FA0E968DFF756340107493012EE00879286E6A514C3E24B76CCDB3";
-        textByLine[x++] = "ss = 29631B1D85F23A69DD1DE78C0D931741BD4A4D7D6B95F4BAF74BEE91813220C6";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 44";
-        textByLine[x++] = "seed = DF0E41D2F6F86C1F79D31FD5878E7AB434FC0AF3A0D5F47D2AB3FEF31A42BD949B0E3629DF9F575BEFBB62E829E51DAE";
-        textByLine[x++] = "pk = 1A986B25B24C36A66D747B761BB2C2A09415FED46551C6A26AB62819AA605A84C9D164B5146C6996F3A33475AA76D055FFB45617F256E22028426B71EA1404CECC96AA815F5CC804D83BBA5D417CAF64731906B8CDFCBFBACA0E7E0C924CD19475A88668C59F24B7B0AEE4A63B936942BA263BF4533DD29E7F51760BA638702CCF6472305E5A0D404732E0A220B269AFFE711DB0A8C2DB11C2573B7C3A83B673D37ECD8A725553BE79755B803CB866A90E12A4BF7D8275FC7CA07CD20CED0AC9A45C54953220D5CAA8210BCB3E43289BA03C6C3A982B5B2D4B73853B1B7548F7AACBB0A4EC2BC676C55DD594AAF630CEEEE7A58F076348A09FBB5B335C43535BE99D552298ACB1BFFB30C9ADF1C5FD221417874898132C00B83CB367BD79F734FA1C56CB63A8652CA5A12226961131B14018139937C20C82AE6964E0F4BF06F30CAC7382BF2341829236EF27119663C1BB34819DA72CF71B3FAF01460B9A20440947452B52CA4BB9C4EB9CEFB8C1A308B2DCB20DD88270BC71B9E95A2C96306CA17C769D301E01021775238FDC6235F89939B47774B5FB5293D2CF4875A698D33827EA2146B4C3AAD66F2C918D9E638874DCC883A2399DF38120B8BAEB9A52B45C6D0CB2A3C766336D0BA7FBE55CA5EB203E26337D29438641BFB3A29D50500947064E65F7319854B6756B2E40C75B755AB983B52E72F9C5CB293E2AA34CF2B23EF9868278C531BF395434FB347F29C079395F70F62342FCCBE37CC7FD4BA1EB49699ED30DFEC751157003F8BC438381813D0C555183524BA8A248F531495210A6947ED6963DA96C85AF7BCB1FD8161A07C707019B67F373C4692C27279E67B677C2C4CD42B33C4662B012BA8A59B19391C25AA846814395119D65B585C39E738359A24BB0D31B266A81471CE25270D0715CAC1C473C10270039489AAA70B5CF093AC930A91E9BA356D6A76FBBE8903781924487CA4CEA7A67558E55011CCD4190C6AC0D8642357441545B477E0538B31230B07B17595E55340AB681FE860B21B9B893408656F920E8A5599FE94DEA1B8DDC7A6EAC61CC0457299C43410677C421F89BF2D90CF3DFC681C2FD81792135E1938CA482EF3C253D8976201852444E";
-        textByLine[x++] = "sk = EB7ABB66C3C749399680D531CE787EEFEB5A80C16C6501056EB314568C776FC320E496C7B55B54B253C669126F612C3A5395268826AEDDA5CEA1A7077F946A6CC0435C35955087ACAAB395328C91C753975B8716B3647AE8D21C75F613FE461216749171B000FCFA3C0CA38E1DA915C15578BD102E06234D59E88C51047F68C4CC12C60D0B536B672C3E6A9A322DB89431200532C7BCBFC68CF9D775D0D722FE7BB9F0FC7BF8DBC4C19547C1031D23662173C302B23A022B3C0997914347081B7D433834446EA56B43135631932133FAD226010A3B6A07424D2C361EFA7F27FB65033C17A1AC3EA85086B3440EFABBA894762808068FF4E1579B356F6A186D96431AF9C2A5724625AB88A36A6B3ED4901E902630DA4A101B8445BE9BA9738A761C74536F911FCB1178A6A5680035CA0D607D77D07046EB8568113CFB4A02FDFA8FC207D0B9DB8EAB68296E9A8E33B01EB11C81A8A94DEF449981747CAE41394FFC5ECE2581E398C319F557448CB4152B301276519810193B864A09612D5B982F8326750DCC472CB356DBC1CCA28A145FEA0CEB8803E03C36449B16464A673D3C4B67AAB5C1D11FDC06377A41846F60C4DB0B3A7568060A970C64989000BCAB2EEA24A0520A3FFC0916AB67E6E557860164B194B59D552C199A0E2803B0FB2B1306EA6B0EE687DB661357739A3C887A8EF551A9132473B2C000ACA4B859624E690B6ECA49B20C43656397168C00E7EA1335F48F473CC018219985D72BCED63C23B4C0FE036322E060619177D1984AB885BF11C0CD20F518CDB8A447356847D8B95BD9CE3285702286949E3C61C0C435C8E312D9092B60437531D8490DCA08261BA4A57753661B2F853307CFB071FD3B0F0D005D6155B117F298E2A84A3A34BFFAE668D91B5235192A0B55CBDD5B723E8191087C847B116CEAB7292C17480065C93BA665656749C6264CA53A87B27485C0E2C024893374312A58C7C0ECA0B155F5CDB19497C08BAA82A71908639E45121C827C7666209CC149CD71F50598672893895521A994B9160DD01BAF081AAB12681A9F26220E65531F389920B110E931401A986B25B24C36A66D747B761BB2C2A09415FED46551C6A26AB62819AA605A84C9D164B5146C6996F3A33475AA76D055FFB45617F256E22028426B71EA1404CECC96AA815F5CC804D83BBA5D417CAF64731906B8CDFCBFBACA0E7E0C924CD19475A88668C59F24B7B0AEE4A63B936942BA263BF4533DD29E7F51760BA638702CCF6472305E5A0D404732E0A220B269AFFE711DB0A8C2DB11C2573B7C3A83B673D37ECD8A725553BE79755B803CB866A90E12A4BF7D8275FC7CA07CD20CED0AC9A45C54953220D5CAA8210BCB3E43289BA03C6C3A982B5B2D4B73853B1B7548F7AACBB0A4EC2BC676C55DD594AAF630CEEEE7A58F076348A09FBB5B335C43535BE99D552298ACB1BFFB30C9ADF1C5FD221417874898132C00B83CB367BD79F734FA1C56CB63A8652CA5A12226961131B14018139937C20C82AE6964E0F4BF06F30CAC7382BF2341829236EF27119663C1BB34819DA72CF71B3FAF01460B9A20440947452B52CA4BB9C4EB9CEFB8C1A308B2DCB20DD88270BC71B9E95A2C96306CA17C769D301E01021775238FDC6235F89939B47774B5FB5293D2CF4875A698D33827EA2146B4C3AAD66F2C918D9E638874DCC883A2399DF38120B8BAEB9A52B45C6D0CB2A3C766336D0BA7FBE55CA5EB203E26337D29438641BFB3A29D50500947064E65F7319854B6756B2E40C75B755AB983B52E72F9C5CB293E2AA34CF2B23EF9868278C531BF395434FB347F29C079395F70F62342FCCBE37CC7FD4BA1EB49699ED30DFEC751157003F8BC438381813D0C555183524BA8A248F531495210A6947ED6963DA96C85AF7BCB1FD8161A07C707019B67F373C4692C27279E67B677C2C4CD42B33C4662B012BA8A59B19391C25AA846814395119D65B585C39E738359A24BB0D31B266A81471CE25270D0715CAC1C473C10270039489AAA70B5CF093AC930A91E9BA356D6A76FBBE8903781924487CA4CEA7A67558E55011CCD4190C6AC0D8642357441545B477E0538B31230B07B17595E55340AB681FE860B21B9B893408656F920E8A5599FE94DEA1B8DDC7A6EAC61CC0457299C43410677C421F89BF2D90CF3DFC681C2FD81792135E1938CA482EF3C253D8976201852444E9911B6283FC6DEE66E16D411FE39BBC9F53C30BB54F05044B96C740CA051C61CE40771856EB77E4633504899FCB86C6A3D433D0B8D60E26F07BD61F1D4ED69BD";
-        textByLine[x++] = "ct = 018FD1311DD57287FF376552D1A07FD7BB84285DEFE332C28E6E479A7A4D7805DD23F6BBED16AC5E1E9837A838F5B1732F6551421F5354D3EAF9780C25911179E9F150D12A10313B3B2A2CB860A29E9FE43CD83E5A7150BAA6E513C47F6A2AECCD7CFAD6CAAE5018C40B25A30CF1FBB2F68301D835A1FCDBCB28865AD83CF5C2024D8AC9453E889163CFEBF4DDCF8BE41BDBE4B616FAB3A4F07BCF97A61D94FB873E85B7ADFB71A2B7FF53D3CCE2F834AB4D0648B6A1D68B067A2FDB538C083272917008AF09E5C70156B79D1281BAF79A05353491ABF8AD6743D47F64A3420B96D34EF8F1D04117D4902A5DED61209C8C7C4222734FFD7FAFE76680AB024DFCB5D8950517D32A3FF0393F0E59BC778CB7EAFEA0F29A2B29DCDA410EC6E9DDE725A9CE2A18799CACD2AE9D750FA70A096AD2EC77B20885B4E60613E746D6509ECE607769CE147433726D4FCF4895A111F19C7F38CACDECE6D812BAC71295CFBD70BF4B028FAAF7708837E43BD283FF26FF3F63A3FD70EF27BA88F22E16AC12B721675D25F3B5BE02040D7FCB988AA71907DBFEA5BC22818EE0A5454E0670B64B1FCE54B0DED18A4D5DF86B009DAEA64747A03A2973BF1605DB61A3D8D0E9B3B0FC8E56A33E068C562FC3C9E1A2E10FAE21CA78804144E33F1C59C1D36E390A9094610CDD27AB3BCD7B7AB0ABCCA2374976F98867E6CBBB16532EF6974229DBA9270260D37EACF986B337C5E7224883E4DF5E04D84561252A5D6A29692B1073C5141F3885787CAC9B97682B9B279098E674DAC8CB8662835E0C78A34628563D4978AF0C3350CBDEB6C8EBE8FB6990605DD0D47D572DB116604E89A23D7ACA763C798458AF8DEA02712DF8577C182686357E2441D4DD6E87126D6970B16FCE9B3C3F42E0D88AD13132997A5212AE4A0FC8209EEA5EFFD4F32A96679FC1B7BC10C2FC05E2C6BE66073F9B46D5FD7D5AD176814D64D85B49C1C4E5316B24CC988AAD842B9E0CB1BFD782BA97BEC7549E1C39EF6D1FB0C2E206E5846E75C82C7FF577A577B0727E454EC7E1322167E18D8C49FF8F6A8CCCEE622EDEDE917E4A497AE7";
-        textByLine[x++] = "ss = 5E1D34E184996E029A175B7AF798FCF94D39253A2596E41F37CE50369BB0BC82";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 45";
-        textByLine[x++] = "seed = D3C9EBBA6EB03CCB5C9B9D2C8D7F0CFBBF50841E24396CDDF0E56525B38918C2FBE6C34CC1B93F7BCD4F4D5777E1A488";
-        textByLine[x++] = "pk = B0141C2B68B888E674A38351470A3C831923AA3C3E40A2127A28C1A8818D42E4A48C036191681BCF982C0F13A79D643AF1FA13EB32444D1577E0C1795A6A7BB2B361E449718DBB962D636BE1054700337FC3FC7C1955755A8199EC36C2C128C68FA5B5854348D55A1798054AB98A5203DCBCC5121300B15026C8B4D1AA329B804B13E61FAAF672F0A304DB82CB875B4BBF796599C43EBC26834617467689AE524A33DCDB5916F783B958B15211950B5551F0722A9B6A7EC554567B2C975AF35B6B88041C01A1F182A50853998CC395C1081E0D755D0FBCAF69F85DF21567A0A24474571D2F98BA93F37A0F5941FB8204B0933CF3CB20A706A06359CBBA272C0DF68647318774939D18528B8818AE682743071795D512B29C794CC8A6C0E4B827C1148EBE2A0E72FC50A3F71DF0B3BA9BBC4906DC30E18C7D6C8850647973E46BC58CC229D9623983564DA34CB71A729ABDCCC3CF70BCD7D20AEB82C9D306464E132A6B9989C8561D90824F6796420E8B8C08A0BB3DE745372CB24413A7046CA37EC66191C6CC9B9C6D0975566F996BA038456736973246C44F545222F3AFEC4567536AB3A09943181B16F747B7D04A7F6996983C494B0D527879366C3A4A6872A79C8C3AAA13F11695D36065D7843ACBB04014539992AD369024F56636166990C23C661F34A584C12BA06A16AA582C887015CF96B293757A041B53EC695CB520960D959D96F57BD6DA44E40024F5E04A3A135A1F112ECDD57FFE459BB22C84008D5A2EE831823B42102017F14A71B1329BDDC07EF7BB02E8BA40BFC64362BC369E490675DC68A9C0B54A91B43386CC7A4800C9F60F2A562253904C71924FC7A9257B94AA9F78C6853A85D09AB7B07101B58309424420C744076C446E7E873C67D67A40CC3993D48C1A81495E54A5FB1200D497080BF21B33211E919730DAD71C2A1A75DDC983853CAB3CB55A3FDC0D778BCCB2C42037098956307899123F7C5B7CBCF107FE1788E55C67FA65968F57BD85B53A29005C6A2C2C30ECCCBF09904218390FC17F4B07AA2D350E9953705DA8BEC6B4048E4CB432A78334058B2EF4590893D44D76104BF396577FD719D69EB306117F3ABD65385A87AF12D1BB6D0433";
-        textByLine[x++] = "sk = 8CA51836784896F8268D5256F73A3619466DC1317BF82932E4A62B454657B756C17D810928F742105B41FF16531C649F95490E4F6A53B2BC0EB36CAC6195CE6CBC974CB032CFD5505FB77BB3A6638A05B23C47C5B387554FC88F70B06FEB8A59D039A5B727C2BFA60BA0E785FF0C66CF88078DF29F40915713563B7F33BB89A014D27B54BE5A37F8FC8DEC209B06AC8000C8816BA97E68F6C01766788B1B732893457A38ABD2798EB16920678BAB9591B9E4D644EA213F3DAC45DC5263CF8782B7F9A5F0E01AE409599112C9041A8823A88117953AE944CC0541851719A66A219D9CEC69B554112BB861F859050F456C13C73019684EDBAB9FD1E127703740CE863CAAA602E8C2A765F259AC91A21EB5B9DB6A6105489B3CF08E1C58A10B35C7341441EDE777DC81CDD6C531E4168743731803FC95EAD4979E57676D05004A2526FC9369BD86145003A8B6B3BF5B4699745728A64805FB89336EF991EC97233C6718775969164634438C77B7E1B86C25B60967A9A0D25B50C8A19FBC55AB656A9E354E0F7B20233009FE907A92361A3FE60352E25C3A1C06697113B996B867F307712544274A8975A5855CD39180B1644960B0254CCC9B38C3BB140DD38B34A3B220CC5C13104305C45A1A8461340B4B30BD69497BF3BA0524526FDAB58D32B8FD3B03E05B61AAE5014F5684C52CAC3D81ACE4701A4B7199C93A813E549170C562432914BFC02F8A28A3A95A3B12150E8D7BA897E634A8835410741001B49DBE6B82BB50632F0846CE6210BC4C35266B3EAF434CCFD885478AB671C6AC1238CD02B3AE1B1B76DD9418FEB30498A8683D01044587545BA5C5E3919F7996CE6D51CBFEB65FD61538F8592462EA268D07AD28325094BA467C6405253C07AA405CCDFB9DCAA5993FAC5C407AB29192A3B81462B9BB6E783C3F589122E4848F3402C1C63B4E9CB13DCFB894F29C89044B9739B0C4FB19CAFED1390F2936F529007C292C5D7CC22E3A3EE04B26F23CBCDBB87EAB79ABE9288B0534220AC3B8E935CAD8A9494F58AB20573155385628508A3D87B6432314054B2623434C540B196D78C8B0141C2B68B888E674A38351470A3C831923AA3C3E40A2127A28C1A8818D42E4A48C036191681BCF982C0F13A79D643AF1FA13EB32444D1577E0C1795A6A7BB2B361E449718DBB962D636BE1054700337FC3FC7C1955755A8199EC36C2C128C68FA5B5854348D55A1798054AB98A5203DCBCC5121300B15026C8B4D1AA329B804B13E61FAAF672F0A304DB82CB875B4BBF796599C43EBC26834617467689AE524A33DCDB5916F783B958B15211950B5551F0722A9B6A7EC554567B2C975AF35B6B88041C01A1F182A50853998CC395C1081E0D755D0FBCAF69F85DF21567A0A24474571D2F98BA93F37A0F5941FB8204B0933CF3CB20A706A06359CBBA272C0DF68647318774939D18528B8818AE682743071795D512B29C794CC8A6C0E4B827C1148EBE2A0E72FC50A3F71DF0B3BA9BBC4906DC30E18C7D6C8850647973E46BC58CC229D9623983564DA34CB71A729ABDCCC3CF70BCD7D20AEB82C9D306464E132A6B9989C8561D90824F6796420E8B8C08A0BB3DE745372CB24413A7046CA37EC66191C6CC9B9C6D0975566F996BA038456736973246C44F545222F3AFEC4567536AB3A09943181B16F747B7D04A7F6996983C494B0D527879366C3A4A6872A79C8C3AAA13F11695D36065D7843ACBB04014539992AD369024F56636166990C23C661F34A584C12BA06A16AA582C887015CF96B293757A041B53EC695CB520960D959D96F57BD6DA44E40024F5E04A3A135A1F112ECDD57FFE459BB22C84008D5A2EE831823B42102017F14A71B1329BDDC07EF7BB02E8BA40BFC64362BC369E490675DC68A9C0B54A91B43386CC7A4800C9F60F2A562253904C71924FC7A9257B94AA9F78C6853A85D09AB7B07101B58309424420C744076C446E7E873C67D67A40CC3993D48C1A81495E54A5FB1200D497080BF21B33211E919730DAD71C2A1A75DDC983853CAB3CB55A3FDC0D778BCCB2C42037098956307899123F7C5B7CBCF107FE1788E55C67FA65968F57BD85B53A29005C6A2C2C30ECCCBF09904218390FC17F4B07AA2D350E9953705DA8BEC6B4048E4CB432A78334058B2EF4590893D44D76104BF396577FD719D69EB306117F3ABD65385A87AF12D1BB6D0433E78D350D2836D1D17E6EC375A0CBE0D6B2AFE1AC036272DD41F8AA769C9D0668DED5EDAEC5DE3BF5B4D7C2F2E18E87F499C1968993EFF196753DB8045E2C8BA8";
-        textByLine[x++] = "ct = EB84ED275DDD136806236A4A925FF0E23EACBA3DF55D68D6B40094C399CE1AD2093A05E03F745E1848FD3B37FCE6B4525C427D8612478B2AFB9584B7F88F73A1C784A856C0D014A2D3D0E1898B4F322E76DBAE258E0C5EAE393D5EC6F5FEE47181441987FCD5EEB8F788AAA5B4DF8027C3B3B4190B5594CB2F74EAAFE894FC2A7087DFE28B64240F3A5412D07AECC737611451114B576C168F2564AAB4BEC0EEE4E681E6A6F09630702FD0C0B6237286B4BE82CFB9E0FA3F584E634A573E5ABA501436E2BF6D32FA8BFEE728510C011179E0F8AACE8B36C3A53C328A77ABC19A79BBE703128D5B5DD4FCF91E4407947717AE1DEB9984DC46B11044E55D53D43CEC016462C523FCAB6E171A0911799B10DC8D1B65D93FDF8A38ED331D70C9F4C6C016EA8B99C0AAC1E1C04EA0DCA697F3C9B074C89B37B72A3446B7BF22F55FBC53C8426D56E9A70FCB8676939578633EDA2C2E9EEFB94DC48067C3460990E386F51AD3300EA0ADEFA7078DB7F07C466193B0922B990E843ED5B7F298F495560840AC35AF058CC41D38ADF66B9299679E7E65B3816D702BB1D866A8676507BC51114EA4720B2716ACF162D78BD066D6356445C01D6A7DA9C8590BF85159FA34AC221E6E9F8B8AA12FDB41326156AAD4A268C322B2169F88CC6D4333A14654CD0392699FBB6E1EC853B29BDF04233D690E641003194BBD5BF24F3E6D208E8F55417DD20C7C3832B35F219133D349918DA89B0A2200920F597E767A02BBBFB47AC9A3E91C558914CA8C07F5193528EEBF6E0331660289FB103EB0A9B732F8CA4A719EA5FCA256DB1F0C932E83CDE4C68956E82C963545BF0E6006F55BC66E3B3557553B28067174EF0A44113C538F9B13CBAB9FE5AA83CAF482B3EB3267A0983BA7A55761E5677F59D82F42306DE712E63FCAE0B794D99231C6D40C3EABC54D9A477CBB4BE8B28365293F31BF2FC8EE1A0FAC23E9EE6F7C5A59429C270E0721B689E4CEA57D8FB20A5B62BB7FBF9BF41845B7A3DB91440080D82A72843EC7EE0AD449CDFFD96C2D63068BB49AA31E8CFBF953DB11E25C095F62DECA0EEF4C3144E9";
-        textByLine[x++] = "ss = 80314E9C9DAD51E4D2F57677E88949DF9D190AD5E413E01BE5E0AED4A1ABE38C";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 46";
-        textByLine[x++] = "seed = 6B3996E8BC6F52879F2B7BE012C44AD555707CB7E5FD8ABB3457A298336D6FDC9EB7853008FF13201D5969A315C7E493";
-        textByLine[x++] = "pk = 2FA2CEE53AB17754381F14708CCBBD3A19CA2017A1637B08F2E9344EF76D5FD0AD937B027AE58787045B9DA90ACD172D29C02F2EA83B378690D6E694EEBC39DFBBB12E13331503BCCFA62B6058792C2642B365A9FC687661464768221A80D529DFD9ABCB15813A4A6AA012010EC6A008419A6C8238F068671DD1B3BB3B10BA023AEA01A90513518D5C6582329AE43C07A6929C3CE1740AABC291E440F909362C7C8651A64E0EB84D82448E9439351650318293010D718E8762C71DBB6CD0385C5BE0C37709924BAC6B6783C82431527996523ECC9BB462A1EEB0CB6276C344EAC257BB4C4AB0124D6B1B7CF7473C050E9CB9762E856786AB1B5A9BCF69FC90318B3352E0481AAB1B97279C088B397B419CC4CBA756451E67628F535642B2D0CF71644E6A3B6F9B5409FBEB284356812D613ED338CC28BABCDD4B6753F4BCE7A7C54B077A5F162E96665A3299B938CA48AC0CCC7710BEA5384FC4948DC1B56A1C7272BC4A3FDF53706DEC2385DB3767C4261E98C49164683CFB420C33CF7ED68CFFEA4F43E41DA5AC727E87A981877E4FF12329E91ECD524790C1AB38784D89258562BCB5841BA8F0F17AB17236634A7019A520F48695EDE951FE9042EBA78E048791896844025A37575B2BE610635AD358D0AC7EA3BB93CA4C8DBF6B566D00654F1541919650C4A88C9A19B4444A5CC7FB4FF087552FE1A288A15BB0941F71F4568AD3BD01C1991110BD2F755A9C7806FFA005803733E2E639E2DA05B3FC71DD7A42E834190E4872841215454B294BF32A48C096D4476609E792A4E5465D5750AAEA38D9EABA07FBB05D10950CE23256727850D97E16397E9376674C37BE4FE3187C2842C797ACE9475B1B42C10910270D917AB6CC42A573C51339C04C56A6B0150868A9A330620D886A5E2103248043B44E005A7344742FFAB697F086526691B073AA70914B391C3CC31A83FF81A11E0B5FF71462915B742D438C6ABC8587089D99A8C6F24A6F6D236EB07323C74A7892E5B3ED631370A65CFD4B1A4212348E54506648CCF0732A36C9B9CAB979AC6C4C16B9AD0138860A392BF49490068807FAE1AD459AD417635C409C28F9EF936AE28D221563E30F83162CEF01B482889E";
-        textByLine[x++] = "sk = 3F609CD3A1A40789A492321CE6309782D8A57B34207EA50472820EB39827D715C49809AEEF03166B4169624B7AEDCA838EF52544C8422E4632162212161117187B0501D08C1C20417044A44627449086847B7867E1C7C4522972508856000DB4EB0673D0A07ED0D62ED7F46B0C69CDBE2889B295B5EFBAAC4989629CD74311097A78FCA8188460DE2087D467B8F382B030E51B2CE940A032675ED9751F6A7411EC0050FABF4B3A39B678719C692A5886A4175261C1A989FEE70255666A0071303E5BCC9F3598CFC840DC7224AB0CBF4F547DCC4B1D7BBA4655205C5431445E69A221AB1680985DF6D28FFA7C01F7E99228C77926EA4FF6477298F86545289603162C418BB33A824A0FFB8C62D9AB5939CD22D56E5FC8B087C96018E46AAB76B194A3ABA45280F3401300EDCEFACCC5C66050B6C194124A221BE240E1CB736ECB523D74291EF08312B666B6D5287C56A70FA677065149FB030BBAC88FAFBA8174C349B2A760B36296A66CB7EBE9978DE623D064B5FBE8C2DCEB34AE2882D673A5ECA0BD3B256D81667F11D951F26A8416331DDD0C76BAB6854694C43EA50FEA5B55518989813482B05484532410BAE28BB890C15246C4114746E424A8DA008F3886C6D1D99D7898425FF68D850BC0A6B82F7F04BFC0216E71280DC6B44930E7A7D5B870EEA9C258D7029AA936DECB5C574BB1D4D5244D5A1F1F2371E498B70CA1A035D403D6609FB0867E4EEC9E4C46650D1368EA70A8193989C4B8B9B782193D15214FA9C37EC64C85741B6E746EED8698CC8BAC3BF0A4F8D332D8B6AB888733B0C1158750BBB9E73682879DB3091C96244A9BB0C68F1B2985833009978134BB2D64C24F8F60A40DF182B8B3ABC2A407F765CB54F2AF96277E02075271E901CB360D8B7160DA057DAF95CFC7BB5CB59563A0359800EB78DEF9BDABB2C655BB4AF0E71E98C38569EB74DA86C2BA30020276028B0B59D94A21C5348EF34341FE292A1F419FD9D03030DC7B6F525428781FDBA04C25D86FDBB3650C2C8EF5153398D322D338CD7C892CD81B80A17B9C4EC77F64D4476698029C9645DC649B23DB0E2FA2CEE53AB17754381F14708CCBBD3A19CA2017A1637B08F2E9344EF76D5FD0AD937B027AE58787045B9DA90ACD172D29C02F2EA83B378690D6E694EEBC39DFBBB12E13331503BCCFA62B6058792C2642B365A9FC687661464768221A80D529DFD9ABCB15813A4A6AA012010EC6A008419A6C8238F068671DD1B3BB3B10BA023AEA01A90513518D5C6582329AE43C07A6929C3CE1740AABC291E440F909362C7C8651A64E0EB84D82448E9439351650318293010D718E8762C71DBB6CD0385C5BE0C37709924BAC6B6783C82431527996523ECC9BB462A1EEB0CB6276C344EAC257BB4C4AB0124D6B1B7CF7473C050E9CB9762E856786AB1B5A9BCF69FC90318B3352E0481AAB1B97279C088B397B419CC4CBA756451E67628F535642B2D0CF71644E6A3B6F9B5409FBEB284356812D613ED338CC28BABCDD4B6753F4BCE7A7C54B077A5F162E96665A3299B938CA48AC0CCC7710BEA5384FC4948DC1B56A1C7272BC4A3FDF53706DEC2385DB3767C4261E98C49164683CFB420C33CF7ED68CFFEA4F43E41DA5AC727E87A981877E4FF12329E91ECD524790C1AB38784D89258562BCB5841BA8F0F17AB17236634A7019A520F48695EDE951FE9042EBA78E048791896844025A37575B2BE610635AD358D0AC7EA3BB93CA4C8DBF6B566D00654F1541919650C4A88C9A19B4444A5CC7FB4FF087552FE1A288A15BB0941F71F4568AD3BD01C1991110BD2F755A9C7806FFA005803733E2E639E2DA05B3FC71DD7A42E834190E4872841215454B294BF32A48C096D4476609E792A4E5465D5750AAEA38D9EABA07FBB05D10950CE23256727850D97E16397E9376674C37BE4FE3187C2842C797ACE9475B1B42C10910270D917AB6CC42A573C51339C04C56A6B0150868A9A330620D886A5E2103248043B44E005A7344742FFAB697F086526691B073AA70914B391C3CC31A83FF81A11E0B5FF71462915B742D438C6ABC8587089D99A8C6F24A6F6D236EB07323C74A7892E5B3ED631370A65CFD4B1A4212348E54506648CCF0732A36C9B9CAB979AC6C4C16B9AD0138860A392BF49490068807FAE1AD459AD417635C409C28F9EF936AE28D221563E30F83162CEF01B482889E5820C7564D087683C0A4864844335BCBD62AFA1EE542C3C1DCD8B72C80824B501C96249919CEDC2369D8D739AB125E0D2CCB82DFEBCD90240A545CDFE07511F2";
-        textByLine[x++] = "ct = 3C159D0702480D26C38202C888D185889D1667A1CB5C5765074AD8AB055087BB4FA33BFCF0D130B89B2E83CE5D2747B0FC4F8E15B71CD612ADE3DF314F218E4AD7953615AA05B232A1021F5CE151584EAC45E26D015B5053064790A8C10C260757CC23D497E70748F9AE50FDBA92DE47159653713DC9A5F74B585C254345CB4FA1E97307D94FD70E64F4C5121E4AB4048C991D5AD3707418E666D29ABFEEC77C71661D623FE6042DE4849BBCBA4790E6B7B971753124D970740144A9B84C11DE4CE65CDC8173FED5AD2DCF16278DC99A0915B75BD58FAABB4584347CD077C615CCCE04857D0ACD08A2CC83A6FDD1819874DA9A6C4D3599E0D586EFEDE8868552251DECB2FBA9CFEFA8132CED96F252FB380C2CFF3ACB36391C93B72D056847A61843ECC52A0CC45C894DC0471B8D4DD2A114F7A2302FDB8A3FE1B8571B0AC8F4FDD622802950377709E5DAFCEE6AAD923454DCA718953DB1E0FFFCB7363204E87E06CE4130BC307E69D2608DB707B501794E2096A1C64A77F48C2E696468BBB0412C860C75A6AF4A952E61349451476957D9CAF448EF151200EA02B60C667EAC1A0129A6790A3B015729A5CE81940F8F961CFCA5A4F24CAF56D053CBCA39DE413F601A1354F5F969223F61A0D1FAA8A538D8CEE9D6992055D83E0AAA333B6AD0F47DB1000FFC40E547EB913B3D77EB6D268881EDC3843F77094AC83CD236F7F524C3D28BA598EF06AB49882E79F81322460850C7CCA3C59ACF57143366547BAE996E8BC7445BBDCB9C5A1B4AC094D1AFFB03012311361098354246A368669E44AD8C20C08A3288DE848C1A9859A2C70C2E8EEFCC321BEEC2D4C748F7ED10053981A28C9EE56E847F4463474FB225B29E2912B052F50CD9D9F07720F2F4419DF79467156F8C68B51DA93DB8F0DD36BFE8AABB88DB18CEA497919CC6ADB712BFABA1D1763B6F2DC7C638A41977E2B9CE97E1D2EC179E112A40B28B1AA04A114B595BA2139A92DE33FEB67DE9D83E9E4314DB29432B13DB08CCFA03FA993A1B4C32D6CDB1C44084ABABCF6EB60387A1FF00EA62E793C04021EC93E494E560C14587";
-        textByLine[x++] = "ss = D10F6702018EA779EF0455F748100F6F60266FD6678C691CDBB79B6EF2F37D2C";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 47";
-        textByLine[x++] = "seed = 730B65ECE22DE27D573CE3AEA7CB021C415DF210D228808D91D4F380070FFCB0778B683C71D4853DEB569C822765F2A3";
-        textByLine[x++] = "pk = 8529117DCB33B7D246D122AB27CB961B63BBC579C27F644213E6825AA1A0D4B44918784E1954B469F106D6464DA8DB4DE1EB8CAB31317885C16338969E5C546CFC30319CB37A7874369C6A0407B75F5A1443629DEF269CF7B98235569C1B396FA9164E2E0336CC8BABADB160B082BA8EDB209A426B25C435C35C0BC9B15AF0D541D0EA5514EA354B828EB3772BA1AB1C81768A1E286CE2A01D1B900DD1EA9FC6D685F1095EFC105B71571AE967BD9F9A02028729BBCB53C6A74B37950EF023B334241D2555845E882DE3636CDFD45A76E1265F6937130016F8E1710B748959A8ADD626CB79B65DE177C06BA2CD8DD759D86BAF1D9B85F4DA3B2EA9049EF9545B72CC0A6A736D5581C57A1D7D966F88C578DAE60438292CB3AC26909BAAC0EC8D74471D511BC7E928B67913C17E4CC26818B2F301299DA3910458BE4BAB41D3137CAE0189225890AE91A364DBB683288B8D59B6619BB786DCC98A51910FAC5C65E05B3C75A4185B99E00ACF009535ADC07C269AABEC98ADB1195AB0B5A623D448FA454E90C2A6BE925AC912B086B31616337661D0A6EA7154E937A39D1A60A4B7923F4B2E88438386EC879196CC47D9179D382546168A36865246F07B86E48F3629C5B1BB99C62098D800CF2654ACC6FB8057D25CD2D48C2CB71EF0E917BF106F99B35DF1830D62226A1F7220BE6C1AFB229982067439934BD27B56171AC3CDE09E2C1B3DCBDA08C386355F328DC9D01827EA271A43651BBA49A5A66F01966CCA037FCF02AA074A7059D69DE85961C9120E6D89349ADA3AF4D41175A6267AACC9637B8CF4D513A8F6B3EBCC9319C25064B337C0E90A88193E79A9810D2BA9B0EB089E437F473B9F5DC4B8EB95B24E1B85C5D0267DA39BDF35831C1263FE923A2DC7BD54A5210E38203422A6DDE30FF9C59325D36E99973E3E991B4284C06F673751BBC8C99B04C4990610DC2906B27369B72187AA2A13791CDCD47BFB37A19E149A32F8CADD638AC0E071771C9DFC58253A864C0E15CCA60514F545CBE161030AF806872CA2D0C67F54E04B4CA55F41A54B1DE405A22BA275A1B919778FB4D69F19171D8F1A3A633448FE9C83BD28097BB29A168DB5AF1D1B354B6881A2CE509B";
-        textByLine[x++] = "sk = AF54BFC65182AAC49A785108F30C5048428B97FA3843C48A4032397B479EBD8CACFC079444E54C4F764574F11418F73C8BC7BEF0A18F5CA7A2CBB6312D4C63405A1CB76823C7A53CD301AEAFEC586E32118D3C7B966A96B4323E86F7846FC634E3E97659455D4CBC3DEE95A519452BC8C50089D87440C7B2C0851A6309A07BD99E5E31520EB458B405763C8B0C4A2261B0F4679D70CD254A5484E02AA747C5EA320D6CD5584D517F7A664E2636A891762594D20557177F66D25C2B551F67CAB766599D7ACA5E6E8475239BB649437DE88079C8EC645F423A9B51B8BE13BCE19579269B6C36EB16E404C2DBBC7EE06C6DAECBAD02CB8DE945C1C8BB2EDC298955F825C870BC29E582A810B27CB22C11497AEDE1B50C477840488F8B5A3FC730044070A30E573275299E6BC2526171255900743BF46C21EA708925A6AE27A8BBF5A3F30C1A5C99B0A84A7E66910A1F85842A5318C24A6038383AAF5940B1C8AC577359778B0F16350E8E582E19DB11E13346DFAA90E132186EA660F9CB21776B4033C5C46D987FBDD5370BB7302047336F1066FAE34C074A133AE89AD33C7464DB9B4DE654608BC71DE12C64D7CC24801913543C10D6C77E24BE428B2F4DD088E5988C5A76A208F517951B14FA95711D9C6FA6B84101139627E645504C00AD5209BF0BBFA7DA39688429308C166B264F4B66A851E24828C23C93DAC66980C84CA071C2B4A0DB729CF2D73FC98855A9E66FF10693BB36756C4BC724F23F30B075927830F3E55C52607347FA7A09459635166C7F05834F2BB84126CAC89421627A8217B9AA488161ED272B98973E63906D14F3B03B7B5FED63484EB545DEC0BA674119D4C4BEC2A844154797F4866AF210BAB216C1C9441D4694C0C7A969DD103307525D7B4722552B5489E83DE29893FBF76498969534F8CD7AA04931758BE6D2AC36983D1EBB2DE14130DE6BB7966B30A996CF2F0C4F83E78756129587DC5E50A40C69402F840852F2543A90E063D22755FBDC909F60B19CEB33AA749674B6BF03A3224E1891BFA641234CA963BC28968C3A598AB042EA5ECE8C0B47763FD918998529117DCB33B7D246D122AB27CB961B63BBC579C27F644213E6825AA1A0D4B44918784E1954B469F106D6464DA8DB4DE1EB8CAB31317885C16338969E5C546CFC30319CB37A7874369C6A0407B75F5A1443629DEF269CF7B98235569C1B396FA9164E2E0336CC8BABADB160B082BA8EDB209A426B25C435C35C0BC9B15AF0D541D0EA5514EA354B828EB3772BA1AB1C81768A1E286CE2A01D1B900DD1EA9FC6D685F1095EFC105B71571AE967BD9F9A02028729BBCB53C6A74B37950EF023B334241D2555845E882DE3636CDFD45A76E1265F6937130016F8E1710B748959A8ADD626CB79B65DE177C06BA2CD8DD759D86BAF1D9B85F4DA3B2EA9049EF9545B72CC0A6A736D5581C57A1D7D966F88C578DAE60438292CB3AC26909BAAC0EC8D74471D511BC7E928B67913C17E4CC26818B2F301299DA3910458BE4BAB41D3137CAE0189225890AE91A364DBB683288B8D59B6619BB786DCC98A51910FAC5C65E05B3C75A4185B99E00ACF009535ADC07C269AABEC98ADB1195AB0B5A623D448FA454E90C2A6BE925AC912B086B31616337661D0A6EA7154E937A39D1A60A4B7923F4B2E88438386EC879196CC47D9179D382546168A36865246F07B86E48F3629C5B1BB99C62098D800CF2654ACC6FB8057D25CD2D48C2CB71EF0E917BF106F99B35DF1830D62226A1F7220BE6C1AFB229982067439934BD27B56171AC3CDE09E2C1B3DCBDA08C386355F328DC9D01827EA271A43651BBA49A5A66F01966CCA037FCF02AA074A7059D69DE85961C9120E6D89349ADA3AF4D41175A6267AACC9637B8CF4D513A8F6B3EBCC9319C25064B337C0E90A88193E79A9810D2BA9B0EB089E437F473B9F5DC4B8EB95B24E1B85C5D0267DA39BDF35831C1263FE923A2DC7BD54A5210E38203422A6DDE30FF9C59325D36E99973E3E991B4284C06F673751BBC8C99B04C4990610DC2906B27369B72187AA2A13791CDCD47BFB37A19E149A32F8CADD638AC0E071771C9DFC58253A864C0E15CCA60514F545CBE161030AF806872CA2D0C67F54E04B4CA55F41A54B1DE405A22BA275A1B919778FB4D69F19171D8F1A3A633448FE9C83BD28097BB29A168DB5AF1D1B354B6881A2CE509BC56EB5880E9D9D0FE7901747F75ECA1996C722AC47B76F34A4DBAAEE0EF8A611BDC370460375A778D1A31D01C42B66367ED8D9E8F84551002F552F0E52102B5D";
-        textByLine[x++] = "ct = 44BFA86FBC200E3B4243364FFED07FC0F44312EE5965C0BAF1770364941F7FCE21E52674F90161FE46D2DCECCFD7001A66FA85A18C2DB94C1ED523B06FF8EB9ECB57FBD1C59A2312ADF3D45282CF75976AC36E81F8FA70F007C75DD801A7F225F3B09C4AC6837CCD8CB3AD7F1F69A49206123EE3DD55203C98C6958FB34E89C5F0D3C5BEFFC30ECB7E2D3DF0AFE09C109507BECC317D8CB522A002D46DFC2D82226E8FFA98950E6907DA2861007BE146940ADDD612B7C40EC6F57C2A867DDE8D3C983203BDF8EB7FA102342D0C5D9D81E4984378BDC2537A0C4B3DDADFD9EB6B9FCAEF80C3817211387379738C4B48D7CD996AF062FD309C67579386F982BCDF72DA1EC11AB51AA864B0D8E66D986E828635C1C51A59607BA6F6E9CD93EB10DE04E1E3F24C7AFDA6CEB5C67461A15813809156B25E7CD65774AFFEA331F7575C40805EF6A6E759D1460EF39DB9179E4E51A7CD95750AE7CB2A2E3283434567742FD94C08D0AC6C7E5DC51C366256256227BA9DEC92FE3BBF97187C352ED28641A1A635F17674F555BB8CB7ADEBE163132F01758019C329EC2944733979F9210E3A717F269060F2C9D934AC6D2BD5353AC330B614C5EEA6FC9049A044303CC734C7D2D14F18156CD4D515D783C38AFF4598DBC648724082E7E96186A2B25F3EBB2461E28DF011B2EE7FDC6FEC148CDDDB5E31BA382FC1ED6715C0B763786F0C944B8CE9DE73306634C1F9B52B8B762CD036E8A79136ADBD7B99BC9C91D284AE05E2820FFF1DC5814957C70DFBD7EE202FCAECE8AB40B77018A1B2EC86AAE520AC468BB219EB4E9B9110CC3CF00D67B79F0263D505EEA84F40970954AACA2935874B7A728F88BB3CD0F155CD0B1C646F46A2C38B0CE253BF36469715B9EEEF3519F4675660D3A6FDC331536AB75ED0E6D1EF8E3AFFD54B07EEA9C2CE7096610325DB886FD34460D2CA210A82410D7B3C3E33B396A7344E092FB0B9C958E367A06EC59F2C6799618B2269A9BD95D23CFA7EB2D5E526DB2FD0F5107E10B844855C2441F7E0112DBA8DE3881833F130B9B39EEF68B30E52CCD5562F268E7C40F1F5F6";
-        textByLine[x++] = "ss = 37B36CF73590028AA9323B401DF00067C8FE925968CA3C30C2B0E5D5C75EE296";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 48";
-        textByLine[x++] = "seed = 5522A5A891A9A9B5514F4556AFD8DF40B9CEC63A01492F0CB8A1DB073A285A963E4A9FF2376C88662F7D8D241F8ACF17";
-        textByLine[x++] = "pk = 27DC0B5977446A8A2769DA6DFA5AA672B16FB8B63A7961433811B6F0A973935587F60C8BB78326448A89BB291A32F1406282C3F8772A4E2B43EC8209FE907D1DDC8D47584A822B6684DA85A4C54906320A9169118B1C6EAA058DD3233F13922E249932F65AC9F3932253C4C1E5AC9595D5A10CA6CFF03403B641CE79252EA2B999365C2C8AE62B4F369C45EACE0D35255DD4703D06AE06F22C25B50D312726E6165A968587A206A7FF789C40F1A195076DD3340F0DD8C6B3049BE76B2168BA6ACED5CB794516432585BC5A5DEAF09BC5EB3306F7633C82BDAC28BC27CC1924312462E48E6FB087D3A6B61A4A21E1A8917FE4B2C0C13570D26E8830A0E1923E649A756A5216844A368EFA096D65A2C4C3102F80841A4211960070E1CCBE6538BE5C7CC09469C76A37089A163AEEFBA6D340CC18CA86599A7EAE767FFEA39403792853834423920F2E026E2BCB6A40167E1FE504DF7908D1BB7FC8C36A68DBBD30E611742BB9AC65334ED34DAB7A8258141E0DBC403FF3BDABB96A17E5516CB86D10C55E9F4A759E27075C73339D38B4441C7A4EC79E1E6A60C88729A26B8A94739C3B807141713650920D6BE7C628551CB3169B3DE62AFBB746323400411B4039C16BDD4C7EBEB039DB0CB8E3D1AF20470E5A5B154A7040FA650F69DCCBFD44119E4371D527822770557158573943683B32A80EA50241EABC322862CDD9924A00443813B6EF4A7B94FAC2BA88542B4454EE27B54EDB090BB688E7EB1A3FAB22A11A065BBB52A66069AED1CDC3E78D36848A1F8B6BD15108A3846BFE14A51D89382D8332BB311F0B6909EED19D43182EA5044DB4D43EF3A9173DCC669FE5A8A36ABD300378D6342863CB2E9B4651AA8689991557E9636C92C87CEF06848D500F2A3CB85C665F83E64EB54ABADD777E10A23FBBB1818EAC65D928B1F610851FB7433E255EFE666DAEDC1E52E32A9F1A1D9AA4398253A644806073734C39441D511240798BA315599DAC72CDA9925E5A8A0183867CD442BEE54B7A431253E9BA21F2098BB5350F6E048F19A51D90E7CFC408BB040859BBF59D80F8CB2702798F074BD375F6A1289B8CDBFED9F6518D7031C57FD3455D4544735CF52680424C90F14F";
-        textByLine[x++] = "sk = 3A77378A267782691CF4B96B2079605EC20B738890D0C73074CC16250BB722D4A07D2C4ADDAB34ED49489873B8B0A1310B96AFF2B77E3BAC6113F3446AA414D191C8598C8207E8AA35B684E718CFAC011EE32093DE65346DC1056FE20BD90B0275444605DA00573B335670572489AB488243170BC1CFA87E0EA183D691759071B358B94CA4830458737A9ED085D0249A2AF3293691BF248016BD966F23077D83A6ADAD2235C7D1892290A67E485C18DC556A098A546CCE24B520F42B6CFFA320D91231B2F105FA0A6EF93044CFF90A990A12BAD553A4B0C1E29761E4B71A5AF81E2A8B834A4B2B39B354C7B0719B204F85D259B7A32A08C254C2EC740E27922089CB4E5B5955A34FE9D58CD4C5BCF8BB52453B848C82AE39F0144DE978C974B5BBBC7D47B52B62B398B4352E455CCF20F03D38598A435B65DD86BDA4FCB5D3A514E5285069B18444823FDCF820E5A093F8B91B7A51313327CD644C19C170CE6FC8126F97664B68A01A887791456E8935022D935FB3FBBD98C45EF57A36EDC73DD1468A0E0023FB9B2435B925B1D88E37177789856AE6D15D2B753243386B85BBB879CB48E90A0380A07A7CEA4278130F9FB90142E67A9A69BB031B7A7A32AAA9811886977D28922060527175305538D9B1A0B2AAF014C41FF38AFBA9C2F1E8ABDC6BC754BA5C51F2473E378C84DB250DA85ACAC43654AC5AD4060CC5FB09C0EB62676601AF9C1FEE6C8E04537F66A561B93B39DA17ACC6616ABEE22692AB867C091F250C5A451B2D181B17FB889D2E91A941D9CCDF639340417641688EB6305BDE148E0241CD4818C8F12C5524577A6A4757EEAA2F6FE24084102170B43539F205E7A800C5205E2B036DE2302CC7533FAFF17F72D8A212477187F14CA8A1398A72C77B858BECBA4D4F75BA02D4B8A640ABE0464BAC158E531A7B7BD858E20A0159B989B8737698741147062C37B0A030C30BCB2793CE51B28EAA378D2085E99007DE2B527396ACCCE8BD1B285B8C2C06F23CA77EB02CE31A1E4A6B53ABF43E13A945D38C95F3096A1555CBC5E852FD248CBA66991AF865A916169E383A3EBAB427DC0B5977446A8A2769DA6DFA5AA672B16FB8B63A7961433811B6F0A973935587F60C8BB78326448A89BB291A32F1406282C3F8772A4E2B43EC8209FE907D1DDC8D47584A822B6684DA85A4C54906320A9169118B1C6EAA058DD3233F13922E249932F65AC9F3932253C4C1E5AC9595D5A10CA6CFF03403B641CE79252EA2B999365C2C8AE62B4F369C45EACE0D35255DD4703D06AE06F22C25B50D312726E6165A968587A206A7FF789C40F1A195076DD3340F0DD8C6B3049BE76B2168BA6ACED5CB794516432585BC5A5DEAF09BC5EB3306F7633C82BDAC28BC27CC1924312462E48E6FB087D3A6B61A4A21E1A8917FE4B2C0C13570D26E8830A0E1923E649A756A5216844A368EFA096D65A2C4C3102F80841A4211960070E1CCBE6538BE5C7CC09469C76A37089A163AEEFBA6D340CC18CA86599A7EAE767FFEA39403792853834423920F2E026E2BCB6A40167E1FE504DF7908D1BB7FC8C36A68DBBD30E611742BB9AC65334ED34DAB7A8258141E0DBC403FF3BDABB96A17E5516CB86D10C55E9F4A759E27075C73339D38B4441C7A4EC79E1E6A60C88729A26B8A94739C3B807141713650920D6BE7C628551CB3169B3DE62AFBB746323400411B4039C16BDD4C7EBEB039DB0CB8E3D1AF20470E5A5B154A7040FA650F69DCCBFD44119E4371D527822770557158573943683B32A80EA50241EABC322862CDD9924A00443813B6EF4A7B94FAC2BA88542B4454EE27B54EDB090BB688E7EB1A3FAB22A11A065BBB52A66069AED1CDC3E78D36848A1F8B6BD15108A3846BFE14A51D89382D8332BB311F0B6909EED19D43182EA5044DB4D43EF3A9173DCC669FE5A8A36ABD300378D6342863CB2E9B4651AA8689991557E9636C92C87CEF06848D500F2A3CB85C665F83E64EB54ABADD777E10A23FBBB1818EAC65D928B1F610851FB7433E255EFE666DAEDC1E52E32A9F1A1D9AA4398253A644806073734C39441D511240798BA315599DAC72CDA9925E5A8A0183867CD442BEE54B7A431253E9BA21F2098BB5350F6E048F19A51D90E7CFC408BB040859BBF59D80F8CB2702798F074BD375F6A1289B8CDBFED9F6518D7031C57FD3455D4544735CF52680424C90F14F717823F0B58CDFACAFC795AEA529561D11374F02964CF635C27848671043766CFD5A08F656A6EB8CD20679930A31CAA6A6331C4B133A6838C223EF9F769F6246";
-        textByLine[x++] = "ct = 6A7CFD7988D650889309022770754F832A80FBD066C0EAAF36F51BF2F2B22FB14CBF94D51C2E93AA3071A4B82A466F03692941C066599EA6E586E5D41913DC6FE1AB9E71BDDB77B10C0563F9EAB15A224D8566372DE7864EEB3FF4A5D88AF53536062343D97A6CF188A91FD3FF1449032E666B47CBE09A19A55019562C1555ACE1A723F0118DA13E1743B284E8F95CE04EFB756CC353C526D1308BBA2CD595DA22EE01F3F1A220CCBCD6FE773A2752D4DC1487EFB00B73DB606D02005D6DCB1C470731A3CEC98C13DD3C3640DBD8717975B3B736D02CED4087F0D6D8B025C2F14B0C8CBD882D45C400D99C48FA1A633725739CD70382DC2972E97A6ADDAC1BA51E2268EE08CEDAD30A2FD36320A1E36FD4680B1CF3BE8B7CCDC8471DD722FA33374809679C46E044584BBCA3B2BA71A56BBF4FDFCA68E949968ACEAB8A772D84424B10EF54C6E8F2443ED93FBECCB8CF2F4B90E4C3EC5CC809D9227D3944331ADF971847DD2D18AA332099D52CB51F47CC30637EBDC5AE43C41E424A1E763A34F7B2B77B4ABD12942AAE5E11DBCCB37C2F07CB9143FDB5A63C68C1203983F1FF0DE17024BBACD6EE9C00E808DCA42E0811E27C2DC1A60A5B5F46BED193A7A09B7E6B6DCBAF217255B4C2A6F443D775AE30B05117154090DEC8B70A59C63181C355ABFC1C59E33D894FB38D16FB636CE6388B9A02811BFA911631392FDF727D31871A09EDAEE2C419CC68F876782630461D531A0731D8645A6CCBB1214AFC7837C0BA27095DEF2D5EA06A9DC34A3591DDC526D97598DDDCAE9D59BCAC07020968E5FE384BD0E3F56E9F7F8AE1A0E94B7723E8A785677C5203E202982120C98DFEF9C6F6F8A75634483F8977C9BF40CBA0446568DFEBA898F426FB695A34E751095B91FD6C5C67F3F94372C17F8FEF012246DCA3CB3411198397F82663075D64E41D5BDCCF5A9872DE8F276C054992B271C077E610CA46B5AA6A8CBDDA0B75CD76AA268A97D38839EF213EC5A05966CCB565B0ED65A17CF7B27CEC8F2C7CFDE74390B5A65E710E6911478EFA285B12472F187FE0B993387089D7671236DF26BD52";
-        textByLine[x++] = "ss = 4F5BE9127B3FBE127C44C6D599A034DBA15372208240F5E2A0AC8C630DB550A2";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 49";
-        textByLine[x++] = "seed = 1853E72329353B3F89AE6A1B1EF700DA8ED3C10D19F9E61EE9252E28EBB0E15802EE43083A12A0B7527088832605E3AB";
-        textByLine[x++] = "pk = BD413EFB6CC0B49A447A9A5F2CC99D7D5CBFEB4C934EC948064AA816EB0DBB4A0F5232B0C4B4CE98098441227F25AB91EC97319FF68A916910FD0CA1D5209C3420508B64ACEC450140165620D9BF8B8170AD328286E49FB049386658179986512FC07D47D49A1AA5BEF5A4BEB499A007065A79E164A1713804B108A95072EC9C6A1BE395BAEB09FD9A8E0A749049E405137A5C05C80715F9B30022183DDB127CBB1BA7556302D2B1063B798CF164F0F0BD40A202C13785009BAD8769C3155B643F7A19F9509987BC2BCCF41A3B9C1B9A844FCC537D8A8A28CCE0641B16A0FD49969DF2051A6B36B5B58741A0CFD49868BD136CBB4763A97660694539A2025649A7884A64761A1059CDA78E07C5ABEB297C9E61407AE00606CCA7D26C0DA8436C4343AA216C6B71375E4C9A0ECFDA7697E149B72C025696ABA086251826435C79C742058B644B7466B857CB5792C539709A59AB15AA296ACC5BF5D30BCE8B0B11B56D578837F922A7523927B8F0323BF79CE8C372C8655082901FF1630E0D27BAF8ACADAF284742E73FF5650A3CA80C47586A1D1664128A4518E83A0E4B13352B4CE5838CDE93826F0BA92CD6027D0869BB5342AC1C11DAD0938C5AB3A836A646E37CC2D42D3A9324FF0282A4D38FD9055BCAA715E8DA77D08434F535465C9B880506831B33174B974D41E680000B5BA3835B457768B3936D3810557E72407D9A953111990C741104FA243A922DA7B03D65D2B41438449BB0975AA8B1D1C3751444C91359BC3B149AFFA8CE3413692339BA39277797352D24EB2625645995A12C2E69A62F421B510225FF21B817878AA0031D0F70A68433B422A7360F69ABCE2BAC840B57AFDA2144AA62949093F643A5CD209486B6CECEA226D205AB14E76C17CC86345B0D119AA3F9CB94F5F93164F863FEB4B513083C53FAB20DA3605F83B46B5420EBC19DE137C2B4E55B749399C5386AF0870250E853438321EE767012483D8B460239350C82F8700E3568DBF453FA275D5F612EC8FC6B6E37854E8131870862F8046881185C3903440008C4B3464CF43B6F5A80A47C473A6870137924C09133E8D8C063CD3044DA1719855FBBD9796314B11DF8459EBD2D92B7FDC94C4C";
-        textByLine[x++] = "sk = B25157949ACC7DAB5DFE796CE8902E9BA933AD2C91C1C218C85230C65A8084756151317EA17C0D313375DAE0AFB6E63971333408C86CC3131C9496AD1F745F96379391C48554A939C73A01379479938A7019F55FE294291EB6793EB4829CC0AF6A37759CB7A2CAD703838039CD3B9E95DA69906B2F4A5661AB57A165DB6C6D49554CE7BB2B91A17139BB444764D1E7B92AC88083503876081A36E675D76635808A611B4B2823350D1D01AC8BE1C75A3B8A59609B6B2CB553F1C9A016CDEA341B7C1AB79D0C5A64BCAF47E0B6C1921E8C701B177807B69715FCBB9954794B68F9435332155B8ABD33D128F3E9A4707793D7524290DA5FC96B5996FCB62E80C5E6E22183293B2871293A0A13354A6F3DE7894A920432EBADE7A878C06836E7EB3FD108129536BA88046407A72869824370243F9AD048B144BADD49AF5ECA04E5A74F77BC188C665FABF14B0480B0355C8F8252C3A0C33C77B29F43CA629637AF1B724FCB7A27EC876CC099C098E4C469300AEBC99497DA620A3A0037F79AC75CBD7AE35094E98609E1460BA55DDC32660AD239A6614E0413891E2C94AB73114F1020B9976A3193C62467856AB2A2854859FFD3074AA46DE6123D7F64B4BBE83EC9483BEC29C0FC472671027E1E4905A2219C67F37F54716F13E0A4FFB57C6B0C1671F874BD7399F94A9D72CC86FDE021E5A85919087339560ED10110B430570B7C0A7E8CA0BECACC37C732773074A2F1BD73BC8D9E1822015944A140BA72E1293B5A392D00BEF7BC9FE6777875F32BBE830EDD45818AB8A201113A4E8A441426251CF5C84EF678463702E2C01375A80E7F2B4618430683E88B034B64B4EC7B54030E19A0713B459E0A35B2678C2FE8484FC8717765F774EBAB72B05687DA090412B669F6747041C01BC9A5C1074077B878732B4B922E58B6B96B45A6072AD8F0B7B88CA7BAB621151C5AA666B5A3F550FCB136A3B283562C347063BCD9E7226FF5AC4004B23542057DA43F998956A77B684D6C1D450195B2D4216DE34512048A166761462B27E3B4C47E475551D33CD9B70D9E7A119D1980270B126E84BB1FAA49BD413EFB6CC0B49A447A9A5F2CC99D7D5CBFEB4C934EC948064AA816EB0DBB4A0F5232B0C4B4CE98098441227F25AB91EC97319FF68A916910FD0CA1D5209C3420508B64ACEC450140165620D9BF8B8170AD328286E49FB049386658179986512FC07D47D49A1AA5BEF5A4BEB499A007065A79E164A1713804B108A95072EC9C6A1BE395BAEB09FD9A8E0A749049E405137A5C05C80715F9B30022183DDB127CBB1BA7556302D2B1063B798CF164F0F0BD40A202C13785009BAD8769C3155B643F7A19F9509987BC2BCCF41A3B9C1B9A844FCC537D8A8A28CCE0641B16A0FD49969DF2051A6B36B5B58741A0CFD49868BD136CBB4763A97660694539A2025649A7884A64761A1059CDA78E07C5ABEB297C9E61407AE00606CCA7D26C0DA8436C4343AA216C6B71375E4C9A0ECFDA7697E149B72C025696ABA086251826435C79C742058B644B7466B857CB5792C539709A59AB15AA296ACC5BF5D30BCE8B0B11B56D578837F922A7523927B8F0323BF79CE8C372C8655082901FF1630E0D27BAF8ACADAF284742E73FF5650A3CA80C47586A1D1664128A4518E83A0E4B13352B4CE5838CDE93826F0BA92CD6027D0869BB5342AC1C11DAD0938C5AB3A836A646E37CC2D42D3A9324FF0282A4D38FD9055BCAA715E8DA77D08434F535465C9B880506831B33174B974D41E680000B5BA3835B457768B3936D3810557E72407D9A953111990C741104FA243A922DA7B03D65D2B41438449BB0975AA8B1D1C3751444C91359BC3B149AFFA8CE3413692339BA39277797352D24EB2625645995A12C2E69A62F421B510225FF21B817878AA0031D0F70A68433B422A7360F69ABCE2BAC840B57AFDA2144AA62949093F643A5CD209486B6CECEA226D205AB14E76C17CC86345B0D119AA3F9CB94F5F93164F863FEB4B513083C53FAB20DA3605F83B46B5420EBC19DE137C2B4E55B749399C5386AF0870250E853438321EE767012483D8B460239350C82F8700E3568DBF453FA275D5F612EC8FC6B6E37854E8131870862F8046881185C3903440008C4B3464CF43B6F5A80A47C473A6870137924C09133E8D8C063CD3044DA1719855FBBD9796314B11DF8459EBD2D92B7FDC94C4C7A13AFEFBBA39AD59C088825380398F43F1251B83B0CA9DEBBA0102F902D719020A7237801F470FCC2BD9FD7BEA8322859B850F7882D362947432913DD068C01";
-        textByLine[x++] = "ct = 7E27A9A3C3165587B6B5B99E7C82B53E7031E53B098CCC626E89830F7B88E443C15D4F9E0F6D017566E4EABD278FA8B4FAEE15CEED11402AB1D83BF4F8BC58951A61BE1E2C279528CE7BBA72086585FF68BF17C3CDF62C0DBC020A924A4C780EB25956C80B935408CA64659BBFD48158C7EEFC90F089A5EE33BDAC36E0E927F16B08C9FC8648C07661CD7358DCC3280B9F8AEEACEE30948CFC327636CE4128DF2F89291408AB4EC2AA0B72A3DA98FFF5DDC11F33827CDE241FD2759B1AFC8492AAD184F92531D9915E9465941BA9FF8A63E3E79B47EE97DEA71C5AA76E739B3C0EFD0DA9B2EDBB8B790019A5B6B8EB2F1BD8744C27E911BFE301341754857AE10636E08B388783E3B9625F8905DFE5CCB7B7BDB4993528227310B0CA7FC3632ABE05504966097AB60245C5A6DC18F752D296732CED51EFA9472104AEE1981DFA1261030B19601A3F535276FC55224D3DF75AA017FD04A0BC9BB04A6EE60B5FE8F2D2EC363C295AEA1673CF8190CC22293D16AB3D720B0083FAC7FCDD6980C9A1F31BE0F4EC791F23A1DFC9DC192EFC1B9ECF0E15EA3F8B583C151AAA9D54FB77351A63409566A958D346C5F505566278FE6EE32CF78367264A27BEF7E1848FCFC803AB3354D2E78B92AAAC14B3A67B7104F07F311304424083452CCFF1B6ABB98EFA1F192B7C4A3C89484E4BAF0D84AD2DA52B214CA2A7AA58DF21D38FD8B8EA6ECDB2A59A81A46F1D84EE37022AA2F89D7D84AF7D9274B43D2C2AB1F41F1BA4F1DFCDCC16D87192A6DA7CF0713D8200AD8931D4F8DBC3C903032F2D8D3127F90514B4EF07BFA9BEB995CCAF81237254FBEB17D3B3DC5BDEF0BC9A870777F7D2B66DBB4B356C90CF6A298623EB28BE6E2E21D55137CAE8CFAA6FD5AC28DA995DB9CE6E0292C20F101536512B2715C391425918860B19263288700538141D44615760C47121C502A8738F037F743CEE510821801212AAC824E9ABE26D2F37A5186A00BF0762418B91D81912DE5737170C2D3658CE2E4ECF4669924D8E216DAD6C8E538446815A8F46C96990D8295B842DE500948E73AAB51EADF6A050BB1C56F4";
-        textByLine[x++] = "ss = AFF62B941FB62CFA04821EAB4BA287013221F8656E6A9AEE849A65BBEFA13BAF";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 50";
-        textByLine[x++] = "seed = 027C3D5847ED4470931141104F25B19AE76117CBB64B224EE424FFB782E9A0E988839E0BDED0DF666FE8E5FCBB5DBC09";
-        textByLine[x++] = "pk = C7C3B4465B0EFDAC63724548FF25B73B9A0BA6B5004B82A614918E63400146F36AAB60C8CDB51600FA1218E9C3D619168D1CA7D1B29A20B995DC254080108BDE2836A53C05AAE73F95D4997DD002C21C9E16711DDF2603A845A5AD8518A3D3CADFB57A5A994CFA262D51F06D3D1C857DE85CDC934BDFF1AB1B1891A5A37B2E6ACA37493D7F6CB86948673A57AB438AB8BA1A7CB98B556FF8BC4C3158A99482B7511CCD188B5AD42627A49240257B5BF500E382A577DC57FD84AF49731B6A49224815A43D2C6BCCF03ED1F09379918C882CBC5FE33303CC37621C21D9E5360B3C4029BC2C9F580C2519591F6CA703283F93E759DFEACFC63101F6A9BCDB30839B1288334562B608B32D211111A79C8C2C4B19A822D18646190051C65C0A42EA51C0009AC976A06C4B3C24EC1B47C117865287B836738473AF07F2908935B5C0DBCA76C44E48F5478F78AEAC138885721E40B8AB84C2BF8C69C3D4ECAD4DF0CA07E89A6A245BDC46105DD21A9858A819310CFB239FA735186407A88105B3BF156F95F87D9B3B9DB0DA6BD67075C70384553B28CA89AC9131561B9C8D37A5AEF7A4152F6AA0A7F54AF2F3819D6CCF8A07D0F4C5310907403020A01E4BB94D4C7BD257CA0944A6AFF6CFE00C9182D508FF329505C3CF85290427A2C06366907B2B292AEB2B13B954F211117504A18F37025860CEAD9717869C60FDEA3E31E9845D439989839BBD7AB2222B13FA921133906868E6671659B18A1C0F62D8BBB7B69B0EB62967B85B21375742757DDB960CBFE450B9A415FD083AED8AC0CB05A3732B39453180C97BA6CE5C426392545E2B6D15683300ED697FAABF21A2423409BA37A899C602B72A5A4CA1E3A7C4423C5CDC3765D0972F22CB9386BB347617720C6CF9E32964FAADD4A625A1586985571D40CB8895136B47F95CA8688D9E4776D5EB3638F9548EBC7D40ACAC9F0C6041B82479B23F18D51A77F1086098C3A9D2646FEA3B822994EF730B97569D05ABA38F880909FBC441815850E0BEEA12403D0024D95C6C1691584C6B548E0068CA7C7333EA8D07F12B615433DA2A041572A46888984D4DA3B73DC1C5C4A047B0A5EA85EDAC7BEC66F4D87FD2FE422E7DBCD02D1455";
-        textByLine[x++] = "sk = 19D08D4D81B080E533B6A900FB54351F55832D411E4334454A1236AB2AC28E6836B28105CE7B4AC3422DD2367D86BCC33B539B7D855838F665D5D684E932870C567838038588508252F43CD214CEF3E259D5E4C79F078C3E3A8098834698C1CDB503780463BC8022B0ED36A14FC606D9141984C41A6611723B74C16E4679945A2F8F47493B2072FDBBC93A143185638869515CF62A0FC842388CDB4BE5C90D2F4C13A08A330E9CBB5424BE008D13CA09C9A9442763DC09AC61C891AA324FC30CEDD2A92D488DE28B4ED28458E5B18067F11CCB49CC6E9B25D8F444C574A487A95AE047AA9D6070E100611C5C711AD844AA1A79400A4977BA45A1E686B7BA864F8A75188273F3692FD76766135611C3FC37444C34594005BF251571060E59AC3B9BE01A7E50CF4809220BD74437268A119C074BE236FF5938BEA04FF93815B975181A4C996EE486C857608A9119002060BF41A17FE05093DC8CEC793E12C3970650197F4B4A9ABB63FB0A1C875B54C9884A4D875FBDDA9EBDB68FE4C8A7C5D0580401932BF30C5CBC76BA96722CFB3F838B4101B01BFD41AAF542822F09CF33C40D54F32B894577EB3B4F0706A4A2A67F97568E0EF9A9E10331F84994A2909848D5CFFBBCCC6EFA1BA49725B5C92E0E1918A0D1A8BC4746289906F5992FD6B1922E6104B1264B7F96C7156B2D927C166CC47F2B2C4A58C2550C826B3A9C1CCD6C6FB0CC980C752A90E915F8B0063790A7F09008E91B416E18C7EEC2A4F30B2E1294461CB9124B45913339132003B0735C7997E44EB318ABDED91C753527BCA55953E71455247AC0B53C05931D5C8715D674933D889A09E05B590315BC710AD73A772EA4943D810869C98767490B96C6AC83B48B21EA171148BBACDC66220B6EC5E98124E7548EA6BC0FF59C883C96BA8AAB5969C6E765C2C9E70DEAA17D8035164C240EB03A34E033AC4FB78B99B84C7C5A276E325DF1AB83B3801294BA6F56988DBF08C57B59202C928A3FC720A842547016580F66C51E614DC9DB8166DBB92E5A576F719E1E986EF39578312C6CC59A9671112A96A40EF27084B72BB8B742ADC7C3B4465B0EFDAC63724548FF25B73B9A0BA6B5004B82A614918E63400146F36AAB60C8CDB51600FA1218E9C3D619168D1CA7D1B29A20B995DC254080108BDE2836A53C05AAE73F95D4997DD002C21C9E16711DDF2603A845A5AD8518A3D3CADFB57A5A994CFA262D51F06D3D1C857DE85CDC934BDFF1AB1B1891A5A37B2E6ACA37493D7F6CB86948673A57AB438AB8BA1A7CB98B556FF8BC4C3158A99482B7511CCD188B5AD42627A49240257B5BF500E382A577DC57FD84AF49731B6A49224815A43D2C6BCCF03ED1F09379918C882CBC5FE33303CC37621C21D9E5360B3C4029BC2C9F580C2519591F6CA703283F93E759DFEACFC63101F6A9BCDB30839B1288334562B608B32D211111A79C8C2C4B19A822D18646190051C65C0A42EA51C0009AC976A06C4B3C24EC1B47C117865287B836738473AF07F2908935B5C0DBCA76C44E48F5478F78AEAC138885721E40B8AB84C2BF8C69C3D4ECAD4DF0CA07E89A6A245BDC46105DD21A9858A819310CFB239FA735186407A88105B3BF156F95F87D9B3B9DB0DA6BD67075C70384553B28CA89AC9131561B9C8D37A5AEF7A4152F6AA0A7F54AF2F3819D6CCF8A07D0F4C5310907403020A01E4BB94D4C7BD257CA0944A6AFF6CFE00C9182D508FF329505C3CF85290427A2C06366907B2B292AEB2B13B954F211117504A18F37025860CEAD9717869C60FDEA3E31E9845D439989839BBD7AB2222B13FA921133906868E6671659B18A1C0F62D8BBB7B69B0EB62967B85B21375742757DDB960CBFE450B9A415FD083AED8AC0CB05A3732B39453180C97BA6CE5C426392545E2B6D15683300ED697FAABF21A2423409BA37A899C602B72A5A4CA1E3A7C4423C5CDC3765D0972F22CB9386BB347617720C6CF9E32964FAADD4A625A1586985571D40CB8895136B47F95CA8688D9E4776D5EB3638F9548EBC7D40ACAC9F0C6041B82479B23F18D51A77F1086098C3A9D2646FEA3B822994EF730B97569D05ABA38F880909FBC441815850E0BEEA12403D0024D95C6C1691584C6B548E0068CA7C7333EA8D07F12B615433DA2A041572A46888984D4DA3B73DC1C5C4A047B0A5EA85EDAC7BEC66F4D87FD2FE422E7DBCD02D1455DD4CFBC29DE3568663A3A044C3F897714363B0FDD3B6EE55F796292D34C7C79B7B534537ADDABA4ECF14F02AB317D36CB9F0F50222CED7CF029DFF8A0D3D2FD9";
-        textByLine[x++] = "ct = 9899DF8DECADBC01580A87A7A791B3FED05AA4DD2F56A2A918D1EBC99558232DCFD73189F2665A72E06FCA0FAF91355EEC7206C5BF2D75BD13063AB8BC9832CE01C92C1C9F66BFF734AF68BF1DC27CE8C0076C716497AD247722167AF955F275F704E1FAC27F1F742E67D36DE96FB0997E6E83B3E2F95CB1D2031CB73274C4A6ACDDB8C059D23793B2EF72963AF30963627D1B3F16226C6139EC71493D787527833B8B010EA29F5A57076CE265C4AC79C720568DF920FE3914C5175F05FF7166B024E5B059EF05964B4A6483E1A0C5FBADFC6D1AE97124CEE5665B29968C5D8AE4E4AB3074F64057AF767E49C3B712154000D4851D1A6136610A50AB2A179BCF44C7DA7EDD754E980B250BFFA118EBBB4B17E40BA329AF5D89B1E23626F9D5F2498F27ABF1C62133B17F8DA3D04D452CBF0EAA3766A40EA133E8AE290EEA14840431DCA8ACAA6B8107B1D6A578A1A177D39FCE3359A6A7019F7CA0A8FB8E3C59D10BFF9A8536FEF59362FEEE05FDB5E149DC03E48A863B40287DA0A106B7082FBDE67E156D49372B11E1AED0912920D9E8E0E465DD7E1E9063D890361393F0233B287B2B0911BF3194E0849D1661E4AB238285B25355D95296CC362B127913384F50A757A344C9382EDECB0E810C463C451436FF8EE91628EF2F44059127F0685DA4C40E0E8704DED6D6C682DA74246E1E3A3D886230ACD3D8AA8E16DECEE9AA418F449058310BC884F371844E769CB82FE76333275DE80E3ACA4E7C87873DB19487BE772C11301FFC45DE500EECC8884EF39A3790D5372F1DD8B69AAA30887FEDFAB37B244674ABA1E58417336FBC64AFDF0A5FF82A82AB3EEC3F24D47265AA14A3B7E38F9D56992FE238C03F6F22CDAB8DFB1F0B227F7081A5FB5A38CBBC3355664A2675E90D57FE0698D4D229EC9F470BC4BB54319F6EE89D5D05B2C66AD320D60726CC8DF580203B067799DD8F67D2A42068AD7610F384ADE3BA8C4B20C40FEEC9A2EA5C971D5E2451185C4CB687FD3E7345BE8C64E407D8FBDF164EFAA9895F937D43AA49D26B410B988F88AF3A72D775C29C9787FEFB0B8776C6BEB380";
-        textByLine[x++] = "ss = 920B95D4AE5698AC7280B6E95814BBF9669ECC36543F2C581D4E2474FA9BBFF3";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 51";
-        textByLine[x++] = "seed = 450751D4401737459C6D93E6C5F2FBCC4A3AF7CD7250CCF404BBB817A67BAB7B4C9D0EF4570BFE25CF919DA331C31D88";
-        textByLine[x++] = "pk = 83FC2701341AC042BA3987B25411406B32A000A12E00F726799B88F2219AB42BC6D08B3396BB77E51A38808B5A00823D45FA46DC142077AC63DD25B5209B0B35C0A3BCC30537248F568018F1324141404C3A603F8BFB30F675710B33B1F986B78475A2D4B1A6C44B6277B881C8F69C7198657DB21FB0A9887AFC4C3AF212D1751A1D58AAC3C8A95494A82D737C124347A06B93721C50B3D5A62773B756A79EA7796588754A6DA906E98630BA611EBA0B5D622670B33152C3D91311CAB5FC052C0050097D0C9BF0A4729A58B216B92537F21948C865E471276918B712037569A079600B1EB611C8D0424F8903404B9338D4CA368C0A42DF6A9B6BE6692BA24232C68A82B22076B72C5A71B5CD603F52493BEDA57F12C660F241A6B772BCF007819ACC094E4CC63147359B43A81B6A5425487275DA3146BBBA33D7A08B242EFF33C5263685AFE47DFDA38A8250CC54160E4C22BBCF9765FCDC1B34A94FAA088D4927A6D8121CE556576AE682E5FB2761035981B442245C1D114285CA20B3AF733C2D3A8121998BBF87734479505644B568301244E31BBDBAC05B8C5D93121668EC64080287EA074F02323A91425C7362428C9637E61BAE86D03238C96336081A86198E0F31C17A945E50E15634E23100C6499BF1B58A48813BFBC7CEB3322274329366267132A972553C6DA19E13898B89277A33836371084A5297BAE0298288FA68A27605A60B274620111D376227D157D066181714CCFD42A3D33882335565F9A0BABD7154C5F12E67215567676193EA837EA188DEF143E98C7721DC539914C678E1876D334FB99627B848616190A9F5371251593381BC933BC47C1E5BA50429B1BF71AE7C11AB43273CDE9538FE8B21B310C8DA5A68D7828C60761F2178405AB96CC3D179E75837F7C69C0990C75DBC2718003862448EB3B03E6ABB535AD733F5701699D543FF893003B3674CE997E0C6AB8B7B2BB834C4A437068C9271F55C2FA3ABB4608CC88128B13EB17A2F45A7EA9B85FD3CA8CB70BD8C0578F7963AC76C3D39A44F2B87B1FDC24F15D32F2B38831D55722AEA8642A7CCDDF2011F83A740531990744A987152DCA2388BA27E3769C8BF287E54E41CBC0ECCA95CE621F2";
-        textByLine[x++] = "sk = 3C401449FA6BA9280EA8570C68CA244BF821BB5367251B1572008B2D86367A8A1148F6391440CFE1F9BD1BD02D87C984286561691145FF82954341BB34406ABB2343CB88A74692BF39CB000884CA13CB8186F1A788E313CB739D48E8365659C324BB6B032A85EF37A25D538CCBB2AD678616F52C86093BA9352822B7F9B0A2307A3FF5A17D8033603220424B7485171FE2A14D1F758CAE896CAD6842A90CA5A7B69789D356FF574607EA1286C1AF8B127449ABB495B485C7C6078CEB9E70421667968176025913535879E5CDAA4859B6F02D20F67A0886BA71851A21F55D7B7B503785CA9722C76AB06531B83CF1BAB17CC0A5B3C263F8593293068D7790270F1723D7713FECF34B93A096E89C31FC52A2DBCB8129133379866F938B71A2F3265F939D741ABEA2886BA849C991AC0505FB5C4BB4A78630039B0A0CEC5064F7EC2A56126665E02AFB71C0732625B76B0015B7CDC3BC16E6E6AD06914E28364FBDBCA2C1A653B9A8899F236BEBF770E477ABD1DCB937B7510D7CA3A00AA093CC9B62BB6407E00CB36199D077856C4682AD78B241CB9C2537CD9591BC4B49798389B3EE21964815A4B6C0AB98E7B318600A0C663E54522CDAB923CB809937F2B902FC0FC90BBBE5D48A2F489A857377509B8B74CCB6AC875E07C3429C728943087AE9F5AF33155AB0EACECC1445836404B98284ACC63A385A2A55A82C758287CD313FBC91BAB8BAA4C7D3B3EA5412A496AE64A59C58132DADB408552C29FD34BF4E73927B16C81D47188954C0EF9039ADD7697A9B6ECC7915131B6C6CFA335C3B016D53B3547669D758943D316AD65979473692BDE8725247B333EB412B09389E55C97F655D20F9850B1198B1C358A3A87CB93CC47A91AD29B7C9AC7110C886A79A39BCAA68310FF5C9DEA81B0C1C37004021EF7CB24029987CB2617F842F2F51417EB51F39CA7AA50C4FBBBAA51A1C97C4F00E582060E95AC1EBAB6E267C8367B7365CF43986FB0103A192A0028CA2205A07160E2D0B4D2D82602B288D89F0588E6935054CCBB773AA6955964C637EFEB889495145C629794692A20A13B9B9732083FC2701341AC042BA3987B25411406B32A000A12E00F726799B88F2219AB42BC6D08B3396BB77E51A38808B5A00823D45FA46DC142077AC63DD25B5209B0B35C0A3BCC30537248F568018F1324141404C3A603F8BFB30F675710B33B1F986B78475A2D4B1A6C44B6277B881C8F69C7198657DB21FB0A9887AFC4C3AF212D1751A1D58AAC3C8A95494A82D737C124347A06B93721C50B3D5A62773B756A79EA7796588754A6DA906E98630BA611EBA0B5D622670B33152C3D91311CAB5FC052C0050097D0C9BF0A4729A58B216B92537F21948C865E471276918B712037569A079600B1EB611C8D0424F8903404B9338D4CA368C0A42DF6A9B6BE6692BA24232C68A82B22076B72C5A71B5CD603F52493BEDA57F12C660F241A6B772BCF007819ACC094E4CC63147359B43A81B6A5425487275DA3146BBBA33D7A08B242EFF33C5263685AFE47DFDA38A8250CC54160E4C22BBCF9765FCDC1B34A94FAA088D4927A6D8121CE556576AE682E5FB2761035981B442245C1D114285CA20B3AF733C2D3A8121998BBF87734479505644B568301244E31BBDBAC05B8C5D93121668EC64080287EA074F02323A91425C7362428C9637E61BAE86D03238C96336081A86198E0F31C17A945E50E15634E23100C6499BF1B58A48813BFBC7CEB3322274329366267132A972553C6DA19E13898B89277A33836371084A5297BAE0298288FA68A27605A60B274620111D376227D157D066181714CCFD42A3D33882335565F9A0BABD7154C5F12E67215567676193EA837EA188DEF143E98C7721DC539914C678E1876D334FB99627B848616190A9F5371251593381BC933BC47C1E5BA50429B1BF71AE7C11AB43273CDE9538FE8B21B310C8DA5A68D7828C60761F2178405AB96CC3D179E75837F7C69C0990C75DBC2718003862448EB3B03E6ABB535AD733F5701699D543FF893003B3674CE997E0C6AB8B7B2BB834C4A437068C9271F55C2FA3ABB4608CC88128B13EB17A2F45A7EA9B85FD3CA8CB70BD8C0578F7963AC76C3D39A44F2B87B1FDC24F15D32F2B38831D55722AEA8642A7CCDDF2011F83A740531990744A987152DCA2388BA27E3769C8BF287E54E41CBC0ECCA95CE621F29CA90D64E28A5BBC54C36053ED333C530F72549C2AFD77B10C2944FC833408FAF48A9254DD40B117941FA35A66BB50296327B725525DEEF70E128CA8045EC451";
-        textByLine[x++] = "ct = 03BC92F1DC73EF64491327AFA0D1BEC48B2EFDA3231940D81745A0A51552B1A7A3063A959D80BFBBD097F8302FDAD99C56F033AA417A97E8C46AAA42A1BBFC280E7D2B357166F3DD5392DC8F9C6F2406A1D887117977929FEFAD234D21C6E5F0E8F4884ACDA3D4A0B34856FEDBDD38BD1B73A5305DFEF2CB6A8156B2FE00B8C05482F684C45677E8B1610C41029486D91E47A034C198D2764927E3E3846F4F97A4BE4DBD191F833D083DEA7A9D770B6F320231D6661CB379C9574A82E5283E030625109DBCCD776CA6F540616E926A4D153C18E55B51295AC75AEBBC240EDA9DE3DDC4D230595632F1667BF419DE4B5A251FFB5917CB52DC4AF143285C73C958512E2BD525B00DC7C48B1CDD75AE409FDDDF35F8B39B3CFD52E3C62593C702A08F91E0AD271513B824C4DC8D575871A58851ABFF0CE49B78A67011EDAD8ECEA81F35995F39BDD4F68BB509DBB71732188DF58C118C7EEFF35D9D4EDD6B560AB9D1CB9FBA0E6A9781F143EF81F983DA0B242338DF20AD5EB284282696C891298F683B97E0D9F8774BC3FD746E09C8BBAE4A5FDE7DF67D2D3C3B5D139F908EC227E966FE8911EB89D04F01648658F7324D8670B493FED6B24559A6CD4F2A5C5D52642060C0070E13D4AEE74D09D0DB35EF5630DCF6B3BF5FF26DFA825E34E8A1975F7AF85024AA10975705EEA32899BB2533EA65FF3465F7FD8748FBCD5AB580766F209F6BC6DF1CFA4808081C27B2F950ED6A81D6A4404B04EAF6793DC60BDDA64662300BEB2D4537C2E58CBA9B4D4AF44FB060AF52C38B4C38BDD40A9AC82E1C9A03CEB0ADD81707F8380C77F867C26ECA7BAE091937CD264EB48B64B87D59F13616FAD1D85A8D7C79408655E44266BCABDEA75D1286738479914619D359321A7A312C803D484C457E7CC6941F6112B26E829E160474AEF57185A928BAC3769DEC13D78C70BD15372FB8588B6D930F13A72AF341E4D99343C15510522441F6F0D15E249447540DD43C1E6FF6E31865C0F6DD167FAAD9CFE90A53586E93F82D35A6111178AFF6664055593AE39DC723663453229ED6E23261F99D9FBFC4E0793D";
-        textByLine[x++] = "ss = 5E4E609CB40F37F28706F7892D5662509D8859CC28DD586D81F80DFB2D1EEEAC";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 52";
-        textByLine[x++] = "seed = 5DE720F2D152BF4E1F96A61E7AE5F1BED6B8548E32638C2CCEC9F43B87D1BB43DFCF334F0582984D27E440D519AB662F";
-        textByLine[x++] = "pk = 8B49619F318F10025F45EB7F63D1875E49A296EB1EF5586A9DDAC4A59BC96CB01E0AF7655B052F9A08B861F0573B8A64295315B76C3B0A13CADFA47E02C61825226D3FCC25202A862E509D0ED99521B1C46C7064DE830CF70497C934C7811733E9C70EC2916075EA425D3A0D03EA272BCB0F294AA32F1541DF2BBCAB251E9173701D8CC678009F0323677C2B0708A246408B4F37E95C170311BB15787E9B035FFB823DB6CD02E4421F3690644CBD4A413BC7E696D7491A6ED4018091A9BE8B149AD93C49F6424C218803B72C146CAB9721AB22C347787090D9016199E65940E19D6902324D138561592A0901700DC54058A6AB298B3D62453865AC29BC815E65582F9B8BB6B5E44C12316DE7169F4988C86F953A61A313E4A2734FCC24AFC60F6D22491E97BC688C528AE661C9923D587BB11D512C835A9FBB314C39109C3CA2166127084D282979304265D8A78EF343BEE9BAA7038B9DC9517200C4A049613C936F80982EFA61A3C0F18EDFCCA724A43C79EC2F03B99B656941D5CC040BA07C8D2668085A1E1D7A8E9448767E32C86315410F590B03B993F5C21665A7339DB6386E923F7B50809D528772C27660615ACD53A9753085E7B9C025B76B952518B5B11A778A880350AAD71B2DF3260633A570250805B4B0C8887268F1A572C86469E4A75194D50A6E89BD4B2A6D4D09698B880DFF136DEF5B03E66726DCF26FD4911BF3502EA40B0CE71C2588A62DD378447C5477DE819BAF0795134001BD1250AEC31F39A25C98C59938D97390A309ACE0BDE67B3D13CB46E89B3D7F8369FD539B639164F9825900B36895BCC60FB98BC0A28110F3A7AF4070C6C72D63096946423EF49269176A529B5792E4E10DECA940564906A29CA1B6E95352210992718248E664A65263A235B17293B6F4B45836166CC461AB04F91FD9E7CA24A891E44C2DF9684B85A5845EFA2003709B07A596F36AAF9224CEB70C98BACB06D0A1BE3B0A926D9C537223097F420A0C1A1DCF360D87D0825A417382C40F297A989A7BB827BA5ECA46395E4351AEC09420405E9A919F62DA58D9443646F48F5B863002D7C24DDDB5584ADF5FEF6BDE5872A551B6840E3A082A8AA6DFB7232A6813367038CC";
-        textByLine[x++] = "sk = BDB32BBC8A7399E7A4E9BA59AC9030BC29A6F85C8FE2418C2AEAAEEC3509E789A854B7126CB5402C185074A72C4F2A97FA34712EC219A8DB1653D214A9C623BD093DC15635A8675BEACA02B1B8B065000229464FBB123CAC72384CFC5F0205B76ABBC3FC4B2B94353D3BE038CA780FB5687332279A6FC379CE9C28314C4C4347268970CA5B3C084EDA04D8438961F4BDC40AC8BDCCCA6F14B4DB7376F8379B0B5A329C4C5CCC975ED3D85E5EA782FF7A1E23C6491BE04F84384E0BB56755B985F8AC2812DB5E6A08342772A66FD2A2130B621A84578D444712AC76F3107E1BA6366291A325CB4D0D836427A4A27F919EC234BCDE6932F42446D87140E2798837124F3F59045A45993FD82388A2702B014F956C59F7C85C3EAB0FE8B948B98714C7A460BD844F7F0A5F0D2AA1B6E0B92C934C28F5A42BB4A08407290807BA03605F676732BF6259EE8BAFEA9445725B20DCB23B52F969D67C3BF7F6C1B354A315DC2DBC38BFE501A5ED1266B23624C1920BBF493FBD44895607474A455544DA28682711DA721257709E616B504A5195939621E8255001C281757C4BCC85897951C6026550085460E3C19B8BB26374C24F4B245710C450EBDA82CC8ABC28EA0B21680BDC26948FBC6E13CB5DBC89B4FBEB5DFA4C338BDB3290D834EB06083B5C4655C571CBF03503404DE4860DC80934B2252555B4446CDAA14EA30E2A470CE2715BAFB5CCA084A7BC5595015892830B4BBD362D487C7CC74095E4E7BD1AD7C95E227C25A96621637EDD1B7586B026B32B1F2034075B68406DFB7C81C9AC18E56D12F96CF4E4CA77E280350A35C20CC3FE48398BA14050FA515E116DFFD8106D815DEB282DAFAA71F9DBBF5047125512268EB41E7CB16EC4904D80A6C15D1A130C123BF3F4C99B95A569653E5485A5CE9A6396BA91C3130EAD31AB5AFA2249D0CE9ABC0E27F451283343430B8909552DA1DB0662330F64BB7ED34C7343E7B61560C1E2E601841A90F21CB177FA55A0BCA3089462B8B61C8746726B203AD1581FF830B0CAF3067130099CE24FBD550E1A6B325D4A71EA542999F87955A986050B0F8B49619F318F10025F45EB7F63D1875E49A296EB1EF5586A9DDAC4A59BC96CB01E0AF7655B052F9A08B861F0573B8A64295315B76C3B0A13CADFA47E02C61825226D3FCC25202A862E509D0ED99521B1C46C7064DE830CF70497C934C7811733E9C70EC2916075EA425D3A0D03EA272BCB0F294AA32F1541DF2BBCAB251E9173701D8CC678009F0323677C2B0708A246408B4F37E95C170311BB15787E9B035FFB823DB6CD02E4421F3690644CBD4A413BC7E696D7491A6ED4018091A9BE8B149AD93C49F6424C218803B72C146CAB9721AB22C347787090D9016199E65940E19D6902324D138561592A0901700DC54058A6AB298B3D62453865AC29BC815E65582F9B8BB6B5E44C12316DE7169F4988C86F953A61A313E4A2734FCC24AFC60F6D22491E97BC688C528AE661C9923D587BB11D512C835A9FBB314C39109C3CA2166127084D282979304265D8A78EF343BEE9BAA7038B9DC9517200C4A049613C936F80982EFA61A3C0F18EDFCCA724A43C79EC2F03B99B656941D5CC040BA07C8D2668085A1E1D7A8E9448767E32C86315410F590B03B993F5C21665A7339DB6386E923F7B50809D528772C27660615ACD53A9753085E7B9C025B76B952518B5B11A778A880350AAD71B2DF3260633A570250805B4B0C8887268F1A572C86469E4A75194D50A6E89BD4B2A6D4D09698B880DFF136DEF5B03E66726DCF26FD4911BF3502EA40B0CE71C2588A62DD378447C5477DE819BAF0795134001BD1250AEC31F39A25C98C59938D97390A309ACE0BDE67B3D13CB46E89B3D7F8369FD539B639164F9825900B36895BCC60FB98BC0A28110F3A7AF4070C6C72D63096946423EF49269176A529B5792E4E10DECA940564906A29CA1B6E95352210992718248E664A65263A235B17293B6F4B45836166CC461AB04F91FD9E7CA24A891E44C2DF9684B85A5845EFA2003709B07A596F36AAF9224CEB70C98BACB06D0A1BE3B0A926D9C537223097F420A0C1A1DCF360D87D0825A417382C40F297A989A7BB827BA5ECA46395E4351AEC09420405E9A919F62DA58D9443646F48F5B863002D7C24DDDB5584ADF5FEF6BDE5872A551B6840E3A082A8AA6DFB7232A6813367038CCDA073C98794493EC169C78EB75A39C1594CCFA635B8707325E0AB6CB8576E30CE6C45C7FC62329B13C8D29844405DB8FF6860DE474BF727ECD19E54E6E1A141B";
-        textByLine[x++] = "ct = 906B8CE2A58B9AA6444EFEF6E6DA810752E3CF437D66CA42531C8686D10885D66C617B549876F67978CFB7463F52FA510CCFA5301AA735846A12870379D43CEE0FE04D4D097D3799C8FAF84C3FA0D701DE5796DC371A6BCC06F50FB1736A3B9F94FA750DD1AA801ABD8FAE3FAB4D59BBEA1BE4E7A5091859C754B4E4051B7A9FA466D40AA23926AC8EDB4392AC9E20FE040BC81F466D2AD3F129B2F04B9521976B5701BC455DB343BCCA57EE1547AF004AB6DD8CEBD3277B3CEE58BE476525BD31029CD4545F0B6614B4F8C0B587B11CEB7ED64DA771468A8F3DF457D4E9C23ECB198CDD345D5804BD1AACD3D7E806CF078CB81C899972C632154ABC6B9EDE39FEBCE110E976F78F9E4D430656AB2055CCA5DDF1B2281CE7A2A46BD68AE2CD1EDE96B60CC37FA01B83022768BEFB545145DB9DAEC7A684BB15503F2B5B2B8A9644C2C058C29B594AFBAFE878804E984EE2B354139B7C750D170BF9229D0138B2D333ECE5AEDFC12CA46200970C750E051628EEA7955861DF26EC22A116E1548E0DF45D87401A6913364BB270F2C9DEF9AE6C6D68E8E30EF1CB70DDE6FAFCD65BEB3FF4AA664CB47A30AEF3BA4859E896214035088A639AF83484769CECD9B582396FCD12D996FA847A4271445AA294DC7F7492D8095E55A5B3304850F7EF6486A4D6B8F793842EE60A57D8442F1AD21137FD347ED1CCC6332EB0F3CB72663BD62D2B20647E32366C1F80E987C3F9036A392A50DB3F53E790DD7F1A94FADD80197DF0A49D9A88B972F6615F996A90946BA75F4A9F0D3C99E7E4F6EF1F8519EB0B1386A5E9499F7D6C7B2FDBD0D5983531175A3B410ECE9292246B352935426AB8B6A5E4CB146BCC34A9BCCF66F48036C34E837A262E8B6292ECB872EE31EB4C3C7419B02A7F11FAAAAB1A1165BEC8C66130EE2F5D6A6CD1AE4E690D3A30F48D03FC185A65597C0B06224C74DB7DC12178881CB133FD94C9A2489349C94CD969A39956D2DF63CCEE6C8D02CAD4EE698CF2FCEA2074A92B59FCAAA038DE4C1E9D8B1C20EEECD3F87A20C66031C849A1784E81E9645A4EBA44407C23C87B1C953A84";
-        textByLine[x++] = "ss = B86CB3A712C8802B28C25580052CB039E6DD4A71D01FD04B76839CEACC4FBBE5";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 53";
-        textByLine[x++] = "seed = D71729DCBB27D7CB39E9E905025D3E55C8602EFBCC483C9B866EBF82326157833169243C14550AD728BD1470F39C642E";
-        textByLine[x++] = "pk = 5684BC32BA5B14F6999A9C794F0C6AF04803FA57CD54278313E99327D579B217682B1B86DC02431C6AA125062367798F2C7B1EE7F907DFE42736CAC924D169351853F15B944578C5543AA27B626FFE7B3114A11805D8A3FD464EC46B912AB89A3DF2A561855FBCB3820F4C11FA7B5E3727612E685830F3AEA6C9881BBB06EBA102E3F53E6EC502A4EC98F9C1AF0D564DF79C8D7C403C4843CD6D05732000C6EEEB17CAE7032FDCBC275949A8D0501AE182CAD756808CACE516B72696C618B319F56615BFD0472C76A5B3B4B6B2471E1955025139C5805C095867BE34657C5AF333C9111B01DA84198A8D33655A37F6AA3F35B7E6F34B1E2B158987CCAE22198AE605A9A86FB3985F189292785A14FE2A4DE8E245A1DC45513BA55487A6D45940E62B6E6C95CC83264C913C578B21260625B7BA7339057A94435966DF3033C647BEAAC74BC7014B01DC539445C77509BD481C525A226DD44966FEB66684644F598C9493346C9071B16576978F477EA07862863191E02805FE4C54F4153749B222A001AF7396A2314054548203BFE66080CC0EC95C2B86223ED936268FE418486A58AFDB9FE8DACC49427597E4198AC4C8DD747AA56CC22E38C7F140988EE37DFBB251762868915B6AC205A006846D74E8734A930211941C4E5721FF281551605866DB0F6BFBBC9FCB649B45249B9610E647C827CB983D61A6C9E717206135E40780F99495AA3C9C6B619E47B40521DB992E5329C4D3C894342E2AB2808C630D9761AB13416C55FA1F1EE2B7C918BF78832B23BC4561F6CADE041F4223067DB18033ECA02D243811132C5D98ACB172BD825660E07007125B7428F7403BD2C19F522588D20413162253A95F3E54738AE8694B7A5BD13C7B0A41ADA087A8CAB72B6927B3AB614CD6A00A00E2545FC7CE547A2F3B320B9711167B694C75EA6494047A8B6C07DF344DFA099482D322FED5792D1507B801424BF50FDD2088C0F18A9BF31AEFA239FAA50C01C8866D0389ECA7A521CB9028F94AAB585841C021DFE04A008A8D11D23D534105AAFB413450A2EBE6918EAB0E641BAC2D000D7FAB0AD265468E9FE10B44687F9AA606CAE8888E4C21AB0F7B85EB3D3A2A3D2FE8ED883D1DE0";
-        textByLine[x++] = "sk = C6420C2D0681C74C90B9BA6BD94054EFC357C500BEBD15A0FF4A1216271617E220CF7A6F46FA77636C255E9885418991220278023CBABE86770B1C9761171187937C00FDBC10783F47C7388D367B03756EB2804CB53C8CC4989FF3CBA449014835B493A452180DA54877A3A6DAA63357D2408E5AA0A274175E427721989F954942AE7909DBC2A987904946766EB8971A8F1277F4A155E792AABA1CBB9CD09647D589E9863B5BCC2918150444006B509884C2A96A817C9EA900144F834B0CD74AD0121BC1B93F7388925523711327588A74A58DFB7780003E5F2830F15507FD2B5057E5C74E306F8F26844994049B9C5C338909D867C547D64EA6A691613067D3670D8382450F191E206187912425795BBB31D7AF1C22A99CB72E05A5A768C855AF3A0CA56480B8DB26AC36CE8B582B838B8A488C4F744BA785B8BBF4EB4578985F7BA29F3EC60541FBB4A47A84A5504562B1C36F24C0569A7F24998D90C9B1E6D5393DC96CB1748EB4C5C963E46431D45F70B536A2DB0132A44A9A98AF50087E88A33002A3ACD1875FDF91322DE0347929354A6C5BD52585FD97C8D111A5494AC1CC269C075AC6361B71294494075043AE6B1039F28A51E51368C419268C5001D44D680C0BACB1304B7719FC6813F9B152764B80BA56588250A035822C4760082A265A7F60BA94ACB1D0F00A6B10068F832F4496834E505BBD4A3BF2262B53998001A6C87B0B6ABF07184B302DF8C04B794079895157CC1211FC6C4E87035DFC08105FFCB811882B3A08C6060B526CC92916131122A449057160DC03C8CB985D921881269B070C35CFBA1A95412B8C3F13B63D82641B453BFB76AD4181573A27B1A31C411EBC57594B742E53424C549932624B0675795D568CDBEA4803E2180B084A52BC7653385EE4801D09014C0F63C8BD8C7E2D2324EEE42176D9A1520185A4CC255B0471159CBB29708183B72D6A22AA3A55B672E28D6F7066E2D47270141C809A86E60389D838C0CEE42324B97CF9DCCAF435CAAD008015E83C78217D84CA93DFD165F41C68A7F66C98F21CAFF200C523C7291C57F8786CBEA3734899705684BC32BA5B14F6999A9C794F0C6AF04803FA57CD54278313E99327D579B217682B1B86DC02431C6AA125062367798F2C7B1EE7F907DFE42736CAC924D169351853F15B944578C5543AA27B626FFE7B3114A11805D8A3FD464EC46B912AB89A3DF2A561855FBCB3820F4C11FA7B5E3727612E685830F3AEA6C9881BBB06EBA102E3F53E6EC502A4EC98F9C1AF0D564DF79C8D7C403C4843CD6D05732000C6EEEB17CAE7032FDCBC275949A8D0501AE182CAD756808CACE516B72696C618B319F56615BFD0472C76A5B3B4B6B2471E1955025139C5805C095867BE34657C5AF333C9111B01DA84198A8D33655A37F6AA3F35B7E6F34B1E2B158987CCAE22198AE605A9A86FB3985F189292785A14FE2A4DE8E245A1DC45513BA55487A6D45940E62B6E6C95CC83264C913C578B21260625B7BA7339057A94435966DF3033C647BEAAC74BC7014B01DC539445C77509BD481C525A226DD44966FEB66684644F598C9493346C9071B16576978F477EA07862863191E02805FE4C54F4153749B222A001AF7396A2314054548203BFE66080CC0EC95C2B86223ED936268FE418486A58AFDB9FE8DACC49427597E4198AC4C8DD747AA56CC22E38C7F140988EE37DFBB251762868915B6AC205A006846D74E8734A930211941C4E5721FF281551605866DB0F6BFBBC9FCB649B45249B9610E647C827CB983D61A6C9E717206135E40780F99495AA3C9C6B619E47B40521DB992E5329C4D3C894342E2AB2808C630D9761AB13416C55FA1F1EE2B7C918BF78832B23BC4561F6CADE041F4223067DB18033ECA02D243811132C5D98ACB172BD825660E07007125B7428F7403BD2C19F522588D20413162253A95F3E54738AE8694B7A5BD13C7B0A41ADA087A8CAB72B6927B3AB614CD6A00A00E2545FC7CE547A2F3B320B9711167B694C75EA6494047A8B6C07DF344DFA099482D322FED5792D1507B801424BF50FDD2088C0F18A9BF31AEFA239FAA50C01C8866D0389ECA7A521CB9028F94AAB585841C021DFE04A008A8D11D23D534105AAFB413450A2EBE6918EAB0E641BAC2D000D7FAB0AD265468E9FE10B44687F9AA606CAE8888E4C21AB0F7B85EB3D3A2A3D2FE8ED883D1DE0C2AA254714DAC09B9E712572B24154BE391063AFD3CD8CF4CC4ED8EF21F0CFE55A3407F591791A5DB4578B5972093A95BEC3B8E70C1D542C9B5C9789729F8922";
-        textByLine[x++] = "ct = 01229A11E5A87C3CC2CD936954E259C0DA660F7776D4A758C8E43169DAFE22149ED1ED8CF31AE7F16E4E1DF9670A62C24C4A50DBDA7F60414D439C9545D702346EEE0539BE5C3B0E2181235C966EF54CB88BEACFE8997B5E206966494325520350E1E61C438B6DC0237AECD929F93FF3DA0017614B1CA5C1B3571156E2F40301261536BEBD813B71DDBA08A5ADF2A147ED013FEBE97AC28AF24EF5970BF331880418AFDA9F849D53F41507395FE43CDAB8EA0E87E7452833DE66069286B74C8C7242F8F5A4C62DA98BB1F618958C5D0EBEF9A071330F65B401EBF752E2CF02F4200D877A6C5B205C44D19FD79F31E79C7AC007B0BF1A837DAB446FCD450160381493688FCEC6E20497EEE3BC6B799322D6501CB3439B91E54E985A8BF6D9B8FB08914641220A530AF244A51B9E9BC791C1D49CD86793AF91E453F8E356A25C207E8C0C67A711D7B33012AC33D216E3AD1A1C2951823D819D196BED7D0033C0E77D3A296A56F3B159C876F1FFB60D8E4E02A84625F6E098F39B4E0CC343907ED4BCC10EE1814C1018908A63BAC540313D9C23A23A133C6293B1C6125E37C5CA7A68A16B78A632AF1DA08ECA1D17C776F7CDD19DAF1304A2E4662CF56CEFA7197E7FC66071207EEB838C1614B01214B71BF024A66FE17D9B2DD01E8624693C93865C0AF4FE41E98C4B94B9406E31551E69ECDA3149CA4D16C3137ECB03587BC280E60966D10060059520FD710F277748ECA6E6C33BE516C149AABD230FD2D0EE1F9047D8B0179E04132330AFF0E83C96F7812E9E888503ED26C0463361C55397C88A3A95358BAA52C9A0135DDED2CDDF7B467D2BF2D617CD6A829E93B0D671E04E220743E3DBC1C0362208668146C127F80A2B1257D054191AD0C0A3CC3D9C625705826E2989FAC0481F5B311AE8913795EF43529D40BF0F36E7AA5E206BADCCFFA9CC5C574F93582C959D038D2EF7189186F8D9B0ADE1AC23D45F9E7F98EDBC8E6C76BB7F52E821DF3DEF5E121DFF2D7502DC8BE93B8B5C9DD7BB622D431E50286B6E4A00A7B847D5F9D01316C473CC20009ADF6CAD85F9FC54C848909B3C5C7F";
-        textByLine[x++] = "ss = 1B4914E23B4B81DFE9A3BF8925C4A075C0B50B932C2FC53060FF4C9906183EF1";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 54";
-        textByLine[x++] = "seed = A7C2C8EDB3601396BEB2DF0657EC82FD5780A2723581A9E03DEE1CDB018440439BB1142CAB0487C5D136E9AF46338AB7";
-        textByLine[x++] = "pk = 9A3AA452BBCDC82111A6EAA59B04BA8A78BB9474659CC944E7A883780815B899CC64219DFC583F0CE4103EB04EA7E60E2C627A91B28A32843CB395021EC544005326F12B53144CCEA0096D8B186FBA2CCBB9E4197A43406FEC09F53ABAC00245CE1A239790CA622401DF204A90B4A438D33391DBB10CE1AED56456F4238AF548881D188F0976887EEB672CC91078474CC2C289DE2459513BA16458AA5FF06EA2746D4293B7EC95078D9346D0197DC9A93B2C153ABAD1C62758CC2F57544F37CC9597691047ACFCE10BE1246FA51B056AB87F24C38A0FE36813316191612E9CD7A26B745F4C51A1A164422B4502B073185A93725BDB606AD6850CA5A27F7C2E8002AA709517783232514309B3C280444C0706422652B170011122E0CA821B5117E530CE07282873ECAA7D751689657AEFD5575A7CCB65515E1DBB647C31B1F8578120252ACECA821DF0416C6780B9F9988AB68C72C73538CA21687CB4654667D3E9BF8A0BC6263053766C8180B8079AA8C975D867B36B45BB709436265FFB0524A0B143095351C90541F8437E756A028BE92910341DB30B8A94290CF1F9042B6BBC99411B72176E7C5A830BE2569B695E40E63122E574E061278A35C607AC8D491B60BD96917D81154E9A244DD014EE85CE9B0691C21C08CF2B7143B21EBBF71412B873828A66286CB2B4F11C73954AA64B1717769573AAB29DE4CECE271CFC549F7F26AEB28360D22926CD16CB67F0798A1C1A03F706CB3B37EA250B75B1B881C36C86461597292561503E6F3405B19A3FC3A8C229D51B6A5391964A4C05DB926EF13401250E4A8235F8AB4FC3039F61446F37C1C3FB01B626E725C8C5031DB11093017A0BB5905FCA5A2721C35AD2100A41567EAC8A1F5CABCBF79C87D370311C65FDB69F8F94B3A3751BBFA83E7237329A8C118B7B7AF9816E0922661869A2E68C7DEEC83545915CB11570A4737542EC9AB52246E7B58C0DF812E2672F86AB92C788257F69A0F62B8F7757489A182DE8F626A4A91AAD8A06F9013A9BA28D3EB6617A21C9070CC65E3551DFFBB66EA449221C17EFEBC429C489FE107BC50A755E4C3941A07E45AD3ECB9AE67E7527F70F6E07A757BD112947074D5120A1F2A1";
-        textByLine[x++] = "sk = BC6B78C468375DFA71B708464BB934109C1720CC0B3F0B3165D968390C9DC90584D5F093CCAB5F42A44E54D61BAB919F73DC93C7823FC9A36FF8C67E5E840AAA5282D035BA6CD41F12655B0D9631CF3722C669BCCD01AE3129BA7C1BA1D95544A3CB3C2EB94E4D305948840680E8ADC651AA42712358A6419AC5626C52C0B4BAB13C03502D882A33B710FCD64A16838E38C682E3A3968F5044DD968232599B5E134850E874AFF2A8243BA3869497502827E87282FBDC13040A1569C5023675036364932C445073BA7749D470F98751F6471B4C198C3CB69CD110BF945B1A43489644D0BDB231AE1761A5EB912DF7BA8C3F815ECA6C2CF71907C6BBA149607734A412E2A4587BA64900453600AC72F6740B644265A563AD17F3C4BA328CABA49393D4C201C8A03079B482A49188D249869326CC5B7C510258A533416D508B62CB1BAE79B361B6B78629AAC2F0C47E056E2508CECACBA42E0CCA57A8C182E203371C7533D3454DB6585C855328B31DBDD4BD8C232AC8263CB960BFA9E53E4BA733AD822E6919AFA507753FB19E279637D9999E2FC948304A4BEDCCA20F820ACEB36813A36695ECAE0EC790EF810D4A2C8BD940B6FE3163DCC5B53E20B608CA76D6F70C6419C1C0886683E506F130315A600D8034B972959D42008D5912C799134EDA79C0A4C6324F636260778832358211E3A4277268B7074F04E983890130C85C8545DC374E61CD9C5483430760CD3B218C887C22E0C2DC4C2B8E275C8851105FC08FA8609BF6165A029A153FB38282240ED44126379143A454245028C222C65CFBF2824CD61BD3474E59900E162703ADF13B1B394CAF948F8CD070E22C78C6A17336C6863D360D2BC08848F964FBA4A0AA4A181ACA56643667D130267F274446B7020C0B4D9DBBB025EA3F90D5219E753391F2B3D489011A1C34CDAC46E30B4DE544AE19B530D46571D8C6BEDDF9C62126089982A02612181BFB9F3913CAF9E0732519C5208B2A52A53FCD394583762ED3973165187505F2274EFA03B6A79E6A39297732A880638E2CE18178420621E1435E919D00E092CC2571D8F09D5CC7B19A3AA452BBCDC82111A6EAA59B04BA8A78BB9474659CC944E7A883780815B899CC64219DFC583F0CE4103EB04EA7E60E2C627A91B28A32843CB395021EC544005326F12B53144CCEA0096D8B186FBA2CCBB9E4197A43406FEC09F53ABAC00245CE1A239790CA622401DF204A90B4A438D33391DBB10CE1AED56456F4238AF548881D188F0976887EEB672CC91078474CC2C289DE2459513BA16458AA5FF06EA2746D4293B7EC95078D9346D0197DC9A93B2C153ABAD1C62758CC2F57544F37CC9597691047ACFCE10BE1246FA51B056AB87F24C38A0FE36813316191612E9CD7A26B745F4C51A1A164422B4502B073185A93725BDB606AD6850CA5A27F7C2E8002AA709517783232514309B3C280444C0706422652B170011122E0CA821B5117E530CE07282873ECAA7D751689657AEFD5575A7CCB65515E1DBB647C31B1F8578120252ACECA821DF0416C6780B9F9988AB68C72C73538CA21687CB4654667D3E9BF8A0BC6263053766C8180B8079AA8C975D867B36B45BB709436265FFB0524A0B143095351C90541F8437E756A028BE92910341DB30B8A94290CF1F9042B6BBC99411B72176E7C5A830BE2569B695E40E63122E574E061278A35C607AC8D491B60BD96917D81154E9A244DD014EE85CE9B0691C21C08CF2B7143B21EBBF71412B873828A66286CB2B4F11C73954AA64B1717769573AAB29DE4CECE271CFC549F7F26AEB28360D22926CD16CB67F0798A1C1A03F706CB3B37EA250B75B1B881C36C86461597292561503E6F3405B19A3FC3A8C229D51B6A5391964A4C05DB926EF13401250E4A8235F8AB4FC3039F61446F37C1C3FB01B626E725C8C5031DB11093017A0BB5905FCA5A2721C35AD2100A41567EAC8A1F5CABCBF79C87D370311C65FDB69F8F94B3A3751BBFA83E7237329A8C118B7B7AF9816E0922661869A2E68C7DEEC83545915CB11570A4737542EC9AB52246E7B58C0DF812E2672F86AB92C788257F69A0F62B8F7757489A182DE8F626A4A91AAD8A06F9013A9BA28D3EB6617A21C9070CC65E3551DFFBB66EA449221C17EFEBC429C489FE107BC50A755E4C3941A07E45AD3ECB9AE67E7527F70F6E07A757BD112947074D5120A1F2A18AACA951E0573F28D50831960A28DD11126F0EB080AFC55F394E8EAF6379F6EBB9402BF02481CE4B27A52E87FEB92C4399C7F2988D40E942E7496AD15AD2AA88";
-        textByLine[x++] = "ct = 54BD48494E96E3A26CFDA16C234ED14D17B56448C13F2A4B38586F871BC82036BB3237E633A8DAB4E649F4BA8CA728338FA0491DC5891E04DD290B95176A590B13A4E9895847AF2C5D68C0D4E0BBD88BDA29B425F18FD06A51516AE1D7147190E53E88592E5F43455BC030E127EB54428943A37CFA461430697F4FE3908CEC12B70071695B7F53A3B69AEAC6A0993BF7A047AAED65735C7438ABC98038D50B608767C972F4A1CE7E7F94CC619F5E032C8D725284C3C689E334303EE4427719B0A67E6085BF9A98E90F5459EE5BF8AABFD9BF1FDC8DD9DC9460262504F8EACE7F45ECB13A78ADBBCFD18B4D0CEC2DC40B17FCB4F2AE1122D08B97EDA0C85F87E079357EA0BFA32453308CF2841D49B41783F85847787C26E5CC7C936701D3701DE41104A6565BBC5DD93CF550C1D87D0A003B75D17872A97CAD3FB3C69B0DC8319A1AC6E789D9017AFB6FF13744C05F895582E97A4B196583D2ED35017ADE2600C06A9E0AB584A0AE3C8010C09CDE95069283E3F1687191AB3C4DAD69AA6377A07768519E102CA576690324B4C51C8F0D69DF16AAFD4E8E9BDE897C5EBA2362CB6134BFB35A296C745A9A9D73837784E35C2EC900572A4FDE989CFB1CE0235ABA28AB76A00F10790AE2F1BCA3904BBAD0CBC7CAF1219413EFD9EDB94F1B879D73A1C6FBA500644B61511291C768F0F6940AD76333C25F1A9A4280868764B9EBB9B1F166E000177B0C9CCEECC3307B860389AB48A3C27A6F384EECD3298773D1194466611B6B75C4D56596EE9A4885357AC138BEA6BF660F4EFB73002160F5AE1E2CB7FE46FAFD9D5D50550EADD98BA8286C2946BDC0B021AF3A3A82D774BA8F2B94099ED2C0EA58C427AFF8B16F670C9B46E402C673E83C5A177C3B861F5890A8C306D60101E214D31C5CE4FE4DDEBCD5F4DE0E9110198ABE9A919AD80DD020F30F9912CA6A3D65D5D9F4EAEE2423B09FDF81A2870505431A5B31C80F164333E6945DBD45EEFE0E90B9FB33AC8929B35FCABEBB1EF579A25D312E161C0C874CE086866F0D4DBD32A9ACC5DB97DDA4721ECAE03A21844B23CA6CA8A40EBBAE6A61";
-        textByLine[x++] = "ss = 1C657D7CCF0D7CBAB51DF5E5934548EFEDD2B91FA7A4CC8B20288F78C20B507E";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 55";
-        textByLine[x++] = "seed = 467F6158CB86B724039FF18C47950AE5C49170163C910FC9A9B30141F86E9C06EBCEC91497BCD156D95758C9F0C6EF91";
-        textByLine[x++] = "pk = CB0842B8B213052794E18787EFE902D94C88C0986ACFFC72DAC4505E4C36CC7B4990353E249112A8251E887AAFA1CCC9C627948179A747B5CDE3B0409D5158230B56DDC86CEF9B241C044FB3D523FB909CE0065E260879690BCDF70C33C24303F81143624446FBA37748F820CDD97E50D7A3BEC058C404C458294EB812908DD87E4D652D51824518B3185425AFA4EB9596C38C08068F21E79A1F8C91903834D2DB720A285F65444412B20A802C399BB56F461AA7631603B85C18A9BB7C83F6C825B9A421E59718B43D745C3667781F819B2014051BD51758524BAC2DC9176CF3A54D379F9EFB915255CA5D14CEDA1BB17F25B3D95645A1AB3555B1950DE9907289BDD8591F5994BE7F920D25940BAEA14226CB6907AA5EC878CA37EA698C84819B62C2E13115DE0AC334169F3107742F42A9B02912B74C39CCF5181EC5C0686C785E246C424143F5363900C7C22DF505D1308F8483108F31003A126401950E2AFCA878443722B30246344EC2290FFFA542D6598F14E803F9D91E5D050541FA2C52FC3A5F2CCEC895422F0BC3AF2BC98C5738DB99A5B5491149E25746E262193965815570B9D353EB1AC9EA9875323A33FA4878B06054E3867AD9A302B6A43FF902453A92517C7055B2261C7EA04F3F6051C16AA727C169C421A0BCD036B2EAC82ADC3EFDE4BC28381589F36806189B780C327BF4B4B9B11DBE036557CC38898557A8A48693FA70984AAD327078C1F851EF3409CE0348C16202385C22A70A0C0D54A7E727C0FD386845890DF7687A6F65232A327D8B778EAF5A29F43787646C8EADBA0A1A9B5C2A6473252AA6F12954BAB410E4AA4108B48F618BA595159EA8737C7870CE4B0791706AC871111B39F71B0A394D0482C5D61C4D4D5B3AD0F5936002477763774CC2A06E7681D616B12CBB18C9E0681EB66A724123EAFA52F63B2774829A373AC8211CA3A9369F128B2C810496C8A9B32D0813BFC2CED0904CF0BC24222B96AC4897A7F4686B5B2118780B656406CF42294579036DC995C42089648B63504B756B823D22C54D2FD7428BDCAF74113D6345C1EB505B843291A663A4A5EF23C5D54C68389E610B30DE122C2B2CDCEA30B3C780612FB9992721E26273";
-        textByLine[x++] = "sk = 5722777C9100B2289D443400F2B5AEC17C0F4F87A49568870A50AE1E30CB3F051D541A1A5203858FABB4575B472F9B4888CB5AB3900F1E316FEF1A89D041C2868B26C7FCA4B2BA6FC0E87382EB43E8BC99AFE986B26164B5709CF6F5AB83996BDEF929F67763D7F51083A414F786508BE47C908064D47B7CF0B0AD934C03BC6A6AD89247708C47B49AC1B0CBA389EB5281B8275CF8334E89907AC298B86866D2AC854BDCC0D53241D2DB6BA1A84051FC809C224ED1C93C0EC67CE9E13CF2E05DC2EB30F19615207C47C69689B780B695F8C70D7970378455BE3728C2935BEA297B45E9C063025D8309C9037A38364A7CB9FBCBEFCB959F64723961ADAF07A62D38A961D408CF3276A994B4AD2B3914B63CB196C71BE49C9CA4141B02312A5AB1A2B6AC38D13046A05752E431529B84D7B57C75E27404630CAB837BF3D32BD41CCED982C3F1B7CD1D534FEB414F83870DF581BB741A3A88515523143DFC353E4C6649DAE801E4B531AF1164AC2C8EA6A44691998BEF1B09A38A057344BADB07CC8A2756B9351C2A2C70AEE67555E391C3251A997A5071793EB2D508698BA8FC18CD9690AD5AF22923C402A951A724931BB395127D63A1ACAB2A24060E72923CECC40892B04B5CD94A15585F045A9AEAB96E1B3AC25EB0A3DE579964AA4C6BA5107B41B02E36335F42AD3FCB15849425D0937205120427494953D43CEB514D718406B7F40CFABC5C57911A27B2338C14CA0B505FE26296E259B6B61C73B57CBB9700CDF318359A4742B55A7EBEE072280CCE8512842D523DC7B969516345812A6585D828FCCC8A85C6403DECB0B63C9B6384C3D0FB224C2B53F9534881A01C0A642C8064B17D2410D4B73819BB81257B58CA7B0021F6514D7C277C3A751E323AB546B86812A8D660CFF93CC3B1E85F9FA0C5DA791816C864533410E2345A3B36033E97AAC1BAC96A280DDD70908B68221353526312CB836915D7352E453C069EA78D8D135AFDB8208A16A6BA8B39FBBCAFB3FA54E9F808C2B28D63079B5D3B990CD4A94331A9020AC8C37742C9860E487931EF9B9088E5C9F55265ADF006025A6BCB0842B8B213052794E18787EFE902D94C88C0986ACFFC72DAC4505E4C36CC7B4990353E249112A8251E887AAFA1CCC9C627948179A747B5CDE3B0409D5158230B56DDC86CEF9B241C044FB3D523FB909CE0065E260879690BCDF70C33C24303F81143624446FBA37748F820CDD97E50D7A3BEC058C404C458294EB812908DD87E4D652D51824518B3185425AFA4EB9596C38C08068F21E79A1F8C91903834D2DB720A285F65444412B20A802C399BB56F461AA7631603B85C18A9BB7C83F6C825B9A421E59718B43D745C3667781F819B2014051BD51758524BAC2DC9176CF3A54D379F9EFB915255CA5D14CEDA1BB17F25B3D95645A1AB3555B1950DE9907289BDD8591F5994BE7F920D25940BAEA14226CB6907AA5EC878CA37EA698C84819B62C2E13115DE0AC334169F3107742F42A9B02912B74C39CCF5181EC5C0686C785E246C424143F5363900C7C22DF505D1308F8483108F31003A126401950E2AFCA878443722B30246344EC2290FFFA542D6598F14E803F9D91E5D050541FA2C52FC3A5F2CCEC895422F0BC3AF2BC98C5738DB99A5B5491149E25746E262193965815570B9D353EB1AC9EA9875323A33FA4878B06054E3867AD9A302B6A43FF902453A92517C7055B2261C7EA04F3F6051C16AA727C169C421A0BCD036B2EAC82ADC3EFDE4BC28381589F36806189B780C327BF4B4B9B11DBE036557CC38898557A8A48693FA70984AAD327078C1F851EF3409CE0348C16202385C22A70A0C0D54A7E727C0FD386845890DF7687A6F65232A327D8B778EAF5A29F43787646C8EADBA0A1A9B5C2A6473252AA6F12954BAB410E4AA4108B48F618BA595159EA8737C7870CE4B0791706AC871111B39F71B0A394D0482C5D61C4D4D5B3AD0F5936002477763774CC2A06E7681D616B12CBB18C9E0681EB66A724123EAFA52F63B2774829A373AC8211CA3A9369F128B2C810496C8A9B32D0813BFC2CED0904CF0BC24222B96AC4897A7F4686B5B2118780B656406CF42294579036DC995C42089648B63504B756B823D22C54D2FD7428BDCAF74113D6345C1EB505B843291A663A4A5EF23C5D54C68389E610B30DE122C2B2CDCEA30B3C780612FB9992721E26273F15A8FC937B12FF78C54FC273FCD7DD5611E5835472ED377652AE64495F9CF5224C3DA70FE850E80AA818301D60C70F3038153866DCD5D179E22DB59B8991BB4";
-        textByLine[x++] = "ct = F43705E8F858DA8780EEC1DFB6864753D443E90D9839EF0D8B36E8EAD3B9BDDF7DE9C81C315ECF002FF3142B995A2021E28FFD12C200648DBB94B6918AC7B49CDEFDBF7A51F0DBCEEBBC48D7BEE32B30B9CC1DF749967A5F069A939E3B43162EBCC07A3738EC83992A29133E39EF39DD18BAA356665FC6E250DFF8CA08422A03EEEF974AA6B4F6FE141DCB4604119D2ED5C70E0E846DD4EEFC2D863C3E119CD53EF1AC1522F1FBB1DBB778D67035CA9FCB0FB9A30B621597770579E6FE151EE175F5FEDC26D085CD5F9DAA7F5633733FC6D85A2C1F9F1479A6B023A63FC612006421DDA279852E9D7BE443E161F08EFE9AC9050499DF4E66D62B9E2D51311438DE000FFBDF26767410C2FC88D35183A7C9C01A703AB7F5A669A1A3CDDAABC3A5DF1DE7090A9E2139C384A27B5397BBCCA47659E6EE349316972D788225F2BD868BC248B32F0B9EA73882358E2C425E4E9E2B7C6A4046E20395F31AC8ED53CEBF9F24C19CD8CC565565AE68106AD1C80A9A47C626615BD811874ED7EC76150F61B067CBA71321C103EEFD9ED73674037F30AFA06512217FF39B562DF5AC70648A4740B66B920081B041A5654150DC5D080B0E02D37090817EA09C1BD3FA2CD778D57CA8A3B90F4A5F84A4DC082BFE7481B1C07608C134B274F2B33EC4E47D8AF78838B19599237F2035EE6C2A6EC5495A1259CCDDC48FBAAD38A9EFE80FA1676A24D483045CD409CEB3B40B85594EAAD4CC95AE76C1FE70804EFF27C16A3ACC3E9E75719D20FA1D94E0D12C3E08901819608E08DDEA772F5E5A89FE8281C79D0A6A5C37D0FB3742E55A6D12675EB9601139B1A24C3D44909886F1E80C18B1F1794F6C933D7E7F1A495B26555DBD26890E4DF81FFB2B5AD1F140584E438BFF72ADB5457BA841D584F90975056B9E08B342EE9B450480FE7B3A719A4E3823FAF703557C8E230F4B7B20B7BF46F2A1B7AE4F4CDC4B4E0E0444120192C89F01166C24E392DC0E2CC9F3F4E787199BF721F21BEFBB236EFE9911236B36003DF5DB14CA36D97FC629385848AB29C6121572570AFA1BD7FF74BB77AD0ACF3F7748E94253";
-        textByLine[x++] = "ss = FC8EBD9F44C6517D7AA5BA22496C6B59704C7B0A2926CAD8C4BB002C43A75EAE";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 56";
-        textByLine[x++] = "seed = 687C02DE1041ABAC7B2C1E6EC2A7C3375552ED5EDB10E3A8139C24CC76BDA44D719D8121A81D47A0B762B4E9EEB85235";
-        textByLine[x++] = "pk = 595AAB2D5917EEE9401F1B23BE84C1E1843126763B2D98C83094610E55545E5478F7251D83282D889CBBC4FC2AE7E11E13874A1CAC92000949F82B43EC516DE9500F51469975F5B6D5A35DE6002E1AA68F84879AD6024B8D913096E381E57776B8EBB2EF501E6A3464F3730E668A22FC8224764A3810AAC4C4213E9584516041437BEA1920321D4E53AEB3336DD677579F84362265A69090464D053447684AD3961ADF10605D28AC5D0193C2F59C5304B14DA328EC44CF51E83992FC6F69380E694679556B14ADD4801342CCE20A8658B98846827FB2F440EE21061253C3207C9CC8961CA37C4B3D9C0CE74B36C176643E8AC5FC053A7622158E8AA1AE36824A5C6A70B07DCAE4846F28321FD2BD6822293FF4C446654F5837856FB98BE568405A822F36FB610301AD2F6027CE1391A8BC0C4FD964B7B807B3FC5B684AAD79495F78F980524A808419C13BB1437596621D89CAD5475FDE6887B973AE08F4A9276C2600489D0D773BD18B0BAB3016111C3AE1725742F424D31115BE336A5E5B9C3020BD7A4B5CB587C593EBCF61981E3CC6B4B19BAA868092EE71812A6791A6E02077C48EE4386120700A054290E0C6B792857659AC01D715B663A3CBF1530976CAB2AD5B54E6463168085AD60C3713A41722887E83B406CD67A7AB77596F820013FC7DEE7C5C87E776C3976706B3013DD45395653FC4A42F0CE85DD9D49C9F299E38480DC1742348306A51D79D6F8A4285C580AD7B66CE5348E44461EFF13DDB4AAB80F84948F94C856C03188746BEF5C8479C9C9CD1092607822EB82C2679966B17C093643E45D28BCFB424239ABC55A52A9209BDC3D70042204E69C1926132588A6759EC3776E8794483A6B2F84319C132508C804112865A3A7C804B496294314DE47A8C03A71FBBEBBCD9E28E5441C654C04CBDA9B7345A73DB10A462280EB727C2EC31931D592D333378A6D261AAD3A90EBB4D1B23B92D7779A0AB56E8D0BA87AA5413A34C8A18CB1406A8696837D7F547ACF97132A015F5A76087F292B80835E32A46D250AEAE45999EF2669A9C98BB9456E54699C4BC4172DC52D5C87A92D45892F335D02D36153217D5DB379B621E416A54CE8071DFDA35F639A04B14";
-        textByLine[x++] = "sk = 2BF07E4A962B0B87B2B35403A151C7A474A78D33B4A0132B524BABE056CCD3CA0992059842A132F34A3178CAA549C338355B81F900345863B4150036CE45BCC56660BA511F511A52044649E0A4A73612A767C461D08CB1DC6698E9A8675D408FC3875A1CB402129B71595A2577637BAD415540487A65CCC30A5A4D6A520ED069834583C732722CE4B22269C67DE135C17F92360B0CB555D5892838C5754A1109CCCD93E8ABA06863C134A5707B2352D07F6FB0B5DF0B6DF8C10FD3F807923B1F0135A52770188AE84785F33341488B7E64A40777425F693143A90776EC67FD88C79272B4482A46CB3667406A646602B3C2F6A2C2A4294B14B844BC8F9D4063474A52E1627B3D351C5E20520487BB51D7C4ECC54EAF2A6848A5931194BE7FC8B39C508B2CC510533CBA6FD671CC77463DCC83902CC18AF5BACADC8507B14059C77D3B362D8C91956ED9C1D5366781F5774A28B360B45ABDE0C56599B2EDC28FBA61C7893589B8266D3BC66E9D9C73A3E1A35FC47E754B91E7E5328C79B28F48952AA0B982AA7027F0105D020CDC6273EBEA851D948C5187B9ED038BC79A64CE5C7EC90B85B3921E1E255990FA98687C8A9A921784F52270C77058F090779279AB7C315F824BED678FDF845E79453AFEB48D4DF17F38011C1DC66412A22317B15F28070232706D97DA10F5942CF485879B8366DF4B115D0949ED4670C4C2556E8B5140818A13025C044996A31725BE3B70194182487048D9B08D926A2E6A9ABFCA0997365286960800AA7550806A3FE8761FFF81B7D89CBE2D49A445225E401037441B337EA2A6DC3A8D09F076E2D9228D69172135C65D40994A62B3F8E86214EB0E597306E2D30D81392117FBB48CE0C27CE106228067EAC0B7437A3D06675E832A153E327471464658EAA6F7866D0CC9B49FE66496B26F2BA26050F670FFF80F97494221E633C345417AE33ABBD60BC6795FAD37A7B4F822E502338CBB29D35A71A2217C1B8C49F0932267CA37EAF0C27C8979F2334873864CDBB03DC860B9815018E7165909768CA9311FA2D0550193C60CE5AD408B8F9D733EE5E0385F8B6B595AAB2D5917EEE9401F1B23BE84C1E1843126763B2D98C83094610E55545E5478F7251D83282D889CBBC4FC2AE7E11E13874A1CAC92000949F82B43EC516DE9500F51469975F5B6D5A35DE6002E1AA68F84879AD6024B8D913096E381E57776B8EBB2EF501E6A3464F3730E668A22FC8224764A3810AAC4C4213E9584516041437BEA1920321D4E53AEB3336DD677579F84362265A69090464D053447684AD3961ADF10605D28AC5D0193C2F59C5304B14DA328EC44CF51E83992FC6F69380E694679556B14ADD4801342CCE20A8658B98846827FB2F440EE21061253C3207C9CC8961CA37C4B3D9C0CE74B36C176643E8AC5FC053A7622158E8AA1AE36824A5C6A70B07DCAE4846F28321FD2BD6822293FF4C446654F5837856FB98BE568405A822F36FB610301AD2F6027CE1391A8BC0C4FD964B7B807B3FC5B684AAD79495F78F980524A808419C13BB1437596621D89CAD5475FDE6887B973AE08F4A9276C2600489D0D773BD18B0BAB3016111C3AE1725742F424D31115BE336A5E5B9C3020BD7A4B5CB587C593EBCF61981E3CC6B4B19BAA868092EE71812A6791A6E02077C48EE4386120700A054290E0C6B792857659AC01D715B663A3CBF1530976CAB2AD5B54E6463168085AD60C3713A41722887E83B406CD67A7AB77596F820013FC7DEE7C5C87E776C3976706B3013DD45395653FC4A42F0CE85DD9D49C9F299E38480DC1742348306A51D79D6F8A4285C580AD7B66CE5348E44461EFF13DDB4AAB80F84948F94C856C03188746BEF5C8479C9C9CD1092607822EB82C2679966B17C093643E45D28BCFB424239ABC55A52A9209BDC3D70042204E69C1926132588A6759EC3776E8794483A6B2F84319C132508C804112865A3A7C804B496294314DE47A8C03A71FBBEBBCD9E28E5441C654C04CBDA9B7345A73DB10A462280EB727C2EC31931D592D333378A6D261AAD3A90EBB4D1B23B92D7779A0AB56E8D0BA87AA5413A34C8A18CB1406A8696837D7F547ACF97132A015F5A76087F292B80835E32A46D250AEAE45999EF2669A9C98BB9456E54699C4BC4172DC52D5C87A92D45892F335D02D36153217D5DB379B621E416A54CE8071DFDA35F639A04B14EF7EF8D7D81AA907FECE4C1920C7CA9DDA3BB9D57F09193487BB89D6422F10CB3AFDB8A246A56EE71465591831C371F2EB87467B0559DEDD776BA063EE6D2F93";
-        textByLine[x++] = "ct = 00EAD549CFB8ED1BF0DBC9B53FDE468D3A8195847DD44418C5983E06115A828549E69DB700680897D87CDD8FE26B24EF0A7A06A8715E946C4252EAA596916C77F8735D7A7F2A3D4DF18434E74217209154249DC4E26B237A001DA05E0DB46E889771638168782B9B3A9F33CACC4EDC7D056336C0872600B67EB9639B6432971B7A549CD6EA10E580F8B3FFC8720B8B9EF9354763DACFDF88716C71F04473A3A670DB6F7F49658F55F89BAACA6A6180BA77B1772706E9BDA897B805DD2E22ABD5FA07E3FDB76A18002593F07434336A5EFFFFF9C21A03B4B3CF5240FB5C5C521409C763AB82F89CD7CE24B5D9643CA91403683CFCF4ADC8BDB1940D653B700BD358C4E83ACF5515623AA46CADF6CEB8D6ECDE1F8DDE29CCB6FAEAE8A7D2A41C3D5FC3A1E287DB161EDBD2AC246B623CC1644A58062A1CC10761BFF41EECF2458A5EC0CDDA4249D462C6DDBE517821B4592695B1EFCDA7AF3BF969C9216E6872DC38B74D6F06606E4B865B8EF0A27FB584E50101DC0E96BB080B76215A23F4D21C9D3E3469631ED5BB9B6C169D0CD125F933FFA723F9217AF997A4A56B5C0EE34EC4A991A8C70822756A1001C7E2CBB03CD8D686BE0BD56E709D2D77B013824BF3A80128A1140A8CAF090CA1171AFE027B81FA6805BFE3E62C2C2FA253DD750E2C082C29D8BE0FC377FB2B9351D06B3B950306D1D5ADC4EB24612A654AAC40398281906A8F7665FF4DF93E5B5C4A34DB52D5B25951F6895BA5E02E5776A308315DF69FF2705A757BF44C795B1DE74921E6AE962BB4C493BCDCEFD87758AA29BD460C499EB5B9957B5C1B861042DD0C15116A86BA29DA614CEA016A60FE07407F7C4CA5101EFCA7AFF471B94B64525DD3569FBB27F32E83CEAD9193DFE310E62FBE417128891A99AE54709B95EB7F105A58A131D802258DB8594C7B226C2FAAF640A1E46830B75DC38585DE0F3981D323D9B4A4F1BE5A1EBFF4C1427DDA6615F1D03E7D5FB4B7E78876F89CF7531AA44C7DB4B305E55792B6459FCF7B233A8EAFF72A319F3FCA638A256E5C14B3ACFA623AE16999067FE41E3F30147BAD08690D35";
-        textByLine[x++] = "ss = C75891D0CB9FC28E10EC5EC79553F51E2E7D0D03BE452C468CB430253F664B12";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 57";
-        textByLine[x++] = "seed = 4142237070C216BCBE245A39BD9220533C97651D84832B26727855AD994A0760C52B9319AD404693E4248B8C5FF324B3";
-        textByLine[x++] = "pk = 14938A88EA6A5678C232E9542A42BDD4664FCAEB10C9B8B9C98C7A03A82E25DA09A2349361570F46038B3902031128311F04C50824AE86421ABB346BDEEC824A085F46A51D86F5843C319DA7470190D572668384C46149B76A881EB3C3EC036E0D5362CA145FFAA93A41F9B85BF822110B942E309D03674D78E49E19A8CFFE729986E06C14F87BAB772035908096D7382488A7E450B516C4B1A19AC11586C7B1A3BA9B49BBE8EBC5B6D8542FDBB5EA25374A644F64D852ED978ABD34146E41B811350F8FD9A86B113DCE4735BB149EB4E8C04735BDEDC8119EF7A5F6ABCD94F55ACB7276BB3B6000B9A82831209820B89D25946B59A888285E1FC1904D4C1FD0F39625EC2D01360768F57158A5AE7A2193243B009297702D121E52237B4CF8CFE794560F270FA985C949E2C4ED748F2006159D4879492B4F8A14B8D90C9E540B1F993A5236704CC5740A1490461FB23F3540766D249394A144FC434A226B04A38C755DE32DC6DBACB70177189C10D8E43E49649840083A93817342D4294F1CA04F9A9AC52846F388BCD784477D5405A6F36C9774BC80909BFB8752146B5A021485D11BBAA60A8EFB5889F288AC10B8764F3163A597910C9AA74FAC696B0CAFD657882004805D36A726ECBA03171C7AE41E68D08E67CB7780D7CA135652137613B3DC58B4176EB8ECC9D0B71C5098679D0B2A9D7058C71CC0D64C7A22F37C63A29C4F007D8D62BD8E245069BAC1F2D980C0651591E5A4477BC03B47488D08825D44892558009392C0EDFAC55A2C8FC83A01577192D1DC27EFC76B27104E61F34CABD900784C1FEFE7125DB21D15A6A4FDE7780A9A22A0B52BD6A8B7F2120266F9472FC12A02D17C5EC6938AD416201BC2FED6094BC17E86082659863F5AB07C07D20AB6C9B15312A444F0482F5A24F3A96230875AC1121CDE130D6E221341D78A30902FF031122F40C6032661F56B605135464185236A91A8E161AA0BFA7A59BAC682BA31B5030BFB178CC33CB877796CE20A6E873C921B2C26E63349DFC668F2D3550FE0A914178C9845B23AF95B52F86576C71A23223F2488B2D3E8695E89A7FC13A12E8459454D36096C3BA38E979A3D4C852032429BFE1E663E0C256C2E93";
-        textByLine[x++] = "sk = 4AAB84F31C2C167CB7A84377554902E161C51149C4B9DA584CF7688EB35D668CC7283C5DC6E7A98EC61388C7B5CFF73ABE0A703D29396A80A00FE124E6486BE3980E53F9C03EFC93B7B64964F3BD733AA09A1B4C9EA0BF8460768F82C1068C13B9CB9338497CB6447C97BA84BD63309CE6B5AE5C798D323076F952B8FA9E8BD552B46236D458A42DD53542F4152E12278A282BA3669A20650284F76CE17531DEF56091DA71BBE64477B84197E131B964C0AE909976D62DF53697E6422A34D1C268866BBD9048670A8040485A341514B0EB83F028C1FF7583F677334F41B0616063B98C6A6343813BB335E33247977B3BAD15BF47824C207348DB304BB16332159AC81EE0656D2C6CC5496417D734D7956506E73271962021B1A3C8072B96A7937355709BB613BD336814778684F85107AA079302C820D701B3B4C301DC870794BDADBA10E8DC001E41478B540383689F0574673237C730481083A6AE4439AFAC2605AC8661B0C24417AACD88595030AA1395ABAB8081C6D98685CCBB1AAB1B8D4EC42D67B491D2BCA6C0F02F994753EF7BABCD51009295C5E1B816A326436EE64511EA8E83D637954388B6C15397F00A5DD85B66A92A82829A28027EB53C38849C315D67A8ED3CC23C3229B98BB4C8C89CE8653CB3F8800F5895EB6C6703642E86562D97F5BCAEC2C0C7E3CC3301B6B119A772668447829C5FE43AAAA1C6A1FCBFD8C82277F2859380B77DE92BB24B279D021A3188C9E90576CD901F1B64B201A7190793171F8CC16FE69B639318A386BCB2B8CF82998512A691A9F92A92D5B2324343A6137ABD2260F8AA7870B78BF864122BB261C2C11D05C24832F413650171D92B8C5A1C65EE04B942F90CEAEBAEE2CC73538B7CF11A63D8025F1366456F841436A36B98F1BB0C5AA8917CB8674471D57809ECBB2076182261296F1295371A91A736A064E3E5650FABC21564718873B653EA75189B1FA328B9E5169DF387A4BE50CB392179F1138921AA28843C559B9B53330CAD72F17FB20189BB578EBB16BCB5455AE207280658C66B012AD50ABE122CAC1F5844FC567921FB7714215214938A88EA6A5678C232E9542A42BDD4664FCAEB10C9B8B9C98C7A03A82E25DA09A2349361570F46038B3902031128311F04C50824AE86421ABB346BDEEC824A085F46A51D86F5843C319DA7470190D572668384C46149B76A881EB3C3EC036E0D5362CA145FFAA93A41F9B85BF822110B942E309D03674D78E49E19A8CFFE729986E06C14F87BAB772035908096D7382488A7E450B516C4B1A19AC11586C7B1A3BA9B49BBE8EBC5B6D8542FDBB5EA25374A644F64D852ED978ABD34146E41B811350F8FD9A86B113DCE4735BB149EB4E8C04735BDEDC8119EF7A5F6ABCD94F55ACB7276BB3B6000B9A82831209820B89D25946B59A888285E1FC1904D4C1FD0F39625EC2D01360768F57158A5AE7A2193243B009297702D121E52237B4CF8CFE794560F270FA985C949E2C4ED748F2006159D4879492B4F8A14B8D90C9E540B1F993A5236704CC5740A1490461FB23F3540766D249394A144FC434A226B04A38C755DE32DC6DBACB70177189C10D8E43E49649840083A93817342D4294F1CA04F9A9AC52846F388BCD784477D5405A6F36C9774BC80909BFB8752146B5A021485D11BBAA60A8EFB5889F288AC10B8764F3163A597910C9AA74FAC696B0CAFD657882004805D36A726ECBA03171C7AE41E68D08E67CB7780D7CA135652137613B3DC58B4176EB8ECC9D0B71C5098679D0B2A9D7058C71CC0D64C7A22F37C63A29C4F007D8D62BD8E245069BAC1F2D980C0651591E5A4477BC03B47488D08825D44892558009392C0EDFAC55A2C8FC83A01577192D1DC27EFC76B27104E61F34CABD900784C1FEFE7125DB21D15A6A4FDE7780A9A22A0B52BD6A8B7F2120266F9472FC12A02D17C5EC6938AD416201BC2FED6094BC17E86082659863F5AB07C07D20AB6C9B15312A444F0482F5A24F3A96230875AC1121CDE130D6E221341D78A30902FF031122F40C6032661F56B605135464185236A91A8E161AA0BFA7A59BAC682BA31B5030BFB178CC33CB877796CE20A6E873C921B2C26E63349DFC668F2D3550FE0A914178C9845B23AF95B52F86576C71A23223F2488B2D3E8695E89A7FC13A12E8459454D36096C3BA38E979A3D4C852032429BFE1E663E0C256C2E9399B151AA6B4654589AFC36B8343FCBDC09A3E5255B378D6EE5629CD8B3CFD555230E05B7114FF0395CC6634DB1EAE8258072D09C09F291E92D6620B177DC50D7";
-        textByLine[x++] = "ct = BA720696F48A2F6686F6D9886E19017A07A31E97CA446044357CBF19D5680B6C7C06F37723FA4BE67B31A41673EBDAC3A85A521C7A057E393D39836D5130DA544A775ABBF93C93BE9DEEA07D5AD03A682E60AE18DFFD5FA0D7D8A6787AB5062DA6B6139777BA4E3D02AF0DCFBD42514ED9F950DE9EDC3B334B03F56F6979418871EF28FF7A1224DC7243EBEE0F60B2069AA319833627FC9AA799D83C43B8C4942EA0682E1BA5AE098B6CAB856B7501DF2D6F5D3D99CCD3CCF1BDD772DFB14C48413E65EFA145CC3E90116FE12B63C1EF0209461260E5031C4C2384504BF88209C31403A815792486C37781C71AF0420E8DA5563E9916B270C5725304A05A417CD356176676EB4782B73067D258A4AB7B545C6B6804ECC3A9BE09E1802253B89BA975E63FEC86F0EA4388E8816BE736C2DE0CFFFB6B5EE43F8F6E32DCE784A3020F4CABD5DCEFC420C2A15F57922976E6F9020039D0E8771FC0C4A0EBFE5D1EE789E5DAFF0CC9F74FFBF43ACED7851C79AF5F74116AEE6393C2FBDDECA2F6B125969F3E1293FF706DB22FD315EF2734119E9F161DD33CD258144AA52A1E8E6ED91E83A29C20A68FCB95CC50D74C4DE1EA315BF1554F300BAEFD3434A1EEFABE5A235D15891F0804704A54D0649D27EF30E4ADAA4E0650BEE4D61AB926EC6AD35DE3FB113E3E50362BFB0C734CDBCFCC269259DC257DDDAB9D9838EF922F20B888D8B31F21AE5DDDC32905362A9BDBB6D9B433B9C1D3E133F4539C39FCC4B2CA8939E04523557DE2022CDE529E1FE8333598527B0727405B8DD86E3E6082C360EBE36850C0290D8C4151A5F102748137830B1B9AF42559CB3367D44E653622A46D1A9C0EBDC3201FDEDF63068694B2611E92D814D492F0102AB12DC950F3D834AB5F85D9C24BECDC524213165116618D0BC7490BA47C1EF32F3BDCFE4B61C27D067F939377A560293EA1CFB18BD26D4AB31674D6B9802D6A920946259092E5255A501EDB1BD474CD32A2600A3439D32BEAC5E38253BEA6A91EEAC70D578D7B71E92C65E389AB6F2B73C058524D3A7ADC337A9D7B4D3010CF3B4B44B39230BCFAE4";
-        textByLine[x++] = "ss = F30D3BA1693369D091D378A9F94C301FF3B7892E98B9491EFC35D24CC6AB2F5D";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 58";
-        textByLine[x++] = "seed = BD334D7B7EB14E00E68863F2E5551A095F8AF10681C28353FD19B9A7E70B8BFE266840860609008A567ABC66316C77CE";
-        textByLine[x++] = "pk = 811637E2FAAACF51518BD1668FCB964116B7732C71D6515F51B0A454D0359384A2EF7C5FD7EA6B47350C68FCA28D6C35219A359E273FB5489E8F4200F830036C8C6046FB7269290686241FC9D4AE42E4B59AA373E9D65B6D5462EA26AD220B5B2021BBB207832F7B17D187A749ECA9CD8AAD1FA0C2F205BD8358771B156C0E4BBAEA29AD45296B788348653BA896D3956E821C0BB623F033C0B926303D77CF8C2284648059C9B73AFC326B0CE96BC8190D41D849A9A7AFD7091527804812A914ADB475B1149F090642F1C8C98D6453CD531CAD4B886DF17975F91B3AEACC23358B13B54E40D8856058BAD19088371C7D8D896B2AC4C8F3443B95099000A237D791BA0853A6C0E821B051472BBB1A95C7A480529683A7978373081F30AF1A7A6C713557C38B0BC9B281A622C68D7912BEE99AD6D1BD541182EFC3BEF160358C067A3363B6E03A5DB440BF6CE2CD8CD09C03985A5DC44AD7219C41B860EB2A8B6B025DA63978D0041D9231A4FFB28FE6A6CF918BC6FD59AA6F8260C373B645789B9E0BA4798B4B7D8B468E52B2AA20496BA9CBA4E2AE6CF069C86B652FA7204D717A623829218C4B288035B551C6F614805257516276531A6CC9B6260B50576E149ACD9FD4B324BA5A89AB60CBDB682A85AEA36230EEE9215E442AA22679DEF37947D4846FC7AD5EA3626C9C20D94378834A4F086A05BC8C252D22ADCFD47AB0D63C886947ADE8282F380730FA7B827374E617582A7A2FD4BBBE56AB7031A51871988AC823181966B6BAE54E93FC63D2463CC3B103B745B367B70BD212B79363B2669BA062C75DA3F2037C17A290281ABC4952DE641FEB740C1CF2829F1B3AE798C3A128B76F4711121597DBB5755A2964BF886F1208CDDD70B759797349E4A8BFA0779DA984F43195B6BC24338CA7A4714458068B0193C6556C471EC7586268879582B64D26383A9489A6F525C923A9E553627C365BDCF32A4158452410357952479D84306C3ABAB55792BC1466BEB85BD8917722289534C74559887B0D8250309562910A0A692B0DA73439D5E87007A4B0C2EBCF3C124394975657FC07B7BA88CC0B25940FFDDF25214EE4DD4E1AEB851878E2493C05E2BD5A30B5B99D369454";
-        textByLine[x++] = "sk = 3923AEC9E98D11C99196B0C711E136E5036C4B9174A0D54CCBA085BA5A2F7D38C4FDB81D162415FE1730CA3A645E10BE5EA053A9F0ACC909C038B73D95A3C94AD476A627036D4205A58B287D38AF91913932786B7C235A2E62116EA48C53337A946B96DE3635A1873794B90943CBB7A1CBC7BDF9A6D6296973D572EB9C35A24905C405CF7D997DC77233C040A9E8169682EBB57E41306BC6CD6CAA7FACC098D4571788B406146C9F7B6420617B63B17B29AA07CAE97654C9E71808AA3700E04ECB141AC2FB3126DA710A2459AA210013336657BB2496926A58B730076A7FCD9912372A541DC12873D31C0619AF0F5663D66719DE703547EB09D0173CC8AB2A65ECBEA08B4CD763C8B7CAA8EA1C8AC35C9C3E0BAFF48097395381D511C37F1B1A4AC1C9489724AE05B3C3E3894D07018C463117EB422DAB556EA49F9EB65B7D29B4ECFB791848715246CC85F4374FAAA26457982931BE3D84256724522252B079F54E356AAD6557B65A4182D85B29D847BFC4E3B2C5E81E974C00A00CC3FE81ADE2C6211BB2C2D1E503E7F5C5E9F443403745EC50AAC78859AFF7A38CA28A3DE66342D0A409248F8472280B135A8FA77911F554EF078650A163BC27A506CB521DE8223E9A729A43010C2806086C059D51A6D01254F2EAC6BCAC118D7735ABC7785C1656E68C4D29B03C5E9C2F5FFC16DA202C2DD4C48D91C517C2BE222B18CF602A699029AA8778A915693A22371E475A323844AC38A7A806C55F229A0F92C83D7828E28B64F74AABAB1C4BB3B50E94E64DF6C79A0ADA21829A30D3356AB85B4533469EA707C216548DE287750EE96229A022BED692D1F2021D2723B2365B8B6A3B2A381A9CF75083B38D57FCB127589F13F522051685BC563CCA799B7B4047A0A3915ED34881D26FAFCC73FD2C00880241296A27E9C68DFEC08B4A465787312A49114BE583289F8587763844B630602C7B84718641BA4467279B940BFB863437335ED8A917E3450C18A9C6E83A6836B786660FD8234B1C845B95485238232E6719CC32164AEC22C130AB468DC14D44E99C360C97B6571700D5B483FC4FF8678F811637E2FAAACF51518BD1668FCB964116B7732C71D6515F51B0A454D0359384A2EF7C5FD7EA6B47350C68FCA28D6C35219A359E273FB5489E8F4200F830036C8C6046FB7269290686241FC9D4AE42E4B59AA373E9D65B6D5462EA26AD220B5B2021BBB207832F7B17D187A749ECA9CD8AAD1FA0C2F205BD8358771B156C0E4BBAEA29AD45296B788348653BA896D3956E821C0BB623F033C0B926303D77CF8C2284648059C9B73AFC326B0CE96BC8190D41D849A9A7AFD7091527804812A914ADB475B1149F090642F1C8C98D6453CD531CAD4B886DF17975F91B3AEACC23358B13B54E40D8856058BAD19088371C7D8D896B2AC4C8F3443B95099000A237D791BA0853A6C0E821B051472BBB1A95C7A480529683A7978373081F30AF1A7A6C713557C38B0BC9B281A622C68D7912BEE99AD6D1BD541182EFC3BEF160358C067A3363B6E03A5DB440BF6CE2CD8CD09C03985A5DC44AD7219C41B860EB2A8B6B025DA63978D0041D9231A4FFB28FE6A6CF918BC6FD59AA6F8260C373B645789B9E0BA4798B4B7D8B468E52B2AA20496BA9CBA4E2AE6CF069C86B652FA7204D717A623829218C4B288035B551C6F614805257516276531A6CC9B6260B50576E149ACD9FD4B324BA5A89AB60CBDB682A85AEA36230EEE9215E442AA22679DEF37947D4846FC7AD5EA3626C9C20D94378834A4F086A05BC8C252D22ADCFD47AB0D63C886947ADE8282F380730FA7B827374E617582A7A2FD4BBBE56AB7031A51871988AC823181966B6BAE54E93FC63D2463CC3B103B745B367B70BD212B79363B2669BA062C75DA3F2037C17A290281ABC4952DE641FEB740C1CF2829F1B3AE798C3A128B76F4711121597DBB5755A2964BF886F1208CDDD70B759797349E4A8BFA0779DA984F43195B6BC24338CA7A4714458068B0193C6556C471EC7586268879582B64D26383A9489A6F525C923A9E553627C365BDCF32A4158452410357952479D84306C3ABAB55792BC1466BEB85BD8917722289534C74559887B0D8250309562910A0A692B0DA73439D5E87007A4B0C2EBCF3C124394975657FC07B7BA88CC0B25940FFDDF25214EE4DD4E1AEB851878E2493C05E2BD5A30B5B99D369454339BA63F705606D8C7FBBD6E66DADBF23F532D5423802C836F2105A636E9E6DA1100CED48ADD211A5C937B8D6079D8E271AF3F949EDC61F70E60453AEF20DEA9";
-        textByLine[x++] = "ct = 5667E9B79466426225052E623560D0BCCC6433301E45041FA7711136995150DDDB9607D40D1A7A253426921FC09C0D406B21FFA3915CFD91A7A0F4F5F4FF976BD47675962D7945D7063560F5DC44489C0D046853802DF3967A696E6C064DA00810088E54E41DFD15667313123F24411BB1B4C0306F89A7CC9D6AE968552DC5B033A7C7AEAEDC93F4E99E237E42A756ED685C2089614CECEB561CB6CF60B678C979A87701DE719CA615982D2DF60A7CEE96DCF430E2CE11EF76E3BB2EDC51B71E9D08CB7B0C2AFBF67C979A336C1D0C8FB8961782D5C45368AE4BFCDA4F62629FFB63A3FFFFF7439ADF3EE2CF6F5AA48455C5215796B217766656C7EC503BC5D846C0DB55770BFE2274AA2B41672E74CFDA246C36AF9277817CBAFCF02FA52BD350CB29B827CC682C8B5911274F9E426CC9B73B0ECFCC5A27E02FBD3A57ECD46684A1B5FF68E783F66E56BD05175A5719885AB65371818BB9CD57AFE7BCA3B42017761C312DF630AD7C1AE15F566DF862938664531E3067AAAB0B31AAFD025A793E5F95AD815B76EB6EAD288F495FCC5C5D5DBAEF8851657C0CB43E841546FCEF569CE209AEF9E7742CB1B3A6808D3075B2270AF2F9EC3F30700904B24781B9CEFF7B2253579AE9A61315B888D577D134F4638ACA21FDC2D0BC866F3E15A7E47821FBD0BE61CD0783FEFB11E924066D3C162371A31DAD633DF43281F544583EAFC6D24B075ADC8EE2AB35C640E530448A042FEBADEE7B9466DF671AC0B5816D98F6437401CAB3BA775A2C4D8E65C0737C1824864538599310FEC4F0E7B4705C5C081F7D0A46203EFE9AAD900B123576A62F9279778FF00296F83A6A68A9500AB045E883976C242E7907DB83CB95F7CAD922D44C10396DB15F79EF0EDDB39BC6671B4FA7494BD0BAD12F2CEED7904F2FF5EB5146C14C5F5DD5D24E5E6985F3C5C18A732B80B34F413031FCB3B0ED3DCBDDBC4E16316E8B40C5FFE7389A3AE6C1D1CF4638688FE9ED4D88133F5D3057BB3B6A89626149898271518D882A1136120190BCFD1AC96F529FCD3D1F69C0A66CDC8507782AE8F77190F3EB0809EC936906";
-        textByLine[x++] = "ss = 9F9BDB590D6835231FE5CA098F03A0E44D448AA43714BBF98B8BD8EC2CFD3237";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 59";
-        textByLine[x++] = "seed = A0264C58AB1F2CBCB212077FD378D340307ACCB31F1312137CF84E3D3135044D4EAE8BD38BC3E540A0C14D46458F6179";
-        textByLine[x++] = "pk = 1EE3723F94A99B7ABE01CB641C501F856398369804AB87A2E97191F6C918367C653ED9A2A2559A73DB3F04A4AB05E1924D3A9AF7392289A894057782AE7139B1E82BB32A228BC7BCA367AF59519E5FF9319AA987356C97AB724B9169302E0B2924307A46839A4872A57B00AD4F8B30265B5D6A3C95B31C248DA1514FFA25D908915635732C1A7E2C938C4E528184EA2FACC556EAEC7171831AFF013DA5ACCA8C500038C55EB8521B14E0263CEA2252986C9023C405B56AA85791BDA25C73DB65126967AC8669C197153C14275A574ABF090D5E52821F51A479238360305CD7720FA3E239878635D92315B41B2374732216AC4EEB5650A4896B3747C752827407CA7046A315BAA63D9717824CF51513639607CC752ED60E743B5F8AC54168497AAE4AA3E4C8AA65B97BB03314501B8644608FF49AA197BC0FB427A13600BD8395C94D534B1FA96341F8CEC2B218C1A5745275799E93767C44B128BBB0FCF59F1899593E9176F070CC541949B490BD20790584D3B54B369AC5F2A7EB24043155272534889BE150F320019AA29B8585CCEDF65CA73211FFD8A60F558B4482A1B0194202C16CAB1699CBB9544B221C2CF84726608311416267D065D5A819BC05C54FB0C2406BBD4EFAC451090CE9DC93437312278AC7F7B88F0B69B80B7982F7989C47A18185D2437C1689D1378D01C14DEA68B701378E62173FBAD1AC05AC1FA904AD1A22895C52B89C8CB548A4CFE168846F996DB569CD252281D62C675C298A62D1A38C019C5C08CAA986672DF818640A90002C12042C3CFA437887A4CB221B65B94A82D7102D07A16333177890EC100C2A8DF22987D0019F65E64D5DBC544FDC3A3945A3A77A75099238D0774E9681CA16CA0E9C0554E0E401B401243BC75390B3B4BAD59151128F8CC28C2D40BBFC89B890C64ECB65826F202912707F976A2F76463CCB803A945C946D282CDDD40F5916C77E268DEE390C7A823E5F3313DED9BDC39C2690F15834E44B2CB1335A01068955A3BE7C635B7036A975BA7FB986295C3249916B3997C7F0E2845D24B9B264CA4D49A697D1ABF3CA9EA6313F46C0CF073E0F3130DACA54C038DC1085402160513337AF2B6DD900B04DC3BDFCC90BDB";
-        textByLine[x++] = "sk = 9A605C2CCA636EB3B589F3853B52B59AAA3B7E7A6AAFF24B74C6CC2F2022D662B69A018683A5205C0A37F9C88DB6737EAB28BFA1E12D9613188CFA7A5AA7807EFC6AE9AB78CE34AC85B4CA61E8BEACB89F23D37FAD0C91225B8DD7F10358D8096AD37F2287A175E158CD90A2A4128D2E266EF72708958351EAB74F63E45672A16CC4D3AA77260630C663FDF27878E0501079C55B56449F2BB932B42617097126A85A2E5B24E9130E4D02B2CF70B26C2395D2F8996248124416CDF21679C006440FB0AAF570AEE279042ADBC3FFF40CCB122AB7199468273EA38ABD8098AF3940C65C8951782A650B50211927CDE10C3909168D4E4699A154A2714785FFD86C6CDAA85586A40AEB6CC081022EDCC27EBB900786C4ABA36A45D65D100508A4E41231B58695A53F0D340FBFA128E5E2202A986D471849FCB4947E1C1A2505494A320F288179B5CC5D04847C68449AC100093CCC879BF7A1B892BE385844365835A4006011904A235003DF8A19E0EA37037202F3B6809DD0BDDB43CA5D46506C165BDAD665F97AC882512583175818BA0E63942A612B3889645E86DC293D352380B68379FCCA92C4C1C7AA5D1A842950365FF465118FAC96DDBA65DEC7A78B1523E0D5681CC7BDBE656D0C440AEBB4801EF465A05CA9B51253EF24ABBA291821F5A1460C0F8AD09F4AE08D83401AC0033F84C9866FFBCFAECA8D4B216EEA2B05D92964A1A57250C6B09D7C13E1AA665791471212CBDA902C9FF58A0A05120C8364B502187DEC8F4DC35843D13E85DCCEF6448AFB8B80FB28763F044684403EA3F110297822C7889B8BEC5AF016B4FB22C557EACD82A574EE307EB19673B26683F6822C192270CA38044140426B9B4F36CAB6CA673F6BD60E67A18D73390EEBF88542F976D53AB808116C65020E6D4825F10BC00D664FE0CC23837A9938D70DB9304994BBAA56B378D8C5214D6762C1C25D8386328C092D73A9174F6858BAB76CA807AA8C376AF004A1B4679DD6F500FE139080981B6836A83F05C7471349D1405984FA95BDC3428805C78A4BCCEFA91F84D8985DBA27585A834079B041486A7AD9981EE3723F94A99B7ABE01CB641C501F856398369804AB87A2E97191F6C918367C653ED9A2A2559A73DB3F04A4AB05E1924D3A9AF7392289A894057782AE7139B1E82BB32A228BC7BCA367AF59519E5FF9319AA987356C97AB724B9169302E0B2924307A46839A4872A57B00AD4F8B30265B5D6A3C95B31C248DA1514FFA25D908915635732C1A7E2C938C4E528184EA2FACC556EAEC7171831AFF013DA5ACCA8C500038C55EB8521B14E0263CEA2252986C9023C405B56AA85791BDA25C73DB65126967AC8669C197153C14275A574ABF090D5E52821F51A479238360305CD7720FA3E239878635D92315B41B2374732216AC4EEB5650A4896B3747C752827407CA7046A315BAA63D9717824CF51513639607CC752ED60E743B5F8AC54168497AAE4AA3E4C8AA65B97BB03314501B8644608FF49AA197BC0FB427A13600BD8395C94D534B1FA96341F8CEC2B218C1A5745275799E93767C44B128BBB0FCF59F1899593E9176F070CC541949B490BD20790584D3B54B369AC5F2A7EB24043155272534889BE150F320019AA29B8585CCEDF65CA73211FFD8A60F558B4482A1B0194202C16CAB1699CBB9544B221C2CF84726608311416267D065D5A819BC05C54FB0C2406BBD4EFAC451090CE9DC93437312278AC7F7B88F0B69B80B7982F7989C47A18185D2437C1689D1378D01C14DEA68B701378E62173FBAD1AC05AC1FA904AD1A22895C52B89C8CB548A4CFE168846F996DB569CD252281D62C675C298A62D1A38C019C5C08CAA986672DF818640A90002C12042C3CFA437887A4CB221B65B94A82D7102D07A16333177890EC100C2A8DF22987D0019F65E64D5DBC544FDC3A3945A3A77A75099238D0774E9681CA16CA0E9C0554E0E401B401243BC75390B3B4BAD59151128F8CC28C2D40BBFC89B890C64ECB65826F202912707F976A2F76463CCB803A945C946D282CDDD40F5916C77E268DEE390C7A823E5F3313DED9BDC39C2690F15834E44B2CB1335A01068955A3BE7C635B7036A975BA7FB986295C3249916B3997C7F0E2845D24B9B264CA4D49A697D1ABF3CA9EA6313F46C0CF073E0F3130DACA54C038DC1085402160513337AF2B6DD900B04DC3BDFCC90BDB1F9E26333B637EF9BEB8881C63F9412B07C47A276AF0E242062A54026BCEE2BD7A3CC8AA3239D4C52CE4C95AFDEFF6EFBFACAC10D294EDC0E7CF4535059BFDBA";
-        textByLine[x++] = "ct = D424238B46E8C49520BAC82526430111519B9715B42CE1188D6D833B10D85739E5ED5B1170D0E959A52A87D8FB2C06D6212EB8C3AFC7FBF7FE2260D9B251AACB8E0C6F8B9FF2713D6B7422E97CB4AB663AB5DEBC143E30EE734997E313BB76CF2B0E0A0CC4BB5BCA6DC8A533EAFFAA5497694736346AE081925F80B90E1F724D909F3F32E489E5CFED7C49306F5481B0F5D97973030BBA60668CED99224482DF4D69AB977B06EF2E84A782311AB3B7C0DC4B0EB42F37D9611552A26932220DBC1A47CC7B561195553487FC237C530C54B441FDB04FDE7BBADFA5C0B8088C6E8C0CCED7648F4985E756334FB6B4636852BF320A10B9CF02316E660AD2F9231CEEC51AD36D40CEBDCF896B8B600B13C5B3A860DC0CC635687405B1C876CCE73F5AD27764DAF671FBF60DB35D8009210087E9FCDB3E6EDB1223F0AC6F1F70CDA5353D394B433ABCC86B91EF531BFD7297F240733307096BF8FF73D71597CC959A5FC38652825C4D2262EC35AFAC00E4CDA5FC71BAC97A1FAB8BD2FA978272A59E1F9A2EA82205B1C1E452ACDDF90F5B28252044BFAD44DA15287DA909F2531F9B64B1DE948981C27E0F384CC5D3113FE2C681583D2F95BF75F350069FC1AEA1A4F6D7E6DAD68A74328DC12983B0D6A52B6BD6145EC1E4B40E24CDF6FCE292B1E9415DED868448A5D4E5850C997F27C127A6192BFD2492B84C4525973B7F8D151A49EC860E9EDF14AAC3188CE9BDC987E7B48079B926154C3D28BF2FC6D47D01BADE5F781754F502AC11BC545FF1D0399B2000D18CDD622B577037E6AEC86814367B166F84FB349EAF5BAD73097168948842F9F5F693943374787BE434CEA71570D0DE87CE39E57D5091E75DD2AAFB06782F1A6FFA2FFDD1D4D47A3E687B79E544AD75C831DB690EE84BF0DDAEE467AE38BCC3DD5255C51CD283321B7C6BF6893E54E8076979D23993A8DFF9694986A07212FAED1A495CB9A5EA05D4BB371F52A40A3C3E80E8309EDE1D9720EB70C295AA286A6496F91FA206A3A7666B5DB5BEC55BC6B430BB76BC885F6D77AFE429DA20F9132F2AEF89A25061045936A04724A71F";
-        textByLine[x++] = "ss = 6036D4043821CB758CF9DF9659E5852B922906057B4D8640BB3D6B0FF7D848D7";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 60";
-        textByLine[x++] = "seed = 99A9CDBFC674AB3FF2C64CDED7D697A6E27A767434A47AFF7C3FBF3C6A22D6043D27868955286A13EFE3DE36D22EC48E";
-        textByLine[x++] = "pk = 501A0171C94C8651B920FCAE8EB447D9913047183CDB16374D9B7C6FABC86FDBBE5905805F50BEE8C12612115CA16BAC13160198873B4F999E4BA1C052767D7D5CCFB364C12A5A6C81232991B5100F21CF47C50C8566C32AFC13F7B03FD9A2B09A807B198A4B2CE48D163B0398731C142CA7F13B3F95000FC1345AD1A50952D09C6FA42BA6B5119CA1061A64A5EC4B1323A5BE3ECC97BB21383F6C559550CA985C53C4E78D0D660C6BAA11527242E61780C52770CC3739EDD2AE47C676753BCA078266D565377D2AA5CF677945551EAC12C61A0A95F6930A95B9A76206733029AECDC6CC17378305B769B9E6B6FC95A80A986A48B016DE4C331EA591BDD43A51A2109F02601569764B8999BF4CC987F25B3FCA822F5771D941AB90A0083D6676A3D743E458381CC3971BACBE8C3A4871D51BAA80A1C34462CD46BA338BA319DCAAD92BA7E471658097335921728F96B1F06A7B84E8A74CDB635B904DC7A583C4A6208D894CAA22265378AA24808EF605193FE186BD0565D2C32FF234B45E2726D0D7C939754592BAA93297C28C6462BC0945EC2035E776B2E4526129443C1135CF16620CE8B12825321AEFD92010283F6A034FE86474A6E18A62693600D012EC58C26FB9904CB8CFB71C582606493BC4748FD669D65748A85A1F69F7AA39FC98938B5BF0F8768C2020B97B1C06D1C3B8773F8D110280A76834FB9643B42FD3DC002E3602EC84B79CEA4D9B9C173C58C5417531547539E1D61E7C6CCB5FE2152ECA572C7738E2A872A711225E0922E1B219BEAC2B2F3AC82D68759D83A2998014142491404A6E51B88DD7A21A664A14D6F3043F67CB0A2A697D537F3357BB19A6865172653F183E396A78B7217DD0F18F1CABB936169F6D75498D9027E1C59C7FF8558EF138ED0236D20A23AF399067D4AD57D36927BB88B4A0836EA06CFB941617DB0EFA049B6DE6CCE0F5CC122239D85391C56487C48B919764536FC11A6B3B3860D6BAEA255E48D007272A24CC32637665640FFC8C17E013A3E974D6A5AAC78ACE4A2C9A173240A9CC1C8E18CCF841B4B77793C6028EC75C5E4697A32B591652367D9A5D375D06EC7863E051CB44929F17A4656A2CB2C58D8D457897A1AA0D";
-        textByLine[x++] = "sk = 03433175F23A3116525719B8FB7C7A4CF3C8B360A79BB6C54922BBDC396A7577A7ABBA86EFF8B329075950F42C0C8173EAB72F614BC6DEF934277883B121B0DED70ADADA3049F5CF30DB20DCB313FE3B4C7B60C396B17A80350F0EA38E6F800C7384BE35571FB8170AEF046CF28C152682CAB9CA8FCA2117E6BAAD471A78B24B75518840AEDB34EBD3140072ABCB9A18427714059B2CB5272BAA713AC7A1C98DF30042DCB7FD7B2AE996C4CF34168497352D298FFEB5BD64232610C6B7A728B5B383573220053766B1E31720DAF91775C608CFF42468142A37F3ACC06BC113A8CD493ABBC10CCC1B660E7F821BA8901BA1374FD51948AD897BDD0B7F4887B41600330A4CC6E77A6910888BB87CBC26BC1AD69450A92BB2C8E0B56F131D0384C90B30312BAC22F7B521EC6BBDE3112053B246C9880F64C6610BAB71D0923190F3AE46A1070658B646351DBC0CA88CA88A987B9E23614ECB72795D2B5CDD31B0B912200A229B657C4BD80C38987332A7296C2C065E1DC42A1AA2525B968E5289BC16ECBA39111FA39A4597A1674C1009DC649A6B611A0A513B93E9636ECA68C3E461F76840AB73BAB8329915020CC9E280C719972AFB7D3100224A327FE9E622735097E4E1507E1C0D19A60FC0676BDA061BDC06B12B38A0DCE0107C39B32847649CD33ECE1A65F4199EB348319D0A0A0886BA0DB3B7BE893EE353B0122A62E95571D3F91316B6AC40270DE06A7CBDC76BBAAC7896BBAFF178A2EAAA1D9ADC2102E3B256F43ADC249544EB0EAD915B9DF30FB6BA4C4FDB4CC10A59218446C87512683165EF97735EE11D76A82A8F26C50F45491621A7A3F32DF657A900E919204A5DF1CC89F0F5B3273632BADB3738C501A4A77A76E40BAFD478C3F504E54A30884BACBC107F7349CE03930335D171C6C4ACDB18951163387B07B233712F3560BBD59182D754148CE13E80142F6F9A02DC2032E8B7516C3749C7FC2891A5C410339CAB703FEB2B894DEB0CA25A785F09A25D1803E50118A1C09EEEA85F62C52292E1C560749AE1F3C23B43CD8E430E70931D282927822610BD871F48C337C5DA3D501A0171C94C8651B920FCAE8EB447D9913047183CDB16374D9B7C6FABC86FDBBE5905805F50BEE8C12612115CA16BAC13160198873B4F999E4BA1C052767D7D5CCFB364C12A5A6C81232991B5100F21CF47C50C8566C32AFC13F7B03FD9A2B09A807B198A4B2CE48D163B0398731C142CA7F13B3F95000FC1345AD1A50952D09C6FA42BA6B5119CA1061A64A5EC4B1323A5BE3ECC97BB21383F6C559550CA985C53C4E78D0D660C6BAA11527242E61780C52770CC3739EDD2AE47C676753BCA078266D565377D2AA5CF677945551EAC12C61A0A95F6930A95B9A76206733029AECDC6CC17378305B769B9E6B6FC95A80A986A48B016DE4C331EA591BDD43A51A2109F02601569764B8999BF4CC987F25B3FCA822F5771D941AB90A0083D6676A3D743E458381CC3971BACBE8C3A4871D51BAA80A1C34462CD46BA338BA319DCAAD92BA7E471658097335921728F96B1F06A7B84E8A74CDB635B904DC7A583C4A6208D894CAA22265378AA24808EF605193FE186BD0565D2C32FF234B45E2726D0D7C939754592BAA93297C28C6462BC0945EC2035E776B2E4526129443C1135CF16620CE8B12825321AEFD92010283F6A034FE86474A6E18A62693600D012EC58C26FB9904CB8CFB71C582606493BC4748FD669D65748A85A1F69F7AA39FC98938B5BF0F8768C2020B97B1C06D1C3B8773F8D110280A76834FB9643B42FD3DC002E3602EC84B79CEA4D9B9C173C58C5417531547539E1D61E7C6CCB5FE2152ECA572C7738E2A872A711225E0922E1B219BEAC2B2F3AC82D68759D83A2998014142491404A6E51B88DD7A21A664A14D6F3043F67CB0A2A697D537F3357BB19A6865172653F183E396A78B7217DD0F18F1CABB936169F6D75498D9027E1C59C7FF8558EF138ED0236D20A23AF399067D4AD57D36927BB88B4A0836EA06CFB941617DB0EFA049B6DE6CCE0F5CC122239D85391C56487C48B919764536FC11A6B3B3860D6BAEA255E48D007272A24CC32637665640FFC8C17E013A3E974D6A5AAC78ACE4A2C9A173240A9CC1C8E18CCF841B4B77793C6028EC75C5E4697A32B591652367D9A5D375D06EC7863E051CB44929F17A4656A2CB2C58D8D457897A1AA0D64B9F8198BAB9B3B2F2A1704CD4DDF6B3CBC216DDC0F062A72EF40115917FD218F1481D7CAB000E33FA07DE8DC9627A85E76FABB4428A3376E66300CF12A0787";
-        textByLine[x++] = "ct = 27295A075F4ADDF96B03601E900C1E187366A745A7BC4C5EBEDAE9D4112838C3005E5A073F12111CF7DF6D39C526602BA74EF8245FC5AB524C85F54282E16DDECE3DF1CC58D57C322629B9B1C520ED695956C4FECCD693A2A8D3233B7974DAA9B46D21644E32A49F2405238B6B564018CB54765EE71081F6F11B83712D300896CAEBCACFA4B9B9116583022924F625F78BCC3FEB709B5D4820C2AC4960FAEF389FC59BF0ABE4EA67AC91D7F129748ED4420DE9CCC84700FDB49F320E28161F3B2817FF406B8E04C67BB069B98B6D8B648EAECFB13E606D17363385F1A816F980A3CB029597B6E217868D2FF67349F62220C55F66E8E88097729995D916AE6666A29917E52EFE16D4A55A8E501BAE3C37DDA7560CE7F3F1D35DE82129182150F26F01F48DBF27BDAF952E9674409EFDA0F66C9C79A51177AA8ECE0BCF1DBDB2CB9818819D6F8DD4D41867BB38B4CC335D66924C92D396872221F72A700FBA6B5EA4F8D1964BCED28FF911CA64186C66041668F9D92C3AD5E30CC4FD4C4A0E2D0372AEE81CC2F1437C25B1DD8F813C43C4CAC0188D274946DBF05CD8B0FED35A4D1D2534EF1FFB7EAB9C558EA89DEBCB5652183965DBFF71CDCC0E298D029B6CA11218CE72D6D6C738D9647AA6BF3ABE5C16C9356466382D7056D9EA2EC296E2EE55E24AD07C52875C5B89DA7B4B4999585825EA66C0DFB4AABCCD5C57D3C1ED8A79AA222F3C8A9CE054A921C1527F9927ADDC089D3A0A729EB56B87D76C7E78DB4B37863B2AC10E082E84983817BD9749E9346ADC06865DA4557F1F00990C91451F5E4B503E828C869ADB7A71F3015F50BE3AEEC9E70EC9C77D3E2AFDA39D848E9E6DB7B37EAA475F0B5493DB603AA1535FB1C6ABA3A6FD23FB397A6816CA5EACA8B26802E232DB1193762C48D7ED80E32B8663E7719710FF6D2FB124D51ED2F116520A633CA9338D7CEF932E685AAF4E6D693E3BD2CA9315D9BE827FE233CC5D7B7E495CE18AF21A466C5BB2EFC826EF83BE6C99C22BC885B1440330A7FEC4D4B589F5B43D6D24A1B6B35042108A4F0DBBE2F84F329588873A31BBD7E9A7BD4E";
-        textByLine[x++] = "ss = ED4DBB163E97EF686BA77B2BD2C0A872405DBAAADF0D33D0F125D9E35FB0FC59";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 61";
-        textByLine[x++] = "seed = C799D57B41F28C5C446DFC58A5AC6499C4BCF3C162AFD2B09A16549826EC2A6F689E44BAFC4ACC82F5D6AEC23F4A3993";
-        textByLine[x++] = "pk = F17C93D23556B9361AB12A87DE122BA9264DD889232CA7C301859AEB32611DCB01FAABA8F794AA3C0B858AD75E82B51EF707B4266320A6A9BA4B3616896C14DB18BCAE601828FCAF9E895C571205070562208C45877780FD2A02B3C697634116EFD504104709F75426476BAC050ABABD708F38FA075DD2661D9241F0C31D7B674285BA03CC34C05FB378EF68A3E6A03A1366B8B432186001C56B01169227AD4BB614DBC290E5A085B7B90478B5702EDABC9C12544F9A2102501836ECBA58763B10751E9DB7A29590711FFB3FFC240500995E30318FDD141F6177C2673330FC558C1CAB769F202B5AECAE19D1479AD32B4E2C59834AB79464770CA619E88535F84C26E219790F24B1BBB17C2B1017464C1F1D102720F111BD2B95D9AB79F866C26C730103AA602FE5AE1710C4A1782CAAD0674129CDF8791D780095E5D8A659333149B0797472AC623A1A2FF2BEEC7306A88A6F8A6448F85A62DE253E1AF77717CC86604C386DBABCB3A9578E801C35A429E341AF97B505DF8A46A7055633718D57814BB6E2ABB272C9EFE0192C2B55ECC5CB8E389B8BC5992B037D1E72074BD361740AA8A86C63004C99FFE50224378D1C28431F599F4A701F3165C8F6030A1BA7590ED49D4300578985ADD03887D867A3E82B577574C398C56F21C34F6349B6BD072BCF8318E4A8244BEC6F93FB84B6716846670945A33FFE53BCF4C82F8C52AE84FAAFB4B46BED2A9807D2569C90791C087F3AF05B88B45345BC099E9BA4F3028C469A3B4F2A1EAD50147B208F24B21C9C4582CDB8633A9A58D7820FDD0C761E70855259216E2A3EAE25129B2B6808EC1611800D0FBB3AD6179480BC4391860547199BA04B3A97F72C8C4CAA93379F559626F6A4A8DA750E6CE0651794138C6B68D474BB70F41975B246DE5953C5226606102F98A36B66994E2EC785FDC2377ED9C664A05EDBFB694A2C5F87DAC238841245733852DA5427A0B105EA2612A06EE9019B6DD0C3FA034F61DA229B5608751BC29BB13CCABA83832C8D37108BE5943CFD2173EB8512D16AA1C7B3B7D5EA6491C379C1C66853732D7A15551CC360EC3E89C8D796E77FA9A772499AEC973B63E864CE36A29DE99ECEC9695D12112C";
-        textByLine[x++] = "sk = 6AE07BC60180E5B519E45ACD6A33B1E15B0FA2353BFF580E32ABAC68F48610BC9419C0382CF4B4E9CB730A1C44E9281A8D1CBBCA26CE94D51AA2871D4065A706505061A991DA7960911B76694A94144C24904C82B1266278546A636B6554F12572A9CEF82593B35CCF00995553A6CDD0A4357AA7913BC7627D40594530CFF8E68C345AC211D3619C2A9C033293B2E41D28DB2E6F17136F73952E4A6F2D9364996394CD461894B8B38E85AF3E4B1DF33B0E44C867210C4680A76A56C16F6F396274362684466A0EF73A3BEAAF0C09221E577EF3B96FDF3A196D58415995AB5844B65E8A841202CA7BB24993C53D4658A541A4895659CDB0A342A7808AAD10A6BF8253655A58DF23AF6E40ADFF94B4F9C3606CDBABA00A8A04B99B275CA465F59E7247308741C738EC40772A12554B62D5030DA743439C59A560B31A8F72370FC12238F95AAF8737BFB7015A4A3B3B8A772B225F83FAB6CEB0C9629A1DE010B2DB5B90B427030A186BA159C3A853C5DE732FBDE798E0643DEDF63D8D549BDD746BD8F81CD331476581408B7B8F29334F224239F7D4BAE95831D260A46F4C79F7D9B9D0208DFB238EA918222177291087AB7DBA59E3720B6BF14BA0C93C7CBB5D79860F1087917DB391ABF882BE366036F1AAF436580A01AB775205810A5049432EF5FB383566C904693D3D645536408875390A9C8319D0A7573C84A9AEC892F862A4DA685D7B14742D63044012AB74A10B88C60A44319F8B97B404D0784DE33153927F19C7AEC9F069BD8C88B5F59FF5AA2BE104C658E2211448AD236A3520E54251494F64C84355039E60ACA4C696B440B8707F3B0ED0196A1D3881D4CB6520C237224A5DD733A67EFB33029C67F5DA6A2C42AC9A902ED8CA1EC59B1190E0C29245A5A57210FF8526A4163ADA06588E73688D410D44FA92C7A7AF49F2A0B6A42AC2660AC76594F472648F762924267A90657AA3595C4D672B7301ACDC750A53963A49704FB65A7F5877214D7BC233CC4F0495C5944A43E39A6724509E24F56E6FE4B44E453B6B151931A04E6D1B31C049C5CA009554C89CC0D4803B21A14BB316F17C93D23556B9361AB12A87DE122BA9264DD889232CA7C301859AEB32611DCB01FAABA8F794AA3C0B858AD75E82B51EF707B4266320A6A9BA4B3616896C14DB18BCAE601828FCAF9E895C571205070562208C45877780FD2A02B3C697634116EFD504104709F75426476BAC050ABABD708F38FA075DD2661D9241F0C31D7B674285BA03CC34C05FB378EF68A3E6A03A1366B8B432186001C56B01169227AD4BB614DBC290E5A085B7B90478B5702EDABC9C12544F9A2102501836ECBA58763B10751E9DB7A29590711FFB3FFC240500995E30318FDD141F6177C2673330FC558C1CAB769F202B5AECAE19D1479AD32B4E2C59834AB79464770CA619E88535F84C26E219790F24B1BBB17C2B1017464C1F1D102720F111BD2B95D9AB79F866C26C730103AA602FE5AE1710C4A1782CAAD0674129CDF8791D780095E5D8A659333149B0797472AC623A1A2FF2BEEC7306A88A6F8A6448F85A62DE253E1AF77717CC86604C386DBABCB3A9578E801C35A429E341AF97B505DF8A46A7055633718D57814BB6E2ABB272C9EFE0192C2B55ECC5CB8E389B8BC5992B037D1E72074BD361740AA8A86C63004C99FFE50224378D1C28431F599F4A701F3165C8F6030A1BA7590ED49D4300578985ADD03887D867A3E82B577574C398C56F21C34F6349B6BD072BCF8318E4A8244BEC6F93FB84B6716846670945A33FFE53BCF4C82F8C52AE84FAAFB4B46BED2A9807D2569C90791C087F3AF05B88B45345BC099E9BA4F3028C469A3B4F2A1EAD50147B208F24B21C9C4582CDB8633A9A58D7820FDD0C761E70855259216E2A3EAE25129B2B6808EC1611800D0FBB3AD6179480BC4391860547199BA04B3A97F72C8C4CAA93379F559626F6A4A8DA750E6CE0651794138C6B68D474BB70F41975B246DE5953C5226606102F98A36B66994E2EC785FDC2377ED9C664A05EDBFB694A2C5F87DAC238841245733852DA5427A0B105EA2612A06EE9019B6DD0C3FA034F61DA229B5608751BC29BB13CCABA83832C8D37108BE5943CFD2173EB8512D16AA1C7B3B7D5EA6491C379C1C66853732D7A15551CC360EC3E89C8D796E77FA9A772499AEC973B63E864CE36A29DE99ECEC9695D12112CDE4CE515B882C849717A1AB34F2AC0238C868F415630C1155BCFB302D346DC91E2F8D320AC3CB0C52EFDC753282F092BC39BAF4A18783A48EA031A191865EB78";
-        textByLine[x++] = "ct = F4616199D26BFDCBE17DD9B281A4EB28E69422050ED02078CAED0771C31C82A80E174A0EC1F7E2C5D71EDBCC2A7FFB51515E75B419861F595B048038531618D5B022AD197C727884DEA3D5CEF1483F862664592BA0364CA731CAD615C676A05C0675ACA473EA268C142E104A62947BBD4664B11AD5D5612199E2187C57B10969D444E80FD2347617AA74B20207D4C4133202EA770E09CA9FBF2623CDBBFB63BD0FD995D40A7DB9491820EA549C567562B826D2D250BE57DE81CE8C7F0F416CC8B99A6E3BFCB37B0B1169708198DAC20946181CD25E039FE95A02BC192BFC5EFDC5780378E2B58B7A9A8BC2C9949A56DF622CFA31ADD9149B1273700E01FDC4FFD22E3D430B288DD4870AC535CE74BD5A3AF698A64AB3AC391DA0EAB542E390C5DBF68E3E303DBD7F0A9BCDDB082B613B37E17BFF955C7D2397D65EA414BFDC108DF0B6A1DD9598FEFBA5C881C07496C489D23D7E8FA1383275582F6C0FD89D21070B162B02680BB0B5F514F6CA10BE713C7916701EA5FB95E63CFA9F340D6B3E4BEF372AE52FB3170913B350A463663B5462B87D444AD514B2C4CEFB40F890CB9869E63C4E04E5FEA6DF48D6DD32E9A715D755E6393ED4D19309D22E6766CBBF823AEF47F8883ADC3BD05E07B93E1CE398B6B7174D4730ECA34B5DC25D1716A377D9D00AC830239BAD118CBB86880DFBAE91797E792331F56FE5D4DA3BB0740CBD90BDDE4495FFB5EF724D4ED0AFB01CF7467146B2025BBC3D2530D0D7A444E4CCDE43BE90EA62663728130C742A915AEFC061AC8406B9EAF15DF7EF0F77FAB2BD3B3F92948DB88F9EB09947E196919EAD00D49BBFD6811E7830B6EABD500D85136E95C17F2322A9F95E7BD8340D55F5288A617F1E4AE090F26224FA33A1D6E04E55A421DD7993E80108C7C308926E18D7FC0096B76F14F2D16181DA8B8B0BE8F7602E93DB2852B6DCBF45ABAB43B3BDC13F0276C23AE6FF12FB82270F499F136428BC5B8870F71E527D2A48C3FF7FD2230E739C0488B578D027FBD347F129896066BD437DE5D5911DA01DEA08DDE7C4481C14EDE96D4C188BA0138B5AF70F19";
-        textByLine[x++] = "ss = 68577551F44198A0290F814EFB2313FB1158173B5EB1EA75EA907944ABE4E25A";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 62";
-        textByLine[x++] = "seed = F7AE036A0176A9DE9A036A542DD2840033277C44AE936D10B768566216DE9D4395CD42B116873B69D9804BA6CCBC05D5";
-        textByLine[x++] = "pk = 623668BA98183CA92C9075804D082AD2D17769032E77C50484281428C00320848073A17BACD2C47AB391FB9472D395A6376B3F44AA625C36C95457CBEC00641A1CC4E248BA7A7012904A73179A61C1524578F739F7A5998355276EACBCFE462F2A82776CCC04DDC089CD2407F4B757748089D10BAAD85A3819D52A6560970353ABDAF08DDE151555F92B6953C0B6C51A7CB882EC5C574C31619D8C824C605102BB8D836C68F29578432C8515C913189B650ADA84A2B5795093B5EDB2A6E0B13B38FA3DB500C7BDFC8DC796C7F57A9B95CBAFB8610780EB6787D36067F89831D98590B91D96144D7A4C0FB1C34455902D49E39FCEAC427D723B027709338628DEFC8A771A055CD8BB143108C9724CBAD1729B99C8FC675D007B7C38CA20B14C04549C3DEA4B5FA3A94933BB72D2E433EA638C1B157B0EEB3E84D499170A109AE98E53B807AD277DADDA57A4D13F2397C167CA0955E3148DFA1B502726C908BB283BB1B41B89E15780DCBA45485AB771F19F1F0350B64A4FF983A5E68982523C1E936B9BE3C38AD892B0A20B4D4EA2918498065D2431E7F950BB33C68B23167BB4693BB258610404788A37009A24823B81B95753BF09AEA4A7B219CC8A9AF4632D9C5E4790158071318E9119DEF243A30A7925F17233098D3C594F1571ABAA0744F0E44714D0C8765559CC327E35FABE67066AF141127EE7145546C89FD55A852712EB8C9C77BC649E847D229958E0D7A3947CC4284729209A704AA4640F0C73DD63C6E48651F62C33F2351F5D90BDE888C3DC116827B16D8071A01FE02D1B4B485E9779217641F0A0AF2434574EF92E180C116F44899AFA647CEA8403A831ECDCC04FAAB8FAF3215D622DCA40A95DECB5A833206866068A6B49EE588151454EDA821A35A5937A63C23BA0A0D8C5657D18777AA10492B1652EC2CDD22A7F800708BEB1943EC347FAB41219171FA46B7B58006F91CCBA3B69CD7603645C9BB584282DBFB9AD584C4EC0C692A25795111A18709072BE46981CC6C5D495652BC697CAA6C5F13A30F3756D42D93B2D0471C0FCC59CA540376ABCA241CA7E50AD46000AD9417DDACFDCB371AAEF7ABB3C2CFDCA88891DBF808A90028D4F12C57E4985F7";
-        textByLine[x++] = "sk = 58E44706119642D7C64C6293DC8A78DA6809CBF38B043C74614CAF23EB8F63DB45721457C5E22FEC94BFD12CB2BA10587E16C31DEB45CB66948677C889B4B638286DA6D08B062AA5FB825476FA76A5F0B4D7A5301B4B90BA66292F139891A8AA523609E4F975B67830C2A058BB2BCA48796F5FBA0E111AC682E10E5368CF8F94095F5701384147ABCC2F24F6BAC2A57E1ED2BBEE684BB3321117323D943A4D890340B28035770C8C5BBB39A5B9794432B021D1B7373870E15A60FD8C4F00B650C529095D8A310868C78BC427A583B00F897D0AC81B6AFA2DCA4BBE4B665EFB79661668BDACE01F9A30820C91095D586A9B232A1037BEDAB70C9DD87377447B4A0043546334D3C2C38FEB870B1644ECA7B957CC097961BDC3E6165C0907EDF4B6328894F7A4413B583BC937109777BD84065AEE8352471082F162BBA087B025AB16C2A04FBF3C494F43471B012060B499EED776AB383C7AE0200B1AA9AFF0090F4741C2A1A444187B702172DF84600487820C5374986623C1652B9A966BCB02662E5409BFA5BBF166C9F894548221451216ADF6E3BD861A268D25A032C838259825B8B4BE0D3622AABC24B5E997756B758953C0A2B38A4336B6DBAB69A9E89620A1AC44A748171106EFD125F953878815486AE621AC10237C60AC3A56B57C92331CBA08F2367E80750A872C1DDBE9A24F5B3CF59C8476D4284A094F1B0095784AB3AB0635A24C96BD1B48DFC1817D27300F2654D4063D0D379C7294607A432187451061E50EF5096CA3E01F020610FEA83494B197DDAA8E8E15B054F770BEF4B564A539C6B786358892B62439FEF59CADE7843CDA8C6BF48A459BCADE476E89A73EDC002D06F794CE60043EE660E50C71C515148BFAA2BEB876512C6AF4E48416D086E8AB844D0CB8E3E15063C26373816BCBA06124A1A0CA5102BBAA487D87B16D39B181D34F17474849FBA7FE12047883BDB6B816C8767808418F948764B7B1BEAE0BC09E937E0EDC9DB69A0C2A265275B77EE4071990AA91F5F62B01F5C76A7556CB1662BCB0AA9D2B560A8B813CA04F28021753C446F5A46665F87AD89447623668BA98183CA92C9075804D082AD2D17769032E77C50484281428C00320848073A17BACD2C47AB391FB9472D395A6376B3F44AA625C36C95457CBEC00641A1CC4E248BA7A7012904A73179A61C1524578F739F7A5998355276EACBCFE462F2A82776CCC04DDC089CD2407F4B757748089D10BAAD85A3819D52A6560970353ABDAF08DDE151555F92B6953C0B6C51A7CB882EC5C574C31619D8C824C605102BB8D836C68F29578432C8515C913189B650ADA84A2B5795093B5EDB2A6E0B13B38FA3DB500C7BDFC8DC796C7F57A9B95CBAFB8610780EB6787D36067F89831D98590B91D96144D7A4C0FB1C34455902D49E39FCEAC427D723B027709338628DEFC8A771A055CD8BB143108C9724CBAD1729B99C8FC675D007B7C38CA20B14C04549C3DEA4B5FA3A94933BB72D2E433EA638C1B157B0EEB3E84D499170A109AE98E53B807AD277DADDA57A4D13F2397C167CA0955E3148DFA1B502726C908BB283BB1B41B89E15780DCBA45485AB771F19F1F0350B64A4FF983A5E68982523C1E936B9BE3C38AD892B0A20B4D4EA2918498065D2431E7F950BB33C68B23167BB4693BB258610404788A37009A24823B81B95753BF09AEA4A7B219CC8A9AF4632D9C5E4790158071318E9119DEF243A30A7925F17233098D3C594F1571ABAA0744F0E44714D0C8765559CC327E35FABE67066AF141127EE7145546C89FD55A852712EB8C9C77BC649E847D229958E0D7A3947CC4284729209A704AA4640F0C73DD63C6E48651F62C33F2351F5D90BDE888C3DC116827B16D8071A01FE02D1B4B485E9779217641F0A0AF2434574EF92E180C116F44899AFA647CEA8403A831ECDCC04FAAB8FAF3215D622DCA40A95DECB5A833206866068A6B49EE588151454EDA821A35A5937A63C23BA0A0D8C5657D18777AA10492B1652EC2CDD22A7F800708BEB1943EC347FAB41219171FA46B7B58006F91CCBA3B69CD7603645C9BB584282DBFB9AD584C4EC0C692A25795111A18709072BE46981CC6C5D495652BC697CAA6C5F13A30F3756D42D93B2D0471C0FCC59CA540376ABCA241CA7E50AD46000AD9417DDACFDCB371AAEF7ABB3C2CFDCA88891DBF808A90028D4F12C57E4985F793B60F0D00C09AF885B5A0CBE942FDE6AFC4841428104710823BDCC12319EB35393308641A9A4647F230201E1389624A296B55192A9819FCB19AB77C25F95445";
-        textByLine[x++] = "ct = B1832C577C7A368F68CC1EA62A6B3471CF954830930B3322BA65F6D3DC90CC170A217DEE317EAC6B245BACF54A319FC3B93E365F7C6C2C6DD5F2F0671DFCFCF58614E414B6A3C30D6B905762CEB3A8859295C8607AEC53026ED182FD6F8B1AF02EB6D9BC31A2FD15F073A5D37C0612459C546FCFA636AB15BF96D6F7813A45D07034A500B09E656ABDC9FCAE000260B833EA45581CA68CAC4EFE1E50E3110B4F4DAE7CC44951B64B580525889CD41A6144655870CAC4D1088B48C65EC38705ED904724461D5B4D1C0D13E9AFE2719D029E084B0F63ECA17EC5B890DEBF7B8AAF72DCE43AD1BEC086E89DE52FB7918A426A1BB2E3D1CB50C2567B6C5DB6878DCE99EB3C8FB10C6247846DC5C79D7E4768E256272883F10D2101CA9E4321D986256D7E8DB4CDAA279470A745CCA11FEAD97B07C645B5E4E752FD6056B28EA6A1808899697C4DE03DDE6C21B1D64AF87363E320D69671A33F930EFB96A97D20CC7930A28AC4159D0E569B926B3170C55DFACAA7B2A7C95E7E06A6975D83D514D42678FF7F889325B83A61DC297D04B9A9B5E9389D59DE2178F1F22B747DEF7B88DFEC443D4199E11536A6F3E07AC847CEA1DB1839F5EE5439065A641F9B05BA00585B397D958CD8BB9FB11952EF314F40AFFC1F2183156F756669BCC6A4E157533D8202F5451A90B3184B160874240499F90F085B30014C128319EA1EBB0903BE375E2087FEF0BE334BBDDE56894DCF24BAE2BBFEC62879D43342230261ED446A3B7E761153BD7A7801473A210231D3283FE2FC60118C1DD32C2AFD71CF9D56C9F3CA88390DA11F16D8A651CD73693ACDE2451EC191DBAFDD326978DF14E6F5D6743CB557FE5A2AAE7A8F6B01458823A796964DBF8FF3C4158D2DEA750003CE99C6CE7E794E1582DCAFB06B5BAA9B573EFEEE872D152781637C24EB6D95F2B9D819DC441C2AEE43569F132563A35583C1E101B22235CE0D064B0BD3D71E231D3402ECEACE5D84C68DD6D01454FBCCE9FFE66F34F16B53033E2509B15612019E5C8AF44F6903E43C509FCF57D9DCE2CE3C6F4A3D3F534C4315FC116BD8A2D34BC817";
-        textByLine[x++] = "ss = 963F6853AA0AC3A40C397395FB0B4427B9E7AC48DADA3B758B11D6A9556EB14D";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 63";
-        textByLine[x++] = "seed = D995D38F934B6E1A7CA77C9522E3D037676CC939B0C8BD4B84394B3DC91A791F09D2D97199258C9943DA955E7F7B26FC";
-        textByLine[x++] = "pk = 8843B50FBCC8BBE4AAE3F4C1942926DDB8580EF06ADC73A7F869842A3211BBF36172AC6972811C887B350B5189A376AD6E032234C0840DFA0A7DAB2CCE171E47E3945F2798380583E4E2B1D5188B18BBBAB2564A0A06C174C577C91000E1DC3C79C1A7D54C38FFC21DC0E52E62A3C093A30C0986AAD289B0C45841253C39A1A00B90712F4E4A9FD22CCCA9C44B85C5BF240989DC077829FCB6C874733A630A00A4585F6A5BA1C0AB2C16450E0A30AB06670465628D763B5B0326FFF11D5306ABD4886CB304A515389E3D9CC4664039BCB80509661FF19BB372A8C8E121C94F5103994B91448982BF1627B38741A8560ADCB5101B68937673A2ED345A6FA76E10B2A014115EAE9B4A7AB8ADE144871FB2CEF1B10309A6AB67B218671500C0FA5ECE8952D2635061524BE47A33E4FC06EB1409CC4C7BEAD4A0BA8007DF2B0D475A4312F042CC6B75B3484B08099C208971A07A054B701C193CAFB509120D89579E282B07FC6CE1BC55C10012ECF1399C910B827A4DDDE8995848861A8CAFFED9A284B829DE0BCA22585024D4A2B5946C5385267E9052141A5E27EC2B75188195D7C693F8C64B4351F2BB3076D95DB950905087BB14D87831618E9BEB5583064FAD4952EAAC72F3A3079DA32668AC35B0E76E21EC63F46CC2ABAA3C986970BEE5AB6712C40B933D663CA9FCB3441C62477E3209795150C4DA33C9FC13B0E421D23A9393A76728F55261B41C8DAC98E48C24D91701FE6C719D8964318655A0F9BDA8E1C876C04A1B729951F5111735B3558162C1E27E6A9C0CE0BA0953620D6343980CE7B3F5DB31249B557DC76C8273B9C5075A60B8C098E07607648179121D2AB55B81AC018143724015AADD1B730C274A6EC281EF446A8468515519B1477492E5CB87E0962BD9216F9863BFAFD025B0E00C58A709D200BE9187B654FBC6F76B76092C1230526D051836BA580F90E368A4B201DCCC9A3637C19799465E3685EAF51BBA70610D88B6F08BC6179CA607241B62E54E94F97257838ACEE5A9375B347D9723466B6609330A071A3FF9D1ACBEB4C41B0650616689005408BF8C292B9341B2D79ABE93FCEAFF0F0FF88688C870D19759A41D3D361A0CEC73CC908F52BAD8";
-        textByLine[x++] = "sk = 0B107BF998C10AB147262C4E15AC4933A033D6D6A0804468F06B17ABDA2222F73D17C94C1F30950719CAC69A81AF4985E8134E67B8CC84064130A11F1DB09BFAD73550BB5A00696141F35B237AB114AA4688F3B98A563F1E2B7B8F85C5D61AA9D759C2D6D45958B18251E62E8D2C1AC389389CC2278E778B42E67C962A0484E78EB57B0632C04776F41ED69B78EADB9339376844222B7396699238793F617C96292B30B66A0992CAED38042F64A34E353132829ABCA68E7DD119B9954282A8C87C4A5DC4BBCB36EB2CA18876F8C5694BE86DF3099BE1F6CBD17C2FD820693CA0A0AAF8A495B24777FC4A05129E4731517472CD67998DE55417D30190DA206255C1CB56C2495EBC2F444A0572681CA45A8B63E262C9E4A025CB60ABB81008F0A30BB345EDA853A940C87FE9B9FF512043770959206912B65A79B5CFC977506FA407180C8E9E7B178253851FF925ACF9026849089EA1A80D45A5E39430AD1BA48698A49CC1319473A91BA46DA0AC0D51856C93A2C515283903E619A1B852845235BE702405524D86B6CA91814D5FECB8A24669DE5A2123D320B6589A7A4508F935594A0070737518C76885C82816E6681F172C72D2825E43C82B5E6ABD58A3B7863A5E8111893F53B2FC89011B31840AA010AA7C92DB4895B3740D2BE47B9B5B34BD034F5D7842C2943EB7EA708079CF54B11A4A2074823A17C40CBFC0B5166CF38831E4C874A086BC15CC3DB21710E4C0C8848FFCC67520C291DC9AA33456508A52AF89865DCDF4A3C8E71900F6B69F6BBEC635BBC088BC79D7B69C7A3E3C6413F8A1892275B8ED8A38FD384CABD4CF5C37BB7EB5A818118A8B239F3B873161CC1B81605106540ECAD69FAAF143E487AEFA06056B188AA05A933E1380921048072BAA6C01162BF56531CA42D39AA5BAD485852743F5626F36A881106CB32142ACDC69BF6E234CFCD1696391BD5BE59C284869D1D7C34E86628A198EE16021D6E8AEAE9279D62725C7107CA250C9AC3A0D1B045A9A1C8C8AF89CC88B295998043C307901D9920BE770CE97B348180764FC7CA83C889E12BF4D2298E5691865F9928843B50FBCC8BBE4AAE3F4C1942926DDB8580EF06ADC73A7F869842A3211BBF36172AC6972811C887B350B5189A376AD6E032234C0840DFA0A7DAB2CCE171E47E3945F2798380583E4E2B1D5188B18BBBAB2564A0A06C174C577C91000E1DC3C79C1A7D54C38FFC21DC0E52E62A3C093A30C0986AAD289B0C45841253C39A1A00B90712F4E4A9FD22CCCA9C44B85C5BF240989DC077829FCB6C874733A630A00A4585F6A5BA1C0AB2C16450E0A30AB06670465628D763B5B0326FFF11D5306ABD4886CB304A515389E3D9CC4664039BCB80509661FF19BB372A8C8E121C94F5103994B91448982BF1627B38741A8560ADCB5101B68937673A2ED345A6FA76E10B2A014115EAE9B4A7AB8ADE144871FB2CEF1B10309A6AB67B218671500C0FA5ECE8952D2635061524BE47A33E4FC06EB1409CC4C7BEAD4A0BA8007DF2B0D475A4312F042CC6B75B3484B08099C208971A07A054B701C193CAFB509120D89579E282B07FC6CE1BC55C10012ECF1399C910B827A4DDDE8995848861A8CAFFED9A284B829DE0BCA22585024D4A2B5946C5385267E9052141A5E27EC2B75188195D7C693F8C64B4351F2BB3076D95DB950905087BB14D87831618E9BEB5583064FAD4952EAAC72F3A3079DA32668AC35B0E76E21EC63F46CC2ABAA3C986970BEE5AB6712C40B933D663CA9FCB3441C62477E3209795150C4DA33C9FC13B0E421D23A9393A76728F55261B41C8DAC98E48C24D91701FE6C719D8964318655A0F9BDA8E1C876C04A1B729951F5111735B3558162C1E27E6A9C0CE0BA0953620D6343980CE7B3F5DB31249B557DC76C8273B9C5075A60B8C098E07607648179121D2AB55B81AC018143724015AADD1B730C274A6EC281EF446A8468515519B1477492E5CB87E0962BD9216F9863BFAFD025B0E00C58A709D200BE9187B654FBC6F76B76092C1230526D051836BA580F90E368A4B201DCCC9A3637C19799465E3685EAF51BBA70610D88B6F08BC6179CA607241B62E54E94F97257838ACEE5A9375B347D9723466B6609330A071A3FF9D1ACBEB4C41B0650616689005408BF8C292B9341B2D79ABE93FCEAFF0F0FF88688C870D19759A41D3D361A0CEC73CC908F52BAD8167A2FEC4D72CAC2FFD844246EEBABDAC0C074E4F984433744E31D299FAA389CEAC9D531A532770837A854B4F5531F6E0C8D6C10183B30D3435498C2DD142951";
-        textByLine[x++] = "ct = D4C6855F37598574743D928AAF2FA2DA0CCBD2A5C81130752C96F54078A70F22F57CA4792AD3932A11E391B5E8AF17673D0FD088B78012820E1BAB67F8EAE1945522C3AF1BDD8EFE24D9BC4EC5D7435F247B4232A53290809B1A42DD212EEAC4E85A4C23109E30ED35B56620BEE95E86ABEEFE6FBFF35FB59DA50A79A1C875C2FBBC16D71213B544E2B438D0660DE85537293D7976BA3C574589C22B9A79E96731EB8442E902117B5C63803F71B71F77B5B460F9B8D36132ED804DE3CE6FADBCDB66141F93A3F98283EE935E4558007D7D984EF4AB9941028F9B1AC47A1EE7EE11F10AA2A29BEB56B65278F990D60EBC4132D07D4CAD58D4DE91E18EF00A9D0AFF8316C0D9B9B94AC8B1C4ED27C617D3F7893E4266735C026A1C0C2B02852FDC10F01D9D14FA40EB8FF5D1BDDF0DE9492E43F2F5A920DB389830437C9C1B7EB7968F15F58C67A501AA52CC65761AD68F9AA8266D6E1433DFD27707E72C202D718B298CFC45B967EA7461EA51D7FB75B5CDADD6ED9EF01DD766BE6CE66FB0A2FB4787766B16D5242DABE1823A7336E53726BE06D590747DFA9D6E482CB8685DBF35CADEC3D804604A496D7C98FED30E10BEF41625ED16A2F34F7CEBB3A3F851189888F3EF00A883BE199D66EA2ED64C19C3DDACFBDACFF0C1D4322D5BF172D67A489249ACCAAD8D7680A6C74BC818E3F5A0124C151800ED1120DD869EE5E9ACC55F9CC64874AC88620E85BFDAA9FB2FBD6505CECC11C45C2C932F0EB249B60BA78DF73C462DBD8CA4028D137B029BB81FE57EB14EA55BC83F210583DFCC9A3D0165156ADEAE6CD3D830211F8A2076DF6193094132FF6C30C5FD846CC06C95B650FE40975BD622A151B669FBB09F6340DD3931871688E8AED14FD8BF7BBEBC2A7C099FFCE076D03198DD4557250C01F3EB091D742E9C49B4E56C1E745D415C4133E0AD7D31E0D387FF74C68C84A37624F7E9A881FFB0FA8AD95C7F74D7E10903E705A0965BE35FE03BF61BAB32A173979A39B62BC97A1F6605BDEACA3CB62549E0C1346EDA1D36D8135DB07D3D587BA404B456395AF912731985A7D7B3C5985FE1";
-        textByLine[x++] = "ss = 27C47462115122E2C24CF7030C0F9E270E023714306242C7276F8B1E72A4C008";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 64";
-        textByLine[x++] = "seed = 5929F02A271725CB40200DE32D9D03D8BEA53B53AC83186C42C7F565CCB1CA508305D470850CF86E9B2C61A5B8CA1C93";
-        textByLine[x++] = "pk = A9F0C2475A69F1E96C610BADD664C99895021F497C13111930880C02D9C8AD7A1309085826B4116F9A9CD841981F766944137DE5587323DCCFBBA28366F86AE7A7481C054B2DBAB86823B77EECBE7D9088A9CA882EB7ABA5AA23C27209DF4760E70B4876B709BFD225B0EA9644FBAC9DE01DF90648A25B5FA9A48228872EC2CBAA09880100BC24F1414102D92A5A206399295333485F00C111AD49C0FBEB5F4149477E46075377967C310FB5231B9D6204BC877C31C524BD76B5EDF23FB9B091FFA3BC2EC64423B02F673505D5C69DFE472D8DF62F9775852B901000D84E4237AAB4F32226272766234DDA706FBA5962E816A98586BC2A5BCDC1DB80BD9B18BBC3C82D01CB1B67369F32741D50CA57A45C45667D5E5428824463C8A651AFD95E995A4B860043CAE74E265AAED3320414989A346A63F0F0842E59972A91BBA62559422705AC6422D66098747A85737ABEB01C00B4B90311081A17C6403726CA39E27C8D426845FB624A956C39BBBB404A8EF5073E37078EF535B9EB581783EBA401243B02D750F5034D4A366C197994189846DBD82712663A0FA0BEEF5847622A904B04983B519955B717025C01D9E5B928D4B860CB0FBFF76FBBC22B4761A5A584770B25806BBCCB94FA7312233027F5B6C97C97A4FC5DDA7936B090AED1C9478A68CE883CC9B8960E8755485099912DD509E9804E33E86A12A75B53D42F0C784C6A73732A471E44900D41EC9C4C0B006910202B1B2DBEBB65B5D7471F189FAF194E642887C5631271649662F4B235829644198BF8E965D9728778A65405C4417EEB7EE25502618CCB0A0A226945ADB0D73FFBD2CA47A5580D0803A56B3C3BC66E877CCF05741E29501BAD787D8B588F97C20C8255687ED3AA1631122C387456088D1209C4A5475F61D12C2B60B1776244512A08807C09E7C7AAA3935125F235F8E872BC4356A21379BDB84A25B132F4449561E96BBF8776FAB1C681D42575A1BFC0DAC357653996D41AAC4A9341196DA05C49BA84A4CEA37C818BA0F0408C8C9335616410B1D479CA035656119236EA9D6979366163791648088FECABDC7C80A7B265A3E05B2DB868482FCDBA0367177BBBCAD04F3A50ADEB85DED90BD59DAB";
-        textByLine[x++] = "sk = D1D08267AB33FA3A0CCA990D20543E59075F87E1B20953CA4B775515A07AF10C6ECD7A5E299B69FE05C0939CB6FC789D94C762940925A1DBC9D7A33D42A2970B36A76F5869EFD38B2A81B632AC1FE38A114C083496B5BB8B211A174695C29862633C283BCBA5BE7C2ECE82B9D517C0A8099EE1BB1624838BBA8B5B73A463E196098986130A84BE1CB8080E643F3F4B08F1B84D02B10B932A3CD7A921A1F97AB8F38B099BAC9DF962DDECCAA1976BE86A63B39C59511A07A29046BA6451A2D77F4C29070D9A6CC305CA9D9585010089EC435710452390C80704375458636921AC93E5294DAB58040CF309A53AC808E82FC571AA09137CA8504FE2E71455D085F42AB98A9720A85138FEA10CF996137E361D1861B7D346CAB82BBFD9FC0100949E945279A4757804B29CAB22090A8CC6C39495C44273BB0210E1495D139650CCC60097E77573884DA44ACE0C6755A8454DEDABCDC92359EE73246B045F61DA9FFA172A95A20315B688461050F052301F0B1700F6070B95218B583F026BA17BE6111E0106DDE5BAE1314DBEE2629D5CB291D396BB04CC48B92ECAB20C476BC32F155B05964B49649D9E5A8F3F9BCB5A192CC8D9B3858A81E9BA89A9D7A88EC90838F862472C2F60A38D1B444EDFD411F8B4C0E4F090C5F353F897CF704801422861879471482A956F591E16046DDEDBBD68B5768B14001A335A676B75BFF63AE7614B1BC03A04460768A12DD3C99CEAA6964DB1BA11173711C7601FBB3FBA511C0F63251567B51DE163B83373CF02C0053516C152425E0C7ADB018571160C0F4A47C026404C0802428C0A373C991EE5C4320BA566705AF9490D6AF3A53ACA021EE11F53B361072688F46526184A23914991F3AC7EA28C20878990563CB96688707099465FF3B65E46280A15A11BF05672ECC7E31934DA8226997AB2A9773A53059D3748295AA10B08D394B885944406401470056B645315198D2F42C18DF155E053A63D147B436AA8502CA97833C0450BCC48851D82E21866A51DD7418F3C6AB231C7067A874028688469C326B5A49DE1FA3C78B31410DBCD5B2572C8485393148DA9F0C2475A69F1E96C610BADD664C99895021F497C13111930880C02D9C8AD7A1309085826B4116F9A9CD841981F766944137DE5587323DCCFBBA28366F86AE7A7481C054B2DBAB86823B77EECBE7D9088A9CA882EB7ABA5AA23C27209DF4760E70B4876B709BFD225B0EA9644FBAC9DE01DF90648A25B5FA9A48228872EC2CBAA09880100BC24F1414102D92A5A206399295333485F00C111AD49C0FBEB5F4149477E46075377967C310FB5231B9D6204BC877C31C524BD76B5EDF23FB9B091FFA3BC2EC64423B02F673505D5C69DFE472D8DF62F9775852B901000D84E4237AAB4F32226272766234DDA706FBA5962E816A98586BC2A5BCDC1DB80BD9B18BBC3C82D01CB1B67369F32741D50CA57A45C45667D5E5428824463C8A651AFD95E995A4B860043CAE74E265AAED3320414989A346A63F0F0842E59972A91BBA62559422705AC6422D66098747A85737ABEB01C00B4B90311081A17C6403726CA39E27C8D426845FB624A956C39BBBB404A8EF5073E37078EF535B9EB581783EBA401243B02D750F5034D4A366C197994189846DBD82712663A0FA0BEEF5847622A904B04983B519955B717025C01D9E5B928D4B860CB0FBFF76FBBC22B4761A5A584770B25806BBCCB94FA7312233027F5B6C97C97A4FC5DDA7936B090AED1C9478A68CE883CC9B8960E8755485099912DD509E9804E33E86A12A75B53D42F0C784C6A73732A471E44900D41EC9C4C0B006910202B1B2DBEBB65B5D7471F189FAF194E642887C5631271649662F4B235829644198BF8E965D9728778A65405C4417EEB7EE25502618CCB0A0A226945ADB0D73FFBD2CA47A5580D0803A56B3C3BC66E877CCF05741E29501BAD787D8B588F97C20C8255687ED3AA1631122C387456088D1209C4A5475F61D12C2B60B1776244512A08807C09E7C7AAA3935125F235F8E872BC4356A21379BDB84A25B132F4449561E96BBF8776FAB1C681D42575A1BFC0DAC357653996D41AAC4A9341196DA05C49BA84A4CEA37C818BA0F0408C8C9335616410B1D479CA035656119236EA9D6979366163791648088FECABDC7C80A7B265A3E05B2DB868482FCDBA0367177BBBCAD04F3A50ADEB85DED90BD59DAB955468734662471C953FA516B35B3A53053FF396B7E2798FE07A2ECD549D6C063FC3D8392CB53F36ED647364A04E37278A0E0A45B720F4A75C580C9920EBA98D";
-        textByLine[x++] = "ct = 6A28A93C1C0ECA7C44ED894A8006B2DD945FA0EDB472FC04FFDE03BAAB769ACCFE6203862738D3B385E2BD7057D336653C174B7452853A12B1297A41DF480FF962F1039B49B6724E083EF93F34F41717660D941DFA2A07AD1D00981B3C7C5CAFDDB5FEC83093CCAAC0A86F6338A16571AF9CF893BF46DF2122FE36DCEAE365221F53F4CD80987A114E32F8E406897F8A9FBE52C6E5205D4689CB5A27C1EFBAAFC7C1740D98BE082A0081E0969F51FCFDB22F5C8FF050DF7BCD5219A29A67017903A257A9D7A95F65568662B2142EEA854ADD6ECCFDBD1DB3875AD49DD50EA340CF7E48BE60BD4F4D82622936342D22B9DA47D192AF9FB032E2FF802B71704388A02CF4CDDE32FCA32A76EF752721CE1A10767C5F94AD8DB64146133ADADADF6582EF506ACC5C2DE105CF0A783F8BA8BEF23E58931601B8FE6C1972868FDD4D7DCE92EE520079BEC3A12D49BFE822ACD1373DEC703CF2E94B8B662659329320A4134AFB48BD2E38842E88B7E67706533FE7E4978671BE0BE2270C6D52DD3B47663187CF8DD6D0BFDBCAAB24F0FBF8965F1E76525E7B831C6359B66473F5BD54D9E7801D6A7A2C9E94A87D31BEE420E541BE856F868B8FEBBA24EE9C6C0C05170A2E70504567E6C39C25ABC94D443D083016C6149C53ED35CB53A0FC9F2248931FBBFF0357FE17630CB10DB06E1111F114271C54F16290CFA40CA9C8446E5C96E3890EC885240643AE7C6191DE12842BB5D9D2301AFF862E484F5CC16337864636FEB3267EF1E6092DAF250470A995C791F674567C36E2E1C5EA220062DAB948AC72DA8B2EC5E52C83F5F3406FBEEF97ECFE5C2461B4AC356E56FCEBEAEF20FD493F5C8C3C89C037AF4258A288972CA8DEB0F5B8E0CB3CD57B8F2CADF086BE4520BB353477E4B56C665D3B2E0680E775C255C9D502F2552A0B9E17CE75E0F3AD40E7F268553B92293ECF516928281EC319E6C4823114AF8EAC70049DA8F6026980A8413927F853ABC9415A7F01ABB07C2436B385B358DF2556D8D23CB3C40D71ABDFB4303FACC83794DEA7F79BC0C75D4D8CCCCDA22EBBDEF88A62DACA2DA59EB6";
-        textByLine[x++] = "ss = 18A159D28BD8CCBFC5E3E6EBC473179A7B411D7829D618869E773142366BF0B8";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 65";
-        textByLine[x++] = "seed = 905074033D7B75DEB2D06A2F29144EB377B452534C5710632989F02D45312D156557E96D4486020826DB200153BC4A8B";
-        textByLine[x++] = "pk = 28376C399946F6089F4EAA70736726A20C6E2ACC75DDC880FB015477D3AB44C36E047C4BEDCBA5E2D775628154ECA695261B5825BA495F84C925F73C5E86B59FCA1A535906C29B0546134469AA2FA9A273E987C50F2B5C1F0B52D79984246C653BCCCAB49C172A990A72D93CE02C2A9C56A9CC2C8D808B8D6853361F9977DB4BCA0AD75AA65C76B9C47F3F4715B977580345B13CB945EE374A980A3152E1690469C47F8310D02CA01DEC8F1A149E6C1A1A4FF0496C18C8EBC67B79127195341B132947BA62A89871ADC0C9B32D951ACFE88334189AEBF89991C9B73EB0B68E6C2AEAA1455AAB124160179EBBCC40667EC7159D8991897CDA76E31A8330793FDB035FEFFCC74E251993913C6AAC99E5ECCCF5F9289343989BAB7640C9C2A9E2C622D0214CF9C696E803D9E119AF0A90FBA50199032DBF491FA5E260CCE4B92B8C9892C8519AB23031D9C3C53C671A4008E8BA31B3D1BD4C9602F045B92E42040FFA00F441579B105562D507D6117A9F5B9FB6E50146CA47FAA64165C84A3C9A77A70963E3A6A8A28B658998078CD91CD4599CBC21CA68D13395B907E395B581B490B3007AF66CBBDB222D78973B7B69B37C77547669695C347DEAC03374C209FD163984F03F59A6AE8DE53A169041C35C99A4C95F25A759AB6B2F0FDA12E1744A85194FFA736BE1D67D7977B32EB7AE6BC04220C8846F157AA7D05C12C02EB8D3053059CE8ECC34791953F00077A4E13C001A48C28500C025C4BCD11E5FF83AE9E31E0A6788AD70A71C1C0D5DA418C6E6934FC959D70259B606C986C70348CB7CD11A46BE201C474B819D8B54B538C78A06A9BCF905DA7469D9C045686A3B38E345E64994CC0785FC12073CE961763074F4D2AAAB6C059FB67C947889DDE52C8FFA432C9171CD16133D337F10546D864B3CF3243B2F3097F3314976C183128AA1A11916E6365749910600E64D96B663B236C43339CF979C717C6B03056081D9AC4301722330E13CDB0A75DE4A4099F7A615419C82E10C6EAB027447A78303697D8089647263C0B39834986F8DA41566DC254891BCF93014B4B33E2BE203B4E2C67B4D655C9F1EA4B448FBE32C4996FC298D26CAE25D276BCF6E66BA65E3E97791";
-        textByLine[x++] = "sk = 17061BD1A9B682D6741E754ED82792D3DCC88D3C8E5CD88BED131BF12176AF10C5B6D690BE325C67AB7B05C67EABA3C3F58838897C5A11861DBF757F9937CBFB01A668C84F2A0CA7627497A4E4417331506CC28C68F550C9AC96EB2030585B306BA62F020281B8B59470F0B59A3C8036132556B381C7CB8D8C365912D2AD91D01442B534FB09BC9A692E5941B90342552207A8D099B0F628CD8ACB5F3BEA9D5985A050A28F69743F5C22392AA8B185272FA8D19969F5C0F45354EB18B961066305F183DC29891F4784DDA37F8C9C058B500E1FA393C2D92F37175C8176CF4FDB746E377F0C97AEC1D43DA947C889269EBA88951D925392225C5EECBE1146B255011236C34517C3B1CFF1B91D17823FF4B2273AB1B276C0C89B87B086B3E0588B9ED14FF5E303D465744528388BFB90D42414B1529DDA707D2ED515BAEBB05667580A52AD78A211A8CBC0C8F1274D23504F046E1B84813147255ECB6F18314AB1C3187B876DC97926CEE74C00C956AD1341AF66A4B89281D1FC2CAA2620A806B7A03042C8D401527077ECB91C4FD12F62F0045498B1C43042CF103A9E73430A0C5298F55F4E5517F5E393197A5C9400705758C9A66307D263A5DDF72771857C29A97216A4AAD7824E2DDA2C3AE7C38BC851BD2C65ED584F789A342F4056F3DA3315855C675557CB7B2177C3847B21A777B3B24E74572E1554285347B116A7210248F6307BCA828369B8CEC51BCCA4B707E508C3BAF21560B5450E4AC9968AC543485E21722A7F535F26216BD7378FDF28676FEB7EDE34AAFD981A805729C11B4CF9CA7BE46A3DF96ACC14CB4B6908BE9A79AE6BD13980E6BD997A1DD8553A98B4569681CE78578330181EC7C1B466D1C226BA0C15A6BFEAB52E80A118B0A3C5E9657910063CBC2675B5A724D1F867BF82ABE2088E83D3AC0F55827F864B61CCC439906DB818319E360FB0707CC0C6BBFCA62C7C00B5A1A6341915941D6563ACD410AFB960C1D626DD7875047129A2B13750E3A6C491616DE3B44B1888D2BB5B98E118C4AA6E2E386DC933B441067EC7E6B2BD730FCE342C17720AB3D5B7154C8228376C399946F6089F4EAA70736726A20C6E2ACC75DDC880FB015477D3AB44C36E047C4BEDCBA5E2D775628154ECA695261B5825BA495F84C925F73C5E86B59FCA1A535906C29B0546134469AA2FA9A273E987C50F2B5C1F0B52D79984246C653BCCCAB49C172A990A72D93CE02C2A9C56A9CC2C8D808B8D6853361F9977DB4BCA0AD75AA65C76B9C47F3F4715B977580345B13CB945EE374A980A3152E1690469C47F8310D02CA01DEC8F1A149E6C1A1A4FF0496C18C8EBC67B79127195341B132947BA62A89871ADC0C9B32D951ACFE88334189AEBF89991C9B73EB0B68E6C2AEAA1455AAB124160179EBBCC40667EC7159D8991897CDA76E31A8330793FDB035FEFFCC74E251993913C6AAC99E5ECCCF5F9289343989BAB7640C9C2A9E2C622D0214CF9C696E803D9E119AF0A90FBA50199032DBF491FA5E260CCE4B92B8C9892C8519AB23031D9C3C53C671A4008E8BA31B3D1BD4C9602F045B92E42040FFA00F441579B105562D507D6117A9F5B9FB6E50146CA47FAA64165C84A3C9A77A70963E3A6A8A28B658998078CD91CD4599CBC21CA68D13395B907E395B581B490B3007AF66CBBDB222D78973B7B69B37C77547669695C347DEAC03374C209FD163984F03F59A6AE8DE53A169041C35C99A4C95F25A759AB6B2F0FDA12E1744A85194FFA736BE1D67D7977B32EB7AE6BC04220C8846F157AA7D05C12C02EB8D3053059CE8ECC34791953F00077A4E13C001A48C28500C025C4BCD11E5FF83AE9E31E0A6788AD70A71C1C0D5DA418C6E6934FC959D70259B606C986C70348CB7CD11A46BE201C474B819D8B54B538C78A06A9BCF905DA7469D9C045686A3B38E345E64994CC0785FC12073CE961763074F4D2AAAB6C059FB67C947889DDE52C8FFA432C9171CD16133D337F10546D864B3CF3243B2F3097F3314976C183128AA1A11916E6365749910600E64D96B663B236C43339CF979C717C6B03056081D9AC4301722330E13CDB0A75DE4A4099F7A615419C82E10C6EAB027447A78303697D8089647263C0B39834986F8DA41566DC254891BCF93014B4B33E2BE203B4E2C67B4D655C9F1EA4B448FBE32C4996FC298D26CAE25D276BCF6E66BA65E3E97791F7310C0531060051469FFCD2F88E3200BEC6C721BCA1FA4C9E7BF1773D7CCB19D7E4B5D8021C486B9C3114D7CBBEB7CD49EBA8A61BC2BCAE1F1BEF30A1DAF76D";
-        textByLine[x++] = "ct = 830FE9B7644A20E4FFC43651E31B11CD949CA3B5F0FA85EDA474F02C3C9BFCEDE2A46097AB1EC3D752C4E8C8AC98EC1E979C2E93B2C50644877F76FB2606A639741F8058D425895F9346271F3852224B6D59704F8DF036B3472BF532058EA17B6BF469D855CDFE8C421D185C0BCE800FC1F11FA5984F619A3105E407224ADAB4AFB4A99B7B9C96AB56009B9489EE3451073FE99D4E3FB30E70FCCCA1137D6183F966E3E58993F8531B218D49E3C385BB4E96B364FB5E9D54E30085A7C4EF3B2CE2B16FE255D6E51397DA7974A39A5A4501981535855DD7DCF5D087ED3A06DF2D4EA084A21EAE1806BAF43D5A1CAE1AFB5B3A013CAF6E9E9D9903F72D4BB39AB1C4A7AFC713BA9B5DF9F6B7F5187463000377B058DBD0881C40842113656BB260CC08687B1222292FAF03FACA423332EBC10FEC780FDCAE2DB5609E920AD495325F89100797CBF3F9E43348642ED7005DE1C85B320C0261028A6256C0EF9AB65BD20FE001C2E0BEA7973C01F5A9527EEE52521B3E5DDE820CF54C65B8C4637DFB035A467CDF576F89BF0B42661C2D0675A36615715C85A395420C958C516FC947A970B01CD2950AB6E1434AA1526AD05EC89C9450112945875137EA9E5F91B4833A3A32D22EDACE7AE5A8E844F3E5DED55F892477365E15588572BE5076D548B2F2E3808AFC66E0732AEA17AFC198041B1FF3BDD5C431BB5E3344FF617D377C0F36F9D578C6EEA5A75F2FF46F7ABDAE165661751970E48E5DAF54115AB8911F846B5951962B3DD428BD2BCBA82709F3F7BD29040CE05FB547EAA3DFB320725C84F957132B4C36AF3E72D7E6CC78B786BE9A9BC5FDE1CBEB160C72494C31EFA828B88C431B72F29CC67F21E250BCF97F55A07B5684C7C7DD64B675B564A2EB5C311F234D49D23A5ED6EC0C68C1194BE72446ED6DEA64FAEE4FCF5957F27367BC567E67BB1DA84671D63FD384DBB8BB6C9BE417AECFE78FD3693021516D6774B7D64A67D75CB30B624817B85812A04BC233B1E296522BCC1957F2A0B57CF04961F35DD8EAD004A4F6339D1F9C57CDCAF27ABFE2E0E6E6537CB2596B0385A3E0D173";
-        textByLine[x++] = "ss = 6F5F733E336BCA237F9DA083DE1978E6E6B80D0D25191ED1B502E315CF0EF2BF";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 66";
-        textByLine[x++] = "seed = A3E2E511AFA7BB560446BDADF67D2EE2E16FFC7BAEAE7EFB8C5455068BBD4E91BF9BE9D98B280072FABA7712C75B26D4";
-        textByLine[x++] = "pk = 2972584323C917FC24681B6168ECA204B8210BB3029E05CFB2E08D479B413D987152A0203F0CCAFC45625647B57E3796AC904643C73E9CD26653600209A62BC6498DE68223C990672470C2A2B77289F41F5E07AC7320500A7C30A9E99544F7837DAB6E7B7B7652751457D96E23080432A495F6C7CD2824B791F8C4FAB45F0F94A97ED67B576A242131ACA3CC9C08833304DBA85C07C212951AF1303E91206F4A54C45E9CCAA1E96FB07BC27707311AA2A1438A9CE7355DC5861592A4CDFAA13E66245EBE67610DE4875B57181E118930E671B34104A38859D203AC064B417A30AA8D23AF7C5C732F4C57E8359F0B698DE6320E0940A4754904BAE082AE6C4D22DB5E6DD5AD03665906CA500F6C8D35563AD9109146C89986C3A0B19C8DFD04C52FFAA81153C2E8B6C9F34C366ED52E2438B6132400F3BC06F00C71B6669F02735229B9B1A5B580CF271003B498A6C6826D553CC736A19A6CAFE69058AE8717B91842D92BBDEDA0670118116B719264465E61D86B975A843A5C62A056B9AF8A7CD402A747A6B758DA977B12214608CEA52540DD390135E28E6160468C97B713826DBAF27AEC20B34E07AAD340351A64223068318113C5148861AAEC535D15368A6B096B559F57B2842713C44D46BF001477CA0C92BB47C5C502B4E5F22E7AA087C26BBB36D9ACB0712AF2FC7C09E55F1FB71238E33D05D41D186790AD725AFEF46173134620656449917D3E52320C8542E5D725ECE72390F637AF286A8457165F5622608C0813DA9C78E83334005732246091AA5877E7AE460C18BA856D030A856A749D2740689EF036FA936FF3E25DEDC97A72F539B3A32F286A02B79472F28089A6B4B9B42134B6AB252F377E819C233A16BE6361A59B4A9D52AA18C18263FEC2602EA9B8E9164BCA2946A31A892093AF891A3369A01E169594D0E50FD5B3B144405BA1139A8D167564943530A26522F3216517144937CB5A14B98300A03D6BB2B8C13EB23355590CB5989A4E26F242ED7B977A36C65E768F21E9417F3180C304009394CEF9BB74FE1306337B7100938260C68DFA7910DF6C7ECCE93FE398AF45E12EBEEF4308B229C948D425016D674119C0AADEFEB21338BA6CEDBF7DF723";
-        textByLine[x++] = "sk = 96D7A99C7BC70E97783A8B4E9E6C33B02564B94918979154F6117E8EDCA085A680ED1A205A91A64D62032E0BAC503717B040CB5AA25DA6C96981069A516336EA5438D97315C4971C3808357EF20C7A9540BA27509AB9410C2A0003C81B0A072F1187239C772829BAA0892C22FDD8BAF62960FBA2118ED5C000D7486DD05E9B252726804078A08A672C12FEA5798418CC02C2C8D475833B4CA99906A9B9D91E0C2AA362FBB5962A2AD75A64EDABB6F12C1FDD0B7639732C0A2190AF04B35409125A3851B4B53EE7591A559986D7F8BAB94BAACCCAC6C06C82FDD166F31404DA49AD4213C4C7F64941C1A12460ABCDB72EB4F6005792CBE2B11707AC56BA54737F082E940004A2A0A57A650E56A45498674DF03165500558BFB2A63A9526B0088736C710B2938D7B7A2347277358D8B842AC9127A8BAE5CB02A25206F2522BFC0887BEC9B13FA170A5F436ABC0B3027796FD4AABD3F6054368903DE3119B72655BBB30BC4958EF471CE57580CB96B9D875A3CFF34B1C8492C412A272DB89590CC717006931589E5D546145413A78B7607F38066AB83F8701B874689B5894989460C2FBB108739333AD3928110419C922ADE0A21EE5106D7171087D5994951303A4760A99F6CCD75892840CA8947651637CB39266ABD80584FD1A197B22B6FEA5C50AC1640026BD0E2810A2591440901ECE073F29B7C0B2C40F42D71D26997C6DB26E77EA3393FAA75249030BD0638EC89892FB456E95C1AAD8887F00CA3DD704EEF8C26560B4CAA39874E4271C185EF06CCDF1944FC838A163FB8545F32B107517BCA29026878902830524BB51C77CA5B2274AEC9106621701664A4EAC03268FE109427B2D57F976FBB75A4B39A8D8F663264328DDEC9DAD23AB87809EF87A16C1B25ADDF3C308714F57C9489F25A4A7A414C279B7AAE576BE7C95B2761E242B45B174065D529B480B019CB19C80185A94D6046BE2AA95A7C03BF4933FE65765A8CF60577C49C5132865B0F5B265E86543D24A20508157196C5D0BB91B5B247BC200A2CB32215571395E216739B69F69D26905015BBF732AAFD63675B12C65156E2972584323C917FC24681B6168ECA204B8210BB3029E05CFB2E08D479B413D987152A0203F0CCAFC45625647B57E3796AC904643C73E9CD26653600209A62BC6498DE68223C990672470C2A2B77289F41F5E07AC7320500A7C30A9E99544F7837DAB6E7B7B7652751457D96E23080432A495F6C7CD2824B791F8C4FAB45F0F94A97ED67B576A242131ACA3CC9C08833304DBA85C07C212951AF1303E91206F4A54C45E9CCAA1E96FB07BC27707311AA2A1438A9CE7355DC5861592A4CDFAA13E66245EBE67610DE4875B57181E118930E671B34104A38859D203AC064B417A30AA8D23AF7C5C732F4C57E8359F0B698DE6320E0940A4754904BAE082AE6C4D22DB5E6DD5AD03665906CA500F6C8D35563AD9109146C89986C3A0B19C8DFD04C52FFAA81153C2E8B6C9F34C366ED52E2438B6132400F3BC06F00C71B6669F02735229B9B1A5B580CF271003B498A6C6826D553CC736A19A6CAFE69058AE8717B91842D92BBDEDA0670118116B719264465E61D86B975A843A5C62A056B9AF8A7CD402A747A6B758DA977B12214608CEA52540DD390135E28E6160468C97B713826DBAF27AEC20B34E07AAD340351A64223068318113C5148861AAEC535D15368A6B096B559F57B2842713C44D46BF001477CA0C92BB47C5C502B4E5F22E7AA087C26BBB36D9ACB0712AF2FC7C09E55F1FB71238E33D05D41D186790AD725AFEF46173134620656449917D3E52320C8542E5D725ECE72390F637AF286A8457165F5622608C0813DA9C78E83334005732246091AA5877E7AE460C18BA856D030A856A749D2740689EF036FA936FF3E25DEDC97A72F539B3A32F286A02B79472F28089A6B4B9B42134B6AB252F377E819C233A16BE6361A59B4A9D52AA18C18263FEC2602EA9B8E9164BCA2946A31A892093AF891A3369A01E169594D0E50FD5B3B144405BA1139A8D167564943530A26522F3216517144937CB5A14B98300A03D6BB2B8C13EB23355590CB5989A4E26F242ED7B977A36C65E768F21E9417F3180C304009394CEF9BB74FE1306337B7100938260C68DFA7910DF6C7ECCE93FE398AF45E12EBEEF4308B229C948D425016D674119C0AADEFEB21338BA6CEDBF7DF723152C13A9A4DFBADE0F98E8A5136358F69C93F0722ADDC008952CF72E1BF350B1B2DCA81E3F5F748D23C9D356A2209F6B2D60247B2E45C9808DE497F64F124643";
-        textByLine[x++] = "ct = 38F2F9E427623DC297863BA3B66A3552BEB82C0D64EA8612F542EFFCA7D48A272640150AAEE34D44A8305DC5F2B529FC207E0697E90CC77C125728186020B3CD2CEBD789EE81C54515C8BDB34A3E2C211E2F94F852D412BDF8905283023FCE8C9440C760928070BC5CB2AE570C7C6F6969A4DAD3C7FC6C3A36889968816A90EFFC3E00A4C913773E593553B610E68482122F81539CB17FD7FEB63ABA1F68315033DB4CBD5D5BC410A67D28CCCA806E7786260364DCCABC914E37A34B4A48980ACA672471C69991A0760E33D9DF14696D623AC193882E679CD922CB6648FE2AAB25D528AD54DD4330F85E33E2135F3F9F8D18F374C13B9B092E3DF9A8FEA1C8FF186D717E37879BFC0472904CA2FBCA05522C13E174C356C6FF779EDC4B3571288CE9C7BE8C902A9C6D96A99ABD60C9316EAD5D9E5226B0F657075A4F2CD9E405D41DD02394181CEF2ACE384AD844195D0DF55D28351DD40418A10A3132EE5C2682A8102D1310C1E38138F41BD32837A01241A96FD6E676076CB97B91BDFC5C297F6A580F944D8A194B7726BC99DCBDCE259352EC6856FE85624C24DAC8BAF6D48D436A819F77BB2F7F4978BA8121949A47AC8D69702D9248271FBCEF2EC52EE2E3DD638B2EA4F33FB1DEA5F5E637968F2C330FBF3D23AC029870554C20D2114F06090FAB57562F8D4D477AE126F347FAC0F512F9703F6C43874C4B806D38A3709339E3D02C2F841D51BA9F7551976CED35D1F11BD82DCC2EBF84363AC82F5DE0A3D170E430064E414FD972A3FB4BD8BB96ABFF2F7EE5B09B868C509C8580D65DF91C75719EE5D579B93D12F53C36B2DDD4CAFEC2BF67AAE8ECB2B4C0240DC58CA47E1F580EC04E71FAB1FF39C4A5958E4137F9D37EF14B5C1A45639D98928FD6920F47D136E424E22C13AF69E6EFB4D73F3E0200E38CB9FE907AF0C9FE953C321777FF8DD85CF3020B549CB5F2A7BAC07A7A4EE3658F0C8FD1DEAD727AF54024C7EFD93D21769A26B8D5374B5AA1063FE2C3E7F8BF353E284337AEA2A919087B400471D80FCA58D2B462A9251E3BECFCCC8C704C052C9C3F62E1B8AFCB069084";
-        textByLine[x++] = "ss = 8B62B88D64AF1FA3441C71C8D94AF6FA8247E05429ACEE7C4E9B085829D913A9";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 67";
-        textByLine[x++] = "seed = 074AB1A37BA5A0403D8F68D26FB787BC2C90F5EF88F2A6D286C3E6B168ABD85D393D8225618608B8EEB301D26AF53BC0";
-        textByLine[x++] = "pk = 3A090559A1773744077304007CE9AF65672C5F221CA99685B84ABB134800F5616B734C184107C8C5892C437B8AA3D0882929B8DBE394C1680E33DC2C706C8DB227C292FB0A89A8A29261BDE4FC1DC12663E8AC502E473E58D6206A90602ED87675287AE301D0AE94CA923AC8672A031B5840DE90121B72C58310CD924C12787428ADB9B09EA0B8A2226B84E9B5CBC2930122B5027C70A694238F78C8381078393178C936B8DE4C204B4A31F9F72BDDE751CDD0B31B2C840752181D838AD37C637CFC7584F37686FB3A31020A81DB35C5F7AF49071470B9C468DCCD7C258780CBAECE579819D8C766E873B6468718F60DA09539FB7A34DE11A70C45AD71918925467D8807CF8788318FD010A6A57AC83473D332BB9F2411CFFBC7EAC87CB7C9B1FD456DCF74896422513AE691CAC20D03172728B11D5ECB9B9C8B520BC628EB5724E1B415FB8B99B519C1700537C2A22A2FE52E45A748AD5B7F4366B33B5A2CD8192F9EA406E181B4BA47459AA08033498B6C1CAB1FA0327DF5AFC5A87F0806C6B26159886B40B3C8B068A7208DD12A7C150A679CBADF3B27457883231A8C351C04640099EFB363BC962262D9570FF8B425D206227175DE94C5CC010D9A3277E2C0055D84475501877D608156868708D5C725357B9DF9B47E4C9D7819C310900DF9926C0EF230999AA2B420860A6B7FDD020FE0345E8D539C5C839C3C11A270F360E2F93FB61507FD86442379029737823BDC445F05A9AD3C7E29804068FA96035A95459509B53C426E9188A0F016E8857182119AE936656D60072549557891C4FE0278791B58E1D0BCC4B322AB249865650BE6946F319C7F0BF58C72B819B79C1B78982B2E24A8B15A1C166CBD3FEB06EDA478FAB90CE7B16935BC4880F78F7D2A80B5B41095A53F19F46CCDB84BFBBA460D1C33EB923EB56024DD437CC256A610920A650BBCD3F54B8ED8B1B0814E6F4ACF94617E2B68735210BD263597195A6B59864C21E371C1D947F6357A4E064FAE992DAE617500794AF82A5911C15DAC3416FFB21BA5815B79A79C30BA72B66BB5D8D2800E581579219B2F0688D87A1346F0F10FEB3F0FA52EAAD4F2D4C36E59CA0A5389566FAD53898992A17BBE0A0F";
-        textByLine[x++] = "sk = F3D4A8BBA18DCB278D29B99DFFECB79AC90496826FA0351F37495EF081B1E0A64B680B95F136CAEB851AA2D58905F06D67220EB4834260140BE1CA248ADC2D78A05E4D41815405BE653B1585A78E64CB52E4A656EEE07F2D4A39CA50894FC02916F0A86C6939B3514E446CBFA0E05CEFD2CD26965260CB967A09485E2CC8DD6C0D7C452F281005E10A62B047217864055C78BF2DE7208B92B0E0A01E15315BAFAC07ED3C1A748A1C8BC6C81AE21AFB04BA76017A1BC920FE546C949235CA61B37A3612506350C7EB5202F267AFE01350F979EA679F21420C7EAA4818E5180B258EDB390A21588F0362647632A00D150FDC540BFA785EA2680E5E90A8D58962CFCA3DA824138CA3C8E7D448D5080895F85625372028A5176932991779030AE8C04E328E01F1574D1C4AD70ACD2B197F9DA55D01A7C8920914896584C9FA8A6C9183B05319E2395464893C491A34453451295681B9E15908D16986A80016C0BF2153BC4B18CF59300D45A00ADE932AB816C5CF10CD72A4B1A3F831ACE60F0116594B0CB96B8B1615099E92887FFA7744A3E769E6BB6072B70385FC0BD30000273291B101CB1BD77EA7ABB5BD7A53F70A806419022D873360F96A636B1D0D59257280C94620335603A3B8A73D85A1A0ED709680E04C5AA233FDD67C8AC5B20ED115FD2C892A6579C308BC9A693D3376338C64B855169246A98428E49AF4A24B8D53CB4EE5BE29112001E103E7589937618556221910401D0471C12B6743A6B2B3C701A72A6A859D933EB7833A423B5622C02D078B6AC1A2582C30CF208895E76B4B226CC547CB1DD6E376B34199534AA103B417CAD5A67862531265C28506051EF180B9E67B3EA1A40F598E78908A9E047961B5908501417F12667B0A7A873A856C1BA921B5CD4D61265936542BA1BA0DD619754119FB9C91C5951B9FDC1945F32F02C2B0C7C8C20AD3805B13CB861AC28634828C31595AB163C343AABF1351738514189232369B0C92582555111A35D074EBFA6AA81333890A39B370BFF7BB7DC6384000274575083C32BC004C2A88C5A82A38FB682CA00593F72487F3403702C33A090559A1773744077304007CE9AF65672C5F221CA99685B84ABB134800F5616B734C184107C8C5892C437B8AA3D0882929B8DBE394C1680E33DC2C706C8DB227C292FB0A89A8A29261BDE4FC1DC12663E8AC502E473E58D6206A90602ED87675287AE301D0AE94CA923AC8672A031B5840DE90121B72C58310CD924C12787428ADB9B09EA0B8A2226B84E9B5CBC2930122B5027C70A694238F78C8381078393178C936B8DE4C204B4A31F9F72BDDE751CDD0B31B2C840752181D838AD37C637CFC7584F37686FB3A31020A81DB35C5F7AF49071470B9C468DCCD7C258780CBAECE579819D8C766E873B6468718F60DA09539FB7A34DE11A70C45AD71918925467D8807CF8788318FD010A6A57AC83473D332BB9F2411CFFBC7EAC87CB7C9B1FD456DCF74896422513AE691CAC20D03172728B11D5ECB9B9C8B520BC628EB5724E1B415FB8B99B519C1700537C2A22A2FE52E45A748AD5B7F4366B33B5A2CD8192F9EA406E181B4BA47459AA08033498B6C1CAB1FA0327DF5AFC5A87F0806C6B26159886B40B3C8B068A7208DD12A7C150A679CBADF3B27457883231A8C351C04640099EFB363BC962262D9570FF8B425D206227175DE94C5CC010D9A3277E2C0055D84475501877D608156868708D5C725357B9DF9B47E4C9D7819C310900DF9926C0EF230999AA2B420860A6B7FDD020FE0345E8D539C5C839C3C11A270F360E2F93FB61507FD86442379029737823BDC445F05A9AD3C7E29804068FA96035A95459509B53C426E9188A0F016E8857182119AE936656D60072549557891C4FE0278791B58E1D0BCC4B322AB249865650BE6946F319C7F0BF58C72B819B79C1B78982B2E24A8B15A1C166CBD3FEB06EDA478FAB90CE7B16935BC4880F78F7D2A80B5B41095A53F19F46CCDB84BFBBA460D1C33EB923EB56024DD437CC256A610920A650BBCD3F54B8ED8B1B0814E6F4ACF94617E2B68735210BD263597195A6B59864C21E371C1D947F6357A4E064FAE992DAE617500794AF82A5911C15DAC3416FFB21BA5815B79A79C30BA72B66BB5D8D2800E581579219B2F0688D87A1346F0F10FEB3F0FA52EAAD4F2D4C36E59CA0A5389566FAD53898992A17BBE0A0F97E5B18CFF525EF46FD8A6AA6E5E4B8D953FE1E67B5771D1B99FF18E754553BEABA5068AF837BE962F439F233593D193CE5E08F7D66EFB3389885927B89D2523";
-        textByLine[x++] = "ct = 7E9F45F665E2350B8EC108F03A85AC97FB7DCFB377112903E0C81CDD0C371A9166078ED919FF36910802D33AEDFC643092FF7F37D101A7ACEDF6C6C5E9CF09E1B214DFB1F3B8F0E3E99895F13204FB4342E19EF8D06F4BCB6FE5A57249881F48252337D643CF8ADC2E666F0CFA75DE892DF715E76E9A2CA85D0061C83A36D795EBC589CCADE500FF1D59A0013C0E3C38063BB352E0E8FC06FD9F13DEDDF5EBCCBCB911572E3BED5887C65B7B6153F147D2F8D9E97BA882B83C4AFCEA3380C431F93DE82C83CD9CBED4CD511B7DD54931A0BA3A5CDC01DE78A2718C77A1D3503337112759AB0D2E602168E9DC1C8458E832FC90F592C94FC9D2F08D82DE315EC6C564DEC45F1380FD61BAEE471B98F223C60003027733776692F61473EC5C12D1D0335EBB478F4A2D6F14748D92CF69D67C970E87640C9E2DFA55FEB4124B2C857DBEC830FF13767C0424BA261C9467829F79CB58522A1ECC3FE20E7D8D9CE5206523570E3EDC8EF54A417CF3B5B63F662F8F4D7A1CC30CF79EF438B679A9B50765B4F02FD3D0C27CD98F012ADFAC04553D0A13AA91C7934132173C6B6743CAF39563D7005871E2B04F947231DB470E35DF2DF7B98E5B1C9514EBF5EFF4B6EAD1E47AF7BFBFA88DD75ECC67D2386BE109A62A52E457464E2C4B7FB279777699CB44298215F758E16389D41D25B92E6C075E9C3887182E4BD959CF18DF8D94861DBBED4348CF2BAA1C3E5ACA8D3FA5ADCC8E8ECD883B1DF6BD1CF9517FF0417BF73FA690F22D9D94CFDF8ECE9CE1BBBA9D4306D75862B3A8A2113B235EAC6022D711330FD2F4D413C4DCDCAA6E255361506D75FA61AD292051F490C0A02233C51757414935C92579801ED4EF5860C20283400A613BB58B81586096A4AE4E8C39074A9D6721CF20B9663335C037371C407EFDDDE61984006E6C2A07A5348659C7076966F31E4059A5F722FDA002AB89B320F3B19ABC701D96176FB0153BC45755639698906861FC5574CFFD1DD689F95B9325726AD7C5D6E8B201B1EFA86F19B6E3A6CAC08D93EF226E0B697876A9849866990E0263A90E19E4677748CCB01D498D";
-        textByLine[x++] = "ss = 61CF302AE28614B03F8B1EF1EE98447E9A7D7FB7D48A9634E6556C4FDDEBB3DD";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 68";
-        textByLine[x++] = "seed = CC0C86CC0ABF86FA21899BE1953913C00E7C46E6B5F730C4E88B3C034012763981D7F14459D3081638080378348856EA";
-        textByLine[x++] = "pk = 1CC61043D28BBA4A2B4ED1C19F1369C6D7578ADA06533B0DD8AB5AFBB3BDC5B601FF108031D017B3D89AA253C90C7A4A7E368D528773B62C6AA38046DE9B6651CB1F5C353A1F2C99A3E7BBF1679357219417C10B5C1C60348C5C22424807903EA4E9C685AA5B53DA5FF92034C7C15A51777D7A637529A274E767539BD68F2B0281A8E13C08210F17EA7168B210830B0D07BB61E22B2F87323C8DEBC3C97A399DE71590A23806F1903CE109AB804C5657290407463AE5BBE24C7FA62230C83288EAB45EDBC28248D89890491B32EC4D214263557B053F0642F327C78D3565DF61796376A6E04A1D068198125CA6826A4C34E65E30A7946DEABDDD3062178253847C37F92A9CD1A749F1D12FAB1CBC0017B468426D8BCC26422CC85E97199420A9367000E7F52E17B4BD5DBB6400BC42182CCED4C564AC160D2932AD801650CDF29CA854A0B2D8918A3A2320C5915C1B37E6B3B0F08280FDE7C6F2543D2C27728DFC8EEF776BA012860ED55906A3A28CA88D5550B540538272C01EA0F83B78465AB8F062DF740DA6D31ED95A53B5AB8301B79D8EC6A5FC503BB0A6B57EC99085DA37B3262843017F9E572B15C7B8AEC40EF66755A1AC91856A8D0C8A0B1572A676B8AC671908C210C82C5900ABF4696E2C73EBF3CCC4B76DF3F74B930977FD616D31F48248C578A8D63B14BB48FE5C259F9734760944AE78164CEB699B1623EE648330019D79B49B650A33B841622B0061A4B79331A03DA78B1B70A3901F42159BB4BF7E1512FE8483EFF80E3E241BD94AA8740862A3800313B0C160A1302122951B620255D6C8BEB52C7AA2CA1FE1858BB60B6E6077A8CB8816F64CE348C4F38791A5185121B67225F7A166D38003DBB27213BC6D0058BF5477D358B630B42DAF131ECAE24E7F33960841415585101DE67D96E2349962685FAB259C312D175326268C807E036836F75D43E61CC65274E42B37D874B2C989044DEC8AEF59A2663047D8F6A0EEF1649D7150B20230CC279BAAAC5E2A30C84BB1BB6475BD2D4A201863AD207674F4DC25A3C07CF9FB25B1D83B9CD3942B50C423D0B31A46C562A8378D8CAEE564224FAA36C70ECD281B67EB98908468420B38F3C24DA9290EA98B24";
-        textByLine[x++] = "sk = D21B758292AA9A363FD0CC835CD370B7C23ACC51348EFA05E2EC1E6CC6AA13E81F40DA39DEA5BD71836AAF33196909CC13005C5AD26B75B6B0F4F233268B710277ACFE0A3325E384D58ABB7CCC0677258DC269A1F312B33F889826061ABC5A7CAB01CF7D6733A86089DAB2C01C8214E21B0237EB4F0B446E083BAE64EC26EECA1BBF8B77042226CE478FB44C5ACA031935FC9478C401A92ABD659C8D3CC142AE72943C669F265AB9D9D6283D8BADFDA1AD3D533895630DC31559578CB89AA6153563BE7366909F949BE80B5F4EB12AA49C6400A298A60C00A2FA36B886437223BB55B81598912213E188A210C9B6B49B329310A990C44F96AD8ED42FBDB31200521C5756C1D500A4F9B7C3310827E5C9952B9972E7328C38C668D1D1BB0F199D8B917ACF7047278245A6D06D2D8BB800643210F7A1373667C9450447F86E0F067F57C16469409CBBE77ABDB65F652B2C33456B1E87428D0ABDAE211436B46A035B630169AE1F044ADF26564841240A3A956FA7BA0B931BAED47C93364B6CA8273A195E75FCA7BD52451E5C92C78B16C9F19BBE431AB8F26AC3DC797D96793E289882585EDB1A7A39C51A60242E330401F0D3B1D0DC29000287D2569139E05D0816421BF03E509278E79BA645C66602592429799D962A6E02A61682B410B38963D0F8363CE43F08759CC987B5986AB366A87E05C430C78281C72864948282D3CA682E42BF42C57C91FB09C2B596B33083289B5A0B39C997D6B585653FBD9122F6123308177BF6D6CA614255989CA6451783E607B06BBB0533AC5634722A267733D67747C8447366587F6BE662DAA3BF86D078F946070971A1E823C4F0A919F329CF584317B3D9A468C13B5D398C33592272175FBE27BD7A30CE0F0284E5F380AE4947D5170C67B3AC0ED955C81A9EBD5845AA38659F186756CB94D41698B3E1387BCCC8EB03186E34BCDD0532E775749EA928C8EB886EE0BCBF204E62B050B199807D216428D48EBAA108E3EA9783A340C6803BA1B206E5FA107982534C33CF9B757AF7459EE86A1FED072530D31C411741718B8BB977B60242BA45437F8209871CC61043D28BBA4A2B4ED1C19F1369C6D7578ADA06533B0DD8AB5AFBB3BDC5B601FF108031D017B3D89AA253C90C7A4A7E368D528773B62C6AA38046DE9B6651CB1F5C353A1F2C99A3E7BBF1679357219417C10B5C1C60348C5C22424807903EA4E9C685AA5B53DA5FF92034C7C15A51777D7A637529A274E767539BD68F2B0281A8E13C08210F17EA7168B210830B0D07BB61E22B2F87323C8DEBC3C97A399DE71590A23806F1903CE109AB804C5657290407463AE5BBE24C7FA62230C83288EAB45EDBC28248D89890491B32EC4D214263557B053F0642F327C78D3565DF61796376A6E04A1D068198125CA6826A4C34E65E30A7946DEABDDD3062178253847C37F92A9CD1A749F1D12FAB1CBC0017B468426D8BCC26422CC85E97199420A9367000E7F52E17B4BD5DBB6400BC42182CCED4C564AC160D2932AD801650CDF29CA854A0B2D8918A3A2320C5915C1B37E6B3B0F08280FDE7C6F2543D2C27728DFC8EEF776BA012860ED55906A3A28CA88D5550B540538272C01EA0F83B78465AB8F062DF740DA6D31ED95A53B5AB8301B79D8EC6A5FC503BB0A6B57EC99085DA37B3262843017F9E572B15C7B8AEC40EF66755A1AC91856A8D0C8A0B1572A676B8AC671908C210C82C5900ABF4696E2C73EBF3CCC4B76DF3F74B930977FD616D31F48248C578A8D63B14BB48FE5C259F9734760944AE78164CEB699B1623EE648330019D79B49B650A33B841622B0061A4B79331A03DA78B1B70A3901F42159BB4BF7E1512FE8483EFF80E3E241BD94AA8740862A3800313B0C160A1302122951B620255D6C8BEB52C7AA2CA1FE1858BB60B6E6077A8CB8816F64CE348C4F38791A5185121B67225F7A166D38003DBB27213BC6D0058BF5477D358B630B42DAF131ECAE24E7F33960841415585101DE67D96E2349962685FAB259C312D175326268C807E036836F75D43E61CC65274E42B37D874B2C989044DEC8AEF59A2663047D8F6A0EEF1649D7150B20230CC279BAAAC5E2A30C84BB1BB6475BD2D4A201863AD207674F4DC25A3C07CF9FB25B1D83B9CD3942B50C423D0B31A46C562A8378D8CAEE564224FAA36C70ECD281B67EB98908468420B38F3C24DA9290EA98B247B5C67FA6E0FF374F691540FFF0B4D14D4ED8A8A8C48B14B2A35FACB413A5EE60F4DFF8E56F68440836A072412A30D851ACE2C7C6F02D60E7A8420001A63E6C6";
-        textByLine[x++] = "ct = 4328F6B71DBB7142A9F469B9853E60BF053F643DD12320AB8E46BFEC7566B4EC2489485A4D46B9D3086052298B41034F239FC6F561932834675CC4E1C7A6A4F6AC34D56079B8B24996B0C98ED7156A1CB55E1D8DF59A1617FCAD5E7469D9B5F78D32666928579425314EEA9CBF059AD8FDC06326A3FA8A9BFAE06C51F68983A90A222A7766C0152BFABAE0AC763A6C652C61F511BDFA4E6DB4D8AF3E46C0614BCEB32929F80C8A62B89938AA0F099B4B726198F14C452FE084943ED005730B834CC4374C26F47077CE17A70496681E4D0F70CAA0A9DD0DA0472731AA3C40685A5800DA0DC88CA4B93915994AB987D70679F732B2092D4941A252DEDA05D792411AB515F410F2B9992C72708F63F3E67FA5377ABE2B22952BFA9F3E9C442F61F9A47AF9C46D006EDA2650EDD630B7B0265BD355DAA39182391B74ECFB58A56D8E6E48AD6B8C8A936A6D2F7FF5FEAF828084AA3BB3E47B897DCAA49E1BEA6A60724113714B651FE64F7D49262EA1D90373ADA9B16AF930B92F55BA1F4250784E87AAC80F67625F51314484335316AC5A3BB77508600DB1735F2B17717C0E1AD9A6140E0F81A27EA242EA7C42CBC9EA2EDEA9066064407DEA0BAE9C465AFF05842160CC1F510C027AE356E9A07247D7F922DB11BDD34D5C474450928BF751890AF03B0781B7B869DCF079D9004F0EA387D5EFD977049F9E632FAFD8B2B0F6F89F91E95BCFC280D4EB41AA3C8A29527FFD7E4385971D5FEEDA0D234CF88B3E2BD01BC4B959E238F4470198723561DEBE6F6FD3CFC684094D43A507253C522BF8E1DFDE027C5B47B5C9683510C68A50C10ED00454CF9B6EC95F22482DE3A2C19FEFF53E7FF9472464A24B82617FAE8B60A42B6DC18AA47EA7F564B894FC22DFEE775139DF0FE0CC9F5676F1DD380ACAC3D3922088DCC60348C04AFC89A46F94A79FDFF225ED0D224521229A702D551875C84413945992DAAE6659753080F2127F1D0AAF8E3825A11354A2BF5C6310BA46AC50F6484C8629D992E963000A8E591F89DEE5D85E01412F18E1B1A59D8543A195D1CC9817152C9F2DAC4209003C0B3C6EA4";
-        textByLine[x++] = "ss = 813311404F3E913AB4F7FFF6A7CA639E0FD2FFEA9A5113C3FB00F1C910C34EF6";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 69";
-        textByLine[x++] = "seed = 6D5A7CC326ECF3983C4E7683F45263A37F692F3BCD2D920E1FD9584350119E74F9A3F905F70D3E20318C1413DE2A0DEA";
-        textByLine[x++] = "pk = 8ED95FA3D30D9FBC979DD7CD223A3694B874C8272103685E3BBBB8888117D53ABC7667B4EB158A34953147354F6A5714AAB10AAC07299C3038FEDC9B0D3553734401BE62862CA82277F57F1E6225C5206A86E175EE638BCDA6665E3B58B01BB74EA7701D97B3A909CA7BB9B4C4D89460CC4AAE5B1B521C6AF59C721EA23EE2AB0EA2E451A8831A82D098E924604D6B02E151BC43E761C2324368A643EA23BCE9FCC7E2502285119343603A4CD5BD444798FDAB21D5369F4C73477E3891AAB51E1B11CC55B3AB67CBBFD5F141715A9AE4681CB0F0391ABCBB48AC63C8A707677650AAB59C09B43DFAE8653D887A6C2C0664096E551929FC0A00167429ECE069F0AA266C542D28DB4A42250FBFF86AECA6A709C9A25F384EFFC74C0C7B32B4A616EF2A140A8C96C8B56E61F32963505775658B6C81CB40C2B99E43BD8FB8A8459A73D8D083AC178225461E83A4CE9D6C6133DA8D1F5B4139457762BA5BEABCBB453B9C91A7250499891698553BCB9D0848ABD391AFD195CF39A6213A078161D7AD1AA5B28B1C442F6AB732FC14DFC085F2A6475D4BC8F897A7C1D3B3E0C1203AECC5D5A8287E34C6E3F2A920EC8065644A373453CFD796A58C03B7E241BFF2986B3C6C6CE4064DB18137862D716C54C154A7E294B218BB1DF2D76F8F36847288C76AE21E1967719AC92AEA8B8E50706ED8CB06492A58CEB932F2284C023C6E3BCCB303D6BC56E842B144CF68FA4626F29FE843623A55C02B1A0250D7C272855E0118B3A553BCFD46B7563BC5B2F5AD196098B1A1383AE99F2BA6384A1C39C69350FE22437C1C00A651AA0932A771E09E4EFC1ABB893639F1340CA76A8CBC4C605257E14969D83CAC02D131DD4273AC467B6DB186E9086548224A4A1526F769A90C93101E26A2C1112744844B0584343FC9B35320B841961FA55016C9CB271570BDFC501D68F9557A920DB4920D15E2BEA64A6AAD743EEAC97560BB024C70C099608E55D351FD1784673635AA1B26B9248528D069D031658EB2C559876A7FE6ADCA630E2F2589DE2ABA5FC24528A982E2E5CE88A73B80121789522F63602FF0340F4074721445E155A3A1624CB4ACA373DE6947F148CA7E2B3C93605E706EDDD992";
-        textByLine[x++] = "sk = 7D926FB223C21D99084C7A171B6575CC04A2D43349519033FE9A24FA8213C5308774E9B41BA51E4347943D2BB1F32517AB6C5444D97E0840821D2CCEC62BB44BDABC9FC22C8AEBB96C49CA966AB9949B44EAA196682148ADACC20737B85C120BD662546EC98D3221589F3A98DFF6A531789A56A4337E2B5F6237CACA4B3BBCD756749524BA16A0E4AA9D5BC5090117C342B03335BC01E9DC1EE8E560B90B43CCA0BCEC177B86810DAB7B179A67A56AEA2E99B69783A629E08CC4ED4950552B53CB29A82AC68A1BD896262740954256315898C5C58CBBA58C7C7173F83BCACBC73067E44A5E72C054D05EF40A9B5304CB4C210798556BAD251C11F2A726D3A1ECCB8863405E2EC3274285BAE1E196A4A26BB7D80888A53CE87641E583600BF148124806417C08E9C76C620536F37940322299EDF0CAA3B46EC3E05304BC354239625DA3293905CD59D666EDBB3FFC40428B0347979244AD55237D4C7334E477141CABE315CBBEBCC2CB2BA10A48834D83163D937A234C4215CCAAAF1CA13180A1A8F1AA17362635DA8967B47C81A172FF3171871453877B89E3AB70B2B43EBA3683DA73B0549290CA551B74D52343950F97345685B602C9D7566AA394F6707C335954051C0753C1B482514AF5BCC61B65CB36896F38B46C5DDA7FC2D536035C70F905077D299E7686B75EA5B5BEBA5739AC4FD0D84D6F7A08DCA071B3F43611F48047C7612D638A6AF602FF069DEDD2379F519B819C369A0AB216543146E83CF654C22241810B437DDCB67629D20EB61086A17C42706460962C15FC0AAEC5C5651DD7B9F53B3F7E85C70FD09F14BBB6A6B3213CA6C6D2BC46B13024B6593BFED9BA6C9740B655AC70C33F17B639FA1897D40CAD4E98316E457B5027343B4B8D3E20AC082B0001532558BAAFB43BA273C03CCC36BD17D039D12C316668C33F15CF5E3269DA7519D950C19ED35AC1894255019233057BB0417DDF8A7547A93D06F6127E717E0ABAB754783560C81A782A1805FB55B27C10A2C014230BBFBB808F6F973BE9195D2FB5459A19265D0A93D423C8340A4AC1A4CB65B2CAAAC903647BC98ED95FA3D30D9FBC979DD7CD223A3694B874C8272103685E3BBBB8888117D53ABC7667B4EB158A34953147354F6A5714AAB10AAC07299C3038FEDC9B0D3553734401BE62862CA82277F57F1E6225C5206A86E175EE638BCDA6665E3B58B01BB74EA7701D97B3A909CA7BB9B4C4D89460CC4AAE5B1B521C6AF59C721EA23EE2AB0EA2E451A8831A82D098E924604D6B02E151BC43E761C2324368A643EA23BCE9FCC7E2502285119343603A4CD5BD444798FDAB21D5369F4C73477E3891AAB51E1B11CC55B3AB67CBBFD5F141715A9AE4681CB0F0391ABCBB48AC63C8A707677650AAB59C09B43DFAE8653D887A6C2C0664096E551929FC0A00167429ECE069F0AA266C542D28DB4A42250FBFF86AECA6A709C9A25F384EFFC74C0C7B32B4A616EF2A140A8C96C8B56E61F32963505775658B6C81CB40C2B99E43BD8FB8A8459A73D8D083AC178225461E83A4CE9D6C6133DA8D1F5B4139457762BA5BEABCBB453B9C91A7250499891698553BCB9D0848ABD391AFD195CF39A6213A078161D7AD1AA5B28B1C442F6AB732FC14DFC085F2A6475D4BC8F897A7C1D3B3E0C1203AECC5D5A8287E34C6E3F2A920EC8065644A373453CFD796A58C03B7E241BFF2986B3C6C6CE4064DB18137862D716C54C154A7E294B218BB1DF2D76F8F36847288C76AE21E1967719AC92AEA8B8E50706ED8CB06492A58CEB932F2284C023C6E3BCCB303D6BC56E842B144CF68FA4626F29FE843623A55C02B1A0250D7C272855E0118B3A553BCFD46B7563BC5B2F5AD196098B1A1383AE99F2BA6384A1C39C69350FE22437C1C00A651AA0932A771E09E4EFC1ABB893639F1340CA76A8CBC4C605257E14969D83CAC02D131DD4273AC467B6DB186E9086548224A4A1526F769A90C93101E26A2C1112744844B0584343FC9B35320B841961FA55016C9CB271570BDFC501D68F9557A920DB4920D15E2BEA64A6AAD743EEAC97560BB024C70C099608E55D351FD1784673635AA1B26B9248528D069D031658EB2C559876A7FE6ADCA630E2F2589DE2ABA5FC24528A982E2E5CE88A73B80121789522F63602FF0340F4074721445E155A3A1624CB4ACA373DE6947F148CA7E2B3C93605E706EDDD9928E49B73BAE3B0285BBE1676EB6FAD2641E7354E4C0A4FEB0B74BB16708B01351B28F7E7A15A005F92400CE33DB073D49B53871594A88FC45E0F94207B5F0F2DC";
-        textByLine[x++] = "ct = 236FD411C1512F4CDE28E2B987DFF829CEB781FF1303FB76443ADAC5D7F6A0CB81FD2526F4EC90F3F75584450D560E301FFCB328B641415B8AA3493DB15AF7139263F30A125A9155B7AC17D5DC96D62EE55C3C2E1EA3BA2C13EF17C0C772799A48682A19DFA682744B1A6EE8D7AD9598D2D1F41DF08942A9A3310C7FD167D5B9B5072DB6F813178D210842471E241963F1972B91D76810F90A3DE4728687209EFC1464AFCCDA6612A3D65786C6019ED90C3650F72F5814AC2D03126BA9683F23CE481BED232C6DDB74EC56F915CEB306F533A8021468FAC2E154168A3C648E6360AE1C95E9B15F4FC34B66B38FCD2103ECB6940D82151E0C06D71CF49044DBFDF63E69FE5CC3004F641581D3E78D5BBF035A2557A2B2445C7DB3EF909A3F00D605D40ABCBE215842BE838F889D69F8340FBAB457F677533664BFC2D2B58FD9846EFBB1B3631EFC13DFBF877515F7019E9ED0D6BBF11A1B50EB3A90D8F27A94441CB02B6BBCAD7EC5B71060290A73669D5E88A54C298C0CBC25332675D0B2D6C52AC18841AF35B213935434DE45D38C0EE09950787E33A566029282EAE3C11A09AB95214658EA636A4FA17ABB3A6B527A8D1401BAC80AD9C0E881A33D27B00E81E0BABE1E39ED0E45E45D90ACA415D40040C7B1C03E08FD342A66296610B7B38C5DFDEB75043C6FCCD60EB1FEEDA38742A4EB4178338CAA696B0697D55918861C00BE448519636748418EC65A2A5975D92DA7BD5DE040A6EF27026B478D6975C5E4A294375E4818277B5544628558AF234A230A123EC899544F0993C366575C4AF3CEAF88CC19EEF15A7C19D4347B7FE228B5D1D2A4CFDBF90F8552375BF9572F5C51CE14F36DC873BF69397019510AD0DB75D9F04E7D01A12102B25FF25022694F94D1AE1C3EB3548F151594420ECEB3B347464E10CCA2635B7BCD9117939C4A60944B6C4BBFCA8DD8B07C2166FACA82837E3881383B873F9259B5CA35ECE5A21EB5B4C2A0D9B8BB7BF78FC5A7B05F515D85476214E42E2B93E18A67488300E261F3FF10839AC6B5DC3B6D69CC0CE062311F17BC078B62D5FDA38F56715BFBF5";
-        textByLine[x++] = "ss = C3157B5EFC9D3C22FF09ADF984741B70B71C2E351CDC9156CC83967DE7E2E39E";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 70";
-        textByLine[x++] = "seed = F68FC0314DEA88F66AFAA76E6C9B6804B13D4876924410D1F526FAC59A62E26C560B125B1D0F8B461F1FC2E351EFFB4F";
-        textByLine[x++] = "pk = FB32553B02B45153901B5951AE055F75A270A6F1B4D37CBB975B979278AFF301470513B66F58817E6A5B2ED17891F24A84950BE275A805D374111A5AEDCB761B6C446F986F37B646187461868797FB28731CB89267F12DAEA09828F143CD6C7C133A38CE82788A6BB88126956F30943169B2E4A18357E43262D6350B07651A6B2B2B227436405ECB5655E5892AB1A0CE6848BB34236A07C3AEB159822C85BA741944CA68654BA38EC2E4412D5C73D2F87EAA46A8FDE25FD8AA691A95CCC7DA9DF35393213322F50A61AD4113C094CDAA568B1F43517692C4918C2590A221FBC0A313D2B4321B9E1A973492BB519C010CED1C590F0A61799832C15012E04550EDC12414F4CB7C32AC3A1BACE2F9250CACA0D027BFE238344E278D6509796155386C1CA904C34727F0772C12B66C2016CD933053106FB4A308AFC2619F8A3EC5843BC2C64AF8D71F86B6836AC3941022A965BCA96DE03A5982A8BD7730141B4232610CACB6684DB89EB1B55456AACE6DF449AD5B7964CB4A888148D472AE45196E8096A87B014FB5954719E82D8EC33C285323C7FB4DC2EB768259696B41C489CCB08D8665FEF6A7A14AB69DC3A72690B5480C1CCB2CB70D3AC37E4B2E00BA7111905FC6D53F0519C44877C9CB1B54ABF3106D90424C6A39DFCB6E6C3B80D96A1DBEF922AA762D5433485822B1F28C8776305018023CB3328B9200728D082260CCB07B3241B7C86F90F91F18A582AABA4003F9B8C3A468818619A57A2EE0D636DB09762E634400305E4495B49F927091773016C72196E29B2E20034C854608F54D1C7506A6B89F8D1201BF659A53F7C16DC671BC65089DE9774CE4B52543A1882C12773BC7CF00B746C5B6ED5026F7E30BCB3CB60A091091C2AC85F816D377167801C47E951B18E239C005BB9612BB03262A6C21306749A60DECA6B47B22FD7C7ED472AA3E8B9DCA5150C4D3209AE02EB72783594B0C713509410A01DE44245258790058BA90CA08CDA4C45FA6867B038C7EB99D0B026320070B1A18ACE2CA6FED80284D094B72881232144F6422A896D67505E40106958C81946A86E19F153712EF52D284175DEC18F24979EF5BA8EDDF7CAA3880AEC7B42A147E75F0DD62B3D0";
-        textByLine[x++] = "sk = B563C9C846CA91B6CBB3E138F43C9D8D647D22146889138A615670CAF738419B5B67E6C837CC9A15545F33C4723E551428877A4E933BDDE9673C5C660B2A64340A927126A56A48660B9396D457B8BB1516DDF8C275753E234590C607BE27C81E14D5411C17488C1AA1BF42C74DC4A06B538EA5E9991819A93E6A6EF8F28CEAE91FDBE27E6407178F563F7FE272D62746C9228F4FF510D46C1C559644FB3C31C767A8A5EC43F6610488F793328AB819A905D1096645AC1D3C8C49703065BCA4A4BF7A16EDB2A7605C53B8D0BBE26A0AE4D50EEB4C71DF764344184D88C8916952151F18B48D68383E2070E5E57E75C602A48B34C5C4664D7C7FFCC3A6172837B36CAF679B40A409761B089EF3AC2F3895969BA9322A074DA98B00D29061D08A77CBAC871B059179172B9A0A12EBD424D8A2619F94639E28A19CC38B020B30AE00110EAB53C5E38516C320E507A3DDB338F3D4BB264157FA452A8A77A79B35A4B25444D7BA020D2AAC98C797BD64495C401F1D658DA12A9ACBA8179D6136421197B3C1A4378920B4EC8052568E2C2C580DC08A9FCA7D7FD02CEBAA91E8D892EA3B23EE3C5C95D037255CA685B62399CCBFE6C88E6C426DF43C4E948968DDB3C9AA8A548D7A55C887C211BC50A0870D2C1B00A9383E233B9B1809CA1911B4ABD78E2FA23310063D80CB6DD4896ADF68829F40C97828C401204D501A6C0F571A48A15D62479E545ABEC163152B28340F5A077A9C5ECA95BB71D256852A6A0B38AE20C3BE667CAB7A17001014ABBDD8C205512F4B546364F6072971A88EBA00A2789B34E7A1578909D7921A421CAD8F590180AC64637224604166E52233DDC520D5B801349912A5CCC0AC3BA0F5B25B6B6242ED71731AFC69597B635F7AC835210947DA60B4C6685245BB17F34DAB876E553C12FC6619E34237790704881C95F792A5A0070D69E747512218BF99866E417B5BEC3C7B664163C7AEC73867CDDBCC3F3821ED6A92E50119591A667BE609A09BA7A7DAA4CC0017A270BF568A3A7C373E1A8883057AABF71753D599CA10A13A94659FAA71C2694118920690AD71147F77B2FB32553B02B45153901B5951AE055F75A270A6F1B4D37CBB975B979278AFF301470513B66F58817E6A5B2ED17891F24A84950BE275A805D374111A5AEDCB761B6C446F986F37B646187461868797FB28731CB89267F12DAEA09828F143CD6C7C133A38CE82788A6BB88126956F30943169B2E4A18357E43262D6350B07651A6B2B2B227436405ECB5655E5892AB1A0CE6848BB34236A07C3AEB159822C85BA741944CA68654BA38EC2E4412D5C73D2F87EAA46A8FDE25FD8AA691A95CCC7DA9DF35393213322F50A61AD4113C094CDAA568B1F43517692C4918C2590A221FBC0A313D2B4321B9E1A973492BB519C010CED1C590F0A61799832C15012E04550EDC12414F4CB7C32AC3A1BACE2F9250CACA0D027BFE238344E278D6509796155386C1CA904C34727F0772C12B66C2016CD933053106FB4A308AFC2619F8A3EC5843BC2C64AF8D71F86B6836AC3941022A965BCA96DE03A5982A8BD7730141B4232610CACB6684DB89EB1B55456AACE6DF449AD5B7964CB4A888148D472AE45196E8096A87B014FB5954719E82D8EC33C285323C7FB4DC2EB768259696B41C489CCB08D8665FEF6A7A14AB69DC3A72690B5480C1CCB2CB70D3AC37E4B2E00BA7111905FC6D53F0519C44877C9CB1B54ABF3106D90424C6A39DFCB6E6C3B80D96A1DBEF922AA762D5433485822B1F28C8776305018023CB3328B9200728D082260CCB07B3241B7C86F90F91F18A582AABA4003F9B8C3A468818619A57A2EE0D636DB09762E634400305E4495B49F927091773016C72196E29B2E20034C854608F54D1C7506A6B89F8D1201BF659A53F7C16DC671BC65089DE9774CE4B52543A1882C12773BC7CF00B746C5B6ED5026F7E30BCB3CB60A091091C2AC85F816D377167801C47E951B18E239C005BB9612BB03262A6C21306749A60DECA6B47B22FD7C7ED472AA3E8B9DCA5150C4D3209AE02EB72783594B0C713509410A01DE44245258790058BA90CA08CDA4C45FA6867B038C7EB99D0B026320070B1A18ACE2CA6FED80284D094B72881232144F6422A896D67505E40106958C81946A86E19F153712EF52D284175DEC18F24979EF5BA8EDDF7CAA3880AEC7B42A147E75F0DD62B3D0F5DE62D662F480D4ED8BA235B4AAA4BFFF19EDEBBBFBD96E5A9B7C4E89365C3ED8128601C28B1DEF8D393A0DB283229F7C7383152A814E7CEFE8EF9D9768C473";
-        textByLine[x++] = "ct = 677C5A59C5584124CB2B162018CEE005E53EFA5D267BF305C778082B0F63476DCDEB426456AA048E3C492C1DF18550A85AF8C0255A55010DDBF1039FFCCEB0C5125670CF88633804191BE85ABCEF00D9DEC52CD9371261A9C28770FDEB512249CE02F8B0BF3CCFED3CB965E588629C0976F53B371598EE5FA469F298C72F398A404E50E0CFFA7CBE4F3032F1FFB34B85D0C0F914237592AD258A35B968102B587AE19C2AE261219DEE388A1926EC6BBD0A39654501F2ECF3F55049BAF423DF8CCDDE47D03BCF1805877AF03DAC930C2E1E6F75A04AB981B9E9A1F6E150286E7B128F25EC30FF0F45B1384CFF48A34AF8D952912A9CD18E2737F1A9CA2E7E624200EAA7011AB12C32372911923AEEC4A946499D8B05C8D19A5376F832493B56DBEAAF4909B14823242029ABCCF115DBA90B3CFA464C6B6877D96D102038CF073AF398660F0AD793374C9A21FDB9B3E9BB809DA78B71E5500A1C45890A4B1477B45071813E31053A5123F3C2BFB60F73F32B32FA1E7F795E44DCA15AB1C12962AC040EE55B8D1259CAEF19A361CB871BB0BDE894D9372E39C7386239B9632D74E89463ED2861A92C7ECED227A47BD7CA425403C0E26AF66B56FFEFE6321C12184547DD8FAAEE9E4DAFE034F30A251C172AFFF739BCDA8047C6D6511972C7C2CFDABFD6653A35A99047A892BC31F6B4C0B309600A28E66AC123A186F3F3D4EDFD3F6E5692B77B7F887414B9F532D9D21BDA9588DFA96F057308BDEBEFD973BB4C8292249AAFEBA3AA522C11B414325EE006EFC89CB5ED794468D75F01CE270981F0D13A2B81B55746BD2B3BD120C056F7DB6F6DF4AEB1EFF9B6F4E19D58B7FDA6D4EAB445D7E3C37820BBB376D05D95DDE965C44ECE14F929C4C3E06A556B3D485199D1B83426B504FCD6AFF4C1901B0BF825E537D99D33E4F2E73075BA913A3FFD70B610803694FF13B84D69E7D5DA7F1B143CD0168F77FA61E10DAD28A72346DD40E518B8D641726A97AF40A33BB5FD90A08EA77F51AFE59C796CA76984380385945D2A614522092D590FC73C701C65F526C215362DC84B3CE22528508BB6DB57";
-        textByLine[x++] = "ss = 4DFE50EEFED4DEC70EDD72EE2FB3E5FFA99BAC13E8B4130A15B75DD793C5BB56";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 71";
-        textByLine[x++] = "seed = A229218B0D51F58D915DF549901548FB0722F352C7470900E7E4D8399205764A319BBDDBD06C00E8C5932722EE5A404D";
-        textByLine[x++] = "pk = D9F06A7E367399206AEC69C5569BA3FE2816A0862539951EC9F32FC1A2B9EA199B877873F6B13546D685DFB63429A9BDFBF62FFF1B651BB89C9EC8B047C788E82983552482E1DA2512163EEB5C5C3EB60C91890B5992AED81B9992AC238C7C2A7EC41FB4481508A525F10C4E10B448EE4A7BA149649C11A20190CC95C60EB727CF84EC66C24C008A0308F28171F9C74CC7023873B1848B3450E28377D8115BD17462EEE419F1C69414611C659449376B88E23061886338126B8AE317123786ADE2D6C839F227EC302132FB59F5D3A5E11010ADC5BCDA4B01A28BC02377A6F3F4A0033249073B18F553AB65B57FC3176E514794DB93A941D620F3F19D1103A6F0A02B7CFA8C213347C6037B85817B27B22F47B8A513D606444736AF884FDE78A879CC77A4D7644AE360004BB8B072B74A1CC99FB32A68770A110432E4C06F08148FF54AA6A5D2AC1B3B8E461B9813C3A16DC0B200CA81D4E336A54341C8D157D1742A0C327B7C0C9390416B59843353443530A5B70B71BF3768873771155617637272B1CD057F1F01B59565228DAA20A060970ADB811C106491FB32FDA5C6FB70415125B1AB6148062100AB78107B37AA064942ACF56919216C6FC58732598F0DD82838D8881999B431586A315375444C6A27D14FF8AA3DA9D1340D137B885C95F69862B63C2618E28A11211E3B64BD1A678F631494ABA55D42D8116B6388E9EA04B51C9773083A207000E83332C727B4512806A2DBCEB6B40C644A5294362770F1108C467F6C64B907B0BC142625AC621352D64B73948D88F281ED3A65A1D4BBF920C962E91496718531756026E71A5986990B5BB1F9EAC8BA3571052C32D414A5AB07832FF3172FEC8FFD1197028A9EE410203BA02E6AA6B9517BA8746317C69304B381BD6D23B3DB6605BFB2762B556BCB502CD10A22C8B78B4D0A173CD56EC835AA874C485F733B5E4C0DB08558F1CBB11F866544F10A8A5B5CD52053D8708C3BACAB400C78A65436FEBC36E5894D05B163CA7892EDA9BA6C0792B2C9C345C399A0C841A70B56DB1C5AFF3703BF5150D1A7004C1C84CE25229CE751F8D00340F228114639B811C5C1D3B614DAF84266BC4C312FA43C4109DAFDE79000AB39";
-        textByLine[x++] = "sk = 30BA4F28910160E87263F66F6034BA1DE4662EBC3600863DE8844620E0A08A46AA83F565C3C33076EAA5A3C689C681BEB935349EB517252C738B925BE8720683317F79CCA1FBE150A32A0573C21A7CA34908A21DD58266B88712519935F88363A1D9C6D253AD38032D09113CB132C709C4BD56EC73B3121674FCB032E8696DD395C9021D47A39A74C2167E084FD4F85DF9002C246C86F1B1B498F05B7D41AFF082BAFB610FE4576C55064459B665FDB03B98B98839E221710466EE8839D846620037CB6516021841063AA1CF8CB59019F52769FB0BD72152F4E74D7C833F66B272BE12839B91C8CCFB0466F835BA068E82B29B1CC79E596546567244C3D5520F6371660193E5000FEAC74B0DBB40C1D46DC82749486C4F40F96F55867FE3F6121B60095AE9BBF6BAB7BE258A4FACA7AF20A2DEC2B736BB690C425FE91B37E4200234CAB1EEC7B8834909ACC2C8972B127B1113E17CA26DC7168B345F1AF411B4917463D8C7EBC1BF55BA555809B1282A38BAB43A2528CCBC0A3DCB2445597744D3A5530A69059DA7A34D9429952C626E255DFC8B6FE3B6B9A508120284A1D75B01E695A90EBA34E3B1A8E5E99BE069180CF073B7695119DC3981C0768AD9C31E095AE83675754971B03184EF7025BA19B1D9812F39133719925426EBC421B204900CCB0C813CD0BC9859B0B7752ABFF9BB1BEA8B24F3DA4DCF80A03933A85D784A3400708DE7820E750518195C9B08A232E09ABCA31E033495AE72C84B66499355167886BE0EC6B5A337CC1E38060E2A0FA0D4AE1CE4AD34EA9E2DD4C66CBB3489507D95520747E472C4AB1A640C672A978F2B1A8E7E732A1B56796300C961B404E796117F1A8A5977A81F04BF4097336EC0148D19164B831E54B9B98D72B18216AF8E58AF19731D9D92079DF04D584AB964A49ED7F31E99022AA86828EA11AB2FA847210AB0428238103ABDEB248A663A954C363D516B48CF9BCAB1F0A2BCF0B186B46290189C9DB9405B873D83F11E5936CE94E42FA56574497C424A91792145352ED167AD076346AAA7CBE074D1F2A6E6E1CB93634F8AA61FED9C4D873B71D9F06A7E367399206AEC69C5569BA3FE2816A0862539951EC9F32FC1A2B9EA199B877873F6B13546D685DFB63429A9BDFBF62FFF1B651BB89C9EC8B047C788E82983552482E1DA2512163EEB5C5C3EB60C91890B5992AED81B9992AC238C7C2A7EC41FB4481508A525F10C4E10B448EE4A7BA149649C11A20190CC95C60EB727CF84EC66C24C008A0308F28171F9C74CC7023873B1848B3450E28377D8115BD17462EEE419F1C69414611C659449376B88E23061886338126B8AE317123786ADE2D6C839F227EC302132FB59F5D3A5E11010ADC5BCDA4B01A28BC02377A6F3F4A0033249073B18F553AB65B57FC3176E514794DB93A941D620F3F19D1103A6F0A02B7CFA8C213347C6037B85817B27B22F47B8A513D606444736AF884FDE78A879CC77A4D7644AE360004BB8B072B74A1CC99FB32A68770A110432E4C06F08148FF54AA6A5D2AC1B3B8E461B9813C3A16DC0B200CA81D4E336A54341C8D157D1742A0C327B7C0C9390416B59843353443530A5B70B71BF3768873771155617637272B1CD057F1F01B59565228DAA20A060970ADB811C106491FB32FDA5C6FB70415125B1AB6148062100AB78107B37AA064942ACF56919216C6FC58732598F0DD82838D8881999B431586A315375444C6A27D14FF8AA3DA9D1340D137B885C95F69862B63C2618E28A11211E3B64BD1A678F631494ABA55D42D8116B6388E9EA04B51C9773083A207000E83332C727B4512806A2DBCEB6B40C644A5294362770F1108C467F6C64B907B0BC142625AC621352D64B73948D88F281ED3A65A1D4BBF920C962E91496718531756026E71A5986990B5BB1F9EAC8BA3571052C32D414A5AB07832FF3172FEC8FFD1197028A9EE410203BA02E6AA6B9517BA8746317C69304B381BD6D23B3DB6605BFB2762B556BCB502CD10A22C8B78B4D0A173CD56EC835AA874C485F733B5E4C0DB08558F1CBB11F866544F10A8A5B5CD52053D8708C3BACAB400C78A65436FEBC36E5894D05B163CA7892EDA9BA6C0792B2C9C345C399A0C841A70B56DB1C5AFF3703BF5150D1A7004C1C84CE25229CE751F8D00340F228114639B811C5C1D3B614DAF84266BC4C312FA43C4109DAFDE79000AB39EC2FC5834E128C5E1460D8CB0C35AB340D706A6C8B52070A7E41A6405FADA53FB6D75EAC6C76CED1B0A025B40A55440712AD8424672E761E9BC400D63812006F";
-        textByLine[x++] = "ct = 14D60069138223510C837D1BDD44E59ADF0AB0EE9D3ED7A5187FEBB0D276480E24850EE7ABB378FAEE468022FFFC581E80518383D0B26F4B966075007FDD812005878EF601A2638D790BAE895706B515FB532F0DB572D06B222E650DBCB3C34AB56E80FB6187290879441D056ED1932BBD411696CD075BBCDF63EA8D12EA4404B6B03B0D7B9D383B880761AACF8D502D061ABE4A50D867A617CD7AC1A4716E5AEC52AAA42405AA7CABCFCC9D9C8C1DBCF9BDAF55A24B905808681CE5CA46E70B6F3DC1E4EEEBCC3F6DF41EF5FB115E6A6BC75A8787F73DD82E56F7211A5F0927DFE482102E9946F40F59B1C24D8FA61E2A7ABE371B64137880E3170FA2E54D8D64370AAE7DAE2CEEC58F0CCA4FEAC0AAA9B963D1E83E0AA133D93956DDB7C20ED7A2917CB11D6E8722FE36F9E62923ED55E74A49C7DD89ED6AC2F56AE8BF18EC840BCADF6A2BF2DE74E9F2C5A3566B39B4975E6119FA3FE43109D57DAAF6A4A36917CECD850B91F3BB98486BC6564C7984BEEF7D8C6F6A0B48B0C34F255885DDC4E3B59AE8867CFFB9D2B1E8DD4452B9BCB74A7B20DB6A7F57F07727D490FAA2E4F973126571C478AD124F36CEC091AE2F85D338E56B1F9D6006EB7DE9467DAD0A987CA7350D10585CF438BBF7A4A03BAD8C65C2338564EF169A97EDBAB544912853BF29993E635A625D2218F85C6F2478B61E8BCA1B41F24DF39062B974D45494F2E8F944E175EA8231BF8A57E2F3016FEAB28F56C666C4D47A3DF56E1413CDA429300B2377EF1BE9A871DD8624F90A7720C026E89768CD11E4D38DB2A7FD13EF1FC61C327AFABB8D901662725D87BE911C9E0AE3AF0B69441C384BD0EAB1D1E96B12BB257232208C5843E417E9313E79FD4159C5CB488450088EA311F8FB6D4C800DA7854A317EE6DF075E0B1479BFF7D08A6518FE6B9216BD1C8B99905FDFCF4321818436B1C1C274E4BBE64D69FA5CA6B19C3D8A22E2825118B6FE8C63FFAF153CF5F66A8DE76143C8A342BA1ACD73460F7550F4D8C6B6D18E985E997CF7B77A38B23ECB761C6524254A930A8A2F33AEECCE183914CEAAFF3B3E907A80B8";
-        textByLine[x++] = "ss = E6BEBD8623388CBC483EC4D1B3D10E55EE88367DF8784884660F63043ACE7353";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 72";
-        textByLine[x++] = "seed = 6960F21C7350DCF41B4770C551DC8692D8BA2C0B6E162C589166FF22E7A1AC0F94C2F48504A5F7EB0DA094DF427BC98A";
-        textByLine[x++] = "pk = CE04A546261FB88A14769A7EBE1AC627D4709AD47E84C44AC01CA4C40C0977A9C8C6871BD929B6E70A8C76A02342ECBFD8A90F1F31470A8708506160F961564DB86466D049894437AB1A89DD41363EB597D3265D1F7B9A10C715D40A182E945C9666371431A5A54C6A80222362FA245D9AA10FC115642B3F28AB28BF05C254110A5F5CA553DB719A16269D749BCC85388825201C8152C172806C9986F53509A2A3AEF9A28E22E58CD1043E19E757B8179E40689C9762BF2138BC02453802869B8F53ABB6BB088828726CFA51EEA526CCABC971007A0D011315C996DDCCC0FCF365F475C578517592C2C48117A63A2B6B854BC7A7A785A5DC4FE4C1B012D78CB3341F9CD826D1D2A13E13083E046DE47711E4BA0A784AAC886B25DEDC2033895E48386E57234EF28590C9F542331A9CE6A0A2DFF143B6F542BD752AC6A67A6B319EF15C7203119608A21B1374C5287348E54284DFB3B421B674F0FB3186080553B81F92E403A5EAB01D564C9486622BB5233AE0BDFAFA3867785E123A645C5A37124A5344264AC6767D548650F23A643EF347F43C5E1C49378FDC92F7E36CFFF437197215DA7970AAF5653FE9CCE0CBA1EC2677C0E9BBEB26526D866D600260C2E077C1558C8F2ABEE536999D951BB934CC974B55365495795A6418AC4A9F4491B4E60F992142487457E7359CB5B01E7E1CCC909CA00E6005B213C339C524B26A0B747C18A116026DB16239492EB056B12FF700FC56AE35E97EC6D0B787C8AA02E4B828B41996F01D69FC9BE7005D4DD89963298838E27C59B79C8DE62E4A636BC3AB197326C8EFF92C90E4958980A3382365FC65594219CE9D7070A6C3586466CCC031310825BA43EA933D416FB7A73D83F05EC222064F03B635091C25EC0A7AA99B9080844E7C44F6CBBEFEE8B3AAF9AA5AAB3E4C49C24D73AEBD8C37D9C4433193BBD1E6BACE139DA88A02883406F1B379E95792C68197D591CB9303B3D5BB2791550DA44567D2115DA0BB4D380849E1145140D9C6983819F7447332CB697AA2783BE169DB60249D3CB77D35845A380BE3CB789F66395C4C3D894C95E9A3714099BB9A086057DF0C5465326E1932AA50DA74AA8435D9294FD6B7C05A153F30";
-        textByLine[x++] = "sk = AFEB5FBF8BC9FA409670DC0F6C94934F53BF3D4B40163278A3AB076086C5BFF79D153C890DA535B3D291A2A68ACDE58DF67911F17939B8B474306A862BE548B6D092AA188FE4419A3EC659B9B8854B489BA2200270E3601EE6973B6287DF400B0775AE483C55547A9B7AA66B396753DF934C13085F27B978BD03A5A661A9E94B809A19130C92C1DE21B26458C675E955FFB20C939028CCD358652B0B9F3C1D3C300BAB422603354A6CC0A270E7ACA3706487B67B16ACCBA7CA9296661E2A9B2FC7CBCC60F10819A0BDB400662E203A77C84C75824269D662C826AB11F1B35F8754A2870FEE05A04353C23146B62D91161A9A10EA028F8B96B082034D4E63359AE565A00AC0E1C8201A86294673BEAC8394D01935C8C201C76A0143A9C36E737D5BCA9A07994D91DAB5E10ACF3B96AEC1DC1FB33C8F260B1FF6E8B39CCC6A20C554E7C48BEB3CA45D9341A0D978846382065B4FF6E13F39A9576F3B559A58194D75CE5E48B89E857C45F104CF7781ED5BAC03965BD74942759231E8146D4051B86E33964B25A9E4DB0655949D04BC73F8916280CC73D175834AA349EC8614B3F072EAE445520B64C57BC284781061E72A7C264C05EA9D9BB20F33CB86AD2B080C98A7E7B6A4A31B119BD139F270A8430A7AAA122E5BDBC9760B0C0F562719E6630D3BBF0BBB3311333F0918385C86C851EBB8A306CFADEB4634AABD720387C787833C9B7FDDECC117188AF713798126039A1B940694CBBA5171D2B977876A9D74FC067CACAD5865104A627C7AB0715DBA6C0945916985BAD2D041EB43A584A1C152AB6DF0CB8DC6BAC599A60B96AC6E5833982D2167F8CA2C9B984AC1450865731AABC3796E8B4A30A6C78EF76FC2F5C829A2B23A33AF1325B54B869374493D2D82275FE49ED6760CC90992973C618489C37F53A3E5B605BE77CE48E4C05D398CD648BF63C7298AE11FAF889D684A522709C7E301956919C419875696BC782C5B160EBB9ACB542138F12195EC3D8ED03C64045F37E53970B7856B3B0719D330B603033DC54C81A66CF7A93D8565B3DCD91458158E72962B2BD78A3CA11E6730BCCE04A546261FB88A14769A7EBE1AC627D4709AD47E84C44AC01CA4C40C0977A9C8C6871BD929B6E70A8C76A02342ECBFD8A90F1F31470A8708506160F961564DB86466D049894437AB1A89DD41363EB597D3265D1F7B9A10C715D40A182E945C9666371431A5A54C6A80222362FA245D9AA10FC115642B3F28AB28BF05C254110A5F5CA553DB719A16269D749BCC85388825201C8152C172806C9986F53509A2A3AEF9A28E22E58CD1043E19E757B8179E40689C9762BF2138BC02453802869B8F53ABB6BB088828726CFA51EEA526CCABC971007A0D011315C996DDCCC0FCF365F475C578517592C2C48117A63A2B6B854BC7A7A785A5DC4FE4C1B012D78CB3341F9CD826D1D2A13E13083E046DE47711E4BA0A784AAC886B25DEDC2033895E48386E57234EF28590C9F542331A9CE6A0A2DFF143B6F542BD752AC6A67A6B319EF15C7203119608A21B1374C5287348E54284DFB3B421B674F0FB3186080553B81F92E403A5EAB01D564C9486622BB5233AE0BDFAFA3867785E123A645C5A37124A5344264AC6767D548650F23A643EF347F43C5E1C49378FDC92F7E36CFFF437197215DA7970AAF5653FE9CCE0CBA1EC2677C0E9BBEB26526D866D600260C2E077C1558C8F2ABEE536999D951BB934CC974B55365495795A6418AC4A9F4491B4E60F992142487457E7359CB5B01E7E1CCC909CA00E6005B213C339C524B26A0B747C18A116026DB16239492EB056B12FF700FC56AE35E97EC6D0B787C8AA02E4B828B41996F01D69FC9BE7005D4DD89963298838E27C59B79C8DE62E4A636BC3AB197326C8EFF92C90E4958980A3382365FC65594219CE9D7070A6C3586466CCC031310825BA43EA933D416FB7A73D83F05EC222064F03B635091C25EC0A7AA99B9080844E7C44F6CBBEFEE8B3AAF9AA5AAB3E4C49C24D73AEBD8C37D9C4433193BBD1E6BACE139DA88A02883406F1B379E95792C68197D591CB9303B3D5BB2791550DA44567D2115DA0BB4D380849E1145140D9C6983819F7447332CB697AA2783BE169DB60249D3CB77D35845A380BE3CB789F66395C4C3D894C95E9A3714099BB9A086057DF0C5465326E1932AA50DA74AA8435D9294FD6B7C05A153F305E7F49B87BB2319DBA8D3485FE814AEDB0B43173BC48F3A793554C3E8BF90C17273B38BDDC18488024EC90E62A4110129A42A16D2A93C45439888E76008604C6";
-        textByLine[x++] = "ct = F379376AF8466C09A89C34A507486E8C3B3099BE0A0ECDB0F706B56A2BE56DF367E91563E5E3F208BDD9A2B61EAD8FFB43357985B173F98385B7BD004AEA1249BB6850520A49089613011577F3C5741A2A9D5D0B869C5AC0542D1157ADEE39EC10B52796FFB97E3E18F326A5B97C5F87546113ED93CD5183D7DF901BCD011DBC86D86B8DDC4F1FE3D8F9B8FEDD9C3A4841EC8ADE65C7E557C34541E7813D69558DD1CC8FFF909233B0D16110C24F8A17363AEC86285C343A0031CBED44C7435E6ADB9EA0283FFD353CB353DD45B1F8F6C2589E373CF7BB201FE50DAB8AE5D590856D4499A19D4194BA11F7F06F3C14F006F8CB064C11758B6BDCF32A51BB560A261E5B99FB2E0C5D9FD2B1157061A734A4B427FB8F36CFE1176E4C35EBD0ECB01DB27E9A258C9AEB68934664DE53A480EE7B7940D853A2E499FFF9955180E6A36A51044005893DF0496F10401456167CB072321E4FD3071E5DC801802CC2AF331C0573570CE4369AAA2796D6F9AB9354138D699D9121E7EEAB120310F06B3F7F4D30364178C89642C5BEEE65B67E98CE9C484D331BE9C620F8FF5C63ED7EA2FA2ED39241D55DCBDC5044210674FD23EED188D81E46756405FCDF541EE51DFA483784CFF32EC354A0395348274A8812BA0DCBA854EAD78E82E4D3E0ADBDAB761B7980764B56AEA7C4073C7618B0B8D4C8B52A27A264D065E20367DFFF780FD90A52DCBD6378DF8B3A0FFAF0D2DB8741D972E7A06028ECF4B94997D9CDEAC0B0400DDCA5FB4E80DBF200A6446FCBC490EB087FAD7372BA0845FDE34DE50D9E59F0E54EBB47571A7F33C91452C2198257E39396F1518D4E983FC54BB45E3A2446521EF7743A081E1D83A63758C7E509C2C814DD1CEA7684DAC0A4C5F3474E02993AE925B832B5896F3B71861CB3A3D9BE22816E017D251AA78539ADDC94A2C65CD5233D13F04C26F6C18B56A12C8E7FA7399A3F177F6AA974BF90C874D1F0DF8AF4C3DF6576378A243680DB38B420D81F97EDA3D885267558A75B80E88E4870AE435B9DC360D76514B17AAB2DEF51C924AAAF1A85AA98484B314EB320DE78A2761B";
-        textByLine[x++] = "ss = A92A8A587B84CDDD75A3E58AA6E88F8F80CD79EBEF496DDB8A67E11B4DDFBC2E";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 73";
-        textByLine[x++] = "seed = 53DF46012CAD4A745B7A3C06E18CA95E0B839FD8161E3025749A0887549EB0ED6A44EEEA08BD6060D6509DBF7E9DC864";
-        textByLine[x++] = "pk = 4707348F9AC63776782D877317D4548DDC9EDBA94A8454C1422BBABA88A9454585EC9668DF08181E5A7343291002915603D891099172597C173A88B41CD45C24E40601C6A5BD379113D876E06614087204CF43C3564980D9630E84B621D6415D0CE224D50BAD07B52D58C6AE9FF108948B4E49D9C941C3C0EB53A3F118445EDA39B1CB8FD6013EB33046060CBCAEC21B13549E3DF843E9E7B6CD731664808AD4A773237194E9D5A39217457478A6198203F9E6A90E9A8492F96FE28A72C9E2743A41CAF07752F52B2ED4FC17EFA95493A24C66C93BC6AA846572AB7FA0A808A16279382F87700D8F195E1781803880B07C925256100F7BF223087A85C4F3C88F861E60F92532D60F5CB2033B883CADE25F8BEB7312520FB3210B2230528644B1EE298161F453B5F32126310899C88BA50690ED925AB0537EBD594567E837471A84C6EA72787176F80C94894C870E69337D939691568EDCAB008850A6F3A53EB585C01AF253D1C9434810555AFABC430B7FE69324A3E775E6F2BE3638B119A6429FF98D8EB1B5808720E467302798A8CCD8350D36BDA8FAB17A53BC0C851D91B7CF10C617A1C03BBCC63D93A38EA4653B80731442889FF8200C96B5C37263081DD400D5670959941764A61CDE119662325339DA81F926AFFE427E31C6883CE10F5E5705EFF1CB209ACFF5644717E6C6928A41B6E7183590AA524744881AA427C17FE955B306C33447054AC729112568A4CB16806CCC008FFCA87E4CC37C3BBCF8E50D3BF07E01132EFBE0605A14AC32F6AE2802CA893139F62A64CEF28B1720ACB282173F2CB4B0F392F8077A325A6259A32455E57964E338A6A731C5AA29BEEBB0843730FFA93D6B234D51BB87A054968CD07F9C3A2CA79607A97079EBA2481E590955E124FA7805E1F03499B7216B6A3A14B9C0C6BAB99917A435B88C4314A290E70C7EEC8A145037B6531B35B89655E90DF5EB2FE53AB33B6C68583780A3B52BB92CC90C45A28CFA8ADD511EE03BB8BF528D4E94BDFC0CC510E732DF4913116A7786E437EF523607126F047A17168824A00699CA54B71EEC5B690CADFD69B8DB5E8548C3B3DC474F7843C49A8DBFC939C41AF7F8EC6C8354AEB0C67E05EAE0";
-        textByLine[x++] = "sk = CF59C55278AA76DC467176C58CDC4499667510219CB1A28E973404472C38C4E7BF7E00D00AD5C6E0CA536BB13081E9708857723029C619F1BAE117B283C6C96BB61818942A4B63163E957F1A76A1A3C8AF61B851C618927AB771098A43261AB16A8A252D25211D1682D2265908E091D10365347380E314BBCC224CF8889BB37759345754C4FA6589C8B055A75313CACC3B0C21959B621A68AE1A5A7B6398693C0194E57AB2E722072C508027B98980E864FB82B7F1E42CBDB9B608B428E9E391922189B54B18F5E66656B236CBE50563F75D84F785DCCA6FEDC1123ED31892D4289952CD9968478915B5E2E4A2D92BC6281B702A84A02EE740A4250F67F893809BBA3C790B963B70FACB645969457F91ADC732406CF4010B76B478E37BD0771B3E801C37DC1FCF7683ADBA4EB0C49FA3AAA9CC829C2EC77B39E15D3A8C6873B139CC7C1DC9F8581E829694685C0A06CF9E33370CD8CC514ABDC6ACA6FA8203E13BAA97AB2D55EB8C9C122C1FB55D1DE97D95FB9323392A499100D9A5CBA9D8CB2423688DEC85A5442091398419417749617C66C06321F3A061235CCB799E8F23CE537351E49B59029A59ABCC4CC9F27727653A230051D907BC1FA67895C60242C4A945908CBD480904977B6E016C1A27C120E37BD19410A8864E5B24CA2ACA3CFD2BA3D9E9BD63F42F3977AA0C815E5D13C4ECB1B7120997F77638DBA3CD5EA57883F5AC82222ECB245885904C9B6058B023253917B7AF71C2F94B74F3637C45045D75F840191455B6154115555808D1C122D379AE176947984ADA6C4EE90870E51185EE5AB0FBF042E3A299B0797E36D2C5FE5004106800868629D0DC48F46C14C2082E66A5A4D6579676624B5AAC1FD07C60A0091B1CDAB40CC2341F1961A8D882496C21573A21A7A4907D0164960CAC9AEB10E62377CA7C2DDA72594977225C9B0218B2787BB8B79B54C819418EAD17109F950D6BA4BBE1DA35FA698CEFFA2A52484EEB868D72A784535814B030130852540EB372E7B7218CF499D2EA3915682A30176B08074F2E4336C391B69F1130C4765032649D00F0B397E8BB44C18F4707348F9AC63776782D877317D4548DDC9EDBA94A8454C1422BBABA88A9454585EC9668DF08181E5A7343291002915603D891099172597C173A88B41CD45C24E40601C6A5BD379113D876E06614087204CF43C3564980D9630E84B621D6415D0CE224D50BAD07B52D58C6AE9FF108948B4E49D9C941C3C0EB53A3F118445EDA39B1CB8FD6013EB33046060CBCAEC21B13549E3DF843E9E7B6CD731664808AD4A773237194E9D5A39217457478A6198203F9E6A90E9A8492F96FE28A72C9E2743A41CAF07752F52B2ED4FC17EFA95493A24C66C93BC6AA846572AB7FA0A808A16279382F87700D8F195E1781803880B07C925256100F7BF223087A85C4F3C88F861E60F92532D60F5CB2033B883CADE25F8BEB7312520FB3210B2230528644B1EE298161F453B5F32126310899C88BA50690ED925AB0537EBD594567E837471A84C6EA72787176F80C94894C870E69337D939691568EDCAB008850A6F3A53EB585C01AF253D1C9434810555AFABC430B7FE69324A3E775E6F2BE3638B119A6429FF98D8EB1B5808720E467302798A8CCD8350D36BDA8FAB17A53BC0C851D91B7CF10C617A1C03BBCC63D93A38EA4653B80731442889FF8200C96B5C37263081DD400D5670959941764A61CDE119662325339DA81F926AFFE427E31C6883CE10F5E5705EFF1CB209ACFF5644717E6C6928A41B6E7183590AA524744881AA427C17FE955B306C33447054AC729112568A4CB16806CCC008FFCA87E4CC37C3BBCF8E50D3BF07E01132EFBE0605A14AC32F6AE2802CA893139F62A64CEF28B1720ACB282173F2CB4B0F392F8077A325A6259A32455E57964E338A6A731C5AA29BEEBB0843730FFA93D6B234D51BB87A054968CD07F9C3A2CA79607A97079EBA2481E590955E124FA7805E1F03499B7216B6A3A14B9C0C6BAB99917A435B88C4314A290E70C7EEC8A145037B6531B35B89655E90DF5EB2FE53AB33B6C68583780A3B52BB92CC90C45A28CFA8ADD511EE03BB8BF528D4E94BDFC0CC510E732DF4913116A7786E437EF523607126F047A17168824A00699CA54B71EEC5B690CADFD69B8DB5E8548C3B3DC474F7843C49A8DBFC939C41AF7F8EC6C8354AEB0C67E05EAE0E3F73C56254FAC37209F5A59818FBAABF5ABFF3320B0B3EE00E20679B5728C12A3729672816F3EBA84C9638A79676EEAC0F22C8A48E0C5D50A26FF0844C66B99";
-        textByLine[x++] = "ct = EF229A3C9A2D0A23110925CD60333D504C7EA8444BABC235B615EB63613ACFA875F5A274064B5CA24C7B5EC7D1CE128DDCF5DEDB5361627343A8F861FDD47324544C3D3046512AF8DC46B68DCBCD5FC38E9D8F94716E86FBF1DF316AB73A12E302CD63B0B2B7726994990DEAE7A8B01E5CD7DB81DDF9FB29513B9F7A0F8C5FC6951247DBEF2E58DDE615FE168978742D01C9B0C9039AF5FB856D121FCF2C3CD63C78E5CB184B63534BE58F3FECED4146B94ECFD20827BBE8A25A11E3419B7C2762FA49D08A563620DDD9C82C87D3E416FA94ADCD3571A041DCBD634206840A83EEE6B6808BFDD54F7ED24E2C92C0A6348190A7B29E14F382AA410A019779C95736D5EE44B7B5903CF84CB0F7603D9D90A12E144093BF4CB85408EB914E054F7DC28B99643F02E8CE4F0571148FFE505A6153602C04C1538C6364F359ABC525B89243085E91E48643370BA2DDC2FCB4A390E967046025930A11ABCBA148DE1BF205569AB43254483ABDA0F3059A71307CA8E4F7D715B65A374A647873AF2E9C1D85FAF720EA52672AA185586CD5B9A1313DCD4926D70E00FA9BFAC5D643AC09781F7A521E395120404739712F725C79CD7966AF146E9CEC668C8775B61BE04754D7B5D22CE026C8C84B40161ECF0582BD7161F5B34186352B7E44AA1DE5BE121838ABE0C17AA42767A976714682E0A1A68CAC73A338EDADAEFB87EE7C601F6B26C8B44B7D48E6B540B821C3D620840A63FD84CCB337B5AC7D9948CE0BB551D98DA17667C260BA4EE0FF538F5CFB95D2832DDA8E1F07FBBA9F7A58ED5DAC5E483FC8D4366C7A0C6AE337D80B38A28FC4C0E737E43E9FB1C19037F0623D44D9F3591F6E673253F4794C54D20DF0BFCA057657EA7598954B6DDAB181ED5A48F785B874A11F7CD5EB08955ED7F3E032FA68205DF0A5DC7C3960550695BE119723A4A941DD6A032D7171B5CCCFE8C081695CFEED8A28073CAF7911C1FFD78E58A4BA6336E925EFD254081C390143D0874F547E69ECFFEA8D004B78109621D507E2523FD83082F39B2EA16EC73EFFDD091AFE1CCE1B54708952053C92EF5E302DC678A4";
-        textByLine[x++] = "ss = A566D12CF0FCB1CAB51BE0B38365BEF5908BB1C93ADE17780CCB988F8FB03E1C";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 74";
-        textByLine[x++] = "seed = DEB963F8B1D8FBDF499D564BA8D2D47915BB402DA02F17031B37B4039A842AFB9B7E48F37200605992BD2429427A7A4E";
-        textByLine[x++] = "pk = B6712164215D038AA3F9050A35732E408AC91A2635B4C6B502C698104C7E90A26BCD903A4B78C20218AE92D39BF634828A14B529983E92900ECB3778A1583DEEF38497A336063A31EF9460E8B240FBA40FFD4B7B070A4650EC3CD698046C097189237A11A510F6941E6B73A79DD99EE4A8517D25650FF2C0E9B0AC238302ECFAC7FD642DF9830FFE8714EA8071FA097B39E57919462948A177858C89FBC8BBB2717EEE7169B4256606C8ABD1E9399DF44F12FB8E4BA0B846EC7FE1D65582BBBDD0D494A8A25CC81667AE1964A525016D9BA5EF698C84472AE62CBF10293CB047082A58BDD321C616FCB7A79223E95C8834362DA8E60D0FEB36A5D1A1A6B6736200213AC3620A113A6D5436EF2064FC360805D2AE84D79D07376123FA1682F80A5E85C87992329D52125A9965D8B039784A3BB472A7F310057DAC08E5F41FC1AC9E55F7532F2359C3063726A25599980597DA9715117A5AF15DE88B516F8A41E4AB824FFA8E6EF16CDBCC1FE4F965EAC97474A7B235DC0C73140EE7153A835C29289311E1C2A0616A2742C70E27D656EF9954C7643947BC32EB713D9AC392B982400ED275899A04F1B7356B02A54C37BEB03215D9E1505380049F9B61B35A61C105980652037142A44C42252663799DE7BAFA6A042D439C893A37A87B1A792C1689924CC642AE09A299D456C6D36895571572F19C144BCC6EB0CB9AAEA09289C8CB193CB9AC33823C11980C950D1106625755B280077F9F383F828824818956ED46755F7933F029A9363054DED02A42F5C56986C541E9ADA77084B08B7EEAF4ABB700839A59C18FC556A6D528E5326C0B4BAEC27285B0353E3A152F06FBAC742A9606542FFBC14D0EC214757CB1A23AA810945AA8526D3CBBCCD11B86FF12B553268ABCE55D7D723E496071A8BC3A8072AC653CCA7C261FEB53C95B569A44D52F3D61AE991C38828557CAEA637E6B130142291DD51DDEF7163CF84BE7A266E504A4E4943D164C912E77CD9C1BA5A9549E5BE685945B66A4A622BD8540B044BB14384AAB596147E813F9B1C94F75BAC39A1AEB14A035D858892B7E900A2163828F03CA153015FB2665C77D8FCC529F21AFDE0D4F32CBFA399F2973D812F516C86B";
-        textByLine[x++] = "sk = 4F9166B63489953773EA5ABB3D0C6A3AE64910943321A13FCE603D2E7190D288612CA63FB1EC86A9D50BCB228F74208D9F6352C5F57E1896972230C36F752B8FBA83F9D006EA92350A01474AE53799B117E38860FB5CB37630549B5B3B9E5928B6FA4559F040332AC243B90C01353FFBBB77B29735D5E8463E930444B987456072D6579B1FE52EBAA689E85950F393C25FC0AA29D76306558A6B1C2D461BCD4769C2D29358C891A72CA63E61C12C43BC3252107ACAE4194780CE0BEA39D2DACED340416382BF99CB8C12BCA7AC94AB1D50809A0B1F18D1C4A4A3AA537519D9772FE0A88E668698E59B77B94ABEF2F969C9F46FD9A850B9E341CCF588485315648A960DB0CA33DA481987310455452F3933C8DB0E1692611D40233AC617E72034B6E8B1D614BC6F0B29735AAAC3C050BA38682CF3A6F0C5638B6097F46A85C32A7CC8B06F34F8542C44064B46663AF7ACFFC0A45A99AAA225A30F2C6FED688CBF789C3B6A7464AA17388B69DCA70F3E9A588B6531E9032B883946490C9D9F3A53EE0139FFD6C9DB19491BB428EA92C2D830C04CC98FB193B735C599D527C375652A964C58E198CAA37C3F97E4251CE369B501CF96656F2CC1B29EC1B88BA8341727496916A4D01C8158D4A5654723DE0C418755271834608E72A2B48BB0B5A62ABBA9A99D07139858C7B767BA2D590FB0715329392927137F58724CB72137FFC08FE2059671828D57E6885B5C09007DC5DA4089807CC097FC1BC376BB5197A6C5C932DF08066C2B6805490604F6C9CD4A1406661141257E8B1074FF2CCC6F262C11CC0E9C9B30EECCBB824170251BA65AA1BAD79A91771CAD19226C3962543478BE9C48CE4A869D98E16E08E753AEE5321FC060EFA807CBF54D10C8611064A4E68C7DA6120F67B3BB9BC016E5AB61D6A37B9A83A490910C59E91911C33D2EA20F3E414EA08195AB979A7C204FB4582FD52547D4E0758721C32D6CCCA0DC34493A52FB606BE8785014F9761E704514022DB0A322C10A377680C4D274B17AA9472FECCEB4CBC3213153AA55AF49B808F4C5ABF98192BDDA571C366E658177F8E055B6712164215D038AA3F9050A35732E408AC91A2635B4C6B502C698104C7E90A26BCD903A4B78C20218AE92D39BF634828A14B529983E92900ECB3778A1583DEEF38497A336063A31EF9460E8B240FBA40FFD4B7B070A4650EC3CD698046C097189237A11A510F6941E6B73A79DD99EE4A8517D25650FF2C0E9B0AC238302ECFAC7FD642DF9830FFE8714EA8071FA097B39E57919462948A177858C89FBC8BBB2717EEE7169B4256606C8ABD1E9399DF44F12FB8E4BA0B846EC7FE1D65582BBBDD0D494A8A25CC81667AE1964A525016D9BA5EF698C84472AE62CBF10293CB047082A58BDD321C616FCB7A79223E95C8834362DA8E60D0FEB36A5D1A1A6B6736200213AC3620A113A6D5436EF2064FC360805D2AE84D79D07376123FA1682F80A5E85C87992329D52125A9965D8B039784A3BB472A7F310057DAC08E5F41FC1AC9E55F7532F2359C3063726A25599980597DA9715117A5AF15DE88B516F8A41E4AB824FFA8E6EF16CDBCC1FE4F965EAC97474A7B235DC0C73140EE7153A835C29289311E1C2A0616A2742C70E27D656EF9954C7643947BC32EB713D9AC392B982400ED275899A04F1B7356B02A54C37BEB03215D9E1505380049F9B61B35A61C105980652037142A44C42252663799DE7BAFA6A042D439C893A37A87B1A792C1689924CC642AE09A299D456C6D36895571572F19C144BCC6EB0CB9AAEA09289C8CB193CB9AC33823C11980C950D1106625755B280077F9F383F828824818956ED46755F7933F029A9363054DED02A42F5C56986C541E9ADA77084B08B7EEAF4ABB700839A59C18FC556A6D528E5326C0B4BAEC27285B0353E3A152F06FBAC742A9606542FFBC14D0EC214757CB1A23AA810945AA8526D3CBBCCD11B86FF12B553268ABCE55D7D723E496071A8BC3A8072AC653CCA7C261FEB53C95B569A44D52F3D61AE991C38828557CAEA637E6B130142291DD51DDEF7163CF84BE7A266E504A4E4943D164C912E77CD9C1BA5A9549E5BE685945B66A4A622BD8540B044BB14384AAB596147E813F9B1C94F75BAC39A1AEB14A035D858892B7E900A2163828F03CA153015FB2665C77D8FCC529F21AFDE0D4F32CBFA399F2973D812F516C86BBC0A40BA03D27BBBFB91654FDCFAB2DFB3E94D9607B99C1D7DA1F2663BFA2598E03FF73E02A217659F53D8C47556BF3D8C94040F630D63605E2D0F923579370C";
-        textByLine[x++] = "ct = FE2DAB3E6AD83AC179181DD6D2FC57D959E6C4564EB3E2161DF33EF119A135EF27F262A92399C63B0F1EC9EC0D0FAFA3E84AB1E196B0A77F9775307665C3B3DB82B72ABE6758CFE46BC0FFA6CBDBF51C1A753B8D11CA525313866C170946B36BA1A55E3204B6E37F2ECD8EA48FB7EFD02982D75979D1830098AF6706EF2866420835D226CDF56BF1FD3E2930D363883CC809E071A25F144D8E75768B2B78986FE3EB197ABA52398640C14642153A9159B1C4DCA987E4C5D3246B984BA610BBD24C7869AEBEA0DCC0D2C4617C6C63C3D1C4BBA937F152CDB85BD1CE3EECAC5FD3B3DBBE760279BA09F5684614C5DEB4FB4D04F1F5F4BEDE6AC417484D7FF2C894D49B9AA752B867C2CC1E5C34B6D9D67EE6035102DDB318ADDB5A91ADCF58D7BCAEF606BB47A38CCE8634FB3A4EF9317E7B600DD8EDED36A5FE45E889E65ECBBF87EB2D470F0CCFDD27AAC66B3F02C1179A2E80C076E4F64BF7959C02188349864058C8AA59D21F907F898861F47142C97FD9B1703CBA1C224D83D2AEAC5CECBAD0CF46AF31F06956D5C6D4A19C18BC705FA937DA17734BEB9FC3C792B121905BD9287DD0F01C58CCAC39C9BAF968785256DE9192EB9E5CC25890E8D6C1E48FDDDECE15A61DA6CE90876FF389A886ED72E47E29E2BDAA5056049AC0AD346E0840E95C9B52E46B2D94C6FFE68CFB764A7090F9E7705D0E93D0097580D4C03ED693409B02D14743F89E346E7DAEFFC5CD1732492D34199FF1BED872C538C26200BB225B038E5623BB3B4C4AB3604498F77F566724729EC7FC5EB9D35B432BB2CDEE6D1CCFFDD45AEBF042E85DD54464C045117348F281D8DBF8B2B15693AA55B8F90662057EBA305A6A8D940E1843AA7A804C9E09ED5124598C3D7C4DD7151342F92D529E18F0DB2F14F5AFF57411F2BA775109D3029A71E23A41CC6BD3466A6D05D3ECD0514F7F824466CB475A511C62A64CAD9C5D68216B19FB95B38F6E04D0332990E08D2A9DCD9E42A43C92F03C4C4919C9F7F276EA15C3F1673E16305E0C1006F9FA61F658D7342BFFA9E7A4CED5F3DD89377A02B6A0D32DD8EBF17D95EC2D";
-        textByLine[x++] = "ss = 48AC7C3E8787032F08CDD6E918D694C04468A8F07E3C35D46345EC29D5C0F005";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 75";
-        textByLine[x++] = "seed = 8E2995F1B3E43853B18916BB1212ACEB05898E2B177A87ABEB928AD7184E59695C56B2CCCF5DB80853C28A525E327D13";
-        textByLine[x++] = "pk = B7665F3A5A380255617309CCF80A53DC03259FD252DE0BB4865372FE22148ED6C5F6C111AC00B31460C5C8DA7728DCC4C45093F6C38D78432542EC71BE51526D588D46BB07CA388088A1C873219D74334070895C396A87AE390CBDF309E41A2FDDE955CEC2A29BF205E492747DCB39599A49902151AEAC0852D6C042B4C0DB99C3F3F94EB7DB193BFAA7005709933899C04235941969BACCB59418A41E603EC62679B2808F25C8565E6954335227E40040D8407147BA15B7A84405C6A6E72251236BB951E18A1F81B84D0126804A9B0AD3BBE3E65055A4CE714BB726AB9A94D6C1ECA19835B0BFDF637A5839C007CB5C5972111AA64BB0F84884D70375E352241BB0DC4ACC5F170A7F7B7ED3308B95D975D5C933E5058DF99C4E08878523BB98274488AA712529870DDF5211DA039BF2E43EB6506F30B41A90C8922880BFF2B1630C0048C22C4972690BC965C009E834BBF936581C9DA72A70E2A4C2DE0220CB4B88296C9716215007ECC9CBF9C1AC081D84D56ADB884D2522584CBC5E61D3327BB2002B275683664487A3CA8F767E54E27E541A403754A45B9512368B0C0298BFDD2143EF9C16B49A282E14010591BEF728001D0892B939C3FCE379C2E96C2B41A9E5CAB8C09CAFCE0C2A14D79137E3B86B25546C86228D008C792496DDCC9EBB01A664E62040D09FA798ACCCE9033BF828D6058C27E79E434904B756AFB332C9800312ED69C4CBBCC379B30B83FA4F71C15E86680B6E40B1F79601AE530E7CB8B7B7D536336468AE291D63360814B83ED574C98FF9AFB2DB8FE0E4561B98001AC783EEA99B82D13DE2FC5FD59A1E7CDC63E814B3275A0ADF318FB2419C76545CCC70066B0ABBCA763A99901AE6412B43E26090418C09554BDE64C1D3767B074901B5E61449E32532F98365B0BCB65CB3B63C03F1D023E495A0F96A258FFAC4D3299896055838263DDC85BB3A071AC5C87CC8A4CE8467881F54047759B420D5809489CB2785AFF1935835B845977BCF2B275FABE31222E8576E3578A7A56A26A31BD5510D12BC9AAA3A46FC87CF9D0706D20A126BBB446C24230FC82A780CBAA3823D34197B7D9E60E307BBABD9B3E8272A0EF1B3333269A7AF6A5BB8740BFA";
-        textByLine[x++] = "sk = 53B12801738266B450385A9729B894208AC7B3E5719ACB43D716461ED1513925192B891180B2BCBA6A22A0465CE788832BE49B0E3B7FB1D44217618FEC80B973AC90F4413CD8F54B10848BDC304CB2025A880C7AA3AB1C2743364523361D84C5DB3439AB5CB32C38406E3C5B1B7C7D0403AA4E70786F579CEC2C96F516BCEC6C69C3D969287AB855E55D22CA8379C1286C52085022C1272BAA2BB5C6027075A830370F981C8C836A08F08132394113C93FFE345766766687DAA59A591D58398262764AED1CBDF8E87F6CC5B881C18ACA05187F76A61BB429E9E024EBD58F1090A6961A0AA8706058D90A8091BF7385AAB0B27F16485E08A67B5EBBA9EA365B7ADA2C055A0DAF82B5845C992C945960159A50F7AA1A588084C48CB65403101747FD588CFDF43549FACAC6D78799759F2EF38D06C42422D73B5EC70B512313738027B9B18EEDA06332DBB5856BA413E357C07C1480401BAC34309ABA9BA13825BA5682345511A45C17353789DD302BF6B1AF1573245848986890ACFE2708523C02DC53165F204FD6A85B44A650F2D2A325477587BCA84994025D221967F61C746A12FC09BFDD3B89EC72A23405AD2A8512D89129585080CF0A6A416365130398BCBB93E37C18FA745B6E131908B0400A67470FC4B40E447E2E378222466336F0966FAB951CFA3CF72316C7D843880C297E4444633B52A0C317D4A1A9AA6892EEE5A538CC0E07C17A135A2F0E6194BAD18494E388866B0CF480AA3BB436B91B33D574372FC054C72B82A4A823B1120B9052C41B957F58131D2DFA8529F02E24F50D88017DB823457602A22AD78080661DDABBBBB9F6280D0AA59EF37B62594A013C74A03B8C108AB225A218A2F81358FC0182AB7A607AB103591078077D4F1B2B2DE6957AD404AD8B30C146BE11D99A0FDA6B0F254C13EC2DAAF4374AFBA07EA6AE69FB6633990C0E79CB61C9A81FE4BEF140CD1EA569A036CF716009BB3B33708327C478826A08B03839AFC31663D4F77F74A972E92910D06995390A3E193CA83706AACB884AE6B589C9AA169BEB63D4558D2D43B43D0C4F5EF23BDD26092CAC54B7665F3A5A380255617309CCF80A53DC03259FD252DE0BB4865372FE22148ED6C5F6C111AC00B31460C5C8DA7728DCC4C45093F6C38D78432542EC71BE51526D588D46BB07CA388088A1C873219D74334070895C396A87AE390CBDF309E41A2FDDE955CEC2A29BF205E492747DCB39599A49902151AEAC0852D6C042B4C0DB99C3F3F94EB7DB193BFAA7005709933899C04235941969BACCB59418A41E603EC62679B2808F25C8565E6954335227E40040D8407147BA15B7A84405C6A6E72251236BB951E18A1F81B84D0126804A9B0AD3BBE3E65055A4CE714BB726AB9A94D6C1ECA19835B0BFDF637A5839C007CB5C5972111AA64BB0F84884D70375E352241BB0DC4ACC5F170A7F7B7ED3308B95D975D5C933E5058DF99C4E08878523BB98274488AA712529870DDF5211DA039BF2E43EB6506F30B41A90C8922880BFF2B1630C0048C22C4972690BC965C009E834BBF936581C9DA72A70E2A4C2DE0220CB4B88296C9716215007ECC9CBF9C1AC081D84D56ADB884D2522584CBC5E61D3327BB2002B275683664487A3CA8F767E54E27E541A403754A45B9512368B0C0298BFDD2143EF9C16B49A282E14010591BEF728001D0892B939C3FCE379C2E96C2B41A9E5CAB8C09CAFCE0C2A14D79137E3B86B25546C86228D008C792496DDCC9EBB01A664E62040D09FA798ACCCE9033BF828D6058C27E79E434904B756AFB332C9800312ED69C4CBBCC379B30B83FA4F71C15E86680B6E40B1F79601AE530E7CB8B7B7D536336468AE291D63360814B83ED574C98FF9AFB2DB8FE0E4561B98001AC783EEA99B82D13DE2FC5FD59A1E7CDC63E814B3275A0ADF318FB2419C76545CCC70066B0ABBCA763A99901AE6412B43E26090418C09554BDE64C1D3767B074901B5E61449E32532F98365B0BCB65CB3B63C03F1D023E495A0F96A258FFAC4D3299896055838263DDC85BB3A071AC5C87CC8A4CE8467881F54047759B420D5809489CB2785AFF1935835B845977BCF2B275FABE31222E8576E3578A7A56A26A31BD5510D12BC9AAA3A46FC87CF9D0706D20A126BBB446C24230FC82A780CBAA3823D34197B7D9E60E307BBABD9B3E8272A0EF1B3333269A7AF6A5BB8740BFAE16DA7F99BB7BCEB75A6468A921AB9FE53AAB2972CA616EE10697C204DF1E3509F684FB055ECE19459EB464E91E126A7A6E3ED11CCEE0046DA234D964C985110";
-        textByLine[x++] = "ct = 8EACE19D14522DAB8BD9455EC8A1ED01434B26D65FAB2426F4C92DFF8BA89D3B8F3B7FE2801E830D55D613BB271B8560067912C6520C7F0E9302947FDBCAE4B77EFC215D1597725338838489F4293268687359B0007E1071EA6147C7717C528A3DC7F3FAABFD8798A1D6A37E36CA04AD8F1171DB817C5CCAF8CA3ECEAA5B7D73D314D38A98EAAEB720D07E47EB609CD5A3408281CCAD5A3FE2398CA2B2926BBFA64B62E2CF24741E873B275552172B2D7D3C60492D1827B205A821E27636B0186993C47C38CF621C12499B8DCA267FCBF61880AD302B0DE6C8E7AE80DAE930855DC3D113131C7FAF2F80D0B34CC160ACC025B68D2A569A4AB8EF4D78109C94C65E2AFEAE1ECF9B8E1926EBB72FA1EA5F2F78A7FA9EB03973A1068F185C1E592E5A028014D03A72100AA19B3490C805DB587211FEBB76343FB77B44D3D31F1F4F9D62C42168D83D2E914F9850E7EB1F580178E9A004924C0731CEDEE1ED785159B64978897688E22877004F1267DAF9DD6F04917B97A0C4FCE4219F19ECAAF822B3DA67F43DFB0274C48C4B5AB03087CAFC4F32CDDA1446A5028EF90E3752EAE8A22450B3135455E82DF38A60516E0603972BB9AB053237A1E5B54B0647BD37964921077A192EE1F82535953348671E8BD1E79E654325E7B4284EC52236CF35A61431D3EBB264DAFEBD371AE0A3D5E9F950F021F74AAC55F3221BE7CDF1C4226BE3FC5901CBCA26CBC8EDA71FEF6343E03E93F82B563BCAFDE94290AE906930765788F9FA8A609370AC848D451DEE702A0438FE5E19484DE9AE4EED64228810FA212EECFA9308360E43DC01A5DA1BAFBD244FC064D7B1011C7C3382AF20E5FBDBB177DC97348F547E663BC8FAD2A76521A32D54A0EFF8047A295FF131800647B6CFA5660CFA352547F0F7ADD346882BAD3C2BEEE07DAA2DF9338F2770C118172F44841C42ED9521A0E1E5714AD20F5D3445ADC31A8E295E53E55F9938BCB848B708D0CED9171C0327554E801DCB55813CAFF0FB01EF8D9AB6224574A1729D28115B61206D8052217D4607B718B2241CBEFC74E8E565D49F837CA99C4B1225DACC";
-        textByLine[x++] = "ss = 098BDA430EAA259763846C94D9F888C8E07FEC084E549851998F700156573E04";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 76";
-        textByLine[x++] = "seed = 9218943C51FD2DE47E509AAC67EFF176795102F37D7A2017E3AFD768FCDA7877AF38739B00FCDF227C2FD62EB635942C";
-        textByLine[x++] = "pk = B6A67CD98268AFA159BA69953A085099BA56F4E4C74FDB6759791D1AD738CF320C3CF8C52D607A32059F1E8333B4021D855816496963BAA6CB41842FA7AB7297A144758B84A27AA6DD507C097A6C7A19063F2B2BAAB0604AEA5CA1C82DDA790FA390C142B3709CB69675B8BA0F4990DC923AA525A316A0C7931AA5E5DAB4A4E19F08F898EBE80258BA72127A92E3005611A72022D285BD279332817ED4F13A06A71F8F68A0BE49A13EAC34C773937DA6218401C3FD55577572466A271A4BB10A7938919688629FD1C77B802B6358189E13A52330C4F836BBF41595DF29499B42A5A6605EBCD6AAA89CA33580B5EE619D282702B4380B717532E0DCB6DBE3BB0C6431AD480821F0C184E7817616C110F2155A0536A4C65B21306FCB5C343FC38191B8B46DD7A3E27240FB85C365A33E18BC231127785C3C68892B5CA7955A148A8C52176D5E2596BFF83DDC52157DAA998C392A255B37BEA55F1C33A23FF4CDB70A3FD0E019EF82131BD92E5DB8CE9230421A670C246695AFB5BC33E8569BA69D2843957EE52204E435F85C6A713C3FD677CF7A54CAC8D48975F1609CD68659643A1A10558F7397234B583E5665E3D30D1FA26D0788B21BBA2BA23507123B89CA5A1F54CC5957737159E93070987613DBC7DBB2AD163909FD167D9E099D8C394A7161417141CEC54A24F34310BBEC13ABBB05A3681C81D7034B8687C1D62ABC98B3A0C9A3C35352F667A49A6378380748934AC770D78517C5AFFD68A7F6EAA8309812BF6459C26C5FDA4ABF0BA46544A9146E5247ADF99F09622C74B8B90397503E211B9A23BBBEB3BFCEC659C936987C87104814A312091FB443ACFB87A0863564B9EB9191708AD370BA73D42F35B5AE9B97004793992D13B5BBF00B277A2DE699AE41222F28D593F6D3385583BDC938334E724341883A8026CD2AE5205DA3B44B9075B86C75FD203B0CB738B4F533EFE6117B97105A275EDB7B0A15AA1FFAF029F3E13145EB3C500440C0E30C426C093C420496D85AB46883B4B695F30952BBA32134189589882F5C297DA14236A073AC04579E4E7A70685916E53845C8430E2C554F3BE4D7FAE86455763B97EC8FDBE9640219B35FC36033966A3525D485F1";
-        textByLine[x++] = "sk = 326A5F31691381162B5C776BD677B60C25B49D60661C432859069E849144008D8B8E9636AF2013FFF55BA4120929662057C2463050040DE482875C5F7CC940B4B9BD27C90812FB2405AC42767254EF83B74882C4DB071D926604383ACE54751415D564DDB16EDFFC4BD762AA5A6714DF4978F3AB1928BB539F921713170DF8109D4005135C74C7E6730691739B0DEA12D0C1BE131228E1B094B0B894CAFC4FA0835C2A815BDC288F56F33C7D2C25DDBA868DA6503B00017B1373DF2C2375644DE677CFB56838BF3581BC173A588A9F0B952A3B9ABAEBD27E71D38431E4A8EDD398BBC4A58DB608AA255FB210CCE7247B17E3BF922AB17B811BCFF5627ED2480A5C3C26B273BA478A0DFA80E5344B88E9CB7A00A254B8705755B762216B4ABC4F74D7CB17B69771729B77E39608835292822AE073BCE322701FF37BF06B917D41396DD948632B6DCF572EBD6C2A37271670EB178ED31DE5B50D17072D33914B0044A977D0862EF1AB630AB57EB207F445177CD0B3C34B2D7C75AC832B6127C08B71F1579A63B653945222560C3565A0BB77CE8B5761F71A3FF63097F4813871F57DCFB4B3BEB1AC7F5938375AAFB8197C552801FA07CBFD8575864BA807E0CB37AA6AAF60A48C7202B6A89A75A38B019C6A8F00CC642901E7A98F81B6C76DB06FBD0A7852E4291DD05A6BE618E1C97B6B70446A7810B3D470BCD01A593314E75B4215C96B049A66ECAC66A3021141F9BA12778E729213CB4656EAA80C7D900A079C70F890285356C0A13A6C9A4207315B95BF45C8780138521BC72A3C524C689BAAE033C80A461C3CC4FFA48C0490517BE741B7F6C98F85A86D8814A96B3DF6C469A197C0EC5367E37150E9C19A726826BE6453381B833377890B0AC6F9176A1214A352A3A49101532B3840F4084574CB76AAEB64881C78D5A8BFADA105F7440E3D04A4291BBAACAC5A981B6F8777A7D109966CB2A347515AE01801916174826A4124A495D0A07861892FD5F8C90E085BF4E1680275848E24C6627701DAFAA17C9B6C3A59A0AA5C87B19A4A23FA4EBE49218F588690F749739A39B523A08152ADB6A67CD98268AFA159BA69953A085099BA56F4E4C74FDB6759791D1AD738CF320C3CF8C52D607A32059F1E8333B4021D855816496963BAA6CB41842FA7AB7297A144758B84A27AA6DD507C097A6C7A19063F2B2BAAB0604AEA5CA1C82DDA790FA390C142B3709CB69675B8BA0F4990DC923AA525A316A0C7931AA5E5DAB4A4E19F08F898EBE80258BA72127A92E3005611A72022D285BD279332817ED4F13A06A71F8F68A0BE49A13EAC34C773937DA6218401C3FD55577572466A271A4BB10A7938919688629FD1C77B802B6358189E13A52330C4F836BBF41595DF29499B42A5A6605EBCD6AAA89CA33580B5EE619D282702B4380B717532E0DCB6DBE3BB0C6431AD480821F0C184E7817616C110F2155A0536A4C65B21306FCB5C343FC38191B8B46DD7A3E27240FB85C365A33E18BC231127785C3C68892B5CA7955A148A8C52176D5E2596BFF83DDC52157DAA998C392A255B37BEA55F1C33A23FF4CDB70A3FD0E019EF82131BD92E5DB8CE9230421A670C246695AFB5BC33E8569BA69D2843957EE52204E435F85C6A713C3FD677CF7A54CAC8D48975F1609CD68659643A1A10558F7397234B583E5665E3D30D1FA26D0788B21BBA2BA23507123B89CA5A1F54CC5957737159E93070987613DBC7DBB2AD163909FD167D9E099D8C394A7161417141CEC54A24F34310BBEC13ABBB05A3681C81D7034B8687C1D62ABC98B3A0C9A3C35352F667A49A6378380748934AC770D78517C5AFFD68A7F6EAA8309812BF6459C26C5FDA4ABF0BA46544A9146E5247ADF99F09622C74B8B90397503E211B9A23BBBEB3BFCEC659C936987C87104814A312091FB443ACFB87A0863564B9EB9191708AD370BA73D42F35B5AE9B97004793992D13B5BBF00B277A2DE699AE41222F28D593F6D3385583BDC938334E724341883A8026CD2AE5205DA3B44B9075B86C75FD203B0CB738B4F533EFE6117B97105A275EDB7B0A15AA1FFAF029F3E13145EB3C500440C0E30C426C093C420496D85AB46883B4B695F30952BBA32134189589882F5C297DA14236A073AC04579E4E7A70685916E53845C8430E2C554F3BE4D7FAE86455763B97EC8FDBE9640219B35FC36033966A3525D485F1FB80EDF4F67823FF4E53A8963A9C9937FA9F8E014B750E11B4C4BB1A361D6484F03A8ABB0A5010F400AE5722A75BDF5A2F6D5B546B34D73857CB1BFC7E587AA7";
-        textByLine[x++] = "ct = 10F65A67C7C83A534D6D63C3CF26D27AFB0536406C2544CABB2A8745608ECD557EC54633942E37B98F683FB8C45C9BE36F444251056152A939F30DAAA7462D71209F3C4A6717843F8B307F22DC8C06645DE9B58670DCFAF847B5C8A84707AB60C61B7DD09DDE8B2C0FC1D83E8DFEE54B46498ADFC59427E1305FED3FF0F17191273C157DFB1F6CF75C18B88796EEC11DA15FF7776621C4BBAD3895B80ADC541F610D740B9D51C07A24AFA989F13492F9FAA64DA76E06385AA66235634F25CC6DCD05B9A0B81AD39165761218F9AA1E8AF2965410215E3961FAFF3B571D8F055F261A619F75AE1FDF099367B7CE006251DDA24E0C7EB8BD9BB2DD757E564998B0DDF9956B968D08BC03D952C6EDB4B1A6BF4181CCA620FFF2146E5626AE8DFEE8082A1E2D187AE65FDE4FDCBA6E73682934025F275335DF6F8B7E47907502B81F5F721318865A2094DE750EBEEA0D24A2957388560F19C3494A58C2B2AE17BFFE93B7AB8D020F9AACE27C1530BC92FB20A98A866A5FECFC96C1AC3C3D2EC50D9C158D29A7D33BFD0D1B2359A391509322265D7D9CF39C6D41B1EE0D74C6884E53A430E80BDC56202FCC004BBFDCF10480285DF4BBD2484654C423594F22FDDC0256437159D81776F0E24CAEE9BBC1DDDC865C7ADEC881034EE0E55FBB0E126954A1824A22EBE97ADEB688FB6EDF3F1C054C29B88985FB77169A5A3DEF904B476FFCE40F8C389355E8E4FDCD43FE99A06DE86C38222187927573C39CF33BCC35E753D89C885ED6A1AF7F30F7DBBF4E9A6DF40F620B5B888EBCF9AF2D6D5EE8C57FFE5B9C8F09EE717A07BB0196D0EF8D0443EFDD0F1B217AF3EC0CD15624DFCCC3B88297AA0D254BBBCC70F2C026B1B52C9DFFE4B5801DFBA946F1DEBD684BC856A9008ECFB292A29016C8555C71C1079737D7AA9544EB562629D4C6720D187A5C3D61A2F2D5A233C0EF53465B9843F122A42CC0F213532A8FD848EAD4C81D9BF2D2B2A6E118E74B451140493A6FBDA3B6861E6FCD4CA72F7F276A10B2ACC478D6327AE8B46DBB00E9B58004C7FD0B30E1295B46E6C7E41D58DAE8352642472432";
-        textByLine[x++] = "ss = A350B71C1675B96FE62FDB6D37658D9ED8C200EF4732EC6768DABF931D4A5F76";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 77";
-        textByLine[x++] = "seed = 542E20078ADD5296050AF150360F057F6B9AB3BA835589DD56987DE805F900B906505B5390A0D86CBA28038992DFC59A";
-        textByLine[x++] = "pk = FEB55FFC9306F08B6202EA25968669D4597145180620DA32B9B41576A297FB5010948A0516EC3428F1CE8012C664DC5C390663CCEAC966656CAE6110D1A45D4360C420A69014709A70B71C0CF8CFFB81958A687656859A8979A24C8C131D1B03E791BB81376DB31562367880DC097F04C150A171445283CB4444701BF513887C917A310C87FA30DC3A49A23727E3824F5E2B821875BA8B5288A28B40ABC8BA0D130953352F60BACB5C6CA6A13AA9757BC70508A4185A85A04669C63A44A213C569C2B7FDEA81BDE50C7B495F901C14B32779BAF70C57D84D92ACA4163637DE873F0581B170E77F4FF840D0E56E13D367C74A23C453C847E208C85CC687066C09C6CB6C397DF1232313D93A9AE45352E746C1645528A30D19F6AE36A56CD1116AF5D11F6FAB71D45544C121895F355657D982FA23554B6525A68A050B1454CD3ACB4C32AF315B19C9E6AE4A9A3791E6BE07F64C1DE5782EBC2E54F23782C64D74276F5F060E89C826C425466CE8C81DA46CF4737B4B57447F5974CDDC5957E7744B352B34B71958B0147517061A45C22B0316DEB27EBC26B33EFAC3A1B29C4A301E48E00DA82930D4959A13E763CB63035844B6DAA746804BBAE406BF858B772D958A6A3586DCF8464006544AA3290DC0697FE84D0033C702B78DF9E7AD2C75B8A04854433B5C3727870AC546FF3B5CEAD7A527637EA779B467D696952B430F7625CB0A1D3BF043E304144B559E969264053A53E542BAB4E57DFEB53AFF658DB07C6213586315F57289E2BC66E49C35E28F9A5219C9F653A9F1314406A6CF9115ADEC8568309388E18FCC5BBE221C323829C91BEC116EC1128CB39460C25876E32C08D1C409C581A9360D570CCFE323244F0BA84C19CDFEB6CC761A2E408A9D073511B90A2FB7178FB9CC096CE14A1FF14B6B6600EF99C47DE431CBC7482DA47D87540B3E72801F8A9B1C6C583EE73BB157A78C585B95C09A868A957709A5305C7424A28A8D731ACE8759F5212566388A7FE50705B6045A945B69A52BFB4A61E4DC53F6230773F844ED90C571823C3094912C3A9BA25879D7F4135780596D8B8490195D95FB6EC060B5257AC37481FAA2ECCAEF99C0DA37285D53BAEB0E25BDB9";
-        textByLine[x++] = "sk = A3F608E503BFD0261066CC5ABA7A1720AA8A9D9B86DA5858CD5B595C688B5B29AE3B8B6D9510C484D33E6905B86D9C236171CF825BAD4D265630878D8B8B89257A510B907EEC6146326AB4AEE3CDA24C9C36526578C470B3C44934823A6FA71C08F8AD662BB2D290AA0DA8AC3AA59A7B7210CF1CAAD0321C63F07074E2527D2AC4676B68B96A8B74711849D03B2443696E43BB5A34A2A9AC29A43C7C316A1DE1CB33B78A5B3BC04DF6490C05596671D9A5EE355E4C568CE5AA73855A735BC038FDB254F2F60E8B75BB60A1BBD429A8713282EB149A35C75BA5F4853F735CE9186F7EBA0B05E292805987DF34C826C34DC8B63E701A3A90037A9B03B835E7874381208987C517B978A1FB0570360AF357874B0A0860E6CBD4BAC028A9BD2D187255602CBF599468D46844BC5CAEB3A3B7BBC6D7503F7AE013D6266B4F054B95616E02690AE54C2D4CF89082790E41B60D4F865BB92584516C2014BBBFAF255D7B47212810777B6710A0DB1859482DDC858A5EB6C79AC8795DE152361358D895C57587CE0D110E1178AAE7C881D0D21F4773096FE57FEC3BB96AFA475603ABAD868FBCC61A83AA1D71176670D051D52C4BA56B9EB87BACDEF570443353C7D120FA4A1511D247A22102AF98C2D6A0B1FF52673F585D09F6034C97C8C08022F75B82A7987DE3506362A6785C23934242599C3175B7D8C218855C5110A22CE558D77337CBC36B9D7B69A2314264E0A22252B4CDC54857C40D5EDB8DD958CF9156284B95818E009541705885F6663D2549A1508F11F862319B92C03013A1035E26B3658EE21790FCC7296B3841EA5991C5B607CAA51D78A5BBD3CCB5316D5E9083B2F9B9AB1937BD120C3B94AA3BF356079592A1144BFEF2650B3C5E95E6A98506AC74B8AA4996CE5DD92EB7620B7FD860AF0267D8532DD1B85AD95547967627FAD85CB2E798998B27F340BD2116ABF155AE7BAA09D8E6411DB306D4B9BD3AD45DC878CFF3824C4CF16F08D72EBDABBEBF8939CB0B0103E6A47DC64FA325883F73A2BD8C7353938F1F81B7857A03441228D4366354A959A37637F2726E953CC3D90056FEB55FFC9306F08B6202EA25968669D4597145180620DA32B9B41576A297FB5010948A0516EC3428F1CE8012C664DC5C390663CCEAC966656CAE6110D1A45D4360C420A69014709A70B71C0CF8CFFB81958A687656859A8979A24C8C131D1B03E791BB81376DB31562367880DC097F04C150A171445283CB4444701BF513887C917A310C87FA30DC3A49A23727E3824F5E2B821875BA8B5288A28B40ABC8BA0D130953352F60BACB5C6CA6A13AA9757BC70508A4185A85A04669C63A44A213C569C2B7FDEA81BDE50C7B495F901C14B32779BAF70C57D84D92ACA4163637DE873F0581B170E77F4FF840D0E56E13D367C74A23C453C847E208C85CC687066C09C6CB6C397DF1232313D93A9AE45352E746C1645528A30D19F6AE36A56CD1116AF5D11F6FAB71D45544C121895F355657D982FA23554B6525A68A050B1454CD3ACB4C32AF315B19C9E6AE4A9A3791E6BE07F64C1DE5782EBC2E54F23782C64D74276F5F060E89C826C425466CE8C81DA46CF4737B4B57447F5974CDDC5957E7744B352B34B71958B0147517061A45C22B0316DEB27EBC26B33EFAC3A1B29C4A301E48E00DA82930D4959A13E763CB63035844B6DAA746804BBAE406BF858B772D958A6A3586DCF8464006544AA3290DC0697FE84D0033C702B78DF9E7AD2C75B8A04854433B5C3727870AC546FF3B5CEAD7A527637EA779B467D696952B430F7625CB0A1D3BF043E304144B559E969264053A53E542BAB4E57DFEB53AFF658DB07C6213586315F57289E2BC66E49C35E28F9A5219C9F653A9F1314406A6CF9115ADEC8568309388E18FCC5BBE221C323829C91BEC116EC1128CB39460C25876E32C08D1C409C581A9360D570CCFE323244F0BA84C19CDFEB6CC761A2E408A9D073511B90A2FB7178FB9CC096CE14A1FF14B6B6600EF99C47DE431CBC7482DA47D87540B3E72801F8A9B1C6C583EE73BB157A78C585B95C09A868A957709A5305C7424A28A8D731ACE8759F5212566388A7FE50705B6045A945B69A52BFB4A61E4DC53F6230773F844ED90C571823C3094912C3A9BA25879D7F4135780596D8B8490195D95FB6EC060B5257AC37481FAA2ECCAEF99C0DA37285D53BAEB0E25BDB9D9F630C3838EB161374710D9F01BC70D4EF928FCB1C38BED93E30F3633A05E01A59B3BD23B49A95BC1FAD20070FEC930B6060BD827D742B077092E422268E15D";
-        textByLine[x++] = "ct = 2F672F8ABBD6B02E056859F647B1F42B2979CEAA8467B4419E838165C66F97050721CB38F1F7972A83539F9A90FAA3E4BD805BC55AE557C6ECE5B948E124C9BED3AA16495EB82B8C76EAAD79BAE34542033FC9B8782F6E6CC4148F6C709450ABF341B18C32E952B12CB8115E280E2ECB0E1B53788AE9D0308AA472F9E76F360727611526F50AB480E5D75692CF577F6B8168548F5A7E5279F638E29A02FD6853C90228FEA84C261244C8E8CAE1D9B41895C625DC7AA3A91DA9B0C7C19E662AFC105019E1B47F77B3DAD75A8FAD581333E4F019112616D597A68023F94B7104415D44E6CF1106FF48132B52C5C0F5D55D77B5FDCE149CA08438F96B3DDA972BC39988B8C3E2206A367ADD3289A6AADFC41361E8986143AD0BB8EE3BC4E32209B0AB2B4DFC60D9344C46D52771FF0422DEAA8E21383C052C88D7825CFDD177B41C97F4DE6A0759D113B46FDB0FDB6E270ECD8F6DA29B8880106DEDDC9141CDDA3C7A6132A32F4E9761DE0A4AA15BC1463491DF40FEC42AC0EB893A9ABB3CA046754A12C5E98EB78A0E7D48ACF8184EDBA9A084674D477CA879945CCAECAF3EF37F019BC42E5E055D2D6F1F6975717090244B758D0F71BD82FF2F4390DB69BE4F8FD2E19FF35732478150AA83F1C76EAF0CC0CCB6BEC99FC8AFD45128733E79F6206CC5D02EAB82848C33585F31BFF2003D1029394E7487342296B1B093F5E4EDFABE74556E757CAB5EE05F89EC1EACAE4D63B5D193F936F1F0C846A5B22E367E9EB8E4C90ED09D6A3149B96A705844AF10BD0004DF0C00C39B3542D2AF1BAB05F2405C5B0B60D5BAC3F48BBFEA26149F0644E1AAE39AF7600868283C61D8CA56A05DDFCEA9309108607E4A02FFD3367E755A65CDEB11AE1AAC7B950B359FBD2A013C2F060E18C4B9D68DD7CAFFC59F591D82E66D0B9E0015F4EC5C471153286080FD645B38EB61D8F1186FE136910AA6755D636F2D7A89BE6BA37489DD7F96B534DB23BFBDF115A03A7E01CD8D77A3A6B8EC9D17C31E0D9E3341111914841F9829279B177B03A85C43C48171AAB0D4BDE198EA9C0656DE54FA20A7C7688A01ECC5";
-        textByLine[x++] = "ss = 77E15C4859466B3735DEBB83FDA8B2117CCE56668B1F8D8BA62074299DC4F5BB";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 78";
-        textByLine[x++] = "seed = 6A85A61DD08C0733FCBC158ABB49FE0B0D96A50DCCA140A2E9F5A254F1901985844613B1C656C0CB0112620591B88AD0";
-        textByLine[x++] = "pk = 9A620F09135FE651929F4B299DF28FD9943AE75A983B544E62305FB6711E780519B0794D9AF7B4ACB2BFF7C704418BC89C38A9E2B00FFD6854C6F41D38B204BFE220034213C066CB62F721E59521BB6BC039C19781FBB71A546AEEF31B90783695C47AE2812523F84F0F462B60F3BF77F2020E793813109D25332E966231A462CCC596A48CCC22677A904E35035EA10EC572B15AF3AE770ABD79C72A1DFB3A988952C925B461F092DAB51726E999BAB44806199716F425E21441CD82919787C629C90B6B1975E7B0844AE52DF6A5CC7D393ADA542F78952BE2B001979CA34563B390F712111A24FE33AB65265B70ECA7EECA275A993EA2793B0B08ADC56BA66D93AB1A65524BDB034A33A9E9F59B79F16AAF12C470A22105EA1E2CA042DDE1AC61A982ED40102968437D216CC6387989D652BD59A4D88B625056B40550092A506CB4B0532380B35DDC4D34318E33A797C696C12FA540DF4329268BA47C95368473C9A70B0A5B0A3360B73767F16D94E59C79B1C839B0AF93F3CC57323B9B815B94F6889CBA154FB0C6BFA11AB5FBA4F10C83405629B9C177CAD4307A7B0E72CA4F8C7BA5F292AFAD92C566ABB319124205554FB538C6A5C630A32655AD56BE818AAAADD546B1D04DF1121AC167BC09274379F0719F3056FEBAA36AAC0C926512D21530D5B9A8BA838F7A44656E868C915046EA818E19B06AFCEC6A14594E6A5574EEF2A937731F24994EF7DAB03E223C0FB0BEF2A2661703BACA090C50A20DA05A64BD764F1F1B5EC5A6CCB7AC59E465146304C272453DCF897AC415A8895511F5D04C24080CE0A1C024815AF6FA0F21C7CD0C702BFAF7991D915DF9B7A57F513CBF0CBBE6E40854E42A603A6EA6524FB3F49C81D71C4CA27848F51A354BB35020008360201BAA7FA2D64D269A598E3919B1076B89B0C894D8CD63924EBA5B25A92B351A516C50686B2597828BDC894A08349CB0996B73B2FA0B98D0D39FD2C6952E1A60B69B1B8D41B5F6C002409C3BDD716C56586B7D440EAAF7821835A70E669F2B0558A4674FE52539A757B59F843B2C636EB44AA80CD502AA28063835CF90327B7C13C809696C0E4711CE152577517BE0A2FB3D597FA5804E0C106A4C10";
-        textByLine[x++] = "sk = 20BAAD201378DB4BAAF53B7FC750CADB1558F238A3C0D6B70027ADF29398B33A6860E084741669991A2C365BC2C1D53F48741D610A4BC93434707739336B1810F43D57743D5918B002CA40E8BC63D2D047994A7614C9793302193995C18AD19AF2A36721DCC32C64A0438778F3351BDB12A778DC6D9386234D82BC20469856A8BCDBA5B70AB22CAAF6758F29A4660261A45222AE069E5D5B7D5C835358190166C3CCBB7C46BA63A71F1628A41A69410505B68A8808D44E5B7840354739708B956A38501621242A7650521AAA7349B086A72135C6797EA4459380265DA9583B8742A040A87599C9D1083B76415FCCD9B83B25602EDA248864BBBC9B47C8B02176F7A3A2F6BEC1FAA53492846FFB340B825ED7298E807A8E721092498B37E881BFB44563D606274DF771A9E3C78D575865764972CB7C5871136CC990B508ADBA8ACDF672BE68927CA1D34FF7E45F70DAB80807981F82CA50F7177CF1CB70A27D68C60431DC7F4F026375DB70D5930206D3982EA32616B8B3393B524F4899A973272060B78D81962A6A21322ACEF9441F8D0754ED39370F9C03AFB39800042F3405958DD5B7B60209BD9CA6A5414C568C6AD4118ABEF52F12D192E57713DDBB49E3D34C2F3B5941F5B07F6A3EF799553D67ADF7E569FFD8949AA0A120398624B5387C3B8CF7A277BAA6410377BD88CB74D814388DA2CB8F96CEC82A486CA962721A532F455369F269E3098A2C15508E102B0BD79E8781489291451C8A2606A34EDF048C6CEA76ABA3B737C6B20427080788C2884B2782BC4229D2C14F0868F1DC7CCCD93277B012F2E731D0F0C03C330A944725DDF53E8EB76B64B7BDB833699082772F9062E1F28401A908AA8187BF160C87185F0C35975EE1CF93E8A3E0AB027C48750B59A4E2887ACE373CB34490277CC24A151122D2B326433F0691B09B3B004C21CAC1914052AA1BFDC7CD09B95FA71624CA399B7F430D5AE6ADA1EC55C28B9FBD19BE20A47AED181C816CBFA526599FB054B6A15C529791F8101C579B9EF554AA63E86805556933C15F19EBAA09EA2200EC053F00BBA05091EB4BA19D95539A620F09135FE651929F4B299DF28FD9943AE75A983B544E62305FB6711E780519B0794D9AF7B4ACB2BFF7C704418BC89C38A9E2B00FFD6854C6F41D38B204BFE220034213C066CB62F721E59521BB6BC039C19781FBB71A546AEEF31B90783695C47AE2812523F84F0F462B60F3BF77F2020E793813109D25332E966231A462CCC596A48CCC22677A904E35035EA10EC572B15AF3AE770ABD79C72A1DFB3A988952C925B461F092DAB51726E999BAB44806199716F425E21441CD82919787C629C90B6B1975E7B0844AE52DF6A5CC7D393ADA542F78952BE2B001979CA34563B390F712111A24FE33AB65265B70ECA7EECA275A993EA2793B0B08ADC56BA66D93AB1A65524BDB034A33A9E9F59B79F16AAF12C470A22105EA1E2CA042DDE1AC61A982ED40102968437D216CC6387989D652BD59A4D88B625056B40550092A506CB4B0532380B35DDC4D34318E33A797C696C12FA540DF4329268BA47C95368473C9A70B0A5B0A3360B73767F16D94E59C79B1C839B0AF93F3CC57323B9B815B94F6889CBA154FB0C6BFA11AB5FBA4F10C83405629B9C177CAD4307A7B0E72CA4F8C7BA5F292AFAD92C566ABB319124205554FB538C6A5C630A32655AD56BE818AAAADD546B1D04DF1121AC167BC09274379F0719F3056FEBAA36AAC0C926512D21530D5B9A8BA838F7A44656E868C915046EA818E19B06AFCEC6A14594E6A5574EEF2A937731F24994EF7DAB03E223C0FB0BEF2A2661703BACA090C50A20DA05A64BD764F1F1B5EC5A6CCB7AC59E465146304C272453DCF897AC415A8895511F5D04C24080CE0A1C024815AF6FA0F21C7CD0C702BFAF7991D915DF9B7A57F513CBF0CBBE6E40854E42A603A6EA6524FB3F49C81D71C4CA27848F51A354BB35020008360201BAA7FA2D64D269A598E3919B1076B89B0C894D8CD63924EBA5B25A92B351A516C50686B2597828BDC894A08349CB0996B73B2FA0B98D0D39FD2C6952E1A60B69B1B8D41B5F6C002409C3BDD716C56586B7D440EAAF7821835A70E669F2B0558A4674FE52539A757B59F843B2C636EB44AA80CD502AA28063835CF90327B7C13C809696C0E4711CE152577517BE0A2FB3D597FA5804E0C106A4C105C27FA929ADC826F98FBF0A7FDCE33C8F215B34E70450DA0767240741894FFA4E99C0E7B82BE89BC3C1EAEE6680AA4EFD394E40C2B3F30523C8117F7C26A8969";
-        textByLine[x++] = "ct = 1FD2CB3969FDB9664049C48FDFABF97F453FF12068C6ABA215BDC6EC87883DE5AD6B40495B5A3BDAD11AA9A552923B32CDD50C9E1FFF3451238259A61F8B493273C4E888C3168801004A3696697EDC489B6D4AE960E88B82A40BEFED8D7D66A0CF29515778AEACA21842E7ED0C5CDCB39A3597F64F1927AD8349DFC89A77956BB78CF2CBC4B85C5752EFEC780E0A6BE0675837D5B4690B6D4C835C2B189C6E555DF05EA9F5593707A4C50EF4527F054EF5788707C279DF298804EA60588B75D972DCF96CE6433C001DADF14A9D55B7F46DCB01C918479778A3781B81DB32B4456DF0EFDB7988638B0EED7EDDAB7F1C537C8DCCEB953446E1930D3834F9E2A806E707C82D1C7840B78AB077B6CBF5C5796F82C1A46CC0C19DF8EC3279A81C03655582F6174F0D4AB97CD2CE1609E0BEE01F1989DF072FE23FA7E8A607AFFDF15CA0A60F7D717B8B05705A7FAAE2DEE351908424992A3923532D5CAB621D63FD35F7A4EC0CC0D1BDFFB253E38823E8387D2C8E54D8669BEE89D15F8A8134FB02DBA217DF56E0B14CD3E52D88B67641DD2FB40AF353439654ED347E6E4E6AF045658D11D63935B78B784729560309765183FFBDD8564918BFF9032F8CE1A544B3897B652AC22C13016E7645ADEBD1A10BB64A336FA567CCB3468ABA26C539C79720455BC4F3460FD99A7E5DB94896EE3A25F077DF10E168DC8CB78ED033D461A0FB7053D67979D3147F0BB13AE9074A69ADFF97DA4A689714E7899F8F8B985143639CB42A3FEEE292C7837BDA22910764DC871672E8F95B61F120641ED7BE49D58C03687220621D0BF12FB6885CA51CBEBC325E2934B82DF3CAD0E124B11EB08046270A39FDA22E0E995EB390DF0BFCCC10384B80486E53891026F9328B897BDF3B85D53A3F60315AD91A9DD1363372EA111E73BDBF20BC32C613A545AC4BC3C2CF41C1FF4F9D72222B6C73BC8621720E50FFCEFEAD6910577508EA16C227E2922F5B5492F87943D328444C85ED4F6C4DB591E21516DA25ACDFFD65EB72F4FB8240CA5B6188997CA3AE5D0860635CD87120443B8DD66C30C251552DB6ACC437384B";
-        textByLine[x++] = "ss = 6662374CEA4EC0CCCB6B76CB75ABBE9FCF0A66A0E5BDA1A84832769FFD5804F9";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 79";
-        textByLine[x++] = "seed = 7F4A56EDA151E7B097CFB8EF980440FFF707AFFBA91867C89522CED6C5FF3BD7F5F00BB49DDD615D9361A7E4EFA42851";
-        textByLine[x++] = "pk = BDA121A1925EAE9139AF19594444A8953B824F4BA5CA44C07DF745FE911F5071975A5B4952C48DF7D431A821998FC84F064BBEE538569565BD0DB70087654203DBC0CC21BF4CBA678D1A093EA8B295789D52FB25F4D78D6986A0157145D054AFE73A90F25886780044D4B9A4E112259D4A83DCE439739A171F5A0FAB0736D6731988CA74A56580D3C11DC3B187CD688CF066710A1458A7431C7BD69FBFE67B3532386DDA99B9A08368D887414423D6C90CB69736A6A021C70A4C7E33BF3169AEBD7227F5FA7F11927B315A52EC3341AF239CB88B8137B509C7699B0A8578A4425A0DD535EADA924F872FCC719AA785A0E0045B03B24D0F5C1DC9B720A4717E0705CEDB88BCA8E29A76043A73A87C867223F487C6CD7598BFA4194FB584F4028150513F8692CF17AA5D1009756DB4B794F3C7C3D40253991923F098CD7680887935729C4A40A23DC20227CF18C86137482B574C5AB880EBC10C312C5EAAF15870AA4B51E59F70C35D356B11FC6ABE072A501BB61647694D6C02A731F13C32A27FA5314A5E641836E23BD6A28C2AE62DDD79039B9365B007110DC95760367CE6A8BC2A358D9EA04CFC302663CAAB8C710C9F199C2363C4627C14B6CB5C3D3A0D9A3281F07AA5D67029653B2C9AFA1375E343C197CAD3CAADFFC0076CE91DF0E21436CB368D9C2FF2CBA5691ACF472B4DF839785737842B378CF29567DB475622319328DC5388ACA633531272B2C164A4A98359B0E9813109640847A8605815A9DCF84531E09B6DDA2D1163CC19824BAF076F5EF39E67761622CB0BCEFC7430C07EF8B8BC84CA8F57131974E5A39244407D376FCE88C340030F33CA7C21E27F2CC06B443A12937B978E68A2465B70FE8917DA84700365A68AE526316C61FEA6B0E5A88813E5251F83BA394B0296475DC1C77878DB73EE4671E62BB66D50604EFC4A7A91B87DE178A617931F9406EC952CECAA8274D095C91062C0E0004093B3E6B36C9DB094CB16A34A33A5890A56E973A12AF859A7A2557235C50335C6418751952C1E3B3BB8B6490FAA78C81D84C724E979CC2B368963552F21518313849088B248DDD5D61BCB3F79106FB3F881087B21E528BDC627A8A1FDBB3B1FF5D83954F7";
-        textByLine[x++] = "sk = AD411082DC4CDADC6267B69F5D8B404583B112D27DE6970E12485A7B68BCA0E3132ED64ACE676C1E7C48D5EC98A60062757057BBA2358BF8128B9B918C456A3942906A0275B8B08435B7AD16090D388C428D4B41D61C4E5A3859E2A39A80E61DC4874F51073D02CBBAA08413FDC64639DA42D0529B7EB8B424951B9C879FE6656E3462CC13B7909C6471B77B878BB6006691B1C673C0DBB1435B166417555AE0347EE1CA245C049EB40B6C23CB34CEC026F3DA5C528001FAB341BB300C2BD159D6E302E9F7919A11CE539780B5DA3D3DB112144A385D1A5EB7725693D0AD5C7C9A2B899CD8EB1A04031AAEE25BBD624D251B865EFC7C303ACD18A4AA5C0538DCAB5522905CAAE913995BB0231195ACE17C47D05102C44D42287C4E60BF4E42568344B6E287BE650921AC55984C572550B9174EDC9EA39B228FD4B04371A233747F17A1CBE15145C34449239BA0B3B65355A23F22F26F132CCB281A484048486429258EC487352AA9C87031DAD59A806BC71D5CA7CE6311194669289795B9A3CC7A2C6BC756712CB4CB8092BA75430E9AB96ACD624F480BBDF515B423134044B6A543F708167A7F6A307A32629B0D8903B97C1394059CD511C2DF6BBEFB9C81C3AC7D15B05379E214AAD30F7C4BCAAD99C21E3B00B44022093110C001D04716C5AACCA8812B73213C5AD4B473FD5A555756B18BDC02094AB27359037D6A67509271CBC82D3619633F900E5959756BB63FFEBA3AB51C1161AB6CC8F47BB30A7849C674C6FA58730BB70A2C6333698761503889A652E5381C6A160407682738D0BA8DA898885BB02093BC44E04BC5EB71861790138340FF909549596303E3772D287C77002FB441A72D543DA9376206B3802F51AA72009233E69FA3C256FED0B182717299B67DCDF2AE46B8B95A08526429BC5AD5CFAFF9898A978855882AE5147AF390762AE335936C17DE1C58262AC11329A007AA3C0F9A7B95DB13C5E24874147AE010092FBA13729877D18832C56C71AB9A5D6A2A9B6DA5C2B59A20499708382A160AA87BC6F3B4C53AB0558A26DA0B81A239472F1941CB5495DDB003070504BDA121A1925EAE9139AF19594444A8953B824F4BA5CA44C07DF745FE911F5071975A5B4952C48DF7D431A821998FC84F064BBEE538569565BD0DB70087654203DBC0CC21BF4CBA678D1A093EA8B295789D52FB25F4D78D6986A0157145D054AFE73A90F25886780044D4B9A4E112259D4A83DCE439739A171F5A0FAB0736D6731988CA74A56580D3C11DC3B187CD688CF066710A1458A7431C7BD69FBFE67B3532386DDA99B9A08368D887414423D6C90CB69736A6A021C70A4C7E33BF3169AEBD7227F5FA7F11927B315A52EC3341AF239CB88B8137B509C7699B0A8578A4425A0DD535EADA924F872FCC719AA785A0E0045B03B24D0F5C1DC9B720A4717E0705CEDB88BCA8E29A76043A73A87C867223F487C6CD7598BFA4194FB584F4028150513F8692CF17AA5D1009756DB4B794F3C7C3D40253991923F098CD7680887935729C4A40A23DC20227CF18C86137482B574C5AB880EBC10C312C5EAAF15870AA4B51E59F70C35D356B11FC6ABE072A501BB61647694D6C02A731F13C32A27FA5314A5E641836E23BD6A28C2AE62DDD79039B9365B007110DC95760367CE6A8BC2A358D9EA04CFC302663CAAB8C710C9F199C2363C4627C14B6CB5C3D3A0D9A3281F07AA5D67029653B2C9AFA1375E343C197CAD3CAADFFC0076CE91DF0E21436CB368D9C2FF2CBA5691ACF472B4DF839785737842B378CF29567DB475622319328DC5388ACA633531272B2C164A4A98359B0E9813109640847A8605815A9DCF84531E09B6DDA2D1163CC19824BAF076F5EF39E67761622CB0BCEFC7430C07EF8B8BC84CA8F57131974E5A39244407D376FCE88C340030F33CA7C21E27F2CC06B443A12937B978E68A2465B70FE8917DA84700365A68AE526316C61FEA6B0E5A88813E5251F83BA394B0296475DC1C77878DB73EE4671E62BB66D50604EFC4A7A91B87DE178A617931F9406EC952CECAA8274D095C91062C0E0004093B3E6B36C9DB094CB16A34A33A5890A56E973A12AF859A7A2557235C50335C6418751952C1E3B3BB8B6490FAA78C81D84C724E979CC2B368963552F21518313849088B248DDD5D61BCB3F79106FB3F881087B21E528BDC627A8A1FDBB3B1FF5D83954F7DD8AA653122EB5E3A4C3C877E95E8ECFCFEF1AC9E0E6AF92CCE8EE89D09188FA9C35D165453E5FCDC6F9DF64526D9DE698F2BD3E6BAC6C7FDD86601B9BA5F4A5";
-        textByLine[x++] = "ct = B1077807DAB72ADBB0A35AD53CB9BC36BDA99ACC5B97E5DC3E148982260FACA274D77A248F642F561E891108BD87F8FCB976ABAD80F4A0EE38DEFF622B86D9C512FC6F491AAA3DDFA51E1F3E87CDD4FF8C8DB02CB81134A4D722FB2728F3C9BF3EA5CC8AC6FB5DBC74955ED308A6ED84632963EEBFB077B35846F05049CFACB699A36200FA8EB3A93B20D628FEAD9BE9AB43462D0DE2347AD0AD670003974E819737C9B6D71B9DD63C4975902EB231C1E835DC942AF38DFB757D1603DF90D23BC029DB69F2DD11D1FE3DE6BBFAA93BA5C73885C428FA3372302394244C67275F345DE77F715FF66887110B5B067ECCEF428B5257943138C09A5A690182F135FD66AED0FCCC26099BF584FD1B560B136B687843A249D756BD0373CE4C2EF2DEB189A1FAB6CEC1E6712129C3C90D6D8F047A17D7219E63594F956C5FD5EFCBBB647610B8E213DF13B118D61EF308A2B5A4EE6F6C223667E8BF63EDED5BCA89F6E62EBC8A7D7E2CB042EDE63642B2A1AD6BF9EC0F44DE7F2503FF37E2B821F512926E25F79AC6D2429D3F4E5CBF86C56BE4F2BA4545D4EE8EDF5148ADEB338E0F76F8C78A81CF14346B10D25C07F3EF60250B3187FE249AC57CA67C7B7BA810AAD2AB6FF00C6BB3F5021E88551737100144992F1F14838285BB9428AB443AEB2F740D294B422AA508E31E29657B3493EE8A71799C1309E0C39FB926144EC1A536B9F4705DD8029433D433A467EBCDF68E0A06B191A4CC8C5B56FF38B1F9FE4EEF460621B190980C858254BC0331C64173E19A1FF0443642F2B2B89A29B0FC3B243BE416DA5AA6D2A7D8AB79C9E1A747894819924D0BFDB5A43D76978B177CDB97216C21A0234082E1B0FEEC84E8A30A7AFE3B0A3A9D67D65B54CEA4DE821F9B2AE0EAAAAF2A96C904B0D16D4EA8AF38A90BC9860D2660F446C56EDD238A75FABFDA8FC57D975A53A4C2EDB2A567BF7B68243510463ABC207AAF62B3A20A53C4AB4C8E415F8DEDF7E576839BD317334D99A3611677A5DB0543108BE5C6C5EA9A27350DEA7F06DCDEB49957A49C2316047E08DB435E99DC9717A0227F24EAD74A1CA7";
-        textByLine[x++] = "ss = 41109E0D793D6E7BBA39C5BAE4CF180BD65BEF2D045C516B905CBD5DD8079B5F";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 80";
-        textByLine[x++] = "seed = 09FC004519BCF85B20D25D314A0DFC79E00CB6262A7DDDF9C52473641AFB8CFA0F5DD5F53558184CAAE9EC34B459E98E";
-        textByLine[x++] = "pk = 5581CFBB9262BE71C820B270D635C0002BBC92E596F5CC0B5CFC114BB2267640308B495C33314B8D208015888159C02831A062D7967691C64B0764966762C2C28666CC1119B4BC8541F016945C200DE76F6F5A83605ACE8DCA54585A5F115434D70094FD540AAE769450AAA7AF961CD96239D624082AE6A494A000950747188236A3B9B170A597CAE821B6D74D7D00C42AD89A31B0383665B4DAF70A95885530E315FD75888E76C1113C0B43F80B951A626C5C59706138567AA786CCB7966840C7ACC5E70C029FB38F9BD3B9ECD9B11291C808B44803C06F2241AFC703834A125474AC3A926A1E24A0856FC27ECAB603F0A82C53F94DCD8797EE25CE4F1635E2B18706032191C7834651C1BDB21EA8630884AAC48EF3287093A95F7291E9D3BAFD94574A41823F2C7F5600C6BFE237E09158E848B59F1702E1B924D47CC64F7B24BEB41C3184980E5CB9B2DB75BBFAB454557C479B5B2566577BF63EA959856BDA063A3545F0CC8284E40BFA4B99D2094727F8CF006957FCC432C058685072A5653434A92B9AB4211343F063FD44572A23829AA8B19E16A7121B1F2352813D492FD91C834EB5A8E5498CF7FC76874A3EF8B926C0D29F3062588163A24C5976BF48797B694FD9B964B1CBBDF62A23A941C99FC986710A0CF2530F11F84914A916C6F704D879AB4CD3AA51F7C078006ECA60A1B53075EC71C11CE0B6D8F9769F9549C2D7A690DC07F79396BB2CBE2E0CA72436879B0C8878D0A9EB9387C5759B1591C5339662009D449184690D717A8A768F0CE3056E477A9DC822B5FA466C0A85B3A0256A61B3D0E433CCBB6A9254222FB779CCE1273CCCAF7C51760E260E2F566B487B8DDED9049E037290D102E03019C8C0B2983687D37C880A17484337A66467ABEE2B5C8340534EC6017A660344083C7EC21A729C754F3CABD2218DC2F200F48A3B67A07B7D86B072E4553BE45CB50A2B424C07719878D4A84AD2D33453B783AD117577F41D6EE58CE4326C4C893711D66C94D6ACA65C980A545B5521026A42318CD72E7F7129C60B652EA49B2DC075833C3AC3E7CC094618F003B26421BD82EA6A76CB62D3AD7357CC617D597A3DBBDF515F6852D71220768859D599BBAA";
-        textByLine[x++] = "sk = 58C8C996E892FFE562F9AA44F4CA31EF7C174CB24D20C683518C1361E68CA476345F19612C872FDC3307FB876096C96F5E714A5FE794B9DCA87534C2E91B167B555AA9B95005C85B9584AA33F09B87B6A8620441F1228B551A29EA8788C26C33DEB97FC98AA078D5CEE62C5FF45B0417B8358AA55408140F89E611FC641F8010AB30C08A6E789B492CCE5006C3CE45434912BDAC595E4EB91B4AC820E930C4D4DB33A736049F53758BDAAB51302FCF0C371DDBA37B808CC2830E7FA5605F77250E9A9A2F8819505C035C26B8B6498D28DCB77F0742CD8695591A176D059775C4AF51F43EA9935672F42A1419A5EBFB8F1681CB9087613DB276695562CC62C3F2439A9AA980A56371BC64B22E16B3E01790A202BD0E48AFDDB50E8C7783527C162FA838A2F32A8E153B4647BDC490A81A494967849A4C814DB1582429D296E96BB18C8B294CF05EEEB4AAEDD84AAA0B97E3E1B5276C4B7AB8746A717E2BB0B8F433B85F8580CF884689E4AFACC61F32587D5A1356D402483AE96F6FF332FAF02D61A7A76D3A1171E9721BA801A98127F82314CEE599AB1C52EA948013300AE6B576C80979EC4040380394AC95B420A5C562077758714ACD91BC1DF8BBBCA1768FBA4B2B349C64504B70089E7EB820615119068B7665C2C5E5DA56032CB75ED159EEFA3D99A764DEB9453A44201910438D0B1A2DFB4D8E7ACAD1F9ABB9B2720D58B72FE18417200AC289369E019F9C9C1E60262407BC8C3A8478DB446DF952B10083A6A2B4228D482003228A44FA6A71E1255108954311C6FE281CDA968551829AB7794893FB715AD90A022B51907C60CCF5156C485F50005B87E9B219C18EF83883631536323A1E7F9B4DB6720C4E311ACE289E20BA404037663650AEEFC8A07119A9C11A67D91CC0447C4E38F68D828C430A75859DB93B57F5C49566931F62B3E5E88E211C0FF0BA03B6B8B7645360243AA3B51C2514C923E4151516D019010AAFE51A91AC78695A4A4FEC6B754BD30BC27B664816C1D7EB35C2BC5CADFA7B764A1FFB5B48B84402BA5141FA8154E5160648177F210059FE8763FAD15FBC43195581CFBB9262BE71C820B270D635C0002BBC92E596F5CC0B5CFC114BB2267640308B495C33314B8D208015888159C02831A062D7967691C64B0764966762C2C28666CC1119B4BC8541F016945C200DE76F6F5A83605ACE8DCA54585A5F115434D70094FD540AAE769450AAA7AF961CD96239D624082AE6A494A000950747188236A3B9B170A597CAE821B6D74D7D00C42AD89A31B0383665B4DAF70A95885530E315FD75888E76C1113C0B43F80B951A626C5C59706138567AA786CCB7966840C7ACC5E70C029FB38F9BD3B9ECD9B11291C808B44803C06F2241AFC703834A125474AC3A926A1E24A0856FC27ECAB603F0A82C53F94DCD8797EE25CE4F1635E2B18706032191C7834651C1BDB21EA8630884AAC48EF3287093A95F7291E9D3BAFD94574A41823F2C7F5600C6BFE237E09158E848B59F1702E1B924D47CC64F7B24BEB41C3184980E5CB9B2DB75BBFAB454557C479B5B2566577BF63EA959856BDA063A3545F0CC8284E40BFA4B99D2094727F8CF006957FCC432C058685072A5653434A92B9AB4211343F063FD44572A23829AA8B19E16A7121B1F2352813D492FD91C834EB5A8E5498CF7FC76874A3EF8B926C0D29F3062588163A24C5976BF48797B694FD9B964B1CBBDF62A23A941C99FC986710A0CF2530F11F84914A916C6F704D879AB4CD3AA51F7C078006ECA60A1B53075EC71C11CE0B6D8F9769F9549C2D7A690DC07F79396BB2CBE2E0CA72436879B0C8878D0A9EB9387C5759B1591C5339662009D449184690D717A8A768F0CE3056E477A9DC822B5FA466C0A85B3A0256A61B3D0E433CCBB6A9254222FB779CCE1273CCCAF7C51760E260E2F566B487B8DDED9049E037290D102E03019C8C0B2983687D37C880A17484337A66467ABEE2B5C8340534EC6017A660344083C7EC21A729C754F3CABD2218DC2F200F48A3B67A07B7D86B072E4553BE45CB50A2B424C07719878D4A84AD2D33453B783AD117577F41D6EE58CE4326C4C893711D66C94D6ACA65C980A545B5521026A42318CD72E7F7129C60B652EA49B2DC075833C3AC3E7CC094618F003B26421BD82EA6A76CB62D3AD7357CC617D597A3DBBDF515F6852D71220768859D599BBAAB7C80E434104E9838CB08529592A5F81B0E8EAD186663DB8FACC569B09E75C9A5FE6141A25F7AB9F875F79E0A82D6EA5CDE5A017AB637D5FDB7C42646A1D71DF";
-        textByLine[x++] = "ct = 1D24E3016E2539AE557AE3E50DE36C1733DC2F62E3A37171C5B86EB8AACD571020452797D6471EABC78B8EFBBD69897374495D3C934731860DAC58294A3986B6A62EB8029C1F6128C075D88634AC9B4CAF3B5E8D7C2EAAD0E0A0CCA0C337DEAB3EC2CF767ABE4FE7C307A1D135A9F2AB0983D3CC97C9F4AB4C4A9C6888326FEDAC007D49B7C5361095B1732C3F42412D0A6C5C3A2365F94EC678C843A37411F88B1A72B1F8F3AFC9D8B03121C23ABE26E8D10DAC81939F61C2C100AD4340CE662B1094DBB5B1F3FB84419CD3DCF3D0333A881D8E7A8C70B32179FFCC9F51F20E1DD1403589D1AD02642548CCF6DB6DDD7E490089C5B0F5CBFD04D5976D45C1C2426621D7FE6CCF310945C13344008EF729123B0A0FA66140B79D528FF924E30D608923B4EE3C0F915D12F77201BEA557AAD0586D2931560CAB7976923C2CD1CEE79D184A4BBD1988401BFC5CAFB32F16DA33B2891298306D5FDFCAEDE5CEEBB628EA2DA95B75B6E1DA47C3DA5D81F8971644E3C3D6F42BAF2DBD6B77654472EC2EBD5A2E03BBC12FC0E1A1C9F0DA2EF7E562B98B61C174D40C51A5B289D361CD38FEE5F3C198EF0ACE204C6F032F6C8EAC8309F660B9F9D69A085FE2790F8BEA1AD4F5E457FBB31046F396541BC3EF819289E412EEF6151ADBF82BDF257DA699F11238EE7DCFF9B631AEA66028229C086408ACAA1A9C597AF05E319317F825A61C8F03249667BC49017B66E5F5F0BB538EC9C210A9F9F0D1171621A2DD94C31B1B7C9233CD5848D71F82C9EF3F786FF3892D978CA3484CF48A8201AAEAF508A83D702BAAC8517B8BE187EF5F884699935BB491AFDE8F6E858F3FBF941B8518C0B75B11EBBEA4415596A126DB6CA70665461D95018FDAC4F914CAA4A377C25ED4DEC1C424C32D19576BB0F0B8BE8AD331D86FD636F61170BBF6B973178749D527E1B73E65BC35BDC72DA60B85A0B1C5E3E23111168B8D5CC39796A3D31300BB94C3199C5DB3F61050A13C960A9B5CC67B2159D2B18DBB9484A2681D702E2321591E7A8D5D00239FB55DC0C7115790229034FEC0B1A1A15F7C8A2B7887242610FA";
-        textByLine[x++] = "ss = D8007499F94463B8A804BE5BD1B3F529CDD134B568F07F646B96CCDF5EDCE5C9";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 81";
-        textByLine[x++] = "seed = E3C41CCA6F04CFE7732FD54DE30CC5CAAC93E2F80E76AED7D24A962A3969C1B6A311459A3EC3E510E3E9B1E4291D4D7D";
-        textByLine[x++] = "pk = 6845671057A2E8E3B4C8A70E757C8B424552B1B79F18EB72A64334FFC70B2B07203ED0870F6630733C26DAF928DEC6BEF96A92064A738B1BC57C10C965D1740B313E5ADC7C283674319C89ED38B7224B97804A5566593E15C9404CA582A58B869A485C0FB72F0CABA15C00595AF1B0EFF68479DAA985E79A0C5734987A34847215BE37729BA51BBB1311F6F0800A37670D3A2F55023E88A019FB068382902A5D94A8FCA972DD291178E039F8D2CA22936896C68976CA2309838416108888F13916089556A277E6958352484F231703D120922D103D6B2BADB528A2EAC86E174186B3278D7F480EC2195006F36583CC91C1288894759807692F15C22B9FA61AB1E587F6F958A5358BD8CB3EDD49AE6906AAA7B74F2C2883A0AA1F182357104230349A0C21930F5FC760B821A07AA38B021123B9160D49B2438ECA5EC5ACA812F96CD7574A0761CB17EB9B71236B19A88D6BCC7E4A0751AF543A151417D55093F6530543C678E19C330C63C371F84EE2D07D5A76AC273703B8166E889286DA5C5055961084265F2E5817879713D74186FDF56793EC6C8DBBB4DD75196AAC4318AA4F773BCF462586566C3C6E980731E7B8273A21C1E4ADADF99D4F0C71F8DB3F6B28739466C570EA5A548A4D6ED768EA5026B61AA1698279191B69C39B53183C2745A7C251F48D26812EB4764D9196A18AF28D91C54035FC149112BA7EEC9DF4421121AA6132E7069072A59A8739535C9C76959F8138112D7348C9030B60038A66BAC005E38BE1449E3B961850C1853450B33D680CBC2A586EF37E323891DECCB16BC52EAB1B7A6FA13205D38963ACC148435CFB72803D6054A18C0DE3A217037A257E157A59F8A968D250AA1BAF88935DC54272BB5950303AC68495956689238BD2B595D7CD42749AE1B38097EA7FF90600056B5FF674A4C02B26ACA5CAB4379F0864A24FB14F24E274ED640AE6D692ADCB3FE2541B9851BA35893967D39531B0C163D5B7F131CDA1976E405029614399B7EA6CAD628AC5245AB7552FA4D2ACB10AA7FE2A91081707C327CF88192D904287C47014A4C51766837A8A39885F09CAD717408E0934FDE42A5E1CBF04C80F37D7DFC7EB53A785194C4A1232E61C37A5";
-        textByLine[x++] = "sk = 8DC7329AF7A016354818974B6814C962E91E268C24FFC843CED150D4593C4C586EFBD608C8517E6F7C520B59133A81C6214BAED3A8304220999E30B00241244E9ABBC2A4B70D2B042C36843402255E1307BE53B7DDF52621CCAAC4C266D02ABABA0B6567A76E2482887D6B729558A70C6931805A8D8C3739DD95C06A33B42E67C45E19AAF4D859151B75B78B5419F867C4B74DD6BA9F54F533DD51585ED89EB6A22BE8757D2915752A14420D99B20D033D4840AD2E83BE1207A4FD3020A38AA9E0125D9ED36BA6058551976E5BB27A170AA071B46BD98B7C4C438FCD904D366406A45589AF938532135ADC2C790E759A1B0713FCE38888D626599A7061B6CDD0856C5404B042D73AEDA2A613D51852D5526496217FFC4030D8B1D521CC5C3B47A8F513E2688D794A15EF90B7B2C5A213E76A5F652A0D4659444A1170BB3762F55AE46207CB5A015298610023B16D01624845205956CE413C217FEA95DC939829434AFAC49172F5BD6CA5BD1DCBC2C3E94D4A8AC0C7F051F71B53501B8ABF676A4C372491C39E5B83492734356BDBBF6EE8AC98FB765AE4A5B26B33C2D09D0ACCB0C8A3412418A30198B014D62D16ECABEB863FB037575D06B43E33CD0D857152424D9E2C3E4968CBA3CB978A9B180D539B7D061FEC9095E77817E93B2B3B189EBB7CBC04E4A0862547B1A9270BB4A089A957BF3C439777114552993CE67520567259B7A48DD8534C83BB6F442D652543AC9143F6450908F3CAB1C47E92C83077815F5D85891F10A04F0C0CBB0CBAD8261A0ED014F09AC33A9A87C5729C7067678C7887787AB7EC7A2A775074C4EA58219C10EEB253A1695D20612BA7A8A68C5719F532CF78B1977E177A0BF4AE76328D7230AC51341F7F4B866E926FD3F44996F3A14AF4CCEF25296A67A8B71356C2DC6688B9781EFC092FDA400050910505C7193003DE4609842BA365842EB4E19D01FA514322A9915C98BE0B48F42B107AFAA383351DDFA57F6042BD1C9BC3E47A253AC21B3002004F72A3AFB176C7EB9B106C561BE17C4375C40B231524B95375B27982970F123B4CBAE78FAD99C6E6F12A6845671057A2E8E3B4C8A70E757C8B424552B1B79F18EB72A64334FFC70B2B07203ED0870F6630733C26DAF928DEC6BEF96A92064A738B1BC57C10C965D1740B313E5ADC7C283674319C89ED38B7224B97804A5566593E15C9404CA582A58B869A485C0FB72F0CABA15C00595AF1B0EFF68479DAA985E79A0C5734987A34847215BE37729BA51BBB1311F6F0800A37670D3A2F55023E88A019FB068382902A5D94A8FCA972DD291178E039F8D2CA22936896C68976CA2309838416108888F13916089556A277E6958352484F231703D120922D103D6B2BADB528A2EAC86E174186B3278D7F480EC2195006F36583CC91C1288894759807692F15C22B9FA61AB1E587F6F958A5358BD8CB3EDD49AE6906AAA7B74F2C2883A0AA1F182357104230349A0C21930F5FC760B821A07AA38B021123B9160D49B2438ECA5EC5ACA812F96CD7574A0761CB17EB9B71236B19A88D6BCC7E4A0751AF543A151417D55093F6530543C678E19C330C63C371F84EE2D07D5A76AC273703B8166E889286DA5C5055961084265F2E5817879713D74186FDF56793EC6C8DBBB4DD75196AAC4318AA4F773BCF462586566C3C6E980731E7B8273A21C1E4ADADF99D4F0C71F8DB3F6B28739466C570EA5A548A4D6ED768EA5026B61AA1698279191B69C39B53183C2745A7C251F48D26812EB4764D9196A18AF28D91C54035FC149112BA7EEC9DF4421121AA6132E7069072A59A8739535C9C76959F8138112D7348C9030B60038A66BAC005E38BE1449E3B961850C1853450B33D680CBC2A586EF37E323891DECCB16BC52EAB1B7A6FA13205D38963ACC148435CFB72803D6054A18C0DE3A217037A257E157A59F8A968D250AA1BAF88935DC54272BB5950303AC68495956689238BD2B595D7CD42749AE1B38097EA7FF90600056B5FF674A4C02B26ACA5CAB4379F0864A24FB14F24E274ED640AE6D692ADCB3FE2541B9851BA35893967D39531B0C163D5B7F131CDA1976E405029614399B7EA6CAD628AC5245AB7552FA4D2ACB10AA7FE2A91081707C327CF88192D904287C47014A4C51766837A8A39885F09CAD717408E0934FDE42A5E1CBF04C80F37D7DFC7EB53A785194C4A1232E61C37A5E619285C692532735F1582D227B9A9E77B1EAE4AAB9EAA79F6CE7AC2FCAC831811EAFECA9E810796C34E8CFCE9D59342884456007B01DDD12EDCE6D10ED87E4C";
-        textByLine[x++] = "ct = 0CBDAE3FED1447BCDEDFC9395ED4969DFB5FA3BCA51369CD73AF29812F8B8CDDCA2D8FB7AA4089E15F8D6B11FD06F5D712BCAB231CBEFAA888EE99AB768D4F441AD0680E38AD587B5A94476149432B4DB814B4E8056CDD8C6C2B1E6AE7CF1DD64C044C9A29CFF13BDD899DA5884F6268B598B90E25A71F81BA27D3EA64A9762C5FE64F77F5452C30729654059485AC01060448D27C6412B45CC6CF827D750D9E4C282E3DBC78076E2AB89D2647F93F080A5654F56006C159FC670A08D6BC3824D682BB199B1E45C02A9B6226838B786582E72D2A0030C9B17D2D6ABDD05C9957395906C3746BA16FE77B2CD23D9CD23991F61A303BF1003B782B31EC7127B1A1FA0C1559D85AE2A5228AB9EA52AC0BA3084B3E12A935BD4E0C4306CAD3F3564D413FB6A55BD7F4AB8B6D7CFB3D59FECDAB0F01019C7AE3F1E53C900D5AB59AE7BB4B1838B2BEDDD581CF341320585A3BA0832FFA5737773463A6126BE2D8A184E9FA0BCBB13F73EAE2D8A8EED6ABB563EF5171D9F926EF1E090DAE318DDCDFE3E8C71C5FB57FBA0718B321EF28D6B254D567C5DC63BD1F6D3A0F6865AC3FFAC07DAD9764145F4CFC2CEDBEB0176CFF7492840F00C3A156C6D7AB5E344A710E0AF1C2E61CCDA2AE6C6E7C31AF5EE42459D34CE07230F073DD41F5A8DF3ACD53134009C0BE09C263996229BFCF558FF924F370F6CDB85FC0FCD0413490F8A86754C96E31F55CE3C57117EDDE1047D0BC3FDBC095E3BD5FE8422062802EAF372286DFA871ED9BE3C41BDADC49DBEC9E731A96E8A33794218FAA7CB9B2BD0A7D2F921B31BFC3A6BEF742856E5DEF613EA45D2C7F9D41E2AB9885573C53961A2EE387B4DBD61C40068CC156C29B33D39F1CADBBEF28E62C73B70AD645BFBD4683332F9EDFB8E6D97099EC53A77A13A5E154765DCC77920916A09C66FBDCCCAA96C794C35A000CB618A41B1479C9996264476E18F74FE0FAF7D4108CED3F61100E67D07FB19B0FEF1B69742E268FAEE1CE730FFE923CADA4239F785B6CCE7B9AA2554A9D700A86710E5F1EBF6998D8EA8E74531F0879A55442A7AE28A7660C101E54D6";
-        textByLine[x++] = "ss = 52739EE9DE88E8AED33B910C0F65091785FA0076EBC97E4FDE190BEDD6B369F9";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 82";
-        textByLine[x++] = "seed = 373FDDE922CFC416ED96B444E445BDD0962E8989F6C50ADF9912A89937C57217D3600B06C95440448E3F601AE69CA5BE";
-        textByLine[x++] = "pk = 781451EC9A7EFAF8639EA457C023088684A91CF779FA465940E25955D47A2DF9782838648350BE44899B198A706C6B5763C2A170C8C5F87B2F9A7B6AF7CB48EFE386C28C7B0B19A808F24E3E2B6B212A3B8B9A19F6C47D484893ED89CFD3F678207630C3844E969C967EBA8926461A58826EFF42BEAE5339C620607A704F91F1B056FA06910746C7E002BC617ECC64ADD1090FF1D1AFAAC53A40487B83E9453E6728CF352415A930079ABB7E5115BC0745290C706420853D080377E921B5723047C22CFA289D2DF186B1908A7BF471E5877FE23B30028A34F3FB27E726B99BA827D347C62997314E39A0F4B2B1E9163F53654E056AAAB4718609983BB674A47642A81B000CA7422D3E361AF12461B8620064547DFB578959B18BD1B61014D20315A659A5CA65F9CB4EE214B0D123113E34310C56BBD99737F0305F6F3B49F688610A777EDD4A3A482163E6CB2C64668FC3AA024D789219078B49471BE7DC4395346E7F87C5B150C1E7E30B9D2A435E7C3A32F7C4D33622D7B73CDDA989AED858FE4C7E9CB163F35679B84B01096A1E2C3897C290CAA996CCB3943E22F789D3C5098AA1A6F117347E0725C358670D678C51A0A9D5F66AAA6923A895CC5FE5C9530B069397A0E4482438E713290C62A94771F7168212A7CDA8E2139D573A9AB0137443180C213B78A1B5B291A0F1566316857A72A521C2B79C660792ACFC0F5A788962A6AE74E87C48A8010DD6436672817A00B49862721702668FF29F1077A87A96CC27038E0A2752A0D196CB17BABC25B2996054D61C68C691C93A6520A97392830A8F157940FA903E75F909BC9691B86391EBE3611E04C9E0678C189B7875D373F0B25B9FE0A9B063CDD4446AB9AA6B23E6BA6C324CAC29736447529C76C3398218152607AA5488A5E7B243A0920984B06DFBCC410679AC035FF824768168C758689D0B326831F5C10220C10911540C5B7F9A3510D73CC1153A2FC2A84B8A08CFD7F863E6C93E05F05A39DA58CFB57DCE98CBF1B7AB960BB14A9B86DC611045D1730F3B82E5EBA970018BD2CC4A6FECC9A7F3CA3753B12EE64A7349AB922085C91E7EFD93A5D7DB1850127DF85B8F086DFC57F1F62A86D6EE7E45AFF3F27BC1";
-        textByLine[x++] = "sk = 259193F271825609668F04A250F64B599315C8264BF3104C1B23A4ADEA1689C16618F20DEEACB02DC4CB3DBC816E8712F1192F94C7C0BC2C0F468C2243DAB1F351269744701904ADF53C3E50FB87E65C4ABE161D15759BEF01CA78586A6FE64287DC392B94B6FE5B110895402AA843ABE89DE0689A1674B2B8E29E6BD232DD728CA4447546D2BF29003EE47331D5E1362CC380B6AA0D777A2EF6F38AA295100FCA1913E1BDF2BB630C4AA3FF809A9144CBA1717F1730AFD1D1439998A8BC82C2319C0D46FAB3BFA147B9D691D94CC75DE0A212009D7FAB51A5F216E7AA67336243B2B311CD3638A8C0BD9FF8A6EF699C08374A705AB4718256D476AF2EC008E10267767C3548D42E25688DB2C8A3DD0874BC34B55637239FD55E2B855CBD431F3A575812C54D57CA19D6E075C5837C8345323657C9CD8B53AEB8A9566A92B12C45AAE7958B2920F1574C1E34724E8009D8219B7EBA2A0999360E372044E6BC5BB6C658998D307A9AE5D18928E26473E66FE2FA74A6D48CFF0834DE15B21B11929E4AAECD922803085B78F5551F86C58C560FE639A2C35BCC31271E11FA14D739185C8B062CAC95F1A34D6A2B9461A9BF766C140F80BAAD13BE13038844604AF313BE2006CF79D12F6456C760444A0399562D8220E2496C84D9953779275C808856718F5D3A3908652440700224B0039D6B9ABCA5A7A1403FC823179E6C0E8784CF86055627B973685CB2AB74B40E85A436C7B66A7453DACB36AF915FB934054CFBC36762C17DE28B48F5B27A92AD4DD4B8BAA16B37A56863BCCA1C0505001C45FDEC718624A7F6207EC03635EDC7C0C793C42E1A7F167A6AECB2A912418C0FF09B771C82E7736B08A09BF54933FAE3BF34A593F2D19D90473E499971E214C963B11B427A7AED96B9413BA1FB487045B7359C9510BAF04062A907F0A0B8B088BBD0AAC738423C5F077EE8DA99C0B8166792C63574CB2A5C05F2460B84540A1280A41AA5432CE7445E4AA1D55893A9F1459E6B7811111A1FD98640B35C984503410443F7DC8739D757F4F00D69B3A7DD90845F225932307BC2C92D52EA846BD826781451EC9A7EFAF8639EA457C023088684A91CF779FA465940E25955D47A2DF9782838648350BE44899B198A706C6B5763C2A170C8C5F87B2F9A7B6AF7CB48EFE386C28C7B0B19A808F24E3E2B6B212A3B8B9A19F6C47D484893ED89CFD3F678207630C3844E969C967EBA8926461A58826EFF42BEAE5339C620607A704F91F1B056FA06910746C7E002BC617ECC64ADD1090FF1D1AFAAC53A40487B83E9453E6728CF352415A930079ABB7E5115BC0745290C706420853D080377E921B5723047C22CFA289D2DF186B1908A7BF471E5877FE23B30028A34F3FB27E726B99BA827D347C62997314E39A0F4B2B1E9163F53654E056AAAB4718609983BB674A47642A81B000CA7422D3E361AF12461B8620064547DFB578959B18BD1B61014D20315A659A5CA65F9CB4EE214B0D123113E34310C56BBD99737F0305F6F3B49F688610A777EDD4A3A482163E6CB2C64668FC3AA024D789219078B49471BE7DC4395346E7F87C5B150C1E7E30B9D2A435E7C3A32F7C4D33622D7B73CDDA989AED858FE4C7E9CB163F35679B84B01096A1E2C3897C290CAA996CCB3943E22F789D3C5098AA1A6F117347E0725C358670D678C51A0A9D5F66AAA6923A895CC5FE5C9530B069397A0E4482438E713290C62A94771F7168212A7CDA8E2139D573A9AB0137443180C213B78A1B5B291A0F1566316857A72A521C2B79C660792ACFC0F5A788962A6AE74E87C48A8010DD6436672817A00B49862721702668FF29F1077A87A96CC27038E0A2752A0D196CB17BABC25B2996054D61C68C691C93A6520A97392830A8F157940FA903E75F909BC9691B86391EBE3611E04C9E0678C189B7875D373F0B25B9FE0A9B063CDD4446AB9AA6B23E6BA6C324CAC29736447529C76C3398218152607AA5488A5E7B243A0920984B06DFBCC410679AC035FF824768168C758689D0B326831F5C10220C10911540C5B7F9A3510D73CC1153A2FC2A84B8A08CFD7F863E6C93E05F05A39DA58CFB57DCE98CBF1B7AB960BB14A9B86DC611045D1730F3B82E5EBA970018BD2CC4A6FECC9A7F3CA3753B12EE64A7349AB922085C91E7EFD93A5D7DB1850127DF85B8F086DFC57F1F62A86D6EE7E45AFF3F27BC1DD3761C0E96678A959F30997E96D6A59858528C5E10234398E2DA2E50FFCC51711136E2681DF2EF881B51A092A9BADBE72C9772C169808521C47149578621E28";
-        textByLine[x++] = "ct = B8DC7671A617C8C189CC1293EBB5835D4051EC2C34F1D920786EC47B0A129DCAC0F7BDA3CD08EB30596824AA02BFB06678C005377D6DB379D5E18775152C35B6FA6A76916447206348EC33D169B36BB327E5039B8949F378853B47F5CAB6C5CBC8B3E36427F8EE0271ED7BDB4B7699C2E6EA810CAEA486E95160C54D3C6A6A9B33B3820377FA4A0303829257C2D173BE12A31FF5C5747286D8360BEB1BC3D92BC8CEC52506B3E5E4AE70B613A75CCA822B092F4E36577E114EF511EA34725E0D8FF48F467B7C12C95F4F23463A0AFA081B6DFDE788DE4CB9AF6A3752AD728F450C4FC209E22F6B353B9ABCFEE692E1A9F7CFC44C4A9DD0163338D0E1F1CBAF5B506AC15CFBC4BB065AD6761201D58FAED7DF1FAE68DA32A0390D8EB7F37D819D48A42F986F60938CE8EAD565698B947E2F915813A4F378357EC218A4C16947947BF87F419984BD0A6D04172CF3BF6D9A070559594B63B8B7DC8F5EAD8B16A3535AF9AC35F783638C6498FA6C3C377432EBA748C6C956341CAF7E217EF584921A0F7584551089F63DD44F7A6E197471C8FF2BBEEFE414F50B4D445354071C88A3AEDF43AC4CA1B4E33FB05013B5D1FD07EE7D5B98EF3E61474FEA7FFD1B7FCBF63B7770B5C56BDCA22F585554B28956F3C2A0F6705314AD2CE3F28FA8E873E0D3910F56D69855F2FB9953BAFF49E77A96DF2C63553B9F43D08D5F37FC2B17467428762258AE9921CADBB824BAA19431957DB525A9AFC09E91DE8B606AFDE6A496FBA6F683D1D7C5A42FBBE74A7C139C59B900D53CC86056DCA2CDF68D4FC522E974F0473BB9A41D432817CFB354E48746AA803F019EAA576826F3E9FC366F923CB68ED7A67F6B0CBEC644009508A4E47CFD7C82596A43DA23760ECBC0DBC38B5CB505418A9ECB9A0CF772C12D359A49188D5FC1ED816B11594B8E495358B9088DB227B58A4F997045275174893FCDD2B06C5A39FF4DEDCF1FD1988F9C311023A00EB8F41CC6FA50E62B60F1ED2F3EF37182601C34D861C2FFB8A8CD14100CDA64FE6371747A446549958FC712602CD6C110AD48AD84BBF092D16BE761B5EF7798";
-        textByLine[x++] = "ss = 17ABAC927855CEFC72C77653716B862F9E5B7699215104B8F77A9891A726CBF5";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 83";
-        textByLine[x++] = "seed = 16BEF67F7AC3A755C59C816478B75FCC16CE5844DB537791ACCD1EBD49D2824B105FD2E970F728C8F0CF16E439A9AE2F";
-        textByLine[x++] = "pk = 1534105E4B3BF53B1E728B61CCA6ADEA603CE85425D8F251B4173F288B2BA4E61A1FF409215046A381211A26B897479A5B1B3623362AE7D22410D9A11F72CAD7C107E5659731A6C2E0E95C956386CD2527B29095820B6268DBAF16C0754B583E8288787C186DE1F516B204705AA1AC8B80CE70B9100C92093C3A7B69EA8976F5C5DCE45B391AA28F0640940166741876BAF7B5B7C6878A87438DB18FF45C7371016A27E572360C4B2FE4552AF9A1A47CB82DC249F2C8BAE4197DE351A48CBC549E236EB895C487F27EC3E765101A2E68860C61E93022292EC7435DF62A1012D78824960216C4CE18E060F1C4AF2ABA5E9CA9134732149D3A57F72521EC9A97D059515AD9C3ADD828C75C90F6300E5135CBC646AF16866ACA30B6BCF60FBD9C0D1A2AC95B999E0749A3F5B9A992E18A8257AF35FC9F7E4BCE74C87C7496CF2A7A16D966CAD9D02260F630D2F1B011ACA52F78B6F040759068C0F3F553A4FC0DC7C9A4C8C05EF6C9B026B3BE38F0C02049B8C89C88AD01A861F2B1B142A961C62F246A4C19D2CF1849484F884119A823D793A5790420A8F74F97A220AB8B91D475717785C12ABB83291B3FB32C7BFE836B7B61C03EC76F36D1C8CA01426C28471676302129116D2A5EA5D415BB13188CD720CB96939F21C7D1FA17A59589817011A48CC65AD90A7353232E8A3DB9AC87D425771C7B5BD1968498819DD3D9C471A69254DCB46E36A9BA4A944F543EB9ABAC7D61BA11BC93007147ED613C72F756BC367280278F0076ADDF854E837B62C9458C34F138E576A99F8A4BAF5B596D327149616DC1827D2EF5C828D4764193B4F39A4FCC027D4C2539C2257FCCD8690E64C56FD8897355671D5B829E2656756C5449225132B1C764E91CC686AFDED843DDDB97213C28ED00A6E4E4B66C17074181CD26B15EC1F3C53A18BDD85A6DAD68562E3B78180066B4C4C3401AA1F752685EBC8316D6BDB5291E0C39CFE778B8CE55564AA50ACAE94C4962CD942271EF257BF1993AB04904832A9538E0749C97790F26A09C2C81D95543B5D97667C25DA1C7ADA9E9780AEC099FB096446C03FD1A0B46BB71890031FFECAF8FC027D2DFA2A4AD271DD702F055836F40CA137E5D0EF9";
-        textByLine[x++] = "sk = 26F5BD7DB659EA8288F5E6BC550817956A1BEB27BB0C38AB6222718D6718A0022BB637B6D96304BFC7B71515398C52BDEA95CB78FB43676900EB5C8644572CCC73C2F52164A9EA434D8444C94806E1495CE193A873927B78E77479B0AE91854E21F9234715A413D2452E20C273C1A17487BAB18870A17CBD5351830D30BCCF3124B1173BD19BAEC1D53FE0BA781A2453D0CA148DA2349474343857A806F39D0B7088A4B4B5AF1ABEB51433B01A11DF04806A921FEDB3376485B356C6C8E059B854710BD003BD49E56E411A56A9682C221AC55CEC46BC0298C8017163B29C74880441B5A6F49B6CA47B4CA7B26802A06943BB11EA5A1AAFCBA476334422B9A62E2469E24A64D6BCBBA8A5001EDC50E1B85B339C18FCF55A4C392FFD854A588967DCA1B87D3639937B37BEA9599B6418476713FBF45B833364A9ACBF974C70203C27306065E0F69B748297D74287D2C7A14B265D902C82F7DC608F6089BC4707842AB599F798D1BB21DE317EFB9483C91423EF0025A2432526636D6F773AB381CC2A56948488666F724FBA6B57862925B00418ABD72C2AE0602CE8A8F33638CCC626C763636C00B416B7CF12BCA01AF7A112605F8D4C0C5D5A5C5DAB5DD9B22E6FA6B5E30A0CFD90605DA8874372C001B26591A847522521E8DBAAABF57AC6595C03377E64F8238E4A7648409E98752860684C00DB97ECCACDB16CA5A217231EEC7B9A7177147C76FB7421A3D7129D05CF27D361E3B8C29ABC3F46E9A578233A30233DD1E5A54EE94857A8796256100D76490E9953416781FE168680906D46B950D3A18B382C18BEC8C62223A08C3CCE9C406B25B5B93C43A420BBC7C5216994E88C148621294C6A3181AD5499C07F615287FB8CD9D847D0D485AA3585455231CD170E90A78784F3C05C280CBCB48D87DA39C6C9AB0B9B5A0394B482B17DEDEC0870134102C8156D6A838E509942B029C9659E3C930AA4F6764D7670781936C303938DCC128A7010BF6962C72B86D06A497BB852FA690F1B43B9CA216EFA170216C664EB82A0619944D79BC2BB698F7F77B54ABC4C6F56B7D6CA2A1B036551561F1534105E4B3BF53B1E728B61CCA6ADEA603CE85425D8F251B4173F288B2BA4E61A1FF409215046A381211A26B897479A5B1B3623362AE7D22410D9A11F72CAD7C107E5659731A6C2E0E95C956386CD2527B29095820B6268DBAF16C0754B583E8288787C186DE1F516B204705AA1AC8B80CE70B9100C92093C3A7B69EA8976F5C5DCE45B391AA28F0640940166741876BAF7B5B7C6878A87438DB18FF45C7371016A27E572360C4B2FE4552AF9A1A47CB82DC249F2C8BAE4197DE351A48CBC549E236EB895C487F27EC3E765101A2E68860C61E93022292EC7435DF62A1012D78824960216C4CE18E060F1C4AF2ABA5E9CA9134732149D3A57F72521EC9A97D059515AD9C3ADD828C75C90F6300E5135CBC646AF16866ACA30B6BCF60FBD9C0D1A2AC95B999E0749A3F5B9A992E18A8257AF35FC9F7E4BCE74C87C7496CF2A7A16D966CAD9D02260F630D2F1B011ACA52F78B6F040759068C0F3F553A4FC0DC7C9A4C8C05EF6C9B026B3BE38F0C02049B8C89C88AD01A861F2B1B142A961C62F246A4C19D2CF1849484F884119A823D793A5790420A8F74F97A220AB8B91D475717785C12ABB83291B3FB32C7BFE836B7B61C03EC76F36D1C8CA01426C28471676302129116D2A5EA5D415BB13188CD720CB96939F21C7D1FA17A59589817011A48CC65AD90A7353232E8A3DB9AC87D425771C7B5BD1968498819DD3D9C471A69254DCB46E36A9BA4A944F543EB9ABAC7D61BA11BC93007147ED613C72F756BC367280278F0076ADDF854E837B62C9458C34F138E576A99F8A4BAF5B596D327149616DC1827D2EF5C828D4764193B4F39A4FCC027D4C2539C2257FCCD8690E64C56FD8897355671D5B829E2656756C5449225132B1C764E91CC686AFDED843DDDB97213C28ED00A6E4E4B66C17074181CD26B15EC1F3C53A18BDD85A6DAD68562E3B78180066B4C4C3401AA1F752685EBC8316D6BDB5291E0C39CFE778B8CE55564AA50ACAE94C4962CD942271EF257BF1993AB04904832A9538E0749C97790F26A09C2C81D95543B5D97667C25DA1C7ADA9E9780AEC099FB096446C03FD1A0B46BB71890031FFECAF8FC027D2DFA2A4AD271DD702F055836F40CA137E5D0EF96D9E513A7CD137583507AD7256844BCB9775CA82EF5F411331A7C37CE451181F6CEB14F7662BE0C42779459F69A145C0E2CE9F0BD9A0CD1BF32ED5694CC9AE32";
-        textByLine[x++] = "ct = 1C34830F729228E179CE907112F20A9D5857D82762CBA55C7867BEBE2909A582442671FF7CEBEC14F35040D9AC02DFF333E31B32956B4245BF4C8748AAF6F564A14F5360402D82CB5D8398196483A1F33117763376CA3FC2F1F3F7DDC096D1C1F667E10B141682C4CE622607465A23E0DB015C82F9DB9F6061996B747F75C7295AC961021CA7B8DA608957F91C55DC82E8927465317062F8CCACEE681E0024446F14444AB176A9FA6ECBB5A1A6DC72EEDE7D59A539E9A82CFEDA54ABB851C2DEFDA6D293DF2F49B34DBF10E58B43C6E2915FBABF25FDEDAA5EEDC2DAFD89B731E2B5FA1EBB1B8BFBBFB37923DEE7451792538C55A9CE92C61C9A2FEAC7CEA865DB83C62C03DEA28E8091EEAB9A1C34772F2D5C8AB82F3E85E77F00012B47AE68B9CEB77BFAECACAA806879B5226A49A57AC0F3389813C9B6D9A62AA6431D1DBBA316DF9F29FC3A8C3C9A73B74B760E311917FCF7B4617597D83AD093A8F82F1FBD8B8BB8A4ADF59C451966D032B011D2BC125285F4D80F9D866179D3297D96555B5713C3049D8D890F1E61AA1073B3C3DDF3ECAD1BCAF8B27BE98F89C6BABDED807D03C17A545D8837E8F7D307446DB92949DBDE0EFB1C197E0499F396787F6998F1FD47A0527F693888D286B97D102F01A45EB8EC3468A24FEF5BA1AF46DD6DA1DA2A1FF9A3B47580C8AC4797B01BF53FC9D8E35D17946DBF4D19900E20F232BF25EE45D546DF018FB6AC858903A8E0228FB1C8DB07A86AFA0D13C34B4C79728AED3E783F1EF673C32E1C36476AA91FD6B2C1DC5B3655D7FB6853FC1D7B53EB452FF0C0EAE6588B4D6B83A68E5C2322CB8BF024E2F0299AB8B4FA038D6FEA6053F29B3D9102CFF7BD1CC867382C590C2AA4CF2CC4FC52F93FCB893AEB9EB8A0BAA17162DD0149A2099461CDE981B51F508FADF81C976386B78FC94779D5FDE34CD72BC8603ABFBCC9ABB55F1F6CECE3DDB76BA442B30035B107C62EC5200E2D4349BA37D29C6152EE8CF91DA65A3A336CD9788E682DAE2D3E4C6F09E7567FF30B77A8F0CEAA7CD08F983E41BABD9D5F1A371E4E5EB411152A6673A3D46594D8";
-        textByLine[x++] = "ss = 753C6406CF394990867A10D3148C9B6A54D0183315307ABE36161A4F981950DA";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 84";
-        textByLine[x++] = "seed = D0611F9AE5BE4DA5D7EADC9109944348E716CB3DAEE545721EEA8C892E7831CF2E54603146454CBFD92387739E9A78D8";
-        textByLine[x++] = "pk = 4098CFB36505DCB77EA88C2AB18A760AA67C49228B7E5BB524B5C4BE081FB3D8B92CBC4B92CCB4A61A1B1C14521BA4A898D46BA44168DC5A47AF9484AEB453C4FC56EAB73B0CD0407F5124CCF6B21575805E311AF65084E2B0100202A1A39A866ED038328B75BCC206B55A90D714A7175C446DC2091B057CA54C111A820E8A75BA0206715A3042DD0BA36D2CBBD72326532B58B02636CAE1949175BC51DC2F46EC5736EA91023657CC65AAA7C22158D22D76A304F796CDA7D377C0E79A4AA683F341B7D0321B623782CB189EE6EAC197860E05A224FCF12F7CFA8208054A56039485B11C1D888F51C479507B8A85A57B51F5B824F3A9E41274CD188D2099765A004BCC64A86844993FA69C0F63190C347E5F015C6BC290B39CABEDCC3BE8515905A37FD746616FAA036666A08D537ABA7A645A501F1CF0C0C8D76D07A67F47514C4C49C854D0B8D3FB02FA34ABFFD46620E886E00700C7C34A2A9199C78C23F58278FD71C0369B3D0288B711EC5775C70334E984C686CD8E3A141F175693785D563B5459F59EE3BB98B5CB74F7436DD38CB31EB51329C8125E8079557A63A53A8A31F245DB209CB7375272D9689CD94EDD20BE8A380F27AC993A9287111CAB084C196F4A921B6270E43366FF94AF4D4930097CC847769CF3B8016E024733233E9AE67F8F1AAC07B450D2299EB1C7CA84C28990377EF1150FF12B14F99B9A1BB705D719321E384399D675B382BEEF53304074C518382D341578E96B8E123312112C2F4DBA5DC5B7278AB251BB3C530BF104783819EA985363FA8B44201D4F1C5C46497EC64380FFFC553239CAB6F543453485B6044B7B5049F85323D0E8614A8B5C28B52633E72C64DB6D0438ACEAE55B8C239C6B06BF660A146C1A0B132C416D66B1CA4C9E37BA41CE2A84427C4FC4E8439EE6613EE0520DAB93B8C15E0A301F9AECCEDD16AA71A9570F31C3CFFA013B27A1EC259E738BBD69164F5CC002CBA96C68A22B35597F41FBA0CDCB81729AC1C4EC49507683FA304D00DD398515AD3E92C33ED440E3013DAF434712704921123FBF628531D9BA23C4A369C58AAB1557EB865A17ECB56E0AEA501BEF8E12D3025185BA4CF8EDD1B0F297471D58C26516";
-        textByLine[x++] = "sk = 0950AD4FC96449F3512042277B505267B339A7C58910799CC125AD58785D88F60F73755C0E26582FF9BECF91C8A37307C815A5A5D42EA1D10680B4322B095B1789A7631288AC37B6A8D8168D7852F7A7C4A6C178EB43840F44C9A84A8CAD91BCBB25207D2546EB341963654411974FBFE2249501115D861D39B046E903BAFD4C6791D75249B32B24705892E67A3182268B7C197A025FE5F0689E96A2E11B822565365718721CE6B39061CB9318069FDBB7A1EB2F7FDC188168C124E1A86EE9530482885443A47179BCBAD04DCA922714A96314811C910439DBA531C4787F089A3CA8C7B97DB1482171B9E7C72F0535476104998334A99F0BBF168683B0BC49F2D0ACA698B92E285592ACC7F785CC1DD71A699C4F5DA0B986D48DC30C33C443638C344C76387C07BB545A24504FB119AE70276112CD47A3A15CF3AB78B760807C92E2EA23907948E1E0BC11E6597BDB5FE60236FDF4744BE21BBBC18DC057088DCCCC60EC17081232CF700B04957FE4F052C6DBC053DA79B2D9478D2711B1FB79345788089C8C511C50890A24F4767048CC3AEB03911CD19579E26EB64380F95472C9408A85551F0CEB05EFC70C105081C1901CF2E9C689F742BF2B8EDD0B8403A825D1BA316A9A7B8438C739D64A55E93821B41895C07314C392016476AB38C806926879A69E2271A7B912A5E785120D035CDC507025AC7E4811C5BA6B517CC194A8DC11311832C38934409233B4917844C821DCF61A8F96538EA6964B88A0B5DBB117DB4BBDAC9DB2B6B15723CFFE26A63B663295AC3CDD44CB78488A0F5655BB0BCCB7C57889F76FB23442EDA09248430FD212542DF8AA28979179C58FE68521B9149592B9A81B897918682ADDC32DB685ACFEE337BA52C0552A6445D076D45102AD828FBE7849195CC44824168572263926CFA76031667BC2851314536114D2EB5E68901F3F20CA5DE889E24C5440E969E99071D3F135582C7ECE997B2FF84E0A934036F03610C62931C7773648583DC9C83E4432C6B66F1346475DF3B2A9814327E1504BC69506244D5057004FD839ED07B88D94137598AD222436CC72494098CFB36505DCB77EA88C2AB18A760AA67C49228B7E5BB524B5C4BE081FB3D8B92CBC4B92CCB4A61A1B1C14521BA4A898D46BA44168DC5A47AF9484AEB453C4FC56EAB73B0CD0407F5124CCF6B21575805E311AF65084E2B0100202A1A39A866ED038328B75BCC206B55A90D714A7175C446DC2091B057CA54C111A820E8A75BA0206715A3042DD0BA36D2CBBD72326532B58B02636CAE1949175BC51DC2F46EC5736EA91023657CC65AAA7C22158D22D76A304F796CDA7D377C0E79A4AA683F341B7D0321B623782CB189EE6EAC197860E05A224FCF12F7CFA8208054A56039485B11C1D888F51C479507B8A85A57B51F5B824F3A9E41274CD188D2099765A004BCC64A86844993FA69C0F63190C347E5F015C6BC290B39CABEDCC3BE8515905A37FD746616FAA036666A08D537ABA7A645A501F1CF0C0C8D76D07A67F47514C4C49C854D0B8D3FB02FA34ABFFD46620E886E00700C7C34A2A9199C78C23F58278FD71C0369B3D0288B711EC5775C70334E984C686CD8E3A141F175693785D563B5459F59EE3BB98B5CB74F7436DD38CB31EB51329C8125E8079557A63A53A8A31F245DB209CB7375272D9689CD94EDD20BE8A380F27AC993A9287111CAB084C196F4A921B6270E43366FF94AF4D4930097CC847769CF3B8016E024733233E9AE67F8F1AAC07B450D2299EB1C7CA84C28990377EF1150FF12B14F99B9A1BB705D719321E384399D675B382BEEF53304074C518382D341578E96B8E123312112C2F4DBA5DC5B7278AB251BB3C530BF104783819EA985363FA8B44201D4F1C5C46497EC64380FFFC553239CAB6F543453485B6044B7B5049F85323D0E8614A8B5C28B52633E72C64DB6D0438ACEAE55B8C239C6B06BF660A146C1A0B132C416D66B1CA4C9E37BA41CE2A84427C4FC4E8439EE6613EE0520DAB93B8C15E0A301F9AECCEDD16AA71A9570F31C3CFFA013B27A1EC259E738BBD69164F5CC002CBA96C68A22B35597F41FBA0CDCB81729AC1C4EC49507683FA304D00DD398515AD3E92C33ED440E3013DAF434712704921123FBF628531D9BA23C4A369C58AAB1557EB865A17ECB56E0AEA501BEF8E12D3025185BA4CF8EDD1B0F297471D58C26516B252E5ABF757E116A92518EB72DF9F9CE66B07EDF4D31BE225585A6A827A35B8FAEB2EF44D2F608621E831187CE79B2D2F4A20F1568BBE76B0D3D5AF36111714";
-        textByLine[x++] = "ct = A41695018FAF27E4F155C84C5A5F6AE40610566E1D5416DB3035A2E63C7F9DFF3A385AE5D03045E68E60090A99B17DCF4319B53BF75299C9163494CA01D5CEBCAAE857013F6B69DA76A8F1CC03B878E64D3932092CDC4BF074C804D556432620CE215CFCCDC0C9AFACA42691F71212B55B86FD636C9B1819C53FB8F677D21529CA701A13136E7CEFFA23C2542FBF2987C619E9569DA22BC0053FE65C32FE6F1A615A09D39A978FF276F9AC5E7EAA78B50EDF981AB5425FCC82509FD0C4B98EBC8B782145F5D654AA9FCA80AE8C14D280413136F296ED90C73924920596FED25E448AF4FF8AF21F3A7BAB6E95A098C5E5B3F00CDEE39F8EF77BEF64AE9A6CDB025A1D3E3999D0E96ACBB12EE823BA14DB2A9C5681D5B78FE836D95254C36851FF667927AD4A47D4F1FA8DFECE3503AD7F09CFBE57D53D22A4141A3326444D46956FD1205A526A64A6A462B2CF33EBE6FE51EDABB470E27980D369B6505EFA112766B12F6AC43E9DEF0856309567FB40BE7FA3F45452DF47E303FAE957F863FE3D59CF8AB6F9DD4DF8B1A1FFDCE7BEBE2710EF780F947B7764AA0A6FD0223638F3B16FF68CD53CADE2123A082DCAF8DA99AA7CA3D8857B0E8E42FC7DA8DA1806AEA4DDE8048061DA6D077560529E835915BD2FD3772C06ED5391803934AEA5421B71DDFA989BF0EAAC6BFA2689C192C32E906F35E47C0324B795A85B9F0D8E797CE5C396D81927C61EA304009DC8127351DDF4CEBD95697C9AE0A0A5B82D019978C5400F9AF1367077214C71F0C7EA68C837C016B95F9A5116098315FDE6A607AD781984BC4CB504531E12F971C34ADC5E591AA8AB6CB7CAA70123F12E8BF0D203101D53CF4ADB1149DD50DB0E3AFA814C6D9D0ABDF1390258A39D5092C5C98A6E1B3D027F42FDA40980DE5A900932236284165E4D63CAF308819BB1C15363BB28AA72F6EB68BCE8E22C717AA3507D757106ED04CAFB83F027C993B0B67601CF79AD6EE1386424EB14FAFF2A707C3023AAA24D654564BEDC9C280EE8C10341A3DB893157D6D337E6012881D585440992E093723E152AB6B9498E421CC2F9CC07BF";
-        textByLine[x++] = "ss = 02BF5AEE55676047E4A452CD71C99389F4DC8D519EED5E6B4AD25709EB35727E";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 85";
-        textByLine[x++] = "seed = FBC38D7614D7718E931EDB850D2C6F0C5EEA9EE889B3E25BD69AC255D5B91E885D93E808E66BF9C88C655DC594DA5792";
-        textByLine[x++] = "pk = 68517FB17496BC71146B716E9C289410CA7AC5FC5F663ABB1B7672F8115917C610DADA39AE344DFE805568A0141B6103A9D07BD5F7A600A4A11BA8BDAF98803DC8BB6DAB82249C326043258A62211EBB3568D10B46B08864B637E94A38B132199001A5F34C5E8DFBA0F853980F071D8125C12CA665E72673102C05D50B28F71696F90C274E74CF57CBC86BE00177930FA0A1164A245D57B4B2FE6C4E0F740D87B8695DA43A98E79B3B102EFDB35253812336C1058E727E14C08444F24B1415312185B2AFB6CCD9B5920781AC0B5A7A483125A1A2300974C429E7957DE3A796A48996F1579982ADEB538DBFB8867A855059622FA7394FCACCC507013C910C79558B1BD4B5BC696052005C8C413253E6617EE827BC31BC973BB0BCA2D6AE0B17239C1210B4866F5802086460589C64963A83A3EF18B5277272030079B3C2015CC1544985C687A438E94145838A14648C5EF5BB46A0988F42E124397BCFA42A2DFF898EFB586B2C6AA86B75B0EBA10B2ABA678687822ED5AC8DBCCD49966E2F1991E09260F547A4B0D02A6D9B31ED02BEE1764F7A5085EBF51FD5862550E0A19D05A78A80276CA0414FFC07B109AFBAA9BA78674B92C5B6DF20A153051A3C2378B7D05882EA15AC2183A62B8EFDC15A9063B041BC1BA601BD9C16C6156C6E4AD82C6BE595152174D1527A6555B42086BE9D05945A289EE90C91E525B8A69324AFF21306F5375D0934B49677B1F288D1DAC1D1918ADFE3ABF0E738C81B0087E22C1B23AED4D742C283CA5530A0960122CB2A79C0A2966C5780034297FB4C1569D2B73127BEE4E53016B04188599BFC468DF3B091CC0A62A0832137127EAADC7BB0176BAA45788E994CB8983C7B08547D340092594CD0F05D3BAAAE475092C3499E73D16584DAA3E3F31DF226C30AA49E59313E5DC98A6EB16F40875FDDEB735EA6CAFC657DB8692D28C35C69022AD1E53418C461DCF46D5A40046193CA8277B28EF606A9E152946B04591CCBB1B7271940105436644E275D6F4503B5A32FC9907BF5C98D7F90623B822FEB0C033A1B90D87422453A0460087B81098C163C295079896401B7B384EC61A83F9056F3665E523A0C28D48E778B0314C1EC2A83EE9805D0";
-        textByLine[x++] = "sk = A2753E3FA25FD7824843D5A621205F777C992C7BC7E49A740CA64571804A0910768EA40A6B3780AE95A6C3A0236F3A3F729C232A9B275351A3BCA02F09E6828601A6E8B2900017B32DA12267A856A8F3147C954574C954DAAC9C7F1BB90E66C5DF96A6213B98F6F470F3095D6B37A3482BA7CE984F4A4789901B63C35A573980216D7098424500359B6FBF953B6E0A662AE160D056CD31C26A699A05B28106FB272119583BFEE78E86D7BCC430B28F071236903E39E3316341046073B8D27B1370601DF2D901347682527C7CDF4875FDD6C0D3330F51334FCC8946F2363BF9C0B55798A81E4C9E95DB7550A7535B1C909A5A8C353B67EFBC3892821262671ABCA02797A5948E53CC32BA32F2C5A8823C84B903C9E7D50669CA6E499C888B64BE5B59A758711D49022F4604A11E590FA713135BD521B594331D2783A4D958A8F7B42893A16EA12F2173553E496A3C4089137947A0E55BC20C795BA12D81032118DB3BB1363EAA92C24860C72F424836043AA6085C81ECCFEF70A85E981E017045A1D194F1B76128D1953E92BC1B09A708A51227484928505A4E467C3CD508B9D52591C8659F27BBEF053F8EE8A0FCA26ABFC4A515470545069C1BB8230C58B33F5C591F27CE6DD174EF1621DBA035E4C07EAA97A08B92C6A3B52D3B07A6CD3A58518989E9A77CA7125DCBFC7936F506E7D65A9DF7C761CBBD67C35DBB89A04053B97EB0B8AC37B22CAB34BFAC91D7C83850B834BEB5C034FC1145B93C2339275DC47BBD828DF71B41C32666350AC4C4E3087FD64BCCA47F3D0638BD26CC2309578F7C621B56AD0AD912D84054826A02540597E73BC6F015434A55C9FF8C446C23A35820AE4CD220DD3AA454F9C9C153AB640ACCCA49C4E8FC7D946B900ED68BFB33908374382DE59D02E4ABB581A688F0137E51118253185EA19784A683BFD6845578A348D7BFA2E5A35CDBA7BAC582926B57E8831C90B3C6B8E6CC3AF84556D34E5779BB97B0B2DFC316A54BC57C112F49E9AD3AB98B53E31256996780323656CBCB60522F9EDB4593676D9D67C2CD729626147E5C37AA38903333C82C17F97B68517FB17496BC71146B716E9C289410CA7AC5FC5F663ABB1B7672F8115917C610DADA39AE344DFE805568A0141B6103A9D07BD5F7A600A4A11BA8BDAF98803DC8BB6DAB82249C326043258A62211EBB3568D10B46B08864B637E94A38B132199001A5F34C5E8DFBA0F853980F071D8125C12CA665E72673102C05D50B28F71696F90C274E74CF57CBC86BE00177930FA0A1164A245D57B4B2FE6C4E0F740D87B8695DA43A98E79B3B102EFDB35253812336C1058E727E14C08444F24B1415312185B2AFB6CCD9B5920781AC0B5A7A483125A1A2300974C429E7957DE3A796A48996F1579982ADEB538DBFB8867A855059622FA7394FCACCC507013C910C79558B1BD4B5BC696052005C8C413253E6617EE827BC31BC973BB0BCA2D6AE0B17239C1210B4866F5802086460589C64963A83A3EF18B5277272030079B3C2015CC1544985C687A438E94145838A14648C5EF5BB46A0988F42E124397BCFA42A2DFF898EFB586B2C6AA86B75B0EBA10B2ABA678687822ED5AC8DBCCD49966E2F1991E09260F547A4B0D02A6D9B31ED02BEE1764F7A5085EBF51FD5862550E0A19D05A78A80276CA0414FFC07B109AFBAA9BA78674B92C5B6DF20A153051A3C2378B7D05882EA15AC2183A62B8EFDC15A9063B041BC1BA601BD9C16C6156C6E4AD82C6BE595152174D1527A6555B42086BE9D05945A289EE90C91E525B8A69324AFF21306F5375D0934B49677B1F288D1DAC1D1918ADFE3ABF0E738C81B0087E22C1B23AED4D742C283CA5530A0960122CB2A79C0A2966C5780034297FB4C1569D2B73127BEE4E53016B04188599BFC468DF3B091CC0A62A0832137127EAADC7BB0176BAA45788E994CB8983C7B08547D340092594CD0F05D3BAAAE475092C3499E73D16584DAA3E3F31DF226C30AA49E59313E5DC98A6EB16F40875FDDEB735EA6CAFC657DB8692D28C35C69022AD1E53418C461DCF46D5A40046193CA8277B28EF606A9E152946B04591CCBB1B7271940105436644E275D6F4503B5A32FC9907BF5C98D7F90623B822FEB0C033A1B90D87422453A0460087B81098C163C295079896401B7B384EC61A83F9056F3665E523A0C28D48E778B0314C1EC2A83EE9805D018C081231277F424C5F3F1F6B4DB91958611FA28BCF09CCB2573DA64547E1958A2985C1C4D203778597947D710DEC806E36B0CD949FE460EF141213BFC525E5B";
-        textByLine[x++] = "ct = 6E04B5D99297552D303AEB564C0415EC572201EE8E36696499C615B13D53D6F018434EE359110B72B3B81BC0464F33B868237E64A40A5D232B81D027164830D47304AA2068054184842E545D56B084D2B02E2D4C8648B5A68A1506ACE942A1D5599DBED2197C54624E58E3A344366E5C0C395E560DC57295CDA01C37117AAE2F1A28005C8835108B9775942159201FCE6BD79A0347684394A1BE5CB5FA2EDCFB9685145C80136C94DB06559828189E6D19E61E609599FAD65EBCF244BAC6912AC0B92E3F9F4B257E24467E784F765F203448C2FB6CFCCF3E81B88CACED280049592862C9EB617991EA4FB325CA514EFC052A10FA0D9576D4CB030D59A4AEEAE652A41CC579BBE9554BDC408E7A1AE3F945FD39B617A4DC2D4F5937C70329F90C0D954757F4228D472D70D9AAEE6D60A0361A9B0FA520CA7752DD44A39CA914AFC421D90885045B2C4C024E79B497207CA51A9722F48410AA040F25654B160372E90BC30D88915EA181452D1575B5D8898D71A7750E67A7F475889A1662316F02BC414109D9ECDC0B76B08981D4475C3F19EAF6785B7E90912B4FA60F993D518F4EB46E965F5FDBA6AB958A96D14AD5DDF69C68C085650BDB94D58519C6E8A57DEE4521B1CD3A604D4CF25ADA23FEB073DC526F0680BDA7F54586D5990E6F39812192F00B1DA344001A036269BCE4D5FB7BA65C2FECEDC12187EC7A391B1B5B91107E3D0591C4EDD33083F7A2C2137E64D3D88ED5DB3A2101F9CCBB6570564085EA8266A7AD0D967E281802D82266E9B39250F985619AF0F24A6986EF0C07272D7BAE7939F4CD3F2E017A401C0293B9B3E996E0DF69ABB1E9DEF2B1891D295918A8B82D04E54645697D68AB19E4AE01D063C82F3A8F005586434DD0FDF013A35E603E30D1F2979409227599AB244BC849902CDA10292E4BAB2FF85457F02FFACC4D88CF28F5517BD173EF0CD09EB74413024FE2A7CF49FB5F8EDEA3B552739A8661213D1B0A7AE5B1239C1C94694E9D716A1ED52A28474891115A4837C79298D5B94CC521C0057607830E460535831F10FFAAFC362D01F2BB10DB5DE490A90463";
-        textByLine[x++] = "ss = BF20A2D204A1823B132381EF2C8FD4ED1CBAFF50098E7B3EADAD33785C9E98AD";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 86";
-        textByLine[x++] = "seed = 1722219CB5DB47374EB0AF0232C856A57F026F1CB09E5A5799F4C333DD422FF6A0A67C4DA502FAAE727FB2D45DAFCF35";
-        textByLine[x++] = "pk = B130CD26FC457B8CCDC1A7AD81AC5DB25945132A6C152B12A29C8149419543A6BAB0B8AF5DD272C5A7B19B82199E943C5A12280A22453FF36C7B698F40D092E651CBEE12CFD3843C07DA95FB5168A4F9AE4553B149EC3F0960199F6375499372247CC59F4719916B168F02574E1CBEF360CC18C3BA41A3258DF742D9F6B32C076F695A7DA1479790D9A1809001747002D8F488CD54BE71022E134A4E8A9ACA21570351248A4DAA454FB201B5E57D15B30994B374277B3861898734436C736A2FCF0A9214661551BA8530B6CA4F36A74F8933B3C2BD0FC89B78146871C8849B31ACD0FA55726836F8A6A2A36A32D43B78F94810141C6B18B4BB6763290A289AD6363F08816C3BB3A2E519A1DFE276F6814B7F693958F4746CCB68CD320AE60C589EA94023C7ADC3C680A5C17075D772B28BCD8D109397407B60C2A7EE00758D7C52630AB0F686B510969404CC1A9110338BE54435084410756E7EA3937AE64523E9B2D5689D77863B5338B482DAA294455AED0A283F71912B69B40D6A1F84A56576A02B129409E2429D44A9B45858243279A5FDF07F00E6392C662DE780A5B8F82EC6DC248347C9A02062EBB67EB33457E5D36F10FB99DB0171EF0949D117BE5034CCBDF951A46C7497166294727B59C4B63034435E41C75D70641F800F0D458B23736ECB76BEC2702B152389CE91736890AF06840CB8D9B8F375A33B03438E9236FA3A221F83186F77AA388C840E2B6B9328710A2092FAA59EB8AA2D59769BE77046CC334F9704C8B855A787373DBD77215F268946E5C8792AAD13E645F292BC73487432897C50E817A1F15002F472E404298A785B26F441CED2B5C7235C7F3B4428D78A7D47CF4B83561AC38DA9CC124EB40B44B48231C9078702510326095B2B3492B82DDCE7A433E97C65878F8FEA220459BF77A81B8F010AC66CA102FC14FE804680FA9678C41746211444D85ABA5C57051422C69630ACFC7B86A843A74127EFFC452035B41477AC3EA934008076F09796323CC9D1970864300E5C309F3D7A3419D25FBA23343F459DF543524F999230CC8052CB582D2557FE5B8B6F196346EA3591818F0DDE74E33983C010419218B08822DA9C3C62EAE1F2284801B3E4";
-        textByLine[x++] = "sk = 0EB3CE9A9448F8252E9E4178B1E103FC9C546D5902F2449F375A877E7461D602AB4F68C2AD47B3F9E90CE9271833D40792845FB4C38EB8B231132A7374898032333B8D427272A4AFB2C54F5E37BC0446385541201BE25DF5AB21B0045BD304B62A15C14FCB465E29B845E457430757E5902FE3293837B31B43655978E17411154DE442748B1A69D0B728F273769DE1544950A69BD4558E032DED3ABFFA163C30705ECB290896A9B08C34A41A521CA94AC999501C84E89DCB30413CC27E105BB81D88A3EE3678E6A40AF492AFCDC276A9D67BC7E87AA5D78F9D046BA453C1CD4C26909B916EC8CD7C3877C5EB3E5B4028DDBA148500381992B76B3B40FB374A4E45B3E87AC4D4B1434272C68C948F3E777777C78DB6F506B79768BDC6657FF298A4252DB310025319B0F612A1B8A3509F32418984193D540753DA22F151724B264692620AF8F661A180109FB0718EE588AA7443F6824FCDC3C28B523B2E822871E32DEAE143D0F024C7DA5572415FDCD9AF004848F3FC1FB5B38C0B3C71F88B4266BACB56D38B20538CCA1A5EDA892E334315213CA163C36BEEC696372C4D7CB28C2E8A82E96930FDB628EBA59E24E208E9857CD63351B6F0911D8618482A41ECE8352ADA231DC77C3C7AB51E6AC73FC7700FC97A3D3C14297705DD4BCB529247DEFA600C6504EB38CB7C00A6D2956A3A14B21CCA2E6013B954B967050BC5369477C59A365A44057A00AE8B746E57E5540B7199FE200C3917ADCF914CB1EA8BAFC3CDC2A53C3F70C0EF29394F55CD799C44D309D0A4735BCC4A8DEC7160A35211141573EEF285BB0C11F7D828D2497F9A63446150C179E6854429A0A2D09A78D4B9D8C73123C2411F2AC72344C7F221C7BF9C3012D6151B496912551DB06224BB5743DF435C281C3D2CF77EFBE606CFD5B79B2CA45F02BFDB123ACA61A4C1E512F8017501E2BB68C45585E06858E05621BB4098D870BA679E541A28A380BDDC568BD187882A051E34BB8F36BCC8D8F05C4777761D8267241308B0961A267A7CAAECA84247421FA8CEBCC2B88AD9958FF61AA0C2CDB7F4B0041051254112CF7BC9B130CD26FC457B8CCDC1A7AD81AC5DB25945132A6C152B12A29C8149419543A6BAB0B8AF5DD272C5A7B19B82199E943C5A12280A22453FF36C7B698F40D092E651CBEE12CFD3843C07DA95FB5168A4F9AE4553B149EC3F0960199F6375499372247CC59F4719916B168F02574E1CBEF360CC18C3BA41A3258DF742D9F6B32C076F695A7DA1479790D9A1809001747002D8F488CD54BE71022E134A4E8A9ACA21570351248A4DAA454FB201B5E57D15B30994B374277B3861898734436C736A2FCF0A9214661551BA8530B6CA4F36A74F8933B3C2BD0FC89B78146871C8849B31ACD0FA55726836F8A6A2A36A32D43B78F94810141C6B18B4BB6763290A289AD6363F08816C3BB3A2E519A1DFE276F6814B7F693958F4746CCB68CD320AE60C589EA94023C7ADC3C680A5C17075D772B28BCD8D109397407B60C2A7EE00758D7C52630AB0F686B510969404CC1A9110338BE54435084410756E7EA3937AE64523E9B2D5689D77863B5338B482DAA294455AED0A283F71912B69B40D6A1F84A56576A02B129409E2429D44A9B45858243279A5FDF07F00E6392C662DE780A5B8F82EC6DC248347C9A02062EBB67EB33457E5D36F10FB99DB0171EF0949D117BE5034CCBDF951A46C7497166294727B59C4B63034435E41C75D70641F800F0D458B23736ECB76BEC2702B152389CE91736890AF06840CB8D9B8F375A33B03438E9236FA3A221F83186F77AA388C840E2B6B9328710A2092FAA59EB8AA2D59769BE77046CC334F9704C8B855A787373DBD77215F268946E5C8792AAD13E645F292BC73487432897C50E817A1F15002F472E404298A785B26F441CED2B5C7235C7F3B4428D78A7D47CF4B83561AC38DA9CC124EB40B44B48231C9078702510326095B2B3492B82DDCE7A433E97C65878F8FEA220459BF77A81B8F010AC66CA102FC14FE804680FA9678C41746211444D85ABA5C57051422C69630ACFC7B86A843A74127EFFC452035B41477AC3EA934008076F09796323CC9D1970864300E5C309F3D7A3419D25FBA23343F459DF543524F999230CC8052CB582D2557FE5B8B6F196346EA3591818F0DDE74E33983C010419218B08822DA9C3C62EAE1F2284801B3E40AC7DB13184D6AE6E21A14A63A2AB3D6D5D1EE7F4A6011413A0295B752FD2C28CE7683F8A03D3CF04E46970FF7D6A12494AE12558346DFC8FD9370BF944A0102";
-        textByLine[x++] = "ct = BE20920279B8E04D7437CFB45951A28F32CFE8506DA5DD08F61A91729AA6910ABC38E5A6C4E27A2F9CA9C9D4A6D9940E3D71AD25C1AAC9AF62B3B2A6212A02F4978F785E2974ECA515DB34867721C9C47ED6BBCF9EF7E30B7421544753462237F25ADA3931B98BCD0C70CF55B787D0B13C68FA6A8CB2E2F4930C97D4A9665441DCE1AC6605AA684013792BFDD9583E74E473DD73A758DAF57E1481A05C1C0A3F2D0B2CBB5199B03C2D194CCAF750A8E04E79EF44B90CADB2916B9C649840691C1C3C3F52A41E97C84A6526D4747F27E3AD359111189CD69ACB8AA264EA795E4E2C937DC7731D3511FC88EE1481CAB06B094F14C8D20D0178174694297F78A2FCE5973BA11535E97027006BC056457AB93520CB6F32A4010F528466A780732291D1A4F4054CE774056AAE7ADC04E8CA2C35A5C6926F567567166E4F2BAEE52F080653C3BB0D924C2490C4E51AB02E719A41A8DD81B1381373F3D69B03116C05B5AB8FBA591C64F000175BCD3621B023E7189F5341161E382E4C4F8405161D61B8F6C7C261AB4CC0C6B5F6F8EF1A0649BFB33693F6B584F190609E51206E873C710F2F7BD6A1E6FDE32067D6DB0EF395C37E9C5EB22C963440ED5359D28A08D527727C0CAF98F2905EFB8F768DF0E8FC7535B45E82A40473C7AA25CFFF08EE33D9AD38046C8A636B06B380EB49271C1A70EA9D8BB7CE3C5B9738B2F23F66297D3B0733029B60A609C4978E4EC2224B5893730F413C22F030EAFFE81182300B29ABDE897C20B2A98208CDCA5DC4694FE7D4B29072A45AC9E349516E9F5C5D2BC11C8C97235F8CF360BB63F3248488439BF09AA302DFA41085BB7DFAA4A889EE873C7766B4578F957A52D5587425E3FB00449510AE727F4650744CF3DB8EB84D8A9479EEC01C78EF8CDE2346EC4E261B11D1B113CBCDB717E4D17F70ED5C3A9FB9E7AA9EA5F01A1CF47D8206FED865512EF1B5C61F8F3623921F21525D5A459D688E2854893BA83D27DD532E9E8F1A77EC58D9B501DF3FFCE3834E999D6AEE7722B58EE81CE159C68788C66275349C4293BF4F7AB80B83C0D610C1176ADB1F2DCE26";
-        textByLine[x++] = "ss = EB70267C2CD618EDEDDA12EB62CA541A2E0988A207ED15DD796431DD052B1B55";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 87";
-        textByLine[x++] = "seed = AC139B78FD16CA0F26D6D7F9E15345C888D857B1910CF38D883339B37EAD2DCAC30F7CF10176F23FF34B4488EB79437C";
-        textByLine[x++] = "pk = 320558EC426B57E36419124BB8516C6B4232728A1EC4F1A51DD01B932738D9B00C6A50CBEFB657969B4DD318295B6278F73963DA647156944423045978C50D3C078E6D0729E0219352028970272F34147900370D490C12FCE9B22357BF72FB470E748D82B79859133D8DB603AC7CB2672CA9C7226B6E99A7488A219966B7B897AB398002090B4900ACB068A866C50C3867380FF5EB2E0C9C4EAF497ADBEB79632B0C023474837709A3D7CDEC9C2F782C9A3EC0C6DDFB37CB3321DB6315F0B0AE23E7C6A4E291BAA61E4FD26C98F36F69D75369F5AF277124295158B2506A39EB43D1A16308B71F3BB5CC26897DF2378837D9CFA1AC4745718FC3739F5535C35E07B461A8CD65DA18A3809D7B6384F474A3FF95C5B379A78FF9410AD3A8F0085B83573DBCB41D00BAC933C3783F05C47CA28058558CC05690BAE3C507FA8D5780227A61095F0171A6D826F714146C934B80E07672E6BD66432AD1479136C06DD1A29F00D18B26AB9F8FDB7E6021CE7C657948273268E6B65245101952C73D949C4D82C8144A3DBFA7A82784844D57B354B1598076258FE83A23987DE29261B0A8761AE3167D035E96B78FECB9BB51055D86E46466708D79A8B732B686A23B7E36F9CE07BA6956CC46BBA61CE934AF8BA7738BEC5DE094010AEC2885A8153BF71F002C9EDA917F337BBC18DA2324B45BC79127D21B1C12774C6FCA6A5166C4F03440AF4520CD09233D493461420E5FF81BA290CFD23001052A9DD3665121392224746064F00F5B1A4DC19528A7B95C524304AA21164A45C964A7320D2611C68498FAF56CFC195373267B01591E6C0A8D1BC0007ED456A4E205C49495FF99B1B1754A9E429346536D16E015DBF7967E851974B19721E845008B76B2C47E7C3B04457C924693BFB6007C918C64CC28126665B01CD18B7A253BD0706D3C466EAC224FA12BCFD60417AFC1B865029B672663AFB3BA51B6A2B20502DE6C6BBDB33A0AC4765F967F8D685EF1200AE1D17CD5B47ACA963F2BA5CC38059B6937916566A219AC32157728DFEC1B9950687FF543169A96F648AD2501948316B55ED4C1E861661C6E600B1787BBBC13A01210C0764A4A2578D4BF90A24704178F06A4E4B110F5";
-        textByLine[x++] = "sk = 5A3861A9A0670A9CCD72238832C63A956965DF07B614CC8073B95C6A3375F9B73E32333D33E96EA3140AEAB832B523BC7D55361AAC727DD3C22D8059062C37733C241F388199BA39A4F6A08B2403D14B760E525C85A87F8C732D1BE726CF11295010BCE0384C37E1AC73787D17B2B5AA4B094CBC17B1D2AE5A14AB12D51D7F319F3928BA35EA00CEC1706BE397AB323C13B852653BB6725121E2793E2F19CF1D54C95D8B7D7520CD63350012E2B815D1CA9E518F7089258A3A217AA1A9D3392BC9AAABEC9668A70403FF6C193D2A185F8294DA15C9A1D1120184B5FC7A3DAC62C1909913F68741227556AAF6C3FA58426C99A5AB8ACE5B1614C23CB079084D310A3FD6F738DDB86EDCA4C1F975508C394637B94A57E60EAB053DC74556D950353DE0A0F8207F2EFB4E1B34642F8B7FD836876F41CE5D152026A3881C375E2A613EC610A21363CF0ECB42F9A7ACB0000035E113AD8BBCD279756F60837F9520E4F907C3F79E34B5C852EC3F33B432027076E6968EAF11203F7461548969B472487660BEFF441CFBDB0E4701804A175E121B10466A51403C095E45517C481199D62FFBA850E8D5452F43857484066F7513F6A24289A619CFE14889585271F7AACE5B2B43937255D469177C17C2E636D2909F4BF165F49B102E20C1BEDA46026A14A993127DDA10EA989A05CB04F546A663F068ABC4CABB32A7A4568023796C39329C9CAC6183D9B88E1625C603378AA1C041D0C1436105EE284E30F24D54C79FE332C63FD92E2928892E8401C64C6982B7607127882D633DC87335262920A458938877496976BB122BC09CC40FF6511FA29320FB581563799DCD56A4D36125B7DC5731A3888B3331DCDCCCB2DC21EEC146625854CBF863B2E0091334AF76A741B7DB1D69116E2E868D21D942EB99C5B24A9139C63C3C882A879A2C5E341177C149A7F32C0540AE2A9C3D61A4692807AFA3469E363A6ABFA18103923E908B7D7028497CD3CAFA81A8873C7064A7A1C3B310C523B3DF396EB71B0BDDC12A32CAB323017FDA4378F919CF8CE660D8A8616F43539F2AA8ACF74F6549743985865F2673320558EC426B57E36419124BB8516C6B4232728A1EC4F1A51DD01B932738D9B00C6A50CBEFB657969B4DD318295B6278F73963DA647156944423045978C50D3C078E6D0729E0219352028970272F34147900370D490C12FCE9B22357BF72FB470E748D82B79859133D8DB603AC7CB2672CA9C7226B6E99A7488A219966B7B897AB398002090B4900ACB068A866C50C3867380FF5EB2E0C9C4EAF497ADBEB79632B0C023474837709A3D7CDEC9C2F782C9A3EC0C6DDFB37CB3321DB6315F0B0AE23E7C6A4E291BAA61E4FD26C98F36F69D75369F5AF277124295158B2506A39EB43D1A16308B71F3BB5CC26897DF2378837D9CFA1AC4745718FC3739F5535C35E07B461A8CD65DA18A3809D7B6384F474A3FF95C5B379A78FF9410AD3A8F0085B83573DBCB41D00BAC933C3783F05C47CA28058558CC05690BAE3C507FA8D5780227A61095F0171A6D826F714146C934B80E07672E6BD66432AD1479136C06DD1A29F00D18B26AB9F8FDB7E6021CE7C657948273268E6B65245101952C73D949C4D82C8144A3DBFA7A82784844D57B354B1598076258FE83A23987DE29261B0A8761AE3167D035E96B78FECB9BB51055D86E46466708D79A8B732B686A23B7E36F9CE07BA6956CC46BBA61CE934AF8BA7738BEC5DE094010AEC2885A8153BF71F002C9EDA917F337BBC18DA2324B45BC79127D21B1C12774C6FCA6A5166C4F03440AF4520CD09233D493461420E5FF81BA290CFD23001052A9DD3665121392224746064F00F5B1A4DC19528A7B95C524304AA21164A45C964A7320D2611C68498FAF56CFC195373267B01591E6C0A8D1BC0007ED456A4E205C49495FF99B1B1754A9E429346536D16E015DBF7967E851974B19721E845008B76B2C47E7C3B04457C924693BFB6007C918C64CC28126665B01CD18B7A253BD0706D3C466EAC224FA12BCFD60417AFC1B865029B672663AFB3BA51B6A2B20502DE6C6BBDB33A0AC4765F967F8D685EF1200AE1D17CD5B47ACA963F2BA5CC38059B6937916566A219AC32157728DFEC1B9950687FF543169A96F648AD2501948316B55ED4C1E861661C6E600B1787BBBC13A01210C0764A4A2578D4BF90A24704178F06A4E4B110F527EA5A76294070AB10A6EDC502D82BE3D240672E5FA61377E73E5E19D11F64A37F7054814869CF7625E45647BC1547AFF288DBB90699B2AD84893F3B755D9722";
-        textByLine[x++] = "ct = FC75D757FAFD5597C29D4A62B27658A1C0DBC259AE04C918D1304EB7E9D72CD6B79CBB0A9B75DC8038560428DB5B479EC024A7D5531A011375DCCACA3B3B0F042C54423196F65310A8999A395F6088FDD59DC02449BD051F1E88AE8924AA76747EBDF1407A77CABD21C20BA1DDA5CE73487E19F8A6EC8251C6BD62E4FAADC3ECFD81FEC582261618CADFC4C5AC295898320ECC034454E966908CFCB8712A33C4DBACC423E1A04A67426038B9D24A330A2FD76C591E506805253866DD19C7F3FFE3424746804475EBA0EA4080A11DE3D61E00789CB51D82753206DE39D3B3138E04FDB226C7739380A918E9FA0C5C7BB44B3E7B0C52C432C0D73CE2C6F412EC12B0F4FA6F898F9A0C670712AE8A2AA1D1E3EE81C57DDFBD15C6E476E030356A795590CC9DA63F22A52A34C5CDE3F70D66C86CB2E8D2198FA3F70057DAA40D55905BBB14A3AEE8EBBE4542FB1A30AB2892DC8D12D3D7666D47B4CE8A2C4854B3B5ABFED2177765D731A01144BE77643E105E2F45C562B12F2F6C30CBCD87696B7A0F3FE35E27A9FDC9E3C7D6A50279B6F19C050A078CA7136FB869E0FC0DC7A353D734EBF8E57F9AA7A014CF1D3286B4A80A1BBF364CF7E9BC6BF0156F8488CFBE225F21CCC71067DC5058AFEA93E02C53B14A32A4DB87CA7667BA80BF0BD6279D54C23610449650B45EF158B05E7CC5EDA171D13625FD535B1E2AE554D638C10532ED22814B74300FC845331401026EC4F9CDDF1F513F156F53FD2BFF441135345B9094B65C40ABB1B75E4D01052E624B34FE8BB3178EB48FBFC82735D28DF364EDB86B8DCA564DE2A38582D33492FF5C9DC5B8B73FEF4EF133F34033AD777FC670B62580A2EEE1A2ED4A53FF73CB6EF5478EF13942AB7551C0A62FB463826AAF967F77D02A6259F37730B9350D292A0DF88C258F43D10F58AA7DEB439DEE53A065596DDC81175091725E5B0EF8944EF9355142323D8BBBFF2A3D59601EC204B9C181801C9704FD6A8607EA807F926E0A17E891A8B22CBE42DA2F7C632A4A3CA372B85597B68FC0381ECA7B81A9FE0969F331274855CB71A10F84BAED410E76EC";
-        textByLine[x++] = "ss = 3536D3945B89B73F69EFECBE99C26A89CF7D7919E13F3F2BBD4CAF33DBF92000";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 88";
-        textByLine[x++] = "seed = CC7152849C98D5FED2813275D32069E44824ECB14EAEF425CE017448CD9A401C91C06D0F7EED6D22B7BBE8BA6C429EC3";
-        textByLine[x++] = "pk = 16D85B965A81B1F55647985EC3F58023574F49003F67D1847C44A40D48A2D3D86A0E66505037B1A9898BE7010D98C686D496C646BABF8F998833620E287B7464F8005BF4ACB8839D93A311E99CA4F889B123B81F6E740B604CB86464837BE291D1F4A919B07DBCB9589A228286EA1FF56554A818439A3C8F1753B459DC557ED135149553D7D82B1D8C0FCDACC3043729D6EC9511C6A3F279783A2A8457817DF77AC945450732D148F8964B83C16E7319AC67ACB7FC903501D466FCFA22EE13A7010615BB7A2EDAD26FDEC633397516CE0C36D2288EF1FCBE2E1B459348CC6EA669D8810740B2B7581A9E1F62825D80C903E57D40732ABBDB7736E8A1A1EA9A20D217D55B5355AAB672E61AE0D183E660C182B846161147AA1426E34269636406CF142CFDF43982A076BE1AC956E114C316A7D6921674F6CAB0FA0C49C91E01CA7FF76B61D06C13701892E208390EDC717447A2B01C8A2D855C7487C37A0043644B26FB3A446774BAEEF30D1A09A3EA9680F52449DF85262437B14AFC2B4EA62504F443AF0752B97620BA8145B396CED5366DBC9447C010740614360401BE32903F2680817542B356A7A6FF830E944B2AF872779F34911D9B99B0A98F3198198D73922F5567ABA3B8A55B2341FBAC3A2A3DCFB46256885331417F4EB8C209C235921A440E8695032247600C885A82ACBE34AF41653A33200FF59794FD98840F94745A607931C1A8A4450E67CB23A99B46A4368B6060B4DBBB5A394820A16BB139BAA15AF551B40A6B01232CB99801CDD4387F23AD6DEC96EDEA64B64A76FBFC35587508733C5E08BA4DCE5376DE978F4ED980872B3D4DCA59EB1BAD19236DDC0216D226BED9B723CF846AEE457B0EC23C59107CAAA49A3C879B761350ED319A828507BC687561A87841E56F37F4B4F6F77E253988F38488FF2A1E9B07257268A209F9B31705BEF791236CE9C193F2980AD38C5B9939189A618598CE90F435221214259C6555C7041E2A9A12BCAD5B86CC04842D992834425A10A3411F5609AF68A525290320CC1CB607974C6D19B662122245991EFA06CC6F075E84F2B025018F9C25FD45802D5699F33205A71D6404704483BD2C82E92BA9457926A45BFA0985";
-        textByLine[x++] = "sk = 64DBCFC86711F74046A26641DD9065F197AD5F2C8F62056B9A2B027452B0FA07241085AE275570F7B248878BCD2664764B76A810C401B16A2DE82177C0B93C7F204823643FB92978EF23A81199B9A5C04966D94D59A13270B32AFD858F61074BD14B6605A999F940194A127E21507416158BD22155C7C46AE229C57AD4C1D4517BF1977C47A73C1E05998352A9CB76BE6D17329AE9B1E42A08499918029CCC4BA00AD507AA10A18D96C5B4C40A78A9F23162F20344D61811323FEED16DDC8635F14C9DDB879FC3C5678321AF658CACBD3236F9949ED2F1B56A94B05FC0CEC8D737B434C341C444C4271FAA241487C130CACAC5AFBBB0B7558372356D5555839D89B9D3A47AE3B9CB596920CC0C19C97C389ED76B2B04C6A764A363D4229989C0D82986889840F4FC716A9A0F08530339B89A3CE468C59607BC45215E771A7E7A86A3880EA776A128B08539655A1D83810AAC7FF0C589DFE85CADCC91AEF6268115C5E7275D4DF19264E98A40275B66F00010F54FF231CDD62ABF2DC8CC29D6C3616BA123156049F667755C8A58E93DFCC640EB1A59C6F49B3B4845BC00181FB46279A02219937395318F3D943772EA71C965B15C272D5C92CC71E025147C3A4263BFCB7490045951DFE91F027305CAECC152C09150B1AA4893845DD4330172B3DB2688A4FC6D9FA9776C988A664C3AF8C5A081C9915160A5B7F61B1956CA67B28A63560762CA8CE9260B50827BE105BF45EA56FD8A2C2831ABEAC08F1BC808FE2C3654030D41507277638DCD06BAFD909683E6BA5408A3CD358CE90C69A0959FD39169E96BAB584B4CDA80C6C0140574D4053B109BDA0C6E05060628240C41CA0864BC0C516C6D1C45C308125377464114E82D67958C886C5BF0D17B2776A7832A330356B7BD936DCB23BA530B8C63F8583A8051923CB408C01FEC645726608130A138E6306D2EE0842E917617AB464712035F088F8F759904550E2E0681F95453BAB9C61D16B1C2D64AB37C9F787B1976C6755D27C9BE181C44A5BEA47B9A6DF9ABE394B894106A03569E130C6FEFABA53A583F7E35781FD5638F5186132C0116D85B965A81B1F55647985EC3F58023574F49003F67D1847C44A40D48A2D3D86A0E66505037B1A9898BE7010D98C686D496C646BABF8F998833620E287B7464F8005BF4ACB8839D93A311E99CA4F889B123B81F6E740B604CB86464837BE291D1F4A919B07DBCB9589A228286EA1FF56554A818439A3C8F1753B459DC557ED135149553D7D82B1D8C0FCDACC3043729D6EC9511C6A3F279783A2A8457817DF77AC945450732D148F8964B83C16E7319AC67ACB7FC903501D466FCFA22EE13A7010615BB7A2EDAD26FDEC633397516CE0C36D2288EF1FCBE2E1B459348CC6EA669D8810740B2B7581A9E1F62825D80C903E57D40732ABBDB7736E8A1A1EA9A20D217D55B5355AAB672E61AE0D183E660C182B846161147AA1426E34269636406CF142CFDF43982A076BE1AC956E114C316A7D6921674F6CAB0FA0C49C91E01CA7FF76B61D06C13701892E208390EDC717447A2B01C8A2D855C7487C37A0043644B26FB3A446774BAEEF30D1A09A3EA9680F52449DF85262437B14AFC2B4EA62504F443AF0752B97620BA8145B396CED5366DBC9447C010740614360401BE32903F2680817542B356A7A6FF830E944B2AF872779F34911D9B99B0A98F3198198D73922F5567ABA3B8A55B2341FBAC3A2A3DCFB46256885331417F4EB8C209C235921A440E8695032247600C885A82ACBE34AF41653A33200FF59794FD98840F94745A607931C1A8A4450E67CB23A99B46A4368B6060B4DBBB5A394820A16BB139BAA15AF551B40A6B01232CB99801CDD4387F23AD6DEC96EDEA64B64A76FBFC35587508733C5E08BA4DCE5376DE978F4ED980872B3D4DCA59EB1BAD19236DDC0216D226BED9B723CF846AEE457B0EC23C59107CAAA49A3C879B761350ED319A828507BC687561A87841E56F37F4B4F6F77E253988F38488FF2A1E9B07257268A209F9B31705BEF791236CE9C193F2980AD38C5B9939189A618598CE90F435221214259C6555C7041E2A9A12BCAD5B86CC04842D992834425A10A3411F5609AF68A525290320CC1CB607974C6D19B662122245991EFA06CC6F075E84F2B025018F9C25FD45802D5699F33205A71D6404704483BD2C82E92BA9457926A45BFA09859898462F05BEA461ADB40FAACDFDDE363C06F58BC756F0A8417DF63A66D3A544D82C2F1BF2E6AEBDE5660FA73356982E12999D8FDAFBB3CB186341D0386DEAD0";
-        textByLine[x++] = "ct = 801643E70BF9CCBF9A3BBB1D50D067CC5E8C23A77484120620B00D3DE3D9B67E7889C01EBEF887F58E204B0D431506B7E59DDD960352A9A726BC0B917E10F331B6A97B60656CFA673861CCC158D805B388521BC382214D69FD76B0F1B407F4148E70B887403A5D4948886C99B8D4008A4B9C6AE1B728F449D9AB387F2D16C022F1BE95A40F951CD0C633C9448629D53C3C342505AD29964F3DB78F7768FEDA464F4540C2B620EF5C222C235353724DE528CCF13023991B85670EF4F1B038C713E160A2E89F1D64D37F495EAE7E69A7FC269243B195D77A093B2CBCACCC16007B4C7B6C88957E686F8A19044D8C835A822BD01B68DB3BD633665E800E6D207F019D834117F8649ADB51F78BA4F6710FEA161DE5AD47075DE1D642A3D8A68A9C9584119764EE9DE238EFECD0E99C3018C77BA448999403B13BC3C94C437B72C2B8793D4EBE709EA2485547E667059C7A022C90360C3AF466B3C40CD612DBBEA25063A64A6FAD30C971A791298847012D4ACC02FD171D0EDF5B0DE77B0EC86F1A7F358591AAE67888B8D4F7766F6CA36B2746DB9A97ABDF099C9E55E1E6206E5DDF4FCA6771598D0FE27A5D8FEE9DA84F2B8060DEE6C03C956778CE3DDCFA1A4D8AFBBB138DE20733B58233545EBA45718DD83B762DDDC2D05DF4F8AC71CC8FAC17AC21DE876FE70FDE9AA4A13CBA4B94FDE275295851B1D949011F270A39D7FA55D1255396008D7782ED671E5208C367CA8BE57248FE4B2B518E709A7A31AA0773430B972BAE478E6E0D1F219FE7A682C61AE79321940545D2CD95D5A8E098FAD206B35C4DE1B974BAD372AA95C8F464C286ECD2BB2A5F59EF287F0BB80A84B075A2DEB505E38B6F32AE92C1C10324BC89B11287746300588DF7E1156CE28946FD7DA6D979A837C716DE8B3A7C8C19D38D8AC5C7550B5EA703A61D86B1D9F8443F112232CB16BDB0990EA79F89A96D8111A1CA1B1D6073E4AE66062F06267B2C5CFB8ACE5254166BB4C08E2969E661BC429E20200CA5117BFF3566AB415AC1FCCAA4692F05B26D13AF7F747D499EFF11893DB9CDAC66C53E35DBEDC80488FE271C";
-        textByLine[x++] = "ss = 0B684BB1DD742F660EF898B9A7C10A012F12B34C889C8A5BD36822618A60CD96";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 89";
-        textByLine[x++] = "seed = 96D9A06F88FF2C2036FA8E914B89C765E4A510B468DEE40F914F78858C811857EFE9FD0E17C0048E7389E8D996B7E2B0";
-        textByLine[x++] = "pk = DD08CB516C78A4619895F576BC8B3367F99D50AA502F365A5AB881D18044150539084A918D43A002665F4DD155C6BB9363127412DC05DF9C9C2DF480937507210C8A1A419C9CBC840E54A0734C8A281BC5FA709A2312798C998B9CEC0EA947C0E9FC128A51700A21BE8841395A2552FFA4645DC67212117131DB3B54989BBBD5569AC4CC7E43B4B6A012ED87757F46A8382CCF1C561868CA741E51A554393DE04980D3538FD59C6F1C043E6378773675BD3F185F1CEC759AC091519AAFA6A4367E19B376011ADFD48D34521E47B10BF497714F6464388121F46A444CA791AB9B84741518AD082153B2944D61A9AB8689410A7424B653443A9089AB110DD83D91F07ADAD9CCB6BC05F4A34133248524F5347F2473AB0C18B2FB3DA280A8364464CBCB1C62DC7505B6C2CD057DE444BA218BA49ECA1142281E971BBDF531CABE6B7CC6892AB7B304C6D8C1137ABF1BAB7867AA308C7690AA29CBD9DCC37C7CB627BB09F7DC6609B18A3C92BADFBA6560574BFE70B4B3578F1778785754146AAC9E2A890D368B7144E7B95E4516ADBC2ECCC82E81627935BC455D9397FF14828A8C0A84F5A876990D909C481CF0668F9787B9F87B7604B392443D4D16A0F201057D578CB7411532528C190523A06120DEE1A291E55D0FE860821B9647D289158163B19748A1477FA31B3E7C048CB93287A3D7760CAA0A0BC5C880D6723AE61F4FBA744808AAE2E3742016C81D371638B883447A1E3DB611F241255BFAA48811397989382369CE7A59A3A17C559FA29CA4B7A6751526C1DB169DCB7FE00A146F6033CB44207836C405A4AA1C1274C9206537C1B767C9948C533E836A2BC7373C10C7B149EC2CAD5BB515186ED9865968801DFAB0123E3AC729681754265E8C9A3E9745CB9A770B2AECB473631184832B086A7A2217AB2D553D54AA431567A52F25078C10AC6F206E1E198DF76CC6F8828B337685FE84ABC3151BC6817A98C5BEB0DB1B2A4A28A7580747B6330DA24561C7CE37D8750952945CE7731983B62A1025F322B515E47442B05A01955B4AD8AA63856345151C8142718E7412BA20AAD10624CA489F02FA05307D7163B35BA6A4C5024B70BA27DB0DE8D64BB8B55C83BFDD24";
-        textByLine[x++] = "sk = 4A057F90101EABD7270E3B51EAA016E7C88B931BAB7839776AACC82FC99530E8544A67CF487C002CF289C57C0E2A4811BA9B168A20B5F78208E4B615DD9354EA67C919673B6E5560421776013749C3016974C6044D3B92F585856437B2F7B6627DB363260A0F6138445AD21F527592D0FACD7C40BCEC70C75C72CAD891B66FF533AB40C1989816B4C64177B397BEE52A4A8CA07CD64997115D339CBAEEBB53A2FCC42F851A6C88766C54B0C6744E41E3C1E0C6B3547BA890129641FC10AF94AC12C623F44490967242F9845C4F360BEA0C3AEBA99FF0984C8C2872CE400F8E924C77741D8A861BD2BAB8ACC4BCE2A34324346AED98353E14B52E27890B984102943A7378B641B6C6425441A57C9F1D594CEA351F3CA22B74EC09F47714F7B8B41C186ED6548C5B141335A503701459B30017F364180BB4635A83CF0CC2B48293C0E215239241C656664082E97402478D1FE39A9194B8B585C3FE024ABAE8A60EF70DB89336E06214621AC2B69114D8F0A03E2993715241E2E7B45B852D0AA12C84E941137B17A6379B30E31B64D64DABB6935B758AAD601E0FA980331319792072CEA89FC4819B54F9501602A0C46BB31F9A5165E5BCBC4453B71A04AF9573142C3ED98C3F88E83B0DD4C2F4370915A71E3CC5C29E51C9CC1CB38388B9812127AC59AACD5A2159F34F0F40ACC0712E106C87CEF441DEB6089C3196DCE4B6B81A559C0BBF7E4097215795549B52857868C907A08497AD0042BD128460D1C88D78B29FC76BA35CCB7748C6CC85EAC37AC05A63E76CE24A81D9888D42C83796A9890C09A604CA6E5BA596A3575276474A63224E0224048911BD501C60BB34871581CA0923BEC2790740C26D3BABB74063B9F668AE037C0A656467EED87B6F6A18158C4E9C753CC6A570043A278233121776198006BE0F28C5744B98F3E33483387B56B6AE138122DFB46D0F1014ACF383FAB60023D619A9EA7A3355536BEBCC3670C742C52CC9312BE8E182DE09AAE8B4BAD265C8CBFC6715664DD8C67062DB10088B6D3905A5FAFC415A0337D878CF4FEB29FA307761D981DB422B3E5B80EE9ACCDD08CB516C78A4619895F576BC8B3367F99D50AA502F365A5AB881D18044150539084A918D43A002665F4DD155C6BB9363127412DC05DF9C9C2DF480937507210C8A1A419C9CBC840E54A0734C8A281BC5FA709A2312798C998B9CEC0EA947C0E9FC128A51700A21BE8841395A2552FFA4645DC67212117131DB3B54989BBBD5569AC4CC7E43B4B6A012ED87757F46A8382CCF1C561868CA741E51A554393DE04980D3538FD59C6F1C043E6378773675BD3F185F1CEC759AC091519AAFA6A4367E19B376011ADFD48D34521E47B10BF497714F6464388121F46A444CA791AB9B84741518AD082153B2944D61A9AB8689410A7424B653443A9089AB110DD83D91F07ADAD9CCB6BC05F4A34133248524F5347F2473AB0C18B2FB3DA280A8364464CBCB1C62DC7505B6C2CD057DE444BA218BA49ECA1142281E971BBDF531CABE6B7CC6892AB7B304C6D8C1137ABF1BAB7867AA308C7690AA29CBD9DCC37C7CB627BB09F7DC6609B18A3C92BADFBA6560574BFE70B4B3578F1778785754146AAC9E2A890D368B7144E7B95E4516ADBC2ECCC82E81627935BC455D9397FF14828A8C0A84F5A876990D909C481CF0668F9787B9F87B7604B392443D4D16A0F201057D578CB7411532528C190523A06120DEE1A291E55D0FE860821B9647D289158163B19748A1477FA31B3E7C048CB93287A3D7760CAA0A0BC5C880D6723AE61F4FBA744808AAE2E3742016C81D371638B883447A1E3DB611F241255BFAA48811397989382369CE7A59A3A17C559FA29CA4B7A6751526C1DB169DCB7FE00A146F6033CB44207836C405A4AA1C1274C9206537C1B767C9948C533E836A2BC7373C10C7B149EC2CAD5BB515186ED9865968801DFAB0123E3AC729681754265E8C9A3E9745CB9A770B2AECB473631184832B086A7A2217AB2D553D54AA431567A52F25078C10AC6F206E1E198DF76CC6F8828B337685FE84ABC3151BC6817A98C5BEB0DB1B2A4A28A7580747B6330DA24561C7CE37D8750952945CE7731983B62A1025F322B515E47442B05A01955B4AD8AA63856345151C8142718E7412BA20AAD10624CA489F02FA05307D7163B35BA6A4C5024B70BA27DB0DE8D64BB8B55C83BFDD24A24E6203D9B1AA5CD06C44F048DA7225E33952617F12B4289494B3969857C2FF8B2809FD40008BE70A6B184981101724BC3D5EC5E1956B510B82FD5AD0668A5A";
-        textByLine[x++] = "ct = 9A9383485BBF6F27B7CA22520E0E6FD5BEBDD764F48DA54E6AAE5488C01809F6B3ACFB8BE40EA79B5C6CBCF05AEF41B899044475439A267791A8329DD6585E682A513CDB249898AA0E37B83738B0D7E163CAA95DD47CF7BB9E49E075A25FB59FD912C69A53B1D78628BF9A0FDA31A4F86FEEF4B70F54218CC76BA4C19C3B687BDA6C011F3D5CD3E0CD0E98CD0CCE72536B46B12AFBBBC65FDB516351E0F2E2B10EFAEDA2DD2E3724A9D62595E31A085409EFAD234CBF9B263EE85CC33078645271B873F44D3BAC7178A887CD38F4ADDC7C07E6ADF3AA314E0145A308106E62860387A1E25FC8D4A83BAE34109394D747596D169B61A9E6E15C58A8AB7B514F03B6099FD1647C6B1A2B2D9029BBE2B500843BC13463EC272749696D74FC18683414239D07F74A4A67E2FBE2894E214C68D79AE7E8BD6B1D4FC32E7A81F79E609605C7BC72A94B5178217B36BADF187FC1C655717D217C793F5279004AE942BC607CB2283957BEDEAD10520D4731F5446204C9FACB41875F5D474B4B8215085991EDA223166A06D660D74A601B7EBB1FE1A6C08C4F6B4D96FC1A5F4852F6F62125D45A1B726BB575D08480D3E6344E961D03E5064E3A50A0771424A0FDF5E1100FFE8655BA86C492E1E081F3DE08BCC1B889F44B50F4E6882F9D0A2FD4A1DEB96999C057A76C993D830D0B4AC819E1F93B232CFAD7EB06286B256FAEEAEF7CEFDA3BA6393B29F6AB513051B35BE26BE7DA87614036E02AEAB9474B0C78F11C5B78C20FA2A82F6B2ADA6B1BDAF47454D6D74C8F534FAF8BE3F0701BF4B94C960F99CF013304599BDBD5B5B88260E484CE5B12969CA87F42988824468778E867EBB7B3703DB69A45756FCB109B876056B9F4A8F8E8892B1E330C763808E3CE73B801ACBB481DC4E34BDEAFC725F897AEAC54BF4D54D360A514A9E030D2E2B5E38EE19972247312BACE09B951B6DAD73DDD597F3F7E15B0CC6E8FA2CB4A9E6B59BC33D1FE1633434AE722F1E2CBE0FCDEFC61C0E27E408049A3C5A2FB7265DB303AB1A92427A9E8AB4B3EA9C9C02E3F2E8466BE8D2AEDC75B4859768B85E7BC9988A1";
-        textByLine[x++] = "ss = 0D5443B3BEF02D9032963B2CF16A3C52E4A8C23B5DBE33DF592ACECF37CEC0B6";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 90";
-        textByLine[x++] = "seed = D26CE360D399BF7B89DC364AA7AC06BB513EAB8F527383E93E30727EDC3F22C262AA0EC70257B39EDFF0630DCDC1B79A";
-        textByLine[x++] = "pk = 57178F4476049B9483F4357AC027B219226FD5A9C2B9DA1F45C9036D55411BB3C8F941B75A844BAA7388DDB811ABB4CB13D003AEE4AEAB466A592B77041BAE4733B5F1CB6CE2765778B02455C5536A02A2DFA640248C6442398F48A5B8AC7B6E2630B2C1E872A3E752DA777EB4607875E0C771F81CCD633961A5C9D5987DDE31439DC131F536B083709F7F072DD75533F9C984F08C7FC952878F2B9720DA006C3B60F5298ED3921205604FC6CB969AAA69C3F3A230B3865A84A555925C895C58FD19C3B98B7B2D2ACB941A44B7E519C7D22AEFCAB1DEF18429713772285DE2CA225B5489466322538BCE1ED99E9DAB3443E47A5CE5A9B284008865A4177666345237CB7B796B9582DA027D7AF4AD28F558E4D7426CAA80C3A19400E286799CAFF5B4BFEA5CC04631BF72684983EC67943BC955582575F399FA5C4BF125B65BFB3F2603458C2A1B23925193F6B322A30BF8A566C43032E722961A09386AA2459C249415CC675E27722FE83D53785E2D817391485C7A14C402879A84741B03A87818295DFCE827926B34CF045385F26EA08923B7462C5FCB7348BC4A2C207C5D28CE8D71B77D998FDA190C41DB9EA45351E35C5A4AB51D42702856E8CB07839B89A22C851654AE0CABB3CA66FD0007942789B43061382079BF9B32D3C07D1D903089A78C542113CF086E7D1319FD37B282974DB3C41B08E1899FCA1AB7F6358AD204A0B937A9D91266DA6ED5552BAA2535C2EC0EFAA9A606DBCC8CE013C1123ACEB73809761B0B7523F8981416F819D0803453B58C2BD294AB55B3ABD7873371831845A8F4449B798CA3D18A5A4F183B4B16C870F21D36F00D6552907C11C76C547B10C27913D9A39E6340B8D4775A919868689C19E6CC7659C5263529E3F840C0182DB1698FB43663E4545B9695889924B5D27A41D014CF8150BB46A59ED6C3890E087B2CB043DE68CC98288A1F2BBEEBD4AD7BD0880F86CB7093407F393C6AF5579ADAC1F5A35BF08C07A12810B8D28298383AE6A298398B022AD50BE3408CA5D11ADC6510D1E561EAE2B62FE5968E2C826C99A7D9BCAD1092A559CA57020B6C163D5181CAAD6A478AC9AE82EE27F7256F4D4CACDDD43F45CFA4DE4DD067CDCA";
-        textByLine[x++] = "sk = 7ABB8C9D2275C12685BE83C95670454D46C2DA45A5CA2C80D033665DD6844EC49465993F8F48513CCA870A2B8B80E83C8AA712AC22CD62F0912456C69950A50568CA9C1B257B761A0A452681C484AF60B78F7502DB391AB51A0099262AE2D65A161BA0111991B5EA15E355CDF0EB5C84C49319169BADF29AFE15215712299935C2F52707A7DBCF5656568C573E3DC927593BCA24C1C7343C268238243018320929C469BA99A7335500032C33EA33A337ABEDDC3998C19B27F92F6239148A7C0EEF419B44D5B2920064EBE56F629319944A11A16868B11887CEA11F1D55CF8981738D281BAFF1877BE289B4527EB8A71608B0B292301E4A170DBBC73913203F00573711746F2E021E70499D25559B8A009AEF92A661794381A4ABDAE16BA2EB8DB69B67B5A2CC058142B3B9B14272BFFB6C22C33008A0D3B4D5981254E28491D81363B24D3ABA3B081B9BB7D5522CEB6B77C9403ACC6D10DB063A68A9D49200C1D6752C36249339BA67F74F79434E75F4858B756387A9B074F32179C958490BC2E6CB10B3615059E50C143BB5D8E3C374E44051C646083C9DAEE1C8625CCA2022511C1B490A593AB8436F76C31DFB8270720B21F360CD8C405A1185927F2A2BE09CB81A2A41B4389291A56D7CC90C30699B3BF131DA3636E9FC0BD4E582B6A14653D838CB2370E58402A86B65C58C9C70A3BA0BEBBA2DA179856C92C730B4E2ECBEE0169408F781B7388B15A6480A3514C0BA5CC1C2545F6547D06588305561B71A514031A5132654F980BFE9E85D5F415422E2815DE7C078229740E122B876380C4A80AE6312484C2DF2C0612EF55F44C9723FAA06259C94947067E54CC3C4651D85BB316FF59C462A67817517004437ADD183381BCDC554AA820118742901DA442679284E0590C4DF360D45E428A0A47D397C38B45791FE63B008D2B7830B1EAE24005172311736745F935A43F53ECAC4411110CB7C335D98B2CD756158BB35C14514C295139C5D46AEC9DC377CB0CE7F2040B0852A75FB242DA10B6B2A2A152B71DC7CAC18C26B2E308202B44D42F17E6261CBA326252FE06C0735B647BB2857178F4476049B9483F4357AC027B219226FD5A9C2B9DA1F45C9036D55411BB3C8F941B75A844BAA7388DDB811ABB4CB13D003AEE4AEAB466A592B77041BAE4733B5F1CB6CE2765778B02455C5536A02A2DFA640248C6442398F48A5B8AC7B6E2630B2C1E872A3E752DA777EB4607875E0C771F81CCD633961A5C9D5987DDE31439DC131F536B083709F7F072DD75533F9C984F08C7FC952878F2B9720DA006C3B60F5298ED3921205604FC6CB969AAA69C3F3A230B3865A84A555925C895C58FD19C3B98B7B2D2ACB941A44B7E519C7D22AEFCAB1DEF18429713772285DE2CA225B5489466322538BCE1ED99E9DAB3443E47A5CE5A9B284008865A4177666345237CB7B796B9582DA027D7AF4AD28F558E4D7426CAA80C3A19400E286799CAFF5B4BFEA5CC04631BF72684983EC67943BC955582575F399FA5C4BF125B65BFB3F2603458C2A1B23925193F6B322A30BF8A566C43032E722961A09386AA2459C249415CC675E27722FE83D53785E2D817391485C7A14C402879A84741B03A87818295DFCE827926B34CF045385F26EA08923B7462C5FCB7348BC4A2C207C5D28CE8D71B77D998FDA190C41DB9EA45351E35C5A4AB51D42702856E8CB07839B89A22C851654AE0CABB3CA66FD0007942789B43061382079BF9B32D3C07D1D903089A78C542113CF086E7D1319FD37B282974DB3C41B08E1899FCA1AB7F6358AD204A0B937A9D91266DA6ED5552BAA2535C2EC0EFAA9A606DBCC8CE013C1123ACEB73809761B0B7523F8981416F819D0803453B58C2BD294AB55B3ABD7873371831845A8F4449B798CA3D18A5A4F183B4B16C870F21D36F00D6552907C11C76C547B10C27913D9A39E6340B8D4775A919868689C19E6CC7659C5263529E3F840C0182DB1698FB43663E4545B9695889924B5D27A41D014CF8150BB46A59ED6C3890E087B2CB043DE68CC98288A1F2BBEEBD4AD7BD0880F86CB7093407F393C6AF5579ADAC1F5A35BF08C07A12810B8D28298383AE6A298398B022AD50BE3408CA5D11ADC6510D1E561EAE2B62FE5968E2C826C99A7D9BCAD1092A559CA57020B6C163D5181CAAD6A478AC9AE82EE27F7256F4D4CACDDD43F45CFA4DE4DD067CDCACB2E9159AB5225A75D02268AF2DAC89A0AFB33FE83A45F552E2BF542868C0683C95FA08ED106CE84660E8A4C90BD2B22634E40769AA0090A101C5DDDAD45EDC5";
-        textByLine[x++] = "ct = 28FBA8192211A24D30E5DF68E14C452D8F7B7F3DD73656D44FDADB8656B781C31764CAFDAC1FFAB8DDBEB023FE21C204FD5630D5E8372BFA70FCB74361F3E94206BD96EB9BCF2A31E81B8A224667EE902331B52161069290624E3AC946138A8C781054FAAF5204E6FC0F35A5DAB5872F1A550FD4B1AD74CC5FA7803D46C892CDE6B59384ABB78EA50CC1B0156821E3B6669A6A2E1CC7D70E8C3FA756205CB00F453ED0D4073FA32CC14BDA285D6C055A975F1547EB854D8154E6B75E883A061C403DC58A350462AE417335828BD9B41795276A20582E936A26AFA3E716AF33E86A5801F931C8EAA3CB1068F16C762B2BEA582E646E87C01B4C9CB91A7CD8DDB06565332D982DD4879531DEA11821B751197800F69A4AEADDA31665E8AFCF304687F1AF4043A47CB3FBDBCF0FBE3ECBB2AF4F13A2160D30D97D46E285A279B03612634ADB40DCD6672FC4FA0DE5F26900B91E6BFB88B2461591161C91F3B241E1F3A7427CCB779DB2D491B57EA59369D7795892795148DA29F99B0920EEDF24D9FB749AB4A89F80A5FE4D10CE36682D9D4F2D945442195787A632069782F2DEAA570CBE193C8E4A34C231B57A258F3C38BC7C6F9DB60D56025E443A5C1237F46D99BCC3BD55B36846E9A27F91847595AB61365240744158699624289C13E83D6715DB015E63A7492DFEB380CAD8657ADFBCCDE70586F82FCDE18F2FE33E715C025036F4974EFD5F74F5C05F339BB59E2D8943901FE0121AA3087AF81F76247386EE6F7D66840ABB52D8F736E0DA9EC804A2D50ECD583813D654E2FA0C6234E990050547E58CB450DCA32530D933092220A285D3A6719AAE4D47BDA54B13632EEBAD5C710D74C7249058583F6D4AEF476DC4BAFE91DA5757C843940E8047DEAA726FD79401337D79A43A4545707D2A38880F215E5A9E1945490FFB18AA79DB924185FCEDE354328A67166473958FFCAC7FD633D59F8868503A4800679B3B704BF25222C27AB32E2770C7F724176D7A196C0C05C4BED1804BB5FCAC957308808DB9AC5307317D3B49DD8B536A3B465F96729B667B3A86350C097BB19FD18DE55C4D";
-        textByLine[x++] = "ss = B4677FBF9553296D425365D1D4DBE02EA20BC901E12744E78DEECDE03638AFAC";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 91";
-        textByLine[x++] = "seed = C5856298C3CB6AC9787A0F30938537AB2635B96F6D19CC9522063360E7A5C88E644929D2879180E3E5BCAD2422B7CFC3";
-        textByLine[x++] = "pk = 88B88DDB2517569570E3B33D93928C62AB5680C31939A085255311D039144FFA338BC7633516C32144AB0A85869D0809B7AC8D4E4B6E6DF00CDF36600E4308F395C1A9821A47126623827C489AB73A68104CAA3F75558E596811417C966FB38EA85B703FD13004DB91E1EACE232664C06A8E85A35346B56A83E89AEEA01CF009A02223312397185D9C801AA5672D61A56FF22B34016B7B2B1C20B7B739CA5319206B1AC42FD991C2FD959F63471431035830E122DCE7CBE1C416E5A69D5A766D7959B5817177E6B29B450A7CE080969A3603B738B23916265852C837104499C8658E8CAB078BBBEA91B4A9E2A5394AACD8F2BF0F94107509C69BCC9B7094512F6A4FE9411B3CD77200F63087E4B205F40D9D08A6D093208BC2311A299E7C722C55F50BF01A75BFF5BCF95780A4496E00431E6978A6396C1232AC08F6DB5A2EE3B5CBA66C67B0C431B165FE83A62E0801A3E65F8AE30B0F2477892133BF9A1D03D4A68B96B726392908DA8C554B32A5C59A839661E77C6FCBE9BFAD441BE0BB9767A2368D216D1E136AD5B334F775C296C1BD69930DEC23A72DC30EA45636BCD242D5F38B91AA23FED98D7AEA5D2D173D33C034311807C480981C141821A962C92951FDD77906817F63000B966311F584B31BBC4AC3469CCA648BEAE1B4582697ACF62A832A455F169E07860EAA4856240A1E48814CC7393A2C7552B29911915250EA677A7FE3561229421BDC31C56AB2CDF41FB16040B7F83E198A581FEA0753AB8D388B677E693FEA102FC5E99FEFA215C178AC1A178E64C4227743A98F428B80F91BD1ACCCF8E4C80DF483C5997438748155538EDFE6445C7026F7CC1FBB8016260A0D86E19338D7255D84817929A026AC9C96BB215F125997E311F0807224D12322156BB4E320404BB6ED190BB4A1871EC9B274088B0D584A9D405F0AC08114391622F893D6CB8F9A11A9E19C803C4365656129514A49DE618ACA46B47317785BE7493218A5D6F879F121BD1A852110C5145EF7585A0179FA1C1ACA7C4B42109EFEF4886454807BF40A06064B88B740D0FCAB975B5D3DF74AC7BC20F4F8265F846A2DBC4A0DBB11C51840059EC11BF6CEFA3AB473E1CB0F0BD17EE0BC3C59";
-        textByLine[x++] = "sk = C5E71BA70A7FBD9046D9657D4A704A9BFC795C663CFD48C95F398AACF1BFF4B47BD2F05DA81A44F4D900D8B80BA98A1049A83A477012668207EE088E2E46C384C3623A201B651C1AA9A97FE2628B0CB21A94E4AE83514F97E43B23370AEB0444F1A806ED49487096896F629A115CC1BC34A1943347FA4B4237978C50D23E57E9BAC04A996480404234C398D8C9D2059278706E72244DF23C20111B5F0A94AFF729663046025B52CCC67813807B74DB53521D64CC88AC6BF08B659A4C23FAD33485C7511D6B2AE6497B7766A1EC455B217C9818EA85BBC117A385BBAB3797664557AB9675C2858B8FFC46ACE6A6A35C70006CA066226BE1D5521FC553196271BCD80231378016E49CC2C90A90C531AC02B39E4B1754136BE05BB653F3A7B17CB9D0A950B2C04F75F46C4A35AC2C2031D813AE2466149A657A5AE189BF8B898DB71C51571993106DAF6AA096400E78E129FDE3A39C3A4A28D37650078B80A505F656AEE9B2C04C942FEE7542176ACB9F532FEEC5A047C8CE2B18832F252394D73845305FE0EA9498DA4517D93ECC63836F976B0979181E0C4A821A9BBA5A62FB27C801DA1DBAFCC7D3CB5DB4E8523500BE1318184DF976F5C842D5950A9F26015CB60B6D9368554A9C6737B47B44B736681FEF583AEFB2083FD98691EC4343704BF5BB4AED8C1F99E41558CC72D549C493463037B99FBF8B431233136BE5166BF522A7064BAC3225AD790998F79BB510C42F0726E95103656B4503FC8AF37ACFD471BD2314247966CD20D95383B8214E1A2B5AAC7E8201312A53C663FA163167AFADE668F61779F9D82742E9AAA2D25A6C4C1DDA295F45F33BEAC46502F503B99C6473A0904BC7A3FB410F1122A16D073F2535B991729BD29159865B592194BB3855AB2899C7CD2A477C0AC24CE6642004B34DC26173D11B4EDA8EA0A60FCE857A9F7875B1F0574535A605B5344160C813EA068FDCCBD2839441D80A16ACB5733C2625739DB723A71EF0A8138761B81A7CBBEB679D2406F50557945A12E099466CE4619067A61AFC113978AED60025B2BB855159A774984F02E92875846BC60B5B88B88DDB2517569570E3B33D93928C62AB5680C31939A085255311D039144FFA338BC7633516C32144AB0A85869D0809B7AC8D4E4B6E6DF00CDF36600E4308F395C1A9821A47126623827C489AB73A68104CAA3F75558E596811417C966FB38EA85B703FD13004DB91E1EACE232664C06A8E85A35346B56A83E89AEEA01CF009A02223312397185D9C801AA5672D61A56FF22B34016B7B2B1C20B7B739CA5319206B1AC42FD991C2FD959F63471431035830E122DCE7CBE1C416E5A69D5A766D7959B5817177E6B29B450A7CE080969A3603B738B23916265852C837104499C8658E8CAB078BBBEA91B4A9E2A5394AACD8F2BF0F94107509C69BCC9B7094512F6A4FE9411B3CD77200F63087E4B205F40D9D08A6D093208BC2311A299E7C722C55F50BF01A75BFF5BCF95780A4496E00431E6978A6396C1232AC08F6DB5A2EE3B5CBA66C67B0C431B165FE83A62E0801A3E65F8AE30B0F2477892133BF9A1D03D4A68B96B726392908DA8C554B32A5C59A839661E77C6FCBE9BFAD441BE0BB9767A2368D216D1E136AD5B334F775C296C1BD69930DEC23A72DC30EA45636BCD242D5F38B91AA23FED98D7AEA5D2D173D33C034311807C480981C141821A962C92951FDD77906817F63000B966311F584B31BBC4AC3469CCA648BEAE1B4582697ACF62A832A455F169E07860EAA4856240A1E48814CC7393A2C7552B29911915250EA677A7FE3561229421BDC31C56AB2CDF41FB16040B7F83E198A581FEA0753AB8D388B677E693FEA102FC5E99FEFA215C178AC1A178E64C4227743A98F428B80F91BD1ACCCF8E4C80DF483C5997438748155538EDFE6445C7026F7CC1FBB8016260A0D86E19338D7255D84817929A026AC9C96BB215F125997E311F0807224D12322156BB4E320404BB6ED190BB4A1871EC9B274088B0D584A9D405F0AC08114391622F893D6CB8F9A11A9E19C803C4365656129514A49DE618ACA46B47317785BE7493218A5D6F879F121BD1A852110C5145EF7585A0179FA1C1ACA7C4B42109EFEF4886454807BF40A06064B88B740D0FCAB975B5D3DF74AC7BC20F4F8265F846A2DBC4A0DBB11C51840059EC11BF6CEFA3AB473E1CB0F0BD17EE0BC3C597F8D36076B3A8AA13B633650726F7E907806A0573402EF3AF129F611DEF1A813E15274A8E2BC08FE818B117BA28C5DFAE74D54FCDF6F20052F79BE333EDC8DDE";
-        textByLine[x++] = "ct = 72745BAA03797BD4DFD61069E1841746E8214FBCFEA37BFA0E04382A4F8ADFCB768FF51D96A4F052644211E0AB9101F27BF93AB7AB4E79F58811B21B33C1FCFBE62F3CD0A194E31791600A896C539908F16344CAB0F1E9005D823C4C504BA68CE2EAB9F9FA59FB80E6FB280B29BBF4FF298DD6CA50F27FED32B1B5D6A53CBF7193158E126DE6ECC10487375587122CD516BA7B809BBAFB9B609BD18D0270EDCC8B202A2EC005B79ED42BB673D8BAFC2829AF8C9A5F8465C09E8B20781063E8942C7C1F313271E9B97C06CA64486B63E9CA046B80A6C6D156DD2220B30142DFB08FA485916F2FFFFB5369841F80702340B010EF31DDF0310A901A53A4785ECCB99446572F3FE792EA077D0327312D849BFEE9AA08528D6BCFC18CFD86E935FFBF4D0263706DEF966670397E3F80CF9ADEC48E8422A429C49021206C988D0279853E7F6174B429081FA30E6798D6F800617474F856E48762447AAA814CFBDA0B31F5F988A2D13BB63106F4633926B8B8D72FBC199FD47D71251369AC5CC2B65AFB9C50C9029076E76508629F86C6A485B6C804EDFB52638EFADD177BA1B8EC79F905F37FA44E54F0C697A0B9AA6309CE0726C302579D02EEBB0576F4A142E7DBA74F146863D9A2F790EC070E07529B484BACE785B83CF735155733B47D03F6EFC6539C2B7D59A5FF484C533A5115EEB7A1016C14FDA7DB7AA6969369C3A64504ABF2020B75FECA9C8BC07D3727EF25F232EC426A59A605490507E378985DCE31DF8D911416E3E18721AD907954649F6D0F6B18030FFB6BC77F2C74AD702C3489FC10CAA41CBBC63F2B0D5C7700F558A7C296C6DEFEDB7FD4593230556CEB1CBC76B4B4C2D38BC128248540690141DB7228D25FF05B75596317F2FF8E658A008E18F0D2434702C2C122673375B39242C9D4BADBA5FD7F04549F9E27A8B9FB8404CD32F1EC17D02951B7743A3816B85B6E0460335BF7BCB3E992BE02F906CDFA5995A1A06170EC86FC1739A1C0B9018CE30D443BCEB38133ADB5A79F4EA961A97270CB1BE6CC9F97CFB91A5A26144BB3075BF1C888F49067AC5F7F92F04F72A0FE1A";
-        textByLine[x++] = "ss = 8F8727CD74ADD8D53F613C56A81E77D446ACBE52BE9241EDC9CFBFD44E771FDA";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 92";
-        textByLine[x++] = "seed = A28EAD0A08E7228AEFF602B16A1E752278B8ED1E91DAC67994F5ADC372E1D82F95CC390CD97AB9212275E0566C833FD8";
-        textByLine[x++] = "pk = 5900914FC65434AB614DF28F12E7206F50784D52417763B09DE06A433B1665CA88C8E303129901536B1C99D284F26954DFFC9A27CC773C365F42A3440F244012CB76761C7FB0108323F8224D5B6936A2A0ECFC0874D6139A9C300D2505A2D10D926B05CBE404E5E764A1B353BD5C34D86A1EE2230387857F97D0CA13382F2FFC8FFB23933803C52AF449C29042C4CCC7D06A2C3272786BE7CD4642588D90BA7599024428C055C2AD6232C02A83A27FA7150C1C503DC421410AC376056933D3305F76BDD399851E8952C110693B99BA35DC3A337B9BF6CBC370C6A69F593ADD08149D88606931B363A470B2E16B3F688AB1F1478B2B9255942B86718082A2663F7939E893A5DCE006DA504F38E98C4CCC36432A491CE18217932DEE5070EA27779697274457BB6930B4CB34297EB39C01923CAE32835AA7803722908E9B3C6B488A7F46676B1C4B4218720423A809116A41E59577C8C89AFA582A8A8B2BDA1009BC8B48E58D08A1B418F954460B8EBDE004870BD0B7E082D3C7AF5DDB4980C2ACB9510A12352312991368295ADC166BDF522AD76A59FFC974E4CB04FF8034896BC40A8CA508300E411732D8E729B78006D69482E1704EE70C4E8576C003964F6CE60BF7D5A2029C03A8B778B65556A70C617790C2541A9A8F37B23096401B984C99E7459DC38436D210E7186BC7F070CE1574A8C17298A82557612C19940CC1056B92B2B13A8A2F93E83D635190AC1C5E093891AA3CC6D9A98C5B30793FAB0AEC423B09BA6DBFF15D5E8522F86AA877000DDF9752F17B082768929AD7AE1122C2DA818DB93C52A1D921C7BA26FB857D3EF1C11D925635F050B4A89A59262438A7A7EAF30FD5BACAF319CE957B42BA7A1DE408346E393D231CCD545081ED338250661A65EB45D5C05C5EE73C99538A7BD4C65442A14759188037670746906B35484FD01B89526DBC94123975087402B558D3C611040C65A9A2CC4C38F4A871B1A764A170B85B5C12CCA551E6E466C8889798FA0359149DE8D885D11A3C94CA410CB9C91567750DF354C055C0E76934A72241AF2B01254922A708038E5C5658E2BA10D057C2E5851E08E31FD88AF2F84B0CF79A88DE834C1F17C7A5FA17D329CAA0";
-        textByLine[x++] = "sk = 4DDA3333B34F27F44BF9813DC1DB6CF44514B2EBA571B3208F1209BF2740D3177D9BC40CFD381BC045A6E371707342271CF861E5F8948E2543CE5C72C377B80C96616A677B2EC143F035A51F0188A5A44F0D5798B3D9AE1E4B381E038DBD854EEBB768B6CB1303D88297576575A5814CDB58F91AC9B9EC539FC212AD3AC108108EEF061AFE15B4B751057FACCCCFC3291D002FF4EA758E9C4781436967881D3969CCABE13789D65928EA3CA697A3E0E4499C0168F9599AE8447EE892094CB376D008979441634DD9475BBC3AAD9A54EF37A576E551455196E627107AABA907EB57ED2A38A5DB61881B99C5E3BD0EC9205AE363A40473F2E83FACE2BF613B3E87DA3186A2C60571BC36DC4D1BE99E8C42BA13745F180833880042BEA83915733038AB250FCC32DEC0C7B531BD6720A94E3C9DD784984F49CD19C14E74849F3C157B1F708160E4365A816936FC665682796406AB1E213DDA2130BE82CDB83569D6739FC7405090193A63CB0F31C3A76500A9F1C31663643DD55050EF1B7163768DBC35CC4DE9ADF01094BBC44556F681CD83BD1B44C02A90323832B8F6D3CB6F706B16373EE00762089B85BCCA993F703B1F4833A45497DE593794B700C24CADA428C9A82627B5F5663F08A440A473D5312ECE374914376749C1C71E1B8A17315432707D6DB0C4560921989C95D414C9AC2A28E3F226BCB608FD69CCDC5A587291B132E4597184871B8885B22700C1F1780CCC5C27469EE9D811CE1A0880573B7FD392B19374E74AB457D8B1DDF5680852067E02838450209CE87E8FE14B4C068C51E526F7E31CFDD7B10A642C37536926EA6464D0548876610AD3AB54E6A6CDB60D8F4727B3947F03BC8A06897AE8901F686B7B7F96A1318C2AE42BB73C393053343E18F7CCDA60BF2F5275C7259B8A6A77B9C9989FAC317D9230CCE67F14C5121E91A61E9306DE506989E96D3BE6AA5A7C6198912BA89457B97023872358A7B21BF2198CCA4653FE125188218236454DC0174DBBA7A462657C56507CC0F02309A6477E0BA6592BCD48C26C414C776CC126A346529CA972C3F272755612C12B185900914FC65434AB614DF28F12E7206F50784D52417763B09DE06A433B1665CA88C8E303129901536B1C99D284F26954DFFC9A27CC773C365F42A3440F244012CB76761C7FB0108323F8224D5B6936A2A0ECFC0874D6139A9C300D2505A2D10D926B05CBE404E5E764A1B353BD5C34D86A1EE2230387857F97D0CA13382F2FFC8FFB23933803C52AF449C29042C4CCC7D06A2C3272786BE7CD4642588D90BA7599024428C055C2AD6232C02A83A27FA7150C1C503DC421410AC376056933D3305F76BDD399851E8952C110693B99BA35DC3A337B9BF6CBC370C6A69F593ADD08149D88606931B363A470B2E16B3F688AB1F1478B2B9255942B86718082A2663F7939E893A5DCE006DA504F38E98C4CCC36432A491CE18217932DEE5070EA27779697274457BB6930B4CB34297EB39C01923CAE32835AA7803722908E9B3C6B488A7F46676B1C4B4218720423A809116A41E59577C8C89AFA582A8A8B2BDA1009BC8B48E58D08A1B418F954460B8EBDE004870BD0B7E082D3C7AF5DDB4980C2ACB9510A12352312991368295ADC166BDF522AD76A59FFC974E4CB04FF8034896BC40A8CA508300E411732D8E729B78006D69482E1704EE70C4E8576C003964F6CE60BF7D5A2029C03A8B778B65556A70C617790C2541A9A8F37B23096401B984C99E7459DC38436D210E7186BC7F070CE1574A8C17298A82557612C19940CC1056B92B2B13A8A2F93E83D635190AC1C5E093891AA3CC6D9A98C5B30793FAB0AEC423B09BA6DBFF15D5E8522F86AA877000DDF9752F17B082768929AD7AE1122C2DA818DB93C52A1D921C7BA26FB857D3EF1C11D925635F050B4A89A59262438A7A7EAF30FD5BACAF319CE957B42BA7A1DE408346E393D231CCD545081ED338250661A65EB45D5C05C5EE73C99538A7BD4C65442A14759188037670746906B35484FD01B89526DBC94123975087402B558D3C611040C65A9A2CC4C38F4A871B1A764A170B85B5C12CCA551E6E466C8889798FA0359149DE8D885D11A3C94CA410CB9C91567750DF354C055C0E76934A72241AF2B01254922A708038E5C5658E2BA10D057C2E5851E08E31FD88AF2F84B0CF79A88DE834C1F17C7A5FA17D329CAA0FF2044EE6A3BFD4F7033DC4BBD6283B534CD3FBBF1C4AF072FEA1BA37D3262D581C38C2CB5CFAFAC81B96A810AB749B61806B6D54C9F8CF4BF1BE0192423288F";
-        textByLine[x++] = "ct = 0D8BC4457354190EE7DDC355DE0923C44D93924DA766AF32E5D8502B4FD1923DEC73E2E4FD451F69B61BEC9F53E4B93358DDD86F3AA2FBF52116705584ABC83C9885BA16C4A42E0128BAA4ACA4B8E2B3F6B6576ED37F37F1D7B2C1F40ACFC397CCF90CFEEA19A00F9CAF1FDB0DF1F549F207FBF7BCFE2961FDFE294F9AD4771BC29C84107674FAC1A21316F21B03071F8DACF88548D2CCF37193DCC084246564D71E924EEF671318A294BF7DF19CAE582849962ECAAA825F37CBEAE370D1FE6B4E254038E807B5157AABD14CC04114340B0C10F8BEB246312318250F3EE1768263DA3A46FB6BEA3794DF130D35E53CCF6B7059817428A526783A436B0A07A1C8A5CE09E2F8B208D2F2E3D798942D272B535D8018BF23DCEDF6B89DFB3A53D7E9232AD05753193CAD50D1A3A9CCB5002481FB0ABB44A62097ECD52C77FFBAB2975FC249871AEF7A9FD3AF009E149347D306C587F50C8973E005B74D829AB6B997982A2832D41411B657336C1B571192B494E0C9FEF5486F4402CE3688EE99135A033B1B21BA62B673066E5CA00180836DFBD2BA74DA05766F282B8A10DEA1AD847D10E7B2F579694043CFC6E6DF27F9422EC204A68578B46AD277EE610D3DFF920B58A4A3332873794BEE16AC799236173ED2995ABF08E5E086E609E140ACB24853A0A37E61C0F6F89B16E4CBC626EDEE18841F8301C68EC65CB5828B38E830120973C580EEBC55A293A7C7C251018F1593EC6C009C42344B5FDB65250270861AA259F3F56A07C13221D8889F00474C92CF7074CA77ADA6653713E16EBD4D7223C16CB28E646D5BD10027378149CA92CD1DC5DF5E2CA1524ECEB46509E44281E84D65C07051972B03EB19412DBCD22613A04559D0A7863F1EA8F4839C39AFD582BD1782F3E14CE385445530348F0B73FE3C7327F08A8515FB3934C9A22169BABA110335B64724720400E56B62EB627378A73D5F6A271E2D328BE4C5CB1774B248EF787C7FE7E1D9C9FF0715DBD1FE5CB234BF189FD94A7C4C6C9E2A0F81CB787684AC60661BBB8D8B64428CD00BDDE4FF61E6D68DBD6A88C3A0E4F529CB2F701E";
-        textByLine[x++] = "ss = A66DBCFEE5B9980C4378AD4E58AB6E37307B03869B5BB8BD169AF2D77AD6462E";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 93";
-        textByLine[x++] = "seed = 92877D706DAF88EF3412EB143DB8CD91BC047A9A43B7ACDAA42523560DEE4C172697BE4332042FCAB91135839BF74AB2";
-        textByLine[x++] = "pk = 3629B44F771560C15223C88CF70005D91365E13C0040A79377468104752A66C4AA268AAECA53817A449353D27C75387D2A14242331BB16ECB8E7810D76801BDD3122EF9C6407439E5DE3CBA26A91E6C314A9FC543AC7CB37FAC5F4D24ADA0067CF3C97BB195834B635C9B099992C3657D55573160E26874FCAB1A8FEBBA997E22843AB7A7ADC3106897E2E9215351014B2DBA6F68074770B5AFCF4B5BC9ABD72C97C03E703EF473EF58BC8CA8A6FF0FCA028590E2A44A85013415B5C03F3A301AC06BF3D95691664C9D0C76D60015B0398AA44F778473C09746B50D770331C011AA51B1379530DAF2CA17FC5BCAF06C59E792F0B117FA2755E1F371EDBD17B584AB5B5A7C0C7AC0DD337562279C960A48A8CC63E53A992F516886BEA8E107588DF24C96098535298695C46C5E0A8C5CA4476EA43ABAC794B063160EC596B9FAB9953124EEEA8484AB8441A0B2A85B481858A2817E04C9E821A703BC9E55C28643A04E4B431ACD7C9E54368E7E361B1F23041439F0D24760827971CD52328793E029B634E792C96FC437D396EB61A08422279E853BC2501BD6CDBCCF16958BF4BC133438280E8B28F494A83F61F365646B22CB238EAA2554250AA27202743BFE6F4A26FB2234AA80BD7142CAF7646A5874BBFB0900F7016CA225A7F016BC015C9401A87FF339DEF0BCC7E95197FF4BE1728CE9FC4986B58BF933B2D2AC703AC0823AE701E3B5717F74583C5AA5156B744ABE535A9DC1CD42873A44C3ACC9080AEE873FA975FE78547BAD901C929C008BB6E9BA24AF9D285E7C139A54C72AD525E92384D7D650FCC40686404A8C931410E3C92DAF8AB090B5FE48C2435EC7A8F21295C2473EAE893C6C46B5E35868A91C962D15B4565461F067AE0036CAD3BCFB3B23182FCA257E7516FA25E00056144768311144FBF526E43B0A9EF797EB07346D78165E71A8C426ABF868A5C251CAAD2C4A038529211C6A3937098A48B7DFA9322D30723C460CF2EECB0C4B752CF310323CAA7EF39779C7754574C6A06A2B9A0A45E35D3732D490541FA7ED66AC5D5B007FC1390B1591A0F19A4DD9C8FB0D91275F80E14BEC0494BAEAE3C7AE947BD69827E1FB86388052C3BF3F8B4CD25A568";
-        textByLine[x++] = "sk = 51D2207E7C29BD90868C00CCF1CC9179E99895D90674571CCED7860962CB546069FAF329FBD778E7F95BAAF5A92DD8AB57321DFF0BAB97542EC5C408ACA59C31882B16F3139E60BBAD6C5C67C75B3EE62C22002093A16BFE30A0694046A319A08867225B3766A81231CA95BB1ADB6086E57B3CE5A47979B8CBF690DD79296F1C4B77C98268C68DCFAAB8BA3509C7D1C419B56187C447B65866E0A7106E33CC3F3A36C8381BAAF343C1C9085F7C893531A56D47403FA447A34B4EAC391B2D2A15C7F051720AAE6D4A66221159CB4B0F32508FF5B8A1AF3C08622A7A799622C35164F0A8C0A6B37E869A60EB454CC6DB072377064C0BA2BA48315CC76D884AA9D7B6165D0B945F82BCC09C65D6B85315935D98954915E127D726AAFC7C7C9DB82CB16A7580A6ACA450B619D2A983052407AB554C3ACC0451C5D008098D53A7E07677FDB65A3EB1B51D74A4F863507BF513E55823DDF927D55218F4390C3A672A37A1385CD43654D28BEAD7BD93A764C99198CB940079E40031A36029EC42A6863C66836BBF15A29EC5B7B1C1032E90BB5114B2B91A4E50A7A193E80D05CBA17D5B04A6D82B0B2186F4402ED49C322356C43AF162896B04D846A64A6718F2AB8DFCDB516D354BEBC75EF403B049C1829BF7643DC62AC426CE1346220DF94F5795684E81BBB8854CCB19B6044253B9BA7DDDDB1123C83FF575B2F66902BAA287B54B9DAA8A4917B248EC139653CA970BD936B5AA51E70163825CCBEE184D2FC22078253070591C75E67651B1286D755233E715E4B85F0F4067B4B43360E37CD76AC14EC203B2A853EEA82F9BAA3E12C52463A78E4F59293279BD1B1C5E35F1275D53BBA00B0E8ACCCC373B2465C9CA2B039586F4B43E47ACAA991B6CD26B998AAD77F54A6952B67C7A318FA9B6B3499CA8517A635A7E88A75A111B0D78720E98654DD9302EDE58621AA97B941A52B395B91537A8BA246B342680B5890B1F911F9E3B360D1241666203DCA693D6EAAD08B782DA628377420D0091AF7F4027BB4B920E345E9FC5C26732580FE63A745BA6461AB376013A4855A088404C998038DC3A093629B44F771560C15223C88CF70005D91365E13C0040A79377468104752A66C4AA268AAECA53817A449353D27C75387D2A14242331BB16ECB8E7810D76801BDD3122EF9C6407439E5DE3CBA26A91E6C314A9FC543AC7CB37FAC5F4D24ADA0067CF3C97BB195834B635C9B099992C3657D55573160E26874FCAB1A8FEBBA997E22843AB7A7ADC3106897E2E9215351014B2DBA6F68074770B5AFCF4B5BC9ABD72C97C03E703EF473EF58BC8CA8A6FF0FCA028590E2A44A85013415B5C03F3A301AC06BF3D95691664C9D0C76D60015B0398AA44F778473C09746B50D770331C011AA51B1379530DAF2CA17FC5BCAF06C59E792F0B117FA2755E1F371EDBD17B584AB5B5A7C0C7AC0DD337562279C960A48A8CC63E53A992F516886BEA8E107588DF24C96098535298695C46C5E0A8C5CA4476EA43ABAC794B063160EC596B9FAB9953124EEEA8484AB8441A0B2A85B481858A2817E04C9E821A703BC9E55C28643A04E4B431ACD7C9E54368E7E361B1F23041439F0D24760827971CD52328793E029B634E792C96FC437D396EB61A08422279E853BC2501BD6CDBCCF16958BF4BC133438280E8B28F494A83F61F365646B22CB238EAA2554250AA27202743BFE6F4A26FB2234AA80BD7142CAF7646A5874BBFB0900F7016CA225A7F016BC015C9401A87FF339DEF0BCC7E95197FF4BE1728CE9FC4986B58BF933B2D2AC703AC0823AE701E3B5717F74583C5AA5156B744ABE535A9DC1CD42873A44C3ACC9080AEE873FA975FE78547BAD901C929C008BB6E9BA24AF9D285E7C139A54C72AD525E92384D7D650FCC40686404A8C931410E3C92DAF8AB090B5FE48C2435EC7A8F21295C2473EAE893C6C46B5E35868A91C962D15B4565461F067AE0036CAD3BCFB3B23182FCA257E7516FA25E00056144768311144FBF526E43B0A9EF797EB07346D78165E71A8C426ABF868A5C251CAAD2C4A038529211C6A3937098A48B7DFA9322D30723C460CF2EECB0C4B752CF310323CAA7EF39779C7754574C6A06A2B9A0A45E35D3732D490541FA7ED66AC5D5B007FC1390B1591A0F19A4DD9C8FB0D91275F80E14BEC0494BAEAE3C7AE947BD69827E1FB86388052C3BF3F8B4CD25A568C7CA6EBBE17F30F8CE49E15C40C1EA5456F43624148EAECC9F3018F7BEB96BDFC06C5BEF7B6508409DAF847A64C8D30D0974FD3BA7476DC76C46B458A036D884";
-        textByLine[x++] = "ct = 5251A3FD441323A8700B3512AA8DC09F5A80E431F255F50B11F9620E4149A3DF356D4AC66F1DE8EB57180539384E789F6B469265BD7DF707636FDE163AF10E867713FBB02CF8594F3F747D7B1171B96A112FDA8105B32F69E48DF5D250485F4F4F58F6D17B843D70DFE552A69B7C9065E6A014CCDC3773C339999A3ABB1AA2C09FF8F67F6B23CD43B3DE1BA4C9F45DAC5F129506B76FCB4CCCD9BEB7AB2147D7501FB38414592E648D9C1AD3C05770251C535A22E02902599343C6009BDF83701A2492430939D9B22DD0E078491E7D6A0983C9B25AA917172A931C7C023C2B169CCBEDADD8BC4EFE6760AB37C37980F2BB76652E831222212E107D47053208F1BBFAE0F32C723C50EDDC4957B4B387DBE1165594C4CBE415CF0684ACF3D8C75AA5F14FB917CFD05978E064758762FCEB0A92DABD8BDF913CF62AD6D11C49C16981487263750659F894140A54EB6DED61E51B5FC94D70CBB6CB796E7BF9B89178DE14F3436AB39B509C050AF2B0523BEFD5FA227847B46B1C13EE0623FDB773BB8088DBD28155CB78F1E1B47E1B7E30DF533A36A8460592654812DD8520092A3C1079F7BA63C9094353A73EDD1D7EA1B9BFF15202924E1C90B07B0D493428004F9A3C8BABCC479A49B126793A15F57EC3183215D457C3A796E465605AA29693B627CEA05E4630F1F71B8C653D43EBDA5FDD434583FDE5A439BE49C5BB46269E2C99BB16CF206CA7994CEA21D4C31A9F9FC5B74758B0E78EB2A29820BC4E579A6AA6C77A3A6926728C70AA4DB89AAE6204312167373AD2B39D9E19F86D9D280CEE3699A39B49D1D6A81C461B03A2803C073733729BADB4392166E5312776A6510315DC8F2AF80B79B85B7A4905E257A0CD4F819B14F6B191A185DB6FE34250C0EAC27433E28DADD7D5C1DF06F60ECAAE2D1AC2107EF5B41EEC8B28627A9D2F7BE355E657079ABB928AC84C9A18BF2DD61B8C7A499C665D4A1D1262318A5A58E6FE5E605591D5AB9D69FBC54C195A33FD202B58CFA2859A536FD3039F4AEF8C8A42F07954DFB19C8CF70C1D7784F07EA74CFD82312DAF2469E9569AC680E5361F81";
-        textByLine[x++] = "ss = 75888A3F7603F185984FBC3532A67D2E939539E324A4867CF1421F259BC07050";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 94";
-        textByLine[x++] = "seed = BB4C0082CA4044B1FF60B036C9B0E0495D58667156786C530BC69D949A13BFAFF53798E456423D7A0E162A60039367D7";
-        textByLine[x++] = "pk = BE37C2C02582A708D02FEB86759511C62580D99A5121CA60D7002246176EE5534C1261B86E831297A95ED8AA7732B58F0975C4445BB00DB116EF36CEE951006AC2709551872A84AC9B6A2B97B7A4E15011335777687749E7CA1319683840C017A3277CFA13C73CCC3A62B7AFEE998D872C58D22482008AA0FAF7BA9B6CC59DA62CAD366CF25351525536DC58CB622AB259CB3A6707D0ABB088AC242338424BAED40C182B15A9144DCCE03456281ED2B9006915297FDB96E9C34EFB551369CA9CB0012CE2C9AF9CF90F2F616468ABBB89B7ACB5D18EE17A022A98B1FE2C2E8B4B1A2D4B3054D19162A243D4F0837E697F548164CAF878366B26772351D28A025B227BD1C135922A43FEFB55E3C37231FB188A37A6053A8A0CA88502D82A56F716313A5861F001C28678B23C7F66828DBC492FCE22CF1D300BB3C576A1C01F13B962DD1B1C2364900F4A0DB48A14CD103A7A5B535DA93DF79371C832B3E188BD0845CA95044002FA0C4BC92932E95180772DDB860B80063799B614FAE43901D7CFF686C8A5D05CC5589DF1C7841D0312AD4261C8D81ED48B4AC513A88DF3071D047D3380465F4A3A4FA894F6757BE0F99E124150852CB56A483CEE8C4F3F052C7489956F167E529A9C3DFC8256F764C78A4B58596E6CD0BA1C2C0E5ABA3DCF5C46A533647195A682092DBDF61FC497A25E8B9C8770BCBCA6C154629596F41C19879626392BE7715A36570985BA46DB7670D257566844A228DB612FE32386590322B4A864A6C537452A9DE020D2727DD1A0B066B0CB9D7144033765DB050C0C363E926107F06B94FA70813C3C8DCA862B98A4197BE6B9F230A4931B659608BA32936DA1904713C043718A8AE08419D0E34B26C6675B45451B392AC717A0E8F5245F035F65CB842EA68C7B2425B2550F12732402D852F5B7305975B588427D3DE1B48C9783B19C7B1E486A47414A76449C26F3AB37F275F80413AB159765797D5CC653F2B4542F4027C199752530B6F7B49477AC60791706A4F7610138C8B3614950C06072AC49B6A25B464374A4D2C31483B34F83792DB87D868A167AA08F8B2394FF5F477504DF1B1894FEE3E6BBF8218590936E0102DCE8ADF459D590355576E1";
-        textByLine[x++] = "sk = 57EB9E1E877CBAC8750E89257973465FC92528081BCED98496D43331EAB13C71848F76542F873121412E5B372C6B8613C303A9389AC2E3EAA125BCB1E1C6B84742A7C5245FAF8C01A2A826803A43B1F82A568574AAB051FC1067191A36EA724B991B1EAB28B08BBAA79AD243DCA24C8270655794B6354381EA57745C858468161B312ABD8E28018AB6007E9BBA3C458FF0E2B94B48BC04BC8DEDE533C8098B6A95204F28944FB55ADAD3084B78096DF75A5EC44736520A92FC2444E3A5C4A69727E84FFDC8B33B6385FA42368DF31EDCF57A5601565FF82F0F6A342FA310C9C022A6D3A6E3D870F5E5B6977579FDA405C495BA300279AB26897022680D8B16D196CEA4AB53C221947A527126E8222FEBA42F0221CB690D5ED74057911ACB25696AEA2339213993010CB54BA78C4C4AC3A38240C19169C78BFB349623D067613B94C283856F942B36772C211A19457B890D90CEF1586581853C98040E50FAC9F89934A7917DEED286FD7408011381795532515742A8D2902D2663B9E821B5F20F44A385994588F7F0C3EA6C4728FA1B63A5045D91BFA8E9786D86ACB6B32C31C83CA0086978A3756F23BD5D411B9DEA6A19A760C1CA24594C1890837B71609933534DFC986B56D05A04E1BDC101A125EC48732136941766B0B13E4D48638DD52BB9098CB711C3D257C560B829532581D153811E4BBFB59CC89AB062B3CA6C1D27BB47A933C1F3AD5AA398BFBB02BF8B3E83094DA5C4332229A06A961D28E298E6095A27C078081265F3D2955EACC0459330BF5012FB157D6EAC4D50F17946D38611D8BBF7AC3DCFAA6AD1086F5A30728EE53A07602D1248576E2C6F8C14C562F8BE9B84A3867793F80A36D6DC37C1D670F747C1B120B5E53505BA52C3D765B4F8A9A7346A417C466C9C8102E43B2D7BD410ECF76F15FC4581F7008AACA8F855AD98213D50D06141394FEDD78FBC0A44CF7403EEE35CAE02125BA15FFD656238D365FAC18C1CF81BB91609C6941A1FB196942B13362AC71D782FB194BBF9715538ABCA8415A4E1DCC621F92494780CEFF619315571FE054A4FF2578AD167EA3187BE37C2C02582A708D02FEB86759511C62580D99A5121CA60D7002246176EE5534C1261B86E831297A95ED8AA7732B58F0975C4445BB00DB116EF36CEE951006AC2709551872A84AC9B6A2B97B7A4E15011335777687749E7CA1319683840C017A3277CFA13C73CCC3A62B7AFEE998D872C58D22482008AA0FAF7BA9B6CC59DA62CAD366CF25351525536DC58CB622AB259CB3A6707D0ABB088AC242338424BAED40C182B15A9144DCCE03456281ED2B9006915297FDB96E9C34EFB551369CA9CB0012CE2C9AF9CF90F2F616468ABBB89B7ACB5D18EE17A022A98B1FE2C2E8B4B1A2D4B3054D19162A243D4F0837E697F548164CAF878366B26772351D28A025B227BD1C135922A43FEFB55E3C37231FB188A37A6053A8A0CA88502D82A56F716313A5861F001C28678B23C7F66828DBC492FCE22CF1D300BB3C576A1C01F13B962DD1B1C2364900F4A0DB48A14CD103A7A5B535DA93DF79371C832B3E188BD0845CA95044002FA0C4BC92932E95180772DDB860B80063799B614FAE43901D7CFF686C8A5D05CC5589DF1C7841D0312AD4261C8D81ED48B4AC513A88DF3071D047D3380465F4A3A4FA894F6757BE0F99E124150852CB56A483CEE8C4F3F052C7489956F167E529A9C3DFC8256F764C78A4B58596E6CD0BA1C2C0E5ABA3DCF5C46A533647195A682092DBDF61FC497A25E8B9C8770BCBCA6C154629596F41C19879626392BE7715A36570985BA46DB7670D257566844A228DB612FE32386590322B4A864A6C537452A9DE020D2727DD1A0B066B0CB9D7144033765DB050C0C363E926107F06B94FA70813C3C8DCA862B98A4197BE6B9F230A4931B659608BA32936DA1904713C043718A8AE08419D0E34B26C6675B45451B392AC717A0E8F5245F035F65CB842EA68C7B2425B2550F12732402D852F5B7305975B588427D3DE1B48C9783B19C7B1E486A47414A76449C26F3AB37F275F80413AB159765797D5CC653F2B4542F4027C199752530B6F7B49477AC60791706A4F7610138C8B3614950C06072AC49B6A25B464374A4D2C31483B34F83792DB87D868A167AA08F8B2394FF5F477504DF1B1894FEE3E6BBF8218590936E0102DCE8ADF459D590355576E161FB6CFC0F388E34FB28ED783C2733453005EEA03D3FEE4B01BB6364ABC01C304F797C007E4061F95C7D56CFC7EE5C49E849DDE3FEA8F25E7876DF2A18515C34";
-        textByLine[x++] = "ct = D5682B82CF6F8E75FC01DAA8BA62EEA37B7CA6542E074FDC77A64F1974D6D3AEDC8A6ECA7EDE0323BF8BDF992457F6A51BDA0FF3D28E86D9C03EE8C6DF8EC4D29FF51ADA1B580EE5445807D96043E1E0DA9567C94E857B2BA6B29B02AE4723DA2A461AFA317AB9C88CC20FFE4B92C997F8862604BA31BB363B49103908ED6A555567774B7DF0992F22B4C1DE773B575D3285B95EB8D99DB6FD6FC6FF46D544381F958583F872D0DEFC67FB830E8603E0E7A79CDFDEA093D34BC875254B757F35033E4F7E78B58BACE9AFDF113862786B03856210D3D17E7F8F3AA0E7C49DB45FB516C80BA374E40B3E9B6701BED90EC255D4A1FFBD56CDBE9C6C3E4035126C6C31005B48D780A914148B12683D6611C861B36956DC244A431C8FCD0A37F64445A9A22AE2FDB07D2D78CC2105215F41A8A83CB198216A04FD33C2E1B4AD64DDEF8B94ED9766B86ADD49DBDD6359D7717599F6EB5E1114C7C299FDFE739BF4AF545445BA05B4D54EBCBC6B1EDEEA1599433766BA82718F1340AB78C2C37F8BE21AEB87956557906B39FAE0CEE28B946BEC908AF395B75F5575020F9631C59A3BC5340140D7C314271F732440D87DA8FB733732B4DE06DFA4D61E44CDFAD57D0669127F50540675B5A20F3EF10ABF8443DF553298FFF1B0EC80FD05C44D2BE894CFF6D2DF7286E1EDAE013D44DAAE3AB69E3B77FE36D461290C3DCDAC41202B63817C5BC4C6F67A66EAF83B1F8D7C210DFC7CC6E3A1E129EF0BBE5E452C86C003B1EF0C1230F3934D0D1831ED8083708F18D423883481CE1E85DF18EC2DBAF46AB64AA2F8E50DAD6C1170B7AF9B727DD7D7F09ACBA680A2D0D97A4754FE4AF6E53E0C1A25DD89FEFAFB500DCEE707347E0591A0BBA03453382CDB360A0261315A664FAA94CC5479187CDB644DF0EB7384E8D137E3001046DDD5BEDB06B65C30AFBE082D21904796EF9F1CDF5408FD3D3F98AC93D425086AC10A8AC385E9B8D20AD1BF0359C15EE7D2B9187053891E4A2E9A9B3364A2CAD106BDA6C9938786051D554CC798F2319A4E29FD468622AF6298D2B19C5ACCB729D2BB043FF99223289D84";
-        textByLine[x++] = "ss = 87AE8B4AF711828997D80711EEFF79E912E73F789A86FCEA151DC52AE9565B5E";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 95";
-        textByLine[x++] = "seed = 121D90E70AF6204445D0DEB28AC0C108262719E9FD3476ACA74BBFDE89FAF04D8D5F89A624E8A75DB80431F0D10AD28F";
-        textByLine[x++] = "pk = 4611B241FABBA8F6435B0B4889A9403E60524F820CD8D875926A2D68B33C3134C90E9230B43CC743921623EB484F7C65A741A8C30CBDE4FC74A55305EF8588DB967CE70B29049A8E5C821B484390A01761F4850BBC916AF732AFE9A211419944E6C7457207CCD12AAC09C421BC0A4225F84727424B306549738B91EDA3A818E994CBC763C176795C1286019183CA6B2E2D3C8EE925937C5A9AD62306694724E0B62B68369A204B0D0D1B74AD9AB5158356035045416A8EB48483F11BA52ECB1E77BABB800BCD67245932A237F237410730114BA4241A295ACE13AE201B776C29613FA04A82050BC4514E8C532A0848A75FAC67177844BDA15368F1756BD4804B28BB55BB2E6C610F5E0AB9DF749857405DAD47C8B16B8063533B1E1C57D4DB06F8E6643216CC342B053E3861CB1C71F2F9B52518457056676064ABCD0041F1011B1AD3CB297A96200A96D6A30D2960161008CC7D26C1C011A00F857739E223EBD536C61748A1A9C792DCC7351210C8DC6C3E122AD7D9407975A75C3286F0AC032E5A655637C5B6A043AA840905D9623A077489E8CAFA1285EA271C25F12CCEB3664E3975F0EB6B25A04F18E4537EBB3F27405398D34718304E2A7265268367312ABA5C069B765361D907775B3041B391668DA99968C198E116530143C781160B80FB5D4B473CB7F60BBAD1B83A3C8A80D93EE4E61DD546C5E06A67DBB6C94FE82D7E1B963E744984B849864A22D535CBA8408BDAB3854BE3694515AF4A58A4C6C0204F110ADE12C0811036F9171635C00AF6A29652914FF0CC23E0E67E84072BB1B3A027591BA96959EF3373A3912E1D43AD63449EC2F47DE225767B94417A0B918BD83ABF4439EAD3090EE872F6C0C5967564DA6C4A3AD061DB656F3B8CAF970A690422B914C599FD606EB1A17A3A220A1D86B8BA7343E1048C1D4328AEB57214E077246B7421091821C6299A4B75FB1B9FA124C7F5B3B1F8938CE9DC7551D25898387F5A86BC9A1C49FC8A7C5902B8E2912405A592A8221816570362C43589AA9EEF609B0207C9E1F3B564AA6BE9A60AAD4193001AC4F6756570D983C8982CB3CD5D09045252960A068412F1BD67B83A217049D0685EC3D63D691559A327B2";
-        textByLine[x++] = "sk = 2A541BA3859E76C09675F97EC24138B384583A33C30FCAA3D7B1847788C04EF7113CF63D602740B90C19DED0975E4C470D660FDDF9BCB210298BF18BDE0569EB24ABDF3796D107288E2748C1986D2684A4E4396DA599992F63B895134EB331AD1B010569D02C113BAB4E1AC1CA15362F2C7586546B4AF6B2A3281BD691316EC4C31F06557FC387FD3446DF00A73AF0264FDBC51EE6616D54C4B29B1B80E44EB90B7727E7136A6CBB4E34CA49E49DBAA3BA3A71342F52CA0FE1332F87B2F1486C6AECA774647C31B00F387224319768FBE96C94F1887C3946D73CBBBA863ADEC9B6F798BD7007A061692E79B734A1A69AA6EA4CD133A78DA739B4E376D9750501E538477A6968F944C5D354A26B789AB90C63250530978BE6CBC85830715A9B4837690BBF67B89150B8BAB2459C3BB82EC97175A459A7EB645BAC79A0F4087240551C493849322AA0A3A25C3087C5D667FFEA5DD19197C6F3CB5FF4A9DCD61833783F2DA504A8FCB58E35B8DC1B26770B7C3D211CF3A9B979D8B1D3746250A74AAF23AA62B6C9ACBBA545A0CCBE0A1316D5A86CE931FC9A31BE4A764C0807928959F2ECC7427B6F344812FFA994748797284B25A26936CDA35AF397104E235B36B71B5FD9A5072B415D818A250800DF540DDF164257882A4126AEA50739F4957C823A3CAA026182B415AE54C40C8998417131B3924AF587022659ACCB85409C6A8CB9C4A32F372CE061437671B9D56A7E04B1A5DBCB1C0D53960C564096D4777F9A56E47197D1D9C7E144929CB38290066E39A3C25EF866014CABD01852A09168DF1A59FCE8BED6382D91ECBE6C38979B5B1617E58BF6A05F3318A64DF6A5A7A97CAB71CCF7069F1DC7ADA344006C604633AB3B542B6ACD9BBE19FA027C81725F2C4837109BC4887D2D669FCDDA0EA6722CCA228561477D9A456975E1AE62A25967419EEBC55E60203D9CC7B17C51A668A544805AA5470B1E84651215E3BB58447583B5942498C0483A3CA405CD71958C1208A3BD306CA71695D8290CF378A91AE601DBD8CBE6938042A5C886CA27F1EB9B9E3C246383A9A3509AD04BC66089A04611B241FABBA8F6435B0B4889A9403E60524F820CD8D875926A2D68B33C3134C90E9230B43CC743921623EB484F7C65A741A8C30CBDE4FC74A55305EF8588DB967CE70B29049A8E5C821B484390A01761F4850BBC916AF732AFE9A211419944E6C7457207CCD12AAC09C421BC0A4225F84727424B306549738B91EDA3A818E994CBC763C176795C1286019183CA6B2E2D3C8EE925937C5A9AD62306694724E0B62B68369A204B0D0D1B74AD9AB5158356035045416A8EB48483F11BA52ECB1E77BABB800BCD67245932A237F237410730114BA4241A295ACE13AE201B776C29613FA04A82050BC4514E8C532A0848A75FAC67177844BDA15368F1756BD4804B28BB55BB2E6C610F5E0AB9DF749857405DAD47C8B16B8063533B1E1C57D4DB06F8E6643216CC342B053E3861CB1C71F2F9B52518457056676064ABCD0041F1011B1AD3CB297A96200A96D6A30D2960161008CC7D26C1C011A00F857739E223EBD536C61748A1A9C792DCC7351210C8DC6C3E122AD7D9407975A75C3286F0AC032E5A655637C5B6A043AA840905D9623A077489E8CAFA1285EA271C25F12CCEB3664E3975F0EB6B25A04F18E4537EBB3F27405398D34718304E2A7265268367312ABA5C069B765361D907775B3041B391668DA99968C198E116530143C781160B80FB5D4B473CB7F60BBAD1B83A3C8A80D93EE4E61DD546C5E06A67DBB6C94FE82D7E1B963E744984B849864A22D535CBA8408BDAB3854BE3694515AF4A58A4C6C0204F110ADE12C0811036F9171635C00AF6A29652914FF0CC23E0E67E84072BB1B3A027591BA96959EF3373A3912E1D43AD63449EC2F47DE225767B94417A0B918BD83ABF4439EAD3090EE872F6C0C5967564DA6C4A3AD061DB656F3B8CAF970A690422B914C599FD606EB1A17A3A220A1D86B8BA7343E1048C1D4328AEB57214E077246B7421091821C6299A4B75FB1B9FA124C7F5B3B1F8938CE9DC7551D25898387F5A86BC9A1C49FC8A7C5902B8E2912405A592A8221816570362C43589AA9EEF609B0207C9E1F3B564AA6BE9A60AAD4193001AC4F6756570D983C8982CB3CD5D09045252960A068412F1BD67B83A217049D0685EC3D63D691559A327B29333445958CF50F9CFBA453F058F562158BC253E535E4E2F07715531A1C6289EE32D432B4F9F751BDE0496C580A181FFED762AA35454A02D3F1F47EE0394C89C";
-        textByLine[x++] = "ct = EB9446333F6EA57C2475CFDA3A3FEE18AF4BECA95598CBB545095AD1F40C8AF9BC520049DD199DBB30337FF31374872F1D14C5FECAEEBBA765E79A0A4141F080CB88B8ED248E1C10C3AEC5D2FAF4FB9250A85F92D8ACA1F9B2EAA9FB6109D8FCB1DA91E22CB008C10B0ED0F0ABFCCC2103CB4F9B9116C15E5BCD456DB12E41DD5D8FA08C829EE256DE2D355421099E409F4FB3E11C7A4C39AB8363FAF1D6C267CD6A26C981BE7C17701B428FE3B9BA808C4A6FC90A68101B45A13EE83FB2836A7D38C67054D6226080B96EF3580B5151B19DD3C4197A465274CE5F8B57AF83ABEE81CA77699490973BE19EA458E44234EC7AE1B350C84854504AC4327440731D0DAC20F76541132829FC330F56EE85BC3DE617BEFF51FB3E273BAE116E7C7C454355837CAD654F06ED99E99CEEA1CB62671F89D4790DA723D39F1644B9DC28382D006D7C5A6E3F777FF3259532890CA2B80A2219573129205E786267697851A7CD4C9922F482178555AA37B58B4E3809A29F1CF9D22D23FE0BEE3CD0EFE207A656AB791152C061E9DEFB7C1F4A83D32F40A8A353EBCBA511E5D52C7C0D8903D57FAC47BFEEDA9A6AB7DB8D61AC0D05FF424856DC19BE27575A457AA9673C9D73F24E14696A54714CDD04AD76C9D3A67AB7BA013F115C3D603114D25554E11A98A7EED45255EE916921A94834C5C8C4263047A0E3810BA801683AF58BE4698280096195F94054B6ED7C9B6F15E1419A9BA01C8AB0ED17FC5E52AC0A1D6C6D36F7B4DE1CF648200E8E18B45CD707CE2B8029C7ED5A886B7E71EA8646468767D76CF6D655FCA5CC668DD718F01993931B108F4355C461B84773AF746548B235657BA853560B9DC33BA52EEBA1CE0CC242B64B24EE2088EC7FCF5AB4D1CA77104696278F1ECD41271C27C1F9993A30A71970FE538B735CDD4ED475B72ACFAB175A97F1ADBF8D904876788A028C06B2A06491AE009CCB2D817988D72E702D66DBC45B0ACECC2F020DB2146CEF09A26707A326AC6121C2CC71FB9A70AE400CA524DB18675A8883625991C62090506CDDFF99AC3BA57962C39E1853E18E165DBF0401F5";
-        textByLine[x++] = "ss = 8E5426F9409F456D3F98D2C909ABF19C75BB3DF268B482181683C19B759206E2";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 96";
-        textByLine[x++] = "seed = B3AC6503206ACCC2A92CBC210D020A2654726911D11CE676AA04FEAA08AF1D20C654E4105883AE470EC3AB299075D420";
-        textByLine[x++] = "pk = 69A047A0A46968F3828FA4314FAC3F911A71A10C866E7C035FE4CF00A92BA9471A735B808117722378A879702D59728D66F35D53C34BF5797C2FF9A2F55A0B2CC873D8063A8CE7914EEC935F55174CBB542702B1E7736F50215F7A1277968C2D35C711653A8E4AF95115C9AE33D0349D4A09504A10CD48C77B411CF079A497A5785E39830CC8A189B9BB56891249D976991B23A4A7A1AFF34F3788B148166C40F381BC5704058339BDE0C192D307515A6A8FC5747A1058E394CDB79C4142FA5CCF3780F254A10C671543B63BD7D192913480C77517512C0E49EC3FB8D03FFC793E7CC01125226FC4929C8C1C2AADF12B452746306C2A9C36392B23045888C2F4170B5EEA07AED4515A819D7C5749B35380CEFC976C87270A1237D6F4AC214548268A6DA75928E0734EEA7887AAC0A2BF623E17852501556B03C662E4E9C42B914923B88D502714FE53373904B91598C8D7C6B022E5367A90173FA511005039D9CA5C3CB2BD5ED1404F7373654848EC436115339DB37CB3549BA77237C243F25DA96A4BB4A8B88E441693F6A80840B0EF7538F8FA9B71CA736D08BD3678C4FF8C480B115452C9C8FCD52529B1481E82236E5A311A204BB571A89B0A60738101B4617B033BA2DF6C7967CB7B7F218AFF886EDAF2464B2A12BF244BAB812731F46200EC6E94D24548650E1E1572E4A78157E2CA569C3B1472CD8FE98458C1A5AB8340F3A90E5A854ECE60469698CF85D88739CC96ADF7048CC584637A408ACB79980A8DC119049135795245748683AC8F53B815E29DDCF5452A9504E0FA1DE9840E4D489810C35A100687BAC18E185BB53D499D266A8758C68782778B533BB9E5B16EA833309A0C8B3E640A2C417AD23B01E27220A7E9CF9BB91BD6EBA10C08ACFF499295E0AC4F61B9E85CA75185AF845C4F4330652EF024869CA7D3D33CC188A65CF17AA645B8D9B010F379198E31B7AE448082069B33AB6FF3A235CCAC081814B6E063686707721F6006EABC91A4999915661427C85979B93DDFC14E24176E9C0359839A1C16F91AFEF473652480D4A2261ABBB7FCB031DE8993A57600220A6C9FE06B5FC03DC21F6D925B9F6D92FFF175C9DD625BFAF502B4E2870961858852";
-        textByLine[x++] = "sk = 79888A9BFCCCA036909F99BEA673C23173C15865C07460CD894C115FA1B673A8C2F60B5A99E3746BE64B2AB5A7D7D980EF78131A5C9839714692649458667CB70361FAF61A5FCB967F235B80858CFEE9B9B2AAC5D32202E6C881A150C38FE9C8FC51AD32F57EE2F140F34ABD1CD586C754AF25E23C60289302B95BB9AB1A90F59EF045AE45698FD57ACD202BCBB8B960FDAAA6F9994E4F201E6D024874A68E3618245E993D035C50834062FA16B734EA4E6351CFF4B77C4D2724AF1B6AC8391736B23BD5CAA94E61400877266B266D206B39C8C7563E86633FC90FBAD12141715226C071042B1EFD61CDC7E32F89E750DD24314F7C594652B9E45C4BC07B6FFF66B5344B0548EAA81F189A6FB656EBFA3D46C4C5453B7F183A335A765A58F647F8735900E2159733B01A84789D162966A15134831D9223CD10A7039286703C85C3AAE57175314A6A9C83E869AA0F3A77C400C1B705768D31826030391E0C82B7B4694BE10F6C902B74D8A1730006534B44F3128CB42322DDF32F5D6B6F1E4524E867383DC52E554122DC0C3042459F14F88BCDCB7F133B8782728635339C5BC2B8CC2366D4AB11049CC96AF69B686884694A968CB84573D56F2FE6B71DF18D999436171A2C45C88FC4A0983333432E33BFCD1600673078ED512F12804D691C50CA935B5281B809D934ED3A41B41282C4B483D4D1C9487509F120246FE98CB408AFE5C2714D57A41B95791164B406E85E9DAC5494016B2F4BCF197419740A3B3AA5025436B0C46B7D5A4360CF972C7E9B8F32560747168D0B7818F72B22629074DBB79AF74B91F4970844862C30DACAD02455E5A512FB82CBF67CA4400AD038D8A867005724E2C8C2727DD0DA6B696828F741804D27956F3C3C67508E4BE740BE8C63B8858AF9F74FA19C7333FCB49D4667C9DCA264AA5D78CC9F7DF99BD6C063493759DF3A6FDBE2B5E241A5F98C4ECF78B83BE48D55C81E8DE43B210378D4F2503DE05C2D76B01C3821E0006C2A5542A5027898284709149A58C3B5B3D4B761E73DDD892262D9C80584967C047FE89A409EF879427164ED5708A0150E30D0AE69A047A0A46968F3828FA4314FAC3F911A71A10C866E7C035FE4CF00A92BA9471A735B808117722378A879702D59728D66F35D53C34BF5797C2FF9A2F55A0B2CC873D8063A8CE7914EEC935F55174CBB542702B1E7736F50215F7A1277968C2D35C711653A8E4AF95115C9AE33D0349D4A09504A10CD48C77B411CF079A497A5785E39830CC8A189B9BB56891249D976991B23A4A7A1AFF34F3788B148166C40F381BC5704058339BDE0C192D307515A6A8FC5747A1058E394CDB79C4142FA5CCF3780F254A10C671543B63BD7D192913480C77517512C0E49EC3FB8D03FFC793E7CC01125226FC4929C8C1C2AADF12B452746306C2A9C36392B23045888C2F4170B5EEA07AED4515A819D7C5749B35380CEFC976C87270A1237D6F4AC214548268A6DA75928E0734EEA7887AAC0A2BF623E17852501556B03C662E4E9C42B914923B88D502714FE53373904B91598C8D7C6B022E5367A90173FA511005039D9CA5C3CB2BD5ED1404F7373654848EC436115339DB37CB3549BA77237C243F25DA96A4BB4A8B88E441693F6A80840B0EF7538F8FA9B71CA736D08BD3678C4FF8C480B115452C9C8FCD52529B1481E82236E5A311A204BB571A89B0A60738101B4617B033BA2DF6C7967CB7B7F218AFF886EDAF2464B2A12BF244BAB812731F46200EC6E94D24548650E1E1572E4A78157E2CA569C3B1472CD8FE98458C1A5AB8340F3A90E5A854ECE60469698CF85D88739CC96ADF7048CC584637A408ACB79980A8DC119049135795245748683AC8F53B815E29DDCF5452A9504E0FA1DE9840E4D489810C35A100687BAC18E185BB53D499D266A8758C68782778B533BB9E5B16EA833309A0C8B3E640A2C417AD23B01E27220A7E9CF9BB91BD6EBA10C08ACFF499295E0AC4F61B9E85CA75185AF845C4F4330652EF024869CA7D3D33CC188A65CF17AA645B8D9B010F379198E31B7AE448082069B33AB6FF3A235CCAC081814B6E063686707721F6006EABC91A4999915661427C85979B93DDFC14E24176E9C0359839A1C16F91AFEF473652480D4A2261ABBB7FCB031DE8993A57600220A6C9FE06B5FC03DC21F6D925B9F6D92FFF175C9DD625BFAF502B4E2870961858852EE6CB12A54341AEEDC99F1040B01603C35F07C5487FFAC7B4FC1925F490269165AEDA108EA4D6C6BC0FB958286850422BC357CA67B83C986048E0D0087FA11EC";
-        textByLine[x++] = "ct = 1A4A9EF8B0E0A6101A3A2BE9A44F0790A09A928295705084A8EC5366C4CDFB9C3A8DDFCE2BEB426C9C7512F781A1A881084036A8AAFB8B5B066687AFD989C4EBAEE371F873450C4BC5B8FE84ED4D84C6436AF0F03CF6CDA6931A9AFC6C0564FACD2ABB43069626C7F41E2C8AEFA64BC01A1B4875CD38421001794D8C6653F66A013D40A1F53B61E8011F7B5C874FDF20D18F8CF9D4ED6753BD7CA850CEE857FC3272D66F5F17A787EDA738014D69B5144DBAF9562D784BC51E1DAFCA81BDD51F13AB41C4EDACB4E561F075CD31ACFE3C664D49060FD0D7D66F743B66D2923ADBD746564E4BD05D37B0D11821DA7046E485E2CBBF9ACB1F8B66B6724D2103ADD846F668553124F02035AE93536A2AD63A1F71EEE98EFE86E4F387D287174EE348C6C8113A5E57E8564758D951667CC17044627B6FC58EAEBB0B3D9B7934F8FD823C877971BC65215FC288A3A8D4C55C288EF9B4DF6F42EE0FB7BC0DACE6FF89628E497D91C8A6879DCFEF6659D4B2B374E6B1FBC277EFC8A86DFDCD22AA83E51D2D7D26E3AB7E08BA13C0B726FDE32D24DE675BDE3563F62CD6B1BD88641E8AAE743B09DC24EEE19E6A52406CCF9082BBC6CDA21CB8D3EFDCB9383D3DB7BC929E2A83B759AD4F26A6344D3CE361FB700566B910F020F812FF8B36D749852AB20273FFDD571099662B7C2E30DD225A0B52F09337503E1408933ECB7BB7172DA5CC33EDB76AC017BA6D63187138C470A91AF873686EC14ADCB3B866DE8A8313AB506756CB8BC6B8002533095EF2BE2FE1F8B6BEF316D05687B56F69F06C8BA063B6ECF87B09534079AF3DE8862202969275DC569B189FEAA89525076F26BA14CC5CBCE5286F24821E18C7E077F0E5DDE1B7CF3A2EFE8233F447B7B6DBF006802AB656F968C982003D1B2055F4D85EC4543A6A0E51746C5ECA1C33C9159097153D114C124C5415BED6D2DF267FA2D2079E88A3872CF32AC6AA20C0626E0F46994B16FA76BE18C0296D57DF2C78714C7DE81D03B77442195DFFE83E4AE00C4EEE649751043D7EC12573BA3612038E8632FA96099692DEBF76B275EEC1BCC579818F02";
-        textByLine[x++] = "ss = 9D7254F23DC3DF7821EEA7DB99758B3A66E8AF9229C59783BDEC5E2896764F43";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 97";
-        textByLine[x++] = "seed = 59EFF60B1EF6185DB34EE1E3B1DD2F159106CECEAA79BEB74923B4F5623D5BC52DBF5D2594A1F7C6C64D12CF144E9ED4";
-        textByLine[x++] = "pk = 8C9845BF1121A0172C991415A6456B7D708CF45A376E689E8C74B1DD589E2BA95D19192E47937B647C21BD9A518644113F44877AAB626C40843B078E9A93BE166C73772B290164C7CA1454F2B310C7133A12AAA960E3B4AE6AA2FA5666DE35733547C069E9911B15C17A8A732C9AAE30B2267AA97BED49C5EAC3A9B769C3A9ABA51E882D0F5984CD7C39A2D1136FD627B3A204CA30A32EFA02D51977EB2145E6C91717E0760F8949CAF6B928A59F4D6B24221A291D008679B4B761178909C83D4C035DE424C202117132010DA0502B75E51705D07DA603526FE46F50807AF33593B0D59D4B28B31AC48BA7BA35793B194224A4F7577D4A7664E4311841B3908BA57292728A428A516D96C90511AC6B34673DC0127DB223B7B27121A2AAEE2822744B7F23969CF95B3960826C0AB4A100501BB601B6F2597339A408EEA5360B9C6B752A03D648817654A35DB7C5FDE89357CB1E44A1B800D99E87872F95A17709F72A2A502D8F908CCA15A22C14691E219B95B9C3FDCC3FE3C849EFEB9CC0DC051F451FBAD93BA360B2DC2370B400CE74058DFF270757F20603176EF888CF2CAABE2F8B337377368BA7ACA7131BD6C8615E0017E2B21BD5B9B029085AC668803F66798AB060104BA4E930322B1452BEFB11C45112DA8592FC0A74CCB8A75491120C1B0C1F0CB0A1ABC7386948BE2BAC6BC92C60944AC8482E5A519B3FF36DF7EA5E6F939B0C1B662342A08B6059658448B65B65C432B28FB66B92594D0D8938E5D3A0D6A99C7B3173A0796E02195E84B28DA2B06FCD5672412420C916C77613B9C69039CF1C6594D90AAD857DD319CC9BC9702FD452AD455D5329B14AB033A5910C08124338933F60993C3683433352CCE6C484EFB072F59B85A6B402D4652D910173CAEC2ADECA708BDCAD9D996B60A08F8C3131C571B5FAF01A4B65565B18298FF8C6B3F68E77E768A1C0CC009315A4459B0B191C3584BBCD562861C20FC8E2C70944B7EEC84C7E427F935B5731FB6E42D8B40B013951852413E94D5E01A04405319A7167B8E4CF638279331A6C3EDA1DFF9CAC99E148BDA370C2D00715C4AE7715B3DBA61B94849DEA30E28720BBCB90C7AF7FEB0AF619A0CF57D173405C82";
-        textByLine[x++] = "sk = 68442641472C1216CFF86478BBD31E60E47A22391987DA1541AA882A649A482BC06B28A7181913790294E3A4A3429C7CCEC1BA4012132B8C26458A7AFC514E3C859584BB2768641ABFF48EF730920F15775FD408ECB1CE3DCC3A10095C96A3B23D6A39E6CAA335BAB5E143118DDC72EF347426F83907153F0AAAA356200279CB10A6A1922BD148898731B5A82F0977395F00189F244036D8A409937AD9A4550972B165F52B15D851F30B127FF5B3F6B29818501AA2C9B00A7981773C32D2D55D8CAACE972C8FC097821382AADBE553ED8B8E1E7AC0418002F1901AE384980146AA6CC01B8A939075FB36D4D48B55F489B870AFD61768468204ACF72EEF892141E05D1A1518E01218519249EF45910A06BAA4D442AC9A95C8A39D9D474667B48CB669558E301159E1CF8C6748651039C7F90945708EA56979EC42A8E9E86BEE5B5554D8A46DA0BB4D8B100809203110518534260F321D0ADC1FA6993FED33283AF10BF0130CA4110B6193A7BF746513A8CD4B84658054623E75272C198FB443AF89927FAF644824E8CFD7AC3EB2D12EFBACBC7F837834C57E31A521977B655D682A34079C89F3C38418CA432242FD7420F990312A722F67269437481ABFF29B1F4C6795975549D38D6224BA7006046A015D0F770434E597F039767551381474868EAC4D653A7BF0B989EEF6582B80744A5B91B1473A9E920055E4B5BCD523B7A618722A107470234430158DD887982B79383B7272A4685A854C306B43D36AB89B57736FF667C27A10265A7E15BB5CD9112D6F9387BAF21F1B32957E17C05DDC50C176A5BBC2AD5CDCAD536185BE78C13CA6C2A3220D493213BAD32F33F582449070C4B54725E329B1E99A0FA58010D7A22A6A4DCB822E5BB28803E4027DD935CFF4C556204531D27C5A462C92A085C7363A214A2E0C8C1D1CF42B069AC623A245A14974D2CACD58F18A8973A02C66CE4F771124E9878E402103F96BD3F00CE61A78A5FC5123D1AAE661C8908C09DD457285F435401310A6F4A513822C8261AEDD896ADAA8AC1D52C1352A1A3E2C7B1FFB13AFA0CD6B39875E9C7DB636B82BF2278C9845BF1121A0172C991415A6456B7D708CF45A376E689E8C74B1DD589E2BA95D19192E47937B647C21BD9A518644113F44877AAB626C40843B078E9A93BE166C73772B290164C7CA1454F2B310C7133A12AAA960E3B4AE6AA2FA5666DE35733547C069E9911B15C17A8A732C9AAE30B2267AA97BED49C5EAC3A9B769C3A9ABA51E882D0F5984CD7C39A2D1136FD627B3A204CA30A32EFA02D51977EB2145E6C91717E0760F8949CAF6B928A59F4D6B24221A291D008679B4B761178909C83D4C035DE424C202117132010DA0502B75E51705D07DA603526FE46F50807AF33593B0D59D4B28B31AC48BA7BA35793B194224A4F7577D4A7664E4311841B3908BA57292728A428A516D96C90511AC6B34673DC0127DB223B7B27121A2AAEE2822744B7F23969CF95B3960826C0AB4A100501BB601B6F2597339A408EEA5360B9C6B752A03D648817654A35DB7C5FDE89357CB1E44A1B800D99E87872F95A17709F72A2A502D8F908CCA15A22C14691E219B95B9C3FDCC3FE3C849EFEB9CC0DC051F451FBAD93BA360B2DC2370B400CE74058DFF270757F20603176EF888CF2CAABE2F8B337377368BA7ACA7131BD6C8615E0017E2B21BD5B9B029085AC668803F66798AB060104BA4E930322B1452BEFB11C45112DA8592FC0A74CCB8A75491120C1B0C1F0CB0A1ABC7386948BE2BAC6BC92C60944AC8482E5A519B3FF36DF7EA5E6F939B0C1B662342A08B6059658448B65B65C432B28FB66B92594D0D8938E5D3A0D6A99C7B3173A0796E02195E84B28DA2B06FCD5672412420C916C77613B9C69039CF1C6594D90AAD857DD319CC9BC9702FD452AD455D5329B14AB033A5910C08124338933F60993C3683433352CCE6C484EFB072F59B85A6B402D4652D910173CAEC2ADECA708BDCAD9D996B60A08F8C3131C571B5FAF01A4B65565B18298FF8C6B3F68E77E768A1C0CC009315A4459B0B191C3584BBCD562861C20FC8E2C70944B7EEC84C7E427F935B5731FB6E42D8B40B013951852413E94D5E01A04405319A7167B8E4CF638279331A6C3EDA1DFF9CAC99E148BDA370C2D00715C4AE7715B3DBA61B94849DEA30E28720BBCB90C7AF7FEB0AF619A0CF57D173405C8242AD42D6D3B13C72B16287909BC4C0DA04900536A1E48A1A28DB4F5EE2D2E771E63F8FFDA3565C2424C89B20974B748A65A5ABA75133FCB3156DFB6626A83BAB";
-        textByLine[x++] = "ct = 79EC1797A8E702EF9126EC58AD4CCAE59998A3A6FF366E791E6F0121C24FBD6EE4A56B1AD01C2767902299604305DD3A734B2D634B279182C4E40B4258F7BA7E405D96253A57A526D0BD83F78965606B2F58801C94922727189980999D5BFFCA0FA8556BE01AE40BBBC69BA61DB8941CCE156E4DF2EB768E05404F394A1CE64CB672CEFD0CAEA71911BE0F480921E97CABDA01A715572DBDF43B5A7EEA74CA440A64150C8486851ED2139104CAA0C7AC4AECF7A4CA674524FFE79B4177544080A7C806DE296047AE817808D4C7DBE72770F25BAF6F8B66F52FBB6C7C691976C72FBB51D964796D4773585F56CC49FFC8683EA17D5CCDDDF4DF4B29044FF4BCEF3618063FE9A59EBA72E5BA290204E3EAE67E363E9D357439105D919434FD4708622292E7AE91BA87EEE3C26FFFE9F6088EC722729097D2580078F74D461A96FDFA3454B55BF9109E3FC281A02ABDB6CA2F379AF6370B5EA6CCF4AD3D04E5D149F011C3D0E70494FD7DC2C90C727306514C50125B34F2818F608C99FF8EFF97247CAFEE981BB849C8DCC84EEFCE9BC27DD4C96142D081345A55B707B37DE27ECFE7DCEB75055D061700ED91456521C0C10FD3B9260901841230D1E9A5E75B4B1517FACFCFF18E11BEAF140F9F1552E0A79C3AD969F78F44F0A601981F175C44E3583237B60185B80DEEBE967510F6672ADFEFA8EC64198CA5013C53B3BD9380FCBEE17826B476E98C613983F8FDB2F1CD4725466B6AE6D2A08F00AEC8C881895B1842AE5433AB429E4A82E3B79E3C30DF84C6C23B6340F246F18A6FB25E92FFE13D7BC2A787E239BC87BAFEE68BAE5A293BC12484F84ACDA9297D3E8B858FCF0DA6DFF937FA07BF14B3B6D8E3B9334D82172A6C8188A1A175ADC7E7ECA6FA506E5D158D8141291E8F7362D4A00637575069ABC9B8A33AF381B33EFF932762034B60711F10E8677DE5C1805059F42F49FF3CF44C9628125324CC87BEC5C8C8CA178BCE8494A7D40C49D53140B5469DE156FF2EBACD4D35257011EBDE1DDE2C08648AD2FFBDD639F1FA7872D228C8786423D6BAF664FB3C8DF59259C65D03A064A1";
-        textByLine[x++] = "ss = 78492B7B31CBEBCF47CE753E8A578751C7CD060158A82918D78286BAEDD8A81B";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 98";
-        textByLine[x++] = "seed = DDDCA9DC31BEA737D3F474E7560B37FACB2F53C803E768FFAADE7669FF94B1D4FBD17068CFFD5DFDD24AADADA4EF6B12";
-        textByLine[x++] = "pk = 5B5B3208A4C987AC02199A6C057376E2E11015C237BFF18C63B730297052D7B9A6C7E15A3F02A9046C23E7D977111524AFDB42FCF24526CA4F17EA597A26874E333F40E840FA3C9910C12ED9D86425421E7B585FEC42326FD1618DB61C9C7CA727E03FA772CC9CB241166CB40D3148B4889FFED89C8B0B772E807A157A6AD3B067C9F43C675C69890A71B996A323376777723CC6A4BD240C40DEEB93B9A61BBC306177909E181636353A2F4B3B02F820A9F841A690B50A74F09EAB73AC4B13689E267983241B3C9774C42701DABC8C3060381F60C591608431EA91F5743362EB86ADD70C93078349F4BF4B137D43E06C6258484C92C8457521D54915C96754673A4F981CA7C1A3C228A22AB44A4C1D207988D8A49925724C218EFB34C1AFD4B56DCC8815622D0E1C206991ABB6E50A3E8299D9EA10A8B5C5611455378A5AC2B179C74501896102890171F95BB18D32CA7AA01EAB0B272DF4B77C6377E9397F8FDAAAD0294B59C68607A073A2E021AB8B1AB1205CAC74C4BBE21BA80B98225A33B0F18B45A8227C9B6E18F9C25F6B901137A7912AB148849228D2AA374A261073307127C6B09777FA9768C183067BC821F3D77E343874864288518CA21EBB2061828C0A60340E30CE80F60EF5523129F18BED579625E9419185019C8CCE24162384CC6EEB7B5F9EF1725AB6034DB7C7EF0580C9F0CD0A81C2236C46EC9A3225593E3B11939B9758556CADD3F9967DE57F21DB4C4AF8541B4B813D67159AFCC69DBB36D3DC470A829A5D771DD8468A21356D40C80F1C156008B3BFF356962F84A48A041F4E4B29B7276111660851F7CED28BA0CBC24CC631942B92691E386BD81A28F66B8D4306BF89F36D0E015542479F3041CEBEAB2D8E95304795A31E6CAE206B40189B4823359382393BAE1057A62471C5A3A93CC874F96C294A6A4E00E6BBF8CC4CEA280942D0C43729B2576076E73B3EDEF1BE7317CADBB58DB1A046B617800D5CA0E352B6D40A16303C596652A4A2209C5C72428DE4B0D6B6821EAAB1F6824CB35A04E067B5264359A9A6CE8B3A26259B613710A672D13D2690CAAF62C5F4E86DC76AE2B345932A0E7025F8CE6101884469E31AEACAF4D77E3F1201BC75";
-        textByLine[x++] = "sk = E9C556BEA1B6CF3B62F9DB44BD74434D6067B1700C98647A5890C35224C1F871C13B80738417C5C78171D61B6B500C907F936A1BFA6125CBB5D41C88E291CBAB81A44AA84F4FF4224CCB8A5E05BA5B66927D696C2DE24142EA480881C63DA0CA5F8820D36A360F345CE4804758D02A3959C2CC876FFE84C6FCE10ED111B6E7F594DAE12A30A015B30B403DFB1CE3F71FC295B962E22BAEB913AABC4397AB4011980DC1D335F2460AE95127071A6FD810248DE27004E283E208CD00D91DDC56B60445714679B4AEF87F2A844FDE365B162CBAE33A078EA0A516F6661D66B3C03ABEF8DAAEBDB0AF32B28A7BE042E78B85FF14B421F82C1ACBB0BDE1C8306821A851605AE83FD8A3135B896D3C990F67DA3A37617915F625E7CC7DC8DB4FCB6A10723025294C4223AA809AB29C0C4CCFE0330309E4A3D6D5884F3B46A9A0367EFB62CAA19D9A1AB299B83E0BC0390D011F3C5B5A9B8593AC866591BB284727C52C435105453C0842C9558174AD98283C248FF8392619833CB39A14A22906D2B8738CE2CB4695B8CC60A8682CB7D8356F3AF1BBA91396B9C06414DC7ECD139EB87158596B3221955BAA56265897C78BF65EFE116AC27332C7BB529EC52FD1BAAF7CEA94F9DA2444A01F1CD61777840BCE32900EB69471CC6D18749824EA94E8183A6C0007A4D6C1289ACED952B595582F548713A379B39D47AD348C68D2613491116FE01C6F70A5AC6578A05211A44586C68C982F72D6645E67409FC85C584C253710C800B1A0D1293223F874044CA3FC1436D2DAA5751A1B596C58FA4270FDF102AAE4179451CCDD913BF0BC36BA7CBDF6BA276F988A3586420AE2AFAB95940F9116FE5439A71927F9CA087A9891113AC8F9C2BF0D2B091D7ACCEC51AFC15708E8972370D547CC9269FA487810C2B2F1C474A6C8858DE8414F1895487C10DE2CB46CC68CD601B9F0D8059599C7EA620E5E0C0F1B4008AA1A4D1F4C25A1448A51447463A3A88B9A72B69CC5385750FCACB78AE35982CB3AD5285874A5B34C53C00C17913E8B746421AEC51B93698C4BC48B74DD65384FDA4297F170BD65436453335B5B3208A4C987AC02199A6C057376E2E11015C237BFF18C63B730297052D7B9A6C7E15A3F02A9046C23E7D977111524AFDB42FCF24526CA4F17EA597A26874E333F40E840FA3C9910C12ED9D86425421E7B585FEC42326FD1618DB61C9C7CA727E03FA772CC9CB241166CB40D3148B4889FFED89C8B0B772E807A157A6AD3B067C9F43C675C69890A71B996A323376777723CC6A4BD240C40DEEB93B9A61BBC306177909E181636353A2F4B3B02F820A9F841A690B50A74F09EAB73AC4B13689E267983241B3C9774C42701DABC8C3060381F60C591608431EA91F5743362EB86ADD70C93078349F4BF4B137D43E06C6258484C92C8457521D54915C96754673A4F981CA7C1A3C228A22AB44A4C1D207988D8A49925724C218EFB34C1AFD4B56DCC8815622D0E1C206991ABB6E50A3E8299D9EA10A8B5C5611455378A5AC2B179C74501896102890171F95BB18D32CA7AA01EAB0B272DF4B77C6377E9397F8FDAAAD0294B59C68607A073A2E021AB8B1AB1205CAC74C4BBE21BA80B98225A33B0F18B45A8227C9B6E18F9C25F6B901137A7912AB148849228D2AA374A261073307127C6B09777FA9768C183067BC821F3D77E343874864288518CA21EBB2061828C0A60340E30CE80F60EF5523129F18BED579625E9419185019C8CCE24162384CC6EEB7B5F9EF1725AB6034DB7C7EF0580C9F0CD0A81C2236C46EC9A3225593E3B11939B9758556CADD3F9967DE57F21DB4C4AF8541B4B813D67159AFCC69DBB36D3DC470A829A5D771DD8468A21356D40C80F1C156008B3BFF356962F84A48A041F4E4B29B7276111660851F7CED28BA0CBC24CC631942B92691E386BD81A28F66B8D4306BF89F36D0E015542479F3041CEBEAB2D8E95304795A31E6CAE206B40189B4823359382393BAE1057A62471C5A3A93CC874F96C294A6A4E00E6BBF8CC4CEA280942D0C43729B2576076E73B3EDEF1BE7317CADBB58DB1A046B617800D5CA0E352B6D40A16303C596652A4A2209C5C72428DE4B0D6B6821EAAB1F6824CB35A04E067B5264359A9A6CE8B3A26259B613710A672D13D2690CAAF62C5F4E86DC76AE2B345932A0E7025F8CE6101884469E31AEACAF4D77E3F1201BC755B70C5BB1B7AF3B643588AA7C20567D4259DBE6ABD7617A61B48185DE8F21E1CFDA268813EFAB5204EFA60F78BF81D320D01AC09AC06244F7AFBD2D80FD356D9";
-        textByLine[x++] = "ct = 574635B41959D57372E6FEA9111F6049FBB50222D5145F7948AFE0E3EF9DA90E3B840F750C7F30A71C7B7F2486FB077A00A1CD8ABB76E671D6CF81E0D9D4013797B2E47845CB53BE5C5C463D153D9E1DE67BF4565BEC71EC801D7B2C0677D329BC350451DD0BC557D7B1295028F28EE1FF0BBA2619C290C3087C6E12DCC1BF1E13727909B7C9FBC7B90665FAEB7DC8F31230A2D18ED38373A90C358B46642B9988CBB285072E86C6039E4B87A38D00FCC5152EC09767FD7E90E9F8EBB9E88ADF7C1D513A0D5D81F93EDBC90BC75B89B2A61D2D8D1D87B850055B030C75CF04A78B70564BD8928C1D48C3F17910A24AD6BC9D576EE3632066E76EB4BD3D5E01D8317F4336EA145941BAB1197CD06692B513AFC0CC46A30499AA33374EF6210423687DB64D3EF2999D500D685E7FC43D4D2BCED8974FB8C591AD22AE69928C2FEB8323D92874403F556FAD9AC1237A7587121B994416991B14A66AB98B525B6EF88979CC622603DE440A7483915F944D1F2647015D1C9F1E59BC570163243AEFEE7EDB5911D608E3EE6D3937BCC1A965AFC5EEA33940ABD3785DAC52283F591F998CECFA3E77A71CA656539B1BF72EF4E71880E65F8B1F864F05F6FCECB833DE2F9C31BA0241560E2525D8742A5BA061C3B1AE5831F152FA8332948EE5C94DB912ECE572612C54E161942078B89EA0B52A482CFB7F7F6D9E05F34BCEC46E1D4465C9CEB6DDEBBEEF90719702318AB9D4E7577663930AEC3132D739F9A6A5E36922B2FCAD65DD0691626A1FD77ACB5052B123A11585A162CB6175597640B82B937A16BB87CF0471B6FD8B84E97FF9C781C94EA41B7C070EEE016F0EDEF0EE84C519C77812B0D34DBCFC9D1CA4899EBCE6D6274159FCE7F6B3A2ABE8F46B072EFDD3B1965B4CFF53530019FC25E438FB669B7D214E6B36AA88D7B23659A736D65C7585308423F5CF547524FB9E4E3397430582DC2D0B008E66A6C4E7E8B526065322BB6E61CEED7DBD9755C0D3B589CF4FD573242E6B0D454DF9482AFB14775D7C436B39FAD83BD2CA5676D0ED0913116BD7C874E1D17AE9B126D4B20B08E2A0DEB5";
-        textByLine[x++] = "ss = BF5106B2FA08DD74A6069B58A6E52AA724179225630D2E368A05DB3888567730";
-        textByLine[x++] = "";
-        textByLine[x++] = "count = 99";
-        textByLine[x++] = "seed = 2A6F7386B815366F572AEB6C79E272CC21B7095FE09575F18072C9D677DA23BC9C8A4BC393B7524604D299BEDD260C8B";
-        textByLine[x++] = "pk = 45C83435071624067D69587335B97BF564929709C8825A004B028AE09C40980A07E8D4BD604527EE221E8BAC67D34CBE762C26DF8453AAE8B8C82B59C51A85526ABA8DDC4B5F63CF69A5B367D3153E460F497A209C495FCA318862D6A57800865479A006012D82F7212B40284D310E01BCB11E122C1FD303E441807849A7EA47976A99ABB7CCC4B674AD66F68ECA195789B277D23C3D67BC418CA7C908B21E53984983BA0205E4689000ACE97238B3699016FA95E7A3A59CEC0BE813638527562FA9BF10D715E7505F6E1C1433521A918A7DF52760A0D8A9549569F10827C423CDDFF82AAE01A90111395487B9C82B7B5A7978D789679E66B75087BFBFF0569FC94E94F93531B721315926388431F2A36AE0F701BAC254BEFB437C58641D4560C8738A98F30918945DB0A6900AD2C2ABFC3E0F4786A4555639D84DCDD031D8F0508D8C774D68298BCAC4F42C6A7FF585AF491FA7D7C3BBB41727699EBB315C437B210D42626EBC66C916AF1F3515374314E4F40309CA7289C7BC51C301D8180EDC792D4DD44C41B77BD47A972D8434A9F03BB3954236EC422BE0C8E991A79AF286B6A7C459A95ED44868ED8052F2DB0F3741710228979507CFF961564882B5EA19515EE00D657C7141E9B05F9A24136A2F915620B664404B5397CC7842748973D0716CC273B528D51383A63FC8A3C4A3B1A8BC965775D750ADD6996C929E29F41E42362A759BAA76F5A3DC0552F1D83195960E45837901494A87F2A6DC3B5D8B73A9695C1229A0C9BDDB0B2D99AA350C6CAC657745C1308AF354E10595F3682A34DC26D9D28E2E2C4634ACA75E94384700C9C06B1BCA348330AC1791FAB1419099CF1288283BAB03DCA09AB3593CF3B12739CB44C0C04C6B93D1EA831DF6BCB8807AA6AA8CBEC64D749A9E47F851C47C6537E196F1FCC4D63B67D29A58E86B9A72A199CBB793C5084E5BAB20BD02289B4AAA64E4C119488531E8A651A31750148E1742C5390BB9995C123F3056AD44C476468DED4B88A49130E35B4B00803DD24718674CA708E436D5C15EE1D95367C623512653C83B27B41CB308F8C2929B193B5487A4CE6401EC27A1605F879E2D9C53BF27E165246401CAD7840A077934B8";
-        textByLine[x++] = "sk = 109CBF34136DA8C797072085F046541A205922B9B9291ACC027173C0D824AB1534102B07A399853C9B5D4FEA1F7CE38302C587FA9643AF3218AFDBB48F52C516B0074CD336242591691402750384DB8323F812A8926875014089DF7698554391F1D687A1A2380E9C2B81261656632EE78996D404AB4F224C0DD3ACD6B428B8D2AF81250E7D9825640C3F94D297B2506427505EB3045A8852708B6854F0A99437F6738F22C1DCE44C160163515074C3C72E2A4041C8A407DEE38AC53335841029BC005705894AB658224134421AD4AF7543009C0093B9B38597424A32DC9A5135BEEA4598D8F2589D72855AD37CD99880C1FA91116C1A933C70A176086D437443B63523145314003884EC19A0B745855002E4B63F4978520661C589D9132CA27F84E9AB5536B60420C89C9A9717082AD58A05E8C808C7155600C199E8FC3AD01B229308071A2B9587E203FD211442F3AB9E9236AAEB8C6555C1D47A75FFF45A5D7A5EBE85A8DCB7CEB077393712CF9F7C465D066F80C359C7A3C713CC21A4653078FCC51B7232E48900ED750986156CAB756D9AF0C685263B19772B35A8AC3E214E8B7B9F3785395B500F76477858B123E24C0E63419CC6DB517A148E560A358EF50B8AB238D000181555B46DB95D9E8C1BDA5273CD58818E322831A71301D092904289CB4C017FD1C86D758C064136F6B937ED222BBFF244DE7C213CE24C967CC5787B87747A305C73223BC2A6CFCA8450D4954CB21E3D160E5B860E89DCB38F8BCFD016A927997F6E9C7C1E2A2FF97C93879CC1A5E30C20D80423F83C84373B85384BB7D88E9FECCACF73AB59969750410AE69537C3225D3423ACBA55174415A259F60E58117712C21ACEE6A97D281CC6642997833371358F60C35DA6E6A833E5BB20D94EEEA16E7093501AD54AB65CAAE67754B9560B5F68B78B44AB26B439D453412206325186BC4EC2479FC103E73B057A972AEF6949D7403BEDA51D82F0C654FA1136071B876704C7C9333DB252B4A37A06755A1CD428B8041D8C80A94AA76CD8D65D1E16A8D240AC71DB05DFB69D1439B57D9A3E262CCA3FECA48D9C1145C83435071624067D69587335B97BF564929709C8825A004B028AE09C40980A07E8D4BD604527EE221E8BAC67D34CBE762C26DF8453AAE8B8C82B59C51A85526ABA8DDC4B5F63CF69A5B367D3153E460F497A209C495FCA318862D6A57800865479A006012D82F7212B40284D310E01BCB11E122C1FD303E441807849A7EA47976A99ABB7CCC4B674AD66F68ECA195789B277D23C3D67BC418CA7C908B21E53984983BA0205E4689000ACE97238B3699016FA95E7A3A59CEC0BE813638527562FA9BF10D715E7505F6E1C1433521A918A7DF52760A0D8A9549569F10827C423CDDFF82AAE01A90111395487B9C82B7B5A7978D789679E66B75087BFBFF0569FC94E94F93531B721315926388431F2A36AE0F701BAC254BEFB437C58641D4560C8738A98F30918945DB0A6900AD2C2ABFC3E0F4786A4555639D84DCDD031D8F0508D8C774D68298BCAC4F42C6A7FF585AF491FA7D7C3BBB41727699EBB315C437B210D42626EBC66C916AF1F3515374314E4F40309CA7289C7BC51C301D8180EDC792D4DD44C41B77BD47A972D8434A9F03BB3954236EC422BE0C8E991A79AF286B6A7C459A95ED44868ED8052F2DB0F3741710228979507CFF961564882B5EA19515EE00D657C7141E9B05F9A24136A2F915620B664404B5397CC7842748973D0716CC273B528D51383A63FC8A3C4A3B1A8BC965775D750ADD6996C929E29F41E42362A759BAA76F5A3DC0552F1D83195960E45837901494A87F2A6DC3B5D8B73A9695C1229A0C9BDDB0B2D99AA350C6CAC657745C1308AF354E10595F3682A34DC26D9D28E2E2C4634ACA75E94384700C9C06B1BCA348330AC1791FAB1419099CF1288283BAB03DCA09AB3593CF3B12739CB44C0C04C6B93D1EA831DF6BCB8807AA6AA8CBEC64D749A9E47F851C47C6537E196F1FCC4D63B67D29A58E86B9A72A199CBB793C5084E5BAB20BD02289B4AAA64E4C119488531E8A651A31750148E1742C5390BB9995C123F3056AD44C476468DED4B88A49130E35B4B00803DD24718674CA708E436D5C15EE1D95367C623512653C83B27B41CB308F8C2929B193B5487A4CE6401EC27A1605F879E2D9C53BF27E165246401CAD7840A077934B801782FCE09E644E310C9286F1E381BE9EA8C54A1804E61F2958C1F975AEC185AAE77E0F9F21EABD8C0C6EEA7767F4E10FDE5C2D79B8400BF96B19014B457EC21";
-        textByLine[x++] = "ct = C1CDDAD05884B190BCAFBE0801DF40DE778C3526C3532B0A3C3210B58A58C43854193262AC73F2B36EF86E845E760577D9A84D484B5DF9D1077E31AF1250AB1F1F58A083DEEFAA0EA286EB4F6E9367F816535DA3FA561E47FE2A099A7B85D50D257867871CF5E366FFCB2D5D12794A7A3F9E386D15BF7142070D8AB1FDB1381CC8FC2E9493CAE2D69CDC895B738A1880C68B65735A07FA1750E811F76103FE5ACBFFAB84796BFC7226770E8FB91EDDF2EE277F124EEB316CAE7CCD261D8D1B616F0D61AC9A724023DBAE8DF28FB1FB838A062B8EA1CB02B885AB581A69EBB26330B5B3C2016D44A8E5AE6FC91AAAB0DCDD913297B20E992EF61D99CF3F121FA8F15B1A25B399E8102AEB82E97450E6D7A7A5B252C0B09AB3A1787F7C0D8387DC6F1246A77D358761D517657ABE83A3B9DA46CCCC8950BFAA847A77EFA05667BA303AE093F5E9F4116C7650AA55B50B60775AD09F504396EFD597928FBC7210738E4F9C769D7E4305B8480B056A5A0D3C432C189AC0771224E33239BEAFF8454B05ED2350B1F663100C66BAFC7F293EBC5FACD16B4F881E60285ED69FE34BF3E2051B9B306EEFEF06F1AFB90D5045821D0C8EF397226B3694EA9CBEABD3704D2CE4CFF3A54F548D6ED6C4BAFEDB200A2B7C7BD4D4D833AD4FF683E050A98E1C3B5FAEFB169F8C1228B094FCE1FF49C4441A5425E19FE2D827989455BFED7480FEFD4B23395EBBB6275E1DBB36702D05016E415960F853A20653C3C6B96C5313BC956F6F2F90828568E53E9858AF0CE7F66E1F8D868F8F6AB9D91B6E7AB1AB8EF5D2977D1042D429F99854EE7AA417825E18CFAFEFB23FC880D33C426414C809B00CB8BE071C78EBE49DA003B3792C6906978D0E6EDC15B41990AAAB7E88C39B002E76BAB15730284C31F54F7FA6C79896D2A6BD51F6658C1E8934F26C95FDCF451A1EDE18270BEA4D7162A5D132882D1302C417311A2FCA6410443FC00A5916D8EC9FFC5A9CE03AE790A787AAEE7313B66C9A8AE1A39540776DCC9AFE4624C99393758E53E5DC51536C2E4937562DAEA312B41852DDBCD82675E820595B1BA3E7";
-        textByLine[x++] = "ss = D181D65623E3A59950E40AA86A1452CDE8BF98F409D0F8CECDAAECBCCC864A35";
+        textByLine = fs.readFileSync(path.join(__dirname, "kat", "kyber", "PQCkemKAT_1632.rsp")).toString().split("\n");
 
         // console.log(textByLine.length); // seems to be an array of strings (lines)
         let publicKeyArray: Array<number[]> = [];
@@ -780,25 +80,25 @@ describe('Kyber512Service', () => {
     });
     it('Compare generated shared secrets from 2 key sets', () => {
         console.log("512 - ============================================================================");
-        const bobkyberKeys: number[][] = kyber512.generateKyberKeys();
-        const bobPublicKey: number[] = bobkyberKeys[0];
-        const bobPrivateKey: number[] = bobkyberKeys[1];
+        const bobkyberKeys: Uint8Array[] = kyber512.generateKyberKeys();
+        const bobPublicKey: Uint8Array = bobkyberKeys[0];
+        const bobPrivateKey: Uint8Array = bobkyberKeys[1];
 
-        const alicekyberKeys: number[][] = kyber512.generateKyberKeys();
-        const alicePublicKey: number[] = alicekyberKeys[0];
-        const alicePrivateKey: number[] = alicekyberKeys[1];
+        const alicekyberKeys: Uint8Array[] = kyber512.generateKyberKeys();
+        const alicePublicKey: Uint8Array = alicekyberKeys[0];
+        const alicePrivateKey: Uint8Array = alicekyberKeys[1];
 
 
         // Bob sends Alice his public key
         // Alice runs:
-        const sharedSecretCipher: number[][] = kyber512.encrypt(bobPublicKey);
-        const aliceCipherText: number[] = sharedSecretCipher[0];
-        const aliceSharedSecret: number[] = sharedSecretCipher[1];
+        const sharedSecretCipher: Uint8Array[] = kyber512.encrypt(bobPublicKey);
+        const aliceCipherText: Uint8Array = sharedSecretCipher[0];
+        const aliceSharedSecret: Uint8Array = sharedSecretCipher[1];
 
         // Alice sends Bob the cipherText
         // Bob takes the cipherText and generates the same sharedSecret
 
-        const bobSharedSecret: number[] = kyber512.decrypt(aliceCipherText, bobPrivateKey);
+        const bobSharedSecret: Uint8Array = kyber512.decrypt(aliceCipherText, bobPrivateKey);
         console.log("512 - aliceSharedSecret [" + aliceSharedSecret + "]");
         console.log("512 - bobSharedSecret [" + bobSharedSecret + "]");
         const result: number = constantTimeCompare(aliceSharedSecret, bobSharedSecret);
@@ -810,14 +110,14 @@ describe('Kyber512Service', () => {
         // Go the other way
         // Alice sends Bob her public key
         // Bob runs:
-        const sharedSecretCipher2: number[][] = kyber512.encrypt(alicePublicKey);
-        const bobCipherText2: number[] = sharedSecretCipher2[0];
-        const bobSharedSecret2: number[] = sharedSecretCipher2[1];
+        const sharedSecretCipher2: Uint8Array[] = kyber512.encrypt(alicePublicKey);
+        const bobCipherText2: Uint8Array = sharedSecretCipher2[0];
+        const bobSharedSecret2: Uint8Array = sharedSecretCipher2[1];
 
         // Bob sends Alice the cipherText
         // Alice takes the cipherText and generates the same sharedSecret
 
-        const aliceSharedSecret2: number[] = kyber512.decrypt(bobCipherText2, alicePrivateKey);
+        const aliceSharedSecret2: Uint8Array = kyber512.decrypt(bobCipherText2, alicePrivateKey);
         console.log("512 - aliceSharedSecret2 [" + aliceSharedSecret2 + "]");
         console.log("512 - bobSharedSecret2 [" + bobSharedSecret2 + "]");
         const result2: number = constantTimeCompare(aliceSharedSecret2, bobSharedSecret2);
@@ -835,16 +135,16 @@ describe('Kyber512Service', () => {
         // This test could do something more intensive like saving EVERY previous combo, but it was
         // meant to simply show that subsequent calls would result in a different result.
         console.log("512 - ============================================================================");
-        const bobkyberKeys: number[][] = kyber512.generateKyberKeys();
-        const bobPublicKey: number[] = bobkyberKeys[0];
-        const bobPrivateKey: number[] = bobkyberKeys[1];
-        let prevCipherText: number[] = [];
-        let prevSharedSecret: number[] = [];
+        const bobkyberKeys: Uint8Array[] = kyber512.generateKyberKeys();
+        const bobPublicKey: Uint8Array = bobkyberKeys[0];
+        const bobPrivateKey: Uint8Array = bobkyberKeys[1];
+        let prevCipherText: Uint8Array = new Uint8Array(0);
+        let prevSharedSecret: Uint8Array = new Uint8Array(0);
         let fail = 0;
         for (let i = 0; i < 10; i++) {
-            const sharedSecretCipher: number[][] = kyber512.encrypt(bobPublicKey);
-            const aliceCipherText: number[] = sharedSecretCipher[0];
-            const aliceSharedSecret: number[] = sharedSecretCipher[1];
+            const sharedSecretCipher: Uint8Array[] = kyber512.encrypt(bobPublicKey);
+            const aliceCipherText: Uint8Array = sharedSecretCipher[0];
+            const aliceSharedSecret: Uint8Array = sharedSecretCipher[1];
             if (prevCipherText != null) {
                 const ss1Result: number = constantTimeCompare(prevCipherText, aliceCipherText);
                 if (ss1Result === 0) {
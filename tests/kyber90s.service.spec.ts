@@ -0,0 +1,107 @@
+import 'jest';
+import { Buffer } from "buffer";
+import { createCipheriv, createHash } from "crypto";
+import { aesSymmetric } from "../src/lib/symmetric-90s";
+import { KyberHandshake } from "../src/data/kyber-handshake";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber512_90sService } from "../src/services/kyber512-90s.service";
+import { Kyber768_90sService } from "../src/services/kyber768-90s.service";
+import { Kyber1024_90sService } from "../src/services/kyber1024-90s.service";
+import { Kyber512_90sHandshake, Kyber768_90sHandshake, Kyber1024_90sHandshake } from "../src/index";
+
+/**
+ * AES-256 encryption of the counter blocks nonce || 0^(12 - nonce) || ctr
+ */
+function aesCounterBlocks(key: Uint8Array, nonce: number[], blocks: number): Buffer {
+    const input = Buffer.alloc(16 * blocks);
+    for (let i = 0; i < blocks; i++) {
+        input.set(nonce, 16 * i);
+        input.writeUInt32BE(i, 16 * i + 12);
+    }
+    const cipher = createCipheriv("aes-256-ecb", key, null).setAutoPadding(false);
+    return Buffer.concat([cipher.update(input), cipher.final()]);
+}
+
+const services: [string, () => KyberService, () => KyberHandshake, number, number, number][] = [
+    ["Kyber512-90s", () => new Kyber512_90sService(), () => new Kyber512_90sHandshake(),
+        KyberService.Kyber512PKBytes, KyberService.Kyber512SKBytes, KyberService.Kyber512CTBytes],
+    ["Kyber768-90s", () => new Kyber768_90sService(), () => new Kyber768_90sHandshake(),
+        KyberService.Kyber768PKBytes, KyberService.Kyber768SKBytes, KyberService.Kyber768CTBytes],
+    ["Kyber1024-90s", () => new Kyber1024_90sService(), () => new Kyber1024_90sHandshake(),
+        KyberService.Kyber1024PKBytes, KyberService.Kyber1024SKBytes, KyberService.Kyber1024CTBytes],
+];
+
+describe('Kyber-90s symmetric primitives', () => {
+    const key = new Uint8Array(32).map((_, i) => i * 7);
+
+    it('XOF is AES-256-CTR keyed with the seed under nonce x || y', () => {
+        const xof = aesSymmetric.xof(key, 1, 2);
+        const stream = Buffer.concat([xof.squeezeBlocks(8), xof.squeezeBlocks(1), xof.squeezeBlocks(2)]);
+        expect(stream.equals(aesCounterBlocks(key, [1, 2], 44))).toBe(true);
+    });
+    it('PRF is AES-256-CTR keyed with the key under a one-byte nonce', () => {
+        const prf = aesSymmetric.prf(key, 5, 192);
+        expect(Buffer.from(prf).equals(aesCounterBlocks(key, [5], 12))).toBe(true);
+        expect(aesSymmetric.prf(key, 5, 100)).toEqual(prf.subarray(0, 100));
+    });
+    it('H and the KDF are SHA-256 and G is SHA-512', () => {
+        expect(Buffer.from(aesSymmetric.hashH(key)).equals(createHash("sha256").update(key).digest())).toBe(true);
+        expect(aesSymmetric.kdf(key.subarray(0, 10), key.subarray(10))).toEqual(aesSymmetric.hashH(key));
+        expect(Buffer.from(aesSymmetric.hashG(key)).equals(createHash("sha512").update(key).digest())).toBe(true);
+    });
+});
+
+describe('Kyber-90s modules', () => {
+    it('Are the only services that load Node\'s crypto', () => {
+        jest.isolateModules(() => {
+            jest.doMock("crypto", () => {
+                throw new Error("crypto loaded");
+            });
+            const { Kyber768Service } = require("../src/services/kyber768.service");
+            const { MlKem768Service } = require("../src/services/mlkem768.service");
+            for (const service of [new Kyber768Service(), new MlKem768Service()] as KyberService[]) {
+                const [publicKey, privateKey] = service.generateKyberKeys();
+                const [cipherText, sharedSecret] = service.encrypt(publicKey);
+                expect(service.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+            }
+            expect(() => require("../src/services/kyber768-90s.service")).toThrow("crypto loaded");
+        });
+    });
+});
+
+describe.each(services)('%s', (name, createService, createHandshake, pkBytes, skBytes, ctBytes) => {
+    it('Compare generated shared secrets from a key set', () => {
+        const service = createService();
+        expect(service.getAlgorithm()).toBe(name);
+        const [publicKey, privateKey] = service.generateKyberKeys();
+        expect(publicKey.length).toBe(pkBytes);
+        expect(privateKey.length).toBe(skBytes);
+
+        const [cipherText, sharedSecret] = service.encrypt(publicKey);
+        expect(cipherText.length).toBe(ctBytes);
+        expect(service.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+
+        cipherText[0] ^= 1;
+        expect(service.decrypt(cipherText, privateKey)).not.toEqual(sharedSecret);
+    });
+    it('Agrees on a shared secret through the handshake', () => {
+        const bobHandshake = createHandshake();
+        const aliceHandshake = createHandshake();
+
+        const aliceCipherText = aliceHandshake.generateCipherTextAndSharedSecret(bobHandshake.publicKey);
+        const bobSharedSecret = bobHandshake.generateRemoteSharedSecret(aliceCipherText);
+        expect(bobSharedSecret).toEqual(aliceHandshake.sharedSecret);
+    });
+});
+
+describe('Kyber-90s and Kyber', () => {
+    it('Derive different keys from the same seeds', () => {
+        const d = new Uint8Array(32).fill(1);
+        const z = new Uint8Array(32).fill(2);
+        const [publicKey90s] = new Kyber768_90sService().generateKyberKeysDeterministic(d, z);
+        const [publicKey] = new Kyber768Service().generateKyberKeysDeterministic(d, z);
+        expect(publicKey90s.length).toBe(publicKey.length);
+        expect(publicKey90s).not.toEqual(publicKey);
+    });
+});
@@ -0,0 +1,135 @@
+import 'jest';
+import { Buffer } from "buffer";
+import { SHAKE } from "sha3";
+import { Indcpa } from "../src/lib/indcpa";
+import { Shake128Reader, XofReader } from "../src/lib/xof";
+
+/**
+ * Parse 12-bit candidates from the given bytes, keeping those below q
+ */
+function rejectionSample(bytes: Uint8Array): number[] {
+    const r: number[] = [];
+    for (let j = 0; j + 3 <= bytes.length; j += 3) {
+        const d1 = (bytes[j] | (bytes[j + 1] << 8)) & 0xFFF;
+        const d2 = ((bytes[j + 1] >> 4) | (bytes[j + 2] << 4)) & 0xFFF;
+        if (d1 < 3329) {
+            r.push(d1);
+        }
+        if (d2 < 3329) {
+            r.push(d2);
+        }
+    }
+    return r;
+}
+
+/**
+ * XOF that replays a fixed stream, counting the blocks squeezed
+ */
+class CraftedXof implements XofReader {
+    public squeezed = 0;
+
+    constructor(private stream: Uint8Array, public readonly blockSize = 168) { }
+
+    public squeezeBlocks(blocks: number): Uint8Array {
+        const start = this.squeezed * this.blockSize;
+        this.squeezed += blocks;
+        return this.stream.subarray(start, this.squeezed * this.blockSize);
+    }
+}
+
+describe('Matrix expansion', () => {
+    it('Shake128Reader continues the same SHAKE-128 stream', () => {
+        const seed = new Uint8Array(32).fill(7);
+        const expected = new SHAKE(128)
+            .update(Buffer.from(seed))
+            .update(Buffer.from([1, 2]))
+            .digest({ format: "binary", buffer: Buffer.alloc(168 * 6) });
+        const reader = new Shake128Reader(seed, Uint8Array.of(1, 2));
+        const output = new Uint8Array(168 * 6);
+        output.set(reader.squeezeBlocks(3), 0);
+        output.set(reader.squeezeBlocks(1), 168 * 3);
+        output.set(reader.squeezeBlocks(2), 168 * 4);
+        expect(Buffer.from(output).equals(expected)).toBe(true);
+    });
+    it('Shake128Reader squeezing block by block matches one large squeeze', () => {
+        const seed = new Uint8Array(32).map((_, i) => i);
+        const expected = new Shake128Reader(seed, Uint8Array.of(3, 4)).squeezeBlocks(100);
+        const reader = new Shake128Reader(seed, Uint8Array.of(3, 4));
+        const output = new Uint8Array(168 * 100);
+        for (let i = 0; i < 100; i++) {
+            output.set(reader.squeezeBlocks(1), 168 * i);
+        }
+        expect(output).toEqual(expected);
+        expect(Buffer.from(expected).equals(new SHAKE(128)
+            .update(Buffer.from(seed))
+            .update(Buffer.from([3, 4]))
+            .digest({ format: "binary", buffer: Buffer.alloc(168 * 100) }))).toBe(true);
+    });
+    it('Shake128Reader absorbs inputs across block boundaries', () => {
+        for (const length of [0, 1, 166, 167, 168, 169, 335, 336, 500]) {
+            const input = new Uint8Array(length).map((_, i) => i * 31);
+            const expected = new SHAKE(128).update(Buffer.from(input)).digest({ format: "binary", buffer: Buffer.alloc(168 * 2) });
+            const reader = new Shake128Reader(input.subarray(0, length >> 1), input.subarray(length >> 1));
+            expect(Buffer.from(reader.squeezeBlocks(2)).equals(expected)).toBe(true);
+        }
+    });
+    it('Squeezes a fourth block for seeds whose first 504 bytes fall short', () => {
+        // the first 504 bytes of SHAKE-128(seed || 0 || 0) hold only 247
+        // coefficients below q
+        const seed = new Uint8Array(32);
+        seed[30] = 0x01;
+        seed[31] = 0xE9;
+        const stream = new SHAKE(128)
+            .update(Buffer.from(seed))
+            .update(Buffer.from([0, 0]))
+            .digest({ format: "binary", buffer: Buffer.alloc(168 * 4) });
+        expect(rejectionSample(stream.subarray(0, 504)).length).toBe(247);
+
+        const a = new Indcpa(3).generateMatrix(seed, false);
+        expect(Array.from(a[0][0])).toEqual(rejectionSample(stream).slice(0, 256));
+    });
+    it('Keeps squeezing fresh blocks past 672 bytes', () => {
+        // 672 bytes that are all rejected (0xFFF >= q), then 4 blocks of
+        // coefficients, some of them rejected as well
+        const coefficients: number[] = [];
+        const stream = new Uint8Array(168 * 8).fill(0xFF);
+        for (let j = 672; j < stream.length; j += 3) {
+            const d1 = (j * 7) % 4096;
+            const d2 = (j * 11) % 4096;
+            stream[j] = d1 & 0xFF;
+            stream[j + 1] = (d1 >> 8) | ((d2 & 0xF) << 4);
+            stream[j + 2] = d2 >> 4;
+            coefficients.push(d1, d2);
+        }
+        const expected = coefficients.filter((c) => c < 3329).slice(0, 256);
+        expect(expected.length).toBe(256);
+
+        const xof = new CraftedXof(stream);
+        const r = new Indcpa(3).sampleNTT(xof);
+        expect(Array.from(r)).toEqual(expected);
+        expect(xof.squeezed).toBe(8);
+    });
+    it('Uses the overridable xof for every matrix element', () => {
+        const indcpa = new Indcpa(2);
+        const calls: number[][] = [];
+        indcpa.xof = (seed: Uint8Array, x: number, y: number) => {
+            calls.push([x, y]);
+            return new Shake128Reader(seed, Uint8Array.of(x, y));
+        };
+        indcpa.generateMatrix(new Uint8Array(32), true);
+        expect(calls).toEqual([[0, 0], [0, 1], [1, 0], [1, 1]]);
+    });
+    it('Carries bytes of a split 3-byte group over to the next block', () => {
+        // with 64-byte AES blocks the first 512 bytes end in the middle of a
+        // group; the group starting at byte 510 must still be parsed whole
+        const stream = new Uint8Array(64 * 20).fill(0xFF);
+        for (let j = 510; j < stream.length; j++) {
+            stream[j] = (j * 37 + 11) & 0xFF;
+        }
+        const expected = rejectionSample(stream).slice(0, 256);
+        expect(expected.length).toBe(256);
+
+        const r = new Indcpa(3).sampleNTT(new CraftedXof(stream, 64));
+        expect(Array.from(r)).toEqual(expected);
+    });
+});
@@ -0,0 +1,49 @@
+import 'jest';
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+import { MlKem1024Handshake } from "../src/index";
+import { KyberService } from "../src/services/kyber.service";
+
+// count = 0 of the ML-KEM-1024 known-answer tests generated by the FIPS 203
+// reference implementation
+const sk = "433A70EE6950F9882ACDD5A47820A6A8163708F04D457C779979B83FE117224701490830386637DA332E74B1AEDA0B2F81CA4F9BB2C2B02B0CFD680C11482F335ACF7B9139B5B88A34E3542C6861377545983343CD829414E47864212E78F855F52390379ACC3A62953131B63EE832ADB3BF4BF58E247349B5E097E55ABE497B15982373AE732E0439AC67D05C7F037C8A739B18140E144C851DC9611F4BCF04F3A2093C197BD63BB5E6190100545FF81DB7FCCDDD9A324B0BAC3C2C2382284058F08B961952C094019C10BE37A53D5AC794C010A9D0821F15027A1C419C3C71C9A1D28AED02597AB79B875394626BA39ADC090C3A90CF75871A65275EB1C5B03372E13A1A23D0CF9374111F80CC83A905622B83FC513971EC8419F0880C3067633671B09B5456AB6057936D19A4A2A267911B000A13956FBD493821DA072C04642B0C20DA6CC0D9D864A39365DFD64F10187825FA33250749CBC0C905D7B1FF3CAE2412BF86B81A817B86BAA30EDF7862E5F6BAC98726E56B3CEC60664CAA2A7DF670C5E207DFAC03824C89897CB490EAA76521222C86205169C91C329C4A184D78721AF836AD4DB0CA78464D4171473012B7D183BAFA627585C64BE3809D7E6004CBDC79A5460F0AD677CB716512407D3A619AD09543B739547472A706B317A509BE5D861FD66C7D0ED94CD5004795C18159E3A33D798711525F1635A68428172923249635AAD032B9E56664BDD48ED24AC75C6468D1903E471086C5F1567E831A0508C539632591AB577D324A82429725809950761D8434288C14034F1C06C1D0AAE09A71C740A55701C28FF84499F2BB18B6628CAAA3FE75AC4DE04C6F913900D86C88126252A17C4D303991DB0287120881BB88478AAA9AF9BC53D3729843858FDB4648059CAC82C1A10878BA39823B041BD0E258487B56CC8A3220C1A58BF66A172B5B9A0C632D674EAE885A015C4E37BA073680BEDE7534F3E34B6050C86B21C3C090941F23B7F6731E2BDA0E6EA4646771CEC572B98CA0A158919ADBEB84CE585FF9F25EBDDA6CB6F07A8F811232607E7217BB039BABD0D91934A8594059C9687723C04381BFD627A10517F5F4BFC77777AA2671AE124F2B7A5F4D5614029197E6586FA8C17E0AD90781BC7BB19A772D5A4EFE32CAC89B76C42A5EDE9BCC20C1898C08A5B0C07E478B1BBC226EFAD15F2AC737514B8C6149810779222416537ED00DAEAB177E903EAD6B4AC42370AF1B1F50EBAFAA1C6E647BBACCE72C7D0B88AEB0B06FC1A45457A9C187579BF184579CC351C43DFF942605AA5604FC85FC5583F6F1496FE61D70D6CDE2327FEE713D86F29B3AFCBB54E9A92A33A6C1EA6FFA309566B0686233C0F3B1C3144890E4F0829A6099C5749CDEC84328EC2CB64A7385A761D64B3A23C489343343B97723AE78C7D805458E1620F0292897691704CB76E3B0B281A83CF64490498CBCAF04802416B33C565171D772D3B9354037587629AE14A5C5031AC36671A0D0C91CC0B4CD69D8402E33B9BCC2BBAF6B971E303FA137BE232598A4999BC012574C81651B38B38396C1C365303AD25D49FC6B689951A1CC4C6007613065495F97910F9735D4EA4E442ACB2FABAECFE1ADEF0667BA422C954A05D1B6167A263E1275C6ADA8385965304B30324040542CF5A451BCAFC74788BE3B9B9FCC45D4790E2D7335C60A14F0A49D13053F2626A627CA19553CB336A2CB4A455D8EF3989491472BA0051EF7416E0BBF1A6108FA07C161548E7C62331AE5A2B4E4A108A51093D3150821A2FB547170A1B73C43C550C6557A4048A58A2CD77A244234B2235175A0897D5061B4613482DC136414048C11DB37EAE0A5DF87C19314B0E82397A0D338DC21538AF36149D93F8B1A11C53BB5DEF8B7A2CCA3362B7FE3A1408A2547E209058C673A7566C26123A6D8B692A5F33EBDCB2624B79D877BCE5FA14E42E83FAAD82E9900553A3C6045CA329FEA4A506558C491B6A616C6FD400B42136F44CB0D0257650819018D3C568EF6C60C6C409E70A829287108C1B6A4D32F76E5CC4D104B02438EF7A467912398EA9C7CBD9981589A341897687B516A13307D66C068C444B4B949A17412413315CCF49B99980034B5B8CFDEC4A60B9C1E7455AAFBF3A757346990CC32B0599BA217A6C5FC39537911957C125148A87F41589CB222D0D19229E2CB55E1A044791E7CA61192A46460C3183D2BCD6DE08A5E7651603ACC349CA16CBA18ABB23A3E8C330D7421598A6278EC7EBFABCA0EF488B2290554753499C0452E453815309955B8150FA1A1E393386DC12FDB27B38C6745F2944016EC457F39B18D604A07A1ABE07BC844050FFA8A06FA154A49D88FAC775452D6A7C0E589BFB5C370C2C4B6201DDA80C9AB2076ECC08B44522FDA3326F033806DD2693F319739F40C4F42B24ACA7098FB8FF5F9AC20292D02B56AC746801ACCCC84863DEE32878497B69438BF991776286650482C8D9D9587BC6A55B85C4D7FA74D02656B421C9E23E03A48D4B74425C26E4A20DD9562A4DA0793F3A352CCC0F18217D868C7F5002ABE768B1FC73F05744E7CC28F10344062C10E08ECCCED3C1F7D392C01D979DD718D8398374665A16A9870585C39D5589A50E133389C9B9A276C024260D9FC7711C81B6337B57DA3C376D0CD74E14C73727B276656B9D8A4EB71896FF589D4B893E7110F3BB948ECE291DD86C0B7468A678C746980C12AA6B95E2B0CBE4331BB24A33A270153AA472C47312382CA365C5F35259D025746FC6595FE636C767510A69C1E8A176B7949958F2697399497A2FC7364A12C8198295239C826CB5082086077282ED628651FC04C639B438522A9DE309B14B086D6E923C551623BD72A733CB0DABC54A9416A99E72C9FDA1CB3FB9BA06B8ADB2422D68CADC553C98202A17656478AC044EF3456378ABCE9991E0141BA79094FA8F77A300805D2D32FFC62BF0CA4554C330C2BB7042DB35102F68B1A0062583865381C74DD913AF70B26CF0923D0C4CB971692222552A8F4B788B4AFD1341A9DF415CF203900F5CCF7F65988949A75580D049639853100854B21F4018003502BB1BA95F556A5D67C7EB52410EBA288A6D0635CA8A4F6D696D0A020C826938D34943C3808C79CC007768533216BC1B29DA6C812EFF3340BAA8D2E65344F09BD47894F5A3A4118715B3C5020679327F9189F7E10856B238BB9B0AB4CA85ABF4B21F5C76BCCD71850B22E045928276A0F2E951DB0707C6A116DC19113FA762DC5F20BD5D2AB5BE71744DC9CBDB51EA757963AAC56A90A0D8023BED1F5CAE8A64DA047279B353A096A835B0B2B023B6AA048989233079AEB467E522FA27A5822921E5C551B4F537536E46F3A6A97E72C3B063104E09A040598940D872F6D871F5EF9B4355073B54769E45454E6A0819599408621AB4413B35507B0DF578CE2D511D52058D5749DF38B29D6CC58870CAF92F69A75161406E71C5FF92451A77522B8B2967A2D58A49A81661AA65AC09B08C9FE45ABC3851F99C730C45003ACA2BF0F8424A19B7408A537D541C16F5682BFE3A7FAEA564F1298611A7F5F60922BA19DE73B1917F1853273555199A649318B50773345C997460856972ACB43FC81AB6321B1C33C2BB5098BD489D696A0F70679C1213873D08BDAD42844927216047205633212310EE9A06CB10016C805503C341A36D87E56072EABE23731E34AF7E2328F85CDB370CCAF00515B64C9C54BC837578447AACFAED5969AA351E7DA4EFA7B115C4C51F4A699779850295CA72D781AD41BC680532B89E710E2189EB3C50817BA255C7474C95CA9110CC43B8BA8E682C7FB7B0FDC265C0483A65CA4514EE4B832AAC5800C3B08E74F563951C1FBB210353EFA1AA866856BC1E034733B0485DAB1D020C6BF765FF60B3B801984A90C2FE970BF1DE97004A6CF44B4984AB58258B4AF71221CD17530A700C32959C9436344B5316F09CCCA7029A230D639DCB022D8BA79BA91CD6AB12AE1579C50C7BB10E30301A65CAE3101D40C7BA927BB553148D1647024D4A06C8166D0B0B81269B7D5F4B34FB022F69152F514004A7C685368552343BB60360FBB9945EDF446D345BDCAA7455C74BA0A551E184620FEF97688773D50B6433CA7A7AC5CB6B7F671A15376E5A6747A623FA7BC6630373F5B1B512690A661377870A60A7A189683F9B0CF0466E1F750762631C4AB09F505C42DD28633569472735442851E321616D4009810777B6BD46FA7224461A5CC27405DFBAC0D39B002CAB33433F2A86EB8CE91C134A6386F860A1994EB4B6875A46D195581D173854B53D2293DF3E9A822756CD8F212B325CA29B4F9F8CFBADF2E41869ABFBAD10738AD04CC752BC20C394746850E0C4847DBEBBE41CD4DEA489DEDD00E76AE0BCF54AA8550202920EB64D5892AD02B13F2E5B505D7CFAD1B497499323C8686325E4792F267AAFA3F87CA60D01CB54F29202A";
+const ct = "3CA7A7838B26FF0E598F1D4CD6516FD8D28B7C3A61607204C7FDB39009D04911C11F9187DB0E6DC05DEDEA6462AA00FF67BB40285CAC7501FD5B7D9E2CFC8B9177A126B62567CFF1F665EE05705495017C5C40001F6A7ABC47D34F36D183B624E4BB75F92600F2EEA70A2052FFEA7919871EC27F960E9EED46BCF8713C396C6F2F3CBD0B1EB6CF136A97FF2435F1B310DB70206F52B268BB768407A27B31EDC8DE55EF53192DE1304D15E6C5523E5B1BB96D9F288DDB9ED65E8E32701D3858832D9D7CDE72E716565F5788035A087121F60BCDC72AA386A1BCDA978E15F4AA736BD2F884E0A66775D6E2CE78B73D109267C48080396E22B42D4DD0C2D8E75065F1EEAE8654FF9C259465FF4AB2C253F517B8DB481CD6C00D573D0B46CC7E4644DFE0E1E2F997B586B2CCCC75F52DEC788AC214F8013782206023EBE8F72289664EC637A6F988BEE8CBA25226AEABBF09179E41E7E6168E30819AF0A89A745671F3C5A10560DB93D5EDAF63AC7539A8616D84B37BF4245B09E5248D7E4042C4C0D5585504BB825E0ED05EC08F3F3B4365611299F8F5D2BE0B2E4538A2BD3938194D7F5C79FF8AF9622B336DBC31BCB7D60F6A190883F498B4DE4688B3F5475A200493D9C8218F85256E87CCB3013723C7A264A3AB764ACFC8DCFE2CE359A7BD53FF7F68A842751CFCBDD39EBB1C44F65739C071AF6C24220575296E85AE4458E0F676348A2D7CDB64378E75ABC74E86D346480949C6A6D3627611CB2CDF7714EC779BF08A47616760A49F30A1A712493F190D433E7828CAB45037CEF6C863C5A3CACD5C14BC2E36BB3296E187E1796D2738B32835620E142E1ADF096BF309CDC83A1545E414232B9905BBAB1FD23BAB0D93D4DF0AD8314809FEDF7A97992871F5BD238FD72FF52BAD31F934EE5435E0E32A2BE4519E2BA670BB443A0E227A3D44B400CC48A31475A98233930CAB930BF498CC30CCB0421DC412C3190A98A03D8ECE1816DEF4D358E3C3C1D4249264252D02DE48E2B2216A2B246A61EAC8DEC3F8A4BDC2A69085DFEC3AD5C80852B0960DA201828EF04AAE93E026DEB3C6704904801B4101AAE305013581294F1F34877376A18DB8EEC0F1BFE9B596BE86383244F999E298ACB04287ACE035D5B89B2F9DA1CBDB5779994E5733DCC4DE22AD2F3F9F1EF49E5DEB80EC9AC133DF3E0BB9BE7CD8DB478EB3111BB6D716849F4A48CA795BD049AC1C3939862BF9091697F054EA7DDDB4224579BC3E3D946E7D881669A290C23A4A222B3C90071333E404BC10842749F7D3051175CCC645146A991CF07AF05020A2FDF94F474DF6BFE24790047497257930FAFC7B9A56D1C06EC95859B9576ACF45C98CC8D7434C03C90B0117DA333388AA87DE75A5441EA63F27235BE4A7D25B1D1AFE291C857955E38AE39D3CF469B2FBBEB327AAE7C56E9057F5CC592B37D9D9D671F7C91CCFE0C282C3F285B6CF2FDD6FB110B898CDDCBD37787CE8E954B70890F0DAA90F4A5791360F4F1E68D64FA7A48A0FD2E38490482EFA90A869535D320C6B6575FE8E0E5518E9DE40D9F10BF35F499A30ADB975CFABBA568E28CA3AB81E21679E6768EE5C890F4C5E9349F02337EDFAFE4EFE1023E93CE32E84039BFCA516E86986649AEE3E475BE7B3644774DABBB6CA8B5C77B4CA1865D776A10043CDCBC612DF0F436A8252DEA172A9F2686B03FF96F9B2905240AFA24551916F8F82944F3FF7173F6EA487159EC83C290FAE1440CC54CE6F785BBC3CB3763FA98CF917D33BCA00F56D90491668A1EE89D76116F7F19EDCDF7160240B9882261387E190B116A95F2DDFD2D8E5B03DCB850B89584EE9FFECEDABAF7F15030E16679757D4A27E2014A04DD8FEEFFFCA2EC795FA9A6FD31A3F3A74E440DAE018E5F174141E200ADE656E3C9689BFFA04D3FEAFAAB95D7ED5D5E75461B236559826347DAF9E8DF8FA27904BAB7078433ED9BD4557C78468DA6B747E13D6E5C97D927A5B0915097316A6FE21EDA26D230CF19BA826485C93365814BF50FC8E4AF90392CB0BB79570216FD9543271B6205DC44416BBF41448240D283E367C4CAB21F090941D2E4033B7CF02A345AE9EE8550A4CF19775CFD440E70CE838552A31719D8789401D33F01F3EE558A992D71FD309CCBE9689C48B3667930FD8C7DDCA717E7C77DAC273D7F4CA77757ACA23FF2E558CEEF152075ADD70BAA763C29F";
+const ss = "EA636CE31B73F40229572146B97E590F1605FDADD1C3781861530EFFCF2B1E18";
+
+// ct with its first byte flipped, which must decapsulate to J(z || c)
+const rejectedCt = "3DA7A7838B26FF0E598F1D4CD6516FD8D28B7C3A61607204C7FDB39009D04911C11F9187DB0E6DC05DEDEA6462AA00FF67BB40285CAC7501FD5B7D9E2CFC8B9177A126B62567CFF1F665EE05705495017C5C40001F6A7ABC47D34F36D183B624E4BB75F92600F2EEA70A2052FFEA7919871EC27F960E9EED46BCF8713C396C6F2F3CBD0B1EB6CF136A97FF2435F1B310DB70206F52B268BB768407A27B31EDC8DE55EF53192DE1304D15E6C5523E5B1BB96D9F288DDB9ED65E8E32701D3858832D9D7CDE72E716565F5788035A087121F60BCDC72AA386A1BCDA978E15F4AA736BD2F884E0A66775D6E2CE78B73D109267C48080396E22B42D4DD0C2D8E75065F1EEAE8654FF9C259465FF4AB2C253F517B8DB481CD6C00D573D0B46CC7E4644DFE0E1E2F997B586B2CCCC75F52DEC788AC214F8013782206023EBE8F72289664EC637A6F988BEE8CBA25226AEABBF09179E41E7E6168E30819AF0A89A745671F3C5A10560DB93D5EDAF63AC7539A8616D84B37BF4245B09E5248D7E4042C4C0D5585504BB825E0ED05EC08F3F3B4365611299F8F5D2BE0B2E4538A2BD3938194D7F5C79FF8AF9622B336DBC31BCB7D60F6A190883F498B4DE4688B3F5475A200493D9C8218F85256E87CCB3013723C7A264A3AB764ACFC8DCFE2CE359A7BD53FF7F68A842751CFCBDD39EBB1C44F65739C071AF6C24220575296E85AE4458E0F676348A2D7CDB64378E75ABC74E86D346480949C6A6D3627611CB2CDF7714EC779BF08A47616760A49F30A1A712493F190D433E7828CAB45037CEF6C863C5A3CACD5C14BC2E36BB3296E187E1796D2738B32835620E142E1ADF096BF309CDC83A1545E414232B9905BBAB1FD23BAB0D93D4DF0AD8314809FEDF7A97992871F5BD238FD72FF52BAD31F934EE5435E0E32A2BE4519E2BA670BB443A0E227A3D44B400CC48A31475A98233930CAB930BF498CC30CCB0421DC412C3190A98A03D8ECE1816DEF4D358E3C3C1D4249264252D02DE48E2B2216A2B246A61EAC8DEC3F8A4BDC2A69085DFEC3AD5C80852B0960DA201828EF04AAE93E026DEB3C6704904801B4101AAE305013581294F1F34877376A18DB8EEC0F1BFE9B596BE86383244F999E298ACB04287ACE035D5B89B2F9DA1CBDB5779994E5733DCC4DE22AD2F3F9F1EF49E5DEB80EC9AC133DF3E0BB9BE7CD8DB478EB3111BB6D716849F4A48CA795BD049AC1C3939862BF9091697F054EA7DDDB4224579BC3E3D946E7D881669A290C23A4A222B3C90071333E404BC10842749F7D3051175CCC645146A991CF07AF05020A2FDF94F474DF6BFE24790047497257930FAFC7B9A56D1C06EC95859B9576ACF45C98CC8D7434C03C90B0117DA333388AA87DE75A5441EA63F27235BE4A7D25B1D1AFE291C857955E38AE39D3CF469B2FBBEB327AAE7C56E9057F5CC592B37D9D9D671F7C91CCFE0C282C3F285B6CF2FDD6FB110B898CDDCBD37787CE8E954B70890F0DAA90F4A5791360F4F1E68D64FA7A48A0FD2E38490482EFA90A869535D320C6B6575FE8E0E5518E9DE40D9F10BF35F499A30ADB975CFABBA568E28CA3AB81E21679E6768EE5C890F4C5E9349F02337EDFAFE4EFE1023E93CE32E84039BFCA516E86986649AEE3E475BE7B3644774DABBB6CA8B5C77B4CA1865D776A10043CDCBC612DF0F436A8252DEA172A9F2686B03FF96F9B2905240AFA24551916F8F82944F3FF7173F6EA487159EC83C290FAE1440CC54CE6F785BBC3CB3763FA98CF917D33BCA00F56D90491668A1EE89D76116F7F19EDCDF7160240B9882261387E190B116A95F2DDFD2D8E5B03DCB850B89584EE9FFECEDABAF7F15030E16679757D4A27E2014A04DD8FEEFFFCA2EC795FA9A6FD31A3F3A74E440DAE018E5F174141E200ADE656E3C9689BFFA04D3FEAFAAB95D7ED5D5E75461B236559826347DAF9E8DF8FA27904BAB7078433ED9BD4557C78468DA6B747E13D6E5C97D927A5B0915097316A6FE21EDA26D230CF19BA826485C93365814BF50FC8E4AF90392CB0BB79570216FD9543271B6205DC44416BBF41448240D283E367C4CAB21F090941D2E4033B7CF02A345AE9EE8550A4CF19775CFD440E70CE838552A31719D8789401D33F01F3EE558A992D71FD309CCBE9689C48B3667930FD8C7DDCA717E7C77DAC273D7F4CA77757ACA23FF2E558CEEF152075ADD70BAA763C29F";
+const rejectedSs = "695F4570661718F128DDC52A69613F4E6EF0CEB8E0FF205F1823A1186D4FF683";
+
+function fromHex(hex: string): Uint8Array {
+    return new Uint8Array(Buffer.from(hex, "hex"));
+}
+
+describe('MlKem1024Service', () => {
+    let mlKem1024: MlKem1024Service;
+
+    beforeEach(async () => {
+        mlKem1024 = new MlKem1024Service();
+    });
+    it('Decapsulates the known-answer cipher text', () => {
+        expect(mlKem1024.decrypt(fromHex(ct), fromHex(sk))).toEqual(fromHex(ss));
+    });
+    it('Returns the implicit rejection key for a modified cipher text', () => {
+        expect(mlKem1024.decrypt(fromHex(rejectedCt), fromHex(sk))).toEqual(fromHex(rejectedSs));
+    });
+    it('Compare generated shared secrets from a key set', () => {
+        const [publicKey, privateKey] = mlKem1024.generateKyberKeys();
+        expect(publicKey.length).toBe(KyberService.Kyber1024PKBytes);
+        expect(privateKey.length).toBe(KyberService.Kyber1024SKBytes);
+
+        const [cipherText, sharedSecret] = mlKem1024.encrypt(publicKey);
+        expect(cipherText.length).toBe(KyberService.Kyber1024CTBytes);
+        expect(mlKem1024.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+    });
+    it('Agrees on a shared secret through the handshake', () => {
+        const bobHandshake = new MlKem1024Handshake();
+        const aliceHandshake = new MlKem1024Handshake();
+
+        const aliceCipherText = aliceHandshake.generateCipherTextAndSharedSecret(bobHandshake.publicKey);
+        const bobSharedSecret = bobHandshake.generateRemoteSharedSecret(aliceCipherText);
+        expect(bobSharedSecret).toEqual(aliceHandshake.sharedSecret);
+    });
+});
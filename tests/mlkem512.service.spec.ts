@@ -0,0 +1,49 @@
+import 'jest';
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem512Handshake } from "../src/index";
+import { KyberService } from "../src/services/kyber.service";
+
+// count = 0 of the ML-KEM-512 known-answer tests generated by the FIPS 203
+// reference implementation
+const sk = "9CDA1686A3396A7C109B415289F56A9EC44CD5B9B674C38A3BBAB30A2C90F00437A264B0BE9A1E8BA887D3C3B100898054272F941C88A1F208F1C914F964C1AAD613A6A84F88E42D3556835FB161FDC5CD15A3BC7E74B6F2612FA8271C7EA112B05C2A36CC707CE38D5D1ACC5115462A8C1AABF07276C72318337F74B5CBEFEA7A803790BC0393F3A54C724A5765A48F296B03F484376023626930222704C08FD3BC729315D1FC70EB7975A97B9DEED162F486BBC64A097111952D89B57D765E8A991A2E564206EA7BF5E4007A66358831CA0E34B2F6A84D10F79C477CB66A8A952569367388130D7B974A63AA51996C97709BB8EABC94E6A535D792D2905474952D6B8C2222B2AE56DC66FB0461192066CDDB43EC05984FB4982649771397C6A8379F3B5643069848875919E89CC439A3BE2F081490F341BD1240ADD80DDB8C9963B47A2A0992290338DA9C3B725C6DA44718C01046812562AFB084837ACB3C575E4F93936C352AC0E70AA3845EE485296E6B02DE0B47B5C4C96B0B7CF94C4ABE95486153118E43C2B9C84D9DA91C6C5ACD5A57002D058497992799E5BA1CE6C25EB29844D858BA1C37850C0C2F57C60DE37F77C082EC14494EBA288A65915116C20A325DE31AAADD680DB19C0CFCC3460F0AA01A87A6A580C6CA291FAEF0CCC49B76A8DAC4F9D41640509DBD0B4045C1530ED34755D47462700F2A8CAF9680A6D7E38A7E2A63E937650A23306D855DA2A2B7EF505CA596AB0485013EA927C7342343613643BA4007D6C874B980C79C3AA1C74F8581C34849B36EA79815FBB4CCF9610583081D7C5B4409B8D0531C04BCAF7CC751103A5FD1BA4470833E89775ADED970B5471859250FE7267105835F390030C5E7CD3F961019EAAEA23777D347BB2ADCB673C02034F394342271BCEA6414E546C3B20BD57481C7EA14C77C388CC86251C12558B100F8C5B3D03CA2C70713909659C8BA26D0D1765E0BC823D68CA5570DE600CD0941725D386E14C1012DF5951BEB8D8281A4F6815D3760B764295AD0406C2BF7928AD65032B65F14B77CCB8917C93A29D6287D8A6062399CB6400865ED10B619AA5811139BC086825782B2B7124F757C83AE794444BC78A47896ACF1262C81351077893BFC56F90449C2FA5F6E586DD37C0B9B581992638CB7E7BCBBB99AFE4781D80A50E69463FBD988722C3635423E27466C71DCC674527CCD728968CBCDC00C5C9035BB0AF2C9922C7881A41DD2875273925131230F6CA59E9136B39F956C93B3B2D14C641B089E07D0A840C893ECD76BBF92C805456668D07C621491C5C054991A656F511619556EB97782E27A3C785124C70B0DABA6C624D18E0F9793F96BA9E1599B17B30DCCC0B4F3766A07B23B257309CD76ABA072C2B9C9744394C6AB9CB6C54A97B5C57861A58DC0A03519832EE32A07654A070C0C8C4E8648ADDC355F274FC6B92A087B3F9751923E44274F858C49CABA72B65851B3ADC48936955097CAD9553F5A263F1844B52A020FF7CA89E881A01B95D957A3153C0A5E0A1CCD66B1821A2B8632546E24C7CBBC4CB08808CAC37F7DA6B16F8ACED052CDB2564948F1AB0F768A0D3286CCC7C3749C63C781530FA1AE670542855004A645B522881EC1412BDAE342085A9DD5F8126AF96BBDB0C1AF69A15562CB2A155A100309D1B641D08B2D4ED17BFBF0BC04265F9B10C108F850309504D772811BBA8E2BE16249AA737D879FC7FB255EE7A6A0A753BD93741C61658EC074F6E002B019345769113CC013FF7494BA8378B11A172260AAA53421BDE03A35589D57E322FEFA4100A4743926AB7D62258B87B31CCBB5E6B89CB10B271AA05D994BB5708B23AB327ECB93C0F3156869F0883DA2064F795E0E2AB7D3C64D61D2303FC3A29E1619923CA801E59FD752CA6E7649D303C9D20788E1214651B06995EB260C929A1344A849B25CA0A01F1EB52913686BBA619E23714464031A78439287FCA78F4C0476223EEA61B7F25A7CE42CCA901B2AEA129817894BA3470823854F3E5B28D86BA979E54671862D90470B1E7838972A81A48107D6AC0611406B21FBCCE1DB7702EA9DD6BA6E40527B9DC663F3C93BAD056DC28511F66C3E0B928DB8879D22C592685CC775A6CD574AC3BCE3B27591C821929076358A2200B377365F7EFB9E40C3BF0FF0432986AE4BC1A242CE9921AA9E22448819585DEA308EB03950C8DD152A4531AAB560D2FC7CA9A40AD8AF25AD1DD08C6D79AFE4DD4D1EEE5AB505D7CFAD1B497499323C8686325E4792F267AAFA3F87CA60D01CB54F29202A";
+const ct = "521C88486C35F6C245839212AB0E23660CD5B68FCCD5A7B41EB5A3CE8844A31088C878EEFEB44739CF9130013A83FAAA78037443E5D749BA4D6F156934CC89C2D9ABC76CB7FF050B4EEEB4A58611BE330B3FDEE875C1F366216AD659FABBEBCE37114E795C65F1EECA93181343005410FEBAE042DFAEEAD873CF1C575D38CE26EC5C02940C0224E983881C2A1A4771BA316628A0F425EF54E984FE70E3866C79780B7572462CE5A9E116B55439AE921FF8B0D89D8616D405135DFAB8F14D7DA03F752517DA847458AB83646CE5B4073788C66A6B60FAF64B8FED507EE2A7D931F746B9F2595769721A59D93E4852AAF8185114F4A04F0F6F3CA144BA8EE1BA52DB4AA7DC274156862812DC36E06997942BAB02822BFC5FDFCDACEA869C1A7672A4C794C9C09CC8A76DF894324C14A53E9961CF40F0E70DC18583AA5E3D025A5B8D9CEDA71D7902EBC5D499F059386B9910C75BA834B9D0C70AD9B9EA683AA699865F9CA7F3F30D20B78FF99850216A62F919A9D9ECA482A52EAA2500FE5B80853CBB88E17CE593EB23709BAC01FDFC941B527F5180E0DECC3785F04D9120098F14C07F9244B441F2897F243C846A1D093D6A9C0B40E842A6D12E1D2E01BB44693D61C875EF007673787AAF167C1EC2B2F61AB8B504032A14490C109A0C2AEE872FCD629594992EBD6DCDE42FF6A602A5C7E15F50B799A7780829DB1CB2E70E89944CF543224D4339CCF317A0BA195A07DF0F43D7EEE2400080DA25A40F320061B15AE23EA0DEE42474B2274D92C72C7E82F938BF826934CA2AAACA49CD73EB36D182591B8145D89AC8D6CEB7BE8A1D7960D04171D7D03D84580BCA9B5976AD1ED6CC8B021BEECDBCC8B51A9B091C6625861097A32FB5A41E15B856CDA135C3CA29C8656603CE3EB78071494197F0906D8B2A2CB208076EC89CE5760B199E937E13FEBC7893665AB6B2D5C85DC9A5D873CBF55B4A69343D768FBEEF4B5EB88D0C31FFD366C66E13866E3F33EECBF2C3329C111C0CDE2B9560892CE1A2686A2A1C18B7A7261A55BDA57ADE241544F3561390BDC69514429C8D5FBEA9188BAF2892";
+const ss = "B4C8E3C4115F9511F2FDDB288C4B78C5CD7C89D2D4D321F46B4EDC54DDF0EB36";
+
+// ct with its first byte flipped, which must decapsulate to J(z || c)
+const rejectedCt = "531C88486C35F6C245839212AB0E23660CD5B68FCCD5A7B41EB5A3CE8844A31088C878EEFEB44739CF9130013A83FAAA78037443E5D749BA4D6F156934CC89C2D9ABC76CB7FF050B4EEEB4A58611BE330B3FDEE875C1F366216AD659FABBEBCE37114E795C65F1EECA93181343005410FEBAE042DFAEEAD873CF1C575D38CE26EC5C02940C0224E983881C2A1A4771BA316628A0F425EF54E984FE70E3866C79780B7572462CE5A9E116B55439AE921FF8B0D89D8616D405135DFAB8F14D7DA03F752517DA847458AB83646CE5B4073788C66A6B60FAF64B8FED507EE2A7D931F746B9F2595769721A59D93E4852AAF8185114F4A04F0F6F3CA144BA8EE1BA52DB4AA7DC274156862812DC36E06997942BAB02822BFC5FDFCDACEA869C1A7672A4C794C9C09CC8A76DF894324C14A53E9961CF40F0E70DC18583AA5E3D025A5B8D9CEDA71D7902EBC5D499F059386B9910C75BA834B9D0C70AD9B9EA683AA699865F9CA7F3F30D20B78FF99850216A62F919A9D9ECA482A52EAA2500FE5B80853CBB88E17CE593EB23709BAC01FDFC941B527F5180E0DECC3785F04D9120098F14C07F9244B441F2897F243C846A1D093D6A9C0B40E842A6D12E1D2E01BB44693D61C875EF007673787AAF167C1EC2B2F61AB8B504032A14490C109A0C2AEE872FCD629594992EBD6DCDE42FF6A602A5C7E15F50B799A7780829DB1CB2E70E89944CF543224D4339CCF317A0BA195A07DF0F43D7EEE2400080DA25A40F320061B15AE23EA0DEE42474B2274D92C72C7E82F938BF826934CA2AAACA49CD73EB36D182591B8145D89AC8D6CEB7BE8A1D7960D04171D7D03D84580BCA9B5976AD1ED6CC8B021BEECDBCC8B51A9B091C6625861097A32FB5A41E15B856CDA135C3CA29C8656603CE3EB78071494197F0906D8B2A2CB208076EC89CE5760B199E937E13FEBC7893665AB6B2D5C85DC9A5D873CBF55B4A69343D768FBEEF4B5EB88D0C31FFD366C66E13866E3F33EECBF2C3329C111C0CDE2B9560892CE1A2686A2A1C18B7A7261A55BDA57ADE241544F3561390BDC69514429C8D5FBEA9188BAF2892";
+const rejectedSs = "EED0AFF6E872E9785C5005A439D86770D13EE2662F469C95DECF5B39E8288455";
+
+function fromHex(hex: string): Uint8Array {
+    return new Uint8Array(Buffer.from(hex, "hex"));
+}
+
+describe('MlKem512Service', () => {
+    let mlKem512: MlKem512Service;
+
+    beforeEach(async () => {
+        mlKem512 = new MlKem512Service();
+    });
+    it('Decapsulates the known-answer cipher text', () => {
+        expect(mlKem512.decrypt(fromHex(ct), fromHex(sk))).toEqual(fromHex(ss));
+    });
+    it('Returns the implicit rejection key for a modified cipher text', () => {
+        expect(mlKem512.decrypt(fromHex(rejectedCt), fromHex(sk))).toEqual(fromHex(rejectedSs));
+    });
+    it('Compare generated shared secrets from a key set', () => {
+        const [publicKey, privateKey] = mlKem512.generateKyberKeys();
+        expect(publicKey.length).toBe(KyberService.Kyber512PKBytes);
+        expect(privateKey.length).toBe(KyberService.Kyber512SKBytes);
+
+        const [cipherText, sharedSecret] = mlKem512.encrypt(publicKey);
+        expect(cipherText.length).toBe(KyberService.Kyber512CTBytes);
+        expect(mlKem512.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+    });
+    it('Agrees on a shared secret through the handshake', () => {
+        const bobHandshake = new MlKem512Handshake();
+        const aliceHandshake = new MlKem512Handshake();
+
+        const aliceCipherText = aliceHandshake.generateCipherTextAndSharedSecret(bobHandshake.publicKey);
+        const bobSharedSecret = bobHandshake.generateRemoteSharedSecret(aliceCipherText);
+        expect(bobSharedSecret).toEqual(aliceHandshake.sharedSecret);
+    });
+});
@@ -0,0 +1,49 @@
+import 'jest';
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { MlKem768Handshake } from "../src/index";
+import { KyberService } from "../src/services/kyber.service";
+
+// count = 0 of the ML-KEM-768 known-answer tests generated by the FIPS 203
+// reference implementation
+const sk = "DA0AC7B660404E613AA1F980380CB36DBA18D23256C7267A00A67BA6C2A2B14C414239662F68BD446C8EFDF36656A0891A3CC623FC68B6572F7B29A6DE128014411EE41906D08071F94856E36A832B40338D743516659BD25879C007A52BC9586F79876AFAC6C9A30D8FAC243BD22425D6ADCE42AB7ED39014757A958BC8A74565F019234FF04B34893ED6D05501C37255239AAE2AC19F8C75AC5900DAE8300DBBA710DC2CAAE1BCA3A38C58342B286B8518F136AD15B9F7BCBB06A5607DB375DBE976457C26C6598257531B2CFB6EE7F51591840804C38388376C27148413DA9E92920BFD9A069E018BD272053DA8775C0B739F761DB2107CF35A434D69B07E5BCDB87434138B0CB556761BA522A5747B28747D80EB9D6CC673BEE5769377B996D36CEB0C0C7ED9A658533324869C18A1A36F31470F14C5AE49AB070507F8249CE404B49C0A8C3EE42FEA9631FA1A0D10D86B93F986E0E3A82E703B74E5AE6101242421A89AA07FE68588460BAA368786486A72E4F24D2DD76CFC03B694A5BA91A755A0B98F3BF93307C0AB64639AEA7A6498A3C3DDC571141ABCA4678CD2E2B857FB88F600CAA596B44BC422250B2819E0515F0472391853700B01EFF9453FD11876B7C759A07DD845CABA4555264A82765193FDF81B620A1E1F923FB24442CD1CBE94175003EC06CE77A3C64493C199987A300C95C53C0089B5D65C92EA971B2FFA93B52A461EA2AC8C199C2F4C2B704297CE3C3949E0735EA8A14AA59E8DEC0C878399FF70747AB244CE46B5F2230473323D25C66FE6B419B1F4A112E5214035256BC43FFD2B6B7B378769A6B47000BFB6357D45814BAEF3857D379E2FB8B5E5201AB26274BB1B70AD322CD0439B2DB109CFF0A2F8E600995571FFC38C590BC4C7615C69D0C98EF430F30861A77238FFC07061E475D6A30AD1B47FD039C3A447762DB2211DC31D0ACACFD55890A5824798F9AEAD7413DFE028B1012BE8B6CA1026666AC6BC9440A449B51AD8BBA7B0921DD4D8B4A578136D1A05DB38CC858437B25161D1C3C28EE07BBCF2B249110D22781DC3050D8CC0090096B38A850696F86E9E6BAB325271B2248675011968502881090497FAC0AF843C1AEA76DD81CF29C012C66227B7F06D9961309B0262F732C9A4D0BBD06727ABB8371FF2C11899A098375C460516B2CC88BCF628EDE37D8F3B3342E4490A85606EC03DA29B0256275382A3313DC041114801032C519F350C3E6ABAC3E33B93B4A19F7C5466E58CB1DC14B4A96C475729F971BDF173CDF354824D019427F95B3B4A4A4A958E476A6E6991CE6F06CB5DFCA7D4380C3D920B5711AC1FCBAF4B9AC800B976D1EC766A626CC1900B66B3A9DC62C5C144527A296BAF70433BF657C0437F87597BD7C8BBBE9ABC37050931A4A86982A2028A74454C9B810C88D1701C8CC98A1D4CA107A6B25E962FE4B6B03C95453260B807228637CC9EB12ACC0954959A52AE54D1977300ABA0BA2C14609BB28C11D5FAC5CAC88297603283E867A3648366C724D9354CD7A196DBD9802F7B88D3FA001F9C9773225462235E91352A20791FD8B87FE3377EC6A3940B1130A0BB04E7410A34E2580D071D6C56202086787A6590F84393A8E651A1E685F22478A8954F007BC7711B930772C78F092E82878E3E937F367967532913A8D53DFDF4BFB1F8846746596705CF345142B972A3F16325C40C2952A37B25897E5EF35FBAEB73A4ACBEB6A0B89942CEB195531CFC0A07993954483E6CBC87C06AA74FF0CAC5207E535B260AA98D1198C07DA605C4D11020F6C9F7BB68BB3456C73A01B710BC99D17739A51716AA01660C8B628B2F5602BA65F07EA993336E896E83F2C5731BBF03460C5B6C8AFECB748EE391E98934A2C57D4D069F50D88B30D6966F38C37BC649B82634CE7722645CCD625063364646D6D699DB57B45EB67465E16DE4D406A818B9EAE1CA916A2594489708A43CEA88B02A4C03D09B44815C97101CAF5048BBCB247AE2366CDC254BA22129F45B3B0EB399CA91A303402830EC01DB7B2CA480CF350409B216094B7B0C3AE33CE10A9124E89651AB901EA253C8415BD7825F02BB229369AF972028F22875EA55AF16D3BC69F70C2EE8B75F28B47DD391F989ADE314729C331FA04C1917B278C3EB602868512821ADC825C64577CE1E63B1D9644A612948A3483C7F1B9A258000E30196944A403627609C76C7EA6B5DE01764D24379117B9EA29848DC555C454BCEAE1BA5CC72C74AB96B9C91B910D26B88B25639D4778AE26C7C6151A19C6CD7938454372465E4C5EC29245ACB3DB5379DE3DABFA629A7C04A8353A8530C95ACB732BB4BB81932BB2CA7A848CD366801444ABE23C83B366A87D6A3CF360924C002BAE90AF65C48060B3752F2BADF1AB2722072554A5059753594E6A702761FC97684C8C4A7540A6B07FBC9DE87C974AA8809D928C7F4CBBF8045AEA5BC667825FD05A521F1A4BF539210C7113BC37B3E58B0CBFC53C841CBB0371DE2E511B989CB7C70C023366D78F9C37EF047F8720BE1C759A8D96B93F65A94114FFAF60D9A81795E995C71152A4691A5A602A9E1F3599E37C768C7BC108994C0669F3ADC957D46B4B6256968E290D7892EA85464EE7A750F39C5E3152C2DFC56D8B0C924BA8A959A68096547F66423C838982A5794B9E1533771331A9A656C28828BEB9126A60E95E8C5D906832C7710705576B1FB9507269DDAF8C95CE9719B2CA8DD112BE10BCC9F4A37BD1B1EEEB33ECDA76AE9F69A5D4B2923A86957671D619335BE1C4C2C77CE87C41F98A8CC466460FA300AAF5B301F0A1D09C88E65DA4D8EE64F68C02189BBB3584BAFF716C85DB654048A004333489393A07427CD3E217E6A345F6C2C2B13C27B337271C0B27B2DBAA00D237600B5B594E8CF2DD625EA76CF0ED899122C9796B4B0187004258049A477CD11D68C49B9A0E7B00BCE8CAC7864CBB375140084744C93062694CA795C4F40E7ACC9C5A1884072D8C38DAFB501EE4184DD5A819EC24EC1651261F962B17A7215AA4A748C15836C389137678204838D7195A85B4F98A1B574C4CD7909CD1F833EFFD1485543229D3748D9B5CD6C17B9B3B84AEF8BCE13E683733659C79542D615782A71CDEEE792BAB51BDC4BBFE8308E663144EDE8491830AD98B4634F64ABA8B9C042272653920F380C1A17CA87CED7AAC41C82888793181A6F76E197B7B90EF90943BB3844912911D8551E5466C5767AB0BC61A1A3F736162EC098A900B12DD8FABBFB3FE8CB1DC4E8315F2AF0D32F0017AE136E19F028F57262661358CDE8D3EBF990E5FD1D5B896C992CCFAADB5256B68BBF5943B132B505D7CFAD1B497499323C8686325E4792F267AAFA3F87CA60D01CB54F29202A";
+const ct = "3B835A5FA145387A0819C4DAA1E65FBE2BA5400AFCD640BBDDBBE3585F24BEDD51289694A4FE643CD5AF9C8EB277C3F1877A347A97EBEA8A037971C6B37993E433CFAF580EBA4B7FDA990D54BF4D60CAF9D1CAFC477FD956F8E6070B6AEEC6776EB814835407B5F705DB9472701D16E00655024A309B14DDBF36D222BB509647A5A049D5816F49AD9F2975DDB64C2DF05FFEB24C6A3F24A786DBF4F6D5666FC55FB73539679DC15B72FB4F6CE38FEB281D28C908D5195DB7008315978EF9D2C67DC4DBCC4962467A2D44F7235FA54EBD88BDEC32408B1F7AFF1B842064075651F03A3AFD2721ED1FE4FF1A8775C6B4D95764555412CFF2F8AA4404900F33585F0BD1B70955CFF80130DCC2403920E9744A3D0DA914405561ECB2BB32120B7ADBD2F4D8E9A07B4630480B8DF8C068934FFD9BC9B855A888EECA090F211905E074A078AB68917E7445A6C7C7E39403753CE19B6614B9D222AB99F263A681CEC6C037587EF051F0F7294E376528B31789A530342258241C99AE7D384BCD61012A32A977C638B09A3BC16A33AA47CF2D7F12D79D8AA50F63C8C53C439800B2ED9BBA9481EB181B4244ED067D62695D6A99DFD7BF8788C159CAAF94E9FDA92AC5A93F59A0DF7C0F9BBD417CB8CF45D1076006E08A9E585EE4D7394265582A87641F1653BE9EDF194401E6E4EE93C4AB054A1B6E81E3BF01FD26F2E9A6DB5BF6C0DBD21E14C2E1A5A4CFF0B267ED95427B0B049EFF7FBC093B054510578523AC7A32CC1F8EDFCF078A6C71E6E6788EDFDA7D7BADD375F7D911EFAFB9CB406E968BC5989418FB09729ED51C92C4AEAE10846384F4A091C405AD85773FE0ADE816EDDFD618BA0EA5DEB73CC43592E063015118025542871E7A60F844A6B2C3D630F9C6F85791E8D2BDF3578FF92628E8ACAF02B88D79797FB1AC30153201FCAD2234FBD4F2FC84FA7D2AB6FB2E4D9B55F11DD91A798726107C6842C3E7A1CA895035A8FE701058E3426E17BBF04C23E78FFB283E027E1C636B1CF9DED3F5909EBCB0FC63608E918C9EA9A7F7B6D3ECE727DAC128D31B7C0FFD9E43046AE6A53C25888D0E602B2302E255DCA8C58C10C010269152582C598FDDA0B8F43E311EA15BA96E0D9FF3936F5F18631FB9D03020E342647BE078C12A9475474B3DEE55ABC0E3DD804D73FD929B6AF94A67DD27C35B5FC2C9BCE500B8103B984423CEC746231A5B819ACDEA138816E70A95005EA92F7232B666E772C060F95E20612EB7DAD3297A342A7817C73E24318A0B761562D1CCB6B5D618CBE06F4B1E7B351B6B831FC83479EB34BF947B68B3A1B557AD866872656C9F59E7578061E84DBAE900AF3301BEF1EAA0C6424746302930BB685C8F3D9721521ED61BB648A4D5335C4EBF3061F8863941955242FEEEC86462828239F460F55CF9DE10BADA5627F9D3328362D6ADA08F70F0C65C5A155B2DA66156A6AAE555C0371328924928E046135DAAF48B86C1EA78B56F40AFB2794FB74B9627E2A43AABF3E17A84EE7AD30CF79EB20A72AC69";
+const ss = "AC865F839FEF1BF3D528DD7504BED2F64B5502B0FA81D1C32763658E4AAC5037";
+
+// ct with its first byte flipped, which must decapsulate to J(z || c)
+const rejectedCt = "3A835A5FA145387A0819C4DAA1E65FBE2BA5400AFCD640BBDDBBE3585F24BEDD51289694A4FE643CD5AF9C8EB277C3F1877A347A97EBEA8A037971C6B37993E433CFAF580EBA4B7FDA990D54BF4D60CAF9D1CAFC477FD956F8E6070B6AEEC6776EB814835407B5F705DB9472701D16E00655024A309B14DDBF36D222BB509647A5A049D5816F49AD9F2975DDB64C2DF05FFEB24C6A3F24A786DBF4F6D5666FC55FB73539679DC15B72FB4F6CE38FEB281D28C908D5195DB7008315978EF9D2C67DC4DBCC4962467A2D44F7235FA54EBD88BDEC32408B1F7AFF1B842064075651F03A3AFD2721ED1FE4FF1A8775C6B4D95764555412CFF2F8AA4404900F33585F0BD1B70955CFF80130DCC2403920E9744A3D0DA914405561ECB2BB32120B7ADBD2F4D8E9A07B4630480B8DF8C068934FFD9BC9B855A888EECA090F211905E074A078AB68917E7445A6C7C7E39403753CE19B6614B9D222AB99F263A681CEC6C037587EF051F0F7294E376528B31789A530342258241C99AE7D384BCD61012A32A977C638B09A3BC16A33AA47CF2D7F12D79D8AA50F63C8C53C439800B2ED9BBA9481EB181B4244ED067D62695D6A99DFD7BF8788C159CAAF94E9FDA92AC5A93F59A0DF7C0F9BBD417CB8CF45D1076006E08A9E585EE4D7394265582A87641F1653BE9EDF194401E6E4EE93C4AB054A1B6E81E3BF01FD26F2E9A6DB5BF6C0DBD21E14C2E1A5A4CFF0B267ED95427B0B049EFF7FBC093B054510578523AC7A32CC1F8EDFCF078A6C71E6E6788EDFDA7D7BADD375F7D911EFAFB9CB406E968BC5989418FB09729ED51C92C4AEAE10846384F4A091C405AD85773FE0ADE816EDDFD618BA0EA5DEB73CC43592E063015118025542871E7A60F844A6B2C3D630F9C6F85791E8D2BDF3578FF92628E8ACAF02B88D79797FB1AC30153201FCAD2234FBD4F2FC84FA7D2AB6FB2E4D9B55F11DD91A798726107C6842C3E7A1CA895035A8FE701058E3426E17BBF04C23E78FFB283E027E1C636B1CF9DED3F5909EBCB0FC63608E918C9EA9A7F7B6D3ECE727DAC128D31B7C0FFD9E43046AE6A53C25888D0E602B2302E255DCA8C58C10C010269152582C598FDDA0B8F43E311EA15BA96E0D9FF3936F5F18631FB9D03020E342647BE078C12A9475474B3DEE55ABC0E3DD804D73FD929B6AF94A67DD27C35B5FC2C9BCE500B8103B984423CEC746231A5B819ACDEA138816E70A95005EA92F7232B666E772C060F95E20612EB7DAD3297A342A7817C73E24318A0B761562D1CCB6B5D618CBE06F4B1E7B351B6B831FC83479EB34BF947B68B3A1B557AD866872656C9F59E7578061E84DBAE900AF3301BEF1EAA0C6424746302930BB685C8F3D9721521ED61BB648A4D5335C4EBF3061F8863941955242FEEEC86462828239F460F55CF9DE10BADA5627F9D3328362D6ADA08F70F0C65C5A155B2DA66156A6AAE555C0371328924928E046135DAAF48B86C1EA78B56F40AFB2794FB74B9627E2A43AABF3E17A84EE7AD30CF79EB20A72AC69";
+const rejectedSs = "088B6554DDF5887ADFE8D4E82FF6809CA0CD56AEE96AEA3A0CC0D29BD5F87BB0";
+
+function fromHex(hex: string): Uint8Array {
+    return new Uint8Array(Buffer.from(hex, "hex"));
+}
+
+describe('MlKem768Service', () => {
+    let mlKem768: MlKem768Service;
+
+    beforeEach(async () => {
+        mlKem768 = new MlKem768Service();
+    });
+    it('Decapsulates the known-answer cipher text', () => {
+        expect(mlKem768.decrypt(fromHex(ct), fromHex(sk))).toEqual(fromHex(ss));
+    });
+    it('Returns the implicit rejection key for a modified cipher text', () => {
+        expect(mlKem768.decrypt(fromHex(rejectedCt), fromHex(sk))).toEqual(fromHex(rejectedSs));
+    });
+    it('Compare generated shared secrets from a key set', () => {
+        const [publicKey, privateKey] = mlKem768.generateKyberKeys();
+        expect(publicKey.length).toBe(KyberService.Kyber768PKBytes);
+        expect(privateKey.length).toBe(KyberService.Kyber768SKBytes);
+
+        const [cipherText, sharedSecret] = mlKem768.encrypt(publicKey);
+        expect(cipherText.length).toBe(KyberService.Kyber768CTBytes);
+        expect(mlKem768.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+    });
+    it('Agrees on a shared secret through the handshake', () => {
+        const bobHandshake = new MlKem768Handshake();
+        const aliceHandshake = new MlKem768Handshake();
+
+        const aliceCipherText = aliceHandshake.generateCipherTextAndSharedSecret(bobHandshake.publicKey);
+        const bobSharedSecret = bobHandshake.generateRemoteSharedSecret(aliceCipherText);
+        expect(bobSharedSecret).toEqual(aliceHandshake.sharedSecret);
+    });
+});
@@ -0,0 +1,94 @@
+import 'jest';
+import { defaultRandomSource, RandomSource } from "../src/lib/random-source";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { Kyber512Handshake } from "../src/index";
+
+/**
+ * Deterministic source that counts how many bytes were requested
+ */
+class CountingRandomSource implements RandomSource {
+    public bytesRequested = 0;
+
+    public fill(bytes: Uint8Array): void {
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = (this.bytesRequested + i) & 0xFF;
+        }
+        this.bytesRequested += bytes.length;
+    }
+}
+
+/**
+ * Run the test with the property of the object undefined, as on platforms
+ * that do not have it
+ */
+function withoutProperty(object: object, name: string, test: () => void): void {
+    const descriptor = Object.getOwnPropertyDescriptor(object, name);
+    Object.defineProperty(object, name, { value: undefined, configurable: true });
+    try {
+        test();
+    } finally {
+        if (descriptor === undefined) {
+            delete (object as { [name: string]: unknown })[name];
+        } else {
+            Object.defineProperty(object, name, descriptor);
+        }
+    }
+}
+
+describe('RandomSource', () => {
+    it('Default source fills every byte', () => {
+        const a = new Uint8Array(100000);
+        const b = new Uint8Array(100000);
+        defaultRandomSource.fill(a);
+        defaultRandomSource.fill(b);
+        expect(a).not.toEqual(b);
+        expect(a.subarray(70000).some((x) => x !== 0)).toBe(true);
+    });
+    it('Default source falls back to Node without WebCrypto', () => {
+        withoutProperty(globalThis, "crypto", () => {
+            const a = new Uint8Array(100000);
+            defaultRandomSource.fill(a);
+            expect(a.subarray(70000).some((x) => x !== 0)).toBe(true);
+        });
+    });
+    it('Default source falls back to require on Node without getBuiltinModule', () => {
+        withoutProperty(globalThis, "crypto", () => withoutProperty(process, "getBuiltinModule", () => {
+            const a = new Uint8Array(100000);
+            defaultRandomSource.fill(a);
+            expect(a.subarray(70000).some((x) => x !== 0)).toBe(true);
+            const kyber = new MlKem512Service();
+            const [publicKey, privateKey] = kyber.generateKyberKeys();
+            const [cipherText, sharedSecret] = kyber.encrypt(publicKey);
+            expect(kyber.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+        }));
+    });
+    it('Key generation and encryption draw from the injected source', () => {
+        const randomSource = new CountingRandomSource();
+        const kyber768 = new Kyber768Service(randomSource);
+
+        const [publicKey] = kyber768.generateKyberKeys();
+        expect(randomSource.bytesRequested).toBe(64);
+        kyber768.encrypt(publicKey);
+        expect(randomSource.bytesRequested).toBe(96);
+    });
+    it('Identical sources produce identical keys and cipher texts', () => {
+        const bob = new MlKem512Service(new CountingRandomSource());
+        const alice = new MlKem512Service(new CountingRandomSource());
+
+        const [bobPublicKey, bobPrivateKey] = bob.generateKyberKeys();
+        const [alicePublicKey, alicePrivateKey] = alice.generateKyberKeys();
+        expect(bobPublicKey).toEqual(alicePublicKey);
+        expect(bobPrivateKey).toEqual(alicePrivateKey);
+        expect(bob.encrypt(bobPublicKey)).toEqual(alice.encrypt(alicePublicKey));
+    });
+    it('Handshake passes the source to its service', () => {
+        const randomSource = new CountingRandomSource();
+        const bobHandshake = new Kyber512Handshake(randomSource);
+        const aliceHandshake = new Kyber512Handshake();
+
+        const cipherText = aliceHandshake.generateCipherTextAndSharedSecret(bobHandshake.publicKey);
+        expect(bobHandshake.generateRemoteSharedSecret(cipherText)).toEqual(aliceHandshake.sharedSecret);
+        expect(randomSource.bytesRequested).toBe(64);
+    });
+});
@@ -0,0 +1,89 @@
+import 'jest';
+import { Buffer } from "buffer";
+import { ParameterSetMismatchError, SealedBoxError, SealedBoxOpenError } from "../src/lib/errors";
+import { SealedBox } from "../src/lib/sealed-box";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber1024_90sService } from "../src/services/kyber1024-90s.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+
+describe.each([
+    ["Kyber512", new Kyber512Service()],
+    ["Kyber1024-90s", new Kyber1024_90sService()],
+    ["ML-KEM-768", new MlKem768Service()],
+    ["ML-KEM-1024", new MlKem1024Service()],
+] as [string, KyberService][])("%s sealed box", (name, service) => {
+    const box = new SealedBox(service);
+    const [publicKey, privateKey] = service.generateKyberKeys();
+    const message = Buffer.from("a message that is longer than one AES block");
+
+    it("Seals and opens messages", () => {
+        const sealed = box.seal(publicKey, message);
+        expect(sealed.length).toBe(message.length + box.overheadBytes);
+        expect(box.open(privateKey, sealed)).toEqual(new Uint8Array(message));
+        expect(box.seal(publicKey, message)).not.toEqual(sealed);
+        expect(box.open(privateKey, box.seal(publicKey, []))).toEqual(new Uint8Array(0));
+    });
+
+    it("Opens boxes with a private key seed", () => {
+        const seed = service.generateKyberSeed();
+        const [seedPublicKey] = service.generateKyberKeysFromSeed(seed);
+        expect(box.open(seed, box.seal(seedPublicKey, message))).toEqual(new Uint8Array(message));
+    });
+
+    it("Records the parameter set in the header", () => {
+        const sealed = box.seal(publicKey, message);
+        expect(Buffer.from(sealed.subarray(0, 5)).toString()).toBe("KSEAL");
+        expect(sealed[5]).toBe(1);
+        expect((sealed[7] << 8) | sealed[8]).toBe(256 * service.paramsK);
+    });
+
+    it("Rejects modified boxes and additional data", () => {
+        const aad = Buffer.from("header");
+        const sealed = box.seal(publicKey, message, aad);
+        expect(box.open(privateKey, sealed, aad)).toEqual(new Uint8Array(message));
+        expect(() => box.open(privateKey, sealed)).toThrow(SealedBoxOpenError);
+        expect(() => box.open(privateKey, sealed, Buffer.from("other"))).toThrow(SealedBoxOpenError);
+        for (const i of [9, 9 + service.cipherTextBytes(), sealed.length - 1]) {
+            const modified = sealed.slice();
+            modified[i] ^= 1;
+            expect(() => box.open(privateKey, modified, aad)).toThrow(SealedBoxOpenError);
+        }
+    });
+
+    it("Rejects boxes for another private key", () => {
+        const [, otherPrivateKey] = service.generateKyberKeys();
+        expect(() => box.open(otherPrivateKey, box.seal(publicKey, message))).toThrow(SealedBoxOpenError);
+    });
+
+    it("Rejects malformed boxes", () => {
+        const sealed = box.seal(publicKey, message);
+        expect(() => box.open(privateKey, sealed.subarray(0, box.overheadBytes - 1))).toThrow(SealedBoxError);
+        expect(() => box.open(privateKey, sealed.subarray(0, 4))).toThrow(SealedBoxError);
+        const version = sealed.slice();
+        version[5] = 2;
+        expect(() => box.open(privateKey, version)).toThrow(SealedBoxError);
+        const unknown = sealed.slice();
+        unknown[7] = 0x08;
+        expect(() => box.open(privateKey, unknown)).toThrow(SealedBoxError);
+    });
+});
+
+describe("Sealed box", () => {
+    it("Rejects boxes of other variants and parameter sets", () => {
+        const mlKem768 = new MlKem768Service();
+        const [publicKey, privateKey] = mlKem768.generateKyberKeys();
+        const sealed = new SealedBox(mlKem768).seal(publicKey, [1, 2, 3]);
+
+        const kyber = new SealedBox(new Kyber768Service());
+        expect(() => kyber.open(privateKey, sealed)).toThrow(SealedBoxError);
+        expect(() => kyber.open(privateKey, sealed)).not.toThrow(SealedBoxOpenError);
+
+        const mlKem512 = new MlKem512Service();
+        const [, otherPrivateKey] = mlKem512.generateKyberKeys();
+        expect(() => new SealedBox(mlKem512).open(otherPrivateKey, sealed)).toThrow(ParameterSetMismatchError);
+    });
+});
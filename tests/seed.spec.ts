@@ -0,0 +1,76 @@
+import 'jest';
+import { NistKatDrbg } from "../src/lib/nist-kat-drbg";
+import { InvalidSeedError } from "../src/lib/errors";
+import { RandomSource } from "../src/lib/random-source";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem768Handshake } from "../src/index";
+
+const entropyInput = new Array(NistKatDrbg.seedBytes).fill(0).map((_, i) => i);
+
+const services: [string, (randomSource?: RandomSource) => KyberService][] = [
+    ["Kyber768", (randomSource) => new Kyber768Service(randomSource)],
+    ["ML-KEM-512", (randomSource) => new MlKem512Service(randomSource)],
+];
+
+describe.each(services)('%s private key seeds', (name, createService) => {
+    it('generateKyberKeys expands a seed drawn like the expanded key', () => {
+        const keys = createService(new NistKatDrbg(entropyInput)).generateKyberKeys();
+        const service = createService(new NistKatDrbg(entropyInput));
+        const seed = service.generateKyberSeed();
+        expect(seed.length).toBe(KyberService.KyberSeedBytes);
+        expect(service.generateKyberKeysFromSeed(seed)).toEqual(keys);
+        expect(service.generateKyberKeysDeterministic(seed.subarray(0, 32), seed.subarray(32))).toEqual(keys);
+    });
+    it('decrypt accepts the seed or the expanded private key', () => {
+        const service = createService();
+        const seed = service.generateKyberSeed();
+        const [publicKey, privateKey] = service.generateKyberKeysFromSeed(seed);
+        const [cipherText, sharedSecret] = service.encrypt(publicKey);
+
+        expect(service.expandPrivateKey(seed)).toEqual(privateKey);
+        expect(service.expandPrivateKey(privateKey)).toBe(privateKey);
+        expect(service.decrypt(cipherText, seed)).toEqual(sharedSecret);
+        expect(service.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+    });
+    it('Checks that a seed and an expanded key belong together', () => {
+        const service = createService();
+        const seed = service.generateKyberSeed();
+        const [, privateKey] = service.generateKyberKeysFromSeed(seed);
+        const [, otherPrivateKey] = service.generateKyberKeys();
+        expect(service.validatePrivateKeySeed(seed, privateKey)).toBe(true);
+        expect(service.validatePrivateKeySeed(seed, otherPrivateKey)).toBe(false);
+        expect(service.validatePrivateKeySeed(seed, privateKey.subarray(1))).toBe(false);
+    });
+    it('Rejects seeds that are not 64 bytes', () => {
+        const service = createService();
+        expect(() => service.generateKyberKeysFromSeed(new Uint8Array(63))).toThrow(InvalidSeedError);
+    });
+});
+
+describe('Handshake private key seeds', () => {
+    it('Keeps the seed the handshake keys were expanded from', () => {
+        const bobHandshake = new MlKem768Handshake();
+        expect(bobHandshake.privateKeySeed.length).toBe(KyberService.KyberSeedBytes);
+        expect(bobHandshake.privateKey.length).toBe(KyberService.Kyber768SKBytes);
+    });
+    it('Accepts a seed as the private key', () => {
+        const bobHandshake = new MlKem768Handshake();
+        const aliceHandshake = new MlKem768Handshake();
+        const seed = bobHandshake.privateKeySeed;
+        const privateKey = bobHandshake.privateKey;
+
+        const restored = new MlKem768Handshake();
+        restored.publicKey = bobHandshake.publicKey;
+        restored.privateKey = seed;
+        expect(restored.privateKey).toEqual(privateKey);
+        expect(restored.privateKeySeed).toEqual(seed);
+
+        const cipherText = aliceHandshake.generateCipherTextAndSharedSecret(bobHandshake.publicKey);
+        expect(restored.generateRemoteSharedSecret(cipherText)).toEqual(aliceHandshake.sharedSecret);
+
+        restored.privateKey = privateKey;
+        expect(restored.privateKeySeed.length).toBe(0);
+    });
+});
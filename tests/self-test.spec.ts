@@ -0,0 +1,125 @@
+import 'jest';
+import { SelfTestError } from "../src/lib/errors";
+import { clearSelfTestError, enableSelfTests, getSelfTestStatus, resetSelfTests, runSelfTest } from "../src/lib/self-test";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber768_90sService } from "../src/services/kyber768-90s.service";
+import { Kyber1024Service } from "../src/services/kyber1024.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { HybridHandshake } from "../src/data/hybrid-handshake";
+import * as entryPoint from "../src/index";
+import { Kyber512Handshake } from "../src/index";
+
+describe("Self-tests", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+        resetSelfTests();
+    });
+
+    it("Do nothing until enabled", () => {
+        new MlKem512Service().generateKyberKeys();
+        expect(getSelfTestStatus()).toEqual({ enabled: false, passed: [] });
+    });
+
+    it("Run the known-answer test of each algorithm on first use", () => {
+        enableSelfTests();
+        const service = new Kyber512Service();
+        const [publicKey, privateKey] = service.generateKyberKeys();
+        expect(getSelfTestStatus()).toEqual({ enabled: true, passed: ["Kyber512"] });
+
+        const spy = jest.spyOn(service, "generateKyberKeysDeterministic");
+        const [cipherText, sharedSecret] = service.encrypt(publicKey);
+        expect(service.decrypt(cipherText, privateKey)).toEqual(sharedSecret);
+        expect(spy).not.toHaveBeenCalled();
+
+        new MlKem768Service().generateKyberKeys();
+        expect(getSelfTestStatus().passed).toEqual(["Kyber512", "ML-KEM-768"]);
+    });
+
+    it.each([
+        ["Kyber1024", () => new Kyber1024Service()],
+        ["Kyber768-90s", () => new Kyber768_90sService()],
+        ["ML-KEM-512", () => new MlKem512Service()],
+    ] as [string, () => KyberService][])("Pass the known-answer test of %s", (name, createService) => {
+        runSelfTest(createService());
+        expect(getSelfTestStatus().passed).toEqual([name]);
+    });
+
+    it("Enter the error state when the known-answer test fails", () => {
+        enableSelfTests();
+        const service = new MlKem768Service();
+        jest.spyOn(service.symmetric, "hashG").mockImplementation(() => new Uint8Array(64));
+        expect(() => service.generateKyberKeys()).toThrow(SelfTestError);
+
+        const status = getSelfTestStatus();
+        expect(status.passed).toEqual([]);
+        expect(status.error).toBe("ML-KEM-768 known-answer test produced unexpected values");
+        expect(() => service.generateKyberKeys()).toThrow(SelfTestError);
+        expect(() => new Kyber512Service().generateKyberKeys()).toThrow(/refused/);
+    });
+
+    it("Clear the error state only when the known-answer tests pass again", () => {
+        enableSelfTests();
+        runSelfTest(new Kyber512Service());
+        const service = new MlKem768Service();
+        const hashG = jest.spyOn(service.symmetric, "hashG").mockImplementation(() => new Uint8Array(64));
+        expect(() => service.generateKyberKeys()).toThrow(SelfTestError);
+
+        // the SHAKE primitives are shared, so Kyber512 now fails as well
+        expect(() => clearSelfTestError()).toThrow("known-answer test produced unexpected values");
+        expect(getSelfTestStatus().error).toMatch(/known-answer test produced unexpected values$/);
+        expect(() => new Kyber512Service().generateKyberKeys()).toThrow(/refused/);
+
+        hashG.mockRestore();
+        const kat = jest.spyOn(service, "generateKyberKeysDeterministic");
+        clearSelfTestError();
+        expect(kat).toHaveBeenCalled();
+        const status = getSelfTestStatus();
+        expect(status.error).toBeUndefined();
+        expect(status.passed.sort()).toEqual(["Kyber512", "ML-KEM-768"]);
+        expect(() => service.generateKyberKeys()).not.toThrow();
+        expect(() => new Kyber512Service().generateKyberKeys()).not.toThrow();
+    });
+
+    it("Keep resetting out of the package entry point", () => {
+        expect("resetSelfTests" in entryPoint).toBe(false);
+        expect(entryPoint.clearSelfTestError).toBe(clearSelfTestError);
+    });
+
+    it("Enter the error state when the pairwise consistency test fails", () => {
+        enableSelfTests();
+        const service = new Kyber512Service();
+        const [publicKey, privateKey] = service.generateKyberKeys();
+        const parsed = service.parsePrivateKey(privateKey);
+        const [cipherText] = service.encrypt(publicKey);
+        jest.spyOn(service, "decrypt").mockImplementation(() => new Uint8Array(32));
+        expect(() => service.generateKyberKeys()).toThrow("Kyber512 pairwise consistency test failed");
+        jest.restoreAllMocks();
+
+        expect(getSelfTestStatus().error).toBe("Kyber512 pairwise consistency test failed");
+        expect(() => parsed.decapsulate(cipherText)).toThrow(SelfTestError);
+        expect(() => service.encrypt(publicKey)).toThrow(SelfTestError);
+
+        clearSelfTestError();
+        expect(getSelfTestStatus().error).toBeUndefined();
+        expect(parsed.decapsulate(cipherText).length).toBe(32);
+    });
+
+    it("Run the pairwise consistency test on handshake keys", () => {
+        enableSelfTests();
+        runSelfTest(new Kyber512Service());
+        runSelfTest(new MlKem768Service());
+        new Kyber512Handshake();
+        new HybridHandshake();
+
+        const spy = jest.spyOn(KyberService.prototype, "decrypt").mockImplementation(() => new Uint8Array(32));
+        expect(() => new Kyber512Handshake()).toThrow("Kyber512 pairwise consistency test failed");
+        resetSelfTests();
+        enableSelfTests();
+        spy.mockRestore();
+        runSelfTest(new MlKem768Service());
+        jest.spyOn(KyberService.prototype, "decrypt").mockImplementation(() => new Uint8Array(32));
+        expect(() => new HybridHandshake()).toThrow("ML-KEM-768 pairwise consistency test failed");
+    });
+});
@@ -0,0 +1,82 @@
+import 'jest';
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber768_90sService } from "../src/services/kyber768-90s.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+import { MlKem768Handshake } from "../src/index";
+
+const services: [string, () => KyberService][] = [
+    ["Kyber512", () => new Kyber512Service()],
+    ["Kyber768-90s", () => new Kyber768_90sService()],
+    ["ML-KEM-768", () => new MlKem768Service()],
+    ["ML-KEM-1024", () => new MlKem1024Service()],
+];
+
+describe.each(services)('%s key validation', (name, createService) => {
+    let service: KyberService;
+    let publicKey: Uint8Array;
+    let privateKey: Uint8Array;
+
+    beforeAll(() => {
+        service = createService();
+        [publicKey, privateKey] = service.generateKyberKeys();
+    });
+    it('Accepts generated keys', () => {
+        expect(service.validatePublicKey(publicKey)).toBe(true);
+        expect(service.validatePrivateKey(privateKey)).toBe(true);
+        expect(service.validatePublicKey(Array.from(publicKey))).toBe(true);
+    });
+    it('Rejects a public key of the wrong length', () => {
+        const truncated = publicKey.subarray(0, publicKey.length - 1);
+        expect(service.validatePublicKey(truncated)).toBe(false);
+        expect(() => service.encrypt(truncated)).toThrow("public key must be " + publicKey.length + " bytes");
+    });
+    it('Rejects a public key with a coefficient that is not reduced modulo q', () => {
+        // the last coefficient of the first polynomial becomes 0xFFF
+        const tampered = publicKey.slice();
+        tampered[382] |= 0xF0;
+        tampered[383] = 0xFF;
+        expect(service.validatePublicKey(tampered)).toBe(false);
+        expect(() => service.encrypt(tampered)).toThrow("not reduced modulo q");
+
+        // a coefficient of exactly q
+        const q = publicKey.slice();
+        q[0] = 3329 & 0xFF;
+        q[1] = (q[1] & 0xF0) | (3329 >> 8);
+        expect(service.validatePublicKey(q)).toBe(false);
+    });
+    it('Rejects a private key whose stored public key hash does not match', () => {
+        const tampered = privateKey.slice();
+        tampered[privateKey.length - 2 * KyberService.paramsSymBytes] ^= 1;
+        expect(service.validatePrivateKey(tampered)).toBe(false);
+
+        const [cipherText] = service.encrypt(publicKey);
+        expect(() => service.decrypt(cipherText, tampered)).toThrow("public key hash");
+        expect(() => service.decrypt(cipherText, privateKey.subarray(1))).toThrow("private key must be");
+    });
+    it('Rejects a cipher text of the wrong length', () => {
+        const [cipherText] = service.encrypt(publicKey);
+        expect(() => service.decrypt(cipherText.subarray(1), privateKey)).toThrow("cipher text must be " + cipherText.length + " bytes");
+        expect(() => service.decrypt(new Uint8Array(0), privateKey)).toThrow();
+    });
+});
+
+describe('Handshake input validation', () => {
+    it('Leaves the handshake unchanged when the remote public key is invalid', () => {
+        const bobHandshake = new MlKem768Handshake();
+        const aliceHandshake = new MlKem768Handshake();
+        const invalid = bobHandshake.publicKey.slice();
+        invalid[0] = 0xFF;
+        invalid[1] = 0xFF;
+        expect(() => aliceHandshake.generateCipherTextAndSharedSecret(invalid)).toThrow();
+        expect(aliceHandshake.remotePublicKey.length).toBe(0);
+        expect(aliceHandshake.cipherText.length).toBe(0);
+    });
+    it('Leaves the handshake unchanged when the remote cipher text is invalid', () => {
+        const bobHandshake = new MlKem768Handshake();
+        expect(() => bobHandshake.generateRemoteSharedSecret(new Uint8Array(10))).toThrow();
+        expect(bobHandshake.remoteCipherText.length).toBe(0);
+        expect(bobHandshake.remoteSharedSecret.length).toBe(0);
+    });
+});
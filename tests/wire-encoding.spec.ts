@@ -0,0 +1,93 @@
+import 'jest';
+import { Buffer } from "buffer";
+import {
+    decodeCipherText,
+    decodePublicKey,
+    decodeSharedSecret,
+    encodeCipherText,
+    encodePublicKey,
+    encodeSharedSecret
+} from "../src/lib/wire-encoding";
+import { InvalidKeyEncodingError, ParameterSetMismatchError } from "../src/lib/errors";
+import { KyberService } from "../src/services/kyber.service";
+import { Kyber512Service } from "../src/services/kyber512.service";
+import { Kyber768Service } from "../src/services/kyber768.service";
+import { Kyber1024Service } from "../src/services/kyber1024.service";
+import { Kyber768_90sService } from "../src/services/kyber768-90s.service";
+import { MlKem512Service } from "../src/services/mlkem512.service";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { MlKem1024Service } from "../src/services/mlkem1024.service";
+
+const services: [string, () => KyberService, number, number][] = [
+    ["Kyber512", () => new Kyber512Service(), KyberService.KyberEncoded512PKBytes, KyberService.KyberEncoded512CTBytes],
+    ["Kyber768", () => new Kyber768Service(), KyberService.KyberEncoded768PKBytes, KyberService.KyberEncoded768CTBytes],
+    ["Kyber1024", () => new Kyber1024Service(), KyberService.KyberEncoded1024PKBytes, KyberService.KyberEncoded1024CTBytes],
+    ["Kyber768-90s", () => new Kyber768_90sService(), KyberService.KyberEncoded768PKBytes, KyberService.KyberEncoded768CTBytes],
+    ["ML-KEM-512", () => new MlKem512Service(), KyberService.KyberEncoded512PKBytes, KyberService.KyberEncoded512CTBytes],
+    ["ML-KEM-768", () => new MlKem768Service(), KyberService.KyberEncoded768PKBytes, KyberService.KyberEncoded768CTBytes],
+    ["ML-KEM-1024", () => new MlKem1024Service(), KyberService.KyberEncoded1024PKBytes, KyberService.KyberEncoded1024CTBytes],
+];
+
+describe.each(services)('%s wire encoding', (name, createService, encodedPKBytes, encodedCTBytes) => {
+    const service = createService();
+    const [publicKey, privateKey] = service.generateKyberKeys();
+    const [cipherText, sharedSecret] = service.encrypt(publicKey);
+
+    it('Round trips public keys, cipher texts and shared secrets at the KyberEncoded* lengths', () => {
+        const encodedPublicKey = encodePublicKey(service, publicKey);
+        const encodedCipherText = encodeCipherText(service, cipherText, publicKey);
+        const encodedSharedSecret = encodeSharedSecret(service, sharedSecret, publicKey);
+        expect(encodedPublicKey.length).toBe(encodedPKBytes);
+        expect(encodedCipherText.length).toBe(encodedCTBytes);
+        expect(encodedSharedSecret.length).toBe(KyberService.KyberEncodedSSBytes);
+
+        expect(decodePublicKey(service, encodedPublicKey)).toEqual(publicKey);
+        expect(decodeCipherText(service, encodedCipherText, publicKey)).toEqual(cipherText);
+        expect(decodeSharedSecret(service, encodedSharedSecret, publicKey)).toEqual(sharedSecret);
+        expect(service.decrypt(decodeCipherText(service, encodedCipherText), privateKey)).toEqual(sharedSecret);
+    });
+    it('Rejects corrupted encodings', () => {
+        const encodedPublicKey = encodePublicKey(service, publicKey);
+        for (const i of [0, 6, 40, 100, encodedPublicKey.length - 1]) {
+            const corrupted = encodedPublicKey.slice();
+            corrupted[i] ^= 1;
+            expect(() => decodePublicKey(service, corrupted)).toThrow(InvalidKeyEncodingError);
+        }
+    });
+});
+
+describe('Wire encoding', () => {
+    const service = new MlKem768Service();
+    const [publicKey] = service.generateKyberKeys();
+    const [otherPublicKey] = service.generateKyberKeys();
+    const [cipherText, sharedSecret] = service.encrypt(publicKey);
+
+    it('Writes the header, key ID, lengths, payload and checksum', () => {
+        const encoded = Buffer.from(encodeCipherText(service, cipherText, publicKey));
+        expect(encoded.subarray(0, 9).toString("hex")).toBe("4b5942455201020000");
+        expect(encoded.subarray(9, 33).toString("latin1")).toBe("ML-KEM" + "\0".repeat(18));
+        expect(encoded.subarray(33, 97)).toEqual(Buffer.from(service.symmetric.hashG(publicKey)));
+        expect(encoded.subarray(97, 103).toString("hex")).toBe("030000000440");
+        expect(encoded.subarray(103, 103 + cipherText.length)).toEqual(Buffer.from(cipherText));
+        expect(encoded.subarray(103 + cipherText.length)).toEqual(Buffer.from(service.symmetric.hashG(encoded.subarray(0, 103 + cipherText.length))));
+
+        const encodedSharedSecret = Buffer.from(encodeSharedSecret(service, sharedSecret, publicKey));
+        expect(encodedSharedSecret.subarray(97, 129)).toEqual(Buffer.from(sharedSecret));
+    });
+    it('Rejects values that belong to another public key', () => {
+        expect(() => decodeCipherText(service, encodeCipherText(service, cipherText, publicKey), otherPublicKey)).toThrow(InvalidKeyEncodingError);
+        expect(() => decodeSharedSecret(service, encodeSharedSecret(service, sharedSecret, publicKey), otherPublicKey)).toThrow(InvalidKeyEncodingError);
+    });
+    it('Rejects encodings of another type, variant or parameter set', () => {
+        const mlKem1024 = new MlKem1024Service();
+        const [publicKey1024] = mlKem1024.generateKyberKeys();
+        const [cipherText1024] = mlKem1024.encrypt(publicKey1024);
+        // encoded ML-KEM-1024 public keys and cipher texts have the same length
+        expect(() => decodeCipherText(mlKem1024, encodePublicKey(mlKem1024, publicKey1024))).toThrow(InvalidKeyEncodingError);
+        expect(() => decodePublicKey(mlKem1024, encodeCipherText(mlKem1024, cipherText1024, publicKey1024))).toThrow(InvalidKeyEncodingError);
+        expect(() => decodePublicKey(service, encodePublicKey(mlKem1024, publicKey1024))).toThrow(ParameterSetMismatchError);
+        expect(() => decodePublicKey(new Kyber768Service(), encodePublicKey(service, publicKey))).toThrow(InvalidKeyEncodingError);
+        // shared secrets have the same length in every parameter set
+        expect(() => decodeSharedSecret(mlKem1024, encodeSharedSecret(service, sharedSecret, publicKey))).not.toThrow();
+    });
+});
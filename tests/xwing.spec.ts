@@ -0,0 +1,147 @@
+import 'jest';
+import { Buffer } from "buffer";
+import * as fs from "fs";
+import * as path from "path";
+import { SHAKE } from "sha3";
+import { HybridHandshake } from "../src/data/hybrid-handshake";
+import { HandshakeStateError, InvalidCiphertextError, InvalidCiphertextLengthError, InvalidPrivateKeyError, InvalidPublicKeyError, InvalidSeedError } from "../src/lib/errors";
+import { x25519, x25519PublicKey } from "../src/lib/x25519";
+import { MlKem768Service } from "../src/services/mlkem768.service";
+import { XWingService } from "../src/services/xwing.service";
+
+function hex(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value, "hex"));
+}
+
+interface XWingVector {
+    seed: string;
+    sk?: string;
+    pk: string;
+    eseed: string;
+    ct: string;
+    ss: string;
+}
+
+function readVectors(file: string): XWingVector[] {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, "kat", "x-wing", file), "utf8"));
+}
+
+// test vectors of the draft-connolly-cfrg-xwing-kem appendix
+const draftVectors = readVectors("draft-vectors.json");
+// further vectors computed with the ml_kem768_x25519 of @noble/post-quantum
+const nobleVectors = readVectors("noble-vectors.json");
+
+describe("X25519", () => {
+    // RFC 7748 section 6.1
+    const alicePrivateKey = hex("77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a");
+    const alicePublicKey = hex("8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a");
+    const bobPrivateKey = hex("5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb");
+    const bobPublicKey = hex("de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f");
+    const sharedSecret = hex("4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742");
+
+    it("Matches the RFC 7748 Diffie-Hellman test vector", () => {
+        expect(x25519PublicKey(alicePrivateKey)).toEqual(alicePublicKey);
+        expect(x25519PublicKey(bobPrivateKey)).toEqual(bobPublicKey);
+        expect(x25519(alicePrivateKey, bobPublicKey)).toEqual(sharedSecret);
+        expect(x25519(bobPrivateKey, alicePublicKey)).toEqual(sharedSecret);
+    });
+
+    it("Rejects a low order public key", () => {
+        expect(() => x25519(alicePrivateKey, new Uint8Array(32))).toThrow();
+    });
+});
+
+describe("X-Wing", () => {
+    const service = new XWingService();
+    const seed = new Uint8Array(32).fill(7);
+    const [publicKey, privateKey] = service.generateKeysFromSeed(seed);
+
+    it("Generates keys from the SHAKE-256 expansion of the private key", () => {
+        const expanded = new Uint8Array(new SHAKE(256).update(Buffer.from(seed)).digest({ format: "binary", buffer: Buffer.alloc(96) }));
+        const [mlKemPublicKey] = new MlKem768Service().generateKyberKeysFromSeed(expanded.subarray(0, 64));
+        expect(publicKey).toEqual(new Uint8Array([...mlKemPublicKey, ...x25519PublicKey(expanded.subarray(64))]));
+        expect(publicKey.length).toBe(XWingService.XWingPKBytes);
+        expect(privateKey).toEqual(seed);
+        expect(service.publicKeyFromPrivateKey(privateKey)).toEqual(publicKey);
+    });
+
+    it("Takes the draft's vector inputs from the SHAKE-128 stream of the empty string", () => {
+        const stream = new SHAKE(128).digest({ format: "binary", buffer: Buffer.alloc(96 * draftVectors.length) });
+        draftVectors.forEach((vector, i) => {
+            expect(hex(vector.seed)).toEqual(new Uint8Array(stream.subarray(96 * i, 96 * i + 32)));
+            expect(hex(vector.eseed)).toEqual(new Uint8Array(stream.subarray(96 * i + 32, 96 * i + 96)));
+        });
+        expect(draftVectors.map((vector) => vector.ss)).toEqual([
+            "d2df0522128f09dd8e2c92b1e905c793d8f57a54c3da25861f10bf4ca613e384",
+            "f2e86241c64d60f6649fbc6c5b7d17180b780a3f34355e64a85749949c45f150",
+            "953f7f4e8c5b5049bdc771d1dffada0dd961477d1a2ae0988baa7ea6898d893f"
+        ]);
+    });
+
+    it.each(draftVectors.map((vector, i) => [i, vector]))("Matches draft test vector %d", (i, vector) => {
+        checkVector(vector);
+    });
+
+    it.each(nobleVectors.map((vector, i) => [i, vector]))("Matches @noble/post-quantum vector %d", (i, vector) => {
+        checkVector(vector);
+    });
+
+    function checkVector(vector: XWingVector): void {
+        const [vectorPublicKey, vectorPrivateKey] = service.generateKeysFromSeed(hex(vector.seed));
+        expect(vectorPublicKey).toEqual(hex(vector.pk));
+        expect(vectorPrivateKey).toEqual(hex(vector.sk ?? vector.seed));
+        const [cipherText, sharedSecret] = service.encryptDeterministic(vectorPublicKey, hex(vector.eseed));
+        expect(cipherText).toEqual(hex(vector.ct));
+        expect(sharedSecret).toEqual(hex(vector.ss));
+        expect(service.decrypt(hex(vector.ct), vectorPrivateKey)).toEqual(hex(vector.ss));
+    }
+
+    it("Rejects low order X25519 parts", () => {
+        const lowOrder = new Uint8Array(32);
+        const [cipherText] = service.encrypt(publicKey);
+        cipherText.set(lowOrder, 1088);
+        expect(() => service.decrypt(cipherText, privateKey)).toThrow(InvalidCiphertextError);
+        const lowOrderPublicKey = publicKey.slice();
+        lowOrderPublicKey.set(lowOrder, 1184);
+        expect(() => service.encrypt(lowOrderPublicKey)).toThrow(InvalidPublicKeyError);
+    });
+
+    it("Agrees on random shared secrets", () => {
+        const [randomPublicKey, randomPrivateKey] = service.generateKeys();
+        const [cipherText, sharedSecret] = service.encrypt(randomPublicKey);
+        expect(service.decrypt(cipherText, randomPrivateKey)).toEqual(sharedSecret);
+
+        cipherText[0] ^= 1;
+        expect(service.decrypt(cipherText, randomPrivateKey)).not.toEqual(sharedSecret);
+        cipherText[0] ^= 1;
+        cipherText[cipherText.length - 1] ^= 1;
+        expect(service.decrypt(cipherText, randomPrivateKey)).not.toEqual(sharedSecret);
+    });
+
+    it("Rejects inputs of the wrong length", () => {
+        expect(() => service.generateKeysFromSeed(new Uint8Array(64))).toThrow(InvalidPrivateKeyError);
+        expect(() => service.encrypt(publicKey.subarray(1))).toThrow(InvalidPublicKeyError);
+        expect(() => service.encryptDeterministic(publicKey, new Uint8Array(32))).toThrow(InvalidSeedError);
+        expect(() => service.decrypt(new Uint8Array(1088), privateKey)).toThrow(InvalidCiphertextLengthError);
+        expect(() => service.decrypt(new Uint8Array(1120), new Uint8Array(2400))).toThrow(InvalidPrivateKeyError);
+    });
+});
+
+describe("HybridHandshake", () => {
+    it("Agrees on a shared secret", () => {
+        const bob = new HybridHandshake();
+        const alice = new HybridHandshake();
+        const cipherText = alice.generateCipherTextAndSharedSecret(bob.publicKey);
+        expect(bob.generateRemoteSharedSecret(cipherText)).toEqual(alice.sharedSecret);
+        expect(alice.remotePublicKey).toEqual(bob.publicKey);
+        expect(bob.remoteCipherText).toEqual(cipherText);
+    });
+
+    it("Refuses a private key that does not belong to its public key", () => {
+        const bob = new HybridHandshake();
+        const alice = new HybridHandshake();
+        const cipherText = alice.generateCipherTextAndSharedSecret(bob.publicKey);
+        bob.privateKey = alice.privateKey;
+        expect(() => bob.generateRemoteSharedSecret(cipherText)).toThrow(HandshakeStateError);
+    });
+});